@@ -0,0 +1,41 @@
+/**
+ * Bundler loader: removes the answers from weekly quest files
+ *
+ * Applied to uke*_oppdrag.json in browser builds with a server backend (see
+ * next.config.ts), so kids can't read codes in devtools. Server code gets the
+ * full files. Must stay in step with stripQuestAnswers() in
+ * src/lib/quest-answers.ts (compared in quest-answers.test.ts).
+ *
+ * @param {string} source - The quest file (JSON array of quests)
+ * @returns {string} The same quests without answers
+ */
+module.exports = function stripQuestAnswers(source) {
+  const quests = JSON.parse(source);
+
+  const stripped = quests.map((quest) => {
+    const textOnly = { ...quest, kode: "" };
+    delete textOnly.alternative_koder;
+
+    if (quest.varianter) {
+      textOnly.varianter = Object.fromEntries(
+        Object.entries(quest.varianter).map(([level, variant]) => {
+          const variantText = { ...variant };
+          delete variantText.kode;
+          delete variantText.alternative_koder;
+          return [level, variantText];
+        }),
+      );
+    }
+
+    if (quest.decryption_challenge) {
+      textOnly.decryption_challenge = {
+        ...quest.decryption_challenge,
+        correctSequence: [],
+      };
+    }
+
+    return textOnly;
+  });
+
+  return JSON.stringify(stripped);
+};
@@ -1,8 +1,38 @@
+import path from "node:path";
 import type { NextConfig } from "next";
 
+// Quest answers stay on the server unless there is no server to ask
+// (localStorage mode) - see src/lib/quest-answers.ts
+const stripAnswersFromBrowser =
+  (process.env.NEXT_PUBLIC_STORAGE_BACKEND || "localStorage") !==
+  "localStorage";
+
+const QUEST_ANSWER_LOADER = "./loaders/strip-quest-answers.cjs";
+
 const nextConfig: NextConfig = {
   /* config options here */
   reactCompiler: true,
+  ...(stripAnswersFromBrowser && {
+    turbopack: {
+      rules: {
+        "uke*_oppdrag.json": {
+          condition: "browser",
+          loaders: [QUEST_ANSWER_LOADER],
+          as: "*.json",
+        },
+      },
+    },
+    // Same for `next build --webpack`
+    webpack: (config, { isServer }) => {
+      if (!isServer) {
+        config.module.rules.push({
+          test: /uke\d+_oppdrag\.json$/,
+          use: [path.resolve(QUEST_ANSWER_LOADER)],
+        });
+      }
+      return config;
+    },
+  }),
 };
 
 export default nextConfig;
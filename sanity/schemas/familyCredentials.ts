@@ -36,6 +36,95 @@ export const calendarEventType = defineType({
   ],
 });
 
+/**
+ * Quest Override object type for parent-authored changes to one day
+ * Fields left out keep the quest as written (see src/lib/quest-overrides.ts)
+ */
+export const questOverrideType = defineType({
+  name: "questOverride",
+  title: "Quest Override",
+  type: "object",
+  fields: [
+    {
+      name: "dag",
+      title: "Day",
+      type: "number",
+      validation: (Rule) => Rule.required().min(1).max(24),
+      description: "Quest day (1-24)",
+    },
+    { name: "tittel", title: "Title", type: "string" },
+    { name: "nissemail_tekst", title: "Mission Text", type: "text" },
+    { name: "kode", title: "Code", type: "string" },
+    {
+      name: "alternative_koder",
+      title: "Alternative Codes",
+      type: "array",
+      of: [{ type: "string" }],
+    },
+    { name: "dagbokinnlegg", title: "Diary Entry", type: "text" },
+    { name: "rampenissen_rampestrek", title: "Mischief Scene", type: "text" },
+    { name: "fysisk_hint", title: "Physical Hint", type: "text" },
+    { name: "oppsett_tid", title: "Setup Time", type: "string" },
+    {
+      name: "materialer_nødvendig",
+      title: "Materials",
+      type: "array",
+      of: [{ type: "string" }],
+    },
+    { name: "beste_rom", title: "Room", type: "string" },
+    { name: "hint_type", title: "Hint Type", type: "string" },
+  ],
+});
+
+/**
+ * Calendar Pause object type for dates when no new day unlocks
+ */
+export const calendarPauseType = defineType({
+  name: "calendarPause",
+  title: "Calendar Pause",
+  type: "object",
+  fields: [
+    {
+      name: "fra",
+      title: "From",
+      type: "date",
+      validation: (Rule) => Rule.required(),
+      description: "First paused date",
+    },
+    {
+      name: "til",
+      title: "To",
+      type: "date",
+      validation: (Rule) => Rule.required(),
+      description: "Last paused date (inclusive)",
+    },
+  ],
+});
+
+/**
+ * Child Profile object type: one game state per kid name
+ */
+export const childProfileType = defineType({
+  name: "childProfile",
+  title: "Child Profile",
+  type: "object",
+  fields: [
+    {
+      name: "id",
+      title: "Profile ID",
+      type: "string",
+      validation: (Rule) => Rule.required(),
+      description: "Stable id; the child's game state is in session ~id",
+    },
+    {
+      name: "navn",
+      title: "Name",
+      type: "string",
+      validation: (Rule) => Rule.required(),
+    },
+  ],
+});
+
 export const familyCredentials = defineType({
   name: "familyCredentials",
   title: "Family Credentials",
@@ -89,6 +178,14 @@ export const familyCredentials = defineType({
       description:
         "Names of children for Nice List personalization (required: 1-4)",
     },
+    {
+      name: "childProfiles",
+      title: "Child Profiles",
+      type: "array",
+      of: [{ type: "childProfile" }],
+      description:
+        "One profile per kid name, kept in sync with Kid Names by the app",
+    },
     {
       name: "friendNames",
       title: "Friend Names",
@@ -111,6 +208,55 @@ export const familyCredentials = defineType({
       initialValue: true,
       description: "Subscribe to daily mission reminder emails at 21:00",
     },
+    {
+      name: "season",
+      title: "Season",
+      type: "string",
+      description:
+        'Season pack id (e.g. "2025"). Empty = default season for this build',
+    },
+    {
+      name: "locale",
+      title: "Language",
+      type: "string",
+      options: {
+        list: [
+          { title: "Norsk bokmål", value: "nb" },
+          { title: "Norsk nynorsk", value: "nn" },
+          { title: "English", value: "en" },
+        ],
+      },
+      description:
+        "Language for the kids' app (UI and quest texts). Empty = nb",
+    },
+    {
+      name: "difficulty",
+      title: "Difficulty",
+      type: "string",
+      options: {
+        list: [
+          { title: "Lett (6-8 år)", value: "lett" },
+          { title: "Normal (9-12 år)", value: "normal" },
+          { title: "Utfordrende (12+ år)", value: "utfordrende" },
+        ],
+      },
+      description:
+        "Quest variant level (varianter in the quest files). Empty = normal",
+    },
+    {
+      name: "hintMode",
+      title: "Hint Mode",
+      type: "string",
+      options: {
+        list: [
+          { title: "Av (ingen hint)", value: "av" },
+          { title: "Normal", value: "normal" },
+          { title: "Raske hint (halv ventetid)", value: "rask" },
+        ],
+      },
+      description:
+        "Hint ladder in the code terminal (hint_trapp in the quest files). Empty = normal",
+    },
 
     // ============================================================
     // Metadata
@@ -128,6 +274,27 @@ export const familyCredentials = defineType({
       type: "datetime",
       description: "Timestamp of last recovery email sent (for rate limiting)",
     },
+    {
+      name: "parentTokensRevokedAt",
+      title: "Parent Tokens Revoked At",
+      type: "datetime",
+      description:
+        "Parent guide logins from before this time are invalid (see src/lib/parent-token.ts)",
+    },
+    {
+      name: "lastMagicLinkEmail",
+      title: "Last Magic Link Email",
+      type: "datetime",
+      description:
+        "Timestamp of last login link email sent (for rate limiting)",
+    },
+    {
+      name: "magicLinkUsedAt",
+      title: "Magic Link Used At",
+      type: "datetime",
+      description:
+        "Login links issued before this time are spent (see src/lib/parent-token.ts)",
+    },
 
     // ============================================================
     // Calendar Events (Custom family real-world events)
@@ -140,6 +307,40 @@ export const familyCredentials = defineType({
       description:
         "Custom real-world events for the calendar (e.g., birthday, family dinner)",
     },
+
+    // ============================================================
+    // Quest Overrides (Parent-authored changes to single days)
+    // ============================================================
+    {
+      name: "questOverrides",
+      title: "Quest Overrides",
+      type: "array",
+      of: [{ type: "questOverride" }],
+      description:
+        "Replacement hint, code, texts or whole day (from nissemor-guide/oppdrag)",
+    },
+    {
+      name: "calendarSchedule",
+      title: "Calendar Schedule",
+      type: "object",
+      description:
+        "Own start date and pauses (missing = December 1-24, see src/lib/calendar-schedule.ts)",
+      fields: [
+        {
+          name: "startdato",
+          title: "Start Date",
+          type: "date",
+          validation: (Rule) => Rule.required(),
+          description: "Date day 1 unlocks",
+        },
+        {
+          name: "pauser",
+          title: "Pauses",
+          type: "array",
+          of: [{ type: "calendarPause" }],
+        },
+      ],
+    },
   ],
   preview: {
     select: {
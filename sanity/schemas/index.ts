@@ -4,7 +4,13 @@
  * Export all schema types for Sanity Studio configuration
  */
 
-import { familyCredentials, calendarEventType } from "./familyCredentials";
+import {
+  familyCredentials,
+  calendarEventType,
+  questOverrideType,
+  calendarPauseType,
+  childProfileType,
+} from "./familyCredentials";
 import {
   userSession,
   submittedCodeType,
@@ -15,6 +21,9 @@ import {
   collectedSymbolType,
   decryptionAttemptType,
   failedAttemptType,
+  firstFailedAttemptType,
+  fieldTimestampType,
+  gameEventType,
   santaLetterType,
   brevfuglType,
 } from "./userSession";
@@ -31,7 +40,13 @@ export const schemaTypes = [
   collectedSymbolType,
   decryptionAttemptType,
   failedAttemptType,
+  firstFailedAttemptType,
+  fieldTimestampType,
+  gameEventType,
   santaLetterType,
   brevfuglType,
   calendarEventType,
+  questOverrideType,
+  calendarPauseType,
+  childProfileType,
 ];
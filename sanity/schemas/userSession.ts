@@ -146,6 +146,102 @@ export const failedAttemptType = defineType({
   ],
 });
 
+export const firstFailedAttemptType = defineType({
+  name: "firstFailedAttempt",
+  title: "First Failed Attempt",
+  type: "object",
+  fields: [
+    {
+      name: "day",
+      title: "Day",
+      type: "number",
+      validation: (Rule) => Rule.required().min(1).max(24),
+      description: "Quest day number",
+    },
+    {
+      name: "timestamp",
+      title: "Timestamp",
+      type: "datetime",
+      validation: (Rule) => Rule.required(),
+      description:
+        "When the first wrong code was submitted (hint ladder timer)",
+    },
+  ],
+});
+
+export const fieldTimestampType = defineType({
+  name: "fieldTimestamp",
+  title: "Field Timestamp",
+  type: "object",
+  fields: [
+    {
+      name: "field",
+      title: "Field",
+      type: "string",
+      validation: (Rule) => Rule.required(),
+      description: "Session field name (soundsEnabled, playerNames, ...)",
+    },
+    {
+      name: "updatedAt",
+      title: "Updated At",
+      type: "datetime",
+      validation: (Rule) => Rule.required(),
+      description: "When a device last wrote the field",
+    },
+  ],
+});
+
+export const gameEventType = defineType({
+  name: "gameEvent",
+  title: "Game Event",
+  type: "object",
+  fields: [
+    {
+      name: "id",
+      title: "Event ID",
+      type: "string",
+      validation: (Rule) => Rule.required(),
+    },
+    {
+      name: "type",
+      title: "Type",
+      type: "string",
+      validation: (Rule) => Rule.required(),
+      description:
+        "code-submitted, symbol-scanned, badge-awarded, decryption-attempted or parent-override",
+    },
+    {
+      name: "at",
+      title: "At",
+      type: "datetime",
+      validation: (Rule) => Rule.required(),
+    },
+    { name: "day", type: "number", description: "code-submitted" },
+    {
+      name: "result",
+      type: "string",
+      description: "code-submitted: riktig, nesten or feil",
+    },
+    { name: "input", type: "string", description: "What the kids typed" },
+    { name: "kode", type: "string", description: "Stored spelling (riktig)" },
+    { name: "symbolId", type: "string" },
+    { name: "badgeId", type: "string" },
+    { name: "challengeId", type: "string" },
+    { name: "correct", type: "boolean" },
+    { name: "correctCount", type: "number" },
+    {
+      name: "action",
+      type: "string",
+      description: "parent-override: what the parent changed",
+    },
+    {
+      name: "target",
+      type: "string",
+      description: "parent-override: badge, symbol or challenge id",
+    },
+  ],
+});
+
 export const santaLetterType = defineType({
   name: "santaLetter",
   title: "Santa Letter",
@@ -327,6 +423,14 @@ export const userSession = defineType({
       of: [{ type: "failedAttempt" }],
       description: "Array of quest days with failed attempt counts",
     },
+    {
+      name: "firstFailedAttempts",
+      title: "First Failed Code Attempts",
+      type: "array",
+      of: [{ type: "firstFailedAttempt" }],
+      description:
+        "When each day's first wrong code was submitted (time-based hints)",
+    },
 
     // ============================================================
     // Crisis Management
@@ -409,6 +513,37 @@ export const userSession = defineType({
       initialValue: 0,
       description: "Last diary entry day that was read (for scroll position)",
     },
+    {
+      name: "schemaVersion",
+      title: "Schema Version",
+      type: "number",
+      description:
+        "Layout version of the game fields, raised by client storage migrations",
+    },
+    {
+      name: "appliedMutations",
+      title: "Applied Mutations",
+      type: "array",
+      of: [{ type: "string" }],
+      description:
+        "Recent sync mutationIds, so replayed offline writes are applied once",
+    },
+    {
+      name: "fieldTimestamps",
+      title: "Field Timestamps",
+      type: "array",
+      of: [{ type: "fieldTimestamp" }],
+      description:
+        "When each setting was last written, so the latest device wins on sync",
+    },
+    {
+      name: "eventLog",
+      title: "Event Log",
+      type: "array",
+      of: [{ type: "gameEvent" }],
+      description:
+        "Append-only history of game changes (timeline, support debugging)",
+    },
   ],
   preview: {
     select: {
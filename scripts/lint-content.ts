@@ -0,0 +1,113 @@
+#!/usr/bin/env tsx
+/**
+ * Content Lint Script
+ *
+ * Checks season pack content (quests, eventyr, static files) and reports
+ * every error and warning in one pass. Unlike the build-time validation,
+ * it does not stop at the first problem.
+ *
+ * Usage:
+ *   # Lint all seasons, Markdown report to stdout
+ *   pnpm lint:content
+ *
+ *   # Lint a single season
+ *   pnpm lint:content --season 2025
+ *
+ *   # Machine-readable report
+ *   pnpm lint:content --format json
+ *
+ *   # Write report to a file
+ *   pnpm lint:content --format markdown --output content-report.md
+ *
+ * Exit codes:
+ *   0 - No errors (warnings are allowed)
+ *   1 - One or more errors, or invalid arguments
+ */
+
+import { writeFileSync } from "fs";
+import { resolve } from "path";
+import {
+  getAvailableSeasons,
+  getSeasonPack,
+  isKnownSeason,
+} from "../src/lib/season-packs";
+import {
+  formatLintReportMarkdown,
+  lintContent,
+} from "../src/lib/validators/content-linter";
+
+interface CLIArgs {
+  format: "json" | "markdown";
+  season: string | null;
+  output: string | null;
+}
+
+function parseArgs(): CLIArgs {
+  const args = process.argv.slice(2);
+
+  // Report format (--format json|markdown)
+  let format: "json" | "markdown" = "markdown";
+  const formatIndex = args.indexOf("--format");
+  if (formatIndex !== -1 && args[formatIndex + 1]) {
+    const value = args[formatIndex + 1];
+    if (value === "json") {
+      format = "json";
+    } else if (value === "markdown" || value === "md") {
+      format = "markdown";
+    } else {
+      console.error("❌ --format must be json or markdown");
+      process.exit(1);
+    }
+  }
+
+  // Single season (--season 2025)
+  let season: string | null = null;
+  const seasonIndex = args.indexOf("--season");
+  if (seasonIndex !== -1 && args[seasonIndex + 1]) {
+    season = args[seasonIndex + 1];
+    if (!isKnownSeason(season)) {
+      console.error(
+        `❌ Unknown season "${season}". Available: ${getAvailableSeasons()
+          .map((s) => s.id)
+          .join(", ")}`,
+      );
+      process.exit(1);
+    }
+  }
+
+  // Output file (--output report.md)
+  let output: string | null = null;
+  const outputIndex = args.indexOf("--output");
+  if (outputIndex !== -1 && args[outputIndex + 1]) {
+    output = resolve(process.cwd(), args[outputIndex + 1]);
+  }
+
+  return { format, season, output };
+}
+
+function main() {
+  const args = parseArgs();
+
+  const seasonIds = args.season
+    ? [args.season]
+    : getAvailableSeasons().map((s) => s.id);
+  const report = lintContent(seasonIds.map((id) => getSeasonPack(id)));
+
+  const formatted =
+    args.format === "json"
+      ? JSON.stringify(report, null, 2) + "\n"
+      : formatLintReportMarkdown(report);
+
+  if (args.output) {
+    writeFileSync(args.output, formatted, "utf-8");
+    console.error(
+      `📝 Report written to ${args.output} (${report.errorCount} errors, ${report.warningCount} warnings)`,
+    );
+  } else {
+    process.stdout.write(formatted);
+  }
+
+  process.exit(report.errorCount > 0 ? 1 : 0);
+}
+
+main();
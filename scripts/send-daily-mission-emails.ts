@@ -51,6 +51,7 @@ interface FamilyCredentials {
   parentEmail: string;
   emailSubscription?: boolean;
   createdAt: string;
+  season?: string;
 }
 
 interface CLIArgs {
@@ -297,7 +298,8 @@ async function main() {
     kidNames,
     parentEmail,
     emailSubscription,
-    createdAt
+    createdAt,
+    season
   }`;
 
   const families = await sanity.fetch<FamilyCredentials[]>(query, params);
@@ -360,14 +362,18 @@ async function main() {
     const token = generateUnsubscribeToken(family.sessionId);
     const unsubscribeUrl = `${BASE_URL}/api/unsubscribe?sessionId=${encodeURIComponent(family.sessionId)}&token=${token}`;
 
+    // Families replaying an older season get that season's mission
+    const familyMission =
+      getAllOppdrag(family.season).find((m) => m.dag === args.day) || mission;
+
     const success = await sendEmailWithRetry(
       family,
       args.day,
-      mission.tittel,
-      mission.nissemail_tekst,
-      mission.rampenissen_rampestrek,
-      mission.fysisk_hint,
-      mission.materialer_nødvendig || [],
+      familyMission.tittel,
+      familyMission.nissemail_tekst,
+      familyMission.rampenissen_rampestrek,
+      familyMission.fysisk_hint,
+      familyMission.materialer_nødvendig || [],
       unsubscribeUrl,
     );
 
@@ -0,0 +1,116 @@
+#!/usr/bin/env tsx
+/**
+ * Playthrough Simulation Script
+ *
+ * Plays all 24 days of a season headlessly (correct codes, symbol cards,
+ * decryption sequences and parent-validated bonusoppdrag) and prints what
+ * unlocked on each day. Fails if any badge, gated file or module could not
+ * be obtained.
+ *
+ * Usage:
+ *   # Simulate the default season, timeline to stdout
+ *   pnpm simulate
+ *
+ *   # Simulate a specific season
+ *   pnpm simulate --season 2025
+ *
+ *   # Play the easy variants
+ *   pnpm simulate --difficulty lett
+ *
+ *   # Machine-readable report
+ *   pnpm simulate --format json
+ *
+ * Exit codes:
+ *   0 - Everything was reachable (warnings are allowed)
+ *   1 - One or more failures, or invalid arguments
+ */
+
+import { getAvailableSeasons, isKnownSeason } from "../src/lib/season-packs";
+import {
+  DIFFICULTY_LEVELS,
+  isKnownDifficulty,
+} from "../src/lib/quest-variants";
+import type { OppdragNivå } from "../src/types/innhold";
+import {
+  formatPlaythroughTimeline,
+  simulatePlaythrough,
+} from "../src/lib/simulators/playthrough-simulator";
+
+interface CLIArgs {
+  format: "json" | "text";
+  season: string | undefined;
+  difficulty: OppdragNivå | undefined;
+}
+
+function parseArgs(): CLIArgs {
+  const args = process.argv.slice(2);
+
+  // Report format (--format json|text)
+  let format: "json" | "text" = "text";
+  const formatIndex = args.indexOf("--format");
+  if (formatIndex !== -1 && args[formatIndex + 1]) {
+    const value = args[formatIndex + 1];
+    if (value === "json" || value === "text") {
+      format = value;
+    } else {
+      console.error("❌ --format must be json or text");
+      process.exit(1);
+    }
+  }
+
+  // Season to simulate (--season 2025)
+  let season: string | undefined;
+  const seasonIndex = args.indexOf("--season");
+  if (seasonIndex !== -1 && args[seasonIndex + 1]) {
+    season = args[seasonIndex + 1];
+    if (!isKnownSeason(season)) {
+      console.error(
+        `❌ Unknown season "${season}". Available: ${getAvailableSeasons()
+          .map((s) => s.id)
+          .join(", ")}`,
+      );
+      process.exit(1);
+    }
+  }
+
+  // Variant level to play (--difficulty lett|normal|utfordrende)
+  let difficulty: OppdragNivå | undefined;
+  const difficultyIndex = args.indexOf("--difficulty");
+  if (difficultyIndex !== -1 && args[difficultyIndex + 1]) {
+    const value = args[difficultyIndex + 1];
+    if (!isKnownDifficulty(value)) {
+      console.error(
+        `❌ --difficulty must be one of ${DIFFICULTY_LEVELS.join(", ")}`,
+      );
+      process.exit(1);
+    }
+    difficulty = value;
+  }
+
+  return { format, season, difficulty };
+}
+
+async function main() {
+  const args = parseArgs();
+
+  // Engine debug logging drowns the timeline
+  console.debug = () => {};
+
+  const report = await simulatePlaythrough({
+    seasonId: args.season,
+    difficulty: args.difficulty,
+  });
+
+  process.stdout.write(
+    args.format === "json"
+      ? JSON.stringify(report, null, 2) + "\n"
+      : formatPlaythroughTimeline(report),
+  );
+
+  process.exit(report.failures.length > 0 ? 1 : 0);
+}
+
+main().catch((error) => {
+  console.error("❌ Simulation crashed:", error);
+  process.exit(1);
+});
@@ -0,0 +1,176 @@
+/**
+ * @jest-environment node
+ */
+
+/**
+ * Code Rotation API Route Tests
+ *
+ * Tests POST /api/auth/family/rotate:
+ * - Only parents can rotate codes
+ * - A new kid code moves the family (and child profiles) to a new session
+ * - A new parent code revokes the family's parent tokens
+ * - The new code can be sent by email
+ */
+
+// CRITICAL: next-test-api-route-handler MUST be imported first
+import "next-test-api-route-handler";
+
+import { testApiHandler } from "next-test-api-route-handler";
+import { describe, it, expect, afterAll } from "@jest/globals";
+import * as rotateRoute from "../route";
+import { getServerRepositories } from "@/lib/server-storage";
+import { generateKidCode, generateParentCode } from "@/lib/code-generator";
+import { createParentToken } from "@/lib/parent-token";
+
+// Track test sessions for cleanup (rotation changes them)
+const testSessions = new Set<string>();
+
+const createTestFamily = async () => {
+  const sessionId = `test_rotate_${Date.now()}_${Math.random().toString(36).substring(7)}`;
+  const kidCode = generateKidCode();
+  const parentCode = generateParentCode();
+  const { credentials, sessions } = getServerRepositories();
+
+  await credentials.create({
+    sessionId,
+    kidCode,
+    parentCode,
+    familyName: "Test Family",
+    kidNames: ["Emma", "Ola"],
+    childProfiles: [
+      { id: "emma", navn: "Emma" },
+      { id: "ola", navn: "Ola" },
+    ],
+    friendNames: [],
+    parentEmail: "test@example.com",
+    createdAt: new Date().toISOString(),
+  });
+  await sessions.create({ sessionId, submittedCodes: ["DAG1"] });
+  await sessions.create({ sessionId: `${sessionId}~emma`, submittedCodes: [] });
+  testSessions.add(sessionId);
+
+  // Issued a while ago, so a revocation in the same test always covers it
+  const parentToken = createParentToken(sessionId, Date.now() - 1000);
+  const cookie = `nissekomm-session=${sessionId}; nissekomm-parent-auth=${parentToken}`;
+
+  return { sessionId, kidCode, parentCode, cookie };
+};
+
+const rotate = async (cookie: string, body: Record<string, unknown>) => {
+  let result: {
+    status: number;
+    json: Record<string, unknown>;
+    cookies: string;
+  } = { status: 0, json: {}, cookies: "" };
+
+  await testApiHandler({
+    appHandler: rotateRoute,
+    test: async ({ fetch }) => {
+      const res = await fetch({
+        method: "POST",
+        headers: { cookie },
+        body: JSON.stringify(body),
+      });
+      result = {
+        status: res.status,
+        json: await res.json(),
+        cookies: res.headers.get("set-cookie") ?? "",
+      };
+    },
+  });
+
+  return result;
+};
+
+afterAll(async () => {
+  const { credentials, sessions } = getServerRepositories();
+  for (const sessionId of testSessions) {
+    await credentials.deleteBySessionId(sessionId).catch(() => {});
+    await sessions.deleteBySessionId(sessionId).catch(() => {});
+    await sessions.deleteBySessionId(`${sessionId}~emma`).catch(() => {});
+  }
+}, 15000);
+
+describe("POST /api/auth/family/rotate", () => {
+  it("should require parent authentication", async () => {
+    const { sessionId } = await createTestFamily();
+
+    const res = await rotate(`nissekomm-session=${sessionId}`, {
+      code: "kid",
+    });
+
+    expect(res.status).toBe(403);
+  });
+
+  it("should reject an unknown code type", async () => {
+    const { cookie } = await createTestFamily();
+
+    const res = await rotate(cookie, { code: "pin" });
+
+    expect(res.status).toBe(400);
+  });
+
+  it("should move the family to a new session with a new kid code", async () => {
+    const { sessionId, kidCode, cookie } = await createTestFamily();
+
+    const res = await rotate(cookie, { code: "kid" });
+
+    expect(res.status).toBe(200);
+    const newSessionId = res.json.sessionId as string;
+    testSessions.add(newSessionId);
+    expect(res.json.code).not.toBe(kidCode);
+    expect(newSessionId).not.toBe(sessionId);
+    expect(res.cookies).toContain(`nissekomm-session=${newSessionId}`);
+    expect(res.cookies).toContain("nissekomm-parent-auth=");
+
+    const { credentials, sessions } = getServerRepositories();
+    expect(await credentials.findBySessionId(sessionId)).toBeNull();
+    expect((await credentials.findBySessionId(newSessionId))?.kidCode).toBe(
+      res.json.code,
+    );
+
+    // Game state and child profiles come along; the old session is gone
+    expect(await sessions.findBySessionId(sessionId)).toBeNull();
+    expect(
+      (await sessions.findBySessionId(newSessionId))?.submittedCodes,
+    ).toEqual(["DAG1"]);
+    expect(
+      await sessions.findBySessionId(`${newSessionId}~emma`),
+    ).not.toBeNull();
+
+    // The old session and its parent token no longer work
+    expect((await rotate(cookie, { code: "kid" })).status).toBe(403);
+  });
+
+  it("should revoke parent tokens with a new parent code", async () => {
+    const { sessionId, parentCode, cookie } = await createTestFamily();
+
+    const res = await rotate(cookie, { code: "parent" });
+
+    expect(res.status).toBe(200);
+    expect(res.json.code).not.toBe(parentCode);
+    expect(res.json.sessionId).toBeUndefined();
+    expect(
+      (await getServerRepositories().credentials.findBySessionId(sessionId))
+        ?.parentCode,
+    ).toBe(res.json.code);
+
+    // The old token is revoked, the one just issued works
+    expect((await rotate(cookie, { code: "parent" })).status).toBe(403);
+    const newToken = /nissekomm-parent-auth=([^;]+)/.exec(res.cookies)?.[1];
+    const again = await rotate(
+      `nissekomm-session=${sessionId}; nissekomm-parent-auth=${newToken}`,
+      { code: "parent" },
+    );
+    expect(again.status).toBe(200);
+  });
+
+  it("should send the new code by email when asked", async () => {
+    const { cookie } = await createTestFamily();
+
+    const res = await rotate(cookie, { code: "parent", sendEmail: true });
+
+    expect(res.status).toBe(200);
+    expect(res.json.emailSent).toBe(true);
+  });
+});
@@ -0,0 +1,188 @@
+/**
+ * Code Rotation API Endpoint
+ *
+ * Replaces the family's kid or parent code, e.g. after a printout or the
+ * welcome email leaked it. Requires parent authentication.
+ *
+ * POST /api/auth/family/rotate
+ * Body: { code: "kid" | "parent", sendEmail?: boolean }
+ * Returns: { code: string, emailSent: boolean, sessionId?: string }
+ *
+ * New kid code: the family's game state moves to a new sessionId (the child
+ * profile sessions too), so every device logged in with the old code is
+ * logged out, and parent tokens issued for the old session stop working.
+ * This browser gets the new session (returned as sessionId) and a new
+ * parent token.
+ *
+ * New parent code: every parent token of the family is revoked; this
+ * browser gets a new one.
+ *
+ * New codes never collide with another family's. sendEmail: true sends the
+ * new code to the family's parent email (failures don't undo the rotation).
+ *
+ * NOTE: Only works with a server backend (Sanity or file). Returns 501 for localStorage mode.
+ */
+
+import { NextRequest } from "next/server";
+import { v4 as uuidv4 } from "uuid";
+import { getServerRepositories } from "@/lib/server-storage";
+import {
+  requireParentAuth,
+  requireCredentials,
+  successResponse,
+  errorResponse,
+  createErrorResponse,
+  setSessionCookie,
+  setParentAuthCookie,
+  revokeParentTokens,
+  type FamilyCredentials,
+} from "@/lib/api-utils";
+import {
+  generateKidCode,
+  generateParentCode,
+  getKidCodeOptions,
+} from "@/lib/code-generator";
+import { getProfileSessionId, syncChildProfiles } from "@/lib/child-profiles";
+import { sendCodeChangeEmail } from "@/lib/email-service";
+
+const STORAGE_BACKEND =
+  process.env.NEXT_PUBLIC_STORAGE_BACKEND || "localStorage";
+
+interface RotateRequest {
+  code?: string;
+  sendEmail?: boolean;
+}
+
+interface RotateResponse {
+  code: string;
+  emailSent: boolean;
+  sessionId?: string; // New session (kid code only)
+}
+
+/**
+ * Move the family's game state to a new session, then point the
+ * credentials at it with the new kid code
+ * Sessions already moved are moved back if a later step fails.
+ */
+async function moveFamilySession(
+  credentials: FamilyCredentials,
+  kidCode: string,
+  newSessionId: string,
+): Promise<void> {
+  const { sessions, credentials: credentialsRepository } =
+    getServerRepositories();
+  const profileIds = [
+    null,
+    ...syncChildProfiles(
+      credentials.kidNames || [],
+      credentials.childProfiles,
+    ).map((p) => p.id),
+  ];
+  const moved: Array<{ _id: string; sessionId: string }> = [];
+
+  try {
+    for (const profileId of profileIds) {
+      const from = profileId
+        ? getProfileSessionId(credentials.sessionId, profileId)
+        : credentials.sessionId;
+      const session = await sessions.findBySessionId(from);
+      if (!session) continue;
+
+      await sessions.update(session._id, {
+        sessionId: profileId
+          ? getProfileSessionId(newSessionId, profileId)
+          : newSessionId,
+      });
+      moved.push({ _id: session._id, sessionId: from });
+    }
+
+    await credentialsRepository.update(credentials._id, {
+      kidCode,
+      sessionId: newSessionId,
+    });
+  } catch (error) {
+    for (const { _id, sessionId } of moved) {
+      await sessions.update(_id, { sessionId }).catch((rollbackError) => {
+        console.error("[AUTH] Failed to move session back:", rollbackError);
+      });
+    }
+    throw error;
+  }
+}
+
+/**
+ * POST /api/auth/family/rotate
+ * Replace the kid or parent code
+ */
+export async function POST(request: NextRequest) {
+  try {
+    if (STORAGE_BACKEND === "localStorage") {
+      return errorResponse(
+        "Bytte av koder er kun tilgjengelig med serverlagring",
+        501,
+      );
+    }
+
+    const authResult = await requireParentAuth(request);
+    if ("error" in authResult) {
+      return authResult.error;
+    }
+
+    const credentialsResult = await requireCredentials(authResult.sessionId);
+    if ("error" in credentialsResult) {
+      return credentialsResult.error;
+    }
+
+    const { credentials } = credentialsResult;
+    const body = (await request.json()) as RotateRequest;
+
+    if (body.code !== "kid" && body.code !== "parent") {
+      return errorResponse("Velg barnekode eller foreldrekode");
+    }
+
+    // Existing codes (the family's own included) can't be handed out again
+    const existingCodes = await getServerRepositories().credentials.listCodes();
+
+    let code: string;
+    let sessionId = credentials.sessionId;
+
+    if (body.code === "kid") {
+      code = generateKidCode(
+        undefined,
+        existingCodes.map((c) => c.kidCode),
+        getKidCodeOptions(),
+      );
+      sessionId = uuidv4();
+      await moveFamilySession(credentials, code, sessionId);
+    } else {
+      code = generateParentCode(existingCodes.map((c) => c.parentCode));
+      await getServerRepositories().credentials.update(credentials._id, {
+        parentCode: code,
+      });
+      // A millisecond back, so the token issued below stays valid
+      await revokeParentTokens(credentials, Date.now() - 1);
+    }
+
+    console.info(`[AUTH] Rotated ${body.code} code`);
+
+    let emailSent = false;
+    if (body.sendEmail && credentials.parentEmail) {
+      emailSent = await sendCodeChangeEmail({
+        to: credentials.parentEmail,
+        familyName: credentials.familyName,
+        role: body.code,
+        code,
+      });
+    }
+
+    const response = successResponse({
+      code,
+      emailSent,
+      ...(body.code === "kid" && { sessionId }),
+    } as RotateResponse);
+    setSessionCookie(response, sessionId);
+    return setParentAuthCookie(response, sessionId);
+  } catch (error) {
+    return createErrorResponse(error, "Failed to rotate code");
+  }
+}
@@ -5,17 +5,17 @@
  * Requires parent authentication (parent auth cookie must match session).
  *
  * GET /api/auth/family
- * Returns: { familyName, kidNames, friendNames, email, kidCode, parentCode }
+ * Returns: { familyName, kidNames, friendNames, email, kidCode, parentCode, season, locale, difficulty, hintMode, questOverrides, calendarSchedule }
  *
  * PATCH /api/auth/family
- * Body: { familyName?, kidNames?, friendNames?, parentEmail? }
+ * Body: { familyName?, kidNames?, friendNames?, parentEmail?, locale?, difficulty?, hintMode?, questOverrides?, calendarSchedule? }
  * Updates allowed fields in familyCredentials document
  *
- * NOTE: Only works with Sanity backend. Returns 501 for localStorage mode.
+ * NOTE: Only works with a server backend (Sanity or file). Returns 501 for localStorage mode.
  */
 
 import { NextRequest } from "next/server";
-import { sanityServerClient } from "@/lib/sanity-client";
+import { getServerRepositories } from "@/lib/server-storage";
 import {
   requireParentAuth,
   requireCredentials,
@@ -23,7 +23,33 @@ import {
   errorResponse,
   createErrorResponse,
 } from "@/lib/api-utils";
-import type { CalendarEvent } from "@/types/innhold";
+import { syncChildProfiles } from "@/lib/child-profiles";
+import { resolveSeasonId } from "@/lib/season-packs";
+import { isKnownLocale, resolveLocale } from "@/lib/i18n";
+import {
+  applyVariant,
+  isKnownDifficulty,
+  resolveDifficulty,
+} from "@/lib/quest-variants";
+import { isKnownHintMode, resolveHintMode } from "@/lib/hint-ladder";
+import {
+  collectQuestOverrideErrors,
+  sanitizeQuestOverrides,
+} from "@/lib/quest-overrides";
+import {
+  collectScheduleErrors,
+  isDateKey,
+  sanitizeSchedule,
+} from "@/lib/calendar-schedule";
+import { getAllQuests } from "@/lib/data-loader";
+import type {
+  CalendarEvent,
+  HintModus,
+  Kalenderplan,
+  Locale,
+  OppdragNivå,
+  OppdragOverstyring,
+} from "@/types/innhold";
 
 interface FamilyResponse {
   familyName: string;
@@ -34,6 +60,12 @@ interface FamilyResponse {
   parentCode: string;
   createdAt: string;
   calendarEvents: CalendarEvent[];
+  season: string;
+  locale: Locale;
+  difficulty: OppdragNivå;
+  hintMode: HintModus;
+  questOverrides: OppdragOverstyring[];
+  calendarSchedule: Kalenderplan | null;
 }
 
 interface FamilyUpdateRequest {
@@ -42,10 +74,15 @@ interface FamilyUpdateRequest {
   friendNames?: string[];
   parentEmail?: string;
   calendarEvents?: CalendarEvent[];
+  locale?: string;
+  difficulty?: string;
+  hintMode?: string;
+  questOverrides?: OppdragOverstyring[];
+  calendarSchedule?: Kalenderplan | null; // null = back to December 1-24
 }
 
 /**
- * Check if we're in localStorage mode (no Sanity backend)
+ * Check if we're in localStorage mode (no server backend)
  */
 function isLocalStorageMode(): boolean {
   return (
@@ -63,13 +100,13 @@ export async function GET(request: NextRequest) {
     // localStorage mode: Return 501 Not Implemented
     if (isLocalStorageMode()) {
       return errorResponse(
-        "Familieinnstillinger er kun tilgjengelig med Sanity-backend. Vennligst sett NEXT_PUBLIC_STORAGE_BACKEND=sanity",
+        "Familieinnstillinger er kun tilgjengelig med serverlagring. Vennligst sett NEXT_PUBLIC_STORAGE_BACKEND=sanity eller file",
         501,
       );
     }
 
     // Require parent authentication
-    const authResult = requireParentAuth(request);
+    const authResult = await requireParentAuth(request);
     if ("error" in authResult) {
       return authResult.error;
     }
@@ -97,6 +134,12 @@ export async function GET(request: NextRequest) {
       parentCode: credentials.parentCode,
       createdAt: credentials.createdAt,
       calendarEvents: credentials.calendarEvents || [],
+      season: resolveSeasonId(credentials.season),
+      locale: resolveLocale(credentials.locale),
+      difficulty: resolveDifficulty(credentials.difficulty),
+      hintMode: resolveHintMode(credentials.hintMode),
+      questOverrides: sanitizeQuestOverrides(credentials.questOverrides),
+      calendarSchedule: sanitizeSchedule(credentials.calendarSchedule),
     } as FamilyResponse);
   } catch (error) {
     return createErrorResponse(error, "Failed to fetch family data");
@@ -110,7 +153,7 @@ export async function GET(request: NextRequest) {
 export async function PATCH(request: NextRequest) {
   try {
     // Require parent authentication
-    const authResult = requireParentAuth(request);
+    const authResult = await requireParentAuth(request);
     if ("error" in authResult) {
       return authResult.error;
     }
@@ -128,6 +171,7 @@ export async function PATCH(request: NextRequest) {
 
     // Build patch object with validation
     const patch: Record<string, unknown> = {};
+    const unsetFields: string[] = [];
 
     // Family name
     if (body.familyName !== undefined) {
@@ -157,6 +201,10 @@ export async function PATCH(request: NextRequest) {
         return errorResponse("Barnenavn kan maks være 20 tegn");
       }
       patch.kidNames = kidNames;
+      patch.childProfiles = syncChildProfiles(
+        kidNames,
+        credentials.childProfiles,
+      );
     }
 
     // Friend names (0-15 names, each max 60 chars)
@@ -209,45 +257,113 @@ export async function PATCH(request: NextRequest) {
       }));
     }
 
-    // If nothing to update
-    if (Object.keys(patch).length === 0) {
-      return errorResponse("Ingen endringer å lagre");
+    // Language for the kids' app
+    if (body.locale !== undefined) {
+      if (!isKnownLocale(body.locale)) {
+        return errorResponse("Ukjent språk");
+      }
+      patch.locale = body.locale;
+    }
+
+    // Difficulty level (picks quest variants)
+    if (body.difficulty !== undefined) {
+      if (!isKnownDifficulty(body.difficulty)) {
+        return errorResponse("Ukjent vanskelighetsgrad");
+      }
+      patch.difficulty = body.difficulty;
+    }
+
+    // Hint ladder in the code terminal
+    if (body.hintMode !== undefined) {
+      if (!isKnownHintMode(body.hintMode)) {
+        return errorResponse("Ukjent hint-innstilling");
+      }
+      patch.hintMode = body.hintMode;
     }
 
-    // Update in Sanity
-    await sanityServerClient.patch(credentials._id).set(patch).commit();
+    // Parent changes to single days (same rules as the quest files)
+    if (body.questOverrides !== undefined) {
+      if (!Array.isArray(body.questOverrides)) {
+        return errorResponse("Ugyldige endringer av oppdrag");
+      }
+      if (
+        body.questOverrides.some(
+          (o) => !Number.isInteger(o?.dag) || o.dag < 1 || o.dag > 24,
+        )
+      ) {
+        return errorResponse("Dag må være mellom 1 og 24");
+      }
 
-    // Also update playerNames in userSession if kidNames changed
-    if (patch.kidNames) {
-      const session = await sanityServerClient.fetch(
-        `*[_type == "userSession" && sessionId == $sessionId][0]`,
-        { sessionId },
+      const questOverrides = sanitizeQuestOverrides(body.questOverrides);
+      const difficulty = resolveDifficulty(
+        (patch.difficulty as string | undefined) ?? credentials.difficulty,
       );
+      const familyQuests = getAllQuests(
+        resolveSeasonId(credentials.season),
+      ).map((quest) => applyVariant(quest, difficulty));
+      const errors = collectQuestOverrideErrors(questOverrides, familyQuests);
+      if (errors.length > 0) {
+        return errorResponse(`Endringen er ikke gyldig: ${errors[0]}`);
+      }
+      patch.questOverrides = questOverrides;
+    }
 
-      if (session) {
-        await sanityServerClient
-          .patch(session._id)
-          .set({ playerNames: patch.kidNames })
-          .commit();
+    // Own start date and pauses (null = back to December 1-24)
+    if (body.calendarSchedule !== undefined) {
+      const schedule = body.calendarSchedule;
+      if (schedule === null) {
+        unsetFields.push("calendarSchedule");
+      } else {
+        if (!isDateKey(schedule?.startdato)) {
+          return errorResponse("Ugyldig startdato");
+        }
+        if (
+          schedule.pauser !== undefined &&
+          (!Array.isArray(schedule.pauser) ||
+            schedule.pauser.some(
+              (p) => !isDateKey(p?.fra) || !isDateKey(p?.til),
+            ))
+        ) {
+          return errorResponse("Ugyldig pause i kalenderen");
+        }
+
+        const calendarSchedule = sanitizeSchedule(schedule) as Kalenderplan;
+        const errors = collectScheduleErrors(calendarSchedule);
+        if (errors.length > 0) {
+          return errorResponse(`Kalenderen er ikke gyldig: ${errors[0]}`);
+        }
+        patch.calendarSchedule = calendarSchedule;
       }
     }
 
-    // Also update friendNames in userSession if friendNames changed
-    if (patch.friendNames !== undefined) {
-      const session = await sanityServerClient.fetch(
-        `*[_type == "userSession" && sessionId == $sessionId][0]`,
-        { sessionId },
-      );
+    // If nothing to update
+    if (Object.keys(patch).length === 0 && unsetFields.length === 0) {
+      return errorResponse("Ingen endringer å lagre");
+    }
+
+    const { sessions, credentials: credentialsRepository } =
+      getServerRepositories();
+    await credentialsRepository.update(credentials._id, patch, {
+      unset: unsetFields,
+    });
 
+    // Keep the names in userSession in step with the family settings
+    const sessionNames: Record<string, unknown> = {};
+    if (patch.kidNames) sessionNames.playerNames = patch.kidNames;
+    if (patch.friendNames !== undefined) {
+      sessionNames.friendNames = patch.friendNames;
+    }
+    if (Object.keys(sessionNames).length > 0) {
+      const session = await sessions.findBySessionId(sessionId);
       if (session) {
-        await sanityServerClient
-          .patch(session._id)
-          .set({ friendNames: patch.friendNames })
-          .commit();
+        await sessions.update(session._id, sessionNames);
       }
     }
 
-    return successResponse({ success: true, updated: Object.keys(patch) });
+    return successResponse({
+      success: true,
+      updated: [...Object.keys(patch), ...unsetFields],
+    });
   } catch (error) {
     return createErrorResponse(error, "Failed to update family data");
   }
@@ -7,28 +7,43 @@
  *
  * Tests the /api/auth/login endpoint for kid and parent code validation.
  * Tests both localStorage and Sanity backend modes.
+ * Tests the lockout after too many wrong codes from one IP, and that forged
+ * x-forwarded-for headers don't dodge it.
  */
 
 // CRITICAL: next-test-api-route-handler MUST be imported first
 import "next-test-api-route-handler";
 
 import { testApiHandler } from "next-test-api-route-handler";
-import { describe, it, expect, afterAll } from "@jest/globals";
+import {
+  describe,
+  it,
+  expect,
+  afterAll,
+  afterEach,
+  beforeEach,
+} from "@jest/globals";
+import { NextRequest } from "next/server";
 import * as loginRoute from "../../login/route";
-import { sanityServerClient } from "@/lib/sanity-client";
+import { getServerRepositories } from "@/lib/server-storage";
 import { generateKidCode, generateParentCode } from "@/lib/code-generator";
+import { getClientIp } from "@/lib/api-utils";
+import {
+  AUTH_RATE_LIMITS,
+  InMemoryRateLimitStore,
+  setRateLimitStore,
+} from "@/lib/rate-limiter";
 
 // Track test data for cleanup
 const testCredentials: Array<{ sessionId: string }> = [];
 
-// Helper to create test credentials directly in Sanity
+// Helper to create test credentials directly in the server store
 const createTestCredentials = async () => {
   const sessionId = `test_login_${Date.now()}_${Math.random().toString(36).substring(7)}`;
   const kidCode = generateKidCode();
   const parentCode = generateParentCode();
 
-  await sanityServerClient.create({
-    _type: "familyCredentials",
+  await getServerRepositories().credentials.create({
     sessionId,
     kidCode,
     parentCode,
@@ -46,13 +61,9 @@ const createTestCredentials = async () => {
 afterAll(async () => {
   const cleanupPromises = testCredentials.map(async (cred) => {
     try {
-      const doc = await sanityServerClient.fetch(
-        `*[_type == "familyCredentials" && sessionId == $sessionId][0]`,
-        { sessionId: cred.sessionId },
+      await getServerRepositories().credentials.deleteBySessionId(
+        cred.sessionId,
       );
-      if (doc?._id) {
-        await sanityServerClient.delete(doc._id);
-      }
     } catch {
       // Ignore cleanup errors
     }
@@ -232,4 +243,135 @@ describe("POST /api/auth/login", () => {
       });
     });
   });
+
+  describe("Rate Limiting", () => {
+    const { limit } = AUTH_RATE_LIMITS.login.perIp;
+
+    beforeEach(() => {
+      setRateLimitStore(new InMemoryRateLimitStore());
+    });
+
+    const login = (
+      fetch: (init: RequestInit) => Promise<Response>,
+      code: string,
+      ip: string,
+    ) =>
+      fetch({
+        method: "POST",
+        headers: { "Content-Type": "application/json", "x-forwarded-for": ip },
+        body: JSON.stringify({ code }),
+      });
+
+    it("should lock an IP out after too many wrong codes", async () => {
+      const { kidCode } = await createTestCredentials();
+
+      await testApiHandler({
+        appHandler: loginRoute,
+        test: async ({ fetch }) => {
+          for (let i = 0; i < limit; i++) {
+            const res = await login(fetch, "NORDPOL-FAKECODE", "203.0.113.7");
+            expect(res.status).toBe(401);
+          }
+
+          const locked = await login(fetch, "NORDPOL-FAKECODE", "203.0.113.7");
+          expect(locked.status).toBe(429);
+          expect(Number(locked.headers.get("Retry-After"))).toBeGreaterThan(0);
+
+          // Even the right code is refused while locked out
+          const right = await login(fetch, kidCode, "203.0.113.7");
+          expect(right.status).toBe(429);
+        },
+      });
+    });
+
+    it("should not lock out other IPs", async () => {
+      const { kidCode } = await createTestCredentials();
+
+      await testApiHandler({
+        appHandler: loginRoute,
+        test: async ({ fetch }) => {
+          for (let i = 0; i <= limit; i++) {
+            await login(fetch, "NORDPOL-FAKECODE", "203.0.113.8");
+          }
+
+          const res = await login(fetch, kidCode, "198.51.100.1");
+          expect(res.status).toBe(200);
+        },
+      });
+    });
+
+    it("should not let a spoofed x-forwarded-for dodge the lock", async () => {
+      const { kidCode } = await createTestCredentials();
+
+      await testApiHandler({
+        appHandler: loginRoute,
+        test: async ({ fetch }) => {
+          // The proxy appends the real address after whatever the client sent
+          for (let i = 0; i < limit; i++) {
+            const res = await login(
+              fetch,
+              "NORDPOL-FAKECODE",
+              `10.0.0.${i}, 203.0.113.9`,
+            );
+            expect(res.status).toBe(401);
+          }
+
+          const locked = await login(
+            fetch,
+            "NORDPOL-FAKECODE",
+            "10.0.0.99, 203.0.113.9",
+          );
+          expect(locked.status).toBe(429);
+
+          const right = await login(fetch, kidCode, "10.0.0.100, 203.0.113.9");
+          expect(right.status).toBe(429);
+        },
+      });
+    });
+
+    describe("without a proxy (TRUSTED_PROXY_COUNT=0)", () => {
+      const originalProxyCount = process.env.TRUSTED_PROXY_COUNT;
+
+      beforeEach(() => {
+        process.env.TRUSTED_PROXY_COUNT = "0";
+      });
+
+      afterEach(() => {
+        if (originalProxyCount === undefined) {
+          delete process.env.TRUSTED_PROXY_COUNT;
+        } else {
+          process.env.TRUSTED_PROXY_COUNT = originalProxyCount;
+        }
+      });
+
+      it("should not let a rotated x-forwarded-for dodge the lock", async () => {
+        await testApiHandler({
+          appHandler: loginRoute,
+          test: async ({ fetch }) => {
+            for (let i = 0; i < limit; i++) {
+              const res = await login(fetch, "NORDPOL-FAKECODE", `10.0.1.${i}`);
+              expect(res.status).toBe(401);
+            }
+
+            const locked = await login(fetch, "NORDPOL-FAKECODE", "10.0.1.99");
+            expect(locked.status).toBe(429);
+          },
+        });
+      });
+
+      it("should key on the socket address, not the headers", () => {
+        const request = Object.assign(
+          new NextRequest("http://localhost/api/auth/login", {
+            headers: {
+              "x-forwarded-for": "10.0.1.1",
+              "x-real-ip": "10.0.1.2",
+            },
+          }),
+          { ip: "203.0.113.10" },
+        );
+
+        expect(getClientIp(request)).toBe("203.0.113.10");
+      });
+    });
+  });
 });
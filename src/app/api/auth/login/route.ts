@@ -5,6 +5,8 @@
  * Used by both kids (daily login) and parents (guide access).
  *
  * Sets session cookie on successful login for server-side auth.
+ * Wrong codes are rate limited per IP and globally (see rate-limiter.ts);
+ * a locked-out client gets 429 with Retry-After.
  *
  * POST /api/auth/login
  * Body: { code: string }
@@ -12,14 +14,21 @@
  */
 
 import { NextRequest, NextResponse } from "next/server";
-import { sanityServerClient } from "@/lib/sanity-client";
+import { getServerRepositories } from "@/lib/server-storage";
 import { getCodeType } from "@/lib/code-generator";
 import {
   errorResponse,
   createErrorResponse,
   setSessionCookie,
   setParentAuthCookie,
+  getClientIp,
+  rateLimitedResponse,
 } from "@/lib/api-utils";
+import {
+  auditAuthAttempt,
+  checkRateLimit,
+  recordFailedAttempt,
+} from "@/lib/rate-limiter";
 
 interface LoginRequest {
   code: string;
@@ -30,8 +39,32 @@ interface LoginResponse {
   role: "kid" | "parent";
 }
 
+/**
+ * Count a wrong code; 429 if it locked the client out
+ */
+async function rejectCode(ip: string): Promise<NextResponse> {
+  const status = await recordFailedAttempt("login", ip);
+  if (!status.allowed) {
+    return rateLimitedResponse(status);
+  }
+  auditAuthAttempt({ scope: "login", ip, outcome: "failure" });
+  return errorResponse("Ugyldig kode", 401);
+}
+
 export async function POST(request: NextRequest) {
   try {
+    const ip = getClientIp(request);
+    const limit = await checkRateLimit("login", ip);
+    if (!limit.allowed) {
+      auditAuthAttempt({
+        scope: "login",
+        ip,
+        outcome: "blocked",
+        lockedBy: limit.lockedBy,
+      });
+      return rateLimitedResponse(limit);
+    }
+
     const body = (await request.json()) as LoginRequest;
 
     if (!body.code || typeof body.code !== "string") {
@@ -44,7 +77,7 @@ export async function POST(request: NextRequest) {
     const codeType = getCodeType(code);
 
     if (codeType === "invalid") {
-      return errorResponse("Ugyldig kode", 401);
+      return rejectCode(ip);
     }
 
     const backend = process.env.NEXT_PUBLIC_STORAGE_BACKEND || "localStorage";
@@ -64,22 +97,23 @@ export async function POST(request: NextRequest) {
       return response;
     }
 
-    // Sanity backend: Query database for credentials
-    const query =
-      codeType === "kid"
-        ? `*[_type == "familyCredentials" && kidCode == $code][0]`
-        : `*[_type == "familyCredentials" && parentCode == $code][0]`;
-
-    const credentials = await sanityServerClient.fetch<{
-      sessionId: string;
-      kidCode: string;
-      parentCode: string;
-    } | null>(query, { code });
+    // Server backend: Look up the family by code
+    const credentials = await getServerRepositories().credentials.findByCode(
+      code,
+      codeType,
+    );
 
     if (!credentials) {
-      return errorResponse("Ugyldig kode", 401);
+      return rejectCode(ip);
     }
 
+    auditAuthAttempt({
+      scope: "login",
+      ip,
+      outcome: "success",
+      role: codeType,
+    });
+
     const responseData: LoginResponse = {
       sessionId: credentials.sessionId,
       role: codeType,
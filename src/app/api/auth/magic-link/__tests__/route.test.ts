@@ -0,0 +1,239 @@
+/**
+ * @jest-environment node
+ */
+
+/**
+ * Magic Link API Route Tests
+ *
+ * Tests POST /api/auth/magic-link and POST /api/auth/magic-link/verify:
+ * - Requests get the same answer whether or not the email is registered
+ * - Requests are throttled per family and rate limited per IP
+ * - Email addresses never reach the logs
+ * - A link logs in once, with the session cookie and a parent token, even
+ *   when the same link is used twice at the same time
+ * - Spent, revoked and foreign tokens are refused
+ */
+
+// CRITICAL: next-test-api-route-handler MUST be imported first
+import "next-test-api-route-handler";
+
+import { testApiHandler } from "next-test-api-route-handler";
+import {
+  describe,
+  it,
+  expect,
+  afterAll,
+  beforeEach,
+  jest,
+} from "@jest/globals";
+import * as magicLinkRoute from "../route";
+import * as verifyRoute from "../verify/route";
+import { getServerRepositories } from "@/lib/server-storage";
+import { generateKidCode, generateParentCode } from "@/lib/code-generator";
+import { revokeParentTokens } from "@/lib/api-utils";
+import { createMagicLinkToken, createParentToken } from "@/lib/parent-token";
+import {
+  AUTH_RATE_LIMITS,
+  InMemoryRateLimitStore,
+  setRateLimitStore,
+} from "@/lib/rate-limiter";
+
+// Track test sessions for cleanup
+const testSessions: string[] = [];
+
+const createTestFamily = async () => {
+  const suffix = `${Date.now()}_${Math.random().toString(36).substring(7)}`;
+  const sessionId = `test_magic_${suffix}`;
+  const parentEmail = `magic_${suffix}@example.com`;
+
+  await getServerRepositories().credentials.create({
+    sessionId,
+    kidCode: generateKidCode(),
+    parentCode: generateParentCode(),
+    familyName: "Test Family",
+    kidNames: ["Emma"],
+    friendNames: [],
+    parentEmail,
+    createdAt: new Date().toISOString(),
+  });
+  testSessions.push(sessionId);
+
+  return { sessionId, parentEmail };
+};
+
+const findCredentials = (sessionId: string) =>
+  getServerRepositories().credentials.findBySessionId(sessionId);
+
+const requestLink = async (email: string, ip = "203.0.113.20") => {
+  let result = { status: 0, json: {} as Record<string, unknown> };
+
+  await testApiHandler({
+    appHandler: magicLinkRoute,
+    test: async ({ fetch }) => {
+      const res = await fetch({
+        method: "POST",
+        headers: { "Content-Type": "application/json", "x-forwarded-for": ip },
+        body: JSON.stringify({ email }),
+      });
+      result = { status: res.status, json: await res.json() };
+    },
+  });
+
+  return result;
+};
+
+const useLink = async (token: string) => {
+  let result = {
+    status: 0,
+    json: {} as Record<string, unknown>,
+    cookies: "",
+  };
+
+  await testApiHandler({
+    appHandler: verifyRoute,
+    test: async ({ fetch }) => {
+      const res = await fetch({
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ token }),
+      });
+      result = {
+        status: res.status,
+        json: await res.json(),
+        cookies: res.headers.get("set-cookie") ?? "",
+      };
+    },
+  });
+
+  return result;
+};
+
+afterAll(async () => {
+  for (const sessionId of testSessions) {
+    await getServerRepositories()
+      .credentials.deleteBySessionId(sessionId)
+      .catch(() => {});
+  }
+}, 15000);
+
+describe("POST /api/auth/magic-link", () => {
+  beforeEach(() => {
+    setRateLimitStore(new InMemoryRateLimitStore());
+  });
+
+  it("should give the same answer for registered and unknown emails", async () => {
+    const { sessionId, parentEmail } = await createTestFamily();
+
+    const registered = await requestLink(parentEmail.toUpperCase());
+    const unknown = await requestLink("nobody@example.com");
+    const invalid = await requestLink("not-an-email");
+
+    expect(registered).toEqual(unknown);
+    expect(invalid).toEqual(unknown);
+    expect(registered.status).toBe(200);
+    expect((await findCredentials(sessionId))?.lastMagicLinkEmail).toEqual(
+      expect.any(String),
+    );
+  });
+
+  it("should send at most one link a minute per family", async () => {
+    const { sessionId, parentEmail } = await createTestFamily();
+
+    await requestLink(parentEmail);
+    const sentAt = (await findCredentials(sessionId))?.lastMagicLinkEmail;
+    const again = await requestLink(parentEmail);
+
+    expect(again.status).toBe(200);
+    expect((await findCredentials(sessionId))?.lastMagicLinkEmail).toBe(sentAt);
+  });
+
+  it("should not log email addresses", async () => {
+    const { parentEmail } = await createTestFamily();
+    const log = jest.spyOn(console, "log").mockImplementation(() => {});
+    const error = jest.spyOn(console, "error").mockImplementation(() => {});
+
+    try {
+      await requestLink(parentEmail);
+      await requestLink(parentEmail);
+      await requestLink("nobody@example.com");
+
+      const logged = [...log.mock.calls, ...error.mock.calls].flat().join(" ");
+      expect(logged).not.toContain(parentEmail);
+      expect(logged).not.toContain("nobody@example.com");
+    } finally {
+      log.mockRestore();
+      error.mockRestore();
+    }
+  });
+
+  it("should lock an IP out after too many requests", async () => {
+    const { limit } = AUTH_RATE_LIMITS["magic-link"].perIp;
+
+    for (let i = 0; i < limit; i++) {
+      expect(
+        (await requestLink("nobody@example.com", "203.0.113.21")).status,
+      ).toBe(200);
+    }
+
+    const locked = await requestLink("nobody@example.com", "203.0.113.21");
+    expect(locked.status).toBe(429);
+  });
+});
+
+describe("POST /api/auth/magic-link/verify", () => {
+  it("should log in with the session cookie and a parent token", async () => {
+    const { sessionId } = await createTestFamily();
+
+    const res = await useLink(createMagicLinkToken(sessionId));
+
+    expect(res.status).toBe(200);
+    expect(res.json).toEqual({ sessionId, role: "parent" });
+    expect(res.cookies).toContain(`nissekomm-session=${sessionId}`);
+    expect(res.cookies).toContain("nissekomm-parent-auth=");
+  });
+
+  it("should only work once", async () => {
+    const { sessionId } = await createTestFamily();
+    const token = createMagicLinkToken(sessionId);
+
+    expect((await useLink(token)).status).toBe(200);
+    expect((await useLink(token)).status).toBe(401);
+  });
+
+  it("should only work once when used twice at the same time", async () => {
+    const { sessionId } = await createTestFamily();
+    const token = createMagicLinkToken(sessionId);
+
+    const results = await Promise.all([useLink(token), useLink(token)]);
+
+    expect(results.map((res) => res.status).sort()).toEqual([200, 401]);
+  });
+
+  it("should spend links requested before the one used", async () => {
+    const { sessionId } = await createTestFamily();
+    const older = createMagicLinkToken(sessionId, Date.now() - 1000);
+    const newer = createMagicLinkToken(sessionId);
+
+    expect((await useLink(newer)).status).toBe(200);
+    expect((await useLink(older)).status).toBe(401);
+  });
+
+  it("should refuse links from before a guide logout", async () => {
+    const { sessionId } = await createTestFamily();
+    const token = createMagicLinkToken(sessionId, Date.now() - 1000);
+
+    await revokeParentTokens((await findCredentials(sessionId))!);
+
+    expect((await useLink(token)).status).toBe(401);
+  });
+
+  it("should refuse parent tokens, garbage and retired sessions", async () => {
+    const { sessionId } = await createTestFamily();
+
+    expect((await useLink(createParentToken(sessionId))).status).toBe(401);
+    expect((await useLink("not-a-token")).status).toBe(401);
+    expect((await useLink(createMagicLinkToken("gone-session"))).status).toBe(
+      401,
+    );
+  });
+});
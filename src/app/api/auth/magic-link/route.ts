@@ -0,0 +1,125 @@
+/**
+ * Magic Link Request API Endpoint
+ *
+ * Sends a one-time login link for the parent guide to the registered parent
+ * email, so parents can log in without typing the parent code. The link
+ * holds a short-lived signed token (parent-token.ts) that
+ * /api/auth/magic-link/verify exchanges for a parent token.
+ *
+ * Same anti-enumeration behavior as /api/auth/recover: the answer is the
+ * same whether or not the email is registered, every request counts against
+ * the IP limits (see rate-limiter.ts), and each family gets at most one link
+ * per minute (silently). Like the auth audit log, the logs here never name
+ * the email address.
+ *
+ * POST /api/auth/magic-link
+ * Body: { email: string }
+ * Returns: { success: true, message: string } - Always returns success to prevent email enumeration
+ *
+ * NOTE: Only works with a server backend (Sanity or file). Returns 501 for localStorage mode.
+ */
+
+import { NextRequest } from "next/server";
+import { getServerRepositories } from "@/lib/server-storage";
+import {
+  successResponse,
+  errorResponse,
+  createErrorResponse,
+  getClientIp,
+  rateLimitedResponse,
+} from "@/lib/api-utils";
+import {
+  auditAuthAttempt,
+  checkRateLimit,
+  recordFailedAttempt,
+} from "@/lib/rate-limiter";
+import { createMagicLinkToken } from "@/lib/parent-token";
+import { sendMagicLinkEmail } from "@/lib/email-service";
+
+const STORAGE_BACKEND =
+  process.env.NEXT_PUBLIC_STORAGE_BACKEND || "localStorage";
+
+interface MagicLinkRequest {
+  email: string;
+}
+
+// Rate limit: 1 minute between login links
+const RATE_LIMIT_MS = 60 * 1000;
+
+const GENERIC_MESSAGE =
+  "Hvis e-posten er registrert, får du en innloggingslenke snart.";
+
+export async function POST(request: NextRequest) {
+  try {
+    if (STORAGE_BACKEND === "localStorage") {
+      return errorResponse(
+        "Innloggingslenke er kun tilgjengelig med serverlagring",
+        501,
+      );
+    }
+
+    const ip = getClientIp(request);
+    const limit = await checkRateLimit("magic-link", ip);
+    if (!limit.allowed) {
+      auditAuthAttempt({
+        scope: "magic-link",
+        ip,
+        outcome: "blocked",
+        lockedBy: limit.lockedBy,
+      });
+      return rateLimitedResponse(limit);
+    }
+
+    const status = await recordFailedAttempt("magic-link", ip);
+    if (!status.allowed) {
+      return rateLimitedResponse(status);
+    }
+
+    const body = (await request.json()) as MagicLinkRequest;
+
+    // Validate email format
+    const email = body.email?.trim().toLowerCase();
+    if (!email || !email.match(/^[^\s@]+@[^\s@]+\.[^\s@]+$/)) {
+      return successResponse({ success: true, message: GENERIC_MESSAGE });
+    }
+
+    const { credentials: credentialsRepository } = getServerRepositories();
+    const credentials = await credentialsRepository.findByEmail(email);
+
+    if (!credentials) {
+      console.log("[MagicLink] No credentials found for email");
+      return successResponse({ success: true, message: GENERIC_MESSAGE });
+    }
+
+    // Unlike recovery, a throttled request gets the generic answer too
+    if (credentials.lastMagicLinkEmail) {
+      const timeSinceLastEmail =
+        Date.now() - new Date(credentials.lastMagicLinkEmail).getTime();
+      if (timeSinceLastEmail < RATE_LIMIT_MS) {
+        console.log("[MagicLink] Rate limited for family");
+        return successResponse({ success: true, message: GENERIC_MESSAGE });
+      }
+    }
+
+    const emailSent = await sendMagicLinkEmail({
+      to: credentials.parentEmail ?? email,
+      familyName: credentials.familyName || undefined,
+      token: createMagicLinkToken(credentials.sessionId),
+    });
+
+    if (emailSent) {
+      await credentialsRepository.update(credentials._id, {
+        lastMagicLinkEmail: new Date().toISOString(),
+      });
+
+      console.log("[MagicLink] Email sent successfully");
+    } else {
+      console.error("[MagicLink] Failed to send email");
+    }
+
+    // Always return success to prevent email enumeration
+    return successResponse({ success: true, message: GENERIC_MESSAGE });
+  } catch (error) {
+    return createErrorResponse(error, "Magic link request failed");
+  }
+}
@@ -0,0 +1,116 @@
+/**
+ * Magic Link Login API Endpoint
+ *
+ * Exchanges the token from a login link (/api/auth/magic-link) for a parent
+ * session. GuideAuth posts the token it finds in the guide URL
+ * (?innlogging=), so link scanners fetching the URL don't use it up.
+ *
+ * POST /api/auth/magic-link/verify
+ * Body: { token: string }
+ * Returns: { sessionId: string, role: "parent" }
+ * Sets the session cookie and a parent token, like a parent code login.
+ *
+ * A link works once: using it spends it and every link requested before it
+ * (credentials.magicLinkUsedAt, written with ifRevision so two requests
+ * racing with the same link can't both log in). Expired, spent and foreign
+ * tokens, and
+ * links to a family that since got a new kid code (new session) or logged
+ * out of the guide everywhere, get 401.
+ *
+ * NOTE: Only works with a server backend (Sanity or file). Returns 501 for localStorage mode.
+ */
+
+import { NextRequest } from "next/server";
+import { getServerRepositories } from "@/lib/server-storage";
+import {
+  fetchCredentials,
+  successResponse,
+  errorResponse,
+  createErrorResponse,
+  setSessionCookie,
+  setParentAuthCookie,
+  getClientIp,
+} from "@/lib/api-utils";
+import { auditAuthAttempt } from "@/lib/rate-limiter";
+import { isMagicLinkSpent, verifyMagicLinkToken } from "@/lib/parent-token";
+
+const STORAGE_BACKEND =
+  process.env.NEXT_PUBLIC_STORAGE_BACKEND || "localStorage";
+
+interface MagicLinkVerifyRequest {
+  token?: string;
+}
+
+interface MagicLinkVerifyResponse {
+  sessionId: string;
+  role: "parent";
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    if (STORAGE_BACKEND === "localStorage") {
+      return errorResponse(
+        "Innloggingslenke er kun tilgjengelig med serverlagring",
+        501,
+      );
+    }
+
+    const ip = getClientIp(request);
+    const refuse = () => {
+      auditAuthAttempt({ scope: "magic-link", ip, outcome: "failure" });
+      return errorResponse(
+        "Innloggingslenken er brukt eller utløpt. Be om en ny.",
+        401,
+      );
+    };
+    const body = (await request.json()) as MagicLinkVerifyRequest;
+
+    const claims =
+      typeof body.token === "string" ? verifyMagicLinkToken(body.token) : null;
+    const credentials = claims && (await fetchCredentials(claims.sid));
+
+    if (
+      !claims ||
+      !credentials ||
+      isMagicLinkSpent(
+        claims,
+        credentials.magicLinkUsedAt,
+        credentials.parentTokensRevokedAt,
+      )
+    ) {
+      return refuse();
+    }
+
+    // Spend the link only if nothing changed since we read it: a 409 means
+    // another request got there first (or the family changed), so the link
+    // counts as used
+    try {
+      await getServerRepositories().credentials.update(
+        credentials._id,
+        { magicLinkUsedAt: new Date(claims.iat).toISOString() },
+        { ifRevision: credentials._rev },
+      );
+    } catch (error) {
+      if ((error as { statusCode?: number }).statusCode === 409) {
+        return refuse();
+      }
+      throw error;
+    }
+
+    auditAuthAttempt({
+      scope: "magic-link",
+      ip,
+      outcome: "success",
+      role: "parent",
+    });
+
+    const response = successResponse({
+      sessionId: credentials.sessionId,
+      role: "parent",
+    } as MagicLinkVerifyResponse);
+    setSessionCookie(response, credentials.sessionId);
+    return setParentAuthCookie(response, credentials.sessionId);
+  } catch (error) {
+    return createErrorResponse(error, "Magic link login failed");
+  }
+}
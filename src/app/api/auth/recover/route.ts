@@ -2,7 +2,9 @@
  * Password Recovery API Endpoint
  *
  * Resends family credentials to the registered parent email.
- * Includes rate limiting (5 minutes between requests per email).
+ * Includes rate limiting (5 minutes between requests per email), and per IP
+ * and globally (see rate-limiter.ts). Every request counts against the IP
+ * limits, since the response can't say whether the email was found.
  *
  * POST /api/auth/recover
  * Body: { email: string }
@@ -10,29 +12,46 @@
  */
 
 import { NextRequest } from "next/server";
-import { sanityServerClient } from "@/lib/sanity-client";
-import { successResponse, createErrorResponse } from "@/lib/api-utils";
+import { getServerRepositories } from "@/lib/server-storage";
+import {
+  successResponse,
+  createErrorResponse,
+  getClientIp,
+  rateLimitedResponse,
+} from "@/lib/api-utils";
+import {
+  auditAuthAttempt,
+  checkRateLimit,
+  recordFailedAttempt,
+} from "@/lib/rate-limiter";
 import { sendWelcomeEmail } from "@/lib/email-service";
 
 interface RecoverRequest {
   email: string;
 }
 
-interface FamilyCredentials {
-  _id: string;
-  kidCode: string;
-  parentCode: string;
-  familyName: string | null;
-  kidNames: string[];
-  parentEmail: string;
-  lastRecoveryEmail: string | null;
-}
-
 // Rate limit: 5 minutes between recovery emails
 const RATE_LIMIT_MS = 5 * 60 * 1000;
 
 export async function POST(request: NextRequest) {
   try {
+    const ip = getClientIp(request);
+    const limit = await checkRateLimit("recover", ip);
+    if (!limit.allowed) {
+      auditAuthAttempt({
+        scope: "recover",
+        ip,
+        outcome: "blocked",
+        lockedBy: limit.lockedBy,
+      });
+      return rateLimitedResponse(limit);
+    }
+
+    const status = await recordFailedAttempt("recover", ip);
+    if (!status.allowed) {
+      return rateLimitedResponse(status);
+    }
+
     const body = (await request.json()) as RecoverRequest;
 
     // Validate email format
@@ -46,19 +65,8 @@ export async function POST(request: NextRequest) {
     }
 
     // Look up family credentials by email
-    const credentials =
-      await sanityServerClient.fetch<FamilyCredentials | null>(
-        `*[_type == "familyCredentials" && lower(parentEmail) == $email][0]{
-        _id,
-        kidCode,
-        parentCode,
-        familyName,
-        kidNames,
-        parentEmail,
-        lastRecoveryEmail
-      }`,
-        { email },
-      );
+    const { credentials: credentialsRepository } = getServerRepositories();
+    const credentials = await credentialsRepository.findByEmail(email);
 
     // If no credentials found, return generic success (prevent enumeration)
     if (!credentials) {
@@ -91,7 +99,7 @@ export async function POST(request: NextRequest) {
 
     // Send recovery email
     const emailSent = await sendWelcomeEmail({
-      to: credentials.parentEmail,
+      to: credentials.parentEmail ?? email,
       familyName: credentials.familyName || undefined,
       kidCode: credentials.kidCode,
       parentCode: credentials.parentCode,
@@ -100,10 +108,9 @@ export async function POST(request: NextRequest) {
 
     if (emailSent) {
       // Update lastRecoveryEmail timestamp
-      await sanityServerClient
-        .patch(credentials._id)
-        .set({ lastRecoveryEmail: new Date().toISOString() })
-        .commit();
+      await credentialsRepository.update(credentials._id, {
+        lastRecoveryEmail: new Date().toISOString(),
+      });
 
       console.log(`[Recovery] Email sent successfully to: ${email}`);
     } else {
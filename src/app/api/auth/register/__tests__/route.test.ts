@@ -22,7 +22,7 @@ import {
   beforeEach,
 } from "@jest/globals";
 import * as registerRoute from "../../register/route";
-import { sanityServerClient } from "@/lib/sanity-client";
+import { getServerRepositories } from "@/lib/server-storage";
 import { __resetMock as resetUuidMock } from "@/lib/__mocks__/uuid";
 
 // Track test data for cleanup
@@ -34,23 +34,9 @@ const originalShareKey = process.env.REGISTRATION_SHARE_KEY;
 // Cleanup helper
 const cleanupSession = async (sessionId: string) => {
   try {
-    // Delete familyCredentials
-    const cred = await sanityServerClient.fetch(
-      `*[_type == "familyCredentials" && sessionId == $sessionId][0]`,
-      { sessionId },
-    );
-    if (cred?._id) {
-      await sanityServerClient.delete(cred._id);
-    }
-
-    // Delete userSession
-    const session = await sanityServerClient.fetch(
-      `*[_type == "userSession" && sessionId == $sessionId][0]`,
-      { sessionId },
-    );
-    if (session?._id) {
-      await sanityServerClient.delete(session._id);
-    }
+    const { sessions, credentials } = getServerRepositories();
+    await credentials.deleteBySessionId(sessionId);
+    await sessions.deleteBySessionId(sessionId);
   } catch {
     // Ignore cleanup errors
   }
@@ -7,18 +7,29 @@
  * POST /api/auth/register
  * Body: { familyName?, kidNames: string[], friendNames: string[], parentEmail? }
  * Returns: { kidCode, parentCode, sessionId }
+ * Sets the parent auth cookie, so the family goes straight to the guide.
  */
 
 import { NextRequest } from "next/server";
-import { sanityServerClient } from "@/lib/sanity-client";
-import { generateKidCode, generateParentCode } from "@/lib/code-generator";
+import { getServerRepositories } from "@/lib/server-storage";
+import {
+  generateKidCode,
+  generateParentCode,
+  getKidCodeOptions,
+} from "@/lib/code-generator";
+import { syncChildProfiles } from "@/lib/child-profiles";
 import { v4 as uuidv4 } from "uuid";
 import {
   errorResponse,
   createErrorResponse,
   successResponse,
+  setParentAuthCookie,
 } from "@/lib/api-utils";
 import { sendWelcomeEmail } from "@/lib/email-service";
+import { DEFAULT_SEASON_ID } from "@/lib/season-packs";
+import { DEFAULT_LOCALE } from "@/lib/i18n";
+import { DEFAULT_DIFFICULTY } from "@/lib/quest-variants";
+import { DEFAULT_HINT_MODE } from "@/lib/hint-ladder";
 
 interface RegisterRequest {
   familyName?: string;
@@ -127,36 +138,43 @@ export async function POST(request: NextRequest) {
       return errorResponse("Ugyldig e-postformat");
     }
 
+    const { sessions, credentials } = getServerRepositories();
+
     // Fetch existing codes to avoid collisions
-    const existingCredentials = await sanityServerClient.fetch<
-      Array<{ kidCode: string; parentCode: string }>
-    >(`*[_type == "familyCredentials"]{ kidCode, parentCode }`);
+    const existingCredentials = await credentials.listCodes();
 
     const existingKidCodes = existingCredentials.map((c) => c.kidCode);
     const existingParentCodes = existingCredentials.map((c) => c.parentCode);
 
     // Generate unique codes
-    const kidCode = generateKidCode(undefined, existingKidCodes);
+    const kidCode = generateKidCode(
+      undefined,
+      existingKidCodes,
+      getKidCodeOptions(),
+    );
     const parentCode = generateParentCode(existingParentCodes);
     const sessionId = uuidv4();
 
     // Create familyCredentials document
-    await sanityServerClient.create({
-      _type: "familyCredentials",
+    await credentials.create({
       kidCode,
       parentCode,
       sessionId,
       familyName: familyName || null,
       kidNames: validatedKidNames,
+      childProfiles: syncChildProfiles(validatedKidNames),
       friendNames: validatedFriendNames,
       parentEmail: parentEmail || null,
       emailSubscription: true, // Opt-in by default for daily mission emails
+      season: DEFAULT_SEASON_ID, // Content year this family plays
+      locale: DEFAULT_LOCALE, // Changed later in innstillinger
+      difficulty: DEFAULT_DIFFICULTY,
+      hintMode: DEFAULT_HINT_MODE,
       createdAt: new Date().toISOString(),
     });
 
     // Create linked userSession document
-    await sanityServerClient.create({
-      _type: "userSession",
+    await sessions.create({
       sessionId,
       lastUpdated: new Date().toISOString(),
       authenticated: false, // Client-side only
@@ -175,6 +193,7 @@ export async function POST(request: NextRequest) {
       solvedDecryptions: [],
       decryptionAttempts: "{}",
       failedAttempts: "{}",
+      firstFailedAttempts: [],
       crisisStatus: { antenna: false, inventory: false },
       santaLetters: [],
       brevfugler: [],
@@ -204,7 +223,7 @@ export async function POST(request: NextRequest) {
       sessionId,
     };
 
-    return successResponse(response);
+    return setParentAuthCookie(successResponse(response), sessionId);
   } catch (error) {
     return createErrorResponse(error, "Registration failed");
   }
@@ -6,29 +6,31 @@
  * Auth Verify API Route Tests
  *
  * Tests the /api/auth/verify endpoints for session and parent authentication.
- * Tests both GET (session verification) and POST (parent code verification).
+ * Tests GET (session verification), POST (parent code verification) and
+ * DELETE (parent logout), and a generic 500 in production without
+ * PARENT_TOKEN_SECRET.
  */
 
 // CRITICAL: next-test-api-route-handler MUST be imported first
 import "next-test-api-route-handler";
 
 import { testApiHandler } from "next-test-api-route-handler";
-import { describe, it, expect, afterAll } from "@jest/globals";
+import { describe, it, expect, afterAll, jest } from "@jest/globals";
 import * as verifyRoute from "../../verify/route";
-import { sanityServerClient } from "@/lib/sanity-client";
+import { getServerRepositories } from "@/lib/server-storage";
 import { generateKidCode, generateParentCode } from "@/lib/code-generator";
+import { createParentToken, PARENT_TOKEN_TTL_MS } from "@/lib/parent-token";
 
 // Track test data for cleanup
 const testCredentials: Array<{ sessionId: string; kidCode: string }> = [];
 
-// Helper to create test credentials directly in Sanity
+// Helper to create test credentials directly in the server store
 const createTestCredentials = async () => {
   const sessionId = `test_session_${Date.now()}_${Math.random().toString(36).substring(7)}`;
   const kidCode = generateKidCode();
   const parentCode = generateParentCode();
 
-  await sanityServerClient.create({
-    _type: "familyCredentials",
+  await getServerRepositories().credentials.create({
     sessionId,
     kidCode,
     parentCode,
@@ -47,13 +49,9 @@ afterAll(async () => {
   // Delete all test credentials with longer timeout
   const cleanupPromises = testCredentials.map(async (cred) => {
     try {
-      const doc = await sanityServerClient.fetch(
-        `*[_type == "familyCredentials" && sessionId == $sessionId][0]`,
-        { sessionId: cred.sessionId },
+      await getServerRepositories().credentials.deleteBySessionId(
+        cred.sessionId,
       );
-      if (doc?._id) {
-        await sanityServerClient.delete(doc._id);
-      }
     } catch {
       // Ignore cleanup errors
     }
@@ -108,6 +106,22 @@ describe("GET /api/auth/verify", () => {
     });
   });
 
+  it("should check a session given in the query", async () => {
+    const { sessionId } = await createTestCredentials();
+
+    await testApiHandler({
+      appHandler: verifyRoute,
+      url: `/api/auth/verify?sessionId=${sessionId}`,
+      test: async ({ fetch }) => {
+        const res = await fetch({ method: "GET" });
+
+        const json = await res.json();
+        expect(json.authenticated).toBe(true);
+        expect(json.sessionId).toBe(sessionId);
+      },
+    });
+  });
+
   it("should return unauthenticated for invalid session", async () => {
     await testApiHandler({
       appHandler: verifyRoute,
@@ -233,7 +247,7 @@ describe("POST /api/auth/verify (Parent Verification)", () => {
         const res = await fetch({
           method: "POST",
           headers: {
-            Cookie: `nissekomm-session=${sessionId}; nissekomm-parent-auth=${sessionId}`,
+            Cookie: `nissekomm-session=${sessionId}; nissekomm-parent-auth=${createParentToken(sessionId)}`,
             "Content-Type": "application/json",
           },
           body: JSON.stringify({}),
@@ -267,4 +281,189 @@ describe("POST /api/auth/verify (Parent Verification)", () => {
       },
     });
   });
+  it("should reject a session id copied into the parent auth cookie", async () => {
+    const { sessionId } = await createTestCredentials();
+
+    await testApiHandler({
+      appHandler: verifyRoute,
+      test: async ({ fetch }) => {
+        const res = await fetch({
+          method: "POST",
+          headers: {
+            Cookie: `nissekomm-session=${sessionId}; nissekomm-parent-auth=${sessionId}`,
+            "Content-Type": "application/json",
+          },
+          body: JSON.stringify({}),
+        });
+
+        const json = await res.json();
+        expect(json.isParent).toBe(false);
+      },
+    });
+  });
+
+  it("should reject a token issued for another session", async () => {
+    const { sessionId } = await createTestCredentials();
+    const other = await createTestCredentials();
+
+    await testApiHandler({
+      appHandler: verifyRoute,
+      test: async ({ fetch }) => {
+        const res = await fetch({
+          method: "POST",
+          headers: {
+            Cookie: `nissekomm-session=${sessionId}; nissekomm-parent-auth=${createParentToken(other.sessionId)}`,
+            "Content-Type": "application/json",
+          },
+          body: JSON.stringify({}),
+        });
+
+        const json = await res.json();
+        expect(json.isParent).toBe(false);
+      },
+    });
+  });
+
+  it("should reject an expired token", async () => {
+    const { sessionId } = await createTestCredentials();
+    const expired = createParentToken(
+      sessionId,
+      Date.now() - PARENT_TOKEN_TTL_MS - 1000,
+    );
+
+    await testApiHandler({
+      appHandler: verifyRoute,
+      test: async ({ fetch }) => {
+        const res = await fetch({
+          method: "POST",
+          headers: {
+            Cookie: `nissekomm-session=${sessionId}; nissekomm-parent-auth=${expired}`,
+            "Content-Type": "application/json",
+          },
+          body: JSON.stringify({}),
+        });
+
+        const json = await res.json();
+        expect(json.isParent).toBe(false);
+      },
+    });
+  });
+
+  it("should set an httpOnly parent token cookie", async () => {
+    const { sessionId, parentCode } = await createTestCredentials();
+
+    await testApiHandler({
+      appHandler: verifyRoute,
+      test: async ({ fetch }) => {
+        const res = await fetch({
+          method: "POST",
+          headers: {
+            Cookie: `nissekomm-session=${sessionId}`,
+            "Content-Type": "application/json",
+          },
+          body: JSON.stringify({ code: parentCode }),
+        });
+
+        const setCookie = res.headers.get("set-cookie") ?? "";
+        expect(setCookie).toMatch(/HttpOnly/i);
+        expect(setCookie).not.toContain(`nissekomm-parent-auth=${sessionId};`);
+      },
+    });
+  });
+
+  it("should answer a generic 500 in production without a token secret", async () => {
+    const { sessionId, parentCode } = await createTestCredentials();
+    const env = process.env as Record<string, string | undefined>;
+    const { NODE_ENV, PARENT_TOKEN_SECRET } = env;
+    const consoleError = jest
+      .spyOn(console, "error")
+      .mockImplementation(() => {});
+    env.NODE_ENV = "production";
+    delete env.PARENT_TOKEN_SECRET;
+
+    try {
+      await testApiHandler({
+        appHandler: verifyRoute,
+        test: async ({ fetch }) => {
+          const res = await fetch({
+            method: "POST",
+            headers: {
+              Cookie: `nissekomm-session=${sessionId}`,
+              "Content-Type": "application/json",
+            },
+            body: JSON.stringify({ code: parentCode }),
+          });
+          expect(res.status).toBe(500);
+
+          const text = await res.text();
+          expect(text).not.toContain("PARENT_TOKEN_SECRET");
+          expect(res.headers.get("set-cookie") ?? "").not.toContain(
+            "nissekomm-parent-auth",
+          );
+        },
+      });
+    } finally {
+      env.NODE_ENV = NODE_ENV;
+      if (PARENT_TOKEN_SECRET !== undefined) {
+        env.PARENT_TOKEN_SECRET = PARENT_TOKEN_SECRET;
+      }
+      consoleError.mockRestore();
+    }
+  });
+});
+
+describe("DELETE /api/auth/verify (Parent Logout)", () => {
+  it("should revoke tokens issued before the logout", async () => {
+    const { sessionId } = await createTestCredentials();
+    const token = createParentToken(sessionId, Date.now() - 1000);
+    const cookie = `nissekomm-session=${sessionId}; nissekomm-parent-auth=${token}`;
+
+    await testApiHandler({
+      appHandler: verifyRoute,
+      test: async ({ fetch }) => {
+        const logout = await fetch({
+          method: "DELETE",
+          headers: { Cookie: cookie },
+        });
+        expect(logout.status).toBe(200);
+        expect(logout.headers.get("set-cookie")).toContain(
+          "nissekomm-parent-auth=;",
+        );
+
+        const res = await fetch({
+          method: "POST",
+          headers: { Cookie: cookie, "Content-Type": "application/json" },
+          body: JSON.stringify({}),
+        });
+        const json = await res.json();
+        expect(json.isParent).toBe(false);
+      },
+    });
+  });
+
+  it("should not let a kid revoke parent access", async () => {
+    const { sessionId } = await createTestCredentials();
+    const token = createParentToken(sessionId, Date.now() - 1000);
+
+    await testApiHandler({
+      appHandler: verifyRoute,
+      test: async ({ fetch }) => {
+        await fetch({
+          method: "DELETE",
+          headers: { Cookie: `nissekomm-session=${sessionId}` },
+        });
+
+        const res = await fetch({
+          method: "POST",
+          headers: {
+            Cookie: `nissekomm-session=${sessionId}; nissekomm-parent-auth=${token}`,
+            "Content-Type": "application/json",
+          },
+          body: JSON.stringify({}),
+        });
+        const json = await res.json();
+        expect(json.isParent).toBe(true);
+      },
+    });
+  });
 });
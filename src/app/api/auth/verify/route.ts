@@ -4,25 +4,42 @@
  * Verifies authentication status and role from session cookie.
  * Used by GuideAuth to check parent access.
  *
- * GET /api/auth/verify
+ * GET /api/auth/verify[?sessionId=]
  * Returns: { authenticated: boolean, role: 'kid' | 'parent' | null }
+ * authenticated is false for a session without a family (e.g. retired by a
+ * new kid code, see /api/auth/family/rotate)
  *
  * POST /api/auth/verify
  * Body: { code?: string }
  * - If code provided: validates parent code and sets parent auth cookie
  * - If no code: checks existing parent auth cookie
  * Returns: { isParent: boolean }
+ * Wrong codes are rate limited like /api/auth/login (429 when locked out).
+ *
+ * DELETE /api/auth/verify
+ * - Parent logout: revokes the family's parent tokens and clears the cookie
+ * Returns: { success: true }
  */
 
 import { NextRequest, NextResponse } from "next/server";
 import { cookies } from "next/headers";
 import {
+  getSessionId,
   requireCredentials,
   successResponse,
   createErrorResponse,
   isParentAuthValid,
   setParentAuthCookie,
+  clearParentAuthCookie,
+  revokeParentTokens,
+  getClientIp,
+  rateLimitedResponse,
 } from "@/lib/api-utils";
+import {
+  auditAuthAttempt,
+  checkRateLimit,
+  recordFailedAttempt,
+} from "@/lib/rate-limiter";
 
 interface VerifyResponse {
   authenticated: boolean;
@@ -30,10 +47,9 @@ interface VerifyResponse {
   sessionId?: string;
 }
 
-export async function GET() {
+export async function GET(request: NextRequest) {
   try {
-    const cookieStore = await cookies();
-    const sessionId = cookieStore.get("nissekomm-session")?.value;
+    const sessionId = getSessionId(request);
 
     if (!sessionId) {
       return successResponse({
@@ -91,10 +107,22 @@ export async function POST(request: NextRequest) {
 
     // If no code provided, check existing parent auth cookie
     if (!body.code) {
-      const isValid = isParentAuthValid(request);
+      const isValid = await isParentAuthValid(request);
       return successResponse({ isParent: isValid } as ParentVerifyResponse);
     }
 
+    const ip = getClientIp(request);
+    const limit = await checkRateLimit("verify", ip);
+    if (!limit.allowed) {
+      auditAuthAttempt({
+        scope: "verify",
+        ip,
+        outcome: "blocked",
+        lockedBy: limit.lockedBy,
+      });
+      return rateLimitedResponse(limit);
+    }
+
     const code = body.code.trim().toUpperCase();
 
     // Verify that provided code matches parent code for this session
@@ -107,9 +135,21 @@ export async function POST(request: NextRequest) {
     const isParent = credentials.parentCode === code;
 
     if (!isParent) {
+      const status = await recordFailedAttempt("verify", ip);
+      if (!status.allowed) {
+        return rateLimitedResponse(status);
+      }
+      auditAuthAttempt({ scope: "verify", ip, outcome: "failure" });
       return successResponse({ isParent: false } as ParentVerifyResponse);
     }
 
+    auditAuthAttempt({
+      scope: "verify",
+      ip,
+      outcome: "success",
+      role: "parent",
+    });
+
     // Parent code is valid - set parent auth cookie for future requests
     const response = NextResponse.json({
       isParent: true,
@@ -120,3 +160,33 @@ export async function POST(request: NextRequest) {
     return createErrorResponse(error, "Parent verify error");
   }
 }
+
+/**
+ * Parent Logout
+ * DELETE /api/auth/verify
+ * Revokes every parent token of the family (all devices), so a copied
+ * cookie stops working too. Only a parent can do this; for anyone else it
+ * just clears their cookie.
+ */
+export async function DELETE(request: NextRequest) {
+  try {
+    const response = clearParentAuthCookie(successResponse());
+    const sessionId = request.cookies.get("nissekomm-session")?.value;
+
+    if (!sessionId || !(await isParentAuthValid(request))) {
+      return response;
+    }
+
+    // localStorage backend has no credentials (and nothing to revoke)
+    const credentialsResult = await requireCredentials(sessionId);
+    if ("error" in credentialsResult) {
+      return response;
+    }
+
+    await revokeParentTokens(credentialsResult.credentials);
+    return response;
+  } catch (error) {
+    console.error("[AUTH] Parent logout error:", error);
+    return createErrorResponse(error, "Parent logout error");
+  }
+}
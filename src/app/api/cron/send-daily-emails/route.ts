@@ -9,31 +9,51 @@
  *
  * Process:
  * 1. Verify CRON_SECRET authorization
- * 2. Calculate tomorrow's day (current day + 1)
+ * 2. Calculate tomorrow's date
  * 3. Fetch all families with emailSubscription=true
- * 4. Load tomorrow's mission from oppdrag data
- * 5. Send personalized email to each family
- * 6. Log results
+ * 4. Map tomorrow to each family's game day using their calendar schedule
+ *    (families before their start date, paused or finished get no email)
+ * 5. Load tomorrow's mission from each family's season pack, difficulty and
+ *    their own overrides
+ * 6. Send personalized email to each family
+ * 7. Log results
  */
 
 import { NextRequest, NextResponse } from "next/server";
-import { sanityServerClient } from "@/lib/sanity-client";
+import { getServerRepositories } from "@/lib/server-storage";
+import type { FamilyCredentials } from "@/lib/api-utils";
 import { sendDailyMissionEmail } from "@/lib/email-service";
 import { generateUnsubscribeToken } from "@/app/api/unsubscribe/route";
 import { getAllOppdrag } from "@/lib/oppdrag";
+import { applyVariant, resolveDifficulty } from "@/lib/quest-variants";
+import {
+  applyQuestOverride,
+  sanitizeQuestOverrides,
+} from "@/lib/quest-overrides";
+import {
+  getUnlockedDayOn,
+  sanitizeSchedule,
+  toDateKey,
+} from "@/lib/calendar-schedule";
+import { getOsloDate } from "@/lib/date-utils";
 
 const STORAGE_BACKEND =
   process.env.NEXT_PUBLIC_STORAGE_BACKEND || "localStorage";
 const CRON_SECRET = process.env.CRON_SECRET;
 const BASE_URL = process.env.NEXT_PUBLIC_URL || "https://nissekomm.no";
 
-interface FamilyCredentials {
-  _id: string;
-  sessionId: string;
-  familyName: string;
-  kidNames: string[];
+interface ScheduledFamily extends FamilyCredentials {
   parentEmail: string;
-  emailSubscription: boolean;
+  day: number; // Game day that unlocks tomorrow for this family
+}
+
+/**
+ * Get tomorrow's date in Norway (emails are sent at 21:00 for the next day)
+ */
+function getOsloTomorrow(): Date {
+  const tomorrow = getOsloDate();
+  tomorrow.setDate(tomorrow.getDate() + 1);
+  return tomorrow;
 }
 
 /**
@@ -50,109 +70,57 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
     }
 
-    // Only works with Sanity backend
+    // Only works with a server backend
     if (STORAGE_BACKEND === "localStorage") {
       console.warn(
-        "[Daily Email Cron] Sanity backend required for email service",
+        "[Daily Email Cron] Server backend required for email service",
       );
       return NextResponse.json(
-        { error: "Email service requires Sanity backend" },
+        { error: "Email service requires a server backend" },
         { status: 400 },
       );
     }
 
-    // Calculate tomorrow's day (emails sent at 21:00 for next day)
-    // Convert to CET (UTC+1) or CEST (UTC+2) timezone
-    const now = new Date();
-    const cet = new Date(
-      now.toLocaleString("en-US", { timeZone: "Europe/Oslo" }),
-    );
-    const currentDay = cet.getDate();
-    const currentMonth = cet.getMonth() + 1; // 1-indexed
+    // Each family's calendar decides which day (if any) unlocks tomorrow
+    const tomorrow = getOsloTomorrow();
+    const tomorrowDate = toDateKey(tomorrow);
 
-    console.log(
-      `[Daily Email Cron] Current time (CET): ${cet.toISOString()}, Day: ${currentDay}, Month: ${currentMonth}`,
-    );
-
-    // Only send emails in December
-    if (currentMonth !== 12) {
-      console.log(
-        `[Daily Email Cron] Not December (month=${currentMonth}), skipping emails`,
-      );
-      return NextResponse.json({
-        success: true,
-        message: `Outside December period (month ${currentMonth}), no emails sent`,
-        sent: 0,
-        currentDay,
-        currentMonth,
-      });
-    }
-
-    const tomorrowDay = currentDay + 1;
-    console.log(
-      `[Daily Email Cron] Tomorrow will be day ${tomorrowDay} of December`,
-    );
-
-    // Don't send emails after Dec 24
-    if (tomorrowDay > 24) {
-      console.log(
-        `[Daily Email Cron] After Dec 24 (tomorrow=${tomorrowDay}), no more missions`,
-      );
-      return NextResponse.json({
-        success: true,
-        message: `All missions completed (tomorrow would be day ${tomorrowDay})`,
-        sent: 0,
-        tomorrowDay,
-      });
-    }
-
-    // Load tomorrow's mission
-    const allOppdrag = getAllOppdrag();
-    const tomorrowMission = allOppdrag.find((m) => m.dag === tomorrowDay);
-
-    if (!tomorrowMission) {
-      console.error(
-        `[Daily Email Cron] No mission found for day ${tomorrowDay}`,
-      );
-      return NextResponse.json(
-        { error: `No mission data for day ${tomorrowDay}` },
-        { status: 500 },
-      );
-    }
-
-    console.log(
-      `[Daily Email Cron] Preparing emails for Day ${tomorrowDay}: ${tomorrowMission.tittel}`,
-    );
+    console.log(`[Daily Email Cron] Tomorrow (CET): ${tomorrowDate}`);
 
     // Fetch all subscribed families
-    const families = await sanityServerClient.fetch<FamilyCredentials[]>(
-      `*[_type == "familyCredentials" && emailSubscription == true]{
-        _id,
-        sessionId,
-        familyName,
-        kidNames,
-        parentEmail,
-        emailSubscription
-      }`,
+    const subscribedFamilies =
+      await getServerRepositories().credentials.listSubscribed();
+
+    const families = (subscribedFamilies || []).flatMap(
+      (family): ScheduledFamily[] => {
+        if (!family.parentEmail) return [];
+        const day = getUnlockedDayOn(
+          tomorrow,
+          sanitizeSchedule(family.calendarSchedule),
+        );
+        return day === null
+          ? []
+          : [{ ...family, parentEmail: family.parentEmail, day }];
+      },
     );
 
-    if (!families || families.length === 0) {
-      console.warn(
-        "[Daily Email Cron] No subscribed families found in Sanity!",
+    if (families.length === 0) {
+      console.log(
+        `[Daily Email Cron] No families get a new day on ${tomorrowDate}, skipping emails`,
       );
       return NextResponse.json({
         success: true,
-        message: "No subscribed families found",
+        message: `No families get a new day on ${tomorrowDate}`,
         sent: 0,
-        day: tomorrowDay,
+        date: tomorrowDate,
       });
     }
 
     console.log(
-      `[Daily Email Cron] Found ${families.length} subscribed families, preparing to send...`,
+      `[Daily Email Cron] Found ${families.length} families with a new day tomorrow, preparing to send...`,
     );
     console.log(
-      `[Daily Email Cron] Family emails: ${families.map((f) => f.parentEmail).join(", ")}`,
+      `[Daily Email Cron] Family emails: ${families.map((f) => `${f.parentEmail} (day ${f.day})`).join(", ")}`,
     );
 
     // Send email to each family
@@ -168,16 +136,29 @@ export async function POST(request: NextRequest) {
         const token = generateUnsubscribeToken(family.sessionId);
         const unsubscribeUrl = `${BASE_URL}/api/unsubscribe?session=${encodeURIComponent(family.sessionId)}&token=${token}`;
 
+        // Families replaying an older season get that season's mission,
+        // at the difficulty level they picked and with their own changes
+        const mission =
+          getAllOppdrag(family.season).find((m) => m.dag === family.day) ||
+          getAllOppdrag().find((m) => m.dag === family.day);
+        if (!mission) {
+          throw new Error(`No mission data for day ${family.day}`);
+        }
+        const familyMission = applyQuestOverride(
+          applyVariant(mission, resolveDifficulty(family.difficulty)),
+          sanitizeQuestOverrides(family.questOverrides),
+        );
+
         const result = await sendDailyMissionEmail({
           to: family.parentEmail,
           familyName: family.familyName,
           kidNames: family.kidNames,
-          day: tomorrowDay,
-          missionTitle: tomorrowMission.tittel,
-          missionText: tomorrowMission.nissemail_tekst,
-          rampeStrek: tomorrowMission.rampenissen_rampestrek,
-          fysiskHint: tomorrowMission.fysisk_hint,
-          materialer: tomorrowMission.materialer_nødvendig || [],
+          day: family.day,
+          missionTitle: familyMission.tittel,
+          missionText: familyMission.nissemail_tekst,
+          rampeStrek: familyMission.rampenissen_rampestrek,
+          fysiskHint: familyMission.fysisk_hint,
+          materialer: familyMission.materialer_nødvendig || [],
           unsubscribeUrl,
         });
 
@@ -222,8 +203,7 @@ export async function POST(request: NextRequest) {
 
     return NextResponse.json({
       success: true,
-      day: tomorrowDay,
-      missionTitle: tomorrowMission.tittel,
+      date: tomorrowDate,
       totalFamilies: families.length,
       sent: successful,
       failed,
@@ -245,23 +225,17 @@ export async function POST(request: NextRequest) {
  * Return info about next scheduled email (for debugging)
  */
 export async function GET() {
-  const now = new Date();
-  const cet = new Date(
-    now.toLocaleString("en-US", { timeZone: "Europe/Oslo" }),
-  );
-  const currentDay = cet.getDate();
-  const currentMonth = cet.getMonth() + 1;
-  const tomorrowDay = currentDay + 1;
+  const today = getOsloDate();
+  const tomorrow = getOsloTomorrow();
 
   return NextResponse.json({
     service: "Daily Mission Email Cron",
     schedule: "Daily at 21:00 CET",
-    currentTime: cet.toISOString(),
-    currentDay,
-    currentMonth,
-    nextMissionDay:
-      tomorrowDay <= 24 && currentMonth === 12 ? tomorrowDay : null,
+    currentTime: today.toISOString(),
+    currentDate: toDateKey(today),
+    // Families on the default December calendar (others follow their own)
+    nextMissionDay: getUnlockedDayOn(tomorrow, null),
     storageBackend: STORAGE_BACKEND,
-    enabled: STORAGE_BACKEND === "sanity",
+    enabled: STORAGE_BACKEND !== "localStorage",
   });
 }
@@ -8,7 +8,8 @@
  * Tests the /api/family endpoint that returns non-sensitive family data.
  * Verifies that sensitive fields (codes, email) are never exposed.
  *
- * IMPORTANT: Requires NEXT_PUBLIC_STORAGE_BACKEND=sanity and valid Sanity credentials
+ * IMPORTANT: Requires a server backend: NEXT_PUBLIC_STORAGE_BACKEND=sanity with
+ * valid Sanity credentials, or NEXT_PUBLIC_STORAGE_BACKEND=file
  */
 
 // CRITICAL: next-test-api-route-handler MUST be imported first
@@ -17,14 +18,15 @@ import "next-test-api-route-handler";
 import { testApiHandler } from "next-test-api-route-handler";
 import { describe, it, expect, afterAll } from "@jest/globals";
 import * as familyRoute from "../route";
-import { sanityServerClient } from "@/lib/sanity-client";
+import { getServerRepositories } from "@/lib/server-storage";
 import { generateKidCode, generateParentCode } from "@/lib/code-generator";
+import { createParentToken } from "@/lib/parent-token";
 
 // Must match SESSION_COOKIE_NAME in api-utils.ts
 const SESSION_COOKIE_NAME = "nissekomm-session";
 
 // Track test credentials for cleanup
-const testCredentials: Array<{ sessionId: string; _id?: string }> = [];
+const testCredentials: Array<{ sessionId: string }> = [];
 
 const TEST_FAMILY_DATA = {
   familyName: "Testfamilien",
@@ -36,7 +38,7 @@ const TEST_FAMILY_DATA = {
   ],
 };
 
-// Helper to create test credentials directly in Sanity
+// Helper to create test credentials directly in the server store
 // Includes retry logic to wait for Sanity eventual consistency
 const createTestCredentials = async (
   overrides: Partial<{
@@ -50,8 +52,8 @@ const createTestCredentials = async (
   const kidCode = generateKidCode();
   const parentCode = generateParentCode();
 
-  const result = await sanityServerClient.create({
-    _type: "familyCredentials",
+  const { credentials } = getServerRepositories();
+  const result = await credentials.create({
     sessionId,
     kidCode,
     parentCode,
@@ -63,16 +65,12 @@ const createTestCredentials = async (
     createdAt: new Date().toISOString(),
   });
 
-  testCredentials.push({ sessionId, _id: result._id });
+  testCredentials.push({ sessionId });
 
   // Wait for Sanity eventual consistency - retry until queryable
   const maxRetries = 10;
   for (let i = 0; i < maxRetries; i++) {
-    const found = await sanityServerClient.fetch(
-      `*[_type == "familyCredentials" && sessionId == $sessionId][0]`,
-      { sessionId },
-      { useCdn: false, cache: "no-store", next: { revalidate: 0 } },
-    );
+    const found = await credentials.findBySessionId(sessionId);
     if (found) break;
     await new Promise((resolve) => setTimeout(resolve, 100));
   }
@@ -84,17 +82,9 @@ const createTestCredentials = async (
 afterAll(async () => {
   const cleanupPromises = testCredentials.map(async (cred) => {
     try {
-      if (cred._id) {
-        await sanityServerClient.delete(cred._id);
-      } else {
-        const doc = await sanityServerClient.fetch(
-          `*[_type == "familyCredentials" && sessionId == $sessionId][0]`,
-          { sessionId: cred.sessionId },
-        );
-        if (doc?._id) {
-          await sanityServerClient.delete(doc._id);
-        }
-      }
+      await getServerRepositories().credentials.deleteBySessionId(
+        cred.sessionId,
+      );
     } catch {
       // Ignore cleanup errors
     }
@@ -210,8 +200,7 @@ describe("GET /api/family", () => {
   it("should handle partial family data gracefully", async () => {
     // Create credentials with minimal data (no optional fields)
     const minimalSessionId = `minimal_${Date.now()}_${Math.random().toString(36).substring(7)}`;
-    const minimalResult = await sanityServerClient.create({
-      _type: "familyCredentials",
+    await getServerRepositories().credentials.create({
       sessionId: minimalSessionId,
       kidCode: generateKidCode(),
       parentCode: generateParentCode(),
@@ -219,10 +208,7 @@ describe("GET /api/family", () => {
       // No familyName, kidNames, friendNames, calendarEvents
     });
 
-    testCredentials.push({
-      sessionId: minimalSessionId,
-      _id: minimalResult._id,
-    });
+    testCredentials.push({ sessionId: minimalSessionId });
 
     await testApiHandler({
       appHandler: familyRoute,
@@ -275,4 +261,33 @@ describe("GET /api/family", () => {
       },
     });
   });
+
+  it("should leave override codes out for kids, but not for parents", async () => {
+    const { sessionId, _id } = await createTestCredentials();
+    await getServerRepositories().credentials.update(_id, {
+      questOverrides: [{ dag: 4, kode: "BAMSE", fysisk_hint: "Under sofaen" }],
+    });
+
+    const getOverrides = async (cookie: string) => {
+      let overrides: unknown;
+      await testApiHandler({
+        appHandler: familyRoute,
+        test: async ({ fetch }) => {
+          const res = await fetch({ method: "GET", headers: { cookie } });
+          overrides = (await res.json()).questOverrides;
+        },
+      });
+      return overrides;
+    };
+
+    // The file backend checks answers on the server
+    expect(await getOverrides(`${SESSION_COOKIE_NAME}=${sessionId}`)).toEqual([
+      { dag: 4, egen_kode: true, fysisk_hint: "Under sofaen" },
+    ]);
+    expect(
+      await getOverrides(
+        `${SESSION_COOKIE_NAME}=${sessionId}; nissekomm-parent-auth=${createParentToken(sessionId)}`,
+      ),
+    ).toEqual([{ dag: 4, kode: "BAMSE", fysisk_hint: "Under sofaen" }]);
+  });
 });
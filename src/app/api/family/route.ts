@@ -7,8 +7,16 @@
  * Returns:
  * - familyName: Display name for the family
  * - kidNames: Names of children (for personalization)
+ * - childProfiles: One game state per child (see child-profiles.ts)
  * - friendNames: Friend names (for snill_slem_liste.txt)
  * - calendarEvents: Custom calendar events
+ * - season: Season pack the family plays (content year)
+ * - locale: Language for UI and quest texts
+ * - difficulty: Quest variant level (lett, normal, utfordrende)
+ * - hintMode: Hint ladder behaviour (av, normal, rask)
+ * - questOverrides: Parent changes to single days (without their codes when
+ *   answers are checked on the server, unless the request has parent access)
+ * - calendarSchedule: Own start date and pauses (null = December 1-24)
  *
  * Excludes sensitive data:
  * - kidCode, parentCode (authentication)
@@ -23,10 +31,30 @@ import { NextRequest } from "next/server";
 import {
   requireSessionId,
   fetchCredentials,
+  isParentAuthValid,
   successResponse,
   createErrorResponse,
 } from "@/lib/api-utils";
-import type { CalendarEvent } from "@/types/innhold";
+import { resolveSeasonId } from "@/lib/season-packs";
+import { resolveLocale } from "@/lib/i18n";
+import { resolveDifficulty } from "@/lib/quest-variants";
+import { resolveHintMode } from "@/lib/hint-ladder";
+import { sanitizeQuestOverrides } from "@/lib/quest-overrides";
+import {
+  stripQuestOverrideAnswers,
+  usesServerAnswers,
+} from "@/lib/quest-answers";
+import { sanitizeSchedule } from "@/lib/calendar-schedule";
+import { syncChildProfiles } from "@/lib/child-profiles";
+import type {
+  Barneprofil,
+  CalendarEvent,
+  HintModus,
+  Kalenderplan,
+  Locale,
+  OppdragNivå,
+  OppdragOverstyring,
+} from "@/types/innhold";
 
 /**
  * Public family data response
@@ -35,8 +63,15 @@ import type { CalendarEvent } from "@/types/innhold";
 interface FamilyDataResponse {
   familyName?: string;
   kidNames: string[];
+  childProfiles: Barneprofil[];
   friendNames: string[];
   calendarEvents: CalendarEvent[];
+  season: string;
+  locale: Locale;
+  difficulty: OppdragNivå;
+  hintMode: HintModus;
+  questOverrides: OppdragOverstyring[];
+  calendarSchedule: Kalenderplan | null;
 }
 
 /**
@@ -52,8 +87,15 @@ export async function GET(request: NextRequest) {
       return successResponse({
         familyName: undefined,
         kidNames: [],
+        childProfiles: [],
         friendNames: [],
         calendarEvents: [],
+        season: resolveSeasonId(),
+        locale: resolveLocale(),
+        difficulty: resolveDifficulty(),
+        hintMode: resolveHintMode(),
+        questOverrides: [],
+        calendarSchedule: null,
       } satisfies FamilyDataResponse);
     }
 
@@ -67,17 +109,41 @@ export async function GET(request: NextRequest) {
       return successResponse({
         familyName: undefined,
         kidNames: [],
+        childProfiles: [],
         friendNames: [],
         calendarEvents: [],
+        season: resolveSeasonId(),
+        locale: resolveLocale(),
+        difficulty: resolveDifficulty(),
+        hintMode: resolveHintMode(),
+        questOverrides: [],
+        calendarSchedule: null,
       } satisfies FamilyDataResponse);
     }
 
+    // Override codes are answers: only parents get them from the server
+    const questOverrides = sanitizeQuestOverrides(credentials.questOverrides);
+    const hideOverrideCodes =
+      usesServerAnswers() && !(await isParentAuthValid(request));
+
     // Return only non-sensitive fields
     const familyData: FamilyDataResponse = {
       familyName: credentials.familyName,
       kidNames: credentials.kidNames || [],
+      childProfiles: syncChildProfiles(
+        credentials.kidNames || [],
+        credentials.childProfiles,
+      ),
       friendNames: credentials.friendNames || [],
       calendarEvents: credentials.calendarEvents || [],
+      season: resolveSeasonId(credentials.season),
+      locale: resolveLocale(credentials.locale),
+      difficulty: resolveDifficulty(credentials.difficulty),
+      hintMode: resolveHintMode(credentials.hintMode),
+      questOverrides: hideOverrideCodes
+        ? stripQuestOverrideAnswers(questOverrides)
+        : questOverrides,
+      calendarSchedule: sanitizeSchedule(credentials.calendarSchedule),
     };
 
     return successResponse(familyData);
@@ -0,0 +1,49 @@
+/**
+ * Quest Answers API - Codes for nissemor-guide
+ *
+ * GET /api/quest/answers
+ * - Requires parent authentication
+ * - Returns the answers of the family's season ({ season, answers }), which
+ *   the browser bundle doesn't have (see quest-answers.ts)
+ *
+ * Answers are for the quest files as written; the guide applies the family's
+ * difficulty variant and overrides itself, same as for the rest of the quest.
+ */
+
+import { NextRequest } from "next/server";
+import {
+  requireParentAuth,
+  requireCredentials,
+  createErrorResponse,
+  successResponse,
+} from "@/lib/api-utils";
+import { getAllQuests } from "@/lib/data-loader";
+import { extractQuestAnswers } from "@/lib/quest-answers";
+import { resolveSeasonId } from "@/lib/season-packs";
+
+export const dynamic = "force-dynamic";
+
+/**
+ * GET /api/quest/answers
+ * Get the answers of the family's season
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const authResult = await requireParentAuth(request);
+    if ("error" in authResult) return authResult.error;
+    const { sessionId } = authResult;
+
+    const credentialsResult = await requireCredentials(sessionId);
+    if ("error" in credentialsResult) return credentialsResult.error;
+    const { credentials } = credentialsResult;
+
+    const season = resolveSeasonId(credentials.season);
+
+    return successResponse({
+      season,
+      answers: extractQuestAnswers(getAllQuests(season)),
+    });
+  } catch (error) {
+    return createErrorResponse(error, "Failed to fetch quest answers");
+  }
+}
@@ -0,0 +1,117 @@
+/**
+ * Quest Decrypt API - Server-side sequence check for NisseKrypto
+ *
+ * POST /api/quest/decrypt { challengeId, sequence }
+ * - Checks the symbol order against the challenge in the family's season
+ * - Rejects challenges whose symbols the kids haven't collected
+ * - Records the result in the session: a decryption attempt, or the solved
+ *   challenge and its unlocked files
+ * - Returns a DecryptionVerdict (never the correct sequence)
+ *
+ * A child profile's session in the body records the result there (see
+ * child-profiles.ts); the challenge comes from the family's season.
+ * Recorded results reach the live parent dashboard (commitSessionUpdate).
+ *
+ * The browser bundle has no correct sequences when this route is used (see
+ * quest-answers.ts). The client applies the same verdict to its local cache.
+ */
+
+import { NextRequest } from "next/server";
+import {
+  commitSessionUpdate,
+  requireGameSessionId,
+  requireSession,
+  requireCredentials,
+  errorResponse,
+  createErrorResponse,
+  successResponse,
+} from "@/lib/api-utils";
+import { getFamilySessionId } from "@/lib/child-profiles";
+import { getAllQuests } from "@/lib/data-loader";
+import { checkDecryptionSequence } from "@/lib/quest-answers";
+
+export const dynamic = "force-dynamic";
+
+/**
+ * POST /api/quest/decrypt
+ * Check a decryption sequence and record the result
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const { challengeId, sequence } = body;
+
+    const sessionIdResult = requireGameSessionId(request, body);
+    if ("error" in sessionIdResult) return sessionIdResult.error;
+    const { sessionId: gameSessionId } = sessionIdResult;
+    const sessionId = getFamilySessionId(gameSessionId);
+
+    if (typeof challengeId !== "string" || !challengeId) {
+      return errorResponse("challengeId required");
+    }
+    if (
+      !Array.isArray(sequence) ||
+      !sequence.every((index) => Number.isInteger(index))
+    ) {
+      return errorResponse("sequence must be a list of symbol indexes");
+    }
+
+    const credentialsResult = await requireCredentials(sessionId);
+    if ("error" in credentialsResult) return credentialsResult.error;
+    const { credentials } = credentialsResult;
+
+    const challenge = getAllQuests(credentials.season).find(
+      (quest) => quest.decryption_challenge?.challengeId === challengeId,
+    )?.decryption_challenge;
+    if (!challenge) {
+      return errorResponse(`Unknown challenge ${challengeId}`, 404);
+    }
+    if (sequence.length !== challenge.requiredSymbols.length) {
+      return errorResponse(
+        `sequence must place ${challenge.requiredSymbols.length} symbols`,
+      );
+    }
+
+    const sessionResult = await requireSession(gameSessionId);
+    if ("error" in sessionResult) return sessionResult.error;
+    const { session } = sessionResult;
+
+    const collected = new Set(
+      (session.collectedSymbols ?? []).map((symbol) => symbol.symbolId),
+    );
+    if (!challenge.requiredSymbols.every((id) => collected.has(id))) {
+      return errorResponse("Symbols for this challenge are not collected", 403);
+    }
+
+    const verdict = checkDecryptionSequence(challenge, sequence);
+    const solvedDecryptions = session.solvedDecryptions ?? [];
+
+    if (verdict.correct && !solvedDecryptions.includes(challengeId)) {
+      await commitSessionUpdate(gameSessionId, session, {
+        solvedDecryptions: [...solvedDecryptions, challengeId],
+        unlockedFiles: [
+          ...new Set([
+            ...(session.unlockedFiles ?? []),
+            ...(challenge.unlocksFiles ?? []),
+          ]),
+        ],
+      });
+    } else if (verdict.correct === false) {
+      const attempts = session.decryptionAttempts ?? [];
+      const attemptCount =
+        (attempts.find((attempt) => attempt.challengeId === challengeId)
+          ?.attemptCount ?? 0) + 1;
+
+      await commitSessionUpdate(gameSessionId, session, {
+        decryptionAttempts: [
+          ...attempts.filter((attempt) => attempt.challengeId !== challengeId),
+          { _key: `decrypt-${challengeId}`, challengeId, attemptCount },
+        ],
+      });
+    }
+
+    return successResponse(verdict);
+  } catch (error) {
+    return createErrorResponse(error, "Failed to check sequence");
+  }
+}
@@ -0,0 +1,138 @@
+/**
+ * @jest-environment node
+ */
+
+/**
+ * Quest Submit API Route Tests
+ *
+ * Tests POST /api/quest/submit:
+ * - A right code is recorded in the session
+ * - Recorded progress reaches live dashboards (day-solved on the family's
+ *   session, with the profile id for a child profile)
+ * - A wrong code counts a failed attempt and solves nothing
+ */
+
+// CRITICAL: next-test-api-route-handler MUST be imported first
+import "next-test-api-route-handler";
+
+import { testApiHandler } from "next-test-api-route-handler";
+import { describe, it, expect, afterAll, beforeAll } from "@jest/globals";
+import * as submitRoute from "../route";
+import { getServerRepositories } from "@/lib/server-storage";
+import { generateKidCode, generateParentCode } from "@/lib/code-generator";
+import { getQuestByDay } from "@/lib/data-loader";
+import { getSessionEventBus, type SessionEvent } from "@/lib/session-events";
+
+// Day 1's code is the family's kid code, day 2 has a fixed code
+const DAY = 2;
+const CODE = getQuestByDay(DAY, "2025")!.kode;
+
+// Track test sessions for cleanup
+const testSessions: string[] = [];
+const originalTestMode = process.env.NEXT_PUBLIC_TEST_MODE;
+
+const createTestFamily = async () => {
+  const sessionId = `test_submit_${Date.now()}_${Math.random().toString(36).substring(7)}`;
+  const { credentials, sessions } = getServerRepositories();
+
+  await credentials.create({
+    sessionId,
+    kidCode: generateKidCode(),
+    parentCode: generateParentCode(),
+    kidNames: ["Emma", "Ola"],
+    friendNames: [],
+    season: "2025",
+    createdAt: new Date().toISOString(),
+  });
+  await sessions.create({ sessionId, submittedCodes: [] });
+  await sessions.create({ sessionId: `${sessionId}~emma`, submittedCodes: [] });
+  testSessions.push(sessionId);
+
+  return { sessionId };
+};
+
+const submit = async (
+  sessionId: string,
+  body: Record<string, unknown>,
+): Promise<{ status: number; events: SessionEvent[] }> => {
+  const events: SessionEvent[] = [];
+  const unsubscribe = getSessionEventBus().subscribe(sessionId, (event) =>
+    events.push(event),
+  );
+  let status = 0;
+
+  await testApiHandler({
+    appHandler: submitRoute,
+    test: async ({ fetch }) => {
+      const res = await fetch({
+        method: "POST",
+        headers: { cookie: `nissekomm-session=${sessionId}` },
+        body: JSON.stringify(body),
+      });
+      status = res.status;
+    },
+  });
+  unsubscribe();
+
+  return { status, events };
+};
+
+beforeAll(() => {
+  // Every day unlocked, whatever today's date
+  process.env.NEXT_PUBLIC_TEST_MODE = "true";
+});
+
+afterAll(async () => {
+  process.env.NEXT_PUBLIC_TEST_MODE = originalTestMode;
+  const { credentials, sessions } = getServerRepositories();
+  for (const sessionId of testSessions) {
+    await credentials.deleteBySessionId(sessionId).catch(() => {});
+    await sessions.deleteBySessionId(sessionId).catch(() => {});
+    await sessions.deleteBySessionId(`${sessionId}~emma`).catch(() => {});
+  }
+}, 15000);
+
+describe("POST /api/quest/submit", () => {
+  it("should record a right code and tell live dashboards", async () => {
+    const { sessionId } = await createTestFamily();
+
+    const res = await submit(sessionId, { day: DAY, code: CODE });
+
+    expect(res.status).toBe(200);
+    expect(
+      (
+        await getServerRepositories().sessions.findBySessionId(sessionId)
+      )?.submittedCodes?.map((entry) => entry.day),
+    ).toEqual([DAY]);
+    expect(res.events).toEqual([
+      expect.objectContaining({ type: "day-solved", day: DAY }),
+      expect.objectContaining({ type: "session-updated" }),
+    ]);
+  });
+
+  it("should tell the family which child solved the day", async () => {
+    const { sessionId } = await createTestFamily();
+
+    const res = await submit(sessionId, {
+      sessionId: `${sessionId}~emma`,
+      day: DAY,
+      code: CODE,
+    });
+
+    expect(res.status).toBe(200);
+    expect(res.events[0]).toMatchObject({
+      type: "day-solved",
+      day: DAY,
+      profileId: "emma",
+    });
+  });
+
+  it("should count a wrong code without solving the day", async () => {
+    const { sessionId } = await createTestFamily();
+
+    const res = await submit(sessionId, { day: DAY, code: "FEILKODE" });
+
+    expect(res.status).toBe(200);
+    expect(res.events.map((event) => event.type)).toEqual(["session-updated"]);
+  });
+});
@@ -0,0 +1,212 @@
+/**
+ * Quest Submit API - Server-side code check for KodeTerminal
+ *
+ * POST /api/quest/submit { day, code }
+ * - Checks the code against the day's quest as the family plays it
+ *   (season, difficulty variant and overrides, {{KID_CODE}} = family kid code)
+ * - Rejects days the family's calendar hasn't reached
+ * - Records the result in the session: failed attempts, or the submitted code
+ *   and the quest's reveals (files, topics, modules)
+ * - Returns a CodeVerdict; the quest's spelling of the code only when riktig
+ *
+ * A child profile's session in the body records the result there (see
+ * child-profiles.ts); the quest is the family's. Recorded results reach the
+ * live parent dashboard (commitSessionUpdate).
+ *
+ * The browser bundle has no answers when this route is used (see
+ * quest-answers.ts). The client applies the same verdict to its local cache.
+ */
+
+import { NextRequest } from "next/server";
+import {
+  commitSessionUpdate,
+  requireGameSessionId,
+  requireSession,
+  requireCredentials,
+  errorResponse,
+  createErrorResponse,
+  successResponse,
+  type FamilyCredentials,
+  type SessionData,
+} from "@/lib/api-utils";
+import { getFamilySessionId } from "@/lib/child-profiles";
+import { getQuestByDay } from "@/lib/data-loader";
+import { applyVariant, resolveDifficulty } from "@/lib/quest-variants";
+import {
+  applyQuestOverride,
+  sanitizeQuestOverrides,
+} from "@/lib/quest-overrides";
+import {
+  CALENDAR_DAYS,
+  getGameDay,
+  sanitizeSchedule,
+} from "@/lib/calendar-schedule";
+import { getOsloDate } from "@/lib/date-utils";
+import { checkQuestCode } from "@/lib/quest-answers";
+import type { Oppdrag } from "@/types/innhold";
+
+export const dynamic = "force-dynamic";
+
+// Longer than any answer; keeps junk out of the matcher
+const MAX_CODE_LENGTH = 100;
+
+/**
+ * Get a day's quest as the family plays it (answers included)
+ */
+function getFamilyQuest(
+  credentials: FamilyCredentials,
+  day: number,
+): Oppdrag | undefined {
+  const quest = getQuestByDay(day, credentials.season);
+  if (!quest) return undefined;
+
+  return applyQuestOverride(
+    applyVariant(quest, resolveDifficulty(credentials.difficulty)),
+    sanitizeQuestOverrides(credentials.questOverrides),
+  );
+}
+
+/**
+ * Session fields to set for a newly completed day
+ * Same shape as SanityStorageAdapter writes (Sanity array format with _key)
+ */
+function getCompletionUpdates(
+  session: SessionData,
+  quest: Oppdrag,
+  kode: string,
+): Record<string, unknown> {
+  const day = quest.dag;
+  const dato = new Date().toISOString();
+  const { files = [], topics = [], modules = [] } = quest.reveals ?? {};
+
+  const union = (existing: string[] | undefined, added: string[]) => [
+    ...new Set([...(existing ?? []), ...added]),
+  ];
+
+  return {
+    submittedCodes: [
+      ...(session.submittedCodes ?? []),
+      { _key: `code-${kode}-${dato}`, kode, dato, day },
+    ],
+    unlockedFiles: union(session.unlockedFiles, files),
+    unlockedModules: union(session.unlockedModules, modules),
+    topicUnlocks: [
+      ...(session.topicUnlocks ?? []).filter(
+        (unlock) => !topics.includes(unlock.topic),
+      ),
+      ...topics.map((topic) => ({ _key: `topic-${topic}`, topic, day })),
+    ],
+    failedAttempts: (session.failedAttempts ?? []).filter(
+      (attempt) => attempt.day !== day,
+    ),
+    firstFailedAttempts: (session.firstFailedAttempts ?? []).filter(
+      (attempt) => attempt.day !== day,
+    ),
+  };
+}
+
+/**
+ * Session fields to set after a wrong code
+ */
+function getFailedAttemptUpdates(
+  session: SessionData,
+  day: number,
+): Record<string, unknown> {
+  const failedAttempts = session.failedAttempts ?? [];
+  const attemptCount =
+    (failedAttempts.find((attempt) => attempt.day === day)?.attemptCount ?? 0) +
+    1;
+  const firstFailedAttempts = session.firstFailedAttempts ?? [];
+
+  return {
+    failedAttempts: [
+      ...failedAttempts.filter((attempt) => attempt.day !== day),
+      { _key: `failed-${day}`, day, attemptCount },
+    ],
+    firstFailedAttempts: firstFailedAttempts.some(
+      (attempt) => attempt.day === day,
+    )
+      ? firstFailedAttempts
+      : [
+          ...firstFailedAttempts,
+          {
+            _key: `first-failed-${day}`,
+            day,
+            timestamp: new Date().toISOString(),
+          },
+        ],
+  };
+}
+
+/**
+ * POST /api/quest/submit
+ * Check a code and record the result
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const { day, code } = body;
+
+    const sessionIdResult = requireGameSessionId(request, body);
+    if ("error" in sessionIdResult) return sessionIdResult.error;
+    const { sessionId: gameSessionId } = sessionIdResult;
+    const sessionId = getFamilySessionId(gameSessionId);
+
+    if (!Number.isInteger(day) || day < 1 || day > CALENDAR_DAYS) {
+      return errorResponse("day must be a whole number from 1 to 24");
+    }
+    if (
+      typeof code !== "string" ||
+      !code.trim() ||
+      code.length > MAX_CODE_LENGTH
+    ) {
+      return errorResponse("code required");
+    }
+
+    const credentialsResult = await requireCredentials(sessionId);
+    if ("error" in credentialsResult) return credentialsResult.error;
+    const { credentials } = credentialsResult;
+
+    // Same rule as isDayUnlocked() in the kids' app
+    if (
+      process.env.NEXT_PUBLIC_TEST_MODE !== "true" &&
+      day >
+        getGameDay(
+          getOsloDate(),
+          sanitizeSchedule(credentials.calendarSchedule),
+        )
+    ) {
+      return errorResponse("Day is not unlocked yet", 403);
+    }
+
+    const quest = getFamilyQuest(credentials, day);
+    if (!quest) {
+      return errorResponse(`No quest for day ${day}`, 404);
+    }
+
+    const sessionResult = await requireSession(gameSessionId);
+    if ("error" in sessionResult) return sessionResult.error;
+    const { session } = sessionResult;
+
+    const verdict = checkQuestCode(quest, code, credentials.kidCode);
+
+    const isCompleted = (session.submittedCodes ?? []).some(
+      (entry) => entry.day === day,
+    );
+
+    let updates: Record<string, unknown> | null = null;
+    if (verdict.match === "feil") {
+      updates = getFailedAttemptUpdates(session, day);
+    } else if (verdict.match === "riktig" && verdict.kode && !isCompleted) {
+      updates = getCompletionUpdates(session, quest, verdict.kode);
+    }
+
+    if (updates) {
+      await commitSessionUpdate(gameSessionId, session, updates);
+    }
+
+    return successResponse(verdict);
+  } catch (error) {
+    return createErrorResponse(error, "Failed to check code");
+  }
+}
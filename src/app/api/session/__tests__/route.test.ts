@@ -6,7 +6,8 @@
  * Session API Route Tests
  *
  * Tests the /api/session endpoints using real Sanity backend (no mocking).
- * Covers GET, POST, and DELETE operations with basic cookie validation.
+ * Covers GET, POST, and DELETE operations with basic cookie validation, and
+ * days filled in for legacy submitted codes.
  *
  * IMPORTANT: Requires NEXT_PUBLIC_STORAGE_BACKEND=sanity and valid Sanity credentials
  */
@@ -17,7 +18,7 @@ import "next-test-api-route-handler";
 import { testApiHandler } from "next-test-api-route-handler";
 import { describe, it, expect, afterAll } from "@jest/globals";
 import * as sessionRoute from "../route";
-import { sanityServerClient } from "@/lib/sanity-client";
+import { getServerRepositories } from "@/lib/server-storage";
 import { hashPassword } from "@/lib/password-utils";
 
 // Track test sessions for cleanup
@@ -87,6 +88,48 @@ describe("GET /api/session", () => {
       },
     });
   });
+
+  it("should give legacy submitted codes their day", async () => {
+    const sessionId = await generateTestSessionId();
+    const { credentials, sessions } = getServerRepositories();
+    await credentials.create({
+      sessionId,
+      kidCode: "NISSEKRAFT2024",
+      parentCode: "NORDPOL-TEST",
+      kidNames: ["Emma"],
+      friendNames: [],
+      season: "2025",
+      createdAt: new Date().toISOString(),
+    });
+    // Saved before entries had a day; the bundle can't match these
+    await sessions.create({
+      sessionId,
+      submittedCodes: [
+        { kode: "NISSEKRAFT2024", dato: "2024-12-01T17:00:00.000Z" },
+        { kode: "SEKK", dato: "2024-12-08T17:00:00.000Z" },
+      ],
+    });
+
+    try {
+      await testApiHandler({
+        appHandler: sessionRoute,
+        url: `/api/session?sessionId=${sessionId}`,
+        test: async ({ fetch }) => {
+          const res = await fetch({ method: "GET" });
+          expect(res.status).toBe(200);
+          const json = await res.json();
+          expect(
+            json.submittedCodes.map((entry: { day?: number }) => entry.day),
+          ).toEqual([1, 8]);
+        },
+      });
+
+      const saved = await sessions.findBySessionId(sessionId);
+      expect(saved?.submittedCodes.map((entry) => entry.day)).toEqual([1, 8]);
+    } finally {
+      await credentials.deleteBySessionId(sessionId).catch(() => {});
+    }
+  });
 });
 
 describe("POST /api/session", () => {
@@ -208,7 +251,7 @@ describe("DELETE /api/session", () => {
   });
 });
 
-// Cleanup test sessions from Sanity
+// Cleanup test sessions from the server store
 afterAll(async () => {
   console.debug(`Cleaning up ${testSessions.size} test sessions...`);
   let successCount = 0;
@@ -216,10 +259,7 @@ afterAll(async () => {
 
   for (const sessionId of testSessions) {
     try {
-      await sanityServerClient.delete({
-        query: `*[_type == "userSession" && sessionId == $sessionId]`,
-        params: { sessionId },
-      });
+      await getServerRepositories().sessions.deleteBySessionId(sessionId);
       successCount++;
     } catch (error) {
       failCount++;
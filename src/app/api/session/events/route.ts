@@ -0,0 +1,91 @@
+/**
+ * Session Events API - Live game progress stream
+ *
+ * GET /api/session/events
+ * - Server-sent events for the parent's session (parent auth cookie required)
+ * - One SSE message per SessionEvent: `event: <type>`, `data: <json>`
+ * - Comment heartbeat every HEARTBEAT_INTERVAL_MS keeps proxies from closing
+ *   the connection; EventSource reconnects by itself if it drops
+ *
+ * Events come from every route that records progress - /api/session/sync,
+ * /api/session/rollback, /api/quest/submit and /api/quest/decrypt - through
+ * commitSessionUpdate() in api-utils.ts (see session-events.ts).
+ */
+
+import { NextRequest } from "next/server";
+import { errorResponse, requireParentAuth } from "@/lib/api-utils";
+import { getSessionEventBus, type SessionEvent } from "@/lib/session-events";
+
+export const dynamic = "force-dynamic";
+
+const STORAGE_BACKEND =
+  process.env.NEXT_PUBLIC_STORAGE_BACKEND || "localStorage";
+const HEARTBEAT_INTERVAL_MS = 25000;
+const RECONNECT_DELAY_MS = 5000;
+
+/**
+ * GET - Stream session events until the client disconnects
+ */
+export async function GET(request: NextRequest) {
+  // Progress only reaches the server with a server backend
+  if (STORAGE_BACKEND === "localStorage") {
+    return errorResponse("Live events require a server backend");
+  }
+
+  const authResult = await requireParentAuth(request);
+  if ("error" in authResult) return authResult.error;
+  const { sessionId } = authResult;
+
+  const encoder = new TextEncoder();
+  let stop = () => {};
+
+  const stream = new ReadableStream<Uint8Array>({
+    start(controller) {
+      const send = (chunk: string) => {
+        try {
+          controller.enqueue(encoder.encode(chunk));
+        } catch {
+          stop(); // Stream already closed
+        }
+      };
+
+      const unsubscribe = getSessionEventBus().subscribe(
+        sessionId,
+        (event: SessionEvent) =>
+          send(`event: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`),
+      );
+      const heartbeat = setInterval(
+        () => send(": heartbeat\n\n"),
+        HEARTBEAT_INTERVAL_MS,
+      );
+
+      stop = () => {
+        clearInterval(heartbeat);
+        unsubscribe();
+      };
+
+      request.signal.addEventListener("abort", () => {
+        stop();
+        try {
+          controller.close();
+        } catch {
+          // Already closed
+        }
+      });
+
+      send(`retry: ${RECONNECT_DELAY_MS}\n: connected\n\n`);
+    },
+    cancel() {
+      stop();
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      "Content-Type": "text/event-stream; charset=utf-8",
+      "Cache-Control": "no-cache, no-transform",
+      Connection: "keep-alive",
+      "X-Accel-Buffering": "no", // Don't let nginx buffer the stream
+    },
+  });
+}
@@ -10,7 +10,7 @@
  */
 
 import { NextRequest } from "next/server";
-import { sanityServerClient } from "@/lib/sanity-client";
+import { getServerRepositories } from "@/lib/server-storage";
 import {
   requireSessionId,
   requireSession,
@@ -74,11 +74,13 @@ export async function PATCH(request: NextRequest) {
       }
     }
 
+    const sessionResult = await requireSession(sessionId);
+    if ("error" in sessionResult) return sessionResult.error;
+
     // Update userSession document
-    await sanityServerClient
-      .patch(sessionId)
-      .set({ friendNames })
-      .commit({ autoGenerateArrayKeys: true });
+    await getServerRepositories().sessions.update(sessionResult.session._id, {
+      friendNames,
+    });
 
     return successResponse();
   } catch (error) {
@@ -0,0 +1,174 @@
+/**
+ * @jest-environment node
+ */
+
+/**
+ * Day Rollback API Route Tests
+ *
+ * Tests POST /api/session/rollback:
+ * - Only parents can roll a day back
+ * - Only the plan's items are removed; progress written after the plan
+ *   was made stays
+ * - A child profile's session is rolled back on its own
+ */
+
+// CRITICAL: next-test-api-route-handler MUST be imported first
+import "next-test-api-route-handler";
+
+import { testApiHandler } from "next-test-api-route-handler";
+import { describe, it, expect, afterAll } from "@jest/globals";
+import * as rollbackRoute from "../route";
+import { getServerRepositories } from "@/lib/server-storage";
+import { generateKidCode, generateParentCode } from "@/lib/code-generator";
+import { createParentToken } from "@/lib/parent-token";
+import type { DayRollbackPlan } from "@/lib/game-engine";
+
+// Track test sessions for cleanup
+const testSessions = new Set<string>();
+
+const dayOneProgress = {
+  submittedCodes: [
+    { _key: "code-DAG1", kode: "DAG1", dato: "2025-12-01", day: 1 },
+    { _key: "code-DAG2", kode: "DAG2", dato: "2025-12-02", day: 2 },
+  ],
+  failedAttempts: [{ _key: "failed-1", day: 1, attemptCount: 2 }],
+  unlockedFiles: ["fil-1", "fil-2"],
+  collectedSymbols: [
+    { _key: "symbol-s1", symbolId: "s1" },
+    { _key: "symbol-s2", symbolId: "s2" },
+  ],
+};
+
+const createTestFamily = async () => {
+  const sessionId = `test_rollback_${Date.now()}_${Math.random().toString(36).substring(7)}`;
+  const { credentials, sessions } = getServerRepositories();
+
+  await credentials.create({
+    sessionId,
+    kidCode: generateKidCode(),
+    parentCode: generateParentCode(),
+    familyName: "Test Family",
+    kidNames: ["Emma"],
+    childProfiles: [{ id: "emma", navn: "Emma" }],
+    friendNames: [],
+    createdAt: new Date().toISOString(),
+  });
+  await sessions.create({ sessionId, ...dayOneProgress });
+  await sessions.create({ sessionId: `${sessionId}~emma`, ...dayOneProgress });
+  testSessions.add(sessionId);
+
+  const parentToken = createParentToken(sessionId);
+  const cookie = `nissekomm-session=${sessionId}; nissekomm-parent-auth=${parentToken}`;
+
+  return { sessionId, cookie };
+};
+
+const dayOnePlan: DayRollbackPlan = {
+  day: 1,
+  code: "DAG1",
+  failedAttempts: 2,
+  files: ["fil-1"],
+  topics: [],
+  modules: [],
+  symbols: ["s1"],
+  decryptions: [],
+  badges: [],
+  bonusOppdrag: false,
+  eventyr: [],
+  crises: [],
+};
+
+const rollback = async (cookie: string, body: Record<string, unknown>) => {
+  let result: { status: number; json: Record<string, unknown> } = {
+    status: 0,
+    json: {},
+  };
+
+  await testApiHandler({
+    appHandler: rollbackRoute,
+    test: async ({ fetch }) => {
+      const res = await fetch({
+        method: "POST",
+        headers: { cookie },
+        body: JSON.stringify(body),
+      });
+      result = { status: res.status, json: await res.json() };
+    },
+  });
+
+  return result;
+};
+
+afterAll(async () => {
+  const { credentials, sessions } = getServerRepositories();
+  for (const sessionId of testSessions) {
+    await credentials.deleteBySessionId(sessionId).catch(() => {});
+    await sessions.deleteBySessionId(sessionId).catch(() => {});
+    await sessions.deleteBySessionId(`${sessionId}~emma`).catch(() => {});
+  }
+}, 15000);
+
+describe("POST /api/session/rollback", () => {
+  it("should require parent authentication", async () => {
+    const { sessionId } = await createTestFamily();
+
+    const res = await rollback(`nissekomm-session=${sessionId}`, {
+      plan: dayOnePlan,
+    });
+
+    expect(res.status).toBe(403);
+  });
+
+  it("should reject a missing plan", async () => {
+    const { cookie } = await createTestFamily();
+
+    const res = await rollback(cookie, { plan: { day: 1 } });
+
+    expect(res.status).toBe(400);
+  });
+
+  it("should remove only the plan's items", async () => {
+    const { sessionId, cookie } = await createTestFamily();
+
+    // Another device solves day 3 after the plan was made
+    const { sessions } = getServerRepositories();
+    const session = await sessions.findBySessionId(sessionId);
+    await sessions.update(session!._id, {
+      submittedCodes: [
+        ...dayOneProgress.submittedCodes,
+        { _key: "code-DAG3", kode: "DAG3", dato: "2025-12-03", day: 3 },
+      ],
+      unlockedFiles: [...dayOneProgress.unlockedFiles, "fil-3"],
+    });
+
+    const res = await rollback(cookie, { plan: dayOnePlan });
+
+    expect(res.status).toBe(200);
+    const stored = await sessions.findBySessionId(sessionId);
+    expect(stored?.submittedCodes.map((c) => c.day)).toEqual([2, 3]);
+    expect(stored?.failedAttempts).toEqual([]);
+    expect(stored?.unlockedFiles).toEqual(["fil-2", "fil-3"]);
+    expect(stored?.collectedSymbols.map((s) => s.symbolId)).toEqual(["s2"]);
+    expect(
+      stored?.eventLog?.map((event) =>
+        event.type === "parent-override" ? event.action : event.type,
+      ),
+    ).toEqual(["day-rolled-back", "symbol-removed"]);
+  });
+
+  it("should roll back a child profile's session on its own", async () => {
+    const { sessionId, cookie } = await createTestFamily();
+
+    const res = await rollback(cookie, {
+      sessionId: `${sessionId}~emma`,
+      plan: dayOnePlan,
+    });
+
+    expect(res.status).toBe(200);
+    const { sessions } = getServerRepositories();
+    const profile = await sessions.findBySessionId(`${sessionId}~emma`);
+    const family = await sessions.findBySessionId(sessionId);
+    expect(profile?.submittedCodes.map((c) => c.day)).toEqual([2]);
+    expect(family?.submittedCodes.map((c) => c.day)).toEqual([1, 2]);
+  });
+});
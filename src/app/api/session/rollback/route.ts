@@ -0,0 +1,71 @@
+/**
+ * Day Rollback API Route
+ *
+ * Takes a day back in a session from nissemor-guide. Requires parent
+ * authentication.
+ *
+ * POST /api/session/rollback
+ * Body: { sessionId?: string, plan: DayRollbackPlan }
+ * Returns: { session } - the session after the rollback
+ *
+ * The plan (GameEngine.previewDayRollback) names what the day took with it;
+ * only those items are removed from the session as stored now (see
+ * day-rollback.ts), so progress other devices synced meanwhile stays. The
+ * write carries the session's revision: a device writing in between gives a
+ * retryable 409, and SanityStorageAdapter.rollbackDay() sends it again.
+ *
+ * A child profile's session in the body is rolled back instead of the
+ * family's (see child-profiles.ts).
+ */
+
+import { NextRequest } from "next/server";
+import {
+  commitSessionUpdate,
+  requireGameSessionId,
+  requireParentAuth,
+  requireSession,
+  errorResponse,
+  createErrorResponse,
+  successResponse,
+} from "@/lib/api-utils";
+import {
+  getDayRollbackUpdates,
+  sanitizeDayRollbackPlan,
+} from "@/lib/day-rollback";
+
+/**
+ * POST /api/session/rollback
+ * Remove a day's progress from the session
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const authResult = await requireParentAuth(request);
+    if ("error" in authResult) return authResult.error;
+
+    const body = await request.json();
+
+    const sessionIdResult = requireGameSessionId(request, body);
+    if ("error" in sessionIdResult) return sessionIdResult.error;
+    const { sessionId } = sessionIdResult;
+
+    const plan = sanitizeDayRollbackPlan(body.plan);
+    if (!plan) {
+      return errorResponse("plan object required");
+    }
+
+    const sessionResult = await requireSession(sessionId);
+    if ("error" in sessionResult) return sessionResult.error;
+    const { session } = sessionResult;
+
+    const updatedSession = await commitSessionUpdate(
+      sessionId,
+      session,
+      getDayRollbackUpdates(session, plan),
+      { ifRevision: session._rev },
+    );
+
+    return successResponse({ session: updatedSession });
+  } catch (error) {
+    return createErrorResponse(error, "Failed to roll back day");
+  }
+}
@@ -5,11 +5,15 @@
  *
  * GET /api/session
  * - Fetches existing session by sessionId from cookie or query parameter
+ *   (a child profile's session when the query names one, see child-profiles.ts)
+ * - Gives legacy submitted codes (no day) their day from the full quests
+ *   and saves that, since the stripped bundle can't match them itself
+ *   (see quest-answers.ts)
  * - Returns session data or 404 if not found
  *
  * POST /api/session
- * - Creates new session with given sessionId
- * - Sets session cookie
+ * - Creates new session with given sessionId (family or child profile)
+ * - Sets session cookie (always the family's session)
  * - Returns created session data
  *
  * DELETE /api/session?sessionId=<id>
@@ -19,15 +23,53 @@
  */
 
 import { NextRequest, NextResponse } from "next/server";
-import { sanityServerClient } from "@/lib/sanity-client";
+import { getServerRepositories } from "@/lib/server-storage";
 import {
-  getSessionId,
+  getGameSessionId,
+  fetchCredentials,
   fetchSession,
   setSessionCookie,
   errorResponse,
   createErrorResponse,
   successResponse,
+  type SessionData,
 } from "@/lib/api-utils";
+import { getFamilySessionId } from "@/lib/child-profiles";
+import { getAllQuests } from "@/lib/data-loader";
+import { backfillSubmittedCodeDays } from "@/lib/quest-answers";
+
+/**
+ * Save days for legacy submitted codes, if the session has any
+ * A concurrent write (409) leaves it for the next load.
+ */
+async function backfillLegacyDays(session: SessionData): Promise<SessionData> {
+  if (
+    (session.submittedCodes ?? []).every((entry) => entry.day !== undefined)
+  ) {
+    return session;
+  }
+
+  const credentials = await fetchCredentials(
+    getFamilySessionId(session.sessionId),
+  );
+  const submittedCodes = backfillSubmittedCodeDays(
+    session.submittedCodes,
+    getAllQuests(credentials?.season),
+    credentials?.kidCode,
+  );
+  if (!submittedCodes) return session;
+
+  try {
+    return await getServerRepositories().sessions.update(
+      session._id,
+      { submittedCodes },
+      { ifRevision: session._rev },
+    );
+  } catch (error) {
+    if ((error as { statusCode?: number }).statusCode !== 409) throw error;
+    return { ...session, submittedCodes };
+  }
+}
 
 /**
  * GET /api/session
@@ -37,7 +79,7 @@ import {
 export async function GET(request: NextRequest) {
   try {
     // Extract session ID (query takes precedence for multi-tenant switching)
-    const sessionId = getSessionId(request);
+    const sessionId = getGameSessionId(request);
 
     if (!sessionId) {
       return errorResponse("No session ID in cookie or query", 404);
@@ -50,7 +92,7 @@ export async function GET(request: NextRequest) {
       return errorResponse("Session not found", 404);
     }
 
-    return successResponse(session);
+    return successResponse(await backfillLegacyDays(session));
   } catch (error) {
     return createErrorResponse(error, "Failed to fetch session");
   }
@@ -69,9 +111,8 @@ export async function POST(request: NextRequest) {
       return errorResponse("sessionId required");
     }
 
-    // Create new session document in Sanity
-    const newSession = await sanityServerClient.create({
-      _type: "userSession",
+    // Create new session document
+    const newSession = await getServerRepositories().sessions.create({
       sessionId,
       lastUpdated: new Date().toISOString(),
       // Initialize with default values
@@ -91,6 +132,7 @@ export async function POST(request: NextRequest) {
       solvedDecryptions: [],
       decryptionAttempts: [], // Array format
       failedAttempts: [], // Array format
+      firstFailedAttempts: [], // Array format
       crisisStatus: { antenna: false, inventory: false },
       santaLetters: [],
       brevfugler: [],
@@ -103,7 +145,7 @@ export async function POST(request: NextRequest) {
 
     // Create response with session cookie
     const response = NextResponse.json(newSession, { status: 201 });
-    return setSessionCookie(response, sessionId);
+    return setSessionCookie(response, getFamilySessionId(sessionId));
   } catch (error) {
     return createErrorResponse(error, "Failed to create session");
   }
@@ -123,10 +165,7 @@ export async function DELETE(request: NextRequest) {
     }
 
     // Delete all sessions matching the sessionId
-    await sanityServerClient.delete({
-      query: `*[_type == "userSession" && sessionId == $sessionId]`,
-      params: { sessionId },
-    });
+    await getServerRepositories().sessions.deleteBySessionId(sessionId);
 
     return successResponse({ sessionId });
   } catch (error) {
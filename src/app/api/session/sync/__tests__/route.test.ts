@@ -18,8 +18,9 @@ import { testApiHandler } from "next-test-api-route-handler";
 import { describe, it, expect, afterAll } from "@jest/globals";
 import * as syncRoute from "../route";
 import * as sessionRoute from "../../route";
-import { sanityServerClient } from "@/lib/sanity-client";
+import { getServerRepositories } from "@/lib/server-storage";
 import { hashPassword } from "@/lib/password-utils";
+import { getSessionEventBus, type SessionEvent } from "@/lib/session-events";
 
 // Track test sessions for cleanup
 const testSessions = new Set<string>();
@@ -130,6 +131,109 @@ describe("PATCH /api/session/sync", () => {
     });
   });
 
+  it("should publish progress events for live dashboards", async () => {
+    const sessionId = await generateTestSessionId();
+    await createSession(sessionId);
+    const events: SessionEvent[] = [];
+    const unsubscribe = getSessionEventBus().subscribe(sessionId, (event) =>
+      events.push(event),
+    );
+
+    await testApiHandler({
+      appHandler: syncRoute,
+      test: async ({ fetch }) => {
+        const res = await fetch({
+          method: "PATCH",
+          body: JSON.stringify({
+            sessionId,
+            updates: {
+              submittedCodes: [
+                {
+                  _key: "code-7",
+                  kode: "REINSDYR",
+                  dato: new Date().toISOString(),
+                  day: 7,
+                },
+              ],
+            },
+          }),
+        });
+        expect(res.status).toBe(200);
+      },
+    });
+    unsubscribe();
+
+    expect(events.map((event) => event.type)).toEqual([
+      "day-solved",
+      "session-updated",
+    ]);
+    expect(events[0]).toMatchObject({ day: 7 });
+  });
+
+  it("should write a child profile's session and tell the family", async () => {
+    const sessionId = await generateTestSessionId();
+    const profileSessionId = `${sessionId}~emma`;
+    testSessions.add(profileSessionId);
+    await createSession(sessionId);
+    await createSession(profileSessionId);
+    const events: SessionEvent[] = [];
+    const unsubscribe = getSessionEventBus().subscribe(sessionId, (event) =>
+      events.push(event),
+    );
+
+    await testApiHandler({
+      appHandler: syncRoute,
+      test: async ({ fetch }) => {
+        const res = await fetch({
+          method: "PATCH",
+          headers: { cookie: `nissekomm-session=${sessionId}` },
+          body: JSON.stringify({
+            sessionId: profileSessionId,
+            updates: { soundsEnabled: false },
+          }),
+        });
+        expect(res.status).toBe(200);
+      },
+    });
+    unsubscribe();
+
+    const sessions = getServerRepositories().sessions;
+    expect(
+      (await sessions.findBySessionId(profileSessionId))?.soundsEnabled,
+    ).toBe(false);
+    expect((await sessions.findBySessionId(sessionId))?.soundsEnabled).not.toBe(
+      false,
+    );
+    expect(events).toEqual([
+      expect.objectContaining({ type: "session-updated", profileId: "emma" }),
+    ]);
+  });
+
+  it("should not let a family write another family's profile", async () => {
+    const sessionId = await generateTestSessionId();
+    const otherSessionId = await generateTestSessionId();
+    await createSession(sessionId);
+
+    await testApiHandler({
+      appHandler: syncRoute,
+      test: async ({ fetch }) => {
+        const res = await fetch({
+          method: "PATCH",
+          headers: { cookie: `nissekomm-session=${sessionId}` },
+          body: JSON.stringify({
+            sessionId: `${otherSessionId}~emma`,
+            updates: { soundsEnabled: false },
+          }),
+        });
+
+        // The cookie's family is written instead
+        expect(res.status).toBe(200);
+        const json = await res.json();
+        expect(json.session.sessionId).toBe(sessionId);
+      },
+    });
+  });
+
   it("should return 401 when sessionId missing", async () => {
     await testApiHandler({
       appHandler: syncRoute,
@@ -216,7 +320,7 @@ describe("PATCH /api/session/sync", () => {
   });
 });
 
-// Cleanup test sessions from Sanity
+// Cleanup test sessions from the server store
 afterAll(async () => {
   console.debug(`Cleaning up ${testSessions.size} test sessions...`);
   let successCount = 0;
@@ -224,10 +328,7 @@ afterAll(async () => {
 
   for (const sessionId of testSessions) {
     try {
-      await sanityServerClient.delete({
-        query: `*[_type == "userSession" && sessionId == $sessionId]`,
-        params: { sessionId },
-      });
+      await getServerRepositories().sessions.deleteBySessionId(sessionId);
       successCount++;
     } catch (error) {
       failCount++;
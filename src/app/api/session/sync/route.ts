@@ -4,20 +4,36 @@
  * Handles partial session updates with timestamp tracking.
  *
  * PATCH /api/session/sync
- * - Updates specific fields in session
+ * - Updates specific fields in session, merged per field with what other
+ *   devices wrote (see session-merge.ts); `replace: true` overwrites (reset)
  * - Automatically adds lastUpdated timestamp
- * - Supports retry logic from client
+ * - Supports retry logic from client; a write that raced another device's
+ *   gets a retryable 409
+ *
+ * Replays are idempotent: the client's outbox sends a mutationId with each
+ * write, and ids already applied to the session are acknowledged without
+ * writing again (the last MAX_APPLIED_MUTATIONS are remembered).
+ *
+ * Each committed write is published on the session event bus (see
+ * session-events.ts, commitSessionUpdate), which feeds GET /api/session/events.
+ *
+ * A child profile's session in the body is written instead of the family's
+ * (see child-profiles.ts); its events go to the family with the profile id.
  */
 
 import { NextRequest } from "next/server";
-import { sanityServerClient } from "@/lib/sanity-client";
 import {
-  requireSessionId,
+  commitSessionUpdate,
+  requireGameSessionId,
   requireSession,
   errorResponse,
   createErrorResponse,
   successResponse,
 } from "@/lib/api-utils";
+import { mergeSessionUpdates } from "@/lib/session-merge";
+
+// Enough to cover an outbox replay; older ids are forgotten
+const MAX_APPLIED_MUTATIONS = 50;
 
 /**
  * PATCH /api/session/sync
@@ -26,10 +42,10 @@ import {
 export async function PATCH(request: NextRequest) {
   try {
     const body = await request.json();
-    const { updates } = body;
+    const { updates, mutationId, writtenAt, replace } = body;
 
     // Extract and validate session ID
-    const sessionIdResult = requireSessionId(request, body);
+    const sessionIdResult = requireGameSessionId(request, body);
     if ("error" in sessionIdResult) return sessionIdResult.error;
     const { sessionId } = sessionIdResult;
 
@@ -37,20 +53,67 @@ export async function PATCH(request: NextRequest) {
     if (!updates || typeof updates !== "object") {
       return errorResponse("updates object required");
     }
+    if (
+      mutationId !== undefined &&
+      (typeof mutationId !== "string" || !mutationId || mutationId.length > 100)
+    ) {
+      return errorResponse("mutationId must be a non-empty string");
+    }
+    if (
+      writtenAt !== undefined &&
+      (typeof writtenAt !== "string" || Number.isNaN(Date.parse(writtenAt)))
+    ) {
+      return errorResponse("writtenAt must be an ISO timestamp");
+    }
 
     // Fetch and validate existing session
     const sessionResult = await requireSession(sessionId);
     if ("error" in sessionResult) return sessionResult.error;
     const { session: existingSession } = sessionResult;
 
-    // Update session with new fields and timestamp
-    const updatedSession = await sanityServerClient
-      .patch(existingSession._id)
-      .set({
-        ...updates,
-        lastUpdated: new Date().toISOString(),
-      })
-      .commit();
+    // Already applied (response was lost) - acknowledge without writing again
+    const appliedMutations = existingSession.appliedMutations ?? [];
+    if (mutationId && appliedMutations.includes(mutationId)) {
+      return successResponse({
+        success: true,
+        duplicate: true,
+        session: existingSession,
+      });
+    }
+
+    // A device clock ahead of ours must not win every later write
+    const now = new Date().toISOString();
+    const writeTime =
+      writtenAt && new Date(writtenAt).toISOString() < now
+        ? new Date(writtenAt).toISOString()
+        : now;
+
+    const merged = mergeSessionUpdates(
+      existingSession as unknown as Record<string, unknown>,
+      updates,
+      writeTime,
+      replace === true,
+    );
+
+    // Update session with merged fields and timestamp, and tell live
+    // dashboards (other devices) what changed
+    // ifRevision: another device writing in between gives a 409 (retryable)
+    const updatedSession = await commitSessionUpdate(
+      sessionId,
+      existingSession,
+      merged,
+      {
+        bookkeeping: mutationId
+          ? {
+              appliedMutations: [...appliedMutations, mutationId].slice(
+                -MAX_APPLIED_MUTATIONS,
+              ),
+            }
+          : undefined,
+        ifRevision: existingSession._rev,
+        now,
+      },
+    );
 
     return successResponse({
       success: true,
@@ -5,13 +5,15 @@
  * Requires valid session ID from cookie.
  *
  * This is a destructive operation that cannot be undone.
- * Deletes both familyCredentials and userSession documents.
+ * Deletes familyCredentials and the userSession documents (the family's
+ * and each child profile's).
  *
  * POST: Delete account (requires confirmation)
  */
 
 import { NextRequest, NextResponse } from "next/server";
-import { sanityServerClient } from "@/lib/sanity-client";
+import { getServerRepositories } from "@/lib/server-storage";
+import { getProfileSessionId, syncChildProfiles } from "@/lib/child-profiles";
 
 const STORAGE_BACKEND =
   process.env.NEXT_PUBLIC_STORAGE_BACKEND || "localStorage";
@@ -65,17 +67,11 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    // Sanity mode: Delete all documents for this session
+    // Server mode: Delete all documents for this session
+    const { sessions, credentials } = getServerRepositories();
 
     // Find credential document
-    const credential = await sanityServerClient.fetch(
-      `*[_type == "familyCredentials" && sessionId == $sessionId][0]{
-        _id,
-        familyName,
-        kidCode
-      }`,
-      { sessionId },
-    );
+    const credential = await credentials.findBySessionId(sessionId);
 
     if (!credential) {
       return NextResponse.json(
@@ -84,29 +80,22 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    // Find session document
-    const session = await sanityServerClient.fetch(
-      `*[_type == "userSession" && sessionId == $sessionId][0]{ _id }`,
-      { sessionId },
-    );
-
     console.log(
       `[Delete Account API] Deleting account for family: ${credential.familyName} (kidCode: ${credential.kidCode})`,
     );
 
-    // Delete both documents in a transaction
-    const transaction = sanityServerClient.transaction();
-
-    if (credential._id) {
-      transaction.delete(credential._id);
-    }
-
-    if (session?._id) {
-      transaction.delete(session._id);
+    // Delete credentials first: a session left behind can't be logged into
+    await credentials.deleteBySessionId(sessionId);
+    await sessions.deleteBySessionId(sessionId);
+    for (const profile of syncChildProfiles(
+      credential.kidNames || [],
+      credential.childProfiles,
+    )) {
+      await sessions.deleteBySessionId(
+        getProfileSessionId(sessionId, profile.id),
+      );
     }
 
-    await transaction.commit();
-
     console.log(
       `[Delete Account API] Successfully deleted account for session ${sessionId.substring(0, 8)}...`,
     );
@@ -9,7 +9,7 @@
  */
 
 import { NextRequest, NextResponse } from "next/server";
-import { sanityServerClient } from "@/lib/sanity-client";
+import { getServerRepositories } from "@/lib/server-storage";
 
 const STORAGE_BACKEND =
   process.env.NEXT_PUBLIC_STORAGE_BACKEND || "localStorage";
@@ -40,14 +40,9 @@ export async function GET(request: NextRequest) {
       );
     }
 
-    // Sanity mode: Fetch subscription status
-    const credentials = await sanityServerClient.fetch(
-      `*[_type == "familyCredentials" && sessionId == $sessionId][0]{
-        emailSubscription,
-        parentEmail
-      }`,
-      { sessionId },
-    );
+    // Server mode: Fetch subscription status
+    const credentials =
+      await getServerRepositories().credentials.findBySessionId(sessionId);
 
     if (!credentials) {
       return NextResponse.json(
@@ -104,13 +99,11 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    // Sanity mode: Update subscription status
+    // Server mode: Update subscription status
+    const { credentials } = getServerRepositories();
 
     // Find the credential document
-    const credential = await sanityServerClient.fetch(
-      `*[_type == "familyCredentials" && sessionId == $sessionId][0]{ _id }`,
-      { sessionId },
-    );
+    const credential = await credentials.findBySessionId(sessionId);
 
     if (!credential) {
       return NextResponse.json(
@@ -120,10 +113,9 @@ export async function POST(request: NextRequest) {
     }
 
     // Update subscription status
-    await sanityServerClient
-      .patch(credential._id)
-      .set({ emailSubscription: body.subscribed })
-      .commit();
+    await credentials.update(credential._id, {
+      emailSubscription: body.subscribed,
+    });
 
     console.log(
       `[Email Subscription API] Updated subscription for session ${sessionId.substring(0, 8)}... to ${body.subscribed}`,
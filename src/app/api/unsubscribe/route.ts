@@ -8,7 +8,7 @@
  */
 
 import { NextRequest, NextResponse } from "next/server";
-import { sanityServerClient } from "@/lib/sanity-client";
+import { getServerRepositories } from "@/lib/server-storage";
 import crypto from "crypto";
 
 const STORAGE_BACKEND =
@@ -186,15 +186,9 @@ export async function GET(request: NextRequest) {
       );
     }
 
-    // Sanity mode: Update subscription
-    const credential = await sanityServerClient.fetch(
-      `*[_type == "familyCredentials" && sessionId == $sessionId][0]{
-        _id,
-        familyName,
-        emailSubscription
-      }`,
-      { sessionId },
-    );
+    // Server mode: Update subscription
+    const { credentials } = getServerRepositories();
+    const credential = await credentials.findBySessionId(sessionId);
 
     if (!credential) {
       return new NextResponse(
@@ -300,10 +294,7 @@ export async function GET(request: NextRequest) {
     }
 
     // Unsubscribe user
-    await sanityServerClient
-      .patch(credential._id)
-      .set({ emailSubscription: false })
-      .commit();
+    await credentials.update(credential._id, { emailSubscription: false });
 
     console.log(
       `[Unsubscribe] Family "${credential.familyName}" unsubscribed via email link`,
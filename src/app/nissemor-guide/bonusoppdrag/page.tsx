@@ -19,8 +19,6 @@ import type { Oppdrag } from "@/types/innhold";
  * - Day 16: Inventory chaos (badge: "Inventar-ekspert")
  */
 
-const allOppdrag = GameEngine.getAllQuests();
-
 // Map day numbers to crisis types (based on current quest data)
 const DAY_TO_CRISIS: Record<number, "antenna" | "inventory"> = {
   11: "antenna",
@@ -49,7 +47,7 @@ function BonusoppdragContent() {
   }, []);
 
   // Find all bonus quests
-  const bonusQuests = allOppdrag.filter((q) => q.bonusoppdrag);
+  const bonusQuests = GameEngine.getAllQuests().filter((q) => q.bonusoppdrag);
 
   const handleValidate = (quest: Oppdrag) => {
     if (!quest.bonusoppdrag) return;
@@ -91,6 +89,10 @@ function BonusoppdragContent() {
       // Remove the badge from unified system
       if (quest.bonusoppdrag.badge_id) {
         StorageManager.removeEarnedBadge(quest.bonusoppdrag.badge_id);
+        GameEngine.recordParentOverride(
+          "badge-revoked",
+          quest.bonusoppdrag.badge_id,
+        );
       }
 
       alert("Bonusoppdrag tilbakestilt");
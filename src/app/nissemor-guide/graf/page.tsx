@@ -0,0 +1,378 @@
+"use client";
+
+import { Suspense, useMemo, useState } from "react";
+import { GuideAuth } from "@/components/nissemor/GuideAuth";
+import { GuideNavigation } from "@/components/nissemor/GuideNavigation";
+import { GameEngine } from "@/lib/game-engine";
+import { getStaticContent } from "@/lib/data-loader";
+import { getAllEventyr } from "@/lib/eventyr";
+import {
+  buildQuestGraph,
+  dayNodeId,
+  filterGraph,
+  getUpstream,
+  toDot,
+  toMermaid,
+  type GraphNode,
+} from "@/lib/generators/quest-graph";
+
+/**
+ * Quest Dependency Graph Page (Subpage of Nissemor Guide)
+ *
+ * Shows the unlock graph of the season for content authors:
+ * - What a selected day depends on (transitively) and what it unlocks
+ * - All 24 days with their requirements and reveals
+ * - Orphaned topics and unreachable files highlighted
+ * - Mermaid / DOT export of the full graph or the selected day
+ */
+
+const NODE_STYLES: Record<GraphNode["type"], string> = {
+  dag: "border-(--neon-green) text-(--neon-green)",
+  tema: "border-(--cold-blue) text-(--cold-blue)",
+  fil: "border-(--gold) text-(--gold)",
+  symbol: "border-purple-400 text-purple-400",
+  eventyr: "border-pink-400 text-pink-400",
+};
+
+const NODE_TYPE_LABELS: Record<GraphNode["type"], string> = {
+  dag: "DAGER",
+  tema: "TEMAER",
+  fil: "FILER",
+  symbol: "SYMBOLER",
+  eventyr: "EVENTYR",
+};
+
+function NodeChip({ node }: { node: GraphNode }) {
+  const problem = node.orphaned || node.unreachable;
+  return (
+    <span
+      className={`inline-block text-base px-2 py-0.5 border-2 bg-black/50 ${
+        problem
+          ? "border-(--christmas-red) text-(--christmas-red) bg-(--christmas-red)/10"
+          : NODE_STYLES[node.type]
+      }`}
+      title={
+        node.orphaned
+          ? "Foreldreløst tema"
+          : node.unreachable
+            ? "Fil kan aldri låses opp"
+            : undefined
+      }
+    >
+      {problem && "⚠ "}
+      {node.type === "dag" ? `DAG ${node.day}` : node.label}
+    </span>
+  );
+}
+
+function GrafContent() {
+  const [selectedDay, setSelectedDay] = useState(14);
+  const [exportSelected, setExportSelected] = useState(false);
+  const [copied, setCopied] = useState(false);
+
+  const graph = useMemo(
+    () =>
+      buildQuestGraph(
+        GameEngine.getAllQuests(),
+        getStaticContent().filer,
+        getAllEventyr(),
+      ),
+    [],
+  );
+
+  const nodesById = useMemo(
+    () => new Map(graph.nodes.map((node) => [node.id, node])),
+    [graph],
+  );
+
+  const selectedId = dayNodeId(selectedDay);
+  const upstream = useMemo(
+    () => getUpstream(graph, selectedId),
+    [graph, selectedId],
+  );
+
+  // Direct edges in/out of a node
+  const neighbours = (id: string, direction: "in" | "out") =>
+    graph.edges
+      .filter((e) => (direction === "in" ? e.to === id : e.from === id))
+      .map((e) => nodesById.get(direction === "in" ? e.from : e.to)!)
+      .filter((node, i, all) => all.indexOf(node) === i);
+
+  // Upstream of selected day grouped by node type
+  const upstreamByType = (
+    Object.keys(NODE_TYPE_LABELS) as GraphNode["type"][]
+  ).map((type) => ({
+    type,
+    nodes: [...upstream]
+      .map((id) => nodesById.get(id)!)
+      .filter((node) => node.type === type)
+      .sort((a, b) =>
+        type === "dag" ? a.day! - b.day! : a.label.localeCompare(b.label, "nb"),
+      ),
+  }));
+
+  const exportGraph = exportSelected
+    ? filterGraph(graph, new Set([...upstream, selectedId]))
+    : graph;
+  const mermaid = toMermaid(exportGraph);
+
+  const download = (content: string, extension: string) => {
+    const blob = new Blob([content], { type: "text/plain;charset=utf-8" });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = exportSelected
+      ? `oppdrag-graf-dag-${selectedDay}.${extension}`
+      : `oppdrag-graf.${extension}`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const copyMermaid = () => {
+    navigator.clipboard.writeText(mermaid);
+    setCopied(true);
+    setTimeout(() => setCopied(false), 2000);
+  };
+
+  const dayNodes = graph.nodes
+    .filter((node) => node.type === "dag")
+    .sort((a, b) => a.day! - b.day!);
+
+  return (
+    <div className="min-h-screen bg-(--dark-crt) text-(--neon-green) font-['VT323',monospace] p-4 md:p-8">
+      <GuideNavigation currentPage="graf" />
+
+      {/* Header */}
+      <div className="max-w-7xl mx-auto mb-8">
+        <h1 className="text-4xl md:text-5xl font-bold text-center mb-2 tracking-wider">
+          🕸️ AVHENGIGHETSGRAF 🕸️
+        </h1>
+        <p className="text-center text-xl opacity-70">
+          Hvordan dager, temaer, filer og symboler låser opp hverandre
+        </p>
+      </div>
+
+      {/* Summary */}
+      <div className="max-w-7xl mx-auto mb-6 grid grid-cols-2 md:grid-cols-4 gap-4 text-center">
+        <div className="border-4 border-(--neon-green) p-4 bg-black/50">
+          <div className="text-4xl font-bold">{graph.nodes.length}</div>
+          <div className="text-lg opacity-70">NODER</div>
+        </div>
+        <div className="border-4 border-(--neon-green) p-4 bg-black/50">
+          <div className="text-4xl font-bold">{graph.edges.length}</div>
+          <div className="text-lg opacity-70">KOBLINGER</div>
+        </div>
+        <div className="border-4 border-(--christmas-red) p-4 bg-black/50 text-(--christmas-red)">
+          <div className="text-4xl font-bold">
+            {graph.orphanedTopics.length}
+          </div>
+          <div className="text-lg opacity-70">FORELDRELØSE TEMAER</div>
+        </div>
+        <div className="border-4 border-(--christmas-red) p-4 bg-black/50 text-(--christmas-red)">
+          <div className="text-4xl font-bold">
+            {graph.unreachableFiles.length}
+          </div>
+          <div className="text-lg opacity-70">UTILGJENGELIGE FILER</div>
+        </div>
+      </div>
+
+      {/* Day selector + dependencies */}
+      <div className="max-w-7xl mx-auto mb-6 border-4 border-(--gold) bg-(--gold)/10 p-6">
+        <h2 className="text-3xl font-bold text-(--gold) mb-4">
+          🔍 HVA AVHENGER DAG {selectedDay} AV?
+        </h2>
+        <div className="flex flex-wrap gap-2 mb-6">
+          {dayNodes.map((node) => (
+            <button
+              key={node.id}
+              onClick={() => setSelectedDay(node.day!)}
+              className={`w-12 py-1 text-xl font-bold border-2 transition-colors ${
+                node.day === selectedDay
+                  ? "bg-(--gold) text-black border-(--gold)"
+                  : "bg-black text-(--neon-green) border-(--neon-green) hover:bg-(--neon-green)/20"
+              }`}
+            >
+              {node.day}
+            </button>
+          ))}
+        </div>
+
+        <p className="text-xl text-(--cold-blue) mb-4">
+          {nodesById.get(selectedId)?.label}
+        </p>
+
+        {upstream.size === 0 ? (
+          <p className="text-xl opacity-70">
+            Ingen avhengigheter - dagen er tilgjengelig uten forkunnskaper.
+          </p>
+        ) : (
+          <div className="space-y-3">
+            {upstreamByType
+              .filter((group) => group.nodes.length > 0)
+              .map((group) => (
+                <div key={group.type}>
+                  <div className="text-lg opacity-70 mb-1">
+                    {NODE_TYPE_LABELS[group.type]} ({group.nodes.length})
+                  </div>
+                  <div className="flex flex-wrap gap-2">
+                    {group.nodes.map((node) => (
+                      <NodeChip key={node.id} node={node} />
+                    ))}
+                  </div>
+                </div>
+              ))}
+          </div>
+        )}
+
+        <div className="mt-4">
+          <div className="text-lg opacity-70 mb-1">LÅSER OPP DIREKTE</div>
+          <div className="flex flex-wrap gap-2">
+            {neighbours(selectedId, "out").map((node) => (
+              <NodeChip key={node.id} node={node} />
+            ))}
+          </div>
+        </div>
+      </div>
+
+      {/* Problems */}
+      <div className="max-w-7xl mx-auto mb-6 grid md:grid-cols-2 gap-6">
+        <div className="border-4 border-(--christmas-red) p-6 bg-black/50">
+          <h2 className="text-2xl font-bold text-(--christmas-red) mb-2">
+            ⚠ FORELDRELØSE TEMAER
+          </h2>
+          <p className="text-lg opacity-70 mb-3">
+            Avsløres uten at noe krever dem, eller kreves uten å avsløres.
+          </p>
+          <div className="flex flex-wrap gap-2">
+            {graph.orphanedTopics.map((topic) => (
+              <NodeChip key={topic} node={nodesById.get(`tema:${topic}`)!} />
+            ))}
+            {graph.orphanedTopics.length === 0 && (
+              <span className="text-lg">✓ Ingen</span>
+            )}
+          </div>
+        </div>
+        <div className="border-4 border-(--christmas-red) p-6 bg-black/50">
+          <h2 className="text-2xl font-bold text-(--christmas-red) mb-2">
+            ⚠ UTILGJENGELIGE FILER
+          </h2>
+          <p className="text-lg opacity-70 mb-3">
+            Låst bak betingelser som aldri oppfylles.
+          </p>
+          <div className="flex flex-wrap gap-2">
+            {graph.unreachableFiles.map((file) => (
+              <NodeChip key={file} node={nodesById.get(`fil:${file}`)!} />
+            ))}
+            {graph.unreachableFiles.length === 0 && (
+              <span className="text-lg">✓ Ingen</span>
+            )}
+          </div>
+        </div>
+      </div>
+
+      {/* All days */}
+      <div className="max-w-7xl mx-auto mb-6">
+        <h2 className="text-3xl font-bold mb-4">📅 ALLE DAGER</h2>
+        <div className="grid md:grid-cols-2 lg:grid-cols-3 gap-4">
+          {dayNodes.map((node) => {
+            const inUpstream = upstream.has(node.id);
+            const isSelected = node.id === selectedId;
+            const requires = neighbours(node.id, "in");
+            const unlocks = neighbours(node.id, "out");
+
+            return (
+              <button
+                key={node.id}
+                onClick={() => setSelectedDay(node.day!)}
+                className={`text-left border-2 p-3 bg-black/50 transition-colors ${
+                  isSelected
+                    ? "border-(--gold) ring-4 ring-(--gold)"
+                    : inUpstream
+                      ? "border-(--gold) bg-(--gold)/10"
+                      : "border-(--neon-green)/50 hover:border-(--neon-green)"
+                }`}
+              >
+                <div className="text-xl font-bold mb-2">{node.label}</div>
+                {requires.length > 0 && (
+                  <div className="mb-2">
+                    <span className="text-base opacity-70">KREVER: </span>
+                    <div className="flex flex-wrap gap-1">
+                      {requires.map((n) => (
+                        <NodeChip key={n.id} node={n} />
+                      ))}
+                    </div>
+                  </div>
+                )}
+                {unlocks.length > 0 && (
+                  <div>
+                    <span className="text-base opacity-70">LÅSER OPP: </span>
+                    <div className="flex flex-wrap gap-1">
+                      {unlocks.map((n) => (
+                        <NodeChip key={n.id} node={n} />
+                      ))}
+                    </div>
+                  </div>
+                )}
+              </button>
+            );
+          })}
+        </div>
+      </div>
+
+      {/* Export */}
+      <div className="max-w-7xl mx-auto mb-6 border-4 border-(--cold-blue) p-6 bg-black/50">
+        <h2 className="text-3xl font-bold text-(--cold-blue) mb-4">
+          💾 EKSPORT
+        </h2>
+        <label className="flex items-center gap-2 text-xl mb-4 cursor-pointer">
+          <input
+            type="checkbox"
+            checked={exportSelected}
+            onChange={(e) => setExportSelected(e.target.checked)}
+            className="w-5 h-5"
+          />
+          Kun dag {selectedDay} og det den avhenger av
+        </label>
+        <div className="flex flex-wrap gap-3 mb-4">
+          <button
+            onClick={copyMermaid}
+            className="px-4 py-2 text-xl font-bold border-2 border-(--cold-blue) text-(--cold-blue) hover:bg-(--cold-blue) hover:text-black transition-colors"
+          >
+            {copied ? "✓ KOPIERT" : "📋 KOPIER MERMAID"}
+          </button>
+          <button
+            onClick={() => download(mermaid, "mmd")}
+            className="px-4 py-2 text-xl font-bold border-2 border-(--cold-blue) text-(--cold-blue) hover:bg-(--cold-blue) hover:text-black transition-colors"
+          >
+            ⬇ MERMAID (.mmd)
+          </button>
+          <button
+            onClick={() => download(toDot(exportGraph), "dot")}
+            className="px-4 py-2 text-xl font-bold border-2 border-(--cold-blue) text-(--cold-blue) hover:bg-(--cold-blue) hover:text-black transition-colors"
+          >
+            ⬇ GRAPHVIZ (.dot)
+          </button>
+        </div>
+        <pre className="max-h-80 overflow-auto text-sm border-2 border-(--cold-blue)/50 p-3 text-(--cold-blue) whitespace-pre">
+          {mermaid}
+        </pre>
+      </div>
+    </div>
+  );
+}
+
+export default function GrafPage() {
+  return (
+    <Suspense
+      fallback={
+        <div className="min-h-screen bg-(--crt-dark) text-(--neon-green) font-(family-name:--font-vt323) flex items-center justify-center">
+          <div className="text-2xl">Laster...</div>
+        </div>
+      }
+    >
+      <GuideAuth>
+        <GrafContent />
+      </GuideAuth>
+    </Suspense>
+  );
+}
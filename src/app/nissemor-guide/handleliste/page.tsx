@@ -5,9 +5,9 @@ import { GuideAuth } from "@/components/nissemor/GuideAuth";
 import { GuideNavigation } from "@/components/nissemor/GuideNavigation";
 import { GameEngine } from "@/lib/game-engine";
 
-const allOppdrag = GameEngine.getAllQuests();
-
 function HandlelisteContent() {
+  const allOppdrag = GameEngine.getAllQuests();
+
   // Aggregate all materials with day tracking
   const materialerMedDager = useMemo(() => {
     const materialMap = new Map<
@@ -89,7 +89,7 @@ function HandlelisteContent() {
     });
 
     return grouped;
-  }, []);
+  }, [allOppdrag]);
 
   // Sort categories by importance
   const sortedCategories = useMemo(() => {
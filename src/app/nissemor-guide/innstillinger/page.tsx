@@ -5,9 +5,48 @@ import { GuideAuth } from "@/components/nissemor/GuideAuth";
 import { GuideNavigation } from "@/components/nissemor/GuideNavigation";
 import { GuideSettings } from "@/components/nissemor/GuideSettings";
 import { Icons } from "@/lib/icons";
-import { clearParentAuth } from "@/lib/session-manager";
+import {
+  logoutParent,
+  setParentAuthenticated,
+  setSessionId,
+} from "@/lib/session-manager";
+import { LOCALE_NAMES, SUPPORTED_LOCALES, setActiveLocale } from "@/lib/i18n";
+import {
+  DIFFICULTY_LEVELS,
+  DIFFICULTY_NAMES,
+  setActiveDifficulty,
+} from "@/lib/quest-variants";
+import {
+  HINT_MODES,
+  HINT_MODE_NAMES,
+  setActiveHintMode,
+} from "@/lib/hint-ladder";
+import {
+  collectScheduleErrors,
+  getDateForGameDay,
+  MAX_PAUSES,
+  setActiveSchedule,
+} from "@/lib/calendar-schedule";
+import { getCurrentDate } from "@/lib/date-utils";
 import { useRouter } from "next/navigation";
-import type { CalendarEvent } from "@/types/innhold";
+import type {
+  CalendarEvent,
+  HintModus,
+  Kalenderplan,
+  KalenderPause,
+  Locale,
+  OppdragNivå,
+} from "@/types/innhold";
+
+/**
+ * Show a YYYY-MM-DD date as "3. desember"
+ */
+function formatScheduleDate(dateKey: string): string {
+  return new Date(`${dateKey}T12:00:00`).toLocaleDateString("nb-NO", {
+    day: "numeric",
+    month: "long",
+  });
+}
 
 interface FamilyData {
   familyName: string;
@@ -18,6 +57,10 @@ interface FamilyData {
   parentCode: string;
   createdAt: string;
   calendarEvents: CalendarEvent[];
+  locale: Locale;
+  difficulty: OppdragNivå;
+  hintMode: HintModus;
+  calendarSchedule: Kalenderplan | null;
 }
 
 function InnstillingerContent() {
@@ -28,6 +71,11 @@ function InnstillingerContent() {
   const [isSaving, setIsSaving] = useState(false);
   const [saveSuccess, setSaveSuccess] = useState(false);
   const [copiedField, setCopiedField] = useState<string | null>(null);
+  const [rotatingCode, setRotatingCode] = useState<"kid" | "parent" | null>(
+    null,
+  );
+  const [sendRotationEmail, setSendRotationEmail] = useState(true);
+  const [rotationMessage, setRotationMessage] = useState<string | null>(null);
 
   // Form state
   const [formData, setFormData] = useState({
@@ -36,6 +84,10 @@ function InnstillingerContent() {
     friendNames: [] as string[],
     parentEmail: "",
     calendarEvents: [] as CalendarEvent[],
+    locale: "nb" as Locale,
+    difficulty: "normal" as OppdragNivå,
+    hintMode: "normal" as HintModus,
+    calendarSchedule: null as Kalenderplan | null,
   });
 
   // Fetch family data on mount
@@ -67,6 +119,10 @@ function InnstillingerContent() {
           friendNames: data.friendNames,
           parentEmail: data.parentEmail,
           calendarEvents: data.calendarEvents || [],
+          locale: data.locale,
+          difficulty: data.difficulty,
+          hintMode: data.hintMode,
+          calendarSchedule: data.calendarSchedule,
         });
       } catch (err) {
         console.error("Failed to fetch family data:", err);
@@ -85,6 +141,60 @@ function InnstillingerContent() {
     setTimeout(() => setCopiedField(null), 2000);
   };
 
+  const handleRotateCode = async (code: "kid" | "parent") => {
+    const confirmed = confirm(
+      code === "kid"
+        ? "Lage ny barnekode? Den gamle slutter å virke, og alle enheter må logge inn med den nye koden. Fremdriften beholdes."
+        : "Lage ny foreldrekode? Den gamle slutter å virke, og alle andre enheter logges ut av Nissemor-guiden.",
+    );
+    if (!confirmed) return;
+
+    setRotatingCode(code);
+    setRotationMessage(null);
+    setError(null);
+
+    try {
+      const response = await fetch("/api/auth/family/rotate", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        credentials: "include",
+        body: JSON.stringify({ code, sendEmail: sendRotationEmail }),
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || `Bytte mislyktes (${response.status})`);
+      }
+
+      // This browser moves to the family's new session with the kid code
+      if (data.sessionId) {
+        setSessionId(data.sessionId);
+        setParentAuthenticated(data.sessionId);
+      }
+
+      setFamilyData((prev) =>
+        prev
+          ? {
+              ...prev,
+              [code === "kid" ? "kidCode" : "parentCode"]: data.code,
+            }
+          : prev,
+      );
+      setRotationMessage(
+        `Ny ${code === "kid" ? "barnekode" : "foreldrekode"} er laget.${
+          data.emailSent ? " Den er sendt på e-post." : ""
+        }`,
+      );
+    } catch (err) {
+      console.error("Failed to rotate code:", err);
+      setError(
+        err instanceof Error ? err.message : "Noe gikk galt ved bytte av kode",
+      );
+    } finally {
+      setRotatingCode(null);
+    }
+  };
+
   const handleAddKidName = () => {
     if (formData.kidNames.length < 4) {
       setFormData({
@@ -172,10 +282,44 @@ function InnstillingerContent() {
     setFormData({ ...formData, calendarEvents: newEvents });
   };
 
+  // Calendar schedule handlers (null = December 1-24)
+  const setCalendarSchedule = (calendarSchedule: Kalenderplan | null) => {
+    setFormData({ ...formData, calendarSchedule });
+  };
+
+  const handleToggleCalendarSchedule = (enabled: boolean) => {
+    setCalendarSchedule(
+      enabled
+        ? { startdato: `${getCurrentDate().getFullYear()}-12-01`, pauser: [] }
+        : null,
+    );
+  };
+
+  const handlePauseChange = (
+    index: number,
+    field: keyof KalenderPause,
+    value: string,
+  ) => {
+    if (!formData.calendarSchedule) return;
+    const pauser = [...formData.calendarSchedule.pauser];
+    pauser[index] = { ...pauser[index], [field]: value };
+    setCalendarSchedule({ ...formData.calendarSchedule, pauser });
+  };
+
+  const scheduleErrors = formData.calendarSchedule
+    ? collectScheduleErrors(formData.calendarSchedule)
+    : [];
+
   const handleSubmit = async (e: FormEvent) => {
     e.preventDefault();
     setError(null);
     setSaveSuccess(false);
+
+    if (scheduleErrors.length > 0) {
+      setError(`Kalenderen er ikke gyldig: ${scheduleErrors[0]}`);
+      return;
+    }
+
     setIsSaving(true);
 
     try {
@@ -191,6 +335,10 @@ function InnstillingerContent() {
           calendarEvents: formData.calendarEvents.filter((e) =>
             e.hendelse.trim(),
           ),
+          locale: formData.locale,
+          difficulty: formData.difficulty,
+          hintMode: formData.hintMode,
+          calendarSchedule: formData.calendarSchedule,
         }),
       });
 
@@ -201,6 +349,12 @@ function InnstillingerContent() {
         throw new Error(data.error || `Lagring mislyktes (${response.status})`);
       }
 
+      // Apply right away when the guide runs on the kids' device
+      setActiveLocale(formData.locale);
+      setActiveDifficulty(formData.difficulty);
+      setActiveHintMode(formData.hintMode);
+      setActiveSchedule(formData.calendarSchedule);
+
       setSaveSuccess(true);
       setTimeout(() => setSaveSuccess(false), 5000);
     } catch (err) {
@@ -215,8 +369,8 @@ function InnstillingerContent() {
     }
   };
 
-  const handleLogout = () => {
-    clearParentAuth();
+  const handleLogout = async () => {
+    await logoutParent();
     router.push("/");
   };
 
@@ -322,8 +476,45 @@ function InnstillingerContent() {
             </div>
           </div>
 
+          {/* Code rotation (e.g. after a printout went astray) */}
+          <div className="mt-4 border-t-2 border-(--gold)/30 pt-4 space-y-3">
+            <p className="text-sm text-(--neon-green)/70">
+              Har en kode kommet på avveie? Lag en ny - den gamle slutter å
+              virke med en gang.
+            </p>
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <button
+                onClick={() => handleRotateCode("kid")}
+                disabled={rotatingCode !== null}
+                className="px-4 py-2 border-2 border-(--neon-green) text-(--neon-green) hover:bg-(--neon-green) hover:text-black transition-colors disabled:opacity-50"
+              >
+                {rotatingCode === "kid" ? "LAGER..." : "NY BARNEKODE"}
+              </button>
+              <button
+                onClick={() => handleRotateCode("parent")}
+                disabled={rotatingCode !== null}
+                className="px-4 py-2 border-2 border-(--cold-blue) text-(--cold-blue) hover:bg-(--cold-blue) hover:text-black transition-colors disabled:opacity-50"
+              >
+                {rotatingCode === "parent" ? "LAGER..." : "NY FORELDREKODE"}
+              </button>
+            </div>
+            <label className="flex items-center gap-2 text-sm text-(--neon-green)/70 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={sendRotationEmail}
+                onChange={(e) => setSendRotationEmail(e.target.checked)}
+              />
+              Send den nye koden til {familyData?.parentEmail || "e-post"}
+            </label>
+            {rotationMessage && (
+              <p className="text-sm text-(--gold) font-bold">
+                ✓ {rotationMessage}
+              </p>
+            )}
+          </div>
+
           <p className="text-xs text-(--neon-green)/50 mt-4 text-center">
-            Kodene kan ikke endres. Ta vare på dem et trygt sted.
+            Ta vare på kodene et trygt sted.
           </p>
         </div>
 
@@ -387,6 +578,215 @@ function InnstillingerContent() {
             />
           </div>
 
+          {/* Language */}
+          <div className="border-4 border-(--neon-green)/30 p-6">
+            <label className="block mb-2">
+              <span className="text-(--gold) font-bold">SPRÅK</span>
+              <span className="text-xs text-(--neon-green)/50 ml-2">
+                Tekster og oppdrag i barnas app
+              </span>
+            </label>
+            <select
+              value={formData.locale}
+              onChange={(e) =>
+                setFormData({ ...formData, locale: e.target.value as Locale })
+              }
+              className="w-full px-4 py-3 bg-black border-2 border-(--neon-green) text-(--neon-green) text-xl focus:outline-none focus:border-(--gold)"
+            >
+              {SUPPORTED_LOCALES.map((locale) => (
+                <option key={locale} value={locale}>
+                  {LOCALE_NAMES[locale]}
+                </option>
+              ))}
+            </select>
+            <p className="text-xs text-(--neon-green)/50 mt-2">
+              Oppdrag som ikke er oversatt vises på bokmål. Kodene er de samme
+              på alle språk.
+            </p>
+          </div>
+
+          {/* Difficulty */}
+          <div className="border-4 border-(--neon-green)/30 p-6">
+            <label className="block mb-2">
+              <span className="text-(--gold) font-bold">VANSKELIGHETSGRAD</span>
+              <span className="text-xs text-(--neon-green)/50 ml-2">
+                Velger oppgavevariant for barnas alder
+              </span>
+            </label>
+            <select
+              value={formData.difficulty}
+              onChange={(e) =>
+                setFormData({
+                  ...formData,
+                  difficulty: e.target.value as OppdragNivå,
+                })
+              }
+              className="w-full px-4 py-3 bg-black border-2 border-(--neon-green) text-(--neon-green) text-xl focus:outline-none focus:border-(--gold)"
+            >
+              {DIFFICULTY_LEVELS.map((level) => (
+                <option key={level} value={level}>
+                  {DIFFICULTY_NAMES[level]}
+                </option>
+              ))}
+            </select>
+            <p className="text-xs text-(--neon-green)/50 mt-2">
+              Noen oppdrag har egne varianter med enklere eller vanskeligere
+              gåter, hint og koder. Oppdrag uten variant spilles som vanlig.
+              Dagsplanen og e-postene viser oppsettet for valgt nivå.
+            </p>
+          </div>
+
+          {/* Hint mode */}
+          <div className="border-4 border-(--neon-green)/30 p-6">
+            <label className="block mb-2">
+              <span className="text-(--gold) font-bold">HINT</span>
+              <span className="text-xs text-(--neon-green)/50 ml-2">
+                Tips fra Rampenissen når barna står fast
+              </span>
+            </label>
+            <select
+              value={formData.hintMode}
+              onChange={(e) =>
+                setFormData({
+                  ...formData,
+                  hintMode: e.target.value as HintModus,
+                })
+              }
+              className="w-full px-4 py-3 bg-black border-2 border-(--neon-green) text-(--neon-green) text-xl focus:outline-none focus:border-(--gold)"
+            >
+              {HINT_MODES.map((mode) => (
+                <option key={mode} value={mode}>
+                  {HINT_MODE_NAMES[mode]}
+                </option>
+              ))}
+            </select>
+            <p className="text-xs text-(--neon-green)/50 mt-2">
+              Etter noen feil koder, eller noen minutter etter første feil kode,
+              sender Rampenissen hint i kodeterminalen. Hvert hint avslører litt
+              mer. Raske hint kommer etter halve tiden og halvparten av
+              forsøkene.
+            </p>
+          </div>
+
+          {/* Calendar schedule */}
+          <div className="border-4 border-(--neon-green)/30 p-6">
+            <label className="block mb-2">
+              <span className="text-(--gold) font-bold">KALENDERPLAN</span>
+              <span className="text-xs text-(--neon-green)/50 ml-2">
+                Når dagene åpner
+              </span>
+            </label>
+            <label className="flex items-center gap-2 text-(--neon-green)">
+              <input
+                type="checkbox"
+                checked={formData.calendarSchedule !== null}
+                onChange={(e) => handleToggleCalendarSchedule(e.target.checked)}
+              />
+              Egen startdato og pauser (ellers 1.–24. desember)
+            </label>
+
+            {formData.calendarSchedule && (
+              <div className="mt-4 space-y-3">
+                <div className="flex items-center gap-3">
+                  <span className="w-24 text-sm text-(--neon-green)/70">
+                    Dag 1
+                  </span>
+                  <input
+                    type="date"
+                    value={formData.calendarSchedule.startdato}
+                    onChange={(e) =>
+                      formData.calendarSchedule &&
+                      setCalendarSchedule({
+                        ...formData.calendarSchedule,
+                        startdato: e.target.value,
+                      })
+                    }
+                    className="flex-1 px-4 py-2 bg-black border-2 border-(--neon-green) text-(--neon-green) focus:outline-none focus:border-(--gold)"
+                  />
+                </div>
+
+                {formData.calendarSchedule.pauser.map((pause, index) => (
+                  <div key={index} className="flex items-center gap-3">
+                    <span className="w-24 text-sm text-(--neon-green)/70">
+                      Pause {index + 1}
+                    </span>
+                    <input
+                      type="date"
+                      value={pause.fra}
+                      onChange={(e) =>
+                        handlePauseChange(index, "fra", e.target.value)
+                      }
+                      className="flex-1 px-4 py-2 bg-black border-2 border-(--cold-blue) text-(--cold-blue) focus:outline-none focus:border-(--gold)"
+                    />
+                    <span className="text-(--cold-blue)">–</span>
+                    <input
+                      type="date"
+                      value={pause.til}
+                      onChange={(e) =>
+                        handlePauseChange(index, "til", e.target.value)
+                      }
+                      className="flex-1 px-4 py-2 bg-black border-2 border-(--cold-blue) text-(--cold-blue) focus:outline-none focus:border-(--gold)"
+                    />
+                    <button
+                      type="button"
+                      onClick={() =>
+                        formData.calendarSchedule &&
+                        setCalendarSchedule({
+                          ...formData.calendarSchedule,
+                          pauser: formData.calendarSchedule.pauser.filter(
+                            (_, i) => i !== index,
+                          ),
+                        })
+                      }
+                      className="px-3 py-2 border-2 border-(--neon-red) bg-black text-(--neon-red) hover:bg-(--neon-red) hover:text-black transition-all font-bold text-xl"
+                    >
+                      ×
+                    </button>
+                  </div>
+                ))}
+
+                {formData.calendarSchedule.pauser.length < MAX_PAUSES && (
+                  <button
+                    type="button"
+                    onClick={() =>
+                      formData.calendarSchedule &&
+                      setCalendarSchedule({
+                        ...formData.calendarSchedule,
+                        pauser: [
+                          ...formData.calendarSchedule.pauser,
+                          { fra: "", til: "" },
+                        ],
+                      })
+                    }
+                    className="px-4 py-2 border-2 border-(--cold-blue) text-(--cold-blue) hover:bg-(--cold-blue) hover:text-black transition-colors text-sm"
+                  >
+                    + LEGG TIL PAUSE
+                  </button>
+                )}
+
+                {scheduleErrors.length > 0 ? (
+                  <p className="text-sm text-(--christmas-red)">
+                    ⚠️ {scheduleErrors[0]}
+                  </p>
+                ) : (
+                  <p className="text-sm text-(--gold)">
+                    Dag 24 åpner{" "}
+                    {formatScheduleDate(
+                      getDateForGameDay(24, formData.calendarSchedule),
+                    )}
+                  </p>
+                )}
+              </div>
+            )}
+
+            <p className="text-xs text-(--neon-green)/50 mt-2">
+              Starter dere senere, eller er dere bortreist noen dager? Under en
+              pause åpner ingen nye dager, og resten av kalenderen flyttes
+              tilsvarende. Barna får alltid alle 24 dagene. Daglige e-poster
+              følger planen.
+            </p>
+          </div>
+
           {/* Kid Names */}
           <div className="border-4 border-(--gold) p-6">
             <div className="flex items-center justify-between mb-4">
@@ -70,6 +70,7 @@ function MerkerContent() {
 
     if (confirmed) {
       StorageManager.addEarnedBadge(badgeId);
+      GameEngine.recordParentOverride("badge-awarded", badgeId);
       alert(`✓ Merke tildelt: ${badge.navn}`);
       forceUpdate({});
     }
@@ -85,6 +86,7 @@ function MerkerContent() {
 
     if (confirmed) {
       StorageManager.removeEarnedBadge(badgeId);
+      GameEngine.recordParentOverride("badge-revoked", badgeId);
       alert(`Merke fjernet: ${badge.navn}`);
       forceUpdate({});
     }
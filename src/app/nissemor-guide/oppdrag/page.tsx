@@ -6,21 +6,56 @@ import { GuideAuth } from "@/components/nissemor/GuideAuth";
 import { GuideNavigation } from "@/components/nissemor/GuideNavigation";
 import { TimelineView } from "@/components/nissemor/TimelineView";
 import { DayPlanning } from "@/components/nissemor/DayPlanning";
-import { getCurrentDay, getCurrentMonth } from "@/lib/date-utils";
+import { getCurrentDay } from "@/lib/date-utils";
 import { Icon } from "@/lib/icons";
+import {
+  getActiveQuestOverrides,
+  setActiveQuestOverrides,
+} from "@/lib/quest-overrides";
+import type { OppdragOverstyring } from "@/types/innhold";
 
 function OppdragContent() {
   const currentDay = getCurrentDay();
-  const currentMonth = getCurrentMonth();
-  const isDecember = currentMonth === 12;
-  const relevantDay =
-    isDecember && currentDay >= 1 && currentDay <= 24 ? currentDay : 1;
+  const relevantDay = currentDay >= 1 && currentDay <= 24 ? currentDay : 1;
 
   const [selectedDay, setSelectedDay] = useState<number>(relevantDay);
 
   // Counter to force useMemo recalculation when data changes
   const [refreshCounter, setRefreshCounter] = useState(0);
 
+  // Family's own changes to single days
+  const [overrides, setOverrides] = useState<OppdragOverstyring[]>(() =>
+    typeof window !== "undefined" ? getActiveQuestOverrides() : [],
+  );
+
+  // Load the family's saved overrides (Sanity backend only)
+  useEffect(() => {
+    if (
+      (process.env.NEXT_PUBLIC_STORAGE_BACKEND || "localStorage") ===
+      "localStorage"
+    ) {
+      return;
+    }
+
+    async function fetchOverrides() {
+      try {
+        const response = await fetch("/api/auth/family", {
+          credentials: "include",
+        });
+        if (response.ok) {
+          const data = (await response.json()) as {
+            questOverrides?: OppdragOverstyring[];
+          };
+          setOverrides(setActiveQuestOverrides(data.questOverrides));
+        }
+      } catch (err) {
+        console.warn("Could not fetch quest overrides:", err);
+      }
+    }
+
+    fetchOverrides();
+  }, []);
+
   // Ensure selectedDay updates when relevantDay changes (e.g., date changes)
   useEffect(() => {
     setSelectedDay(relevantDay);
@@ -129,6 +164,9 @@ function OppdragContent() {
             selectedDay={selectedDay}
             onSelectDay={setSelectedDay}
             completedDays={completedDays}
+            overrides={overrides}
+            onOverridesChange={setOverrides}
+            onProgressChange={() => setRefreshCounter((c) => c + 1)}
           />
 
           {/* Mobile: Timeline in Collapsible Section */}
@@ -160,6 +198,9 @@ function OppdragContent() {
               selectedDay={selectedDay}
               onSelectDay={setSelectedDay}
               completedDays={completedDays}
+              overrides={overrides}
+              onOverridesChange={setOverrides}
+              onProgressChange={() => setRefreshCounter((c) => c + 1)}
             />
           </div>
         </div>
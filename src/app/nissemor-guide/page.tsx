@@ -9,6 +9,7 @@ import { ChristmasCountdown } from "@/components/nissemor/ChristmasCountdown";
 import { QuickActions } from "@/components/nissemor/QuickActions";
 import { ActivityFeed } from "@/components/nissemor/ActivityFeed";
 import { MetricsOverview } from "@/components/nissemor/MetricsOverview";
+import { ChildProgressBoard } from "@/components/nissemor/ChildProgressBoard";
 
 function NissemorGuideContent() {
   const [refreshCounter, setRefreshCounter] = useState(0);
@@ -46,6 +47,11 @@ function NissemorGuideContent() {
         <StatsDashboard refreshCounter={refreshCounter} />
       </div>
 
+      {/* Per-child progress (families with child profiles) */}
+      <div className="max-w-7xl mx-auto mb-6">
+        <ChildProgressBoard refreshCounter={refreshCounter} />
+      </div>
+
       {/* Two-Column Grid: Left sidebar + Right main content */}
       <div className="max-w-7xl mx-auto mb-6">
         <div className="grid grid-cols-1 lg:grid-cols-[400px_1fr] gap-6">
@@ -9,8 +9,6 @@ import { StorageManager } from "@/lib/storage";
 import { resolveTemplate } from "@/lib/template-resolver";
 import type { Oppdrag, PrintMaterial } from "@/types/innhold";
 
-const allOppdrag = GameEngine.getAllQuests();
-
 // Generate checkpoint cards dynamically from print_materials
 interface CheckpointCard {
   dag: number;
@@ -84,7 +82,7 @@ interface PrintMaterialCard {
 }
 
 // Build separate lists for different card types
-type Card = (typeof allOppdrag)[0] | CheckpointCard | PrintMaterialCard;
+type Card = Oppdrag | CheckpointCard | PrintMaterialCard;
 
 /**
  * Generate cards for selected days
@@ -93,7 +91,9 @@ function generateCardsForDays(
   selectedDays: number[],
   customNote: string,
 ): Card[] {
-  const filteredQuests = allOppdrag.filter((q) => selectedDays.includes(q.dag));
+  const filteredQuests = GameEngine.getAllQuests().filter((q) =>
+    selectedDays.includes(q.dag),
+  );
 
   // Group 0: Custom note card (if provided) - prepend to all cards
   const customNoteCard: PrintMaterialCard[] = customNote.trim()
@@ -164,7 +164,7 @@ function SymbolerContent() {
     );
 
     if (choice) {
-      const result = collectSymbolByCode(choice);
+      const result = collectSymbolByCode(choice, true);
       if (result.success) {
         alert(`✓ ${result.message}`);
         setCollectedSymbols(getCollectedSymbols());
@@ -202,10 +202,12 @@ function SymbolerContent() {
       clearCollectedSymbols();
       const remaining = collectedSymbols.filter((c) => c.symbolId !== symbolId);
       remaining.forEach((s) => addCollectedSymbol(s));
+      GameEngine.recordParentOverride("symbol-removed", symbolId);
       setCollectedSymbols(remaining);
     } else {
       // Add symbol
       addCollectedSymbol(symbol);
+      GameEngine.recordParentOverride("symbol-added", symbolId);
       setCollectedSymbols([...collectedSymbols, symbol]);
     }
   };
@@ -4,12 +4,12 @@ import { Suspense, useState, useEffect } from "react";
 import { GuideAuth } from "@/components/nissemor/GuideAuth";
 import { GuideNavigation } from "@/components/nissemor/GuideNavigation";
 import { GameEngine } from "@/lib/game-engine";
+import { subscribeToSessionEvents } from "@/lib/live-progress";
 import { StorageManager } from "@/lib/storage";
 import { BadgeManager } from "@/lib/badge-system";
 
-const allOppdrag = GameEngine.getAllQuests();
-
 function UtviklingContent() {
+  const allOppdrag = GameEngine.getAllQuests();
   const [, forceUpdate] = useState({});
 
   // Listen for storage changes to auto-update development page
@@ -24,7 +24,18 @@ function UtviklingContent() {
     };
 
     window.addEventListener("storage", handleStorageChange);
-    return () => window.removeEventListener("storage", handleStorageChange);
+
+    // Progress from the kids' other devices (server backends)
+    const unsubscribe = subscribeToSessionEvents((event) => {
+      if (event.type === "session-updated") {
+        forceUpdate({});
+      }
+    });
+
+    return () => {
+      window.removeEventListener("storage", handleStorageChange);
+      unsubscribe();
+    };
   }, []);
 
   const handleAddLetter = () => {
@@ -54,6 +65,32 @@ function UtviklingContent() {
     window.location.reload();
   };
 
+  const eventLog = GameEngine.getGameEventLog();
+  const replay = GameEngine.replayGameEventLog();
+
+  const handleDownloadLog = () => {
+    const blob = new Blob(
+      [
+        JSON.stringify(
+          {
+            exportedAt: new Date().toISOString(),
+            events: eventLog,
+            replay,
+          },
+          null,
+          2,
+        ),
+      ],
+      { type: "application/json" },
+    );
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = `nissekomm-hendelseslogg-${new Date().toISOString().slice(0, 10)}.json`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
   return (
     <div className="min-h-screen bg-(--dark-crt) text-(--neon-green) font-['VT323',monospace] p-4 md:p-8">
       <GuideNavigation currentPage="utvikling" />
@@ -162,8 +199,15 @@ function UtviklingContent() {
                 ) {
                   const symbolQuests = allOppdrag.filter((q) => q.symbol_clue);
                   symbolQuests.forEach((quest) => {
-                    if (quest.symbol_clue) {
+                    if (
+                      quest.symbol_clue &&
+                      !StorageManager.hasSymbol(quest.symbol_clue.symbolId)
+                    ) {
                       StorageManager.addCollectedSymbol(quest.symbol_clue);
+                      GameEngine.recordParentOverride(
+                        "symbol-added",
+                        quest.symbol_clue.symbolId,
+                      );
                     }
                   });
                   alert(
@@ -186,6 +230,7 @@ function UtviklingContent() {
                   )
                 ) {
                   StorageManager.clearCollectedSymbols();
+                  GameEngine.recordParentOverride("symbols-cleared");
                   alert("✓ Alle symboler fjernet!");
                   refreshPage();
                 }
@@ -209,6 +254,7 @@ function UtviklingContent() {
                     )
                   ) {
                     StorageManager.clearAll();
+                    GameEngine.recordParentOverride("game-reset");
                     alert("✓ Alt er tilbakestilt!");
                     refreshPage();
                   }
@@ -380,6 +426,10 @@ function UtviklingContent() {
                   if (index >= 0 && index < challenges.length) {
                     const challenge = challenges[index];
                     StorageManager.addSolvedDecryption(challenge.id);
+                    GameEngine.recordParentOverride(
+                      "decryption-solved",
+                      challenge.id,
+                    );
                     const quest = allOppdrag.find(
                       (q) => q.dag === challenge.day,
                     );
@@ -460,6 +510,10 @@ function UtviklingContent() {
                       StorageManager.addSolvedDecryption(
                         quest.decryption_challenge.challengeId,
                       );
+                      GameEngine.recordParentOverride(
+                        "decryption-solved",
+                        quest.decryption_challenge.challengeId,
+                      );
                       if (quest.decryption_challenge.unlocksFiles) {
                         quest.decryption_challenge.unlocksFiles.forEach(
                           (fileId) => {
@@ -481,6 +535,57 @@ function UtviklingContent() {
         </div>
       </div>
 
+      {/* Event Log */}
+      <div className="max-w-4xl mx-auto mb-6">
+        <div className="border-4 border-(--cold-blue) bg-(--cold-blue)/10 p-6">
+          <h2 className="text-3xl font-bold text-(--cold-blue) mb-4 text-center">
+            📜 HENDELSESLOGG
+          </h2>
+          <p className="text-center mb-4">
+            {eventLog.length} hendelser registrert
+            {replay.replayFrom &&
+              ` - avspilling fra ${replay.replayFrom.action === "game-reset" ? "tilbakestilling" : "import"} ${new Date(replay.replayFrom.at).toLocaleString("nb-NO")}`}
+          </p>
+
+          {replay.differences.length === 0 ? (
+            <p className="text-center text-(--gold) mb-4">
+              ✓ Loggen forklarer alt som er lagret
+            </p>
+          ) : (
+            <div className="mb-4 space-y-2 font-mono text-sm">
+              <p className="text-(--christmas-red) font-bold">
+                Loggen og lagret tilstand er uenige:
+              </p>
+              {replay.differences.map((difference) => (
+                <div
+                  key={difference.field}
+                  className="border-2 border-(--christmas-red)/50 p-2"
+                >
+                  <div className="font-bold">{difference.field}</div>
+                  {difference.onlyInLog.length > 0 && (
+                    <div>Bare i loggen: {difference.onlyInLog.join(", ")}</div>
+                  )}
+                  {difference.onlyInStorage.length > 0 && (
+                    <div>
+                      Bare i lagringen: {difference.onlyInStorage.join(", ")}
+                    </div>
+                  )}
+                </div>
+              ))}
+            </div>
+          )}
+
+          <div className="text-center">
+            <button
+              onClick={handleDownloadLog}
+              className="px-6 py-3 bg-(--cold-blue) hover:bg-(--cold-blue)/80 text-black font-bold text-xl border-2 border-black"
+            >
+              ⬇️ LAST NED LOGG
+            </button>
+          </div>
+        </div>
+      </div>
+
       {/* Import State */}
       <div className="max-w-4xl mx-auto mb-6">
         <div className="border-4 border-purple-500 bg-purple-500/10 p-6">
@@ -506,14 +611,12 @@ function UtviklingContent() {
                   alert("Ingen data å importere!");
                   return;
                 }
-                try {
-                  await GameEngine.importGameState(data);
+                const result = GameEngine.importSaveGame(data);
+                if (result.success) {
                   alert("✓ Tilstand importert!");
                   refreshPage();
-                } catch (error) {
-                  alert(
-                    `❌ Kunne ikke importere: ${error instanceof Error ? error.message : "Ukjent feil"}`,
-                  );
+                } else {
+                  alert(`❌ Kunne ikke importere: ${result.errors.join("\n")}`);
                 }
               }}
               className="px-6 py-3 bg-purple-700 hover:bg-purple-600 text-white font-bold text-xl border-2 border-black"
@@ -4,6 +4,7 @@ import { useState } from "react";
 import { CRTFrame } from "@/components/ui/CRTFrame";
 import { BootSequence } from "@/components/ui/BootSequence";
 import { PasswordPrompt } from "@/components/ui/PasswordPrompt";
+import { ProfilePicker } from "@/components/ui/ProfilePicker";
 import { SoundToggle } from "@/components/ui/SoundToggle";
 import { useSounds } from "@/lib/sounds";
 import { StorageManager } from "@/lib/storage";
@@ -33,17 +34,10 @@ import {
   isCalendarActive as isDateCalendarActive,
 } from "@/lib/date-utils";
 import { trackWindowInteraction } from "@/lib/analytics";
-import statiskInnholdData from "@/data/statisk_innhold.json";
-import { Varsel, FilNode } from "@/types/innhold";
-
-const oppdrag = GameEngine.getAllQuests();
-const { varsler, filer } = statiskInnholdData as {
-  varsler: Varsel[];
-  filer: FilNode[];
-};
+import { getFamilyQuests, getStaticContent } from "@/lib/data-loader";
 
 /**
- * Check if current date is within the calendar period (December 1-24)
+ * Check if the family's calendar is running (game day 1-24)
  * Delegates to centralized date utility
  */
 function isCalendarActive(testMode: boolean): boolean {
@@ -55,15 +49,24 @@ export default function Home() {
   const {
     isAuthenticated,
     isInitializing,
+    storageState,
     familyData,
+    activeProfileId,
     unlockedModules,
     unreadEmailCount,
     unreadFileCount,
     unreadDagbokCount,
     authenticate,
     refreshGameState,
+    retryStorage,
+    selectProfile,
   } = useAppState();
 
+  // Season content (resolved per render so the family's season, locale and
+  // difficulty apply after login)
+  const oppdrag = getFamilyQuests();
+  const { varsler, filer } = getStaticContent();
+
   // Local UI state
   const [bootComplete, setBootComplete] = useState(() => {
     if (typeof window !== "undefined") {
@@ -76,6 +79,7 @@ export default function Home() {
   const [showGrandFinale, setShowGrandFinale] = useState(false);
   const [showNameEntry, setShowNameEntry] = useState(false);
   const [sidebarOpen, setSidebarOpen] = useState(false);
+  const [offlineAccepted, setOfflineAccepted] = useState(false);
   const [localUnreadFileCount, setLocalUnreadFileCount] =
     useState(unreadFileCount);
 
@@ -156,11 +160,6 @@ export default function Home() {
     setOpenWindow("nissemail");
   };
 
-  const getCurrentMission = () => {
-    const day = selectedDay || getCurrentDay();
-    return oppdrag.find((m) => m.dag === day) || oppdrag[0];
-  };
-
   const handleNameEntryComplete = (names: string[]) => {
     StorageManager.setPlayerNames(names);
     setShowNameEntry(false);
@@ -174,6 +173,16 @@ export default function Home() {
     ? StorageManager.isAuthenticated()
     : isAuthenticated;
 
+  // Hold the boot screen until game state has loaded, so the desktop never
+  // shows zero progress; after a failed load, until the kids retry or
+  // choose to continue offline
+  const waitingForStorage =
+    storageState === "hydrating" ||
+    (storageState === "error" && !offlineAccepted);
+
+  // Siblings choose who is playing before the desktop shows
+  const pickingProfile = effectiveAuthenticated && activeProfileId === null;
+
   // Use context file count unless we've reset it locally (when opening NisseNet)
   const displayUnreadFileCount =
     localUnreadFileCount === 0 ? 0 : unreadFileCount;
@@ -192,7 +201,7 @@ export default function Home() {
               SYSTEMET ER STENGT UTENFOR JULESONEN
             </div>
             <div className="text-sm opacity-70 pt-4">
-              NisseKomm er kun tilgjengelig 1. - 24. desember
+              NisseKomm er kun tilgjengelig mens familiens julekalender går
             </div>
           </div>
         </div>
@@ -203,38 +212,57 @@ export default function Home() {
   return (
     <CRTFrame>
       {/* Sound toggle button */}
-      {bootComplete && effectiveAuthenticated && <SoundToggle />}
+      {bootComplete && !waitingForStorage && effectiveAuthenticated && (
+        <SoundToggle />
+      )}
 
-      {/* Boot sequence */}
-      {!bootComplete && (
-        <BootSequence onComplete={handleBootComplete} duration={bootDuration} />
+      {/* Boot sequence (also shown while a login loads its game state) */}
+      {(!bootComplete || waitingForStorage) && (
+        <BootSequence
+          onComplete={handleBootComplete}
+          duration={bootComplete ? 0 : bootDuration}
+          hydration={storageState}
+          onRetry={retryStorage}
+          onContinueOffline={() => setOfflineAccepted(true)}
+        />
       )}
 
       {/* Password prompt */}
-      {bootComplete && !effectiveAuthenticated && (
+      {bootComplete && !waitingForStorage && !effectiveAuthenticated && (
         <PasswordPrompt onSuccess={handleAuthSuccess} />
       )}
 
+      {/* Child profile picker */}
+      {bootComplete && !waitingForStorage && pickingProfile && (
+        <ProfilePicker
+          profiles={familyData.childProfiles}
+          onSelect={selectProfile}
+        />
+      )}
+
       {/* Main application */}
-      {bootComplete && effectiveAuthenticated && (
-        <div className="flex h-full">
-          {/* Hamburger menu button for mobile */}
-          <HamburgerMenu
-            isOpen={sidebarOpen}
-            onClick={() => setSidebarOpen(!sidebarOpen)}
-          />
-
-          {/* Mobile overlay backdrop */}
-          {sidebarOpen && (
-            <div
-              className="lg:hidden fixed inset-0 bg-black/80 z-30"
-              onClick={() => setSidebarOpen(false)}
+      {bootComplete &&
+        !waitingForStorage &&
+        effectiveAuthenticated &&
+        !pickingProfile && (
+          <div className="flex h-full">
+            {/* Hamburger menu button for mobile */}
+            <HamburgerMenu
+              isOpen={sidebarOpen}
+              onClick={() => setSidebarOpen(!sidebarOpen)}
             />
-          )}
 
-          {/* Sidebar - hidden on mobile, overlay on tablet, static on desktop */}
-          <div
-            className={`
+            {/* Mobile overlay backdrop */}
+            {sidebarOpen && (
+              <div
+                className="lg:hidden fixed inset-0 bg-black/80 z-30"
+                onClick={() => setSidebarOpen(false)}
+              />
+            )}
+
+            {/* Sidebar - hidden on mobile, overlay on tablet, static on desktop */}
+            <div
+              className={`
               ${sidebarOpen ? "translate-x-0" : "-translate-x-full"}
               lg:translate-x-0
               fixed lg:static
@@ -247,221 +275,220 @@ export default function Home() {
               z-40
               transition-transform duration-300
             `}
-          >
-            <SystemStatus currentDay={getCurrentDay()} />
-            <VarselKonsoll alerts={varsler} currentDay={getCurrentDay()} />
-          </div>
+            >
+              <SystemStatus currentDay={getCurrentDay()} />
+              <VarselKonsoll alerts={varsler} currentDay={getCurrentDay()} />
+            </div>
 
-          {/* Main workspace - 75% */}
-          <div className="flex-1 relative flex flex-col">
-            <div className="flex-1 overflow-auto">
-              {!openWindow ? (
-                // Desktop with icons
-                <div className="flex items-center justify-center h-full p-4 md:p-8">
-                  <div className="grid grid-cols-2 sm:grid-cols-3 lg:grid-cols-4 gap-4 md:gap-8 max-w-5xl">
-                    <DesktopIcon
-                      icon="file"
-                      label="NISSEMAIL"
-                      color="green"
-                      unreadCount={unreadEmailCount}
-                      onClick={() => handleIconClick("nissemail")}
-                    />
-                    <DesktopIcon
-                      icon="code"
-                      label="KODETERMINAL"
-                      color="blue"
-                      onClick={() => handleIconClick("kodeterminal")}
-                    />
-                    <DesktopIcon
-                      icon="folder"
-                      label="NISSENET"
-                      color="green"
-                      unreadCount={displayUnreadFileCount}
-                      onClick={() => handleIconClick("nissenet")}
-                    />
-                    <DesktopIcon
-                      icon="calendar"
-                      label="KALENDER"
-                      color="gold"
-                      onClick={() => handleIconClick("kalender")}
-                    />
-                    <DesktopIcon
-                      icon="script-text"
-                      label="EVENTYR"
-                      color="blue"
-                      onClick={() => handleIconClick("eventyr-oversikt")}
-                    />
-                    <DesktopIcon
-                      icon="book"
-                      label="DAGBOK"
-                      color="gold"
-                      unreadCount={unreadDagbokCount}
-                      onClick={() => handleIconClick("dagbok")}
-                    />
-
-                    {/* Unlockable modules - display in unlock order */}
-                    {(() => {
-                      const moduleOrder = [
-                        {
-                          key: "NISSEKRYPTO",
-                          icon: "lock" as const,
-                          label: "NISSEKRYPTO",
-                          color: "gold" as const,
-                          windowKey: "nissekrypto",
-                        },
-                        {
-                          key: "SYMBOLSKANNER",
-                          icon: "key" as const,
-                          label: "SYMBOLSKANNER",
-                          color: "green" as const,
-                          windowKey: "symbolskanner",
-                        },
-                        {
-                          key: "NISSEMUSIKK",
-                          icon: "music" as const,
-                          label: "NISSEMUSIKK",
-                          color: "blue" as const,
-                          windowKey: "nissemusikk",
-                        },
-                        {
-                          key: "SNØFALL_TV",
-                          icon: "image" as const,
-                          label: "SNØFALL TV",
-                          color: "green" as const,
-                          windowKey: "nordpol_tv",
-                        },
-                        {
-                          key: "BREVFUGLER",
-                          icon: "mail" as const,
-                          label: "BREVFUGLER",
-                          color: "gold" as const,
-                          windowKey: "brevfugler",
-                        },
-                        {
-                          key: "NISSESTATS",
-                          icon: "chart" as const,
-                          label: "NISSESTATS",
-                          color: "blue" as const,
-                          windowKey: "nissestats",
-                        },
-                      ];
-
-                      const unlockedInOrder = moduleOrder.filter((m) =>
-                        unlockedModules.includes(m.key),
-                      );
-
-                      // Show all unlocked modules or locked placeholders
-                      return moduleOrder.slice(0, 5).map((module, index) => {
-                        const unlockedModule = unlockedInOrder[index];
-                        if (unlockedModule) {
-                          return (
-                            <DesktopIcon
-                              key={unlockedModule.key}
-                              icon={unlockedModule.icon}
-                              label={unlockedModule.label}
-                              color={unlockedModule.color}
-                              onClick={() =>
-                                handleIconClick(unlockedModule.windowKey)
-                              }
-                            />
-                          );
-                        } else {
-                          return (
-                            <DesktopIcon
-                              key={`locked-${index}`}
-                              icon="lock"
-                              label="LÅST"
-                              color="gray"
-                              disabled
-                              onClick={() => {}}
-                            />
-                          );
-                        }
-                      });
-                    })()}
+            {/* Main workspace - 75% */}
+            <div className="flex-1 relative flex flex-col">
+              <div className="flex-1 overflow-auto">
+                {!openWindow ? (
+                  // Desktop with icons
+                  <div className="flex items-center justify-center h-full p-4 md:p-8">
+                    <div className="grid grid-cols-2 sm:grid-cols-3 lg:grid-cols-4 gap-4 md:gap-8 max-w-5xl">
+                      <DesktopIcon
+                        icon="file"
+                        label="NISSEMAIL"
+                        color="green"
+                        unreadCount={unreadEmailCount}
+                        onClick={() => handleIconClick("nissemail")}
+                      />
+                      <DesktopIcon
+                        icon="code"
+                        label="KODETERMINAL"
+                        color="blue"
+                        onClick={() => handleIconClick("kodeterminal")}
+                      />
+                      <DesktopIcon
+                        icon="folder"
+                        label="NISSENET"
+                        color="green"
+                        unreadCount={displayUnreadFileCount}
+                        onClick={() => handleIconClick("nissenet")}
+                      />
+                      <DesktopIcon
+                        icon="calendar"
+                        label="KALENDER"
+                        color="gold"
+                        onClick={() => handleIconClick("kalender")}
+                      />
+                      <DesktopIcon
+                        icon="script-text"
+                        label="EVENTYR"
+                        color="blue"
+                        onClick={() => handleIconClick("eventyr-oversikt")}
+                      />
+                      <DesktopIcon
+                        icon="book"
+                        label="DAGBOK"
+                        color="gold"
+                        unreadCount={unreadDagbokCount}
+                        onClick={() => handleIconClick("dagbok")}
+                      />
+
+                      {/* Unlockable modules - display in unlock order */}
+                      {(() => {
+                        const moduleOrder = [
+                          {
+                            key: "NISSEKRYPTO",
+                            icon: "lock" as const,
+                            label: "NISSEKRYPTO",
+                            color: "gold" as const,
+                            windowKey: "nissekrypto",
+                          },
+                          {
+                            key: "SYMBOLSKANNER",
+                            icon: "key" as const,
+                            label: "SYMBOLSKANNER",
+                            color: "green" as const,
+                            windowKey: "symbolskanner",
+                          },
+                          {
+                            key: "NISSEMUSIKK",
+                            icon: "music" as const,
+                            label: "NISSEMUSIKK",
+                            color: "blue" as const,
+                            windowKey: "nissemusikk",
+                          },
+                          {
+                            key: "SNØFALL_TV",
+                            icon: "image" as const,
+                            label: "SNØFALL TV",
+                            color: "green" as const,
+                            windowKey: "nordpol_tv",
+                          },
+                          {
+                            key: "BREVFUGLER",
+                            icon: "mail" as const,
+                            label: "BREVFUGLER",
+                            color: "gold" as const,
+                            windowKey: "brevfugler",
+                          },
+                          {
+                            key: "NISSESTATS",
+                            icon: "chart" as const,
+                            label: "NISSESTATS",
+                            color: "blue" as const,
+                            windowKey: "nissestats",
+                          },
+                        ];
+
+                        const unlockedInOrder = moduleOrder.filter((m) =>
+                          unlockedModules.includes(m.key),
+                        );
+
+                        // Show all unlocked modules or locked placeholders
+                        return moduleOrder.slice(0, 5).map((module, index) => {
+                          const unlockedModule = unlockedInOrder[index];
+                          if (unlockedModule) {
+                            return (
+                              <DesktopIcon
+                                key={unlockedModule.key}
+                                icon={unlockedModule.icon}
+                                label={unlockedModule.label}
+                                color={unlockedModule.color}
+                                onClick={() =>
+                                  handleIconClick(unlockedModule.windowKey)
+                                }
+                              />
+                            );
+                          } else {
+                            return (
+                              <DesktopIcon
+                                key={`locked-${index}`}
+                                icon="lock"
+                                label="LÅST"
+                                color="gray"
+                                disabled
+                                onClick={() => {}}
+                              />
+                            );
+                          }
+                        });
+                      })()}
+                    </div>
                   </div>
-                </div>
-              ) : (
-                // Active window
-                <>
-                  {openWindow === "nissemail" && (
-                    <NisseMail
-                      missions={oppdrag}
-                      currentDay={getCurrentDay()}
-                      initialDay={selectedDay}
-                      customCalendarEvents={familyData.calendarEvents}
-                      onClose={handleCloseWindow}
-                      onOpenKodeTerminal={(day) => {
-                        setSelectedDay(day);
-                        setOpenWindow("kodeterminal");
-                        playSound("open");
-                      }}
-                    />
-                  )}
-                  {openWindow === "kodeterminal" && (
-                    <KodeTerminal
-                      onClose={handleCloseWindow}
-                      expectedCode={getCurrentMission().kode}
-                      currentDay={selectedDay || getCurrentDay()}
-                      allMissions={oppdrag}
-                      onCodeSubmitted={handleCodeSubmitted}
-                    />
-                  )}
-                  {openWindow === "nissenet" && (
-                    <NisseNetUtforsker
-                      files={filer}
-                      missions={oppdrag}
-                      currentDay={getCurrentDay()}
-                      onClose={handleCloseWindow}
-                    />
-                  )}
-                  {openWindow === "kalender" && (
-                    <Kalender
-                      missions={oppdrag}
-                      customCalendarEvents={familyData.calendarEvents}
-                      onClose={handleCloseWindow}
-                      onSelectDay={handleSelectDay}
-                    />
-                  )}
-                  {openWindow === "nissemusikk" && (
-                    <NisseMusikk onClose={handleCloseWindow} />
-                  )}
-                  {openWindow === "nissekrypto" && (
-                    <NisseKrypto onClose={handleCloseWindow} />
-                  )}
-                  {openWindow === "symbolskanner" && (
-                    <SymbolScanner onClose={handleCloseWindow} />
-                  )}
-                  {openWindow === "nordpol_tv" && (
-                    <SnøfallTV
-                      onClose={handleCloseWindow}
-                      currentDay={getCurrentDay()}
-                    />
-                  )}
-                  {openWindow === "brevfugler" && (
-                    <Brevfugler onClose={handleCloseWindow} />
-                  )}
-                  {openWindow === "nissestats" && (
-                    <NisseStats
-                      onClose={handleCloseWindow}
-                      currentDay={getCurrentDay()}
-                    />
-                  )}
-                  {openWindow === "eventyr-oversikt" && (
-                    <EventyrOversikt onClose={handleCloseWindow} />
-                  )}
-                  {openWindow === "dagbok" && (
-                    <Dagbok missions={oppdrag} onClose={handleCloseWindow} />
-                  )}
-                </>
-              )}
+                ) : (
+                  // Active window
+                  <>
+                    {openWindow === "nissemail" && (
+                      <NisseMail
+                        missions={oppdrag}
+                        currentDay={getCurrentDay()}
+                        initialDay={selectedDay}
+                        customCalendarEvents={familyData.calendarEvents}
+                        onClose={handleCloseWindow}
+                        onOpenKodeTerminal={(day) => {
+                          setSelectedDay(day);
+                          setOpenWindow("kodeterminal");
+                          playSound("open");
+                        }}
+                      />
+                    )}
+                    {openWindow === "kodeterminal" && (
+                      <KodeTerminal
+                        onClose={handleCloseWindow}
+                        currentDay={selectedDay || getCurrentDay()}
+                        allMissions={oppdrag}
+                        onCodeSubmitted={handleCodeSubmitted}
+                      />
+                    )}
+                    {openWindow === "nissenet" && (
+                      <NisseNetUtforsker
+                        files={filer}
+                        missions={oppdrag}
+                        currentDay={getCurrentDay()}
+                        onClose={handleCloseWindow}
+                      />
+                    )}
+                    {openWindow === "kalender" && (
+                      <Kalender
+                        missions={oppdrag}
+                        customCalendarEvents={familyData.calendarEvents}
+                        onClose={handleCloseWindow}
+                        onSelectDay={handleSelectDay}
+                      />
+                    )}
+                    {openWindow === "nissemusikk" && (
+                      <NisseMusikk onClose={handleCloseWindow} />
+                    )}
+                    {openWindow === "nissekrypto" && (
+                      <NisseKrypto onClose={handleCloseWindow} />
+                    )}
+                    {openWindow === "symbolskanner" && (
+                      <SymbolScanner onClose={handleCloseWindow} />
+                    )}
+                    {openWindow === "nordpol_tv" && (
+                      <SnøfallTV
+                        onClose={handleCloseWindow}
+                        currentDay={getCurrentDay()}
+                      />
+                    )}
+                    {openWindow === "brevfugler" && (
+                      <Brevfugler onClose={handleCloseWindow} />
+                    )}
+                    {openWindow === "nissestats" && (
+                      <NisseStats
+                        onClose={handleCloseWindow}
+                        currentDay={getCurrentDay()}
+                      />
+                    )}
+                    {openWindow === "eventyr-oversikt" && (
+                      <EventyrOversikt onClose={handleCloseWindow} />
+                    )}
+                    {openWindow === "dagbok" && (
+                      <Dagbok missions={oppdrag} onClose={handleCloseWindow} />
+                    )}
+                  </>
+                )}
+              </div>
+
+              {/* Badge row at bottom of main workspace */}
+              {!openWindow && <BadgeRow />}
             </div>
-
-            {/* Badge row at bottom of main workspace */}
-            {!openWindow && <BadgeRow />}
           </div>
-        </div>
-      )}
+        )}
 
       {/* Grand finale modal */}
       {showGrandFinale && (
@@ -1,12 +1,17 @@
 "use client";
 
-import { useState, useEffect } from "react";
+import { useState, useEffect, useSyncExternalStore } from "react";
 import { SidebarWidget } from "../ui/SidebarWidget";
 import { StatusBar } from "../ui/StatusBar";
 import { LEDIndicator } from "../ui/LEDIndicator";
 import { Icons } from "@/lib/icons";
 import { SystemMetrikk } from "@/types/innhold";
 import { GameEngine } from "@/lib/game-engine";
+import {
+  getUnsyncedWriteCount,
+  subscribeToSyncStatus,
+} from "@/lib/sync-outbox";
+import { useAppState } from "@/lib/app-context";
 
 interface SystemStatusProps {
   currentDay?: number; // Optional: to trigger refresh on day change
@@ -20,6 +25,16 @@ export function SystemStatus({ currentDay }: SystemStatusProps) {
     return [];
   });
 
+  // Progress saved on this device but not yet on the server (Sanity backend)
+  const unsyncedWrites = useSyncExternalStore(
+    subscribeToSyncStatus,
+    getUnsyncedWriteCount,
+    () => 0,
+  );
+
+  // Game state couldn't be loaded and the kids chose to continue offline
+  const { storageState, retryStorage } = useAppState();
+
   const [previousMetrics, setPreviousMetrics] = useState<SystemMetrikk[]>([]);
   const [improvingMetrics, setImprovingMetrics] = useState<Set<string>>(
     new Set(),
@@ -150,8 +165,27 @@ export function SystemStatus({ currentDay }: SystemStatusProps) {
 
         {/* Bottom indicator */}
         <div className="flex items-center justify-between pt-3 border-t-2 border-(--neon-green)/30 text-xs">
-          <span>ENISSEKJERNE 3.8]</span>
-          <LEDIndicator color="green" blinking />
+          {storageState === "error" ? (
+            <>
+              <button
+                onClick={retryStorage}
+                className="text-(--christmas-red) underline hover:text-(--neon-green)"
+              >
+                FRAKOBLET - PRØV IGJEN
+              </button>
+              <LEDIndicator color="red" blinking />
+            </>
+          ) : unsyncedWrites > 0 ? (
+            <>
+              <span className="text-(--gold)">IKKE SYNKRONISERT</span>
+              <LEDIndicator color="gold" blinking />
+            </>
+          ) : (
+            <>
+              <span>ENISSEKJERNE 3.8]</span>
+              <LEDIndicator color="green" blinking />
+            </>
+          )}
         </div>
       </div>
     </SidebarWidget>
@@ -15,17 +15,10 @@ export function VarselKonsoll({ alerts, currentDay }: VarselKonsollProps) {
   const [selectedAlert, setSelectedAlert] = useState<number | null>(null);
   const [dynamicAlerts, setDynamicAlerts] = useState<Varsel[]>(() => {
     if (typeof window !== "undefined") {
-      const completedDays = new Set(
-        GameEngine.getSubmittedCodes()
-          .map(
-            (c) =>
-              GameEngine.getAllQuests().findIndex(
-                (q) => q.kode.toUpperCase() === c.kode.toUpperCase(),
-              ) + 1,
-          )
-          .filter((d) => d > 0),
+      return GameEngine.getDailyAlerts(
+        currentDay || 1,
+        GameEngine.getCompletedDays(),
       );
-      return GameEngine.getDailyAlerts(currentDay || 1, completedDays);
     }
     return alerts;
   });
@@ -34,18 +27,11 @@ export function VarselKonsoll({ alerts, currentDay }: VarselKonsollProps) {
     // Refresh alerts when day changes - use requestAnimationFrame to defer setState
     if (typeof window !== "undefined") {
       requestAnimationFrame(() => {
-        const completedDays = new Set(
-          GameEngine.getSubmittedCodes()
-            .map(
-              (c) =>
-                GameEngine.getAllQuests().findIndex(
-                  (q) => q.kode.toUpperCase() === c.kode.toUpperCase(),
-                ) + 1,
-            )
-            .filter((d) => d > 0),
-        );
         setDynamicAlerts(
-          GameEngine.getDailyAlerts(currentDay || 1, completedDays),
+          GameEngine.getDailyAlerts(
+            currentDay || 1,
+            GameEngine.getCompletedDays(),
+          ),
         );
       });
     }
@@ -2,6 +2,7 @@
 
 import { useMemo, useEffect, useState } from "react";
 import { GameEngine } from "@/lib/game-engine";
+import { subscribeToSessionEvents } from "@/lib/live-progress";
 import { formatDistanceToNow } from "date-fns";
 import { nb } from "date-fns/locale";
 
@@ -27,35 +28,53 @@ export function ActivityFeed({
     };
 
     window.addEventListener("storage", handleStorageChange);
-    return () => window.removeEventListener("storage", handleStorageChange);
+
+    // Progress from the kids' other devices (server backends)
+    const unsubscribe = subscribeToSessionEvents((event) => {
+      if (event.type === "session-updated") {
+        setInternalRefreshKey((prev) => prev + 1);
+      }
+    });
+
+    return () => {
+      window.removeEventListener("storage", handleStorageChange);
+      unsubscribe();
+    };
   }, []);
 
   // Combine external refreshCounter with internal storage listener
   const effectiveRefreshKey = refreshCounter + internalRefreshKey;
 
   const activities = useMemo(() => {
-    const submittedCodes = GameEngine.getSubmittedCodes();
-    const completedDays = GameEngine.getCompletedDays();
+    const eventLog = GameEngine.getGameEventLog();
 
-    // Just use submission history for now (simplified)
+    // Sessions from before the event log only have their submitted codes
     const combined: Array<{
       timestamp: Date;
-      type: "code";
-      day: number;
-      code: string;
-    }> = [];
-
-    // Add code submissions
-    submittedCodes.forEach((entry) => {
-      combined.push({
-        timestamp: new Date(entry.dato),
-        type: "code",
-        day:
-          parseInt(entry.kode.match(/dag-(\d+)/)?.[1] || "0", 10) ||
-          completedDays.size,
-        code: entry.kode,
-      });
-    });
+      icon: string;
+      title: string;
+      detail?: string;
+    }> =
+      eventLog.length > 0
+        ? eventLog.map((event) => {
+            const { icon, text, day } = GameEngine.describeGameEvent(event);
+            return {
+              timestamp: new Date(event.at),
+              icon,
+              title: text,
+              // Code events name their day in the text already
+              detail:
+                day && event.type !== "code-submitted"
+                  ? `Dag ${day}`
+                  : undefined,
+            };
+          })
+        : GameEngine.getSubmittedCodes().map((entry) => ({
+            timestamp: new Date(entry.dato),
+            icon: "✓",
+            title: entry.day ? `Dag ${entry.day} fullført!` : "Kode godkjent",
+            detail: `Kode: ${entry.kode}`,
+          }));
 
     // Sort by timestamp (newest first) and limit
     return combined
@@ -100,14 +119,16 @@ export function ActivityFeed({
               style={{ animationDelay: `${idx * 0.05}s` }}
             >
               <div className="flex items-start gap-3">
-                <div className="text-2xl shrink-0">✓</div>
+                <div className="text-2xl shrink-0">{activity.icon}</div>
                 <div className="flex-1 min-w-0">
                   <div className="font-bold text-(--gold)">
-                    Dag {activity.day} fullført!
-                  </div>
-                  <div className="text-sm text-(--neon-green)/80 font-mono">
-                    Kode: {activity.code}
+                    {activity.title}
                   </div>
+                  {activity.detail && (
+                    <div className="text-sm text-(--neon-green)/80 font-mono">
+                      {activity.detail}
+                    </div>
+                  )}
                   <div className="text-xs text-(--neon-green)/50 mt-1">
                     🕐 {timeAgo}
                   </div>
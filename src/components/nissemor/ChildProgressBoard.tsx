@@ -0,0 +1,95 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { GameEngine, type ProfileProgress } from "@/lib/game-engine";
+import { getActiveProfileId } from "@/lib/session-manager";
+import { hasChildProfiles } from "@/lib/child-profiles";
+import { useAppState } from "@/lib/app-context";
+
+interface ChildProgressBoardProps {
+  refreshCounter?: number;
+}
+
+/**
+ * Each child's progress side by side, next to the days solved together
+ * Only shown for families with child profiles (see child-profiles.ts)
+ */
+export function ChildProgressBoard({
+  refreshCounter = 0,
+}: ChildProgressBoardProps) {
+  const { sessionId, familyData } = useAppState();
+  const [progress, setProgress] = useState<ProfileProgress[]>([]);
+  const profiles = familyData.childProfiles;
+
+  useEffect(() => {
+    if (!sessionId || !hasChildProfiles(profiles)) return;
+
+    let cancelled = false;
+    GameEngine.loadProfileProgress(sessionId, profiles, getActiveProfileId())
+      .then((loaded) => {
+        if (!cancelled) setProgress(loaded);
+      })
+      .catch((err) => console.warn("Could not load child progress:", err));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [sessionId, profiles, refreshCounter]);
+
+  if (!hasChildProfiles(profiles) || progress.length === 0) return null;
+
+  return (
+    <div className="border-4 border-(--gold) bg-(--gold)/5 p-4 md:p-6">
+      <h3 className="text-xl md:text-2xl font-bold text-(--gold) mb-4 text-center">
+        👧👦 AGENTENE
+      </h3>
+
+      <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-4">
+        {progress.map((p) => (
+          <div
+            key={p.profileId}
+            className="border-2 border-(--neon-green)/50 bg-black/40 p-3 space-y-2"
+          >
+            <div className="text-lg font-bold text-(--gold) uppercase text-center">
+              {p.navn}
+            </div>
+
+            {p.hydration === "error" ? (
+              <div className="text-sm text-(--christmas-red) text-center">
+                Kunne ikke hente fremdrift
+              </div>
+            ) : (
+              <div className="space-y-1 text-sm">
+                <div className="flex justify-between">
+                  <span>Dager løst</span>
+                  <span className="font-bold">{p.completedDays.length}/24</span>
+                </div>
+                <div className="flex justify-between">
+                  <span>Merker</span>
+                  <span className="font-bold">{p.badges}</span>
+                </div>
+                <div className="flex justify-between">
+                  <span>Symboler</span>
+                  <span className="font-bold">{p.symbols}</span>
+                </div>
+                <div className="flex justify-between">
+                  <span>Bonusoppdrag</span>
+                  <span className="font-bold">{p.bonusOppdrag}</span>
+                </div>
+                <div className="flex justify-between">
+                  <span>Feil koder</span>
+                  <span className="font-bold">{p.failedAttempts}</span>
+                </div>
+                {p.completedDays.length > 0 && (
+                  <div className="text-xs opacity-70 pt-1">
+                    Sist løst: dag {p.completedDays[p.completedDays.length - 1]}
+                  </div>
+                )}
+              </div>
+            )}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
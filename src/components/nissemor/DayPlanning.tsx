@@ -1,20 +1,43 @@
 import { Icon } from "@/lib/icons";
 import { getAllOppdrag } from "@/lib/oppdrag";
-
-const allOppdrag = getAllOppdrag();
+import {
+  applyVariant,
+  DIFFICULTY_NAMES,
+  getActiveDifficulty,
+  hasVariant,
+} from "@/lib/quest-variants";
+import { getActiveHintMode, HINT_MODE_NAMES } from "@/lib/hint-ladder";
+import { applyQuestOverride, getQuestOverride } from "@/lib/quest-overrides";
+import { QuestOverrideEditor } from "./QuestOverrideEditor";
+import { DayRollback } from "./DayRollback";
+import type { OppdragOverstyring } from "@/types/innhold";
 
 interface DayPlanningProps {
   selectedDay: number;
   onSelectDay: (day: number) => void;
   completedDays: Set<number>;
+  overrides: OppdragOverstyring[];
+  onOverridesChange: (overrides: OppdragOverstyring[]) => void;
+  onProgressChange: () => void; // A day was rolled back
 }
 
 export function DayPlanning({
   selectedDay,
   onSelectDay,
   completedDays,
+  overrides,
+  onOverridesChange,
+  onProgressChange,
 }: DayPlanningProps) {
-  const selectedQuest = allOppdrag.find((q) => q.dag === selectedDay);
+  const allOppdrag = getAllOppdrag();
+  const difficulty = getActiveDifficulty();
+  const familyQuests = allOppdrag.map((q) => applyVariant(q, difficulty));
+  const baseQuest = allOppdrag.find((q) => q.dag === selectedDay);
+  const variantQuest = familyQuests.find((q) => q.dag === selectedDay);
+  const selectedQuest =
+    variantQuest && applyQuestOverride(variantQuest, overrides);
+  const hasOverride = !!getQuestOverride(selectedDay, overrides);
+  const hintMode = getActiveHintMode();
 
   const showKeyboardShortcuts = () => {
     alert(
@@ -60,6 +83,36 @@ export function DayPlanning({
             </div>
           )}
 
+          {/* Difficulty variant banner */}
+          {baseQuest && hasVariant(baseQuest, difficulty) && (
+            <div className="border-2 border-(--cold-blue) bg-(--cold-blue)/10 p-3 flex items-center gap-3">
+              <span className="text-2xl">🎚️</span>
+              <div>
+                <span className="font-bold text-(--cold-blue)">
+                  VARIANT: {DIFFICULTY_NAMES[difficulty].toUpperCase()}
+                </span>
+                <span className="text-(--cold-blue)/80 ml-2">
+                  Oppsett, hint og løsning under gjelder familiens
+                  vanskelighetsgrad.
+                </span>
+              </div>
+            </div>
+          )}
+
+          {/* Parent override banner */}
+          {hasOverride && (
+            <div className="border-2 border-(--gold) bg-(--gold)/10 p-3 flex items-center gap-3">
+              <span className="text-2xl">✏️</span>
+              <div>
+                <span className="font-bold text-(--gold)">TILPASSET</span>
+                <span className="text-(--gold)/80 ml-2">
+                  Dagen viser familiens egne endringer. Barna får de samme i
+                  appen.
+                </span>
+              </div>
+            </div>
+          )}
+
           {/* Full Width: Setup Instructions */}
           <div className="border-4 border-(--cold-blue) bg-(--cold-blue)/10 p-4">
             <h3 className="text-xl font-bold text-(--cold-blue) mb-3">
@@ -258,6 +311,61 @@ export function DayPlanning({
               </div>
             )}
           </div>
+
+          {/* Hint ladder the kids get in the code terminal */}
+          {selectedQuest.hint_trapp && (
+            <div className="border-4 border-(--neon-green)/50 bg-black/30 p-4">
+              <h3 className="text-xl font-bold text-(--neon-green) mb-3">
+                🪜 HINT FRA RAMPENISSEN ({HINT_MODE_NAMES[hintMode]})
+              </h3>
+              {hintMode === "av" ? (
+                <p className="text-sm opacity-70">
+                  Hint er slått av under innstillinger.
+                </p>
+              ) : (
+                <ol className="space-y-2 text-sm">
+                  {selectedQuest.hint_trapp.map((hint, index) => (
+                    <li
+                      key={index}
+                      className="bg-black/20 p-2 border border-(--neon-green)/30"
+                    >
+                      <div className="text-xs opacity-70 mb-1">
+                        Hint {index + 1}:{" "}
+                        {[
+                          hint.etter_forsok !== undefined &&
+                            `etter ${hint.etter_forsok} feil forsøk`,
+                          hint.etter_minutter !== undefined &&
+                            `${hint.etter_minutter} min etter første feil`,
+                        ]
+                          .filter(Boolean)
+                          .join(" eller ")}
+                        {hintMode === "rask" && " (halvert)"}
+                      </div>
+                      {hint.tekst}
+                    </li>
+                  ))}
+                </ol>
+              )}
+            </div>
+          )}
+
+          {/* Parent override editor */}
+          {variantQuest && (
+            <QuestOverrideEditor
+              key={selectedDay}
+              quest={variantQuest}
+              familyQuests={familyQuests}
+              overrides={overrides}
+              onSaved={onOverridesChange}
+            />
+          )}
+
+          {/* Parent rollback of a single day */}
+          <DayRollback
+            key={selectedDay}
+            day={selectedDay}
+            onRolledBack={onProgressChange}
+          />
         </div>
       ) : (
         <p className="text-center text-2xl">Velg en dag for å se detaljer</p>
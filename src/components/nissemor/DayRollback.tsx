@@ -0,0 +1,186 @@
+"use client";
+
+import { useState } from "react";
+import {
+  GameEngine,
+  type DayRollbackPlan,
+  type ProfileDayRollback,
+} from "@/lib/game-engine";
+import { BadgeManager } from "@/lib/badge-system";
+import { hasChildProfiles } from "@/lib/child-profiles";
+import { useAppState } from "@/lib/app-context";
+
+const CRISIS_NAMES: Record<"antenna" | "inventory", string> = {
+  antenna: "Antennekrisen",
+  inventory: "Inventarkrisen",
+};
+
+/**
+ * Lines for the preview, one per thing the day takes with it
+ */
+function describePlan(plan: DayRollbackPlan): string[] {
+  const symbolName = (symbolId: string) =>
+    GameEngine.getAllSymbols().find((s) => s.symbolId === symbolId)
+      ?.description ?? symbolId;
+
+  return [
+    plan.code && `Koden ${plan.code} (dagen blir uløst)`,
+    plan.failedAttempts > 0 && `${plan.failedAttempts} feil forsøk`,
+    plan.files.length > 0 && `Filer i NisseNet: ${plan.files.join(", ")}`,
+    plan.topics.length > 0 && `Emner: ${plan.topics.join(", ")}`,
+    plan.modules.length > 0 && `Moduler: ${plan.modules.join(", ")}`,
+    ...plan.symbols.map((id) => `Symbol: ${symbolName(id)}`),
+    plan.decryptions.length > 0 &&
+      `Dekryptering: ${plan.decryptions.join(", ")} (må løses på nytt)`,
+    ...plan.badges.map(
+      (id) => `Merke: ${BadgeManager.getBadge(id)?.navn ?? id}`,
+    ),
+    ...plan.crises.map((crisis) => `${CRISIS_NAMES[crisis]} åpnes igjen`),
+  ].filter((line): line is string => !!line);
+}
+
+interface DayRollbackProps {
+  day: number;
+  onRolledBack: () => void;
+}
+
+/**
+ * DayRollback Component
+ *
+ * Takes a single day back to unsolved from the oppdrag page, e.g. when a
+ * code was typed in by mistake. The day is taken back for the whole family:
+ * "Alle sammen" and every child profile. Shows what goes with it, per
+ * profile, before anything is removed (see
+ * GameEngine.previewFamilyDayRollback); both the preview and the rollback
+ * read the progress as stored now.
+ */
+export function DayRollback({ day, onRolledBack }: DayRollbackProps) {
+  const { sessionId, familyData } = useAppState();
+  const [rollbacks, setRollbacks] = useState<ProfileDayRollback[] | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [message, setMessage] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const profiles = familyData.childProfiles;
+  const perProfile = hasChildProfiles(profiles);
+  const described = (rollbacks ?? []).map((rollback) => ({
+    ...rollback,
+    lines: describePlan(rollback.plan),
+  }));
+  const hasLines = described.some((rollback) => rollback.lines.length > 0);
+
+  const handlePreview = async () => {
+    setMessage(null);
+    setError(null);
+    setLoading(true);
+    try {
+      setRollbacks(
+        await GameEngine.previewFamilyDayRollback(
+          day,
+          sessionId ?? undefined,
+          profiles,
+        ),
+      );
+    } catch (err) {
+      console.warn("Could not preview day rollback:", err);
+      setError("Kunne ikke hente fremgangen. Prøv igjen.");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleConfirm = async () => {
+    setLoading(true);
+    try {
+      await GameEngine.rollbackFamilyDay(day, sessionId ?? undefined, profiles);
+      setRollbacks(null);
+      setMessage(`Dag ${day} er tilbakestilt.`);
+    } catch (err) {
+      console.warn("Could not roll back day:", err);
+      setError("Tilbakestillingen feilet. Prøv igjen.");
+    } finally {
+      setLoading(false);
+      onRolledBack();
+    }
+  };
+
+  return (
+    <div className="border-4 border-(--christmas-red)/60 bg-black/30 p-4">
+      {!rollbacks ? (
+        <button
+          onClick={handlePreview}
+          disabled={loading}
+          className="w-full px-4 py-2 border-2 border-(--christmas-red) text-(--christmas-red) text-xl font-bold hover:bg-(--christmas-red)/20 disabled:opacity-50"
+        >
+          {loading ? "HENTER FREMGANG..." : `↩️ TILBAKESTILL DAG ${day}`}
+        </button>
+      ) : (
+        <div className="space-y-3 text-sm">
+          <h4 className="text-xl font-bold text-(--christmas-red)">
+            ↩️ TILBAKESTILL DAG {day}
+          </h4>
+          {perProfile && (
+            <p className="text-(--neon-green)/80">
+              Gjelder hele familien:{" "}
+              {described.map((rollback) => rollback.navn).join(", ")}.
+            </p>
+          )}
+          {!hasLines ? (
+            <p className="text-(--neon-green)/80">
+              Ingenting å tilbakestille - dagen er ikke løst.
+            </p>
+          ) : (
+            <>
+              <p className="text-(--neon-green)/80">Dette blir fjernet:</p>
+              {described.map((rollback) => (
+                <div key={rollback.profileId}>
+                  {perProfile && (
+                    <p className="font-bold text-(--gold) uppercase">
+                      {rollback.navn}
+                    </p>
+                  )}
+                  {rollback.lines.length === 0 ? (
+                    <p className="text-(--neon-green)/60">
+                      Ingenting å tilbakestille.
+                    </p>
+                  ) : (
+                    <ul className="list-disc list-inside space-y-1 text-(--gold)">
+                      {rollback.lines.map((line) => (
+                        <li key={line}>{line}</li>
+                      ))}
+                    </ul>
+                  )}
+                </div>
+              ))}
+              <p className="text-(--neon-green)/60">
+                Barna kan løse dagen på nytt etterpå. Resten av fremgangen
+                beholdes.
+              </p>
+            </>
+          )}
+          <div className="flex gap-3">
+            {hasLines && (
+              <button
+                onClick={handleConfirm}
+                disabled={loading}
+                className="flex-1 px-4 py-2 border-2 border-(--christmas-red) bg-(--christmas-red) text-white font-bold disabled:opacity-50"
+              >
+                {loading ? "TILBAKESTILLER..." : "BEKREFT"}
+              </button>
+            )}
+            <button
+              onClick={() => setRollbacks(null)}
+              disabled={loading}
+              className="px-4 py-2 border-2 border-(--neon-green) text-(--neon-green) hover:bg-(--neon-green)/20"
+            >
+              AVBRYT
+            </button>
+          </div>
+        </div>
+      )}
+
+      {message && <p className="mt-3 text-(--gold)">✓ {message}</p>}
+      {error && <p className="mt-3 text-(--christmas-red)">⚠ {error}</p>}
+    </div>
+  );
+}
@@ -5,9 +5,12 @@ import Link from "next/link";
 import {
   isParentAuthenticated,
   clearParentAuth,
+  logoutParent,
   setParentAuthenticated,
   setSessionId,
 } from "@/lib/session-manager";
+import { loadParentQuestAnswers } from "@/lib/code-validator";
+import { LiveProgressToasts } from "./LiveProgressToasts";
 import { useEffect } from "react";
 
 /**
@@ -16,24 +19,87 @@ import { useEffect } from "react";
  * Centralized authentication check for all nissemor-guide pages.
  * Shows a login form when not authenticated.
  *
- * Validates parent code via /api/auth/login and /api/auth/verify.
- * On successful login, sets session cookie and persists parent auth.
+ * Validates parent code via /api/auth/login and /api/auth/verify, or the
+ * login link from /api/auth/magic-link (?innlogging= in the URL, exchanged
+ * via /api/auth/magic-link/verify).
+ * On successful login, sets session cookie and the parent hint (the server
+ * has set the parent token cookie), and
+ * loads the quest answers the kids' bundle doesn't have. Authenticated pages
+ * get live progress toasts (LiveProgressToasts).
  *
  * Usage:
  * Wrap page content in <GuideAuth>{content}</GuideAuth>
  * or use useGuideAuth() hook for more control.
  */
 
+const MAGIC_LINK_PARAM = "innlogging";
+
+interface MagicLinkLogin {
+  status: "none" | "success" | "failed";
+  error?: string;
+}
+
+// One exchange per page load: the token works once, and every
+// useGuideAuth() (and React's dev double effects) would try it
+let magicLinkLogin: Promise<MagicLinkLogin> | null = null;
+
+/**
+ * Log in with the login link token in the URL, if there is one
+ * Removes the token from the address bar before using it.
+ */
+function loginWithMagicLink(): Promise<MagicLinkLogin> {
+  if (magicLinkLogin) return magicLinkLogin;
+
+  const url = new URL(window.location.href);
+  const token = url.searchParams.get(MAGIC_LINK_PARAM);
+  if (!token) return Promise.resolve({ status: "none" });
+
+  url.searchParams.delete(MAGIC_LINK_PARAM);
+  window.history.replaceState(null, "", url.toString());
+
+  magicLinkLogin = (async (): Promise<MagicLinkLogin> => {
+    try {
+      const response = await fetch("/api/auth/magic-link/verify", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ token }),
+        credentials: "include",
+      });
+      const data = (await response.json()) as {
+        sessionId?: string;
+        error?: string;
+      };
+
+      if (!response.ok || !data.sessionId) {
+        return {
+          status: "failed",
+          error: data.error || "Innloggingslenken virket ikke",
+        };
+      }
+
+      // The server set both cookies (session + parent token)
+      setSessionId(data.sessionId);
+      setParentAuthenticated(data.sessionId);
+      return { status: "success" };
+    } catch {
+      return { status: "failed", error: "Nettverksfeil. Prøv igjen." };
+    }
+  })();
+  return magicLinkLogin;
+}
+
 export function useGuideAuth(): {
   authenticated: boolean;
   isLoading: boolean;
+  loginError: string | null;
   logout: () => void;
 } {
   const [authenticated, setAuthenticated] = useState(false);
   const [isLoading, setIsLoading] = useState(true);
+  const [loginError, setLoginError] = useState<string | null>(null);
 
-  const logout = useCallback(() => {
-    clearParentAuth();
+  const logout = useCallback(async () => {
+    await logoutParent();
     setAuthenticated(false);
     // Force a full page reload to reset all component state
     window.location.href = "/nissemor-guide";
@@ -41,7 +107,13 @@ export function useGuideAuth(): {
 
   useEffect(() => {
     async function verifyAuth() {
-      // Check if we have a valid parent session cookie
+      // A login link replaces whatever session this browser had
+      const magicLink = await loginWithMagicLink();
+      if (magicLink.status === "failed") {
+        setLoginError(magicLink.error ?? null);
+      }
+
+      // Only ask the server if this browser has logged in to the guide
       const hasParentSession = isParentAuthenticated();
 
       if (hasParentSession) {
@@ -57,6 +129,7 @@ export function useGuideAuth(): {
           if (response.ok) {
             const data = (await response.json()) as { isParent: boolean };
             if (data.isParent) {
+              await loadParentQuestAnswers();
               setAuthenticated(true);
               setIsLoading(false);
               return;
@@ -76,7 +149,7 @@ export function useGuideAuth(): {
     verifyAuth();
   }, []);
 
-  return { authenticated, isLoading, logout };
+  return { authenticated, isLoading, loginError, logout };
 }
 
 interface GuideAuthProps {
@@ -85,13 +158,105 @@ interface GuideAuthProps {
   showLogout?: boolean;
 }
 
+/**
+ * Asks for a login link by email (/api/auth/magic-link)
+ * The answer never says whether the email is registered.
+ */
+function MagicLinkRequestForm() {
+  const [email, setEmail] = useState("");
+  const [message, setMessage] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+    setMessage(null);
+
+    if (!email.trim()) {
+      setError("Vennligst skriv inn e-postadressen");
+      return;
+    }
+
+    setIsSubmitting(true);
+    try {
+      const response = await fetch("/api/auth/magic-link", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ email: email.trim() }),
+      });
+      const data = (await response.json()) as {
+        message?: string;
+        error?: string;
+      };
+
+      if (!response.ok) {
+        setError(data.error || "Kunne ikke sende innloggingslenke");
+        return;
+      }
+      setMessage(data.message || "Sjekk e-posten din.");
+    } catch {
+      setError("Nettverksfeil. Prøv igjen.");
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-4">
+      <div>
+        <label htmlFor="magicLinkEmail" className="block text-lg mb-2">
+          E-post du registrerte med:
+        </label>
+        <input
+          id="magicLinkEmail"
+          type="email"
+          value={email}
+          onChange={(e) => setEmail(e.target.value)}
+          placeholder="forelder@eksempel.no"
+          className="w-full p-3 bg-black border-2 border-(--neon-green) text-(--neon-green) font-mono text-xl placeholder:text-(--neon-green)/30 focus:outline-none focus:border-(--gold)"
+          autoComplete="email"
+          disabled={isSubmitting}
+        />
+      </div>
+
+      {error && (
+        <div className="p-3 border-2 border-(--christmas-red) bg-(--christmas-red)/20 text-(--christmas-red)">
+          ⚠️ {error}
+        </div>
+      )}
+
+      {message && (
+        <div className="p-3 border-2 border-(--gold) bg-(--gold)/10 text-(--gold)">
+          📧 {message}
+        </div>
+      )}
+
+      <button
+        type="submit"
+        disabled={isSubmitting}
+        className="w-full p-4 bg-(--neon-green) text-black font-bold text-xl hover:bg-(--gold) hover:text-black transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+      >
+        {isSubmitting ? "Sender..." : "📧 SEND INNLOGGINGSLENKE"}
+      </button>
+    </form>
+  );
+}
+
 /**
  * Login form for parent authentication
  */
-function ParentLoginForm({ onSuccess }: { onSuccess: () => void }) {
+function ParentLoginForm({
+  onSuccess,
+  initialError = null,
+}: {
+  onSuccess: () => void;
+  initialError?: string | null;
+}) {
   const [code, setCode] = useState("");
-  const [error, setError] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(initialError);
   const [isSubmitting, setIsSubmitting] = useState(false);
+  const [useMagicLink, setUseMagicLink] = useState(false);
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
@@ -132,13 +297,14 @@ function ParentLoginForm({ onSuccess }: { onSuccess: () => void }) {
         return;
       }
 
-      // Login already set both cookies (session + parent auth)
-      // Set client-side parent auth for isParentAuthenticated() check
+      // Login already set both cookies (session + parent token)
+      // Set the client-side hint for isParentAuthenticated()
       if (loginData.sessionId) {
         setSessionId(loginData.sessionId);
         setParentAuthenticated(loginData.sessionId);
       }
 
+      await loadParentQuestAnswers();
       onSuccess();
       return;
     } catch {
@@ -155,45 +321,68 @@ function ParentLoginForm({ onSuccess }: { onSuccess: () => void }) {
           🎅 NISSEMOR GUIDE
         </h1>
         <p className="text-center text-(--neon-green)/70 mb-6">
-          Kun for foreldre - logg inn med foreldrekoden
+          {useMagicLink
+            ? "Kun for foreldre - få en innloggingslenke på e-post"
+            : "Kun for foreldre - logg inn med foreldrekoden"}
         </p>
 
-        <form onSubmit={handleSubmit} className="space-y-4">
-          <div>
-            <label htmlFor="parentCode" className="block text-lg mb-2">
-              Foreldrekode:
-            </label>
-            <input
-              id="parentCode"
-              type="text"
-              value={code}
-              onChange={(e) => setCode(e.target.value)}
-              placeholder="NORDPOL-XXXXX"
-              className="w-full p-3 bg-black border-2 border-(--neon-green) text-(--neon-green) font-mono text-xl uppercase placeholder:text-(--neon-green)/30 focus:outline-none focus:border-(--gold)"
-              autoComplete="off"
-              autoFocus
-              disabled={isSubmitting}
-            />
-          </div>
-
-          {error && (
-            <div className="p-3 border-2 border-(--christmas-red) bg-(--christmas-red)/20 text-(--christmas-red)">
-              ⚠️ {error}
+        {useMagicLink ? (
+          <MagicLinkRequestForm />
+        ) : (
+          <>
+            <form onSubmit={handleSubmit} className="space-y-4">
+              <div>
+                <label htmlFor="parentCode" className="block text-lg mb-2">
+                  Foreldrekode:
+                </label>
+                <input
+                  id="parentCode"
+                  type="text"
+                  value={code}
+                  onChange={(e) => setCode(e.target.value)}
+                  placeholder="NORDPOL-XXXXX"
+                  className="w-full p-3 bg-black border-2 border-(--neon-green) text-(--neon-green) font-mono text-xl uppercase placeholder:text-(--neon-green)/30 focus:outline-none focus:border-(--gold)"
+                  autoComplete="off"
+                  autoFocus
+                  disabled={isSubmitting}
+                />
+              </div>
+
+              {error && (
+                <div className="p-3 border-2 border-(--christmas-red) bg-(--christmas-red)/20 text-(--christmas-red)">
+                  ⚠️ {error}
+                </div>
+              )}
+
+              <button
+                type="submit"
+                disabled={isSubmitting}
+                className="w-full p-4 bg-(--neon-green) text-black font-bold text-xl hover:bg-(--gold) hover:text-black transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                {isSubmitting ? "Logger inn..." : "🔑 LOGG INN"}
+              </button>
+            </form>
+
+            <div className="mt-6 pt-4 border-t border-(--neon-green)/30 text-center text-sm text-(--neon-green)/60">
+              <p>Foreldrekoden ble sendt til e-posten du registrerte.</p>
+              <p className="mt-2">Den starter med "NORDPOL-"</p>
             </div>
-          )}
+          </>
+        )}
 
+        <div className="mt-4 text-center">
           <button
-            type="submit"
-            disabled={isSubmitting}
-            className="w-full p-4 bg-(--neon-green) text-black font-bold text-xl hover:bg-(--gold) hover:text-black transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+            type="button"
+            onClick={() => {
+              setUseMagicLink(!useMagicLink);
+              setError(null);
+            }}
+            className="text-(--gold) hover:underline"
           >
-            {isSubmitting ? "Logger inn..." : "🔑 LOGG INN"}
+            {useMagicLink
+              ? "🔑 Logg inn med foreldrekoden"
+              : "📧 Send meg en innloggingslenke i stedet"}
           </button>
-        </form>
-
-        <div className="mt-6 pt-4 border-t border-(--neon-green)/30 text-center text-sm text-(--neon-green)/60">
-          <p>Foreldrekoden ble sendt til e-posten du registrerte.</p>
-          <p className="mt-2">Den starter med "NORDPOL-"</p>
         </div>
 
         <div className="mt-4 text-center">
@@ -211,7 +400,7 @@ export function GuideAuth({
   loadingMessage = "Sjekker tilgang...",
   showLogout = false,
 }: GuideAuthProps) {
-  const { authenticated, isLoading, logout } = useGuideAuth();
+  const { authenticated, isLoading, loginError, logout } = useGuideAuth();
   const [loginSuccess, setLoginSuccess] = useState(false);
 
   // Handle successful login
@@ -235,7 +424,12 @@ export function GuideAuth({
   }
 
   if (!showContent) {
-    return <ParentLoginForm onSuccess={handleLoginSuccess} />;
+    return (
+      <ParentLoginForm
+        onSuccess={handleLoginSuccess}
+        initialError={loginError}
+      />
+    );
   }
 
   return (
@@ -251,6 +445,7 @@ export function GuideAuth({
         </div>
       )}
       {children}
+      <LiveProgressToasts />
     </>
   );
 }
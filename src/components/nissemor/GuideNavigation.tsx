@@ -26,6 +26,7 @@ type PageType =
   | "brevfugler"
   | "bonusoppdrag"
   | "merker"
+  | "graf"
   | "innstillinger";
 
 interface GuideNavigationProps {
@@ -106,6 +107,11 @@ export function GuideNavigation({ currentPage }: GuideNavigationProps) {
       label: "🖨️ UTSKRIFTER",
       href: "/nissemor-guide/printout",
     },
+    {
+      id: "graf" as PageType,
+      label: "🕸️ AVHENGIGHETER",
+      href: "/nissemor-guide/graf",
+    },
     {
       id: "innstillinger" as PageType,
       label: "⚙️ INNSTILLINGER",
@@ -2,6 +2,8 @@
 
 import { useState, useEffect } from "react";
 import { Icon } from "@/lib/icons";
+import { GameEngine } from "@/lib/game-engine";
+import type { SaveGameImportResult } from "@/lib/save-game";
 
 interface EmailSubscriptionStatus {
   subscribed: boolean;
@@ -15,6 +17,9 @@ export function GuideSettings() {
   const [updating, setUpdating] = useState(false);
   const [deleteConfirm, setDeleteConfirm] = useState("");
   const [deleting, setDeleting] = useState(false);
+  const [importResult, setImportResult] = useState<SaveGameImportResult | null>(
+    null,
+  );
   const [message, setMessage] = useState<{
     type: "success" | "error";
     text: string;
@@ -83,6 +88,36 @@ export function GuideSettings() {
     }
   };
 
+  const handleExportSave = () => {
+    const blob = new Blob([GameEngine.exportGameState()], {
+      type: "application/json",
+    });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = `nissekomm-lagring-${new Date().toISOString().slice(0, 10)}.json`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const handleImportSave = async (file: File | undefined) => {
+    if (!file) return;
+
+    const confirmed = confirm(
+      "All nåværende fremgang erstattes med innholdet i lagringsfilen. Fortsette?",
+    );
+    if (!confirmed) return;
+
+    setMessage(null);
+    const result = GameEngine.importSaveGame(await file.text());
+    setImportResult(result);
+    setMessage(
+      result.success
+        ? { type: "success", text: "Lagringsfilen er gjenopprettet" }
+        : { type: "error", text: "Kunne ikke lese lagringsfilen" },
+    );
+  };
+
   const handleDeleteAccount = async () => {
     if (deleteConfirm !== "SLETT") {
       setMessage({
@@ -139,11 +174,11 @@ export function GuideSettings() {
         {storageBackend === "localStorage" ? (
           <div className="border-2 border-orange-500 bg-orange-500/10 p-4">
             <p className="text-orange-400">
-              ⚠️ E-postabonnement er kun tilgjengelig med Sanity backend.
+              ⚠️ E-postabonnement er kun tilgjengelig med serverlagring.
             </p>
             <p className="text-orange-300/80 text-sm mt-2">
               For å aktivere denne funksjonen, konfigurer
-              NEXT_PUBLIC_STORAGE_BACKEND=sanity
+              NEXT_PUBLIC_STORAGE_BACKEND=sanity (eller file)
             </p>
           </div>
         ) : loading ? (
@@ -197,6 +232,78 @@ export function GuideSettings() {
         ) : null}
       </div>
 
+      {/* Save Game Section */}
+      <div className="border-4 border-(--neon-green) bg-(--neon-green)/5 p-6">
+        <h2 className="text-2xl font-bold text-(--neon-green) mb-4 flex items-center gap-3">
+          <Icon name="save" size={28} />
+          LAGRINGSFIL
+        </h2>
+
+        <div className="space-y-4">
+          <div className="bg-(--dark-crt) border-2 border-(--neon-green)/30 p-4">
+            <p className="text-(--neon-green)/70 text-sm">
+              Last ned all fremgang som en fil, og last den opp igjen for å
+              gjenopprette etter at nettleseren er tømt eller for å flytte
+              familien til en annen lagring. Innlogging og koder er ikke med.
+            </p>
+          </div>
+
+          <div className="flex flex-wrap items-center gap-4">
+            <button
+              onClick={handleExportSave}
+              className="px-6 py-3 border-4 border-(--neon-green) bg-(--neon-green) text-black font-bold text-xl hover:bg-(--neon-green)/80 transition-all"
+            >
+              ⬇ LAST NED
+            </button>
+
+            <label className="px-6 py-3 border-4 border-(--neon-green) text-(--neon-green) font-bold text-xl hover:bg-(--neon-green)/10 transition-all cursor-pointer">
+              ⬆ LAST OPP
+              <input
+                type="file"
+                accept="application/json,.json"
+                className="hidden"
+                onChange={(e) => {
+                  void handleImportSave(e.target.files?.[0]);
+                  e.target.value = "";
+                }}
+              />
+            </label>
+          </div>
+
+          {importResult &&
+            (importResult.errors.length > 0 ||
+              importResult.warnings.length > 0 ||
+              importResult.upgradedFrom) && (
+              <div className="bg-(--dark-crt) border-2 border-(--neon-green)/30 p-4 text-sm space-y-2">
+                {importResult.upgradedFrom && (
+                  <p className="text-(--neon-green)/90">
+                    Oppgradert fra versjon {importResult.upgradedFrom}.
+                  </p>
+                )}
+                {importResult.errors.length > 0 && (
+                  <ul className="list-disc list-inside text-(--christmas-red) space-y-1">
+                    {importResult.errors.map((error) => (
+                      <li key={error}>{error}</li>
+                    ))}
+                  </ul>
+                )}
+                {importResult.warnings.length > 0 && (
+                  <>
+                    <p className="text-(--gold)">
+                      Merknader (ukjente oppføringer er hoppet over):
+                    </p>
+                    <ul className="list-disc list-inside text-(--gold)/80 space-y-1">
+                      {importResult.warnings.map((warning) => (
+                        <li key={warning}>{warning}</li>
+                      ))}
+                    </ul>
+                  </>
+                )}
+              </div>
+            )}
+        </div>
+      </div>
+
       {/* Delete Account Section */}
       <div className="border-4 border-(--christmas-red) bg-(--christmas-red)/5 p-6">
         <h2 className="text-2xl font-bold text-(--christmas-red) mb-4 flex items-center gap-3">
@@ -0,0 +1,122 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import { subscribeToSessionEvents } from "@/lib/live-progress";
+import { BadgeManager } from "@/lib/badge-system";
+import { GameEngine } from "@/lib/game-engine";
+import { useAppState } from "@/lib/app-context";
+import type { SessionEvent } from "@/lib/session-events";
+
+/**
+ * LiveProgressToasts Component
+ *
+ * Shows a short notice in the nissemor-guide when the kids make progress on
+ * another device ("Dag 7 løst!"), naming the child for progress in a child
+ * profile ("Emma: Dag 7 løst!"). Rendered by GuideAuth on every guide page.
+ */
+
+const TOAST_DURATION_MS = 6000;
+const MAX_TOASTS = 4;
+
+interface Toast {
+  id: number;
+  icon: string;
+  message: string;
+}
+
+/**
+ * Toast text for an event (null = not worth a toast)
+ */
+function describeEvent(event: SessionEvent): Omit<Toast, "id"> | null {
+  switch (event.type) {
+    case "day-solved":
+      return { icon: "🎄", message: `Dag ${event.day} løst!` };
+    case "badge-earned": {
+      const badge = BadgeManager.getBadge(event.badgeId);
+      return {
+        icon: "🏅",
+        message: `Nytt merke: ${badge?.navn ?? event.badgeId}!`,
+      };
+    }
+    case "symbol-collected": {
+      const symbol = GameEngine.getAllSymbols().find(
+        (s) => s.symbolId === event.symbolId,
+      );
+      return {
+        icon: "✨",
+        message: `Symbol funnet: ${symbol?.description ?? event.symbolId}`,
+      };
+    }
+    case "decryption-solved":
+      return { icon: "🔓", message: "Dekryptering løst!" };
+    default:
+      return null;
+  }
+}
+
+export function LiveProgressToasts() {
+  const [toasts, setToasts] = useState<Toast[]>([]);
+  const { familyData } = useAppState();
+
+  // Read from the subscription without subscribing again on every change
+  const profilesRef = useRef(familyData.childProfiles);
+  useEffect(() => {
+    profilesRef.current = familyData.childProfiles;
+  }, [familyData.childProfiles]);
+
+  useEffect(() => {
+    let nextId = 0;
+    const timers = new Set<ReturnType<typeof setTimeout>>();
+
+    const unsubscribe = subscribeToSessionEvents((event) => {
+      const toast = describeEvent(event);
+      if (!toast) return;
+
+      const profile = profilesRef.current.find((p) => p.id === event.profileId);
+      if (profile) toast.message = `${profile.navn}: ${toast.message}`;
+
+      const id = ++nextId;
+      setToasts((prev) => [...prev, { id, ...toast }].slice(-MAX_TOASTS));
+
+      const timer = setTimeout(() => {
+        timers.delete(timer);
+        setToasts((prev) => prev.filter((t) => t.id !== id));
+      }, TOAST_DURATION_MS);
+      timers.add(timer);
+    });
+
+    return () => {
+      unsubscribe();
+      timers.forEach(clearTimeout);
+    };
+  }, []);
+
+  if (toasts.length === 0) return null;
+
+  return (
+    <div
+      className="fixed bottom-4 right-4 z-50 flex flex-col gap-2 print:hidden"
+      role="status"
+      aria-live="polite"
+    >
+      {toasts.map((toast) => (
+        <div
+          key={toast.id}
+          className="flex items-center gap-3 px-4 py-3 border-4 border-(--gold) bg-(--dark-crt) text-(--gold) text-xl font-bold shadow-[0_0_20px_rgba(255,215,0,0.4)] animate-[scale-in_0.3s_ease-out]"
+        >
+          <span>{toast.icon}</span>
+          <span>{toast.message}</span>
+          <button
+            onClick={() =>
+              setToasts((prev) => prev.filter((t) => t.id !== toast.id))
+            }
+            className="ml-2 text-(--gold)/60 hover:text-(--gold)"
+            aria-label="Lukk"
+          >
+            ✕
+          </button>
+        </div>
+      ))}
+    </div>
+  );
+}
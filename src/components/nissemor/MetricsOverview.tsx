@@ -2,6 +2,7 @@
 
 import { useMemo, useEffect, useState } from "react";
 import { GameEngine } from "@/lib/game-engine";
+import { subscribeToSessionEvents } from "@/lib/live-progress";
 
 interface MetricsOverviewProps {
   refreshCounter?: number;
@@ -21,7 +22,18 @@ export function MetricsOverview({ refreshCounter = 0 }: MetricsOverviewProps) {
     };
 
     window.addEventListener("storage", handleStorageChange);
-    return () => window.removeEventListener("storage", handleStorageChange);
+
+    // Progress from the kids' other devices (server backends)
+    const unsubscribe = subscribeToSessionEvents((event) => {
+      if (event.type === "session-updated") {
+        setInternalRefreshKey((prev) => prev + 1);
+      }
+    });
+
+    return () => {
+      window.removeEventListener("storage", handleStorageChange);
+      unsubscribe();
+    };
   }, []);
 
   // Combine external refreshCounter with internal storage listener
@@ -0,0 +1,286 @@
+"use client";
+
+import { useState } from "react";
+import {
+  collectQuestOverrideErrors,
+  getQuestOverride,
+  MAX_OVERRIDE_TEXT_LENGTH,
+  QUEST_OVERRIDE_FIELD_NAMES,
+  QUEST_OVERRIDE_FIELDS,
+  sanitizeQuestOverride,
+  setActiveQuestOverrides,
+} from "@/lib/quest-overrides";
+import type {
+  Oppdrag,
+  OppdragOverstyring,
+  OverstyrbartFelt,
+} from "@/types/innhold";
+
+// What most families need to change: the hiding spot, the answer and the text
+const BASIC_FIELDS: OverstyrbartFelt[] = [
+  "fysisk_hint",
+  "kode",
+  "alternative_koder",
+  "nissemail_tekst",
+];
+
+const TEXTAREA_FIELDS: OverstyrbartFelt[] = [
+  "nissemail_tekst",
+  "dagbokinnlegg",
+  "rampenissen_rampestrek",
+  "fysisk_hint",
+  "materialer_nødvendig",
+];
+
+const SELECT_OPTIONS: Partial<Record<OverstyrbartFelt, string[]>> = {
+  oppsett_tid: ["enkel", "moderat", "avansert"],
+  hint_type: [
+    "skrevet",
+    "visuell",
+    "gjemt_objekt",
+    "arrangement",
+    "spor",
+    "lyd",
+    "kombinasjon",
+  ],
+};
+
+type OverrideForm = Record<OverstyrbartFelt, string>;
+
+/**
+ * Form text for a field: lists are one item per line (codes comma-separated)
+ */
+function toFormValue(field: OverstyrbartFelt, value: unknown): string {
+  if (Array.isArray(value)) {
+    return value.join(field === "alternative_koder" ? ", " : "\n");
+  }
+  return typeof value === "string" ? value : "";
+}
+
+function toForm(override: OppdragOverstyring | undefined): OverrideForm {
+  return Object.fromEntries(
+    QUEST_OVERRIDE_FIELDS.map((field) => [
+      field,
+      toFormValue(field, override?.[field]),
+    ]),
+  ) as OverrideForm;
+}
+
+function fromForm(day: number, form: OverrideForm): OppdragOverstyring | null {
+  return sanitizeQuestOverride({
+    dag: day,
+    ...form,
+    alternative_koder: form.alternative_koder.split(","),
+    materialer_nødvendig: form.materialer_nødvendig.split("\n"),
+  } as OppdragOverstyring);
+}
+
+interface QuestOverrideEditorProps {
+  quest: Oppdrag; // The day as the family plays it, without overrides
+  familyQuests: Oppdrag[]; // All 24 days without overrides (for code checks)
+  overrides: OppdragOverstyring[];
+  onSaved: (overrides: OppdragOverstyring[]) => void;
+}
+
+export function QuestOverrideEditor({
+  quest,
+  familyQuests,
+  overrides,
+  onSaved,
+}: QuestOverrideEditorProps) {
+  const existing = getQuestOverride(quest.dag, overrides);
+  const [isOpen, setIsOpen] = useState(false);
+  const [form, setForm] = useState<OverrideForm>(() => toForm(existing));
+  const [wholeDay, setWholeDay] = useState(() =>
+    QUEST_OVERRIDE_FIELDS.some(
+      (field) => !BASIC_FIELDS.includes(field) && existing?.[field],
+    ),
+  );
+  const [isSaving, setIsSaving] = useState(false);
+  const [message, setMessage] = useState<{
+    type: "success" | "error";
+    text: string;
+  } | null>(null);
+
+  const storageBackend =
+    process.env.NEXT_PUBLIC_STORAGE_BACKEND || "localStorage";
+
+  const save = async (next: OppdragOverstyring[]) => {
+    setMessage(null);
+
+    const errors = collectQuestOverrideErrors(next, familyQuests);
+    if (errors.length > 0) {
+      setMessage({ type: "error", text: errors[0] });
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      if (storageBackend !== "localStorage") {
+        const response = await fetch("/api/auth/family", {
+          method: "PATCH",
+          headers: { "Content-Type": "application/json" },
+          credentials: "include",
+          body: JSON.stringify({ questOverrides: next }),
+        });
+
+        const data = await response.json();
+        if (!response.ok) {
+          throw new Error(
+            data.error || `Lagring mislyktes (${response.status})`,
+          );
+        }
+      }
+
+      // Apply right away when the guide runs on the kids' device
+      onSaved(setActiveQuestOverrides(next));
+      setMessage({ type: "success", text: "Endringene er lagret!" });
+    } catch (err) {
+      console.error("Failed to save quest overrides:", err);
+      setMessage({
+        type: "error",
+        text: err instanceof Error ? err.message : "Noe gikk galt ved lagring",
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const others = overrides.filter((o) => o.dag !== quest.dag);
+
+  const handleSave = () => {
+    const override = fromForm(
+      quest.dag,
+      wholeDay
+        ? form
+        : ({
+            ...toForm(undefined),
+            ...Object.fromEntries(BASIC_FIELDS.map((f) => [f, form[f]])),
+          } as OverrideForm),
+    );
+    save(override ? [...others, override] : others);
+  };
+
+  const handleReset = () => {
+    setForm(toForm(undefined));
+    setWholeDay(false);
+    save(others);
+  };
+
+  const fields = wholeDay ? QUEST_OVERRIDE_FIELDS : BASIC_FIELDS;
+
+  return (
+    <div className="border-4 border-(--cold-blue) bg-black/30 p-4">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="w-full flex items-center justify-between text-xl font-bold text-(--cold-blue)"
+      >
+        <span>✏️ TILPASS DAGEN</span>
+        <span className="text-sm opacity-70">
+          {existing ? "Tilpasset" : "Som skrevet"} ({isOpen ? "skjul" : "vis"})
+        </span>
+      </button>
+
+      {isOpen && (
+        <div className="mt-4 space-y-4 text-sm">
+          <p className="text-(--cold-blue)/80">
+            Finnes ikke gjemmestedet hjemme hos dere, eller kan barna svaret fra
+            før? Skriv inn det som skal gjelde for familien. Tomme felt beholder
+            originalen. Ny kode fjerner dagens hint fra Rampenissen.
+            {storageBackend === "localStorage" &&
+              " Endringene lagres kun på denne enheten."}
+          </p>
+
+          <label className="flex items-center gap-2 text-(--cold-blue)">
+            <input
+              type="checkbox"
+              checked={wholeDay}
+              onChange={(e) => setWholeDay(e.target.checked)}
+            />
+            Erstatt hele dagen (tittel, dagbok, rampestrek, materialer ...)
+          </label>
+
+          {fields.map((field) => {
+            const label = QUEST_OVERRIDE_FIELD_NAMES[field];
+            const original = toFormValue(field, quest[field]);
+            const inputClass =
+              "w-full px-3 py-2 bg-black border-2 border-(--cold-blue)/50 text-(--neon-green) focus:outline-none focus:border-(--gold)";
+            const onChange = (value: string) =>
+              setForm({ ...form, [field]: value });
+
+            return (
+              <div key={field}>
+                <label className="block mb-1 font-bold text-(--gold)">
+                  {label}
+                </label>
+                {SELECT_OPTIONS[field] ? (
+                  <select
+                    value={form[field]}
+                    onChange={(e) => onChange(e.target.value)}
+                    className={inputClass}
+                  >
+                    <option value="">Som skrevet ({original})</option>
+                    {SELECT_OPTIONS[field].map((option) => (
+                      <option key={option} value={option}>
+                        {option}
+                      </option>
+                    ))}
+                  </select>
+                ) : TEXTAREA_FIELDS.includes(field) ? (
+                  <textarea
+                    value={form[field]}
+                    onChange={(e) => onChange(e.target.value)}
+                    placeholder={original}
+                    maxLength={MAX_OVERRIDE_TEXT_LENGTH}
+                    rows={field === "nissemail_tekst" ? 6 : 3}
+                    className={inputClass}
+                  />
+                ) : (
+                  <input
+                    type="text"
+                    value={form[field]}
+                    onChange={(e) => onChange(e.target.value)}
+                    placeholder={original}
+                    maxLength={MAX_OVERRIDE_TEXT_LENGTH}
+                    className={`${inputClass} ${field === "kode" ? "uppercase font-mono" : ""}`}
+                  />
+                )}
+              </div>
+            );
+          })}
+
+          {message && (
+            <div
+              className={`border-2 p-3 ${
+                message.type === "success"
+                  ? "border-(--gold) text-(--gold)"
+                  : "border-(--christmas-red) text-(--christmas-red)"
+              }`}
+            >
+              {message.type === "success" ? "✓" : "⚠️"} {message.text}
+            </div>
+          )}
+
+          <div className="flex gap-3">
+            <button
+              onClick={handleSave}
+              disabled={isSaving}
+              className="flex-1 px-4 py-2 border-2 border-(--gold) bg-(--gold) text-black font-bold disabled:opacity-50"
+            >
+              {isSaving ? "LAGRER..." : "LAGRE"}
+            </button>
+            {existing && (
+              <button
+                onClick={handleReset}
+                disabled={isSaving}
+                className="px-4 py-2 border-2 border-(--christmas-red) text-(--christmas-red) hover:bg-(--christmas-red)/20 disabled:opacity-50"
+              >
+                TILBAKESTILL
+              </button>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
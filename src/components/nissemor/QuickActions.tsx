@@ -3,7 +3,8 @@
 import { useMemo, useEffect, useState } from "react";
 import { useRouter } from "next/navigation";
 import { GameEngine } from "@/lib/game-engine";
-import { getCurrentDay, getCurrentMonth } from "@/lib/date-utils";
+import { subscribeToSessionEvents } from "@/lib/live-progress";
+import { getCurrentDay } from "@/lib/date-utils";
 import { Icon } from "@/lib/icons";
 
 interface QuickActionsProps {
@@ -13,8 +14,7 @@ interface QuickActionsProps {
 export function QuickActions({ refreshCounter = 0 }: QuickActionsProps) {
   const router = useRouter();
   const currentDay = getCurrentDay();
-  const currentMonth = getCurrentMonth();
-  const isDecember = currentMonth === 12;
+  const isCalendarRunning = currentDay >= 1 && currentDay <= 24;
 
   const [internalRefreshKey, setInternalRefreshKey] = useState(0);
 
@@ -29,7 +29,18 @@ export function QuickActions({ refreshCounter = 0 }: QuickActionsProps) {
     };
 
     window.addEventListener("storage", handleStorageChange);
-    return () => window.removeEventListener("storage", handleStorageChange);
+
+    // Progress from the kids' other devices (server backends)
+    const unsubscribe = subscribeToSessionEvents((event) => {
+      if (event.type === "session-updated") {
+        setInternalRefreshKey((prev) => prev + 1);
+      }
+    });
+
+    return () => {
+      window.removeEventListener("storage", handleStorageChange);
+      unsubscribe();
+    };
   }, []);
 
   // Combine external refreshCounter with internal storage listener
@@ -54,15 +65,14 @@ export function QuickActions({ refreshCounter = 0 }: QuickActionsProps) {
     {
       icon: "calendar" as const,
       iconColor: "green" as const,
-      label:
-        isDecember && currentDay >= 1 && currentDay <= 24
-          ? `Dagens oppdrag (${currentDay}. des)`
-          : "Dagens oppdrag",
+      label: isCalendarRunning
+        ? `Dagens oppdrag (dag ${currentDay})`
+        : "Dagens oppdrag",
       description: "Se detaljer og forbered dagens oppsett",
       onClick: () => router.push("/nissemor-guide/oppdrag"),
       color:
         "border-(--neon-green) bg-(--neon-green)/5 hover:bg-(--neon-green)/10",
-      disabled: !isDecember || currentDay < 1 || currentDay > 24,
+      disabled: !isCalendarRunning,
     },
     {
       icon: "key" as const,
@@ -128,7 +138,7 @@ export function QuickActions({ refreshCounter = 0 }: QuickActionsProps) {
         ))}
       </div>
 
-      {quickStats.currentDayCompleted && isDecember && (
+      {quickStats.currentDayCompleted && isCalendarRunning && (
         <div className="mt-4 text-center text-(--gold) text-sm animate-[gold-flash_2s_ease-in-out_infinite]">
           ✓ Dagens oppdrag fullført!
         </div>
@@ -3,6 +3,7 @@
 import { useMemo, useEffect, useState } from "react";
 import Link from "next/link";
 import { GameEngine } from "@/lib/game-engine";
+import { subscribeToSessionEvents } from "@/lib/live-progress";
 import { BadgeManager } from "@/lib/badge-system";
 import { getEventyrProgress } from "@/lib/eventyr";
 import { Icon } from "@/lib/icons";
@@ -25,7 +26,18 @@ export function StatsDashboard({ refreshCounter = 0 }: StatsDashboardProps) {
     };
 
     window.addEventListener("storage", handleStorageChange);
-    return () => window.removeEventListener("storage", handleStorageChange);
+
+    // Progress from the kids' other devices (server backends)
+    const unsubscribe = subscribeToSessionEvents((event) => {
+      if (event.type === "session-updated") {
+        setInternalRefreshKey((prev) => prev + 1);
+      }
+    });
+
+    return () => {
+      window.removeEventListener("storage", handleStorageChange);
+      unsubscribe();
+    };
   }, []);
 
   // Combine external refreshCounter with internal storage listener
@@ -274,10 +286,11 @@ export function StatsDashboard({ refreshCounter = 0 }: StatsDashboardProps) {
             </div>
             <div className="flex gap-2 justify-center">
               <div
-                className={`border-2 p-2 flex-1 text-center text-xs ${progression.bonusOppdrag.completed >= 1
+                className={`border-2 p-2 flex-1 text-center text-xs ${
+                  progression.bonusOppdrag.completed >= 1
                     ? "border-(--neon-green) bg-(--neon-green)/10"
                     : "border-gray-600 bg-gray-600/10 opacity-50"
-                  }`}
+                }`}
               >
                 <div className="font-bold mb-1">
                   {progression.bonusOppdrag.completed >= 1 ? "✓" : "🔒"}
@@ -286,10 +299,11 @@ export function StatsDashboard({ refreshCounter = 0 }: StatsDashboardProps) {
                 <div className="text-xs opacity-70">(Dag 11)</div>
               </div>
               <div
-                className={`border-2 p-2 flex-1 text-center text-xs ${progression.bonusOppdrag.completed >= 2
+                className={`border-2 p-2 flex-1 text-center text-xs ${
+                  progression.bonusOppdrag.completed >= 2
                     ? "border-(--neon-green) bg-(--neon-green)/10"
                     : "border-gray-600 bg-gray-600/10 opacity-50"
-                  }`}
+                }`}
               >
                 <div className="font-bold mb-1">
                   {progression.bonusOppdrag.completed >= 2 ? "✓" : "🔒"}
@@ -315,10 +329,11 @@ export function StatsDashboard({ refreshCounter = 0 }: StatsDashboardProps) {
             </div>
             <div className="flex gap-2 justify-center">
               <div
-                className={`border-2 p-2 flex-1 text-center text-xs ${solvedDecryptions.includes("decryption-1")
+                className={`border-2 p-2 flex-1 text-center text-xs ${
+                  solvedDecryptions.includes("decryption-1")
                     ? "border-(--neon-green) bg-(--neon-green)/10"
                     : "border-gray-600 bg-gray-600/10 opacity-50"
-                  }`}
+                }`}
               >
                 <div className="font-bold mb-1">
                   {solvedDecryptions.includes("decryption-1") ? "✓" : "🔒"}
@@ -327,10 +342,11 @@ export function StatsDashboard({ refreshCounter = 0 }: StatsDashboardProps) {
                 <div className="text-xs opacity-70">(Dag 9)</div>
               </div>
               <div
-                className={`border-2 p-2 flex-1 text-center text-xs ${solvedDecryptions.includes("decryption-2")
+                className={`border-2 p-2 flex-1 text-center text-xs ${
+                  solvedDecryptions.includes("decryption-2")
                     ? "border-(--neon-green) bg-(--neon-green)/10"
                     : "border-gray-600 bg-gray-600/10 opacity-50"
-                  }`}
+                }`}
               >
                 <div className="font-bold mb-1">
                   {solvedDecryptions.includes("decryption-2") ? "✓" : "🔒"}
@@ -339,10 +355,11 @@ export function StatsDashboard({ refreshCounter = 0 }: StatsDashboardProps) {
                 <div className="text-xs opacity-70">(Dag 15)</div>
               </div>
               <div
-                className={`border-2 p-2 flex-1 text-center text-xs ${solvedDecryptions.includes("decryption-3")
+                className={`border-2 p-2 flex-1 text-center text-xs ${
+                  solvedDecryptions.includes("decryption-3")
                     ? "border-(--neon-green) bg-(--neon-green)/10"
                     : "border-gray-600 bg-gray-600/10 opacity-50"
-                  }`}
+                }`}
               >
                 <div className="font-bold mb-1">
                   {solvedDecryptions.includes("decryption-3") ? "✓" : "🔒"}
@@ -3,6 +3,7 @@
 import { useMemo, useEffect, useState } from "react";
 import { GameEngine } from "@/lib/game-engine";
 import { getAllEventyr, getEventyrDays, getEventyr } from "@/lib/eventyr";
+import { subscribeToSessionEvents } from "@/lib/live-progress";
 
 interface TimelineViewProps {
   selectedDay: number;
@@ -23,8 +24,12 @@ interface TimelineEvent {
   hasDecryption: boolean;
   decryptionSolved: boolean;
   eventyrPhases: EventyrPhaseInfo[];
+  history: Array<{ id: string; at: string; icon: string; text: string }>;
 }
 
+// Latest event log entries shown per day in the tooltip
+const MAX_HISTORY_PER_DAY = 5;
+
 interface EventyrPhaseInfo {
   eventyrId: string;
   eventyrName: string;
@@ -59,7 +64,18 @@ export function TimelineView({ selectedDay, onSelectDay }: TimelineViewProps) {
     };
 
     window.addEventListener("storage", handleStorageChange);
-    return () => window.removeEventListener("storage", handleStorageChange);
+
+    // Progress from the kids' other devices (server backends)
+    const unsubscribe = subscribeToSessionEvents((event) => {
+      if (event.type === "session-updated") {
+        setRefreshKey((prev) => prev + 1);
+      }
+    });
+
+    return () => {
+      window.removeEventListener("storage", handleStorageChange);
+      unsubscribe();
+    };
   }, []);
 
   // Scroll selected day into view
@@ -81,6 +97,16 @@ export function TimelineView({ selectedDay, onSelectDay }: TimelineViewProps) {
     const gameState = GameEngine.loadGameState();
     const collectedSymbols = GameEngine.getCollectedSymbols();
 
+    // Event log grouped by the day each event belongs to
+    const historyByDay = new Map<number, TimelineEvent["history"]>();
+    GameEngine.getGameEventLog().forEach((logEvent) => {
+      const { icon, text, day } = GameEngine.describeGameEvent(logEvent);
+      if (day === undefined) return;
+      const history = historyByDay.get(day) ?? [];
+      history.push({ id: logEvent.id, at: logEvent.at, icon, text });
+      historyByDay.set(day, history);
+    });
+
     return quests.map((quest): TimelineEvent => {
       const isCompleted = gameState.completedQuests.has(quest.dag);
       const isAccessible = GameEngine.isMissionAccessible(quest.dag);
@@ -129,6 +155,9 @@ export function TimelineView({ selectedDay, onSelectDay }: TimelineViewProps) {
             )
           : false,
         eventyrPhases,
+        history: (historyByDay.get(quest.dag) ?? []).slice(
+          -MAX_HISTORY_PER_DAY,
+        ),
       };
     });
     // eslint-disable-next-line react-hooks/exhaustive-deps
@@ -463,6 +492,25 @@ export function TimelineView({ selectedDay, onSelectDay }: TimelineViewProps) {
                       </div>
                     ))}
 
+                    {event.history.length > 0 && (
+                      <div className="mt-2 pt-2 border-t border-(--neon-green)/30 space-y-0.5">
+                        <div className="text-(--gold)">📜 Logg:</div>
+                        {event.history.map((entry) => (
+                          <div key={entry.id} className="text-xs">
+                            <span className="opacity-60">
+                              {new Date(entry.at).toLocaleString("nb-NO", {
+                                day: "numeric",
+                                month: "short",
+                                hour: "2-digit",
+                                minute: "2-digit",
+                              })}
+                            </span>{" "}
+                            {entry.icon} {entry.text}
+                          </div>
+                        ))}
+                      </div>
+                    )}
+
                     <div className="mt-2 pt-2 border-t border-(--neon-green)/30">
                       Status:{" "}
                       {event.isCompleted ? (
@@ -1,39 +1,67 @@
 "use client";
 
-import { useEffect, useState } from "react";
+import { useEffect, useRef, useState } from "react";
+import type { HydrationState } from "@/lib/storage-adapter";
 
 interface BootSequenceProps {
   onComplete: () => void;
   duration?: number; // Duration in seconds
+  hydration?: HydrationState; // Game state loading; boot finishes once "ready"
+  onRetry?: () => void; // Shown when hydration failed
+  onContinueOffline?: () => void; // Play on with this device's progress only
 }
 
-export function BootSequence({ onComplete, duration = 2 }: BootSequenceProps) {
-  const [progress, setProgress] = useState(0);
+export function BootSequence({
+  onComplete,
+  duration = 2,
+  hydration = "ready",
+  onRetry,
+  onContinueOffline,
+}: BootSequenceProps) {
+  const [progress, setProgress] = useState(duration === 0 ? 100 : 0);
+  const animationDone = progress >= 100;
 
+  // Parents pass a new callback each render; don't restart the timer for it
+  const onCompleteRef = useRef(onComplete);
   useEffect(() => {
-    if (duration === 0) {
-      onComplete();
-      return;
-    }
+    onCompleteRef.current = onComplete;
+  }, [onComplete]);
+
+  useEffect(() => {
+    if (duration === 0) return;
 
     const interval = setInterval(() => {
       setProgress((prev) => {
         if (prev >= 100) {
           clearInterval(interval);
-          setTimeout(onComplete, 300);
           return 100;
         }
-        return prev + 100 / (duration * 10);
+        return Math.min(100, prev + 100 / (duration * 10));
       });
     }, 100);
 
     return () => clearInterval(interval);
-  }, [duration, onComplete]);
+  }, [duration]);
+
+  // Finish when both the animation and the game state are done
+  useEffect(() => {
+    if (!animationDone || hydration !== "ready") return;
 
-  if (duration === 0) {
+    const timeout = setTimeout(
+      () => onCompleteRef.current(),
+      duration === 0 ? 0 : 300,
+    );
+    return () => clearTimeout(timeout);
+  }, [animationDone, hydration, duration]);
+
+  if (duration === 0 && hydration === "ready") {
     return null;
   }
 
+  // Hold just short of the end while waiting for the game state
+  const shownProgress =
+    hydration === "ready" ? progress : Math.min(progress, 99);
+
   return (
     <div
       className="fixed inset-0 bg-(--crt-bg) flex items-center justify-center z-50"
@@ -43,21 +71,55 @@ export function BootSequence({ onComplete, duration = 2 }: BootSequenceProps) {
         {/* Boot message */}
         <div className="text-(--neon-green) text-2xl tracking-wider font-mono text-center">
           <div className="mb-2">ENISSEKJERNE 3.8]</div>
-          <div className="text-lg">LASTER...</div>
+          <div className="text-lg">
+            {hydration === "error"
+              ? "FORBINDELSEN TIL NORDPOLEN FEILET"
+              : animationDone && hydration === "hydrating"
+                ? "HENTER OPPDRAGSDATA FRA NORDPOLEN..."
+                : "LASTER..."}
+          </div>
         </div>
 
-        {/* Progress bar */}
-        <div className="w-full h-8 border-4 border-(--neon-green) bg-black">
-          <div
-            className="h-full bg-(--neon-green) transition-all duration-100"
-            style={{ width: `${progress}%` }}
-          />
-        </div>
+        {hydration === "error" ? (
+          <div className="border-4 border-(--christmas-red) p-4 space-y-4 text-center">
+            <p className="text-(--christmas-red) text-lg">
+              Fremgangen deres kunne ikke lastes. Sjekk nettet og prøv igjen.
+            </p>
+            <div className="flex flex-wrap justify-center gap-3">
+              {onRetry && (
+                <button
+                  onClick={onRetry}
+                  className="px-6 py-2 border-4 border-(--neon-green) text-(--neon-green) text-xl hover:bg-(--neon-green) hover:text-black transition-colors"
+                >
+                  PRØV IGJEN
+                </button>
+              )}
+              {onContinueOffline && (
+                <button
+                  onClick={onContinueOffline}
+                  className="px-6 py-2 border-4 border-(--neon-green)/50 text-(--neon-green)/70 text-xl hover:border-(--neon-green) hover:text-(--neon-green) transition-colors"
+                >
+                  FORTSETT UTEN NETT
+                </button>
+              )}
+            </div>
+          </div>
+        ) : (
+          <>
+            {/* Progress bar */}
+            <div className="w-full h-8 border-4 border-(--neon-green) bg-black">
+              <div
+                className="h-full bg-(--neon-green) transition-all duration-100"
+                style={{ width: `${shownProgress}%` }}
+              />
+            </div>
 
-        {/* Progress percentage */}
-        <div className="text-(--neon-green) text-xl text-center tracking-wider">
-          {Math.floor(progress)}%
-        </div>
+            {/* Progress percentage */}
+            <div className="text-(--neon-green) text-xl text-center tracking-wider">
+              {Math.floor(shownProgress)}%
+            </div>
+          </>
+        )}
       </div>
     </div>
   );
@@ -0,0 +1,65 @@
+"use client";
+
+import { Icons } from "@/lib/icons";
+import { SoundManager } from "@/lib/sounds";
+import { t } from "@/lib/i18n";
+import { SHARED_PROFILE_ID } from "@/lib/child-profiles";
+import type { Barneprofil } from "@/types/innhold";
+
+interface ProfilePickerProps {
+  profiles: Barneprofil[];
+  onSelect: (profileId: string) => void;
+}
+
+/**
+ * "HVEM SPILLER?" - shown after boot in families with several children
+ * Each child plays with their own codes, badges and symbols; ALLE SAMMEN
+ * is the family's shared game state for days solved together
+ * (see child-profiles.ts)
+ */
+export function ProfilePicker({ profiles, onSelect }: ProfilePickerProps) {
+  const handleSelect = (profileId: string) => {
+    SoundManager.playSound("click");
+    onSelect(profileId);
+  };
+
+  return (
+    <div className="flex items-center justify-center h-full p-4">
+      <div className="w-full max-w-2xl border-8 border-(--gold) bg-black p-8 space-y-6">
+        <div className="text-center space-y-2 pb-4 border-b-4 border-(--gold)/30">
+          <div className="flex items-center justify-center gap-3">
+            <Icons.Star size={32} color="gold" />
+            <div className="text-3xl font-bold text-(--gold) tracking-wider">
+              {t("profilvelger.overskrift")}
+            </div>
+          </div>
+          <div className="text-(--neon-green) text-lg">
+            {t("profilvelger.undertittel")}
+          </div>
+        </div>
+
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+          {profiles.map((profile) => (
+            <button
+              key={profile.id}
+              onClick={() => handleSelect(profile.id)}
+              className="p-4 border-4 border-(--neon-green) text-2xl font-bold text-(--neon-green) uppercase hover:bg-(--neon-green)/20 hover:border-(--gold) hover:text-(--gold)"
+            >
+              {profile.navn}
+            </button>
+          ))}
+        </div>
+
+        <button
+          onClick={() => handleSelect(SHARED_PROFILE_ID)}
+          className="w-full p-4 border-4 border-(--cold-blue) text-2xl font-bold text-(--cold-blue) uppercase hover:bg-(--cold-blue)/20"
+        >
+          {t("profilvelger.alleSammen")}
+          <div className="text-sm font-normal opacity-70 normal-case">
+            {t("profilvelger.alleSammenBeskrivelse")}
+          </div>
+        </button>
+      </div>
+    </div>
+  );
+}
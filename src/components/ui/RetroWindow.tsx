@@ -3,6 +3,7 @@
 import { ReactNode } from "react";
 import { Icons } from "@/lib/icons";
 import { SoundManager } from "@/lib/sounds";
+import { t } from "@/lib/i18n";
 
 interface RetroWindowProps {
   title: string;
@@ -30,7 +31,7 @@ export function RetroWindow({ title, children, onClose }: RetroWindowProps) {
               onClose();
             }}
             className="w-12 h-12 flex items-center justify-center bg-red-800 hover:bg-red-900 active:bg-red-950 border-2 border-black transition-colors"
-            aria-label="Lukk"
+            aria-label={t("vindu.lukk")}
           >
             <Icons.Close size={24} color="gray" />
           </button>
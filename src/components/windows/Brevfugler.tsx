@@ -5,6 +5,7 @@ import { RetroWindow } from "../ui/RetroWindow";
 import { Icons } from "@/lib/icons";
 import { StorageManager } from "@/lib/storage";
 import { GameEngine } from "@/lib/game-engine";
+import { t } from "@/lib/i18n";
 
 interface Letter {
   day: number;
@@ -63,7 +64,7 @@ export function Brevfugler({ onClose }: BrevfuglerProps) {
     : null;
 
   return (
-    <RetroWindow title="BREVFUGLER - DIREKTEPOST FRA JULIUS" onClose={onClose}>
+    <RetroWindow title={t("vindu.brevfugler")} onClose={onClose}>
       <div className="p-6 h-full overflow-y-auto space-y-6">
         {/* Header */}
         <div className="flex items-center gap-4 pb-4 border-b-4 border-(--neon-green)/30">
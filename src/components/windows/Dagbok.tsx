@@ -8,6 +8,7 @@ import { GameEngine } from "@/lib/game-engine";
 import { getEventyr } from "@/lib/eventyr";
 import { trackEvent } from "@/lib/analytics";
 import { resolveTemplate } from "@/lib/template-resolver";
+import { t } from "@/lib/i18n";
 
 interface DagbokProps {
   missions: Oppdrag[];
@@ -122,7 +123,7 @@ export function Dagbok({ missions, onClose }: DagbokProps) {
   );
 
   return (
-    <RetroWindow title="JULIUS' DAGBOK" onClose={onClose}>
+    <RetroWindow title={t("vindu.dagbok")} onClose={onClose}>
       <div
         ref={containerRef}
         className="h-full overflow-y-auto p-4 md:p-6 lg:p-8 space-y-6"
@@ -7,6 +7,7 @@ import { getAllEventyr, getEventyrDays } from "@/lib/eventyr";
 import { BadgeManager } from "@/lib/badge-system";
 import { useState, useEffect } from "react";
 import type { Eventyr } from "@/types/innhold";
+import { t } from "@/lib/i18n";
 
 interface EventyrOversiktProps {
   onClose: () => void;
@@ -98,7 +99,7 @@ export function EventyrOversikt({ onClose }: EventyrOversiktProps) {
   };
 
   return (
-    <RetroWindow title="EVENTYR-OVERSIKT" onClose={onClose}>
+    <RetroWindow title={t("vindu.eventyroversikt")} onClose={onClose}>
       <div className="p-6 h-full overflow-y-auto space-y-6">
         {/* Header */}
         <div className="flex items-center gap-4 pb-4 border-b-4 border-(--neon-green)/30">
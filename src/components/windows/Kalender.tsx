@@ -5,9 +5,11 @@ import { RetroWindow } from "../ui/RetroWindow";
 import { RetroModal } from "../ui/RetroModal";
 import { Icons } from "@/lib/icons";
 import { GameEngine } from "@/lib/game-engine";
-import { getCurrentDay, getCurrentMonth } from "@/lib/date-utils";
+import { isDayUnlocked } from "@/lib/date-utils";
 import { getEventyr } from "@/lib/eventyr";
 import { trackEvent } from "@/lib/analytics";
+import { t } from "@/lib/i18n";
+import { getSeasonPack } from "@/lib/season-packs";
 import type { Oppdrag, CalendarEvent } from "@/types/innhold";
 
 interface KalenderProps {
@@ -74,22 +76,8 @@ export function Kalender({
     [customCalendarEvents, missions],
   );
 
-  const isDayLocked = (day: number) => {
-    const currentDay = getCurrentDay();
-    const month = getCurrentMonth();
-
-    // In test mode, allow all days
-    if (process.env.NEXT_PUBLIC_TEST_MODE === "true") {
-      return false;
-    }
-
-    // Lock future days in December
-    if (month === 12 && day > currentDay) {
-      return true;
-    }
-
-    return false;
-  };
+  // Future days stay locked until the family's calendar reaches them
+  const isDayLocked = (day: number) => !isDayUnlocked(day);
 
   const getDayStatus = (day: number): "locked" | "available" | "completed" => {
     if (completedDays.has(day)) return "completed";
@@ -111,17 +99,17 @@ export function Kalender({
 
   return (
     <>
-      <RetroWindow title="KALENDER" onClose={onClose}>
+      <RetroWindow title={t("vindu.kalender")} onClose={onClose}>
         <div className="p-6 space-y-4 h-full overflow-y-auto">
           {/* Header */}
           <div className="flex items-center gap-4 pb-4 border-b-4 border-(--neon-green)/30">
             <Icons.Calendar size={32} color="gold" />
             <div>
               <div className="text-2xl font-bold tracking-wider">
-                DESEMBER 2025
+                {t("kalender.maned", { år: getSeasonPack().manifest.år })}
               </div>
               <div className="text-sm opacity-70">
-                JULEKALENDER - 24 OPPDRAG
+                {t("kalender.undertittel")}
               </div>
             </div>
           </div>
@@ -196,15 +184,15 @@ export function Kalender({
           <div className="flex items-center justify-center gap-6 text-xs py-4 border-t-2 border-(--neon-green)/30">
             <div className="flex items-center gap-2">
               <div className="w-4 h-4 border-2 border-(--gray) bg-black/30" />
-              <span className="opacity-70">Låst</span>
+              <span className="opacity-70">{t("kalender.last")}</span>
             </div>
             <div className="flex items-center gap-2">
               <div className="w-4 h-4 border-2 border-(--neon-green) bg-(--neon-green)/10" />
-              <span className="opacity-70">Tilgjengelig</span>
+              <span className="opacity-70">{t("kalender.tilgjengelig")}</span>
             </div>
             <div className="flex items-center gap-2">
               <div className="w-4 h-4 border-2 border-(--gold) bg-(--gold)/20" />
-              <span className="opacity-70">Fullført</span>
+              <span className="opacity-70">{t("kalender.fullfort")}</span>
             </div>
           </div>
         </div>
@@ -213,7 +201,10 @@ export function Kalender({
       {/* Day detail modal */}
       {selectedDay && selectedMission && (
         <RetroModal
-          title={`DAG ${selectedDay} - ${selectedMission.tittel}`}
+          title={t("kalender.dagTittel", {
+            dag: selectedDay,
+            tittel: selectedMission.tittel,
+          })}
           onClose={() => setSelectedDay(null)}
         >
           <div className="space-y-4">
@@ -244,8 +235,10 @@ export function Kalender({
                       </span>
                     </div>
                     <div className="text-xs opacity-80">
-                      Dette oppdraget er en del av eventyret "{eventyr.navn}"
-                      (Fase {selectedMission.eventyr.phase})
+                      {t("kalender.delAvEventyr", {
+                        eventyr: eventyr.navn,
+                        fase: selectedMission.eventyr.phase,
+                      })}
                     </div>
                   </div>
                 );
@@ -260,7 +253,7 @@ export function Kalender({
                   <div className="flex items-center gap-2 mb-2">
                     <Icons.Alert size={16} color="blue" />
                     <span className="text-sm font-bold text-(--cold-blue)">
-                      HENDELSE
+                      {t("kalender.hendelse")}
                     </span>
                   </div>
                   <div className="text-sm text-(--cold-blue)">{hendelse}</div>
@@ -282,7 +275,7 @@ export function Kalender({
                 }}
                 className="flex-1 px-4 py-3 bg-(--neon-green) text-black font-bold border-4 border-(--neon-green) hover:bg-transparent hover:text-(--neon-green) transition-colors"
               >
-                VIS OPPDRAG
+                {t("kalender.visOppdrag")}
               </button>
             </div>
           </div>
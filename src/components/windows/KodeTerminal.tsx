@@ -1,17 +1,24 @@
 "use client";
 
-import { useState } from "react";
+import { useEffect, useState } from "react";
 import { RetroWindow } from "../ui/RetroWindow";
 import { Icons } from "@/lib/icons";
 import { Oppdrag, InnsendelseLog } from "@/types/innhold";
 import { SoundManager } from "@/lib/sounds";
 import { GameEngine } from "@/lib/game-engine";
-import { getISOString } from "@/lib/date-utils";
-import { trackEvent, trackCodeSubmission } from "@/lib/analytics";
+import {
+  trackEvent,
+  trackCodeNearMiss,
+  trackCodeSubmission,
+} from "@/lib/analytics";
+import { getDateLocale, t } from "@/lib/i18n";
+import { getActiveHintMode } from "@/lib/hint-ladder";
+
+// How often to check for time-based hints while the terminal is open
+const HINT_CHECK_INTERVAL_MS = 30_000;
 
 interface KodeTerminalProps {
   onClose: () => void;
-  expectedCode: string;
   currentDay: number;
   allMissions: Oppdrag[];
   onCodeSubmitted?: () => void;
@@ -19,14 +26,15 @@ interface KodeTerminalProps {
 
 export function KodeTerminal({
   onClose,
-  expectedCode,
   currentDay,
   allMissions,
   onCodeSubmitted,
 }: KodeTerminalProps) {
   const [code, setCode] = useState("");
   const [processing, setProcessing] = useState(false);
-  const [feedback, setFeedback] = useState<"success" | "error" | null>(null);
+  const [feedback, setFeedback] = useState<
+    "success" | "error" | "nearMiss" | null
+  >(null);
   const [unlockedContent, setUnlockedContent] = useState<{
     files: string[];
     symbols: Array<{
@@ -55,12 +63,34 @@ export function KodeTerminal({
     return 0;
   });
 
+  // Re-render periodically so time-based hints show up without a new attempt
+  const [, setHintClock] = useState(0);
+
+  const quest = allMissions.find((m) => m.dag === currentDay);
+  const hintsEnabled = getActiveHintMode() !== "av";
+  const hintLadder =
+    typeof window !== "undefined" && quest && !isAlreadySolved
+      ? GameEngine.getHintLadder(quest)
+      : null;
+  const waitingForTimedHint = hintLadder?.next?.minutesLeft !== undefined;
+
+  useEffect(() => {
+    if (!waitingForTimedHint) return;
+    const interval = setInterval(
+      () => setHintClock((tick) => tick + 1),
+      HINT_CHECK_INTERVAL_MS,
+    );
+    return () => clearInterval(interval);
+  }, [waitingForTimedHint]);
+
   // Get the solved code for display if already solved
   const solvedCode = (() => {
     if (typeof window !== "undefined" && isAlreadySolved) {
       const codes = GameEngine.getSubmittedCodes();
       const dayMission = allMissions.find((m) => m.dag === currentDay);
-      const entry = codes.find((c) => c.kode === dayMission?.kode);
+      const entry =
+        codes.find((c) => c.day === currentDay) ??
+        codes.find((c) => c.kode === dayMission?.kode);
       return entry?.kode || "";
     }
     return "";
@@ -79,8 +109,8 @@ export function KodeTerminal({
     // Simulate processing delay
     await new Promise((resolve) => setTimeout(resolve, 1500));
 
-    // Submit code through GameEngine (now async to handle placeholders)
-    const result = await GameEngine.submitCode(code, expectedCode, currentDay);
+    // Checked by the code validator - the answer isn't in the browser
+    const result = await GameEngine.submitQuestCode(code, currentDay);
 
     if (result.success) {
       // Success!
@@ -98,13 +128,8 @@ export function KodeTerminal({
           attempts: currentAttempts,
         });
 
-        // Update local state
-        const newEntry: InnsendelseLog = {
-          kode: code.trim().toUpperCase(),
-          dato: getISOString(),
-        };
-        const updated = [...submittedCodes, newEntry];
-        setSubmittedCodes(updated);
+        // Update local state (the stored entry uses the quest's spelling)
+        setSubmittedCodes(GameEngine.getSubmittedCodes());
 
         // Mark as solved
         setIsAlreadySolved(true);
@@ -130,6 +155,11 @@ export function KodeTerminal({
       }
 
       setCode("");
+    } else if (result.nearMiss) {
+      // Typo - nudge the kids without counting a failed attempt
+      setFeedback("nearMiss");
+      SoundManager.playSound("click");
+      trackCodeNearMiss(currentDay);
     } else {
       // Error - update failed attempts
       setFeedback("error");
@@ -153,23 +183,25 @@ export function KodeTerminal({
   };
 
   return (
-    <RetroWindow title="KODETERMINAL" onClose={onClose}>
+    <RetroWindow title={t("vindu.kodeterminal")} onClose={onClose}>
       <div className="p-6 h-full overflow-y-auto space-y-6">
         {/* Header */}
         <div className="flex items-center gap-4 pb-4 border-b-4 border-(--neon-green)/30">
           <Icons.Code size={32} color="blue" />
           <div className="flex-1">
             <div className="text-2xl font-bold tracking-wider">
-              TERMINAL TILGANG
+              {t("kodeterminal.overskrift")}
             </div>
             <div className="text-sm opacity-70">
-              SKRIV INN KODE FOR DAG {currentDay}
+              {t("kodeterminal.skrivInnKode", { dag: currentDay })}
             </div>
           </div>
           {isAlreadySolved && (
             <div className="flex items-center gap-2 px-4 py-2 border-2 border-(--gold) bg-(--gold)/20 text-(--gold)">
               <Icons.CheckCircle size={20} color="gold" />
-              <span className="text-sm font-bold">LØST</span>
+              <span className="text-sm font-bold">
+                {t("kodeterminal.lost")}
+              </span>
             </div>
           )}
         </div>
@@ -193,7 +225,9 @@ export function KodeTerminal({
                       ? "border-(--gold)"
                       : feedback === "error"
                         ? "border-(--christmas-red)"
-                        : "border-(--neon-green) focus:shadow-[0_0_20px_rgba(0,255,0,0.5)]"
+                        : feedback === "nearMiss"
+                          ? "border-(--cold-blue)"
+                          : "border-(--neon-green) focus:shadow-[0_0_20px_rgba(0,255,0,0.5)]"
                 }
                 ${isAlreadySolved ? "cursor-not-allowed" : ""}
               `}
@@ -222,7 +256,9 @@ export function KodeTerminal({
                   ? "bg-(--gold) border-(--gold) text-black"
                   : feedback === "error"
                     ? "bg-(--christmas-red) border-(--christmas-red) text-white"
-                    : "bg-(--cold-blue) border-(--cold-blue) text-black hover:bg-transparent hover:text-(--cold-blue)"
+                    : feedback === "nearMiss"
+                      ? "bg-transparent border-(--cold-blue) text-(--cold-blue)"
+                      : "bg-(--cold-blue) border-(--cold-blue) text-black hover:bg-transparent hover:text-(--cold-blue)"
               }
               disabled:opacity-50 disabled:cursor-not-allowed
             `}
@@ -236,61 +272,117 @@ export function KodeTerminal({
             }}
           >
             {processing ? (
-              "SJEKKER......"
+              t("kodeterminal.sjekker")
             ) : isAlreadySolved ? (
-              "RIKTIG LØSNING"
+              t("kodeterminal.riktigLosning")
             ) : feedback === "success" ? (
               <span className="flex items-center justify-center gap-2">
                 <Icons.CheckCircle size={24} color="gray" />
-                KODE AKSEPTERT!
+                {t("kodeterminal.kodeAkseptert")}
               </span>
             ) : feedback === "error" ? (
               <span className="flex items-center justify-center gap-2">
                 <Icons.Alert size={24} color="gray" />
-                FEIL KODE - PRØV IGJEN
+                {t("kodeterminal.feilKode")}
+              </span>
+            ) : feedback === "nearMiss" ? (
+              <span className="flex items-center justify-center gap-2">
+                <Icons.Alert size={24} color="blue" />
+                {t("kodeterminal.nesten")}
               </span>
             ) : (
-              "SEND"
+              t("kodeterminal.send")
             )}
           </button>
         </form>
 
-        {/* Julius' terminal note after 3 failed attempts */}
-        {failedAttempts >= 3 && !isAlreadySolved && (
+        {/* Hint ladder: messages from Rampenissen as attempts/time add up */}
+        {hintLadder && hintLadder.total > 0 && (
           <div className="space-y-3">
-            <div className="p-4 border-2 border-(--cold-blue) bg-(--cold-blue)/10 text-(--cold-blue)">
-              <div className="flex items-start gap-3">
-                <Icons.BookOpen
-                  size={24}
-                  color="blue"
-                  className="mt-1 shrink-0"
-                />
-                <div className="space-y-2">
-                  <div className="text-sm font-bold">TIPS FRA JULIUS:</div>
-                  <div className="text-sm leading-relaxed">
-                    Sjekk DAGBOK-modulen! Julius skriver daglige notater som kan
-                    inneholde ledetråder til dagens oppgave. Kombinert med
-                    fysiske hint hjemme, finner du løsningen!
+            {hintLadder.unlocked.map((hint, index) => (
+              <div
+                key={index}
+                className="p-4 border-2 border-(--gold) bg-(--gold)/10 text-(--gold)"
+              >
+                <div className="flex items-start gap-3">
+                  <Icons.Mail
+                    size={24}
+                    color="gold"
+                    className="mt-1 shrink-0"
+                  />
+                  <div className="space-y-2">
+                    <div className="text-sm font-bold">
+                      {t("kodeterminal.hintOverskrift", {
+                        nummer: index + 1,
+                        antall: hintLadder.total,
+                      })}
+                    </div>
+                    <div className="text-sm leading-relaxed whitespace-pre-line">
+                      {hint.tekst}
+                    </div>
                   </div>
                 </div>
               </div>
-            </div>
+            ))}
+            {failedAttempts > 0 && hintLadder.next && (
+              <div className="text-xs opacity-70">
+                {hintLadder.next.attemptsLeft !== undefined &&
+                hintLadder.next.minutesLeft !== undefined
+                  ? t("kodeterminal.nesteHintBegge", {
+                      forsok: hintLadder.next.attemptsLeft,
+                      minutter: hintLadder.next.minutesLeft,
+                    })
+                  : hintLadder.next.attemptsLeft !== undefined
+                    ? t("kodeterminal.nesteHintForsok", {
+                        forsok: hintLadder.next.attemptsLeft,
+                      })
+                    : t("kodeterminal.nesteHintMinutter", {
+                        minutter: hintLadder.next.minutesLeft ?? 0,
+                      })}
+              </div>
+            )}
           </div>
         )}
 
+        {/* Julius' terminal note after 3 failed attempts (quests without a hint ladder) */}
+        {failedAttempts >= 3 &&
+          !isAlreadySolved &&
+          hintsEnabled &&
+          !quest?.hint_trapp?.length && (
+            <div className="space-y-3">
+              <div className="p-4 border-2 border-(--cold-blue) bg-(--cold-blue)/10 text-(--cold-blue)">
+                <div className="flex items-start gap-3">
+                  <Icons.BookOpen
+                    size={24}
+                    color="blue"
+                    className="mt-1 shrink-0"
+                  />
+                  <div className="space-y-2">
+                    <div className="text-sm font-bold">
+                      {t("kodeterminal.tipsOverskrift")}
+                    </div>
+                    <div className="text-sm leading-relaxed">
+                      {t("kodeterminal.tipsTekst")}
+                    </div>
+                  </div>
+                </div>
+              </div>
+            </div>
+          )}
+
         {/* Content unlock notification */}
         {unlockedContent && (
           <div className="p-4 border-4 border-(--neon-green) bg-(--neon-green)/20 text-(--neon-green) space-y-3 animate-[gold-flash_0.5s_ease-out]">
             <div className="flex items-center gap-2 text-lg font-bold border-b-2 border-(--neon-green)/30 pb-2">
               <Icons.CheckCircle size={24} color="green" />
-              <span>NYTT INNHOLD LÅST OPP!</span>
+              <span>{t("kodeterminal.nyttInnhold")}</span>
             </div>
 
             {unlockedContent.files.length > 0 && (
               <div className="space-y-1">
                 <div className="flex items-center gap-2 text-sm font-bold">
                   <Icons.File size={16} color="green" />
-                  <span>FILER I NISSENET:</span>
+                  <span>{t("kodeterminal.filer")}</span>
                 </div>
                 <div className="pl-6 space-y-1">
                   {unlockedContent.files.map((file, i) => (
@@ -306,7 +398,7 @@ export function KodeTerminal({
               <div className="space-y-1">
                 <div className="flex items-center gap-2 text-sm font-bold">
                   <Icons.Key size={16} color="green" />
-                  <span>KRYPTO-SYMBOLER:</span>
+                  <span>{t("kodeterminal.symboler")}</span>
                 </div>
                 <div className="pl-6 space-y-1">
                   {unlockedContent.symbols.map((symbol, i) => (
@@ -322,7 +414,7 @@ export function KodeTerminal({
               <div className="space-y-1">
                 <div className="flex items-center gap-2 text-sm font-bold">
                   <Icons.BookOpen size={16} color="green" />
-                  <span>EMNER:</span>
+                  <span>{t("kodeterminal.emner")}</span>
                 </div>
                 <div className="pl-6 space-y-1">
                   {unlockedContent.topics.map((topic, i) => (
@@ -335,7 +427,7 @@ export function KodeTerminal({
             )}
 
             <div className="text-xs opacity-90 pt-2 border-t-2 border-(--neon-green)/30">
-              Sjekk NISSENET eller NISSEKRYPTO for å se det nye innholdet!
+              {t("kodeterminal.sjekkNyttInnhold")}
             </div>
           </div>
         )}
@@ -343,13 +435,15 @@ export function KodeTerminal({
         {/* Submitted codes list */}
         <div className="mt-8 space-y-2">
           <div className="text-xl font-bold border-b-2 border-(--neon-green)/30 pb-2">
-            INNSENDTE KODER ({submittedCodes.length})
+            {t("kodeterminal.innsendteKoder", {
+              antall: submittedCodes.length,
+            })}
           </div>
 
           <div className="max-h-[200px] overflow-y-auto space-y-2">
             {submittedCodes.length === 0 ? (
               <div className="text-sm opacity-50 text-center py-4">
-                Ingen koder innsendt ennå
+                {t("kodeterminal.ingenKoder")}
               </div>
             ) : (
               submittedCodes.map((entry, index) => (
@@ -364,7 +458,7 @@ export function KodeTerminal({
                     </span>
                   </div>
                   <span className="text-xs opacity-70">
-                    {new Date(entry.dato).toLocaleDateString("no-NO", {
+                    {new Date(entry.dato).toLocaleDateString(getDateLocale(), {
                       day: "numeric",
                       month: "short",
                     })}
@@ -8,6 +8,7 @@ import { GameEngine } from "@/lib/game-engine";
 import { DecryptionSymbol } from "@/types/innhold";
 import { SymbolScanner } from "./SymbolScanner";
 import { trackEvent } from "@/lib/analytics";
+import { t } from "@/lib/i18n";
 
 /**
  * NisseKrypto - Symbol Decryption Challenge System
@@ -108,7 +109,7 @@ export function NisseKrypto({ onClose }: NisseKryptoProps) {
             title: quest.tittel,
             hint: challenge.messageWhenSolved || "Plasser symbolene riktig",
             requiredSymbols,
-            sequenceLength: challenge.correctSequence.length,
+            sequenceLength: challenge.requiredSymbols.length,
             isSolved,
             attempts: 0,
           });
@@ -251,7 +252,8 @@ export function NisseKrypto({ onClose }: NisseKryptoProps) {
         );
       });
 
-    const result = GameEngine.validateDecryptionSequence(
+    // Checked by the code validator - the answer isn't in the browser
+    const result = await GameEngine.submitDecryptionSequence(
       selectedChallenge.challengeId,
       userSequence,
     );
@@ -308,7 +310,7 @@ export function NisseKrypto({ onClose }: NisseKryptoProps) {
   }
 
   return (
-    <RetroWindow title="NISSEKRYPTO - SYMBOLDEKRYPTERING" onClose={onClose}>
+    <RetroWindow title={t("vindu.nissekrypto")} onClose={onClose}>
       <div className="p-6 h-full overflow-y-auto space-y-6">
         {/* Header */}
         <div className="flex items-center gap-4 pb-4 border-b-4 border-(--neon-green)/30">
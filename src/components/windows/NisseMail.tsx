@@ -8,6 +8,8 @@ import { SoundManager } from "@/lib/sounds";
 import { GameEngine } from "@/lib/game-engine";
 import { getEventyr, getEventyrDays } from "@/lib/eventyr";
 import { trackEvent } from "@/lib/analytics";
+import { t } from "@/lib/i18n";
+import { getSeasonPack } from "@/lib/season-packs";
 
 /**
  * Email types for inbox display
@@ -210,7 +212,7 @@ export function NisseMail({
   }
 
   return (
-    <RetroWindow title="NISSEMAIL" onClose={onClose}>
+    <RetroWindow title={t("vindu.nissemail")} onClose={onClose}>
       <div className="flex flex-col lg:flex-row h-full gap-4 p-4 md:p-6">
         {/* Inbox List - Collapsible on mobile, left 30% on desktop */}
         <div className="w-full lg:w-[30%] lg:border-r-4 border-(--neon-green)/30 flex flex-col overflow-hidden shrink-0">
@@ -224,10 +226,12 @@ export function NisseMail({
               className="lg:cursor-default flex items-center gap-2 pb-2 border-b-2 border-(--neon-green)/30 shrink-0 lg:pointer-events-none"
             >
               <Icons.File size={20} color="green" />
-              <span className="text-xl font-bold">INNBOKS</span>
+              <span className="text-xl font-bold">
+                {t("nissemail.innboks")}
+              </span>
               {getUnreadCount() > 0 && (
                 <span className="px-2 py-1 text-sm bg-(--christmas-red) text-white border-2 border-(--christmas-red)">
-                  {getUnreadCount()} NY
+                  {t("nissemail.nye", { antall: getUnreadCount() })}
                 </span>
               )}
               {/* Chevron indicator for mobile */}
@@ -301,8 +305,8 @@ export function NisseMail({
                         >
                           <span>
                             {isBonusOppdrag
-                              ? "KRISE-VARSEL ⚠️"
-                              : "RAMPENISSEN 🎅"}
+                              ? t("nissemail.kriseVarsel")
+                              : t("nissemail.rampenissen")}
                           </span>
                           {BadgeIcon && (
                             <BadgeIcon className="w-4 h-4 inline-block" />
@@ -322,8 +326,9 @@ export function NisseMail({
                             : email.mission.tittel}
                         </div>
                         <div className="text-xs opacity-50 mt-1">
-                          DAG {email.day}
-                          {isBonusOppdrag && " • BONUSOPPDRAG"}
+                          {t("felles.dag", { dag: email.day })}
+                          {isBonusOppdrag &&
+                            ` • ${t("nissemail.bonusoppdrag")}`}
                         </div>
                       </div>
                     </div>
@@ -370,24 +375,35 @@ export function NisseMail({
                       </div>
                       <div className="flex items-center gap-2 text-sm text-(--gold)">
                         <Icons.Alert size={16} color="gold" />
-                        <span>KRITISK</span>
+                        <span>{t("nissemail.kritisk")}</span>
                       </div>
                     </div>
 
                     <div className="space-y-1 text-sm">
                       <div className="flex gap-3">
-                        <span className="opacity-70 w-16">FRA:</span>
+                        <span className="opacity-70 w-16">
+                          {t("nissemail.fra")}
+                        </span>
                         <span className="text-(--christmas-red) font-bold">
-                          KRISE-VARSEL ⚠️
+                          {t("nissemail.kriseVarsel")}
                         </span>
                       </div>
                       <div className="flex gap-3">
-                        <span className="opacity-70 w-16">TIL:</span>
-                        <span>NISSEHJELPER (HASTER!)</span>
+                        <span className="opacity-70 w-16">
+                          {t("nissemail.til")}
+                        </span>
+                        <span>{t("nissemail.nissehjelperHaster")}</span>
                       </div>
                       <div className="flex gap-3">
-                        <span className="opacity-70 w-16">DATO:</span>
-                        <span>DESEMBER {selectedMission.dag}, 2025</span>
+                        <span className="opacity-70 w-16">
+                          {t("nissemail.dato")}
+                        </span>
+                        <span>
+                          {t("felles.dato", {
+                            dag: selectedMission.dag,
+                            år: getSeasonPack().manifest.år,
+                          })}
+                        </span>
                       </div>
                     </div>
                   </div>
@@ -406,7 +422,7 @@ export function NisseMail({
                       <div className="flex items-center gap-3 mb-3">
                         <Icons.Trophy size={20} color="gold" />
                         <span className="text-sm font-bold text-(--gold)">
-                          MERKER & BELØNNING:
+                          {t("nissemail.merkerOgBelonning")}
                         </span>
                       </div>
                       <div className="flex items-center gap-4 p-3 bg-(--gold)/5 border-2 border-(--gold)/30">
@@ -433,7 +449,7 @@ export function NisseMail({
                             {selectedMission.bonusoppdrag.badge_navn}
                           </div>
                           <div className="text-sm opacity-70">
-                            Låses opp ved fullføring
+                            {t("nissemail.lasesOpp")}
                           </div>
                         </div>
                       </div>
@@ -445,12 +461,11 @@ export function NisseMail({
                         <div className="flex items-center gap-2 mb-2">
                           <Icons.Help size={16} color="blue" />
                           <span className="text-sm font-bold text-(--cold-blue)">
-                            VALIDERING:
+                            {t("nissemail.validering")}
                           </span>
                         </div>
                         <div className="text-sm text-(--cold-blue)">
-                          Denne krisen må løses så raskt som mulig i din
-                          virkelige verden!
+                          {t("nissemail.valideringForelder")}
                         </div>
                       </div>
                     ) : (
@@ -458,11 +473,11 @@ export function NisseMail({
                         <div className="flex items-center gap-2 mb-2">
                           <Icons.Help size={16} color="gold" />
                           <span className="text-sm font-bold text-(--gold)">
-                            INSTRUKSJONER:
+                            {t("felles.instruksjoner")}
                           </span>
                         </div>
                         <div className="text-sm opacity-90">
-                          Løs krisen og send inn koden i KODETERMINAL.
+                          {t("nissemail.instruksjonerBonus")}
                         </div>
                       </div>
                     )}
@@ -490,12 +505,14 @@ export function NisseMail({
                             {isCompleted ? (
                               <>
                                 <Icons.CheckCircle size={24} color="green" />
-                                <span>FULLFØRT</span>
+                                <span>{t("felles.fullfort")}</span>
                               </>
                             ) : (
                               <>
                                 <Icons.Lock size={24} color="gray" />
-                                <span>VENTER PÅ VERIFIKASJON</span>
+                                <span>
+                                  {t("nissemail.venterPaVerifikasjon")}
+                                </span>
                               </>
                             )}
                           </button>
@@ -513,7 +530,7 @@ export function NisseMail({
                           className="w-full px-6 py-3 bg-(--gold) text-black text-xl tracking-wider font-bold border-4 border-(--gold) hover:bg-transparent hover:text-(--gold) transition-colors flex items-center justify-center gap-3"
                         >
                           <Icons.Code size={24} color="gold" />
-                          <span>ÅPNE KODETERMINAL</span>
+                          <span>{t("felles.apneKodeterminal")}</span>
                         </button>
                       </div>
                     );
@@ -530,22 +547,37 @@ export function NisseMail({
                       </div>
                       <div className="flex items-center gap-2 text-sm opacity-70">
                         <Icons.Calendar size={16} color="green" />
-                        <span>DAG {selectedMission.dag}</span>
+                        <span>
+                          {t("felles.dag", { dag: selectedMission.dag })}
+                        </span>
                       </div>
                     </div>
 
                     <div className="space-y-1 text-sm">
                       <div className="flex gap-3">
-                        <span className="opacity-70 w-16">FRA:</span>
-                        <span className="text-(--gold)">RAMPENISSEN 🎅</span>
+                        <span className="opacity-70 w-16">
+                          {t("nissemail.fra")}
+                        </span>
+                        <span className="text-(--gold)">
+                          {t("nissemail.rampenissen")}
+                        </span>
                       </div>
                       <div className="flex gap-3">
-                        <span className="opacity-70 w-16">TIL:</span>
-                        <span>NISSEHJELPER</span>
+                        <span className="opacity-70 w-16">
+                          {t("nissemail.til")}
+                        </span>
+                        <span>{t("nissemail.nissehjelper")}</span>
                       </div>
                       <div className="flex gap-3">
-                        <span className="opacity-70 w-16">DATO:</span>
-                        <span>DESEMBER {selectedMission.dag}, 2025</span>
+                        <span className="opacity-70 w-16">
+                          {t("nissemail.dato")}
+                        </span>
+                        <span>
+                          {t("felles.dato", {
+                            dag: selectedMission.dag,
+                            år: getSeasonPack().manifest.år,
+                          })}
+                        </span>
                       </div>
                     </div>
                   </div>
@@ -636,9 +668,11 @@ export function NisseMail({
                                     {eventyr.navn.toUpperCase()}
                                   </div>
                                   <div className="text-xs opacity-70">
-                                    Fase {selectedMission.eventyr.phase} av{" "}
-                                    {eventyrDays.length} • {progressPercent}%
-                                    fullført
+                                    {t("nissemail.fase", {
+                                      fase: selectedMission.eventyr.phase,
+                                      totalt: eventyrDays.length,
+                                      prosent: progressPercent,
+                                    })}
                                   </div>
                                 </div>
                                 <Icons.ChevronDown
@@ -686,7 +720,7 @@ export function NisseMail({
                           <div className="flex items-center gap-2 mb-2">
                             <Icons.Alert size={20} color="blue" />
                             <span className="text-sm font-bold text-(--cold-blue)">
-                              DETTE SKJER I DAG
+                              {t("nissemail.detteSkjerIDag")}
                             </span>
                           </div>
                           <div className="text-sm text-(--cold-blue)">
@@ -701,12 +735,11 @@ export function NisseMail({
                       <div className="flex items-center gap-2 mb-2">
                         <Icons.Help size={16} color="gold" />
                         <span className="text-sm font-bold text-(--gold)">
-                          INSTRUKSJONER:
+                          {t("felles.instruksjoner")}
                         </span>
                       </div>
                       <div className="text-sm opacity-90">
-                        Når du har løst oppdraget og funnet koden, klikk på
-                        knappen under for å sende inn svaret i KODETERMINAL.
+                        {t("nissemail.instruksjonerOppdrag")}
                       </div>
                     </div>
                   </div>
@@ -721,7 +754,7 @@ export function NisseMail({
                       className="w-full px-6 py-3 bg-(--cold-blue) text-black text-xl tracking-wider font-bold border-4 border-(--cold-blue) hover:bg-transparent hover:text-(--cold-blue) transition-colors flex items-center justify-center gap-3"
                     >
                       <Icons.Code size={24} color="blue" />
-                      <span>ÅPNE KODETERMINAL</span>
+                      <span>{t("felles.apneKodeterminal")}</span>
                     </button>
                   </div>
                 </>
@@ -731,7 +764,7 @@ export function NisseMail({
             <div className="flex-1 flex items-center justify-center text-center opacity-50">
               <div>
                 <Icons.File size={48} color="green" />
-                <div className="mt-4">INGEN E-POST VALGT</div>
+                <div className="mt-4">{t("nissemail.ingenValgt")}</div>
               </div>
             </div>
           )}
@@ -4,6 +4,7 @@ import { useState } from "react";
 import { RetroWindow } from "../ui/RetroWindow";
 import { Icons } from "@/lib/icons";
 import { SoundManager } from "@/lib/sounds";
+import { t } from "@/lib/i18n";
 
 interface Track {
   id: number;
@@ -57,7 +58,7 @@ export function NisseMusikk({ onClose }: NisseMusikkProps) {
   const track = PLAYLIST[currentTrack];
 
   return (
-    <RetroWindow title="NISSEMUSIKK - 8-BIT JUKEBOX" onClose={onClose}>
+    <RetroWindow title={t("vindu.nissemusikk")} onClose={onClose}>
       <div className="p-6 h-full overflow-y-auto space-y-6">
         {/* Header */}
         <div className="flex items-center gap-4 pb-4 border-b-4 border-(--neon-green)/30">
@@ -162,9 +163,9 @@ export function NisseMusikk({ onClose }: NisseMusikkProps) {
             </div>
           </div>
           <div className="max-h-64 overflow-y-auto">
-            {PLAYLIST.map((t, index) => (
+            {PLAYLIST.map((entry, index) => (
               <button
-                key={t.id}
+                key={entry.id}
                 onClick={() => handleTrackSelect(index)}
                 className={`
                   w-full p-3 text-left flex items-center justify-between
@@ -180,7 +181,7 @@ export function NisseMusikk({ onClose }: NisseMusikkProps) {
                   <span className="text-xs opacity-70 w-6">
                     {String(index + 1).padStart(2, "0")}
                   </span>
-                  <span className="text-sm tracking-wider">{t.title}</span>
+                  <span className="text-sm tracking-wider">{entry.title}</span>
                   {index === currentTrack && isPlaying && (
                     <div className="flex gap-0.5">
                       <div className="w-0.5 h-3 bg-(--neon-green) animate-pulse"></div>
@@ -189,7 +190,7 @@ export function NisseMusikk({ onClose }: NisseMusikkProps) {
                     </div>
                   )}
                 </div>
-                <span className="text-xs opacity-70">{t.duration}</span>
+                <span className="text-xs opacity-70">{entry.duration}</span>
               </button>
             ))}
           </div>
@@ -7,6 +7,7 @@ import { FilNode, Oppdrag } from "@/types/innhold";
 import { GameEngine } from "@/lib/game-engine";
 import { StorageManager } from "@/lib/storage";
 import { resolveTemplate } from "@/lib/template-resolver";
+import { t } from "@/lib/i18n";
 
 interface NisseNetUtforskerProps {
   files: FilNode[];
@@ -286,7 +287,12 @@ export function NisseNetUtforsker({
 
   return (
     <RetroWindow
-      title={`NISSENET (${stats.accessibleFiles}/${stats.totalFiles} filer | ${stats.accessibleSecrets}/${stats.secretFiles} hemmeligheter)`}
+      title={t("vindu.nissenet", {
+        filer: stats.accessibleFiles,
+        totalFiler: stats.totalFiles,
+        hemmeligheter: stats.accessibleSecrets,
+        totalHemmeligheter: stats.secretFiles,
+      })}
       onClose={onClose}
     >
       <div className="p-6 flex flex-col h-full space-y-6">
@@ -6,6 +6,7 @@ import { GameEngine } from "@/lib/game-engine";
 import { LEDIndicator } from "../ui/LEDIndicator";
 import { useSounds } from "@/lib/sounds";
 import { getCurrentDate } from "@/lib/date-utils";
+import { t } from "@/lib/i18n";
 
 interface NisseStatsProps {
   onClose: () => void;
@@ -257,7 +258,7 @@ export function NisseStats({ onClose, currentDay }: NisseStatsProps) {
   const questProgress = GameEngine.getCompletedQuestCount();
 
   return (
-    <RetroWindow title="NISSESTATS - SANNTIDSDATA" onClose={onClose}>
+    <RetroWindow title={t("vindu.nissestats")} onClose={onClose}>
       <div className="p-4 lg:p-6 h-full overflow-y-auto space-y-4">
         {/* Countdown Hero Section */}
         <div
@@ -5,7 +5,7 @@ import { RetroWindow } from "../ui/RetroWindow";
 import { LEDIndicator } from "../ui/LEDIndicator";
 import { Icons } from "@/lib/icons";
 import { GameEngine } from "@/lib/game-engine";
-import { getCurrentDate } from "@/lib/date-utils";
+import { getCurrentDate, isCalendarPaused } from "@/lib/date-utils";
 import {
   getWeatherForDay,
   getMorketIntensity,
@@ -21,6 +21,7 @@ import {
   type WeatherCondition,
 } from "@/lib/weather-config";
 import Image from "next/image";
+import { t } from "@/lib/i18n";
 
 interface SnøfallTVProps {
   onClose: () => void;
@@ -43,6 +44,9 @@ export function SnøfallTV({ onClose, currentDay }: SnøfallTVProps) {
   const crisisStatus = GameEngine.getCrisisStatus();
   const isAntennaBroken = currentDay >= 11 && !crisisStatus.antenna;
 
+  // Family is away - the village waits on the same day
+  const isPaused = isCalendarPaused();
+
   // Time-based calculations
   const hour = currentTime.getHours();
   const minute = currentTime.getMinutes();
@@ -124,7 +128,7 @@ export function SnøfallTV({ onClose, currentDay }: SnøfallTVProps) {
   };
 
   return (
-    <RetroWindow title="SNØFALL TV - VÆRPROGNOSERING" onClose={onClose}>
+    <RetroWindow title={t("vindu.snofalltv")} onClose={onClose}>
       <div className="p-4 lg:p-6 h-full overflow-y-auto space-y-4">
         {/* Camera Feed with Overlay */}
         <div className="relative aspect-video bg-black border-4 border-(--neon-green) overflow-hidden">
@@ -528,7 +532,7 @@ export function SnøfallTV({ onClose, currentDay }: SnøfallTVProps) {
                     {/* Day indicator - bottom left */}
                     <div className="absolute bottom-2 left-2 px-2 py-1 bg-black/80 border border-(--neon-green)/50 flex items-center gap-1">
                       <span className="text-[10px] text-(--neon-green)">
-                        DAG {currentDay}/24
+                        DAG {currentDay}/24{isPaused && " · PAUSE"}
                       </span>
                     </div>
 
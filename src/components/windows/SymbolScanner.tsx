@@ -10,6 +10,7 @@ import {
   getCollectedSymbols,
 } from "@/lib/systems/symbol-system";
 import { trackEvent, trackSymbolCollection } from "@/lib/analytics";
+import { t } from "@/lib/i18n";
 
 interface SymbolScannerProps {
   onClose: () => void;
@@ -313,7 +314,7 @@ export function SymbolScanner({ onClose }: SymbolScannerProps) {
   };
 
   return (
-    <RetroWindow title="SYMBOLSKANNER - QR KODE LESER" onClose={onClose}>
+    <RetroWindow title={t("vindu.symbolskanner")} onClose={onClose}>
       <style jsx global>{`
         #qr-reader {
           width: 100% !important;
@@ -0,0 +1,182 @@
+/**
+ * Calendar Schedule Tests
+ *
+ * Tests mapping real dates to game days per family:
+ * - Default calendar (December 1-24)
+ * - Late start dates and paused date ranges still give all 24 days
+ * - Validation of a family's schedule
+ * - Date utilities and GameEngine follow the active schedule
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from "@jest/globals";
+import {
+  collectScheduleErrors,
+  getActiveSchedule,
+  getDateForGameDay,
+  getGameDay,
+  getUnlockedDayOn,
+  isPausedDate,
+  sanitizeSchedule,
+  setActiveSchedule,
+} from "../calendar-schedule";
+import { getCurrentDay, isCalendarActive } from "../date-utils";
+import { GameEngine } from "../game-engine";
+import type { Kalenderplan } from "@/types/innhold";
+
+function date(dateKey: string): Date {
+  return new Date(`${dateKey}T21:00:00`);
+}
+
+const LATE_START: Kalenderplan = { startdato: "2025-12-03", pauser: [] };
+
+const WITH_PAUSE: Kalenderplan = {
+  startdato: "2025-12-01",
+  pauser: [{ fra: "2025-12-10", til: "2025-12-16" }],
+};
+
+describe("Calendar Schedule", () => {
+  beforeEach(() => {
+    localStorage.clear();
+    setActiveSchedule(null);
+  });
+
+  describe("getGameDay", () => {
+    it("should follow December 1-24 without a schedule", () => {
+      expect(getGameDay(date("2025-11-30"), null)).toBe(0);
+      expect(getGameDay(date("2025-12-01"), null)).toBe(1);
+      expect(getGameDay(date("2025-12-24"), null)).toBe(24);
+      expect(getGameDay(date("2025-12-25"), null)).toBe(25);
+    });
+
+    it("should count from a late start date", () => {
+      expect(getGameDay(date("2025-12-02"), LATE_START)).toBe(0);
+      expect(getGameDay(date("2025-12-03"), LATE_START)).toBe(1);
+      expect(getGameDay(date("2025-12-26"), LATE_START)).toBe(24);
+    });
+
+    it("should keep the day before a pause while paused", () => {
+      expect(getGameDay(date("2025-12-09"), WITH_PAUSE)).toBe(9);
+      expect(getGameDay(date("2025-12-12"), WITH_PAUSE)).toBe(9);
+      expect(getGameDay(date("2025-12-17"), WITH_PAUSE)).toBe(10);
+      expect(getGameDay(date("2025-12-31"), WITH_PAUSE)).toBe(24);
+      expect(isPausedDate(date("2025-12-16"), WITH_PAUSE)).toBe(true);
+      expect(isPausedDate(date("2025-12-17"), WITH_PAUSE)).toBe(false);
+    });
+  });
+
+  describe("getUnlockedDayOn", () => {
+    it("should only report dates that unlock a new day", () => {
+      expect(getUnlockedDayOn(date("2025-12-12"), WITH_PAUSE)).toBeNull();
+      expect(getUnlockedDayOn(date("2025-12-17"), WITH_PAUSE)).toBe(10);
+      expect(getUnlockedDayOn(date("2025-12-31"), WITH_PAUSE)).toBe(24);
+      expect(getUnlockedDayOn(date("2026-01-01"), WITH_PAUSE)).toBeNull();
+      expect(getUnlockedDayOn(date("2025-12-02"), LATE_START)).toBeNull();
+    });
+
+    it("should find the date a day unlocks on", () => {
+      expect(getDateForGameDay(1, LATE_START)).toBe("2025-12-03");
+      expect(getDateForGameDay(10, WITH_PAUSE)).toBe("2025-12-17");
+      expect(getDateForGameDay(24, WITH_PAUSE)).toBe("2025-12-31");
+    });
+  });
+
+  describe("active schedule", () => {
+    it("should drop malformed pauses and sort by date", () => {
+      expect(
+        sanitizeSchedule({
+          startdato: "2025-12-01",
+          pauser: [
+            { fra: "2025-12-20", til: "2025-12-21" },
+            { fra: "2025-12-31", til: "2025-12-32" },
+            { fra: "2025-12-05", til: "2025-12-06" },
+          ],
+        }),
+      ).toEqual({
+        startdato: "2025-12-01",
+        pauser: [
+          { fra: "2025-12-05", til: "2025-12-06" },
+          { fra: "2025-12-20", til: "2025-12-21" },
+        ],
+      });
+      expect(sanitizeSchedule({ startdato: "3. desember" })).toBeNull();
+    });
+
+    it("should persist the active schedule in localStorage", () => {
+      setActiveSchedule(LATE_START);
+      expect(getActiveSchedule()).toEqual(LATE_START);
+      expect(localStorage.getItem("nissekomm-calendar-schedule")).toContain(
+        "2025-12-03",
+      );
+
+      setActiveSchedule(null);
+      expect(getActiveSchedule()).toBeNull();
+      expect(localStorage.getItem("nissekomm-calendar-schedule")).toBeNull();
+    });
+  });
+
+  describe("collectScheduleErrors", () => {
+    it("should accept late starts and pauses", () => {
+      expect(collectScheduleErrors(LATE_START)).toEqual([]);
+      expect(collectScheduleErrors(WITH_PAUSE)).toEqual([]);
+    });
+
+    it("should only allow starts in November or December", () => {
+      const errors = collectScheduleErrors({
+        startdato: "2025-10-01",
+        pauser: [],
+      });
+
+      expect(errors).toEqual(["Start date must be in November or December"]);
+    });
+
+    it("should reject backwards, early and overlapping pauses", () => {
+      const errors = collectScheduleErrors({
+        startdato: "2025-12-03",
+        pauser: [
+          { fra: "2025-12-02", til: "2025-12-04" },
+          { fra: "2025-12-12", til: "2025-12-10" },
+          { fra: "2025-12-04", til: "2025-12-05" },
+        ],
+      });
+
+      expect(errors).toHaveLength(3);
+      expect(errors[0]).toContain("Pause 1 must start after the start date");
+      expect(errors[1]).toContain("Pause 2 ends before it starts");
+      expect(errors[2]).toContain("Pause 3 overlaps another pause");
+    });
+  });
+
+  describe("date utilities and GameEngine", () => {
+    const originalEnv = { ...process.env };
+
+    beforeEach(() => {
+      process.env.NEXT_PUBLIC_MOCK_DAY = "5";
+      process.env.NEXT_PUBLIC_MOCK_MONTH = "12";
+    });
+
+    afterEach(() => {
+      process.env = { ...originalEnv };
+    });
+
+    it("should use the active schedule for the current day", () => {
+      const year = new Date().getFullYear();
+      expect(getCurrentDay()).toBe(5);
+
+      setActiveSchedule({ startdato: `${year}-12-03`, pauser: [] });
+      expect(getCurrentDay()).toBe(3);
+      expect(isCalendarActive()).toBe(true);
+
+      setActiveSchedule({ startdato: `${year}-12-06`, pauser: [] });
+      expect(getCurrentDay()).toBe(0);
+      expect(isCalendarActive()).toBe(false);
+    });
+
+    it("should lock missions the family's calendar hasn't reached", () => {
+      const year = new Date().getFullYear();
+      setActiveSchedule({ startdato: `${year}-12-03`, pauser: [] });
+
+      expect(GameEngine.isMissionAccessible(1)).toBe(true);
+      expect(GameEngine.isMissionAccessible(4)).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,172 @@
+/**
+ * Child Profile Tests
+ *
+ * Tests one game state per child inside a family:
+ * - Profiles follow the kid names and keep their ids
+ * - Profile sessions belong to their family session only
+ * - Each profile's localStorage state is kept apart
+ * - Parents can read every profile's progress side by side
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from "@jest/globals";
+import {
+  getFamilySessionId,
+  getProfileSessionId,
+  getSessionProfileId,
+  hasChildProfiles,
+  isProfileSessionOf,
+  SHARED_PROFILE_ID,
+  syncChildProfiles,
+} from "../child-profiles";
+import { LocalStorageAdapter } from "../storage-adapter";
+import { StorageManager } from "../storage";
+import { GameEngine } from "../game-engine";
+import { getActiveProfileId } from "../session-manager";
+
+const SESSION = "family-session-1";
+
+describe("Child Profiles", () => {
+  describe("syncChildProfiles", () => {
+    it("should create a profile per kid name", () => {
+      expect(syncChildProfiles(["Emma", "Åse Marie", " "])).toEqual([
+        { id: "emma", navn: "Emma" },
+        { id: "ase-marie", navn: "Åse Marie" },
+      ]);
+    });
+
+    it("should keep ids when names are reordered", () => {
+      const profiles = syncChildProfiles(["Emma", "Ola"]);
+
+      expect(syncChildProfiles(["Ola", "Emma"], profiles)).toEqual([
+        { id: "ola", navn: "Ola" },
+        { id: "emma", navn: "Emma" },
+      ]);
+    });
+
+    it("should keep the id of a renamed child", () => {
+      const profiles = syncChildProfiles(["Emma", "Ola"]);
+
+      expect(syncChildProfiles(["Emma", "Olav"], profiles)).toEqual([
+        { id: "emma", navn: "Emma" },
+        { id: "ola", navn: "Olav" },
+      ]);
+    });
+
+    it("should give same-named children and the shared id a unique id", () => {
+      expect(syncChildProfiles(["Emma", "Emma", "Alle"])).toEqual([
+        { id: "emma", navn: "Emma" },
+        { id: "emma-2", navn: "Emma" },
+        { id: "alle-2", navn: "Alle" },
+      ]);
+    });
+
+    it("should only give families with several children profiles", () => {
+      expect(hasChildProfiles(syncChildProfiles(["Emma"]))).toBe(false);
+      expect(hasChildProfiles(syncChildProfiles(["Emma", "Ola"]))).toBe(true);
+    });
+  });
+
+  describe("profile sessions", () => {
+    it("should map profiles to sessions and back", () => {
+      const gameSessionId = getProfileSessionId(SESSION, "emma");
+
+      expect(gameSessionId).toBe(`${SESSION}~emma`);
+      expect(getFamilySessionId(gameSessionId)).toBe(SESSION);
+      expect(getSessionProfileId(gameSessionId)).toBe("emma");
+    });
+
+    it("should use the family session for the shared profile", () => {
+      expect(getProfileSessionId(SESSION, SHARED_PROFILE_ID)).toBe(SESSION);
+      expect(getSessionProfileId(SESSION)).toBe(SHARED_PROFILE_ID);
+    });
+
+    it("should only accept profile sessions of the same family", () => {
+      expect(isProfileSessionOf(`${SESSION}~emma`, SESSION)).toBe(true);
+      expect(isProfileSessionOf(`${SESSION}~`, SESSION)).toBe(false);
+      expect(isProfileSessionOf(SESSION, SESSION)).toBe(false);
+      expect(isProfileSessionOf("other-session~emma", SESSION)).toBe(false);
+    });
+  });
+
+  describe("localStorage namespaces", () => {
+    beforeEach(() => {
+      localStorage.clear();
+    });
+
+    it("should keep each profile's keys apart", () => {
+      const shared = new LocalStorageAdapter();
+      const emma = new LocalStorageAdapter("emma");
+
+      shared.set("nissekomm-codes", [1]);
+      emma.set("nissekomm-codes", [2]);
+
+      expect(shared.get("nissekomm-codes", [])).toEqual([1]);
+      expect(emma.get("nissekomm-codes", [])).toEqual([2]);
+    });
+
+    it("should only clear its own namespace", () => {
+      const shared = new LocalStorageAdapter();
+      const emma = new LocalStorageAdapter("emma");
+      shared.set("nissekomm-codes", [1]);
+      emma.set("nissekomm-codes", [2]);
+
+      emma.clear();
+
+      expect(emma.has("nissekomm-codes")).toBe(false);
+      expect(shared.get("nissekomm-codes", [])).toEqual([1]);
+    });
+  });
+
+  describe("per-child progress", () => {
+    const originalEnv = { ...process.env };
+    const profiles = syncChildProfiles(["Emma", "Ola"]);
+    // Day 1's code is the family's kid code, day 2 has a fixed code
+    const day2 = GameEngine.getAllQuests().find((q) => q.dag === 2)!;
+
+    beforeEach(async () => {
+      localStorage.clear();
+      process.env.NEXT_PUBLIC_MOCK_DAY = "2";
+      process.env.NEXT_PUBLIC_MOCK_MONTH = "12";
+      await StorageManager.setAuthenticated(true, SESSION);
+    });
+
+    afterEach(async () => {
+      await StorageManager.selectProfile(SESSION, SHARED_PROFILE_ID);
+      process.env = { ...originalEnv };
+    });
+
+    it("should give a selected child their own game state", async () => {
+      await StorageManager.selectProfile(SESSION, "emma");
+      await GameEngine.submitCode(day2.kode, day2.kode, 2);
+
+      expect(getActiveProfileId()).toBe("emma");
+      expect(GameEngine.isQuestCompleted(2)).toBe(true);
+
+      await StorageManager.selectProfile(SESSION, "ola");
+
+      expect(GameEngine.isQuestCompleted(2)).toBe(false);
+    });
+
+    it("should load every profile's progress for parents", async () => {
+      await StorageManager.selectProfile(SESSION, "emma");
+      await GameEngine.submitCode(day2.kode, day2.kode, 2);
+      await StorageManager.selectProfile(SESSION, "ola");
+
+      const progress = await GameEngine.loadProfileProgress(
+        SESSION,
+        profiles,
+        getActiveProfileId(),
+      );
+
+      expect(
+        progress.map((p) => [p.profileId, p.completedDays, p.hydration]),
+      ).toEqual([
+        [SHARED_PROFILE_ID, [], "ready"],
+        ["emma", [2], "ready"],
+        ["ola", [], "ready"],
+      ]);
+      // Reading other profiles leaves the active one in place
+      expect(GameEngine.isQuestCompleted(2)).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,118 @@
+/**
+ * Content Linter Tests
+ *
+ * Tests the one-pass content lint used by scripts/lint-content.ts:
+ * - Shipped season packs have no errors
+ * - Multiple problems are collected instead of failing fast
+ * - Placeholder checks and report formatting
+ */
+
+import { describe, it, expect } from "@jest/globals";
+import {
+  formatLintReportMarkdown,
+  lintContent,
+  lintSeasonPack,
+} from "../validators/content-linter";
+import { getAvailableSeasons, getSeasonPack } from "../season-packs";
+import type { SeasonPack } from "@/types/innhold";
+
+/**
+ * Deep copy of the 2025 pack for mutation in tests
+ */
+function clonePack(): SeasonPack {
+  return JSON.parse(JSON.stringify(getSeasonPack("2025"))) as SeasonPack;
+}
+
+describe("Content Linter", () => {
+  it("should report no errors for shipped seasons", () => {
+    const report = lintContent(
+      getAvailableSeasons().map((s) => getSeasonPack(s.id)),
+    );
+
+    expect(report.errorCount).toBe(0);
+    expect(report.issues.every((i) => i.severity === "warning")).toBe(true);
+  });
+
+  it("should collect every error in one pass", () => {
+    const pack = clonePack();
+    pack.uker[0][0].tittel = "";
+    pack.uker[0][1].kode = pack.uker[0][2].kode;
+    pack.uker[1][0].reveals = { files: ["finnes-ikke.txt"] };
+    pack.uker[2][0].requires = { topics: ["ukjent-tema"] };
+
+    const issues = lintSeasonPack(pack).filter((i) => i.severity === "error");
+    const rules = issues.map((i) => i.rule);
+
+    expect(rules).toContain("quest-fields");
+    expect(rules).toContain("quest-collection");
+    expect(rules).toContain("file-references");
+    expect(rules).toContain("topic-dependencies");
+  });
+
+  it("should flag unknown and malformed placeholders", () => {
+    const pack = clonePack();
+    pack.uker[0][0].dagbokinnlegg = "Hei {{KID_NAMES}} og {{BARNETS_NAVN}}";
+    pack.uker[0][1].nissemail_tekst = "Koden er {{ kid_code }}";
+
+    const placeholders = lintSeasonPack(pack).filter(
+      (i) => i.rule === "placeholders",
+    );
+
+    expect(placeholders).toHaveLength(2);
+    expect(placeholders[0].message).toContain("{{BARNETS_NAVN}}");
+    expect(placeholders[0].location).toBe(
+      `dag ${pack.uker[0][0].dag}: dagbokinnlegg`,
+    );
+    expect(placeholders[1].message).toContain("{{ kid_code }}");
+  });
+
+  it("should warn when a topic is required before it is revealed", () => {
+    const pack = clonePack();
+    const first = pack.uker[0][0];
+    const last = pack.uker[3][pack.uker[3].length - 1];
+    last.reveals = { ...last.reveals, topics: ["sen-avsloring"] };
+    first.requires = { topics: ["sen-avsloring"] };
+
+    const warnings = lintSeasonPack(pack).filter(
+      (i) => i.rule === "topic-order",
+    );
+
+    expect(warnings).toHaveLength(1);
+    expect(warnings[0].severity).toBe("warning");
+  });
+
+  it("should flag translations of content that doesn't exist", () => {
+    const pack = clonePack();
+    pack.oversettelser.en = {
+      oppdrag: {
+        "25": { tittel: "Boxing Day" },
+        "1": { bonusoppdrag: { tittel: "No such bonus" } },
+        "3": { varianter: { lett: { nissemail_tekst: "No such variant" } } },
+      },
+      eventyr: { "finnes-ikke": { navn: "Missing" } },
+    };
+
+    const translations = lintSeasonPack(pack).filter(
+      (i) => i.rule === "translations",
+    );
+
+    expect(translations).toHaveLength(4);
+    expect(translations.every((i) => i.severity === "error")).toBe(true);
+    expect(translations.map((i) => i.location)).toContain(
+      "locales/en: oppdrag.25",
+    );
+    expect(translations.map((i) => i.location)).toContain(
+      "locales/en: oppdrag.3.varianter.lett",
+    );
+  });
+
+  it("should format a Markdown report with one section per season", () => {
+    const pack = clonePack();
+    pack.uker[0][0].tittel = "";
+    const markdown = formatLintReportMarkdown(lintContent([pack]));
+
+    expect(markdown).toContain("# Content Lint Report");
+    expect(markdown).toContain("## Season 2025");
+    expect(markdown).toContain("| ❌ error | quest-fields |");
+  });
+});
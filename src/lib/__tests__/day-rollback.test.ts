@@ -0,0 +1,218 @@
+/**
+ * Day Rollback Tests
+ *
+ * Tests rolling a single day back from nissemor-guide:
+ * - The preview lists the code, reveals, symbol, decryption and badges
+ * - Reveals another day or challenge also gives are kept
+ * - Rollback removes what the preview listed and nothing else
+ * - The event log replays to the rolled-back state
+ * - The whole family's profiles are rolled back together
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from "@jest/globals";
+import { GameEngine } from "../game-engine";
+import { StorageManager } from "../storage";
+import { BadgeManager } from "../badge-system";
+import { SHARED_PROFILE_ID, syncChildProfiles } from "../child-profiles";
+
+const quests = GameEngine.getAllQuests();
+const questByDay = (day: number) => quests.find((q) => q.dag === day)!;
+
+// Day 12: files, a topic, a symbol and the first decryption challenge
+const DAY = 12;
+const quest = questByDay(DAY);
+const challenge = quest.decryption_challenge!;
+
+// Day 16 reveals a file day 12 also reveals
+const SHARED_FILE_DAY = 16;
+
+async function solveDay(day: number) {
+  const { kode } = questByDay(day);
+  await GameEngine.submitCode(kode, kode, day);
+}
+
+function solveChallenge() {
+  GameEngine.validateDecryptionSequence(
+    challenge.challengeId,
+    challenge.correctSequence,
+  );
+}
+
+describe("Day Rollback", () => {
+  const originalEnv = { ...process.env };
+
+  beforeEach(() => {
+    localStorage.clear();
+    process.env.NEXT_PUBLIC_MOCK_DAY = "1";
+    process.env.NEXT_PUBLIC_MOCK_MONTH = "12";
+  });
+
+  afterEach(() => {
+    process.env = { ...originalEnv };
+  });
+
+  describe("previewDayRollback", () => {
+    it("should list everything the day gave", async () => {
+      await solveDay(DAY);
+      GameEngine.collectSymbolByCode(quest.symbol_clue!.symbolId);
+      solveChallenge();
+
+      const plan = GameEngine.previewDayRollback(DAY);
+
+      expect(plan.code).toBe(quest.kode);
+      expect(plan.files).toEqual(
+        expect.arrayContaining([
+          ...quest.reveals!.files!,
+          ...challenge.unlocksFiles!,
+        ]),
+      );
+      expect(plan.topics).toEqual(quest.reveals!.topics);
+      expect(plan.symbols).toEqual([quest.symbol_clue!.symbolId]);
+      expect(plan.decryptions).toEqual([challenge.challengeId]);
+    });
+
+    it("should keep files another completed day also reveals", async () => {
+      await solveDay(DAY);
+      await solveDay(SHARED_FILE_DAY);
+
+      const { files } = GameEngine.previewDayRollback(DAY);
+
+      expect(files).not.toContain("julesanger-samling.txt");
+    });
+
+    it("should list badges and crises that depend on the day", async () => {
+      await solveDay(11);
+      BadgeManager.checkAndAwardBadge("antenne-ingenior", true);
+
+      const plan = GameEngine.previewDayRollback(11);
+
+      expect(plan.badges).toEqual(["antenne-ingenior"]);
+      expect(plan.bonusOppdrag).toBe(true);
+      expect(plan.crises).toEqual(["antenna"]);
+    });
+
+    it("should only lock modules the calendar hasn't unlocked", async () => {
+      await solveDay(4);
+      expect(GameEngine.previewDayRollback(4).modules).toEqual(["NISSEKRYPTO"]);
+
+      process.env.NEXT_PUBLIC_MOCK_DAY = "6";
+      expect(GameEngine.previewDayRollback(4).modules).toEqual([]);
+    });
+
+    it("should find nothing to remove on an unsolved day", () => {
+      const plan = GameEngine.previewDayRollback(DAY);
+
+      expect(plan.code).toBeNull();
+      expect(plan.files).toEqual([]);
+      expect(plan.badges).toEqual([]);
+    });
+  });
+
+  describe("rollbackDay", () => {
+    it("should make the day unsolved and remove its reveals", async () => {
+      await solveDay(DAY);
+      GameEngine.collectSymbolByCode(quest.symbol_clue!.symbolId);
+      solveChallenge();
+
+      GameEngine.rollbackDay(DAY);
+
+      expect(GameEngine.isQuestCompleted(DAY)).toBe(false);
+      expect(StorageManager.getUnlockedFiles()).toEqual([]);
+      expect(StorageManager.isTopicUnlocked("julesanger")).toBe(false);
+      expect(StorageManager.hasSymbol(quest.symbol_clue!.symbolId)).toBe(false);
+      expect(GameEngine.isDecryptionSolved(challenge.challengeId)).toBe(false);
+    });
+
+    it("should leave other days alone", async () => {
+      await solveDay(DAY);
+      await solveDay(SHARED_FILE_DAY);
+      await GameEngine.submitCode("feil", questByDay(13).kode, 13);
+
+      GameEngine.rollbackDay(DAY);
+
+      expect(GameEngine.isQuestCompleted(SHARED_FILE_DAY)).toBe(true);
+      expect(StorageManager.isFileUnlocked("julesanger-samling.txt")).toBe(
+        true,
+      );
+      expect(GameEngine.getFailedAttempts(13)).toBe(1);
+    });
+
+    it("should take back dependent badges and reopen their crisis", async () => {
+      await solveDay(11);
+      BadgeManager.checkAndAwardBadge("antenne-ingenior", true);
+
+      GameEngine.rollbackDay(11);
+
+      expect(BadgeManager.isBadgeEarned("antenne-ingenior")).toBe(false);
+      expect(GameEngine.isBonusOppdragCompleted(questByDay(11))).toBe(false);
+      expect(GameEngine.isCrisisResolved("antenna")).toBe(false);
+    });
+
+    it("should be replayable from the event log", async () => {
+      await solveDay(DAY);
+      await GameEngine.submitCode("feil", questByDay(13).kode, 13);
+      GameEngine.collectSymbolByCode(quest.symbol_clue!.symbolId);
+      solveChallenge();
+
+      GameEngine.rollbackDay(DAY);
+
+      expect(GameEngine.replayGameEventLog().differences).toEqual([]);
+      expect(GameEngine.getGameEventLog()).toContainEqual(
+        expect.objectContaining({
+          type: "parent-override",
+          action: "day-rolled-back",
+          target: String(DAY),
+        }),
+      );
+    });
+  });
+
+  describe("rollbackFamilyDay", () => {
+    const SESSION = "family-session-1";
+    const profiles = syncChildProfiles(["Emma", "Ola"]);
+
+    beforeEach(async () => {
+      await StorageManager.setAuthenticated(true, SESSION);
+    });
+
+    afterEach(async () => {
+      await StorageManager.selectProfile(SESSION, SHARED_PROFILE_ID);
+    });
+
+    it("should preview the day for every profile", async () => {
+      await StorageManager.selectProfile(SESSION, "emma");
+      await solveDay(DAY);
+      await StorageManager.selectProfile(SESSION, SHARED_PROFILE_ID);
+
+      const rollbacks = await GameEngine.previewFamilyDayRollback(
+        DAY,
+        SESSION,
+        profiles,
+      );
+
+      expect(rollbacks.map((r) => [r.profileId, r.navn, r.plan.code])).toEqual([
+        [SHARED_PROFILE_ID, "Alle sammen", null],
+        ["emma", "Emma", quest.kode],
+        ["ola", "Ola", null],
+      ]);
+    });
+
+    it("should roll the day back in every profile", async () => {
+      await StorageManager.selectProfile(SESSION, "emma");
+      await solveDay(DAY);
+      await StorageManager.selectProfile(SESSION, SHARED_PROFILE_ID);
+      await solveDay(DAY);
+      await solveDay(SHARED_FILE_DAY);
+
+      await GameEngine.rollbackFamilyDay(DAY, SESSION, profiles);
+
+      expect(GameEngine.isQuestCompleted(DAY)).toBe(false);
+      expect(GameEngine.isQuestCompleted(SHARED_FILE_DAY)).toBe(true);
+      await StorageManager.selectProfile(SESSION, "emma");
+      expect(GameEngine.isQuestCompleted(DAY)).toBe(false);
+      // Only played profiles get an override in their log
+      await StorageManager.selectProfile(SESSION, "ola");
+      expect(GameEngine.getGameEventLog()).toEqual([]);
+    });
+  });
+});
@@ -397,7 +397,7 @@ describe("GameEngine", () => {
       const success = await GameEngine.importGameState(exported);
       expect(success).toBe(true);
 
-      // Verify state restored (note: export/import is Phase 2 feature, not all data included yet)
+      // Verify state restored
       expect(GameEngine.getCompletedQuestCount()).toBe(5);
     });
   });
@@ -0,0 +1,274 @@
+/**
+ * Game Events Tests
+ *
+ * Tests the append-only game event log:
+ * - GameEngine, BadgeManager and symbol-system record their changes
+ * - Replaying the log rebuilds the stored state
+ * - Resets, imports and parent overrides during replay
+ * - Differences between the log and storage are reported
+ */
+
+import { describe, it, expect, beforeEach } from "@jest/globals";
+import { GameEngine } from "../game-engine";
+import { StorageManager } from "../storage";
+import { BadgeManager } from "../badge-system";
+import {
+  compareGameState,
+  rebuildGameState,
+  type GameEvent,
+  type GameEventInput,
+  type GameStateSnapshot,
+} from "../game-events";
+
+const quests = GameEngine.getAllQuests();
+
+// Quests with a plain code (not the family kid code)
+const codedQuests = quests.filter((q) => q.kode && !q.kode.includes("{{"));
+const quest = codedQuests[0];
+const challengeQuest = quests.find((q) => q.decryption_challenge)!;
+
+let nextId = 0;
+function event(input: GameEventInput & { at?: string }): GameEvent {
+  nextId++;
+  return {
+    at: `2025-12-01T10:00:${String(nextId).padStart(2, "0")}.000Z`,
+    ...input,
+    id: `event-${nextId}`,
+  } as GameEvent;
+}
+
+describe("Game Events", () => {
+  beforeEach(() => {
+    localStorage.clear();
+  });
+
+  describe("recording", () => {
+    it("should record wrong and right codes with what was typed", async () => {
+      await GameEngine.submitCode("feil", quest.kode, quest.dag);
+      await GameEngine.submitCode(
+        ` ${quest.kode.toLowerCase()} `,
+        quest.kode,
+        quest.dag,
+      );
+
+      const codeEvents = GameEngine.getGameEventLog().filter(
+        (e) => e.type === "code-submitted",
+      );
+
+      expect(codeEvents).toEqual([
+        expect.objectContaining({
+          day: quest.dag,
+          result: "feil",
+          input: "FEIL",
+        }),
+        expect.objectContaining({
+          day: quest.dag,
+          result: "riktig",
+          input: quest.kode.toUpperCase(),
+          kode: quest.kode.toUpperCase(),
+        }),
+      ]);
+    });
+
+    it("should not record a code that was already registered", async () => {
+      await GameEngine.submitCode(quest.kode, quest.kode, quest.dag);
+      const before = GameEngine.getGameEventLog().length;
+
+      await GameEngine.submitCode(quest.kode, quest.kode, quest.dag);
+
+      expect(GameEngine.getGameEventLog()).toHaveLength(before);
+    });
+
+    it("should record scanned symbols and decryption attempts", () => {
+      GameEngine.collectSymbolByCode("heart-green");
+      GameEngine.collectSymbolByCode("heart-green"); // Duplicate, no change
+      GameEngine.validateDecryptionSequence(
+        challengeQuest.decryption_challenge!.challengeId,
+        [],
+      );
+
+      expect(GameEngine.getGameEventLog().map((e) => e.type)).toEqual([
+        "symbol-scanned",
+        "decryption-attempted",
+      ]);
+    });
+
+    it("should tell earned badges from parent-awarded ones", () => {
+      BadgeManager.checkAndAwardBadge("antenne-ingenior", true);
+
+      expect(GameEngine.getGameEventLog()).toEqual([
+        expect.objectContaining({
+          type: "parent-override",
+          action: "badge-awarded",
+          target: "antenne-ingenior",
+        }),
+      ]);
+    });
+
+    it("should stamp every event with a unique id and time", async () => {
+      await GameEngine.submitCode("feil", quest.kode, quest.dag);
+      await GameEngine.submitCode("feil", quest.kode, quest.dag);
+
+      const [first, second] = GameEngine.getGameEventLog();
+
+      expect(first.id).not.toBe(second.id);
+      expect(Number.isNaN(Date.parse(first.at))).toBe(false);
+    });
+  });
+
+  describe("replay", () => {
+    it("should rebuild what the game stored", async () => {
+      await GameEngine.submitCode("feil", quest.kode, quest.dag);
+      await GameEngine.submitCode(quest.kode, quest.kode, quest.dag);
+      await GameEngine.submitCode(
+        "feil",
+        codedQuests[1].kode,
+        codedQuests[1].dag,
+      );
+      GameEngine.collectSymbolByCode("heart-green");
+      GameEngine.validateDecryptionSequence(
+        challengeQuest.decryption_challenge!.challengeId,
+        [],
+      );
+
+      const replay = GameEngine.replayGameEventLog();
+
+      expect(replay.differences).toEqual([]);
+      expect(replay.state.submittedCodes.map((c) => c.day)).toEqual([
+        quest.dag,
+      ]);
+      expect(replay.state.failedAttempts).toEqual({ [codedQuests[1].dag]: 1 });
+    });
+
+    it("should report progress written without an event", () => {
+      StorageManager.addSolvedDecryption("challenge-x");
+
+      const replay = GameEngine.replayGameEventLog();
+
+      expect(replay.differences).toEqual([
+        {
+          field: "solvedDecryptions",
+          onlyInLog: [],
+          onlyInStorage: ["challenge-x"],
+        },
+      ]);
+    });
+
+    it("should apply parent overrides", () => {
+      const { state } = rebuildGameState([
+        event({ type: "badge-awarded", badgeId: "kodeknekker" }),
+        event({
+          type: "parent-override",
+          action: "badge-awarded",
+          target: "antenne-ingenior",
+        }),
+        event({
+          type: "parent-override",
+          action: "badge-revoked",
+          target: "kodeknekker",
+        }),
+        event({ type: "symbol-scanned", symbolId: "heart-green" }),
+        event({ type: "parent-override", action: "symbols-cleared" }),
+        event({
+          type: "parent-override",
+          action: "decryption-solved",
+          target: "challenge-1",
+        }),
+      ]);
+
+      expect(state.earnedBadges).toEqual(["antenne-ingenior"]);
+      expect(state.collectedSymbols).toEqual([]);
+      expect(state.solvedDecryptions).toEqual(["challenge-1"]);
+    });
+
+    it("should start over at the last reset or import", () => {
+      const resetAt = "2025-12-05T08:00:00.000Z";
+      const rebuilt = rebuildGameState([
+        event({
+          type: "code-submitted",
+          day: 1,
+          result: "riktig",
+          input: "A",
+          at: "2025-12-01T08:00:00.000Z",
+        }),
+        event({
+          type: "parent-override",
+          action: "game-reset",
+          at: resetAt,
+        }),
+        event({
+          type: "code-submitted",
+          day: 2,
+          result: "riktig",
+          input: "B",
+          at: "2025-12-06T08:00:00.000Z",
+        }),
+      ]);
+
+      expect(rebuilt.replayFrom).toEqual({ action: "game-reset", at: resetAt });
+      expect(rebuilt.state.submittedCodes.map((c) => c.day)).toEqual([2]);
+    });
+
+    it("should replay merged logs in time order", () => {
+      const solved = event({
+        type: "code-submitted",
+        day: 3,
+        result: "riktig",
+        input: "C",
+        at: "2025-12-03T10:00:00.000Z",
+      });
+      const earlierMiss = event({
+        type: "code-submitted",
+        day: 3,
+        result: "feil",
+        input: "X",
+        at: "2025-12-03T09:00:00.000Z",
+      });
+
+      const { state } = rebuildGameState([solved, earlierMiss]);
+
+      // The miss came first, so solving the day cleared it
+      expect(state.failedAttempts).toEqual({});
+      expect(state.submittedCodes).toEqual([
+        { day: 3, kode: "C", dato: solved.at },
+      ]);
+    });
+  });
+
+  describe("compareGameState", () => {
+    const empty: GameStateSnapshot = {
+      submittedCodes: [],
+      failedAttempts: {},
+      collectedSymbols: [],
+      earnedBadges: [],
+      solvedDecryptions: [],
+      decryptionAttempts: {},
+    };
+
+    it("should compare counters by value", () => {
+      const differences = compareGameState(
+        { ...empty, failedAttempts: { 4: 2 } },
+        { ...empty, failedAttempts: { 4: 3 } },
+      );
+
+      expect(differences).toEqual([
+        { field: "failedAttempts", onlyInLog: ["4:2"], onlyInStorage: ["4:3"] },
+      ]);
+    });
+  });
+
+  describe("describeGameEvent", () => {
+    it("should place symbol events on the day that reveals the symbol", () => {
+      const symbolQuest = quests.find((q) => q.symbol_clue)!;
+      const summary = GameEngine.describeGameEvent(
+        event({
+          type: "symbol-scanned",
+          symbolId: symbolQuest.symbol_clue!.symbolId,
+        }),
+      );
+
+      expect(summary.day).toBe(symbolQuest.dag);
+      expect(summary.text).toMatch(/^Symbol skannet: /);
+    });
+  });
+});
@@ -0,0 +1,241 @@
+/**
+ * Hint Ladder Tests
+ *
+ * Tests Rampenissen's progressive hints in KodeTerminal:
+ * - Hint mode resolution and persistence
+ * - Steps unlock by failed attempts or time since the first failed code
+ * - Fast mode halves thresholds, off mode shows nothing
+ * - GameEngine tracks the first failed code and resets on success
+ * - Translations, variants and validation
+ */
+
+import {
+  describe,
+  it,
+  expect,
+  beforeEach,
+  afterEach,
+  jest,
+} from "@jest/globals";
+import {
+  DEFAULT_HINT_MODE,
+  getActiveHintMode,
+  getHintLadderStatus,
+  resolveHintMode,
+  setActiveHintMode,
+} from "../hint-ladder";
+import { GameEngine } from "../game-engine";
+import { StorageManager } from "../storage";
+import { getAllQuests, getFamilyQuests } from "../data-loader";
+import { collectOppdragErrors } from "../validators/quest-validator";
+import type { Oppdrag } from "@/types/innhold";
+
+const QUEST = {
+  dag: 2,
+  kode: "34",
+  hint_trapp: [
+    { tekst: "Første", etter_forsok: 2, etter_minutter: 10 },
+    { tekst: "Andre", etter_forsok: 4 },
+    { tekst: "Tredje", etter_minutter: 30 },
+  ],
+} as unknown as Oppdrag;
+
+const START = "2025-12-02T18:00:00.000Z";
+
+function minutesAfterStart(minutes: number): Date {
+  return new Date(new Date(START).getTime() + minutes * 60000);
+}
+
+describe("Hint Ladder", () => {
+  beforeEach(() => {
+    localStorage.clear();
+    setActiveHintMode(DEFAULT_HINT_MODE);
+  });
+
+  describe("hint mode selection", () => {
+    it("should resolve unknown or missing modes to normal", () => {
+      expect(resolveHintMode("rask")).toBe("rask");
+      expect(resolveHintMode("turbo")).toBe("normal");
+      expect(resolveHintMode(undefined)).toBe("normal");
+    });
+
+    it("should persist the active mode in localStorage", () => {
+      expect(setActiveHintMode("av")).toBe("av");
+      expect(getActiveHintMode()).toBe("av");
+      expect(localStorage.getItem("nissekomm-hint-mode")).toBe("av");
+    });
+
+    it("should fall back to normal for unknown modes", () => {
+      const warn = jest.spyOn(console, "warn").mockImplementation(() => {});
+      expect(setActiveHintMode("alltid")).toBe("normal");
+      expect(warn).toHaveBeenCalled();
+      warn.mockRestore();
+    });
+  });
+
+  describe("getHintLadderStatus", () => {
+    it("should show nothing before the first failed code", () => {
+      const status = getHintLadderStatus(
+        QUEST,
+        { failedAttempts: 0, firstFailedAt: null, now: new Date() },
+        "normal",
+      );
+
+      expect(status.unlocked).toEqual([]);
+      expect(status.total).toBe(3);
+      expect(status.next?.attemptsLeft).toBe(2);
+      expect(status.next?.minutesLeft).toBeUndefined();
+    });
+
+    it("should unlock steps by failed attempts", () => {
+      const status = getHintLadderStatus(
+        QUEST,
+        { failedAttempts: 4, firstFailedAt: START, now: minutesAfterStart(1) },
+        "normal",
+      );
+
+      expect(status.unlocked.map((h) => h.tekst)).toEqual(["Første", "Andre"]);
+      expect(status.next).toEqual({
+        attemptsLeft: undefined,
+        minutesLeft: 29,
+      });
+    });
+
+    it("should unlock steps by time since the first failed code", () => {
+      const status = getHintLadderStatus(
+        QUEST,
+        { failedAttempts: 1, firstFailedAt: START, now: minutesAfterStart(10) },
+        "normal",
+      );
+
+      expect(status.unlocked.map((h) => h.tekst)).toEqual(["Første"]);
+      expect(status.next?.attemptsLeft).toBe(3);
+    });
+
+    it("should never skip a locked step", () => {
+      const status = getHintLadderStatus(
+        QUEST,
+        { failedAttempts: 3, firstFailedAt: START, now: minutesAfterStart(45) },
+        "normal",
+      );
+
+      // Third step's time has passed, but the second still needs 4 attempts
+      expect(status.unlocked.map((h) => h.tekst)).toEqual(["Første"]);
+    });
+
+    it("should halve thresholds in fast mode", () => {
+      const status = getHintLadderStatus(
+        QUEST,
+        { failedAttempts: 2, firstFailedAt: START, now: minutesAfterStart(15) },
+        "rask",
+      );
+
+      expect(status.unlocked).toHaveLength(3);
+      expect(status.next).toBeUndefined();
+    });
+
+    it("should show nothing when hints are off", () => {
+      const status = getHintLadderStatus(
+        QUEST,
+        {
+          failedAttempts: 10,
+          firstFailedAt: START,
+          now: minutesAfterStart(60),
+        },
+        "av",
+      );
+
+      expect(status).toEqual({ unlocked: [], total: 0 });
+    });
+  });
+
+  describe("GameEngine integration", () => {
+    const originalEnv = { ...process.env };
+
+    beforeEach(() => {
+      process.env.NEXT_PUBLIC_MOCK_DAY = "2";
+      process.env.NEXT_PUBLIC_MOCK_MONTH = "12";
+    });
+
+    afterEach(() => {
+      process.env = { ...originalEnv };
+    });
+
+    it("should record the first failed code and clear it on success", async () => {
+      await GameEngine.submitCode("1", "34", 2);
+      const firstFailedAt = StorageManager.getFirstFailedAttemptTime(2);
+      await GameEngine.submitCode("2", "34", 2);
+
+      expect(firstFailedAt).not.toBeNull();
+      expect(StorageManager.getFirstFailedAttemptTime(2)).toBe(firstFailedAt);
+      expect(GameEngine.getHintLadder(QUEST).unlocked).toHaveLength(1);
+
+      await GameEngine.submitCode("34", "34", 2);
+
+      expect(StorageManager.getFirstFailedAttemptTime(2)).toBeNull();
+      expect(GameEngine.getHintLadder(QUEST).unlocked).toEqual([]);
+    });
+  });
+
+  describe("content", () => {
+    it("should translate hint texts but keep thresholds", () => {
+      const nb = getAllQuests("2025").find((q) => q.dag === 3);
+      const en = getFamilyQuests("2025", "en", "normal").find(
+        (q) => q.dag === 3,
+      );
+
+      expect(en?.hint_trapp).toHaveLength(nb?.hint_trapp?.length ?? -1);
+      expect(en?.hint_trapp?.[0].tekst).not.toBe(nb?.hint_trapp?.[0].tekst);
+      expect(en?.hint_trapp?.[0].etter_forsok).toBe(
+        nb?.hint_trapp?.[0].etter_forsok,
+      );
+    });
+
+    it("should use the variant's ladder when it has its own code", () => {
+      const normal = getFamilyQuests("2025", "nb", "normal").find(
+        (q) => q.dag === 2,
+      );
+      const lett = getFamilyQuests("2025", "nb", "lett").find(
+        (q) => q.dag === 2,
+      );
+      const lettEn = getFamilyQuests("2025", "en", "lett").find(
+        (q) => q.dag === 2,
+      );
+
+      expect(lett?.hint_trapp).not.toEqual(normal?.hint_trapp);
+      expect(lettEn?.hint_trapp?.length).toBe(lett?.hint_trapp?.length);
+      expect(lettEn?.hint_trapp?.[0].tekst).not.toBe(
+        lett?.hint_trapp?.[0].tekst,
+      );
+    });
+
+    it("should keep the base ladder for variants without one", () => {
+      const normal = getFamilyQuests("2025", "en", "normal").find(
+        (q) => q.dag === 5,
+      );
+      const lett = getFamilyQuests("2025", "en", "lett").find(
+        (q) => q.dag === 5,
+      );
+
+      expect(lett?.hint_trapp).toEqual(normal?.hint_trapp);
+    });
+
+    it("should reject steps without text or a way to unlock", () => {
+      const quest = {
+        ...getAllQuests("2025")[1],
+        hint_trapp: [
+          { tekst: "", etter_forsok: 2 },
+          { tekst: "Uten terskel" },
+          { tekst: "Null forsøk", etter_forsok: 0 },
+        ],
+      } as Oppdrag;
+
+      const errors = collectOppdragErrors(quest, 1);
+
+      expect(errors).toHaveLength(3);
+      expect(errors[0]).toContain("hint_trapp[0] is missing tekst");
+      expect(errors[1]).toContain("hint_trapp[1] needs etter_forsok");
+      expect(errors[2]).toContain("hint_trapp[2].etter_forsok");
+    });
+  });
+});
@@ -0,0 +1,147 @@
+/**
+ * Localization Tests
+ *
+ * Tests UI message catalogs and translated season content:
+ * - Locale resolution, persistence and fallback to bokmål
+ * - t() interpolation and catalog completeness
+ * - Quest and eventyr translations never change codes or game data
+ */
+
+import { describe, it, expect, beforeEach, jest } from "@jest/globals";
+import {
+  DEFAULT_LOCALE,
+  SUPPORTED_LOCALES,
+  getActiveLocale,
+  getDateLocale,
+  localizeEventyr,
+  localizeOppdrag,
+  resolveLocale,
+  setActiveLocale,
+  t,
+} from "../i18n";
+import { getAllQuests, getLocalizedQuests } from "../data-loader";
+import { getAllEventyr, getEventyr } from "../eventyr";
+import { getSeasonPack } from "../season-packs";
+
+import nb from "@/data/locales/nb.json";
+import nn from "@/data/locales/nn.json";
+import en from "@/data/locales/en.json";
+
+const PARAM = /\{[^}]+\}/g;
+
+describe("i18n", () => {
+  beforeEach(() => {
+    localStorage.clear();
+    setActiveLocale(DEFAULT_LOCALE);
+  });
+
+  describe("locale selection", () => {
+    it("should resolve unknown or missing locales to bokmål", () => {
+      expect(resolveLocale("en")).toBe("en");
+      expect(resolveLocale("sv")).toBe("nb");
+      expect(resolveLocale(undefined)).toBe("nb");
+    });
+
+    it("should persist the active locale in localStorage", () => {
+      expect(setActiveLocale("nn")).toBe("nn");
+      expect(getActiveLocale()).toBe("nn");
+      expect(localStorage.getItem("nissekomm-locale")).toBe("nn");
+    });
+
+    it("should fall back to bokmål for unknown locales", () => {
+      const warn = jest.spyOn(console, "warn").mockImplementation(() => {});
+      expect(setActiveLocale("de")).toBe("nb");
+      expect(warn).toHaveBeenCalled();
+      warn.mockRestore();
+    });
+
+    it("should map locales to Intl date locales", () => {
+      expect(getDateLocale("nb")).toBe("nb-NO");
+      expect(getDateLocale("en")).toBe("en-GB");
+    });
+  });
+
+  describe("t()", () => {
+    it("should translate with the active locale", () => {
+      expect(t("kalender.visOppdrag")).toBe("VIS OPPDRAG");
+      setActiveLocale("en");
+      expect(t("kalender.visOppdrag")).toBe("SHOW MISSION");
+    });
+
+    it("should interpolate parameters", () => {
+      expect(t("felles.dag", { dag: 7 }, "en")).toBe("DAY 7");
+      expect(t("felles.dato", { dag: 3, år: 2025 }, "nb")).toBe(
+        "DESEMBER 3, 2025",
+      );
+    });
+
+    it("should leave unknown parameters untouched", () => {
+      expect(t("felles.dag", {}, "nb")).toBe("DAG {dag}");
+    });
+
+    it("should only contain keys defined in the bokmål catalog", () => {
+      const keys = Object.keys(nb);
+      [nn, en].forEach((catalog) =>
+        Object.keys(catalog).forEach((key) => expect(keys).toContain(key)),
+      );
+    });
+
+    it("should use the same parameters in every catalog", () => {
+      [nn, en].forEach((catalog) =>
+        Object.entries(catalog).forEach(([key, text]) => {
+          const source = nb[key as keyof typeof nb];
+          expect((text.match(PARAM) ?? []).sort()).toEqual(
+            (source.match(PARAM) ?? []).sort(),
+          );
+        }),
+      );
+    });
+  });
+
+  describe("content translations", () => {
+    it("should translate quest text but keep codes and game data", () => {
+      const quests = getAllQuests("2025");
+
+      SUPPORTED_LOCALES.forEach((locale) => {
+        const localized = getLocalizedQuests("2025", locale);
+        expect(localized).toHaveLength(quests.length);
+
+        localized.forEach((quest, i) => {
+          expect(quest.dag).toBe(quests[i].dag);
+          expect(quest.kode).toBe(quests[i].kode);
+          expect(quest.reveals).toEqual(quests[i].reveals);
+          expect(quest.requires).toEqual(quests[i].requires);
+          expect(quest.bonusoppdrag?.badge_id).toBe(
+            quests[i].bonusoppdrag?.badge_id,
+          );
+        });
+      });
+    });
+
+    it("should fall back to bokmål for untranslated fields", () => {
+      const [day24] = getAllQuests("2025").filter((q) => q.dag === 24);
+      const localized = localizeOppdrag(day24, "en", "2025");
+
+      expect(localized.tittel).toBe("Christmas Eve - The Ultimate Finale");
+      expect(localized.nissemail_tekst).toBe(day24.nissemail_tekst);
+    });
+
+    it("should return bokmål quests unchanged", () => {
+      const quests = getAllQuests("2025");
+      expect(getLocalizedQuests("2025", "nb")).toEqual(quests);
+    });
+
+    it("should translate eventyr in the active locale", () => {
+      const source = getSeasonPack("2025").eventyr.eventyr[0];
+      expect(localizeEventyr(source, "nb", "2025")).toBe(source);
+
+      setActiveLocale("en");
+      const translated = getEventyr(source.id);
+      expect(translated?.navn).not.toBe(source.navn);
+      expect(translated?.farge).toBe(source.farge);
+      expect(getAllEventyr()).toHaveLength(
+        getSeasonPack("2025").eventyr.eventyr.length,
+      );
+    });
+  });
+});
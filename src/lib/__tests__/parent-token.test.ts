@@ -0,0 +1,214 @@
+/**
+ * @jest-environment node
+ */
+
+/**
+ * Parent Token Tests
+ *
+ * Tests the signed parent tokens behind the nissekomm-parent-auth cookie:
+ * - Tokens verify for the session they were issued for
+ * - Edited, foreign and expired tokens are refused
+ * - Revocation by issue time
+ * - No tokens in production without PARENT_TOKEN_SECRET
+ * - Magic link tokens: separate role, short-lived, spent once used
+ */
+
+import { describe, it, expect, afterEach } from "@jest/globals";
+import {
+  createMagicLinkToken,
+  createParentToken,
+  isMagicLinkSpent,
+  isParentTokenRevoked,
+  MAGIC_LINK_TTL_MS,
+  PARENT_TOKEN_TTL_MS,
+  verifyMagicLinkToken,
+  verifyParentToken,
+} from "../parent-token";
+
+const SESSION = "550e8400-e29b-41d4-a716-446655440000";
+const NOW = Date.parse("2025-12-07T18:00:00.000Z");
+
+describe("Parent Token", () => {
+  const originalSecret = process.env.PARENT_TOKEN_SECRET;
+  const originalEnv = process.env.NODE_ENV;
+  const setNodeEnv = (value: string | undefined) => {
+    (process.env as Record<string, string | undefined>).NODE_ENV = value;
+  };
+
+  afterEach(() => {
+    process.env.PARENT_TOKEN_SECRET = originalSecret;
+    setNodeEnv(originalEnv);
+  });
+
+  describe("secret", () => {
+    it("should refuse to issue or accept tokens in production without a secret", () => {
+      const token = createParentToken(SESSION, NOW);
+      const link = createMagicLinkToken(SESSION, NOW);
+      delete process.env.PARENT_TOKEN_SECRET;
+      setNodeEnv("production");
+
+      expect(() => createParentToken(SESSION, NOW)).toThrow(
+        "PARENT_TOKEN_SECRET",
+      );
+      expect(() => createMagicLinkToken(SESSION, NOW)).toThrow(
+        "PARENT_TOKEN_SECRET",
+      );
+      expect(() => verifyParentToken(token, SESSION, NOW)).toThrow(
+        "PARENT_TOKEN_SECRET",
+      );
+      expect(() => verifyMagicLinkToken(link, NOW)).toThrow(
+        "PARENT_TOKEN_SECRET",
+      );
+    });
+
+    it("should use the secret in production when it is set", () => {
+      process.env.PARENT_TOKEN_SECRET = "production-secret";
+      setNodeEnv("production");
+
+      const token = createParentToken(SESSION, NOW);
+
+      expect(verifyParentToken(token, SESSION, NOW)).not.toBeNull();
+    });
+  });
+
+  describe("verifyParentToken", () => {
+    it("should return the claims of a token for the session", () => {
+      const token = createParentToken(SESSION, NOW);
+
+      expect(verifyParentToken(token, SESSION, NOW)).toEqual({
+        sid: SESSION,
+        role: "parent",
+        iat: NOW,
+        exp: NOW + PARENT_TOKEN_TTL_MS,
+      });
+    });
+
+    it("should refuse a token for another session", () => {
+      const token = createParentToken("other-session", NOW);
+
+      expect(verifyParentToken(token, SESSION, NOW)).toBeNull();
+    });
+
+    it("should refuse edited claims", () => {
+      const [, signature] = createParentToken(SESSION, NOW).split(".");
+      const forged = Buffer.from(
+        JSON.stringify({
+          sid: SESSION,
+          role: "parent",
+          iat: NOW,
+          exp: NOW + 10 * PARENT_TOKEN_TTL_MS,
+        }),
+      ).toString("base64url");
+
+      expect(verifyParentToken(`${forged}.${signature}`, SESSION, NOW)).toBe(
+        null,
+      );
+    });
+
+    it("should refuse a token signed with another secret", () => {
+      process.env.PARENT_TOKEN_SECRET = "first-secret";
+      const token = createParentToken(SESSION, NOW);
+      process.env.PARENT_TOKEN_SECRET = "second-secret";
+
+      expect(verifyParentToken(token, SESSION, NOW)).toBeNull();
+    });
+
+    it("should refuse an expired token", () => {
+      const token = createParentToken(SESSION, NOW);
+
+      expect(
+        verifyParentToken(token, SESSION, NOW + PARENT_TOKEN_TTL_MS),
+      ).toBeNull();
+    });
+
+    it("should refuse a plain session id and garbage", () => {
+      expect(verifyParentToken(SESSION, SESSION, NOW)).toBeNull();
+      expect(verifyParentToken("a.b.c", SESSION, NOW)).toBeNull();
+      expect(verifyParentToken("", SESSION, NOW)).toBeNull();
+    });
+  });
+
+  describe("isParentTokenRevoked", () => {
+    const claims = verifyParentToken(
+      createParentToken(SESSION, NOW),
+      SESSION,
+      NOW,
+    )!;
+
+    it("should revoke tokens issued before the revocation", () => {
+      expect(
+        isParentTokenRevoked(claims, new Date(NOW + 1000).toISOString()),
+      ).toBe(true);
+    });
+
+    it("should keep tokens issued after it", () => {
+      expect(
+        isParentTokenRevoked(claims, new Date(NOW - 1000).toISOString()),
+      ).toBe(false);
+      expect(isParentTokenRevoked(claims, undefined)).toBe(false);
+    });
+  });
+
+  describe("magic links", () => {
+    it("should return the claims of an unexpired link token", () => {
+      const token = createMagicLinkToken(SESSION, NOW);
+
+      expect(verifyMagicLinkToken(token, NOW)).toEqual({
+        sid: SESSION,
+        role: "magic-link",
+        iat: NOW,
+        exp: NOW + MAGIC_LINK_TTL_MS,
+      });
+      expect(verifyMagicLinkToken(token, NOW + MAGIC_LINK_TTL_MS)).toBeNull();
+    });
+
+    it("should not mix up link tokens and parent tokens", () => {
+      expect(
+        verifyMagicLinkToken(createParentToken(SESSION, NOW), NOW),
+      ).toBeNull();
+      expect(
+        verifyParentToken(createMagicLinkToken(SESSION, NOW), SESSION, NOW),
+      ).toBeNull();
+    });
+
+    it("should refuse an edited link token", () => {
+      const [, signature] = createMagicLinkToken(SESSION, NOW).split(".");
+      const forged = Buffer.from(
+        JSON.stringify({
+          sid: "other-session",
+          role: "magic-link",
+          iat: NOW,
+          exp: NOW + MAGIC_LINK_TTL_MS,
+        }),
+      ).toString("base64url");
+
+      expect(verifyMagicLinkToken(`${forged}.${signature}`, NOW)).toBeNull();
+    });
+
+    it("should spend a link once it or a later one was used", () => {
+      const claims = verifyMagicLinkToken(
+        createMagicLinkToken(SESSION, NOW),
+        NOW,
+      )!;
+
+      expect(isMagicLinkSpent(claims, undefined, undefined)).toBe(false);
+      expect(
+        isMagicLinkSpent(claims, new Date(NOW).toISOString(), undefined),
+      ).toBe(true);
+      expect(
+        isMagicLinkSpent(claims, new Date(NOW - 1000).toISOString(), undefined),
+      ).toBe(false);
+    });
+
+    it("should spend links issued before parent tokens were revoked", () => {
+      const claims = verifyMagicLinkToken(
+        createMagicLinkToken(SESSION, NOW),
+        NOW,
+      )!;
+
+      expect(
+        isMagicLinkSpent(claims, undefined, new Date(NOW + 1000).toISOString()),
+      ).toBe(true);
+    });
+  });
+});
@@ -0,0 +1,99 @@
+/**
+ * Playthrough Simulator Tests
+ *
+ * Plays a full December headlessly for every shipped season:
+ * - Every day's code is accepted and every decryption is solved
+ * - Every badge, gated file and module is obtained
+ * - The simulation does not leak state into real storage
+ */
+
+import { describe, it, expect, beforeEach } from "@jest/globals";
+import {
+  formatPlaythroughTimeline,
+  simulatePlaythrough,
+} from "../simulators/playthrough-simulator";
+import { getAvailableSeasons, getSeasonPack } from "../season-packs";
+import { BadgeManager } from "../badge-system";
+import { GameEngine } from "../game-engine";
+import { StorageManager } from "../storage";
+
+describe("Playthrough Simulator", () => {
+  beforeEach(() => {
+    localStorage.clear();
+  });
+
+  describe.each(getAvailableSeasons().map((s) => s.id))("season %s", (id) => {
+    it("should make all content reachable", async () => {
+      const report = await simulatePlaythrough({ seasonId: id });
+
+      expect(report.failures).toEqual([]);
+      expect(report.days).toHaveLength(24);
+      expect(report.days.every((d) => d.accepted)).toBe(true);
+    });
+
+    it("should earn every badge in merker.json", async () => {
+      const report = await simulatePlaythrough({ seasonId: id });
+      const earned = report.days.flatMap((d) => d.badges);
+
+      expect(earned.sort()).toEqual(
+        getSeasonPack(id)
+          .merker.merker.map((b) => b.id)
+          .sort(),
+      );
+    });
+
+    it("should solve every decryption challenge", async () => {
+      const report = await simulatePlaythrough({ seasonId: id });
+      const solved = report.days.flatMap((d) => d.decryptions);
+
+      const challenges = getSeasonPack(id)
+        .uker.flat()
+        .flatMap((q) =>
+          q.decryption_challenge ? [q.decryption_challenge.challengeId] : [],
+        );
+      expect(solved.sort()).toEqual(challenges.sort());
+    });
+  });
+
+  it("should unlock modules on the day their quest is completed", async () => {
+    const report = await simulatePlaythrough({ seasonId: "2025" });
+    const day4 = report.days.find((d) => d.day === 4);
+
+    expect(day4?.modules).toEqual(["NISSEKRYPTO"]);
+  });
+
+  it("should use the given kid code for {{KID_CODE}} quests", async () => {
+    const report = await simulatePlaythrough({
+      seasonId: "2025",
+      kidCode: "TESTKODE",
+    });
+
+    expect(report.days[0].code).toBe("TESTKODE");
+    expect(report.days[0].accepted).toBe(true);
+  });
+
+  it("should leave real storage untouched", async () => {
+    await simulatePlaythrough({ seasonId: "2025" });
+
+    expect(StorageManager.getSubmittedCodes()).toEqual([]);
+    expect(BadgeManager.getEarnedBadges()).toEqual([]);
+    expect(GameEngine.getUnlockedModules()).toEqual([]);
+  });
+
+  it("should restore the mocked date", async () => {
+    process.env.NEXT_PUBLIC_MOCK_DAY = "3";
+    await simulatePlaythrough({ seasonId: "2025" });
+
+    expect(process.env.NEXT_PUBLIC_MOCK_DAY).toBe("3");
+    delete process.env.NEXT_PUBLIC_MOCK_DAY;
+  });
+
+  it("should format a per-day timeline", async () => {
+    const report = await simulatePlaythrough({ seasonId: "2025" });
+    const timeline = formatPlaythroughTimeline(report);
+
+    expect(timeline).toContain("season 2025");
+    expect(timeline).toMatch(/Dag {2}4 ✅ RUDOLF\n {4}modules {6}NISSEKRYPTO/);
+    expect(timeline).toContain("Badges:  7/7");
+  });
+});
@@ -0,0 +1,288 @@
+/**
+ * Quest Answer Tests
+ *
+ * Tests keeping answers out of the kids' browser bundle:
+ * - The bundler loader strips the same fields as stripQuestAnswers()
+ * - Answers from /api/quest/answers restore the quests exactly
+ * - Parent overrides reach the kids' app without their codes
+ * - Codes and sequences are checked the same way locally and on the server
+ * - Legacy saves get their days from the full quests
+ * - GameEngine applies a validator's verdict to storage
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from "@jest/globals";
+import stripQuestFile from "../../../loaders/strip-quest-answers.cjs";
+import {
+  backfillSubmittedCodeDays,
+  checkDecryptionSequence,
+  checkQuestCode,
+  extractQuestAnswers,
+  hasQuestAnswers,
+  stripQuestAnswers,
+  stripQuestOverrideAnswers,
+  withQuestAnswers,
+} from "../quest-answers";
+import { LocalCodeValidator, type CodeValidator } from "../code-validator";
+import { getAllQuests } from "../data-loader";
+import { GameEngine } from "../game-engine";
+import { StorageManager } from "../storage";
+import { getSeasonPack } from "../season-packs";
+import { applyQuestOverride } from "../quest-overrides";
+import type { Oppdrag } from "@/types/innhold";
+
+const quests = getAllQuests("2025");
+
+function questForDay(day: number): Oppdrag {
+  const quest = quests.find((q) => q.dag === day);
+  if (!quest) throw new Error(`No quest for day ${day}`);
+  return quest;
+}
+
+describe("Quest Answers", () => {
+  describe("stripQuestAnswers", () => {
+    it("should leave only quest text", () => {
+      const stripped = quests.map(stripQuestAnswers);
+      const json = JSON.stringify(stripped);
+
+      expect(hasQuestAnswers(stripped)).toBe(false);
+      expect(json).not.toContain("alternative_koder");
+      expect(json).not.toContain('"kode":"SEKK"');
+      expect(stripped.find((q) => q.dag === 2)?.varianter?.lett?.kode).toBe(
+        undefined,
+      );
+      expect(
+        stripped.find((q) => q.dag === 12)?.decryption_challenge
+          ?.correctSequence,
+      ).toEqual([]);
+      expect(stripped.find((q) => q.dag === 12)?.tittel).toBe(
+        questForDay(12).tittel,
+      );
+    });
+
+    it("should match the bundler loader for every week", () => {
+      getSeasonPack("2025").uker.forEach((week) => {
+        expect(JSON.parse(stripQuestFile(JSON.stringify(week)))).toEqual(
+          week.map(stripQuestAnswers),
+        );
+      });
+    });
+  });
+
+  describe("withQuestAnswers", () => {
+    it("should restore stripped quests exactly", () => {
+      const restored = withQuestAnswers(
+        quests.map(stripQuestAnswers),
+        extractQuestAnswers(quests),
+      );
+
+      expect(restored).toEqual(quests);
+    });
+  });
+
+  describe("stripQuestOverrideAnswers", () => {
+    it("should leave out override codes but keep the text", () => {
+      expect(
+        stripQuestOverrideAnswers([
+          {
+            dag: 4,
+            kode: "BAMSE",
+            alternative_koder: ["TEDDY"],
+            fysisk_hint: "Under sofaen",
+          },
+          { dag: 5, kode: "KAKE" },
+          { dag: 6, tittel: "Vår egen dag" },
+        ]),
+      ).toEqual([
+        { dag: 4, egen_kode: true, fysisk_hint: "Under sofaen" },
+        { dag: 5, egen_kode: true },
+        { dag: 6, tittel: "Vår egen dag" },
+      ]);
+    });
+
+    it("should still drop the old answer's hints in the kids' app", () => {
+      const quest = stripQuestAnswers(questForDay(4));
+      const [override] = stripQuestOverrideAnswers([{ dag: 4, kode: "BAMSE" }]);
+
+      const overridden = applyQuestOverride(quest, [override]);
+
+      expect(overridden.kode).toBe("");
+      expect(overridden.hint_trapp).toBeUndefined();
+      expect(overridden).not.toHaveProperty("egen_kode");
+    });
+  });
+
+  describe("checkQuestCode", () => {
+    it("should return the quest's spelling only for a right answer", () => {
+      expect(checkQuestCode(questForDay(8), " sekk ")).toEqual({
+        match: "riktig",
+        kode: "SEKK",
+      });
+      expect(checkQuestCode(questForDay(8), "BAMSE")).toEqual({
+        match: "feil",
+      });
+    });
+
+    it("should use the family's kid code for {{KID_CODE}}", () => {
+      expect(
+        checkQuestCode(questForDay(1), "NISSEKRAFT2024", "NISSEKRAFT2024"),
+      ).toEqual({ match: "riktig", kode: "NISSEKRAFT2024" });
+      expect(checkQuestCode(questForDay(1), "NISSEKRAFT2024").match).toBeNull();
+    });
+
+    it("should refuse to check without the answer", () => {
+      const verdict = checkQuestCode(stripQuestAnswers(questForDay(8)), "");
+      expect(verdict.match).toBeNull();
+    });
+  });
+
+  describe("backfillSubmittedCodeDays", () => {
+    // Saved before entries had a day
+    const legacySave = [
+      { kode: "SEKK", dato: "2024-12-08T17:00:00.000Z" },
+      { kode: "NISSEKRAFT2024", dato: "2024-12-01T17:00:00.000Z" },
+      { kode: "UKJENT", dato: "2024-12-02T17:00:00.000Z" },
+      { kode: "BAMSE", dato: "2024-12-03T17:00:00.000Z", day: 3 },
+    ];
+
+    it("should need the full quests, since stripped ones match nothing", () => {
+      expect(
+        backfillSubmittedCodeDays(
+          legacySave,
+          quests.map(stripQuestAnswers),
+          "NISSEKRAFT2024",
+        ),
+      ).toBeNull();
+    });
+
+    it("should give legacy codes the day of the quest they solved", () => {
+      const backfilled = backfillSubmittedCodeDays(
+        legacySave,
+        quests,
+        "NISSEKRAFT2024",
+      );
+
+      expect(backfilled?.map((entry) => entry.day)).toEqual([
+        8,
+        1,
+        undefined,
+        3,
+      ]);
+    });
+
+    it("should leave saves that all have days alone", () => {
+      expect(
+        backfillSubmittedCodeDays([legacySave[3]], quests, "NISSEKRAFT2024"),
+      ).toBeNull();
+    });
+  });
+
+  describe("checkDecryptionSequence", () => {
+    const challenge = questForDay(12).decryption_challenge!;
+
+    it("should count symbols in the right place", () => {
+      expect(
+        checkDecryptionSequence(challenge, challenge.correctSequence),
+      ).toEqual({ correct: true, correctCount: 3 });
+      expect(checkDecryptionSequence(challenge, [1, 2, 0])).toEqual({
+        correct: false,
+        correctCount: 1,
+      });
+    });
+
+    it("should refuse to check without the answer", () => {
+      const stripped = stripQuestAnswers(questForDay(12));
+      expect(
+        checkDecryptionSequence(stripped.decryption_challenge!, [1, 0, 2])
+          .correct,
+      ).toBeNull();
+    });
+  });
+
+  describe("GameEngine with a code validator", () => {
+    const originalEnv = { ...process.env };
+
+    beforeEach(() => {
+      localStorage.clear();
+      process.env.NEXT_PUBLIC_MOCK_DAY = "1";
+      process.env.NEXT_PUBLIC_MOCK_MONTH = "12";
+    });
+
+    afterEach(() => {
+      GameEngine.resetDependencies();
+      process.env = { ...originalEnv };
+    });
+
+    it("should check codes locally in localStorage mode", async () => {
+      GameEngine.configure({ kidCodeResolver: async () => "NISSEKRAFT2024" });
+
+      expect((await GameEngine.submitQuestCode("BAMSE", 8)).success).toBe(
+        false,
+      );
+      expect(GameEngine.getFailedAttempts(8)).toBe(1);
+
+      const result = await GameEngine.submitQuestCode("nissekraft2024", 1);
+      expect(result.isNewCompletion).toBe(true);
+      expect(GameEngine.getSubmittedCodes()[0]).toMatchObject({
+        kode: "NISSEKRAFT2024",
+        day: 1,
+      });
+    });
+
+    it("should apply a server verdict without knowing the answer", async () => {
+      const server: CodeValidator = {
+        checkCode: async () => ({ match: "riktig", kode: "SEKK" }),
+        checkSequence: async () => ({ correct: false, correctCount: 1 }),
+      };
+      GameEngine.configure({ codeValidator: server });
+
+      const result = await GameEngine.submitQuestCode("whatever", 8);
+
+      expect(result.isNewCompletion).toBe(true);
+      expect(GameEngine.isQuestCompleted(8)).toBe(true);
+      questForDay(8).reveals?.files?.forEach((fileId) =>
+        expect(StorageManager.isFileUnlocked(fileId)).toBe(true),
+      );
+    });
+
+    it("should not count an unchecked code as a failed attempt", async () => {
+      GameEngine.configure({
+        codeValidator: {
+          checkCode: async () => ({ match: null, message: "OFFLINE" }),
+          checkSequence: async () => ({ correct: null, correctCount: 0 }),
+        },
+      });
+
+      const result = await GameEngine.submitQuestCode("SEKK", 8);
+
+      expect(result).toMatchObject({ success: false, message: "OFFLINE" });
+      expect(GameEngine.getFailedAttempts(8)).toBe(0);
+    });
+
+    it("should check decryption sequences through the validator", async () => {
+      const { challengeId, correctSequence } =
+        questForDay(12).decryption_challenge!;
+      GameEngine.configure({
+        codeValidator: new LocalCodeValidator(async () => null),
+      });
+
+      const wrong = await GameEngine.submitDecryptionSequence(
+        challengeId,
+        [1, 2, 0],
+      );
+      expect(wrong.message).toBe("1 av 3 symboler korrekt plassert!");
+
+      const tooShort = await GameEngine.submitDecryptionSequence(
+        challengeId,
+        [1],
+      );
+      expect(tooShort.message).toBe("Feil antall symboler");
+
+      const right = await GameEngine.submitDecryptionSequence(
+        challengeId,
+        correctSequence,
+      );
+      expect(right.correct).toBe(true);
+      expect(GameEngine.isDecryptionSolved(challengeId)).toBe(true);
+    });
+  });
+});
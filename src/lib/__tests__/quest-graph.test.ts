@@ -0,0 +1,157 @@
+/**
+ * Quest Graph Tests
+ *
+ * Tests the unlock graph builder used by /nissemor-guide/graf:
+ * - Edges from reveals/requires, symbols and file unlock conditions
+ * - Orphaned topic and unreachable file detection
+ * - Upstream dependencies of a day
+ * - Mermaid and DOT export
+ */
+
+import { describe, it, expect } from "@jest/globals";
+import {
+  buildQuestGraph,
+  dayNodeId,
+  filterGraph,
+  getUpstream,
+  toDot,
+  toMermaid,
+} from "../generators/quest-graph";
+import { getAllQuests, getStaticContent } from "../data-loader";
+import type { FilNode, Oppdrag } from "@/types/innhold";
+
+/**
+ * Minimal quest for graph tests (only graph-relevant fields)
+ */
+function quest(dag: number, extra: Partial<Oppdrag> = {}): Oppdrag {
+  return { dag, tittel: `Oppdrag ${dag}`, ...extra } as Oppdrag;
+}
+
+const QUESTS: Oppdrag[] = [
+  quest(1, { reveals: { topics: ["start"], files: ["dag1.txt"] } }),
+  quest(2, {
+    requires: { topics: ["start"] },
+    reveals: { topics: ["blindvei"] },
+    symbol_clue: {
+      symbolId: "star-gold",
+      symbolIcon: "star",
+      symbolColor: "gold",
+      description: "Gullstjerne",
+    },
+  }),
+  quest(3, {
+    decryption_challenge: {
+      challengeId: "test",
+      requiredSymbols: ["star-gold"],
+      correctSequence: [0],
+      messageWhenSolved: "Løst!",
+      unlocksFiles: ["hemmelig.txt"],
+    },
+  }),
+];
+
+const FILES: FilNode[] = [
+  { navn: "dag1.txt", type: "fil", innhold: "" },
+  {
+    navn: "mappe",
+    type: "mappe",
+    barn: [
+      {
+        navn: "aldri.txt",
+        type: "fil",
+        unlockConditions: { requiresTopics: ["finnes-ikke"] },
+      },
+      {
+        navn: "senere.txt",
+        type: "fil",
+        unlockConditions: { requiresTopics: ["start"], afterDay: 2 },
+      },
+    ],
+  },
+];
+
+describe("Quest Graph", () => {
+  const graph = buildQuestGraph(QUESTS, FILES);
+
+  it("should connect days through topics and symbols", () => {
+    expect(graph.edges).toContainEqual({
+      from: dayNodeId(1),
+      to: "tema:start",
+      type: "reveals",
+    });
+    expect(graph.edges).toContainEqual({
+      from: "tema:start",
+      to: dayNodeId(2),
+      type: "requires",
+    });
+    expect(graph.edges).toContainEqual({
+      from: "symbol:star-gold",
+      to: dayNodeId(3),
+      type: "requires",
+    });
+    expect(graph.edges).toContainEqual({
+      from: dayNodeId(3),
+      to: "fil:hemmelig.txt",
+      type: "unlocks",
+    });
+  });
+
+  it("should add edges for file unlock conditions", () => {
+    expect(graph.edges).toContainEqual({
+      from: "tema:start",
+      to: "fil:senere.txt",
+      type: "requires",
+    });
+    expect(graph.edges).toContainEqual({
+      from: dayNodeId(2),
+      to: "fil:senere.txt",
+      type: "after-day",
+    });
+  });
+
+  it("should flag orphaned topics and unreachable files", () => {
+    expect(graph.orphanedTopics).toEqual(["blindvei", "finnes-ikke"]);
+    expect(graph.unreachableFiles).toEqual(["aldri.txt"]);
+    expect(graph.nodes.find((n) => n.id === "tema:blindvei")?.orphaned).toBe(
+      true,
+    );
+  });
+
+  it("should collect transitive upstream dependencies", () => {
+    const upstream = getUpstream(graph, dayNodeId(3));
+    expect([...upstream].sort()).toEqual(
+      [dayNodeId(1), dayNodeId(2), "symbol:star-gold", "tema:start"].sort(),
+    );
+  });
+
+  it("should filter a graph to a subset of nodes", () => {
+    const sub = filterGraph(
+      graph,
+      new Set([dayNodeId(1), "tema:start", dayNodeId(2)]),
+    );
+    expect(sub.nodes).toHaveLength(3);
+    expect(sub.edges).toHaveLength(2);
+    expect(sub.orphanedTopics).toEqual([]);
+  });
+
+  it("should export Mermaid and DOT with problem nodes marked", () => {
+    const mermaid = toMermaid(graph);
+    expect(mermaid.startsWith("flowchart LR")).toBe(true);
+    expect(mermaid).toContain('"Dag 1: Oppdrag 1"');
+    expect(mermaid).toContain("class ");
+
+    const dot = toDot(graph);
+    expect(dot.startsWith("digraph quests {")).toBe(true);
+    expect(dot).toContain('fillcolor="#ff4444"');
+    expect(dot.trim().endsWith("}")).toBe(true);
+  });
+
+  it("should build a graph for the shipped season", () => {
+    const seasonGraph = buildQuestGraph(
+      getAllQuests(),
+      getStaticContent().filer,
+    );
+    expect(seasonGraph.nodes.filter((n) => n.type === "dag")).toHaveLength(24);
+    expect(seasonGraph.unreachableFiles).toEqual([]);
+  });
+});
@@ -0,0 +1,168 @@
+/**
+ * Quest Override Tests
+ *
+ * Tests parent-authored changes to single days:
+ * - Sanitizing and persisting the family's overrides
+ * - Overrides merge over the family's quests (after variants)
+ * - A new code drops the old alternatives and hint ladder
+ * - Overrides pass the same validation as the quest files
+ */
+
+import { describe, it, expect, beforeEach } from "@jest/globals";
+import {
+  applyQuestOverride,
+  collectQuestOverrideErrors,
+  getActiveQuestOverrides,
+  sanitizeQuestOverrides,
+  setActiveQuestOverrides,
+} from "../quest-overrides";
+import { getAllQuests, getFamilyQuests } from "../data-loader";
+import type { Oppdrag, OppdragOverstyring } from "@/types/innhold";
+
+function questForDay(day: number): Oppdrag {
+  const quest = getAllQuests("2025").find((q) => q.dag === day);
+  if (!quest) throw new Error(`No quest for day ${day}`);
+  return quest;
+}
+
+describe("Quest Overrides", () => {
+  beforeEach(() => {
+    localStorage.clear();
+    setActiveQuestOverrides([]);
+  });
+
+  describe("active overrides", () => {
+    it("should drop empty fields, unknown fields and empty overrides", () => {
+      const overrides = sanitizeQuestOverrides([
+        { dag: 5, fysisk_hint: "  Under sofaen ", kode: "" },
+        { dag: 3, tittel: " " },
+        {
+          dag: 2,
+          materialer_nødvendig: ["Tape", " "],
+          reveals: { modules: ["NISSEKRYPTO"] },
+        } as OppdragOverstyring,
+      ]);
+
+      expect(overrides).toEqual([
+        { dag: 2, materialer_nødvendig: ["Tape"] },
+        { dag: 5, fysisk_hint: "Under sofaen" },
+      ]);
+    });
+
+    it("should persist the active overrides in localStorage", () => {
+      setActiveQuestOverrides([{ dag: 5, fysisk_hint: "Under sofaen" }]);
+
+      expect(getActiveQuestOverrides()).toEqual([
+        { dag: 5, fysisk_hint: "Under sofaen" },
+      ]);
+      expect(
+        JSON.parse(localStorage.getItem("nissekomm-quest-overrides") ?? "[]"),
+      ).toHaveLength(1);
+    });
+  });
+
+  describe("applyQuestOverride", () => {
+    it("should replace only the overridden fields", () => {
+      const quest = questForDay(5);
+      const overridden = applyQuestOverride(quest, [
+        { dag: 5, fysisk_hint: "Under sofaen" },
+      ]);
+
+      expect(overridden.fysisk_hint).toBe("Under sofaen");
+      expect(overridden.kode).toBe(quest.kode);
+      expect(overridden.hint_trapp).toEqual(quest.hint_trapp);
+      expect(overridden.reveals).toEqual(quest.reveals);
+    });
+
+    it("should drop alternatives and hints that belong to the old code", () => {
+      const overridden = applyQuestOverride(questForDay(4), [
+        { dag: 4, kode: "BAMSE" },
+      ]);
+
+      expect(overridden.kode).toBe("BAMSE");
+      expect(overridden.alternative_koder).toBeUndefined();
+      expect(overridden.hint_trapp).toBeUndefined();
+    });
+
+    it("should keep quests without an override as they are", () => {
+      const quest = questForDay(6);
+      expect(applyQuestOverride(quest, [{ dag: 5, kode: "X" }])).toBe(quest);
+    });
+  });
+
+  describe("getFamilyQuests", () => {
+    it("should apply the active overrides after the variant", () => {
+      setActiveQuestOverrides([{ dag: 2, nissemail_tekst: "Vår egen gåte" }]);
+
+      const quest = getFamilyQuests("2025", "nb", "lett").find(
+        (q) => q.dag === 2,
+      );
+
+      expect(quest?.kode).toBe("10");
+      expect(quest?.nissemail_tekst).toBe("Vår egen gåte");
+    });
+
+    it("should return the same quests until the overrides change", () => {
+      setActiveQuestOverrides([{ dag: 2, tittel: "Egen tittel" }]);
+      const first = getFamilyQuests("2025", "nb", "normal");
+
+      expect(getFamilyQuests("2025", "nb", "normal")).toBe(first);
+
+      setActiveQuestOverrides([{ dag: 2, tittel: "Annen tittel" }]);
+      expect(getFamilyQuests("2025", "nb", "normal")).not.toBe(first);
+    });
+  });
+
+  describe("collectQuestOverrideErrors", () => {
+    const quests = getAllQuests("2025");
+
+    it("should accept a valid override", () => {
+      expect(
+        collectQuestOverrideErrors(
+          [{ dag: 4, kode: "BAMSE", fysisk_hint: "Under sofaen" }],
+          quests,
+        ),
+      ).toEqual([]);
+    });
+
+    it("should apply the quest file rules", () => {
+      const errors = collectQuestOverrideErrors(
+        [
+          {
+            dag: 4,
+            oppsett_tid: "lang" as Oppdrag["oppsett_tid"],
+          },
+        ],
+        quests,
+      );
+
+      expect(errors).toHaveLength(1);
+      expect(errors[0]).toContain("oppsett_tid must be one of");
+    });
+
+    it("should reject a code used by another day", () => {
+      const errors = collectQuestOverrideErrors(
+        [{ dag: 4, kode: "sekk" }],
+        quests,
+      );
+
+      expect(errors.join("\n")).toContain("Duplicate codes found: SEKK");
+    });
+
+    it("should reject unknown days, duplicate days and long texts", () => {
+      const errors = collectQuestOverrideErrors(
+        [
+          { dag: 25, tittel: "For sent" },
+          { dag: 4, tittel: "En" },
+          { dag: 4, fysisk_hint: "x".repeat(2001) },
+        ],
+        quests,
+      );
+
+      expect(errors).toHaveLength(3);
+      expect(errors[0]).toContain("unknown day 25");
+      expect(errors[1]).toContain("more than one override");
+      expect(errors[2]).toContain("fysisk_hint is longer than 2000");
+    });
+  });
+});
@@ -0,0 +1,138 @@
+/**
+ * Quest Variant Tests
+ *
+ * Tests age-tiered quest variants and the family difficulty setting:
+ * - Difficulty resolution, persistence and fallback to normal
+ * - Variants override only the fields they define
+ * - Family quests combine locale and difficulty, validation catches bad variants
+ */
+
+import { describe, it, expect, beforeEach, jest } from "@jest/globals";
+import {
+  DEFAULT_DIFFICULTY,
+  applyVariant,
+  getActiveDifficulty,
+  hasVariant,
+  resolveDifficulty,
+  setActiveDifficulty,
+} from "../quest-variants";
+import { getAllQuests, getFamilyQuests } from "../data-loader";
+import { collectOppdragErrors } from "../validators/quest-validator";
+import { simulatePlaythrough } from "../simulators/playthrough-simulator";
+import type { Oppdrag } from "@/types/innhold";
+
+function questForDay(day: number): Oppdrag {
+  const quest = getAllQuests("2025").find((q) => q.dag === day);
+  if (!quest) throw new Error(`No quest for day ${day}`);
+  return quest;
+}
+
+describe("Quest Variants", () => {
+  beforeEach(() => {
+    localStorage.clear();
+    setActiveDifficulty(DEFAULT_DIFFICULTY);
+  });
+
+  describe("difficulty selection", () => {
+    it("should resolve unknown or missing levels to normal", () => {
+      expect(resolveDifficulty("lett")).toBe("lett");
+      expect(resolveDifficulty("ekspert")).toBe("normal");
+      expect(resolveDifficulty(undefined)).toBe("normal");
+    });
+
+    it("should persist the active level in localStorage", () => {
+      expect(setActiveDifficulty("utfordrende")).toBe("utfordrende");
+      expect(getActiveDifficulty()).toBe("utfordrende");
+      expect(localStorage.getItem("nissekomm-difficulty")).toBe("utfordrende");
+    });
+
+    it("should fall back to normal for unknown levels", () => {
+      const warn = jest.spyOn(console, "warn").mockImplementation(() => {});
+      expect(setActiveDifficulty("umulig")).toBe("normal");
+      expect(warn).toHaveBeenCalled();
+      warn.mockRestore();
+    });
+  });
+
+  describe("applyVariant", () => {
+    it("should override only the fields the variant defines", () => {
+      const quest = questForDay(2);
+      const lett = applyVariant(quest, "lett");
+
+      expect(lett.kode).toBe("10");
+      expect(lett.nissemail_tekst).not.toBe(quest.nissemail_tekst);
+      expect(lett.tittel).toBe(quest.tittel);
+      expect(lett.dagbokinnlegg).toBe(quest.dagbokinnlegg);
+      expect(lett.reveals).toEqual(quest.reveals);
+    });
+
+    it("should keep the quest as written without a matching variant", () => {
+      const quest = questForDay(1);
+
+      expect(hasVariant(quest, "lett")).toBe(false);
+      expect(applyVariant(quest, "lett")).toBe(quest);
+      expect(applyVariant(questForDay(2), "normal")).toBe(questForDay(2));
+    });
+
+    it("should use the active level by default", () => {
+      setActiveDifficulty("lett");
+      expect(applyVariant(questForDay(2)).kode).toBe("10");
+    });
+  });
+
+  describe("getFamilyQuests", () => {
+    it("should apply the variant after translation", () => {
+      const quest = getFamilyQuests("2025", "en", "lett").find(
+        (q) => q.dag === 2,
+      );
+
+      expect(quest?.kode).toBe("10");
+      expect(quest?.tittel).not.toBe(questForDay(2).tittel);
+      expect(quest?.nissemail_tekst).not.toBe(
+        questForDay(2).varianter?.lett?.nissemail_tekst,
+      );
+    });
+
+    it("should return base quests at normal in bokmål", () => {
+      expect(getFamilyQuests("2025", "nb", "normal")).toEqual(
+        getAllQuests("2025"),
+      );
+    });
+  });
+
+  describe("validation", () => {
+    it("should accept the shipped variants", () => {
+      getAllQuests("2025").forEach((quest) =>
+        expect(collectOppdragErrors(quest, 1)).toEqual([]),
+      );
+    });
+
+    it("should reject unknown levels, empty variants and empty codes", () => {
+      const quest = {
+        ...questForDay(2),
+        varianter: {
+          lett: {},
+          utfordrende: { kode: " " },
+          ekspert: { kode: "1" },
+        },
+      } as unknown as Oppdrag;
+
+      const errors = collectOppdragErrors(quest, 1);
+
+      expect(errors).toHaveLength(3);
+      expect(errors.join("\n")).toContain("varianter.ekspert");
+      expect(errors.join("\n")).toContain("varianter.lett is empty");
+      expect(errors.join("\n")).toContain("varianter.utfordrende.kode");
+    });
+  });
+
+  it.each(["lett", "utfordrende"] as const)(
+    "should play through all 24 days at %s",
+    async (difficulty) => {
+      const report = await simulatePlaythrough({ difficulty });
+
+      expect(report.difficulty).toBe(difficulty);
+      expect(report.failures).toEqual([]);
+    },
+  );
+});
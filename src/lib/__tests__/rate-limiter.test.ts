@@ -0,0 +1,160 @@
+/**
+ * Rate Limiter Tests
+ *
+ * Tests brute-force protection for the auth endpoints:
+ * - Failures are counted per IP and lock it out over the limit
+ * - The lockout and the counting window expire
+ * - The global limit tightens the per-IP limit without locking anyone out
+ * - Scopes and IPs are counted separately
+ * - The store can be replaced
+ */
+
+import { describe, it, expect, beforeEach, jest } from "@jest/globals";
+import {
+  AUTH_RATE_LIMITS,
+  checkRateLimit,
+  getRateLimitStore,
+  InMemoryRateLimitStore,
+  recordFailedAttempt,
+  setRateLimitStore,
+  type RateLimitEntry,
+  type RateLimitStore,
+} from "../rate-limiter";
+
+const NOW = Date.parse("2025-12-07T18:00:00.000Z");
+const IP = "203.0.113.7";
+const { perIp, global } = AUTH_RATE_LIMITS.login;
+
+async function fail(times: number, ip = IP, now = NOW) {
+  for (let i = 0; i < times; i++) {
+    await recordFailedAttempt("login", ip, now);
+  }
+}
+
+describe("Rate Limiter", () => {
+  beforeEach(() => {
+    setRateLimitStore(new InMemoryRateLimitStore());
+    jest.spyOn(console, "warn").mockImplementation(() => {});
+  });
+
+  describe("per IP", () => {
+    it("should allow failures up to the limit", async () => {
+      await fail(perIp.limit);
+
+      expect(await checkRateLimit("login", IP, NOW)).toEqual({
+        allowed: true,
+        retryAfterMs: 0,
+      });
+    });
+
+    it("should lock the IP out on the failure over the limit", async () => {
+      await fail(perIp.limit);
+
+      const status = await recordFailedAttempt("login", IP, NOW);
+
+      expect(status).toEqual({
+        allowed: false,
+        retryAfterMs: perIp.lockoutMs,
+        lockedBy: "ip",
+      });
+      expect((await checkRateLimit("login", IP, NOW + 1000)).allowed).toBe(
+        false,
+      );
+    });
+
+    it("should lift the lockout when it runs out", async () => {
+      await fail(perIp.limit + 1);
+
+      const later = NOW + perIp.lockoutMs;
+
+      expect((await checkRateLimit("login", IP, later)).allowed).toBe(true);
+    });
+
+    it("should start counting again in a new window", async () => {
+      await fail(perIp.limit);
+      await fail(1, IP, NOW + perIp.windowMs);
+
+      expect(
+        (await checkRateLimit("login", IP, NOW + perIp.windowMs)).allowed,
+      ).toBe(true);
+    });
+
+    it("should count IPs and scopes separately", async () => {
+      await fail(perIp.limit + 1);
+
+      expect((await checkRateLimit("login", "198.51.100.1", NOW)).allowed).toBe(
+        true,
+      );
+      expect((await checkRateLimit("verify", IP, NOW)).allowed).toBe(true);
+    });
+  });
+
+  describe("global", () => {
+    const spreadAttack = async () => {
+      for (let i = 0; i <= global.limit; i++) {
+        await recordFailedAttempt("login", `10.0.${i >> 8}.${i & 255}`, NOW);
+      }
+    };
+
+    it("should not lock out other IPs when spread out attempts pass the limit", async () => {
+      await spreadAttack();
+
+      expect(await checkRateLimit("login", "198.51.100.2", NOW)).toEqual({
+        allowed: true,
+        retryAfterMs: 0,
+      });
+    });
+
+    it("should tighten the per-IP limit while over the limit", async () => {
+      await spreadAttack();
+
+      for (let i = 0; i < global.perIpLimit; i++) {
+        expect((await recordFailedAttempt("login", IP, NOW)).allowed).toBe(
+          true,
+        );
+      }
+      const status = await recordFailedAttempt("login", IP, NOW);
+
+      expect(status).toEqual({
+        allowed: false,
+        retryAfterMs: perIp.lockoutMs,
+        lockedBy: "global",
+      });
+      expect((await checkRateLimit("login", IP, NOW)).allowed).toBe(false);
+      expect((await checkRateLimit("login", "198.51.100.2", NOW)).allowed).toBe(
+        true,
+      );
+    });
+
+    it("should go back to the normal limit in a new window", async () => {
+      await spreadAttack();
+      const later = NOW + global.windowMs;
+
+      await fail(global.perIpLimit + 1, IP, later);
+
+      expect((await checkRateLimit("login", IP, later)).allowed).toBe(true);
+    });
+  });
+
+  describe("store", () => {
+    it("should use the store set with setRateLimitStore", async () => {
+      const entries = new Map<string, RateLimitEntry>();
+      const shared: RateLimitStore = {
+        get: async (key) => entries.get(key) ?? null,
+        set: async (key, entry) => {
+          entries.set(key, entry);
+        },
+      };
+
+      const previous = setRateLimitStore(shared);
+      await fail(1);
+
+      expect(previous).toBeInstanceOf(InMemoryRateLimitStore);
+      expect(getRateLimitStore()).toBe(shared);
+      expect(entries.get(`login:ip:${IP}`)).toEqual({
+        count: 1,
+        windowStart: NOW,
+      });
+    });
+  });
+});
@@ -0,0 +1,177 @@
+/**
+ * Save Game Tests
+ *
+ * Tests the versioned save format:
+ * - Export and import round-trip all progress
+ * - Version 1 saves (old exportData() output) are upgraded
+ * - Newer versions, other seasons and broken files are refused
+ * - Entries the quest set doesn't know are dropped with a warning
+ */
+
+import { describe, it, expect, beforeEach } from "@jest/globals";
+import { GameEngine } from "../game-engine";
+import { StorageManager } from "../storage";
+import { getActiveSeasonId } from "../season-packs";
+import {
+  createSaveGame,
+  readSaveGame,
+  SAVE_GAME_FORMAT,
+  SAVE_GAME_VERSION,
+} from "../save-game";
+
+const quests = GameEngine.getAllQuests();
+const season = getActiveSeasonId();
+
+// Quests with a plain code (not the family kid code)
+const codedQuests = quests.filter(
+  (q) => q.kode && !q.kode.includes("{{") && q.reveals?.files?.length,
+);
+const quest = codedQuests[0];
+
+describe("Save Game", () => {
+  beforeEach(() => {
+    localStorage.clear();
+  });
+
+  describe("round-trip", () => {
+    it("should restore all progress from an export", async () => {
+      await GameEngine.submitCode(quest.kode, quest.kode, quest.dag);
+      StorageManager.setPlayerNames(["Ola", "Kari"]);
+      StorageManager.resolveCrisis("antenna");
+      const before = StorageManager.getSaveGameState();
+
+      const exported = GameEngine.exportGameState();
+      localStorage.clear();
+      const result = GameEngine.importSaveGame(exported);
+
+      expect(result.errors).toEqual([]);
+      expect(result.success).toBe(true);
+      expect(StorageManager.getSaveGameState()).toEqual(before);
+      expect(GameEngine.isQuestCompleted(quest.dag)).toBe(true);
+    });
+
+    it("should tag the export with format, version and season", () => {
+      const save = JSON.parse(GameEngine.exportGameState());
+
+      expect(save.format).toBe(SAVE_GAME_FORMAT);
+      expect(save.version).toBe(SAVE_GAME_VERSION);
+      expect(save.season).toBe(season);
+    });
+  });
+
+  describe("version 1", () => {
+    const v1 = (submittedCodes: unknown[]) =>
+      JSON.stringify({
+        authenticated: true,
+        submittedCodes,
+        viewedEmails: [quest.dag],
+        soundsEnabled: false,
+        musicEnabled: true,
+      });
+
+    it("should find each code's day and re-derive unlocks", () => {
+      const result = readSaveGame(
+        v1([{ kode: quest.kode.toLowerCase(), dato: "2025-12-02T18:00:00Z" }]),
+        season,
+        quests,
+      );
+
+      expect(result.success).toBe(true);
+      expect(result.upgradedFrom).toBe(1);
+      expect(result.state?.submittedCodes[0].day).toBe(quest.dag);
+      expect(result.state?.unlockedFiles).toEqual(
+        expect.arrayContaining(quest.reveals?.files ?? []),
+      );
+      expect(result.state?.soundsEnabled).toBe(false);
+      expect(result.state?.viewedEmails).toEqual([quest.dag]);
+    });
+
+    it("should keep codes that match no quest, with a warning", () => {
+      const result = readSaveGame(
+        v1([{ kode: "FINNESIKKE", dato: "2025-12-02T18:00:00Z" }]),
+        season,
+        quests,
+      );
+
+      expect(result.success).toBe(true);
+      expect(result.state?.submittedCodes).toHaveLength(1);
+      expect(result.warnings.join()).toContain("FINNESIKKE");
+    });
+  });
+
+  describe("validation", () => {
+    const save = (changes: Record<string, unknown>) =>
+      JSON.stringify({
+        ...createSaveGame(StorageManager.getSaveGameState(), season),
+        ...changes,
+      });
+
+    it("should refuse files that are not save games", () => {
+      expect(readSaveGame("{nope", season, quests).errors).toEqual([
+        "File is not valid JSON",
+      ]);
+      expect(readSaveGame("[]", season, quests).success).toBe(false);
+    });
+
+    it("should refuse a newer version", () => {
+      const result = readSaveGame(
+        save({ version: SAVE_GAME_VERSION + 1 }),
+        season,
+        quests,
+      );
+
+      expect(result.success).toBe(false);
+      expect(result.errors[0]).toContain("newer");
+    });
+
+    it("should refuse a save from another season", () => {
+      const result = readSaveGame(save({ season: "1999" }), season, quests);
+
+      expect(result.success).toBe(false);
+      expect(result.errors[0]).toContain("1999");
+    });
+
+    it("should refuse fields with the wrong type", () => {
+      const state = StorageManager.getSaveGameState();
+      const result = readSaveGame(
+        save({ state: { ...state, soundsEnabled: "yes" } }),
+        season,
+        quests,
+      );
+
+      expect(result.success).toBe(false);
+      expect(result.state).toBeUndefined();
+    });
+
+    it("should drop entries the quests don't know", () => {
+      const state = StorageManager.getSaveGameState();
+      const result = readSaveGame(
+        save({
+          state: {
+            ...state,
+            unlockedFiles: [...(quest.reveals?.files ?? []), "ukjent.txt"],
+            collectedSymbols: [{ symbolId: "ukjent-symbol" }],
+            viewedEmails: [quest.dag, 99],
+          },
+        }),
+        season,
+        quests,
+      );
+
+      expect(result.success).toBe(true);
+      expect(result.state?.unlockedFiles).toEqual(quest.reveals?.files);
+      expect(result.state?.collectedSymbols).toEqual([]);
+      expect(result.state?.viewedEmails).toEqual([quest.dag]);
+      expect(result.warnings).toHaveLength(3);
+    });
+
+    it("should not touch storage when the import fails", async () => {
+      await GameEngine.submitCode(quest.kode, quest.kode, quest.dag);
+
+      const result = GameEngine.importSaveGame(save({ season: "1999" }));
+
+      expect(result.success).toBe(false);
+      expect(GameEngine.isQuestCompleted(quest.dag)).toBe(true);
+    });
+  });
+});
@@ -0,0 +1,91 @@
+/**
+ * Season Pack Tests
+ *
+ * Tests runtime season selection and per-season content loading:
+ * - Season id resolution and fallback to the legacy pack
+ * - Active season persistence in localStorage
+ * - Content accessors honouring the selected season
+ */
+
+import { describe, it, expect, beforeEach } from "@jest/globals";
+import {
+  DEFAULT_SEASON_ID,
+  LEGACY_SEASON_ID,
+  getActiveSeasonId,
+  getAvailableSeasons,
+  getSeasonPack,
+  isKnownSeason,
+  resolveSeasonId,
+  setActiveSeason,
+} from "../season-packs";
+import { getAllQuests, getStaticContent } from "../data-loader";
+
+describe("Season Packs", () => {
+  beforeEach(() => {
+    localStorage.clear();
+    setActiveSeason(DEFAULT_SEASON_ID);
+  });
+
+  describe("registry", () => {
+    it("should register the 2025 season", () => {
+      expect(isKnownSeason("2025")).toBe(true);
+      expect(getAvailableSeasons().map((s) => s.id)).toContain("2025");
+    });
+
+    it("should list seasons newest first", () => {
+      const years = getAvailableSeasons().map((s) => s.år);
+      expect(years).toEqual([...years].sort((a, b) => b - a));
+    });
+
+    it("should have manifest ids matching pack content", () => {
+      getAvailableSeasons().forEach((manifest) => {
+        const pack = getSeasonPack(manifest.id);
+        expect(pack.manifest.id).toBe(manifest.id);
+        expect(pack.uker).toHaveLength(manifest.uker.length);
+      });
+    });
+  });
+
+  describe("resolveSeasonId", () => {
+    it("should keep known seasons", () => {
+      expect(resolveSeasonId("2025")).toBe("2025");
+    });
+
+    it("should fall back to the legacy season for missing or unknown seasons", () => {
+      expect(resolveSeasonId(undefined)).toBe(LEGACY_SEASON_ID);
+      expect(resolveSeasonId(null)).toBe(LEGACY_SEASON_ID);
+      expect(resolveSeasonId("1999")).toBe(LEGACY_SEASON_ID);
+    });
+  });
+
+  describe("setActiveSeason", () => {
+    it("should persist the active season in localStorage", () => {
+      setActiveSeason("2025");
+      expect(getActiveSeasonId()).toBe("2025");
+      expect(localStorage.getItem("nissekomm-season")).toBe("2025");
+    });
+
+    it("should activate the legacy season for unknown seasons", () => {
+      expect(setActiveSeason("1999")).toBe(LEGACY_SEASON_ID);
+      expect(getActiveSeasonId()).toBe(LEGACY_SEASON_ID);
+    });
+  });
+
+  describe("content accessors", () => {
+    it("should load 24 validated quests for every season", () => {
+      getAvailableSeasons().forEach((season) => {
+        expect(getAllQuests(season.id)).toHaveLength(24);
+      });
+    });
+
+    it("should return the same quests for the active season by default", () => {
+      expect(getAllQuests()).toBe(getAllQuests(DEFAULT_SEASON_ID));
+    });
+
+    it("should load static content from the season pack", () => {
+      const content = getStaticContent("2025");
+      expect(content).toBe(getSeasonPack("2025").statiskInnhold);
+      expect(content.filer.length).toBeGreaterThan(0);
+    });
+  });
+});
@@ -0,0 +1,157 @@
+/**
+ * @jest-environment node
+ */
+
+/**
+ * Server Storage Tests
+ *
+ * Tests the JSON file repositories (NEXT_PUBLIC_STORAGE_BACKEND=file):
+ * - Documents get an _id and a new _rev on every write
+ * - Lookups by session, code and email
+ * - Revision checks and unset fields on update
+ * - Deletes and persistence across repository instances
+ */
+
+import { describe, it, expect, beforeEach, afterAll } from "@jest/globals";
+import { mkdtempSync, rmSync } from "fs";
+import { tmpdir } from "os";
+import path from "path";
+import { getServerRepositories } from "../server-storage";
+
+const tempDir = mkdtempSync(path.join(tmpdir(), "nissekomm-store-"));
+const originalBackend = process.env.NEXT_PUBLIC_STORAGE_BACKEND;
+const originalFile = process.env.SERVER_STORE_FILE;
+let fileCount = 0;
+
+const newFamily = (sessionId: string) => ({
+  sessionId,
+  kidCode: `NISSE${sessionId}`,
+  parentCode: `FORELDER${sessionId}`,
+  parentEmail: `Familie${sessionId}@Example.com`,
+  kidNames: ["Ola"],
+  friendNames: [],
+  createdAt: new Date().toISOString(),
+});
+
+describe("Server Storage (file backend)", () => {
+  beforeEach(() => {
+    // A fresh store file per test
+    process.env.NEXT_PUBLIC_STORAGE_BACKEND = "file";
+    process.env.SERVER_STORE_FILE = path.join(
+      tempDir,
+      `store-${++fileCount}.json`,
+    );
+  });
+
+  afterAll(() => {
+    process.env.NEXT_PUBLIC_STORAGE_BACKEND = originalBackend;
+    process.env.SERVER_STORE_FILE = originalFile;
+    rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  it("should create documents and find them by session, code and email", async () => {
+    const { credentials } = getServerRepositories();
+    const created = await credentials.create(newFamily("1"));
+    await credentials.create(newFamily("2"));
+
+    expect(created._id).toBeTruthy();
+    expect(await credentials.findBySessionId("1")).toEqual(created);
+    expect((await credentials.findByCode("NISSE2", "kid"))?.sessionId).toBe(
+      "2",
+    );
+    expect(await credentials.findByCode("NISSE2", "parent")).toBeNull();
+    expect(
+      (await credentials.findByEmail("familie1@example.COM"))?.sessionId,
+    ).toBe("1");
+    expect(await credentials.listCodes()).toEqual([
+      { kidCode: "NISSE1", parentCode: "FORELDER1" },
+      { kidCode: "NISSE2", parentCode: "FORELDER2" },
+    ]);
+  });
+
+  it("should list only subscribed families", async () => {
+    const { credentials } = getServerRepositories();
+    await credentials.create({ ...newFamily("1"), emailSubscription: true });
+    await credentials.create({ ...newFamily("2"), emailSubscription: false });
+
+    const subscribed = await credentials.listSubscribed();
+
+    expect(subscribed.map((c) => c.sessionId)).toEqual(["1"]);
+  });
+
+  it("should update fields, unset fields and change the revision", async () => {
+    const { sessions } = getServerRepositories();
+    const created = await sessions.create({
+      sessionId: "s1",
+      soundsEnabled: true,
+      friendNames: ["Per"],
+    });
+
+    const updated = await sessions.update(
+      created._id,
+      { soundsEnabled: false },
+      { unset: ["friendNames"] },
+    );
+
+    expect(updated.soundsEnabled).toBe(false);
+    expect(updated.friendNames).toBeUndefined();
+    expect(updated._rev).not.toBe(created._rev);
+    expect(await sessions.findBySessionId("s1")).toEqual(updated);
+  });
+
+  it("should reject updates against an old revision with 409", async () => {
+    const { sessions } = getServerRepositories();
+    const created = await sessions.create({ sessionId: "s1" });
+    await sessions.update(created._id, { musicEnabled: true });
+
+    await expect(
+      sessions.update(
+        created._id,
+        { musicEnabled: false },
+        { ifRevision: created._rev },
+      ),
+    ).rejects.toMatchObject({ statusCode: 409 });
+    expect((await sessions.findBySessionId("s1"))?.musicEnabled).toBe(true);
+  });
+
+  it("should reject updates of missing documents with 404", async () => {
+    const { sessions } = getServerRepositories();
+
+    await expect(
+      sessions.update("missing", { musicEnabled: true }),
+    ).rejects.toMatchObject({ statusCode: 404 });
+  });
+
+  it("should not let callers change stored documents", async () => {
+    const { credentials } = getServerRepositories();
+    const created = await credentials.create(newFamily("1"));
+
+    created.kidNames.push("Kari");
+
+    expect((await credentials.findBySessionId("1"))?.kidNames).toEqual(["Ola"]);
+  });
+
+  it("should delete by session id and keep other documents", async () => {
+    const { sessions, credentials } = getServerRepositories();
+    await sessions.create({ sessionId: "s1" });
+    await credentials.create(newFamily("s1"));
+    await credentials.create(newFamily("s2"));
+
+    await credentials.deleteBySessionId("s1");
+
+    expect(await credentials.findBySessionId("s1")).toBeNull();
+    expect(await credentials.findBySessionId("s2")).not.toBeNull();
+    expect(await sessions.findBySessionId("s1")).not.toBeNull();
+  });
+
+  it("should keep documents in the file for the next process", async () => {
+    await getServerRepositories().sessions.create({ sessionId: "s1" });
+
+    // Same file under another path string, so a new store instance
+    process.env.SERVER_STORE_FILE = `${tempDir}/./store-${fileCount}.json`;
+
+    expect(
+      await getServerRepositories().sessions.findBySessionId("s1"),
+    ).not.toBeNull();
+  });
+});
@@ -59,6 +59,13 @@ describe("Code Generation", () => {
     expect(isValidKidCode(newCode)).toBe(true);
   });
 
+  it("should append random digits when asked", () => {
+    const code = generateKidCode(2025, [], { randomDigits: 3 });
+
+    expect(code).toMatch(/^[A-ZØ]+2025\d{3}$/);
+    expect(isValidKidCode(code)).toBe(true);
+  });
+
   it("should generate valid parent codes", () => {
     const code1 = generateParentCode([]);
     const code2 = generateParentCode([]);
@@ -273,7 +280,7 @@ describe("Parent Authentication", () => {
     setSessionId(sessionId);
     setParentAuthenticated(sessionId);
 
-    const stored = localStorage.getItem("nissekomm-parent-auth");
+    const stored = localStorage.getItem("nissekomm-parent-hint");
     expect(stored).toBe(sessionId);
   });
 
@@ -296,7 +303,7 @@ describe("Parent Authentication", () => {
     setParentAuthenticated(sessionId);
 
     const cookies = document.cookie;
-    expect(cookies).toContain("nissekomm-parent-auth=");
+    expect(cookies).toContain("nissekomm-parent-hint=");
     expect(cookies).toContain(sessionId);
   });
 
@@ -320,12 +327,12 @@ describe("Parent Authentication", () => {
 
     // Set session and parent auth
     setSessionId(sessionId);
-    localStorage.setItem("nissekomm-parent-auth", sessionId);
+    localStorage.setItem("nissekomm-parent-hint", sessionId);
 
     // Clear cookies to force localStorage fallback
     document.cookie.split(";").forEach((c) => {
       const name = c.trim().split("=")[0];
-      if (name === "nissekomm-parent-auth") {
+      if (name === "nissekomm-parent-hint") {
         document.cookie = `${name}=;expires=${new Date().toUTCString()};path=/`;
       }
     });
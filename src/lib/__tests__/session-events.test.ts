@@ -0,0 +1,159 @@
+/**
+ * Session Events Tests
+ *
+ * Tests the live progress events behind /api/session/events:
+ * - Events derived from a session before and after a write
+ * - Publishing and unsubscribing on the in-process bus
+ * - Swapping the bus
+ */
+
+import { describe, it, expect, jest } from "@jest/globals";
+import {
+  deriveSessionEvents,
+  getSessionEventBus,
+  setSessionEventBus,
+  type SessionEvent,
+  type SessionEventBus,
+} from "../session-events";
+
+const AT = "2025-12-07T18:00:00.000Z";
+
+describe("Session Events", () => {
+  describe("deriveSessionEvents", () => {
+    it("should report newly solved days", () => {
+      const before = {
+        submittedCodes: [{ kode: "NORDPOL", dato: AT, day: 1 }],
+      };
+      const after = {
+        submittedCodes: [
+          { kode: "NORDPOL", dato: AT, day: 1 },
+          { kode: "REINSDYR", dato: AT, day: 7 },
+        ],
+      };
+
+      const events = deriveSessionEvents(before, after, ["submittedCodes"], AT);
+
+      expect(events).toEqual([
+        { type: "day-solved", day: 7, at: AT },
+        { type: "session-updated", fields: ["submittedCodes"], at: AT },
+      ]);
+    });
+
+    it("should report badges, symbols and decryptions", () => {
+      const before = {
+        earnedBadges: [{ badgeId: "antenne-ingenior", timestamp: 1 }],
+        collectedSymbols: [],
+        solvedDecryptions: [],
+      };
+      const after = {
+        earnedBadges: [
+          { badgeId: "antenne-ingenior", timestamp: 1 },
+          { _key: "badge-2", badgeId: "kodeknekker", timestamp: 2 },
+        ],
+        collectedSymbols: [{ symbolId: "heart-green" }],
+        solvedDecryptions: ["challenge-1"],
+      };
+
+      const types = deriveSessionEvents(before, after, [], AT).map(
+        (event) => event.type,
+      );
+
+      expect(types).toEqual([
+        "badge-earned",
+        "symbol-collected",
+        "decryption-solved",
+        "session-updated",
+      ]);
+    });
+
+    it("should only report an update when progress is removed", () => {
+      const before = { solvedDecryptions: ["challenge-1"] };
+
+      const events = deriveSessionEvents(
+        before,
+        { solvedDecryptions: [] },
+        ["solvedDecryptions"],
+        AT,
+      );
+
+      expect(events).toEqual([
+        { type: "session-updated", fields: ["solvedDecryptions"], at: AT },
+      ]);
+    });
+
+    it("should ignore submissions without a day", () => {
+      const events = deriveSessionEvents(
+        {},
+        { submittedCodes: [{ kode: "GAMMEL", dato: AT }] },
+        ["submittedCodes"],
+        AT,
+      );
+
+      expect(events.map((event) => event.type)).toEqual(["session-updated"]);
+    });
+  });
+
+  describe("event bus", () => {
+    const event: SessionEvent = { type: "day-solved", day: 3, at: AT };
+
+    it("should deliver events to the session's listeners only", () => {
+      const bus = getSessionEventBus();
+      const listener = jest.fn();
+      const otherListener = jest.fn();
+      const unsubscribe = bus.subscribe("session-a", listener);
+      const unsubscribeOther = bus.subscribe("session-b", otherListener);
+
+      bus.publish("session-a", [event]);
+
+      expect(listener).toHaveBeenCalledWith(event);
+      expect(otherListener).not.toHaveBeenCalled();
+      unsubscribe();
+      unsubscribeOther();
+    });
+
+    it("should stop delivering after unsubscribe", () => {
+      const bus = getSessionEventBus();
+      const listener = jest.fn();
+      const unsubscribe = bus.subscribe("session-a", listener);
+
+      unsubscribe();
+      bus.publish("session-a", [event]);
+
+      expect(listener).not.toHaveBeenCalled();
+    });
+
+    it("should keep delivering when a listener throws", () => {
+      const consoleSpy = jest
+        .spyOn(console, "error")
+        .mockImplementation(() => {});
+      const bus = getSessionEventBus();
+      const listener = jest.fn();
+      const unsubscribeBroken = bus.subscribe("session-a", () => {
+        throw new Error("boom");
+      });
+      const unsubscribe = bus.subscribe("session-a", listener);
+
+      bus.publish("session-a", [event]);
+
+      expect(listener).toHaveBeenCalledWith(event);
+      unsubscribeBroken();
+      unsubscribe();
+      consoleSpy.mockRestore();
+    });
+
+    it("should let the bus be swapped", () => {
+      const published: SessionEvent[][] = [];
+      const custom: SessionEventBus = {
+        publish: (_sessionId, events) => published.push(events),
+        subscribe: () => () => {},
+      };
+
+      const previous = setSessionEventBus(custom);
+      getSessionEventBus().publish("session-a", [event]);
+      setSessionEventBus(previous);
+
+      expect(published).toEqual([[event]]);
+      expect(getSessionEventBus()).toBe(previous);
+    });
+  });
+});
@@ -0,0 +1,173 @@
+/**
+ * Session Merge Tests
+ *
+ * Tests field-level merging of writes from two devices:
+ * - Append-only lists keep both devices' items, once
+ * - Counters keep the highest value, "first" markers the lowest
+ * - Settings go to the device that wrote last, whatever arrives last
+ * - Resets overwrite
+ */
+
+import { describe, it, expect } from "@jest/globals";
+import { mergeSessionField, mergeSessionUpdates } from "../session-merge";
+
+const T1 = "2025-12-03T08:00:00.000Z";
+const T2 = "2025-12-03T08:05:00.000Z";
+
+/**
+ * Apply writes to a session in the given order, like the sync route
+ */
+function applyWrites(
+  session: Record<string, unknown>,
+  writes: { updates: Record<string, unknown>; writtenAt: string }[],
+): Record<string, unknown> {
+  return writes.reduce(
+    (current, write) => ({
+      ...current,
+      ...mergeSessionUpdates(current, write.updates, write.writtenAt),
+    }),
+    session,
+  );
+}
+
+describe("Session Merge", () => {
+  describe("concurrent edits", () => {
+    const laptop = {
+      writtenAt: T1,
+      updates: {
+        submittedCodes: [
+          { _key: "code-SEKK-1", kode: "SEKK", dato: T1, day: 8 },
+        ],
+        earnedBadges: [{ _key: "badge-a-1", badgeId: "a", timestamp: 1 }],
+        collectedSymbols: [{ _key: "symbol-s1", symbolId: "s1" }],
+        failedAttempts: [{ _key: "failed-9", day: 9, attemptCount: 2 }],
+        soundsEnabled: false,
+      },
+    };
+    const phone = {
+      writtenAt: T2,
+      updates: {
+        submittedCodes: [
+          { _key: "code-BREV-2", kode: "BREV", dato: T2, day: 9 },
+        ],
+        earnedBadges: [{ _key: "badge-a-2", badgeId: "a", timestamp: 2 }],
+        collectedSymbols: [{ _key: "symbol-s2", symbolId: "s2" }],
+        failedAttempts: [{ _key: "failed-9", day: 9, attemptCount: 1 }],
+        soundsEnabled: true,
+      },
+    };
+    const base = {
+      submittedCodes: [],
+      earnedBadges: [],
+      collectedSymbols: [],
+      failedAttempts: [],
+    };
+
+    it("should keep both devices' progress in either order", () => {
+      const laptopFirst = applyWrites(base, [laptop, phone]);
+      const phoneFirst = applyWrites(base, [phone, laptop]);
+
+      [laptopFirst, phoneFirst].forEach((session) => {
+        expect(
+          (session.submittedCodes as { day: number }[])
+            .map((code) => code.day)
+            .sort(),
+        ).toEqual([8, 9]);
+        expect(session.earnedBadges).toHaveLength(1);
+        expect(session.collectedSymbols).toHaveLength(2);
+        expect(session.failedAttempts).toEqual([
+          { _key: "failed-9", day: 9, attemptCount: 2 },
+        ]);
+        expect(session.soundsEnabled).toBe(true);
+      });
+    });
+
+    it("should let the later writer win settings even if it arrives first", () => {
+      const session = applyWrites({}, [phone, laptop]);
+
+      expect(session.soundsEnabled).toBe(true);
+      expect(session.fieldTimestamps).toEqual([
+        { _key: "soundsEnabled", field: "soundsEnabled", updatedAt: T2 },
+      ]);
+      expect(
+        mergeSessionUpdates(session, { soundsEnabled: false }, T1),
+      ).not.toHaveProperty("soundsEnabled");
+    });
+  });
+
+  describe("mergeSessionField", () => {
+    it("should keep the earliest topic unlock and first failure", () => {
+      expect(
+        mergeSessionField(
+          "topicUnlocks",
+          [{ _key: "topic-kart", topic: "kart", day: 3 }],
+          [{ _key: "topic-kart", topic: "kart", day: 5 }],
+        ),
+      ).toEqual([{ _key: "topic-kart", topic: "kart", day: 3 }]);
+
+      expect(
+        mergeSessionField(
+          "firstFailedAttempts",
+          [{ _key: "first-failed-4", day: 4, timestamp: T2 }],
+          [{ _key: "first-failed-4", day: 4, timestamp: T1 }],
+        ),
+      ).toEqual([{ _key: "first-failed-4", day: 4, timestamp: T1 }]);
+    });
+
+    it("should keep the highest marker", () => {
+      expect(mergeSessionField("dagbokLastRead", 7, 4)).toBe(7);
+      expect(mergeSessionField("niceListLastViewed", T1, T2)).toBe(T2);
+    });
+
+    it("should combine both devices' event logs by event id", () => {
+      const shared = { _key: "event-e1", id: "e1", type: "badge-awarded" };
+      const laptopOnly = { _key: "event-e2", id: "e2", type: "symbol-scanned" };
+      const phoneOnly = { _key: "event-e3", id: "e3", type: "code-submitted" };
+
+      expect(
+        mergeSessionField(
+          "eventLog",
+          [shared, laptopOnly],
+          [shared, phoneOnly],
+        ),
+      ).toEqual([shared, laptopOnly, phoneOnly]);
+    });
+
+    it("should keep crisis flags once set", () => {
+      expect(
+        mergeSessionField(
+          "crisisStatus",
+          { antenna: true, inventory: false },
+          { antenna: false, inventory: true },
+        ),
+      ).toEqual({ antenna: true, inventory: true });
+    });
+  });
+
+  describe("resets", () => {
+    const session = {
+      unlockedFiles: ["kart.txt", "logg.txt"],
+      fieldTimestamps: [
+        { _key: "playerNames", field: "playerNames", updatedAt: T2 },
+      ],
+    };
+
+    it("should overwrite on null", () => {
+      expect(mergeSessionUpdates(session, { unlockedFiles: null }, T1)).toEqual(
+        { unlockedFiles: null },
+      );
+    });
+
+    it("should overwrite everything on replace", () => {
+      const merged = mergeSessionUpdates(
+        session,
+        { unlockedFiles: [], playerNames: [] },
+        T1,
+        true,
+      );
+
+      expect(merged.unlockedFiles).toEqual([]);
+      expect(merged.playerNames).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,138 @@
+/**
+ * Storage Migrations Tests
+ *
+ * Tests the client-side migration runner:
+ * - Pending migrations run in order and the version is stored after each
+ * - Migrations already applied don't run again
+ * - A failing migration stops the run without losing data
+ * - Stores newer than the app are left alone
+ * - StorageManager migrates adapters when it loads them
+ */
+
+import { describe, it, expect, beforeEach, jest } from "@jest/globals";
+import { InMemoryStorageAdapter } from "../storage-adapter";
+import { StorageManager } from "../storage";
+import {
+  runStorageMigrations,
+  SCHEMA_VERSION_KEY,
+  STORAGE_MIGRATIONS,
+  type StorageMigration,
+} from "../storage-migrations";
+
+// A field renamed mid-season, then reshaped
+const renameNames: StorageMigration = {
+  version: 1,
+  description: "Rename player names",
+  migrate(storage) {
+    if (!storage.has("nissekomm-player-names")) return;
+    storage.set(
+      "nissekomm-kid-names",
+      storage.get<string[]>("nissekomm-player-names", []),
+    );
+    storage.remove("nissekomm-player-names");
+  },
+};
+const uppercaseNames: StorageMigration = {
+  version: 2,
+  description: "Store kid names in upper case",
+  migrate(storage) {
+    storage.set(
+      "nissekomm-kid-names",
+      storage
+        .get<string[]>("nissekomm-kid-names", [])
+        .map((name) => name.toUpperCase()),
+    );
+  },
+};
+
+describe("Storage Migrations", () => {
+  let storage: InMemoryStorageAdapter;
+
+  beforeEach(() => {
+    storage = new InMemoryStorageAdapter();
+  });
+
+  it("should run pending migrations in order and keep progress", () => {
+    storage.set("nissekomm-player-names", ["Ola", "Kari"]);
+
+    const result = runStorageMigrations(storage, [renameNames, uppercaseNames]);
+
+    expect(result).toEqual({ from: 0, to: 2, applied: [1, 2] });
+    expect(storage.get(SCHEMA_VERSION_KEY, 0)).toBe(2);
+    expect(storage.has("nissekomm-player-names")).toBe(false);
+    expect(storage.get("nissekomm-kid-names", [])).toEqual(["OLA", "KARI"]);
+  });
+
+  it("should only run migrations newer than the stored version", () => {
+    storage.set(SCHEMA_VERSION_KEY, 1);
+    storage.set("nissekomm-kid-names", ["Ola"]);
+    const rename = jest.spyOn(renameNames, "migrate");
+
+    const result = runStorageMigrations(storage, [renameNames, uppercaseNames]);
+
+    expect(result.applied).toEqual([2]);
+    expect(rename).not.toHaveBeenCalled();
+    expect(storage.get("nissekomm-kid-names", [])).toEqual(["OLA"]);
+    rename.mockRestore();
+  });
+
+  it("should handle a fresh store", () => {
+    const result = runStorageMigrations(storage, [renameNames, uppercaseNames]);
+
+    expect(result.to).toBe(2);
+    expect(storage.get("nissekomm-kid-names", null)).toEqual([]);
+  });
+
+  it("should stop at a failing migration and retry it next time", () => {
+    const consoleSpy = jest
+      .spyOn(console, "error")
+      .mockImplementation(() => {});
+    storage.set("nissekomm-player-names", ["Ola"]);
+    const broken: StorageMigration = {
+      version: 2,
+      description: "Broken",
+      migrate() {
+        throw new Error("boom");
+      },
+    };
+
+    const result = runStorageMigrations(storage, [
+      renameNames,
+      broken,
+      { ...uppercaseNames, version: 3 },
+    ]);
+
+    expect(result).toEqual({ from: 0, to: 1, applied: [1] });
+    expect(storage.get(SCHEMA_VERSION_KEY, 0)).toBe(1);
+    expect(storage.get("nissekomm-kid-names", [])).toEqual(["Ola"]);
+    consoleSpy.mockRestore();
+  });
+
+  it("should leave a store from a newer app alone", () => {
+    const consoleSpy = jest.spyOn(console, "warn").mockImplementation(() => {});
+    storage.set(SCHEMA_VERSION_KEY, 5);
+    storage.set("nissekomm-player-names", ["Ola"]);
+
+    const result = runStorageMigrations(storage, [renameNames]);
+
+    expect(result).toEqual({ from: 5, to: 5, applied: [] });
+    expect(storage.get("nissekomm-player-names", [])).toEqual(["Ola"]);
+    consoleSpy.mockRestore();
+  });
+
+  it("should keep versions in ascending order", () => {
+    const versions = STORAGE_MIGRATIONS.map((m) => m.version);
+
+    expect(versions).toEqual([...versions].sort((a, b) => a - b));
+    expect(new Set(versions).size).toBe(versions.length);
+  });
+
+  it("should migrate adapters StorageManager loads", () => {
+    const previous = StorageManager.setAdapter(storage);
+
+    expect(storage.get(SCHEMA_VERSION_KEY, 0)).toBe(
+      STORAGE_MIGRATIONS[STORAGE_MIGRATIONS.length - 1].version,
+    );
+    StorageManager.setAdapter(previous);
+  });
+});
@@ -19,6 +19,7 @@ export type AnalyticsEventName =
   | "code_submitted"
   | "code_success"
   | "code_failure"
+  | "code_near_miss"
   | "quest_completed"
   | "all_quests_completed"
   // Bonus Quest Events
@@ -125,6 +126,11 @@ export function trackEvent(
   eventName: AnalyticsEventName,
   data?: AnalyticsEventData,
 ): void {
+  // Client-only: server code and headless runs (simulator) have no visitor
+  if (typeof window === "undefined") {
+    return;
+  }
+
   // Skip tracking in development unless explicitly enabled
   if (
     process.env.NODE_ENV === "development" &&
@@ -209,6 +215,13 @@ export function trackCodeSubmission(
   trackEvent(eventName, { day, success, attempts });
 }
 
+/**
+ * Track an answer that was one typo away from the code (not a failed attempt)
+ */
+export function trackCodeNearMiss(day: number): void {
+  trackEvent("code_near_miss", { day });
+}
+
 export function trackWindowInteraction(
   windowName: string,
   action: "opened" | "closed",
@@ -12,8 +12,32 @@
  */
 
 import { NextRequest, NextResponse } from "next/server";
-import { sanityServerClient } from "@/lib/sanity-client";
-import type { CalendarEvent } from "@/types/innhold";
+import { getServerRepositories } from "@/lib/server-storage";
+import type {
+  Barneprofil,
+  CalendarEvent,
+  DecryptionSymbol,
+  InnsendelseLog,
+  Kalenderplan,
+  OppdragOverstyring,
+} from "@/types/innhold";
+import type { FieldTimestamp } from "@/lib/session-merge";
+import type { GameEvent } from "@/lib/game-events";
+import type { RateLimitStatus } from "@/lib/rate-limiter";
+import {
+  getFamilySessionId,
+  getSessionProfileId,
+  isProfileSessionOf,
+  SHARED_PROFILE_ID,
+} from "@/lib/child-profiles";
+import { deriveSessionEvents, getSessionEventBus } from "@/lib/session-events";
+import {
+  createParentToken,
+  isParentTokenRevoked,
+  PARENT_TOKEN_TTL_MS,
+  verifyParentToken,
+} from "@/lib/parent-token";
+import { ConfigurationError } from "@/lib/configuration-error";
 
 const SESSION_COOKIE_NAME = "nissekomm-session";
 const PARENT_AUTH_COOKIE_NAME = "nissekomm-parent-auth";
@@ -27,14 +51,15 @@ interface ApiError {
   retryable?: boolean;
 }
 
-interface SessionData {
+export interface SessionData {
   _id: string;
+  _rev?: string;
   sessionId: string;
   lastUpdated: string;
   authenticated: boolean;
   soundsEnabled: boolean;
   musicEnabled: boolean;
-  submittedCodes: string[];
+  submittedCodes: InnsendelseLog[];
   viewedEmails: number[];
   viewedBonusOppdragEmails: number[];
   bonusOppdragBadges: string[];
@@ -43,10 +68,11 @@ interface SessionData {
   topicUnlocks: Array<{ topic: string; day: number }>; // Sanity array format
   unlockedFiles: string[];
   unlockedModules: string[];
-  collectedSymbols: string[];
+  collectedSymbols: DecryptionSymbol[];
   solvedDecryptions: string[];
   decryptionAttempts: Array<{ challengeId: string; attemptCount: number }>; // Sanity array format
   failedAttempts: Array<{ day: number; attemptCount: number }>; // Sanity array format
+  firstFailedAttempts?: Array<{ day: number; timestamp: string }>; // Sanity array format
   crisisStatus: { antenna: boolean; inventory: boolean };
   santaLetters: string[];
   brevfugler: string[];
@@ -55,19 +81,36 @@ interface SessionData {
   friendNames?: string[];
   niceListLastViewed: string | null;
   dagbokLastRead: number;
+  schemaVersion?: number; // Layout version (storage-migrations.ts)
+  appliedMutations?: string[]; // Recent outbox mutationIds (sync idempotency)
+  fieldTimestamps?: FieldTimestamp[]; // Write times of "latest" fields (session-merge.ts)
+  eventLog?: GameEvent[]; // Append-only game history (game-events.ts)
 }
 
-interface FamilyCredentials {
+export interface FamilyCredentials {
   _id: string;
+  _rev?: string;
   sessionId: string;
   kidCode: string;
   parentCode: string;
   familyName?: string;
   kidNames: string[];
+  childProfiles?: Barneprofil[]; // One per kid name (missing = derived, see child-profiles.ts)
   friendNames: string[];
   parentEmail?: string;
+  emailSubscription?: boolean; // Daily mission emails (missing = subscribed)
+  lastRecoveryEmail?: string; // When codes were last sent by /api/auth/recover
+  parentTokensRevokedAt?: string; // Parent tokens issued before are invalid (parent-token.ts)
+  lastMagicLinkEmail?: string; // When a login link was last sent by /api/auth/magic-link
+  magicLinkUsedAt?: string; // Magic links issued before are spent (parent-token.ts)
   createdAt: string;
   calendarEvents?: CalendarEvent[];
+  season?: string; // Season pack id (missing = default season)
+  locale?: string; // UI and content language (missing = nb)
+  difficulty?: string; // Quest variant level (missing = normal)
+  hintMode?: string; // Hint ladder behaviour (missing = normal)
+  questOverrides?: OppdragOverstyring[]; // Parent changes to single days
+  calendarSchedule?: Kalenderplan; // Own start date and pauses (missing = December)
 }
 
 // ============================================================================
@@ -126,36 +169,65 @@ export function requireSessionId(
   return { sessionId };
 }
 
+/**
+ * Extract the session ID of the game state a request reads or writes
+ * That is a child profile's session (see child-profiles.ts) when the query
+ * or body names one of the family's profiles, otherwise the family session
+ * from getSessionId(). A profile of another family is never returned.
+ *
+ * @returns Game session ID or null if there is no session
+ */
+export function getGameSessionId(
+  request: NextRequest,
+  body?: { sessionId?: string },
+): string | null {
+  const sessionId = getSessionId(request, body);
+  if (!sessionId) return null;
+
+  const requested =
+    new URL(request.url).searchParams.get("sessionId") ?? body?.sessionId;
+  if (requested && isProfileSessionOf(requested, sessionId)) {
+    return requested;
+  }
+
+  return sessionId;
+}
+
+/**
+ * Extract the game session ID and return 401 error if missing
+ * Use getFamilySessionId() on it for the family's credentials
+ */
+export function requireGameSessionId(
+  request: NextRequest,
+  body?: { sessionId?: string },
+): { sessionId: string } | { error: NextResponse } {
+  const sessionId = getGameSessionId(request, body);
+
+  if (!sessionId) {
+    return {
+      error: NextResponse.json(
+        { error: "No session ID in cookie or query" } as ApiError,
+        { status: 401 },
+      ),
+    };
+  }
+
+  return { sessionId };
+}
+
 // ============================================================================
 // Session & Credentials Validation
 // ============================================================================
 
 /**
- * Fetch session from Sanity with fresh data (no cache)
+ * Fetch session from the server store with fresh data (no cache)
  * Returns null if session not found
- *
- * Uses aggressive cache-busting to ensure fresh data:
- * - perspective: "raw" - see all documents including newly created ones
- * - useCdn: false - bypass Sanity CDN
- * - cache: "no-store" - bypass fetch cache
- * - next.revalidate: 0 - bypass Next.js cache
  */
 export async function fetchSession(
   sessionId: string,
 ): Promise<SessionData | null> {
   try {
-    const session = await sanityServerClient.fetch<SessionData | null>(
-      `*[_type == "userSession" && sessionId == $sessionId][0]`,
-      { sessionId },
-      {
-        perspective: "raw",
-        useCdn: false,
-        cache: "no-store",
-        next: { revalidate: 0 },
-      },
-    );
-
-    return session;
+    return await getServerRepositories().sessions.findBySessionId(sessionId);
   } catch (error) {
     console.error("Failed to fetch session:", error);
     throw error; // Re-throw for caller to handle
@@ -189,32 +261,61 @@ export async function requireSession(
 }
 
 /**
- * Fetch family credentials from Sanity
- * Returns null if credentials not found
+ * Write progress to a game session and tell live dashboards what changed
+ * Sets lastUpdated, then publishes the events of the write (see
+ * session-events.ts) on the family's session, with the profile id for a
+ * child profile's session. Use for every route that records progress, so
+ * the parent dashboard sees it however it was written.
  *
- * Uses aggressive cache-busting to ensure fresh data:
- * - perspective: "raw" - see all documents including newly created ones
- * - useCdn: false - bypass Sanity CDN
- * - cache: "no-store" - bypass fetch cache
- * - next.revalidate: 0 - bypass Next.js cache
+ * @param gameSessionId - The session written (family or child profile)
+ * @param updates - The progress written (named in session-updated)
+ * @param options.bookkeeping - Fields written along that aren't progress
+ * @param options.ifRevision - Fail with 409 if the session changed since read
+ * @returns The session after the write
+ */
+export async function commitSessionUpdate(
+  gameSessionId: string,
+  session: SessionData,
+  updates: Record<string, unknown>,
+  options: {
+    bookkeeping?: Record<string, unknown>;
+    ifRevision?: string;
+    now?: string;
+  } = {},
+): Promise<SessionData> {
+  const now = options.now ?? new Date().toISOString();
+
+  const updatedSession = await getServerRepositories().sessions.update(
+    session._id,
+    { ...updates, ...options.bookkeeping, lastUpdated: now },
+    options.ifRevision ? { ifRevision: options.ifRevision } : undefined,
+  );
+
+  const profileId = getSessionProfileId(gameSessionId);
+  getSessionEventBus().publish(
+    getFamilySessionId(gameSessionId),
+    deriveSessionEvents(
+      session as unknown as Record<string, unknown>,
+      updatedSession as unknown as Record<string, unknown>,
+      Object.keys(updates),
+      now,
+    ).map((event) =>
+      profileId === SHARED_PROFILE_ID ? event : { ...event, profileId },
+    ),
+  );
+
+  return updatedSession;
+}
+
+/**
+ * Fetch family credentials from the server store with fresh data (no cache)
+ * Returns null if credentials not found
  */
 export async function fetchCredentials(
   sessionId: string,
 ): Promise<FamilyCredentials | null> {
   try {
-    const credentials =
-      await sanityServerClient.fetch<FamilyCredentials | null>(
-        `*[_type == "familyCredentials" && sessionId == $sessionId][0]`,
-        { sessionId },
-        {
-          perspective: "raw",
-          useCdn: false,
-          cache: "no-store",
-          next: { revalidate: 0 },
-        },
-      );
-
-    return credentials;
+    return await getServerRepositories().credentials.findBySessionId(sessionId);
   } catch (error) {
     console.error("Failed to fetch credentials:", error);
     throw error;
@@ -254,7 +355,7 @@ export async function requireCredentials(
 
 /**
  * Create standardized error response with appropriate status code
- * Handles network errors, conflicts, and generic errors
+ * Handles network errors, conflicts, configuration errors, and generic errors
  *
  * @param error - Error object from catch block
  * @param defaultMessage - Default error message if none provided
@@ -264,7 +365,7 @@ export function createErrorResponse(
   error: unknown,
   defaultMessage = "Internal server error",
 ): NextResponse {
-  // Handle Sanity-specific errors
+  // Handle store errors (Sanity client errors, or the same shape from server-storage.ts)
   const err = error as { statusCode?: number; code?: string; message?: string };
 
   // Conflict - document was modified (retryable)
@@ -289,6 +390,18 @@ export function createErrorResponse(
     );
   }
 
+  // Missing server setting - log it for operators, but keep it from the client
+  if (error instanceof ConfigurationError) {
+    console.error(defaultMessage, error);
+    return NextResponse.json(
+      {
+        error: defaultMessage,
+        retryable: false,
+      } as ApiError,
+      { status: 500 },
+    );
+  }
+
   // Validation errors (non-retryable) - don't log these, they're expected user input errors
   if (error instanceof Error) {
     return NextResponse.json(
@@ -340,6 +453,65 @@ export function errorResponse(
   );
 }
 
+// ============================================================================
+// Rate Limiting
+// ============================================================================
+
+/**
+ * Proxies in front of the app that append to x-forwarded-for
+ * TRUSTED_PROXY_COUNT: unset or invalid = 1 (Vercel or a single reverse
+ * proxy), 0 = clients connect directly.
+ */
+function getTrustedProxyCount(): number {
+  const configured = process.env.TRUSTED_PROXY_COUNT?.trim();
+  const count = Number(configured);
+  return configured && Number.isInteger(count) && count >= 0 ? count : 1;
+}
+
+/**
+ * Client IP for rate limiting
+ * A client can send any x-forwarded-for it likes; each proxy in front of the
+ * app appends the address it saw. So the client is TRUSTED_PROXY_COUNT hops
+ * from the right, and hops to the left of it are ignored. Without the
+ * header, x-real-ip (set by the proxy).
+ *
+ * With no proxy (TRUSTED_PROXY_COUNT=0) every forwarding header came from
+ * the client, so only the socket address counts - request.ip, where the
+ * runtime provides it. Next's own server doesn't give route handlers the
+ * socket address: there, and for requests without any address, clients
+ * share the "unknown" bucket.
+ */
+export function getClientIp(request: NextRequest): string {
+  const trustedProxies = getTrustedProxyCount();
+  if (trustedProxies === 0) {
+    return (request as NextRequest & { ip?: string }).ip || "unknown";
+  }
+
+  const hops = (request.headers.get("x-forwarded-for") ?? "")
+    .split(",")
+    .map((hop) => hop.trim())
+    .filter(Boolean);
+  const client = hops[Math.max(hops.length - trustedProxies, 0)];
+  return client || request.headers.get("x-real-ip")?.trim() || "unknown";
+}
+
+/**
+ * 429 response for a locked-out client, with Retry-After in seconds
+ */
+export function rateLimitedResponse(status: RateLimitStatus): NextResponse {
+  const minutes = Math.max(1, Math.ceil(status.retryAfterMs / 60000));
+  const response = errorResponse(
+    `For mange forsøk. Prøv igjen om ${minutes} minutt${minutes > 1 ? "er" : ""}.`,
+    429,
+    true,
+  );
+  response.headers.set(
+    "Retry-After",
+    String(Math.max(1, Math.ceil(status.retryAfterMs / 1000))),
+  );
+  return response;
+}
+
 // ============================================================================
 // Session Cookie Management
 // ============================================================================
@@ -371,18 +543,48 @@ export function setSessionCookie(
 // Parent Authentication (Server-Side)
 // ============================================================================
 
+/**
+ * Check the parent token cookie against the session cookie
+ * The token must be signed, unexpired, issued for this session and not
+ * revoked by the family (see parent-token.ts)
+ */
+async function checkParentToken(
+  sessionId: string,
+  token: string | undefined,
+): Promise<boolean> {
+  if (!token) return false;
+
+  const claims = verifyParentToken(token, sessionId);
+  if (!claims) return false;
+
+  // localStorage backend: no credentials to revoke from
+  const backend = process.env.NEXT_PUBLIC_STORAGE_BACKEND || "localStorage";
+  if (backend === "localStorage") return true;
+
+  const credentials = await fetchCredentials(sessionId);
+  if (!credentials) return false;
+  return !isParentTokenRevoked(claims, credentials.parentTokensRevokedAt);
+}
+
 /**
  * Check if parent is authenticated for the given session
- * Validates that parent auth cookie matches the session cookie
+ * Store errors count as not authenticated
  */
-export function isParentAuthValid(request: NextRequest): boolean {
+export async function isParentAuthValid(
+  request: NextRequest,
+): Promise<boolean> {
   const sessionId = request.cookies.get(SESSION_COOKIE_NAME)?.value;
-  const parentAuthSessionId = request.cookies.get(
-    PARENT_AUTH_COOKIE_NAME,
-  )?.value;
+  if (!sessionId) return false;
 
-  if (!sessionId || !parentAuthSessionId) return false;
-  return sessionId === parentAuthSessionId;
+  try {
+    return await checkParentToken(
+      sessionId,
+      request.cookies.get(PARENT_AUTH_COOKIE_NAME)?.value,
+    );
+  } catch (error) {
+    console.error("Failed to check parent token:", error);
+    return false;
+  }
 }
 
 /**
@@ -390,13 +592,10 @@ export function isParentAuthValid(request: NextRequest): boolean {
  * Returns session ID if authenticated, or error response if not
  * Use this for routes that require parent access (like family settings)
  */
-export function requireParentAuth(
+export async function requireParentAuth(
   request: NextRequest,
-): { sessionId: string } | { error: NextResponse } {
+): Promise<{ sessionId: string } | { error: NextResponse }> {
   const sessionId = request.cookies.get(SESSION_COOKIE_NAME)?.value;
-  const parentAuthSessionId = request.cookies.get(
-    PARENT_AUTH_COOKIE_NAME,
-  )?.value;
 
   if (!sessionId) {
     return {
@@ -407,7 +606,19 @@ export function requireParentAuth(
     };
   }
 
-  if (!parentAuthSessionId || parentAuthSessionId !== sessionId) {
+  let isParent: boolean;
+  try {
+    isParent = await checkParentToken(
+      sessionId,
+      request.cookies.get(PARENT_AUTH_COOKIE_NAME)?.value,
+    );
+  } catch (error) {
+    return {
+      error: createErrorResponse(error, "Failed to check parent access"),
+    };
+  }
+
+  if (!isParent) {
     return {
       error: NextResponse.json(
         { error: "Parent authentication required" } as ApiError,
@@ -421,23 +632,45 @@ export function requireParentAuth(
 
 /**
  * Set parent auth cookie on response
- * Used after successful parent code validation
+ * Used after successful parent code validation. The cookie holds a signed
+ * token (parent-token.ts) the browser's scripts can't read; the guide keeps
+ * its own hint (session-manager.ts setParentAuthenticated())
  */
 export function setParentAuthCookie(
   response: NextResponse,
   sessionId: string,
 ): NextResponse {
-  const maxAge = 365 * 24 * 60 * 60; // 365 days in seconds
-
   response.cookies.set({
     name: PARENT_AUTH_COOKIE_NAME,
-    value: sessionId,
-    maxAge,
+    value: createParentToken(sessionId),
+    maxAge: PARENT_TOKEN_TTL_MS / 1000,
     path: "/",
     sameSite: "lax",
     secure: process.env.NODE_ENV === "production",
-    httpOnly: false, // Client needs to read this for isParentAuthenticated()
+    httpOnly: true,
   });
 
   return response;
 }
+
+/**
+ * Clear the parent auth cookie on response
+ */
+export function clearParentAuthCookie(response: NextResponse): NextResponse {
+  response.cookies.set(PARENT_AUTH_COOKIE_NAME, "", { maxAge: 0, path: "/" });
+  return response;
+}
+
+/**
+ * Invalidate every parent token issued for a family so far
+ * Other devices logged in to the guide have to enter the parent code again
+ * Tokens issued at revokedAt or earlier are invalid
+ */
+export async function revokeParentTokens(
+  credentials: FamilyCredentials,
+  revokedAt = Date.now(),
+): Promise<void> {
+  await getServerRepositories().credentials.update(credentials._id, {
+    parentTokensRevokedAt: new Date(revokedAt).toISOString(),
+  });
+}
@@ -10,8 +10,26 @@ import {
 } from "react";
 import { StorageManager } from "./storage";
 import { GameEngine } from "./game-engine";
-import { getSessionId, setSessionId } from "./session-manager";
-import { CalendarEvent } from "@/types/innhold";
+import {
+  clearSessionId,
+  getSessionId,
+  isSessionRetired,
+  setSessionId,
+} from "./session-manager";
+import { setActiveSeason } from "./season-packs";
+import { setActiveLocale } from "./i18n";
+import { setActiveDifficulty } from "./quest-variants";
+import { setActiveHintMode } from "./hint-ladder";
+import { setActiveQuestOverrides } from "./quest-overrides";
+import { setActiveSchedule } from "./calendar-schedule";
+import type { HydrationState } from "./storage-adapter";
+import { hasChildProfiles, SHARED_PROFILE_ID } from "./child-profiles";
+import {
+  Barneprofil,
+  CalendarEvent,
+  Kalenderplan,
+  OppdragOverstyring,
+} from "@/types/innhold";
 
 /**
  * Application State Context
@@ -19,7 +37,9 @@ import { CalendarEvent } from "@/types/innhold";
  * Centralized state management for the entire NisseKomm application.
  * Handles:
  * - Session authentication and restoration
+ * - Storage hydration (the session's game state loading, with retry)
  * - Family data loading (calendar events, settings)
+ * - Child profile selection ("HVEM SPILLER?", see child-profiles.ts)
  * - Game state initialization
  * - Provides unified access to all application data
  *
@@ -38,7 +58,14 @@ interface FamilyData {
   calendarEvents: CalendarEvent[];
   familyName?: string;
   kidNames: string[];
+  childProfiles: Barneprofil[];
   friendNames: string[];
+  season?: string;
+  locale?: string;
+  difficulty?: string;
+  hintMode?: string;
+  questOverrides?: OppdragOverstyring[];
+  calendarSchedule?: Kalenderplan | null;
 }
 
 interface AppState {
@@ -47,9 +74,17 @@ interface AppState {
   isInitializing: boolean;
   sessionId: string | null;
 
+  // Game state loading: "hydrating" until it can be read, "error" if the
+  // server couldn't be reached (retryStorage() tries again)
+  storageState: HydrationState;
+
   // Family data (from Sanity/API)
   familyData: FamilyData;
 
+  // Child profile playing; null until picked on "HVEM SPILLER?"
+  // (families with one child always play the shared profile)
+  activeProfileId: string | null;
+
   // Derived game state accessors (computed from GameEngine)
   unlockedModules: string[];
   unreadEmailCount: number;
@@ -60,12 +95,15 @@ interface AppState {
   authenticate: (sessionId: string) => Promise<void>;
   refreshGameState: () => void;
   refreshFamilyData: () => Promise<void>;
+  retryStorage: () => Promise<void>;
+  selectProfile: (profileId: string) => Promise<void>;
 }
 
 const defaultFamilyData: FamilyData = {
   calendarEvents: [],
   familyName: undefined,
   kidNames: [],
+  childProfiles: [],
   friendNames: [],
 };
 
@@ -95,8 +133,13 @@ export function AppProvider({ children }: AppProviderProps) {
     return null;
   });
 
+  const [storageState, setStorageState] = useState<HydrationState>("hydrating");
+
   // Family data
   const [familyData, setFamilyData] = useState<FamilyData>(defaultFamilyData);
+  const [activeProfileId, setActiveProfileId] = useState<string | null>(
+    SHARED_PROFILE_ID,
+  );
 
   // Game state (refreshed on demand)
   const [unlockedModules, setUnlockedModules] = useState<string[]>([]);
@@ -141,8 +184,15 @@ export function AppProvider({ children }: AppProviderProps) {
         return {
           familyName: data.familyName,
           kidNames: data.kidNames || [],
+          childProfiles: data.childProfiles || [],
           friendNames: data.friendNames || [],
           calendarEvents: data.calendarEvents || [],
+          season: data.season,
+          locale: data.locale,
+          difficulty: data.difficulty,
+          hintMode: data.hintMode,
+          questOverrides: data.questOverrides || [],
+          calendarSchedule: data.calendarSchedule ?? null,
         };
       }
     } catch (err) {
@@ -157,6 +207,11 @@ export function AppProvider({ children }: AppProviderProps) {
    */
   const refreshFamilyData = useCallback(async () => {
     const data = await fetchFamilyData();
+    setActiveLocale(data.locale);
+    setActiveDifficulty(data.difficulty);
+    setActiveHintMode(data.hintMode);
+    setActiveQuestOverrides(data.questOverrides);
+    setActiveSchedule(data.calendarSchedule);
     setFamilyData(data);
   }, [fetchFamilyData]);
 
@@ -172,12 +227,28 @@ export function AppProvider({ children }: AppProviderProps) {
       );
 
       // Wait for storage adapter initialization
+      setStorageState("hydrating");
       await StorageManager.setAuthenticated(true, newSessionId);
+      setStorageState(StorageManager.getHydrationState());
 
       // Load family data
       const data = await fetchFamilyData();
       setFamilyData(data);
 
+      // Siblings pick who is playing before the desktop shows
+      setActiveProfileId(
+        hasChildProfiles(data.childProfiles) ? null : SHARED_PROFILE_ID,
+      );
+
+      // Select the family's season pack, language, difficulty, hint mode,
+      // quest overrides and calendar before game state reads content
+      setActiveSeason(data.season);
+      setActiveLocale(data.locale);
+      setActiveDifficulty(data.difficulty);
+      setActiveHintMode(data.hintMode);
+      setActiveQuestOverrides(data.questOverrides);
+      setActiveSchedule(data.calendarSchedule);
+
       // Refresh game state
       refreshGameState();
 
@@ -186,6 +257,40 @@ export function AppProvider({ children }: AppProviderProps) {
     [fetchFamilyData, refreshGameState],
   );
 
+  /**
+   * Load game state again after a failed hydration
+   */
+  const retryStorage = useCallback(async () => {
+    setStorageState("hydrating");
+    const state = await StorageManager.hydrate();
+    setStorageState(state);
+    if (state === "ready") refreshGameState();
+  }, [refreshGameState]);
+
+  /**
+   * Switch to a child profile's game state (or SHARED_PROFILE_ID)
+   * A child playing alone is credited by name on the Nice List and in the
+   * finale, so the day 22 name entry is skipped for them
+   */
+  const selectProfile = useCallback(
+    async (profileId: string) => {
+      if (!sessionId) return;
+
+      setStorageState("hydrating");
+      await StorageManager.selectProfile(sessionId, profileId);
+      setStorageState(StorageManager.getHydrationState());
+
+      const profile = familyData.childProfiles.find((p) => p.id === profileId);
+      if (profile && StorageManager.getPlayerNames().length === 0) {
+        StorageManager.setPlayerNames([profile.navn]);
+      }
+
+      setActiveProfileId(profileId);
+      refreshGameState();
+    },
+    [sessionId, familyData.childProfiles, refreshGameState],
+  );
+
   /**
    * Authenticate with a new session
    * Called from PasswordPrompt on successful login
@@ -207,7 +312,14 @@ export function AppProvider({ children }: AppProviderProps) {
     const restoreSession = async () => {
       const existingSessionId = getSessionId();
 
-      if (existingSessionId && !isAuthenticated) {
+      // A new kid code retired this device's session: log in again
+      if (existingSessionId && (await isSessionRetired(existingSessionId))) {
+        console.debug("[AppContext] Session retired, logging out");
+        clearSessionId();
+        StorageManager.clearAuthentication();
+        setSessionIdState(null);
+        setIsAuthenticated(false);
+      } else if (existingSessionId && !isAuthenticated) {
         console.debug(
           "[AppContext] Restoring session:",
           existingSessionId.substring(0, 8) + "...",
@@ -220,6 +332,7 @@ export function AppProvider({ children }: AppProviderProps) {
         console.debug("[AppContext] Session restored successfully");
       }
 
+      setStorageState(StorageManager.getHydrationState());
       setIsInitializing(false);
     };
 
@@ -231,7 +344,9 @@ export function AppProvider({ children }: AppProviderProps) {
     isAuthenticated,
     isInitializing,
     sessionId,
+    storageState,
     familyData,
+    activeProfileId,
     unlockedModules,
     unreadEmailCount,
     unreadFileCount,
@@ -239,6 +354,8 @@ export function AppProvider({ children }: AppProviderProps) {
     authenticate,
     refreshGameState,
     refreshFamilyData,
+    retryStorage,
+    selectProfile,
   };
 
   return <AppContext.Provider value={value}>{children}</AppContext.Provider>;
@@ -2,7 +2,7 @@
  * Badge System - Centralized badge management
  *
  * This module manages all badge awards, conditions, and notifications.
- * Badges (merker) are defined in data/merker.json and awarded based on:
+ * Badges (merker) are defined in the season pack's merker.json and awarded based on:
  * - Bonusoppdrag completion (parent-validated side quests)
  * - Eventyr completion (story arc achievements)
  * - Decryption challenges (all 3 challenges solved)
@@ -20,11 +20,11 @@
  * - StorageManager persists earned badges in localStorage
  */
 
-import badgeData from "@/data/merker.json";
 import type { Badge, BadgeUnlockCondition, EarnedBadge } from "@/types/innhold";
 import { StorageManager } from "@/lib/storage";
 import { GameEngine } from "@/lib/game-engine";
 import { trackBadgeEarned } from "./analytics";
+import { getSeasonPack } from "./season-packs";
 
 /**
  * Badge award result with notification details
@@ -76,14 +76,14 @@ export class BadgeManager {
    * Get all badge definitions from merker.json
    */
   static getAllBadges(): Badge[] {
-    return badgeData.merker as Badge[];
+    return getSeasonPack().merker.merker;
   }
 
   /**
    * Get a specific badge by ID
    */
   static getBadge(badgeId: string): Badge | undefined {
-    return badgeData.merker.find((b) => b.id === badgeId) as Badge | undefined;
+    return this.getAllBadges().find((b) => b.id === badgeId);
   }
 
   /**
@@ -194,6 +194,11 @@ export class BadgeManager {
 
     // Award the badge!
     StorageManager.addEarnedBadge(badgeId);
+    StorageManager.appendGameEvent(
+      bypassConditionCheck
+        ? { type: "parent-override", action: "badge-awarded", target: badgeId }
+        : { type: "badge-awarded", badgeId },
+    );
 
     // Track badge earned in analytics
     const totalBadges = this.getEarnedBadges().length;
@@ -210,12 +215,7 @@ export class BadgeManager {
       StorageManager.addBonusOppdragBadge(day, badge.ikon, badge.navn);
 
       // Resolve the associated crisis
-      const crisisType =
-        badgeId === "antenne-ingenior"
-          ? "antenna"
-          : badgeId === "inventar-ekspert"
-            ? "inventory"
-            : null;
+      const crisisType = this.getCrisisType(badgeId);
 
       if (crisisType) {
         StorageManager.resolveCrisis(crisisType);
@@ -233,6 +233,20 @@ export class BadgeManager {
     };
   }
 
+  /**
+   * The crisis a bonusoppdrag badge resolves, if any
+   */
+  static getCrisisType(badgeId: string): "antenna" | "inventory" | null {
+    switch (badgeId) {
+      case "antenne-ingenior":
+        return "antenna";
+      case "inventar-ekspert":
+        return "inventory";
+      default:
+        return null;
+    }
+  }
+
   /**
    * Check all badges and award any that have unlocked
    * Useful for periodic checks or after major game state changes
@@ -285,6 +299,10 @@ export class BadgeManager {
    */
   static resetAllBadges(): void {
     StorageManager.clearEarnedBadges();
+    StorageManager.appendGameEvent({
+      type: "parent-override",
+      action: "badges-reset",
+    });
     // Only log in non-test environments to reduce noise
     if (process.env.NODE_ENV !== "test") {
       console.log("All badges have been reset");
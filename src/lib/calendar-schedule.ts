@@ -0,0 +1,275 @@
+/**
+ * Calendar Schedule - Mapping real dates to game days per family
+ *
+ * The calendar normally runs December 1-24: day N unlocks on December N. A
+ * family can instead pick their own start date and pause the calendar (e.g. a
+ * week at the grandparents'). Day 1 unlocks on `startdato`, and every date
+ * after it that isn't paused unlocks the next day - so families starting late
+ * or travelling still get all 24 days, just later.
+ *
+ * Game day for a date:
+ * - 0 before the start date
+ * - 1-24 while the calendar runs (paused dates keep the day before)
+ * - Above 24 when the calendar is over
+ *
+ * The active schedule works like the active difficulty:
+ * - Client: the family's `calendarSchedule` (familyCredentials) is applied by
+ *   AppContext via setActiveSchedule() after login, and remembered in
+ *   localStorage. No schedule means the default December calendar.
+ * - Server: callers pass the schedule explicitly (e.g. daily email cron)
+ *
+ * Dates are compared as local calendar dates (YYYY-MM-DD), never times.
+ */
+
+import type { KalenderPause, Kalenderplan } from "@/types/innhold";
+
+export const CALENDAR_DAYS = 24;
+
+// Keeps a family's list short enough to read in nissemor-guide
+export const MAX_PAUSES = 10;
+
+const SCHEDULE_STORAGE_KEY = "nissekomm-calendar-schedule";
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+// In-memory active schedule (client), undefined until loaded from localStorage
+let activeSchedule: Kalenderplan | null | undefined;
+
+/**
+ * Local calendar date of a Date as YYYY-MM-DD
+ */
+export function toDateKey(date: Date): string {
+  const month = String(date.getMonth() + 1).padStart(2, "0");
+  const day = String(date.getDate()).padStart(2, "0");
+  return `${date.getFullYear()}-${month}-${day}`;
+}
+
+/**
+ * Check for a real date written as YYYY-MM-DD (rejects 2025-02-30)
+ */
+export function isDateKey(value: unknown): value is string {
+  if (typeof value !== "string" || !/^\d{4}-\d{2}-\d{2}$/.test(value)) {
+    return false;
+  }
+  const [year, month, day] = value.split("-").map(Number);
+  const date = new Date(Date.UTC(year, month - 1, day));
+  return date.getUTCMonth() === month - 1 && date.getUTCDate() === day;
+}
+
+/**
+ * Days since 1970-01-01 for a YYYY-MM-DD date (safe across DST changes)
+ */
+function toDayNumber(dateKey: string): number {
+  const [year, month, day] = dateKey.split("-").map(Number);
+  return Date.UTC(year, month - 1, day) / MS_PER_DAY;
+}
+
+function fromDayNumber(dayNumber: number): string {
+  return new Date(dayNumber * MS_PER_DAY).toISOString().slice(0, 10);
+}
+
+/**
+ * The default calendar: December 1-24 of the given year, no pauses
+ */
+export function getDefaultSchedule(year: number): Kalenderplan {
+  return { startdato: `${year}-12-01`, pauser: [] };
+}
+
+/**
+ * Normalize a family's schedule (drops malformed pauses, sorts by date)
+ * Returns null when there is no usable start date (default calendar)
+ */
+export function sanitizeSchedule(
+  schedule: Partial<Kalenderplan> | null | undefined,
+): Kalenderplan | null {
+  if (!schedule || !isDateKey(schedule.startdato)) return null;
+
+  const pauser = Array.isArray(schedule.pauser)
+    ? schedule.pauser
+        .filter(
+          (pause): pause is KalenderPause =>
+            !!pause && isDateKey(pause.fra) && isDateKey(pause.til),
+        )
+        .map(({ fra, til }) => ({ fra, til }))
+        .sort((a, b) => a.fra.localeCompare(b.fra))
+    : [];
+
+  return { startdato: schedule.startdato, pauser };
+}
+
+/**
+ * Get the schedule currently active for this client (null = default)
+ */
+export function getActiveSchedule(): Kalenderplan | null {
+  if (activeSchedule !== undefined) return activeSchedule;
+
+  try {
+    if (typeof window !== "undefined") {
+      const stored = localStorage.getItem(SCHEDULE_STORAGE_KEY);
+      if (stored) {
+        activeSchedule = sanitizeSchedule(JSON.parse(stored));
+        return activeSchedule;
+      }
+    }
+  } catch {
+    // localStorage unavailable or corrupt - default calendar
+  }
+
+  activeSchedule = null;
+  return activeSchedule;
+}
+
+/**
+ * Select the active schedule (called with the family's schedule after login)
+ *
+ * @returns The schedule that was actually activated (null = default)
+ */
+export function setActiveSchedule(
+  schedule: Partial<Kalenderplan> | null | undefined,
+): Kalenderplan | null {
+  activeSchedule = sanitizeSchedule(schedule);
+
+  try {
+    if (typeof window !== "undefined") {
+      if (activeSchedule) {
+        localStorage.setItem(
+          SCHEDULE_STORAGE_KEY,
+          JSON.stringify(activeSchedule),
+        );
+      } else {
+        localStorage.removeItem(SCHEDULE_STORAGE_KEY);
+      }
+    }
+  } catch (e) {
+    if (process.env.NODE_ENV === "development") {
+      console.warn("Failed to write to localStorage:", e);
+    }
+  }
+
+  return activeSchedule;
+}
+
+function resolveSchedule(
+  schedule: Kalenderplan | null,
+  date: Date,
+): Kalenderplan {
+  return schedule ?? getDefaultSchedule(date.getFullYear());
+}
+
+function isPausedDayNumber(dayNumber: number, schedule: Kalenderplan) {
+  return schedule.pauser.some(
+    (pause) =>
+      dayNumber >= toDayNumber(pause.fra) &&
+      dayNumber <= toDayNumber(pause.til),
+  );
+}
+
+/**
+ * Check if a date is inside one of the schedule's pauses
+ */
+export function isPausedDate(
+  date: Date,
+  schedule: Kalenderplan | null = getActiveSchedule(),
+): boolean {
+  return isPausedDayNumber(
+    toDayNumber(toDateKey(date)),
+    resolveSchedule(schedule, date),
+  );
+}
+
+/**
+ * Get the game day for a date (0 before the start, above 24 when over)
+ */
+export function getGameDay(
+  date: Date,
+  schedule: Kalenderplan | null = getActiveSchedule(),
+): number {
+  const plan = resolveSchedule(schedule, date);
+  const start = toDayNumber(plan.startdato);
+  const today = toDayNumber(toDateKey(date));
+
+  let gameDay = 0;
+  for (let dayNumber = start; dayNumber <= today; dayNumber++) {
+    if (!isPausedDayNumber(dayNumber, plan)) gameDay++;
+  }
+  return gameDay;
+}
+
+/**
+ * Get the game day that unlocks on a date, or null when none does
+ * (before the start, paused, or the calendar is over)
+ */
+export function getUnlockedDayOn(
+  date: Date,
+  schedule: Kalenderplan | null = getActiveSchedule(),
+): number | null {
+  if (isPausedDate(date, schedule)) return null;
+
+  const gameDay = getGameDay(date, schedule);
+  return gameDay >= 1 && gameDay <= CALENDAR_DAYS ? gameDay : null;
+}
+
+/**
+ * Get the date (YYYY-MM-DD) a game day unlocks on
+ */
+export function getDateForGameDay(day: number, schedule: Kalenderplan): string {
+  let dayNumber = toDayNumber(schedule.startdato);
+  let gameDay = 0;
+
+  for (;;) {
+    if (!isPausedDayNumber(dayNumber, schedule)) gameDay++;
+    if (gameDay >= day) return fromDayNumber(dayNumber);
+    dayNumber++;
+  }
+}
+
+/**
+ * Collect everything wrong with a family's schedule
+ *
+ * The calendar must start in November or December, and pauses must be real
+ * date ranges after the start that don't overlap.
+ */
+export function collectScheduleErrors(schedule: Kalenderplan): string[] {
+  const errors: string[] = [];
+
+  if (!isDateKey(schedule.startdato)) {
+    errors.push(`Start date "${schedule.startdato}" is not a valid date`);
+    return errors;
+  }
+
+  const startMonth = Number(schedule.startdato.slice(5, 7));
+  if (startMonth !== 11 && startMonth !== 12) {
+    errors.push("Start date must be in November or December");
+  }
+
+  if (schedule.pauser.length > MAX_PAUSES) {
+    errors.push(`No more than ${MAX_PAUSES} pauses are allowed`);
+  }
+
+  schedule.pauser.forEach((pause, index) => {
+    const label = `Pause ${index + 1}`;
+
+    if (!isDateKey(pause.fra) || !isDateKey(pause.til)) {
+      errors.push(`${label} does not have valid dates`);
+      return;
+    }
+    if (pause.til < pause.fra) {
+      errors.push(`${label} ends before it starts`);
+    }
+    if (pause.fra <= schedule.startdato) {
+      errors.push(`${label} must start after the start date`);
+    }
+    if (
+      schedule.pauser.some(
+        (other, otherIndex) =>
+          otherIndex < index &&
+          pause.fra <= other.til &&
+          other.fra <= pause.til,
+      )
+    ) {
+      errors.push(`${label} overlaps another pause`);
+    }
+  });
+
+  return errors;
+}
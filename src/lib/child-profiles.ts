@@ -0,0 +1,138 @@
+/**
+ * Child Profiles - One game state per child inside a family
+ *
+ * A family has one set of codes and one userSession, but siblings can play
+ * as themselves: every kid name gets a profile, picked on "HVEM SPILLER?"
+ * after boot. A profile's game state (codes, badges, symbols, ...) lives in
+ * its own session, `${sessionId}~${profileId}`.
+ *
+ * The family session itself is the shared profile ("Alle sammen"): days the
+ * kids solve together, and all progress from before profiles existed.
+ *
+ * The server only lets a family's cookie reach that family's profile
+ * sessions (see getGameSessionId in api-utils.ts).
+ *
+ * Usage:
+ * ```typescript
+ * const profiles = syncChildProfiles(["Emma", "Ola"], credentials.childProfiles);
+ * const gameSessionId = getProfileSessionId(sessionId, profiles[0].id);
+ * ```
+ */
+
+import type { Barneprofil } from "@/types/innhold";
+
+/**
+ * Profile id of the family's shared game state
+ */
+export const SHARED_PROFILE_ID = "alle";
+
+export const SHARED_PROFILE_NAME = "Alle sammen";
+
+const SESSION_SEPARATOR = "~";
+
+/**
+ * Profile id for a name: lowercase ASCII, e.g. "Åse Marie" → "ase-marie"
+ */
+function toProfileId(name: string): string {
+  const id = name
+    .toLowerCase()
+    .replace(/æ/g, "ae")
+    .replace(/ø/g, "o")
+    .replace(/å/g, "a")
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "") // Combining accents (é → e)
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "")
+    .slice(0, 30);
+  return id || "barn";
+}
+
+/**
+ * Profiles for the family's kid names, keeping existing ids
+ * A name that is still there keeps its profile; an edited name keeps the
+ * profile at its position, so a spelling fix doesn't lose progress. New
+ * names get a new id.
+ *
+ * @param kidNames - credentials.kidNames, in order
+ * @param existing - credentials.childProfiles (missing for older families)
+ */
+export function syncChildProfiles(
+  kidNames: string[],
+  existing: Barneprofil[] = [],
+): Barneprofil[] {
+  const names = kidNames.map((name) => name.trim()).filter(Boolean);
+  const used = new Set<string>();
+  const profiles: Array<Barneprofil | null> = names.map((navn) => {
+    const kept = existing.find((p) => p.navn === navn && !used.has(p.id));
+    if (!kept) return null;
+    used.add(kept.id);
+    return { id: kept.id, navn };
+  });
+
+  return names.map((navn, index) => {
+    const profile = profiles[index];
+    if (profile) return profile;
+
+    const renamed = existing[index];
+    if (renamed && !used.has(renamed.id) && !names.includes(renamed.navn)) {
+      used.add(renamed.id);
+      return { id: renamed.id, navn };
+    }
+
+    const base = toProfileId(navn);
+    let id = base;
+    for (let n = 2; used.has(id) || id === SHARED_PROFILE_ID; n++) {
+      id = `${base}-${n}`;
+    }
+    used.add(id);
+    return { id, navn };
+  });
+}
+
+/**
+ * Whether children get their own profiles (two kids or more)
+ * With one kid the shared state is already theirs
+ */
+export function hasChildProfiles(profiles: Barneprofil[]): boolean {
+  return profiles.length > 1;
+}
+
+/**
+ * Session holding a profile's game state
+ */
+export function getProfileSessionId(
+  sessionId: string,
+  profileId: string,
+): string {
+  return profileId === SHARED_PROFILE_ID
+    ? sessionId
+    : `${sessionId}${SESSION_SEPARATOR}${profileId}`;
+}
+
+/**
+ * Family session a game session belongs to (itself for the shared profile)
+ */
+export function getFamilySessionId(gameSessionId: string): string {
+  return gameSessionId.split(SESSION_SEPARATOR)[0];
+}
+
+/**
+ * Profile a game session belongs to (SHARED_PROFILE_ID for the family's)
+ */
+export function getSessionProfileId(gameSessionId: string): string {
+  const [, profileId] = gameSessionId.split(SESSION_SEPARATOR);
+  return profileId || SHARED_PROFILE_ID;
+}
+
+/**
+ * Whether a game session is one of the family's profile sessions
+ */
+export function isProfileSessionOf(
+  gameSessionId: string,
+  sessionId: string,
+): boolean {
+  return (
+    gameSessionId.startsWith(`${sessionId}${SESSION_SEPARATOR}`) &&
+    gameSessionId.length > sessionId.length + SESSION_SEPARATOR.length
+  );
+}
@@ -81,19 +81,51 @@ const SNOFALL_SUFFIXES = [
 // Alphanumeric characters for parent codes (excluding ambiguous: 0, O, I, 1)
 const PARENT_CODE_CHARS = "23456789ABCDEFGHJKLMNPQRSTUVWXYZ";
 
+interface KidCodeOptions {
+  randomDigits?: number; // Random digits after the year (default: none)
+}
+
+/**
+ * Kid code options for this deployment
+ * KID_CODE_RANDOM_DIGITS (0-6) widens the keyspace; used by registration
+ * and code rotation
+ */
+export function getKidCodeOptions(): KidCodeOptions {
+  return {
+    randomDigits: Math.min(
+      Math.max(Number(process.env.KID_CODE_RANDOM_DIGITS) || 0, 0),
+      6,
+    ),
+  };
+}
+
 /**
  * Generate a theme-based kid code
- * Format: {PREFIX}{SUFFIX}{YEAR} (e.g., "NISSEKRAFT2024")
+ * Format: {PREFIX}{SUFFIX}{YEAR}{DIGITS} (e.g., "NISSEKRAFT2024", or
+ * "NISSEKRAFT2024375" with randomDigits: 3)
+ *
+ * Without digits there are only ~1000 codes per year; each random digit
+ * multiplies that by 10, at the cost of a longer code for Day 1.
  *
  * @param year - Year suffix (default: current year)
  * @param existingCodes - Array of already used codes to avoid collisions
+ * @param options - Optional random segment
  * @returns Generated kid code
  */
 export function generateKidCode(
   year?: number,
   existingCodes: string[] = [],
+  options: KidCodeOptions = {},
 ): string {
   const yearSuffix = year || new Date().getFullYear();
+  const randomDigits = () => {
+    let digits = "";
+    for (let i = 0; i < (options.randomDigits ?? 0); i++) {
+      digits += Math.floor(Math.random() * 10);
+    }
+    return digits;
+  };
+
   const maxAttempts = 100;
   let attempts = 0;
 
@@ -102,7 +134,7 @@ export function generateKidCode(
       SNOFALL_PREFIXES[Math.floor(Math.random() * SNOFALL_PREFIXES.length)];
     const suffix =
       SNOFALL_SUFFIXES[Math.floor(Math.random() * SNOFALL_SUFFIXES.length)];
-    const code = `${prefix}${suffix}${yearSuffix}`;
+    const code = `${prefix}${suffix}${yearSuffix}${randomDigits()}`;
 
     if (!existingCodes.includes(code)) {
       return code;
@@ -119,7 +151,7 @@ export function generateKidCode(
     const suffix =
       SNOFALL_SUFFIXES[Math.floor(Math.random() * SNOFALL_SUFFIXES.length)];
     const randomNum = Math.floor(Math.random() * 1000);
-    const code = `${prefix}${suffix}${yearSuffix}${randomNum}`;
+    const code = `${prefix}${suffix}${yearSuffix}${randomDigits()}${randomNum}`;
 
     if (!existingCodes.includes(code)) {
       return code;
@@ -133,7 +165,7 @@ export function generateKidCode(
     SNOFALL_PREFIXES[Math.floor(Math.random() * SNOFALL_PREFIXES.length)];
   const suffix =
     SNOFALL_SUFFIXES[Math.floor(Math.random() * SNOFALL_SUFFIXES.length)];
-  return `${prefix}${suffix}${yearSuffix}${Date.now()}`;
+  return `${prefix}${suffix}${yearSuffix}${randomDigits()}${Date.now()}`;
 }
 
 /**
@@ -0,0 +1,116 @@
+/**
+ * Code Matching - Forgiving answer checks for KodeTerminal
+ *
+ * Kids type SNOMANN for SNØMANN, add spaces or dashes, or hit one wrong key.
+ * Codes are compared after normalization:
+ * - Case-insensitive, Æ/Ø/Å folded to AE/O/A, accents stripped (É → E)
+ * - Whitespace and punctuation removed ("NISSE-LUE" = "NISSELUE")
+ *
+ * Quests can list extra accepted answers in `alternative_koder` (other
+ * spellings or names for the same thing). An answer one keystroke away from a
+ * code (two for long codes) is a near miss: the kid is told "nesten!" and it
+ * doesn't count as a failed attempt.
+ *
+ * Short and numeric codes have no near misses - "35" for "34" would give the
+ * answer away.
+ */
+
+/**
+ * Result of comparing a submitted code with a quest's codes
+ * - riktig: matches the code or one of its alternatives
+ * - nesten: close enough to be a typo (not counted as a failed attempt)
+ * - feil: wrong answer
+ */
+export type CodeMatch = "riktig" | "nesten" | "feil";
+
+// Codes shorter than this never count as near misses
+const MIN_NEAR_MISS_LENGTH = 4;
+
+// Codes at least this long allow two typos instead of one
+const LONG_CODE_LENGTH = 8;
+
+const LETTER_FOLDS: Record<string, string> = {
+  Æ: "AE",
+  Ø: "O",
+  Å: "A",
+};
+
+/**
+ * Normalize a code for comparison
+ *
+ * @example normalizeCode(" snø-mann! ") // "SNOMANN"
+ */
+export function normalizeCode(code: string): string {
+  return code
+    .toUpperCase()
+    .replace(/[ÆØÅ]/g, (letter) => LETTER_FOLDS[letter])
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "") // Combining accents (É → E)
+    .replace(/[^A-Z0-9]/g, "");
+}
+
+/**
+ * Number of single-letter edits (insert, delete, replace or swap two
+ * neighbours) needed to turn one string into the other
+ */
+export function editDistance(a: string, b: string): number {
+  const d: number[][] = Array.from({ length: a.length + 1 }, (_, i) =>
+    Array.from({ length: b.length + 1 }, (_, j) =>
+      i === 0 ? j : j === 0 ? i : 0,
+    ),
+  );
+
+  for (let i = 1; i <= a.length; i++) {
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      d[i][j] = Math.min(
+        d[i - 1][j] + 1,
+        d[i][j - 1] + 1,
+        d[i - 1][j - 1] + cost,
+      );
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        d[i][j] = Math.min(d[i][j], d[i - 2][j - 2] + 1);
+      }
+    }
+  }
+
+  return d[a.length][b.length];
+}
+
+/**
+ * Typos allowed before an answer stops being a near miss
+ */
+function allowedTypos(normalizedCode: string): number {
+  if (
+    normalizedCode.length < MIN_NEAR_MISS_LENGTH ||
+    /^[0-9]+$/.test(normalizedCode)
+  ) {
+    return 0;
+  }
+  return normalizedCode.length >= LONG_CODE_LENGTH ? 2 : 1;
+}
+
+/**
+ * Compare a submitted code with the expected code and its alternatives
+ */
+export function matchCode(
+  input: string,
+  expectedCode: string,
+  alternativeCodes: string[] = [],
+): CodeMatch {
+  const answer = normalizeCode(input);
+  if (!answer) return "feil";
+
+  const candidates = [expectedCode, ...alternativeCodes]
+    .map(normalizeCode)
+    .filter(Boolean);
+
+  if (candidates.includes(answer)) return "riktig";
+
+  const isNearMiss = candidates.some((candidate) => {
+    const typos = allowedTypos(candidate);
+    return typos > 0 && editDistance(answer, candidate) <= typos;
+  });
+
+  return isNearMiss ? "nesten" : "feil";
+}
@@ -0,0 +1,176 @@
+/**
+ * Code Validator - Where KodeTerminal codes and NisseKrypto sequences are checked
+ *
+ * Two implementations, picked by storage backend like createStorageAdapter():
+ * - ServerCodeValidator (sanity): asks /api/quest/submit and
+ *   /api/quest/decrypt. The browser bundle has no answers (see
+ *   quest-answers.ts), and the server records the result in the session.
+ * - LocalCodeValidator (localStorage): the stand-in for offline families,
+ *   checks against the bundled quests as the family plays them.
+ *
+ * Validators only judge. GameEngine applies the verdict to local storage
+ * (submitted codes, failed attempts, unlocks), so the game updates the same
+ * way with both.
+ *
+ * Usage:
+ * ```typescript
+ * const validator = createCodeValidator(resolveKidCode);
+ * const verdict = await validator.checkCode(day, "SNØMANN");
+ * ```
+ */
+
+import { getAllQuests, getFamilyQuests, setSeasonAnswers } from "./data-loader";
+import {
+  checkDecryptionSequence,
+  checkQuestCode,
+  KID_CODE_PLACEHOLDER,
+  usesServerAnswers,
+  type CodeVerdict,
+  type DecryptionVerdict,
+} from "./quest-answers";
+import { getGameSessionId } from "./session-manager";
+import type { OppdragSvar } from "@/types/innhold";
+
+/**
+ * Code Validator Interface
+ * Sequence lengths are checked by the caller before asking
+ */
+export interface CodeValidator {
+  checkCode(day: number, code: string): Promise<CodeVerdict>;
+  checkSequence(
+    challengeId: string,
+    sequence: number[],
+  ): Promise<DecryptionVerdict>;
+}
+
+/**
+ * Local Code Validator
+ * Checks against the quests in the bundle (localStorage mode)
+ */
+export class LocalCodeValidator implements CodeValidator {
+  constructor(private kidCodeResolver: () => Promise<string | null>) {}
+
+  async checkCode(day: number, code: string): Promise<CodeVerdict> {
+    const quest = getFamilyQuests().find((q) => q.dag === day);
+    if (!quest) {
+      return { match: null, message: "UKJENT OPPDRAG" };
+    }
+
+    const kidCode =
+      quest.kode === KID_CODE_PLACEHOLDER
+        ? await this.kidCodeResolver()
+        : undefined;
+
+    return checkQuestCode(quest, code, kidCode);
+  }
+
+  async checkSequence(
+    challengeId: string,
+    sequence: number[],
+  ): Promise<DecryptionVerdict> {
+    const challenge = getAllQuests().find(
+      (q) => q.decryption_challenge?.challengeId === challengeId,
+    )?.decryption_challenge;
+
+    if (!challenge) {
+      return {
+        correct: null,
+        correctCount: 0,
+        message: "Ukjent dekrypteringsutfordring",
+      };
+    }
+
+    return checkDecryptionSequence(challenge, sequence);
+  }
+}
+
+/**
+ * Server Code Validator
+ * Answers never reach the browser; the server also records the result, in
+ * the active child profile's session when one is playing
+ */
+export class ServerCodeValidator implements CodeValidator {
+  async checkCode(day: number, code: string): Promise<CodeVerdict> {
+    try {
+      return await this.post<CodeVerdict>("/api/quest/submit", { day, code });
+    } catch (error) {
+      console.error("[ServerCodeValidator] Code check failed:", error);
+      return { match: null, message: "KUNNE IKKE SJEKKE KODEN - PRØV IGJEN" };
+    }
+  }
+
+  async checkSequence(
+    challengeId: string,
+    sequence: number[],
+  ): Promise<DecryptionVerdict> {
+    try {
+      return await this.post<DecryptionVerdict>("/api/quest/decrypt", {
+        challengeId,
+        sequence,
+      });
+    } catch (error) {
+      console.error("[ServerCodeValidator] Sequence check failed:", error);
+      return {
+        correct: null,
+        correctCount: 0,
+        message: "Kunne ikke sjekke symbolene - prøv igjen",
+      };
+    }
+  }
+
+  private async post<T>(url: string, body: object): Promise<T> {
+    const response = await fetch(url, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      credentials: "include",
+      cache: "no-store",
+      body: JSON.stringify({ ...body, sessionId: getGameSessionId() }),
+    });
+
+    if (!response.ok) {
+      throw new Error(`${url} failed: ${response.status}`);
+    }
+    return (await response.json()) as T;
+  }
+}
+
+/**
+ * Create the validator for the configured storage backend
+ *
+ * @param kidCodeResolver - Resolves {{KID_CODE}} for the local validator
+ */
+export function createCodeValidator(
+  kidCodeResolver: () => Promise<string | null>,
+): CodeValidator {
+  return usesServerAnswers()
+    ? new ServerCodeValidator()
+    : new LocalCodeValidator(kidCodeResolver);
+}
+
+/**
+ * Put the answers back into the quests for nissemor-guide, which shows codes
+ * (DayPlanning, TimelineView) and checks overrides against them
+ *
+ * Call after parent login. Does nothing when the bundle has the answers.
+ */
+export async function loadParentQuestAnswers(): Promise<void> {
+  if (!usesServerAnswers()) return;
+
+  try {
+    const response = await fetch("/api/quest/answers", {
+      credentials: "include",
+      cache: "no-store",
+    });
+    if (!response.ok) {
+      throw new Error(`/api/quest/answers failed: ${response.status}`);
+    }
+
+    const { season, answers } = (await response.json()) as {
+      season: string;
+      answers: OppdragSvar[];
+    };
+    setSeasonAnswers(answers, season);
+  } catch (error) {
+    console.error("[CodeValidator] Failed to load quest answers:", error);
+  }
+}
@@ -0,0 +1,14 @@
+/**
+ * Configuration Error - The server is missing a setting it can't run without
+ *
+ * Thrown where a missing environment variable would otherwise make the
+ * server fall back to something unsafe (e.g. a public signing secret).
+ * createErrorResponse() in api-utils.ts logs the message for operators and
+ * answers a generic 500, so setting names never reach the client.
+ */
+export class ConfigurationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ConfigurationError";
+  }
+}
@@ -3,6 +3,9 @@
  *
  * Centralized quest data loading and validation.
  * Separates data import/validation from game logic.
+ *
+ * Content comes from season packs (see season-packs.ts). Every registered
+ * pack is validated at module load; lookups default to the active season.
  */
 
 import {
@@ -15,30 +18,63 @@ import {
   validateQuestCollection,
 } from "./validators/quest-validator";
 import { extractFileIds } from "./utils/file-tree-utils";
-import { Oppdrag, FilNode } from "@/types/innhold";
+import { getActiveLocale, localizeOppdrag } from "./i18n";
+import { applyVariant, getActiveDifficulty } from "./quest-variants";
+import { hasQuestAnswers, withQuestAnswers } from "./quest-answers";
+import {
+  applyQuestOverrides,
+  getActiveQuestOverrides,
+} from "./quest-overrides";
+import {
+  getAvailableSeasons,
+  getActiveSeasonId,
+  getSeasonPack,
+  resolveSeasonId,
+} from "./season-packs";
+import {
+  Locale,
+  Oppdrag,
+  OppdragNivå,
+  OppdragOverstyring,
+  OppdragSvar,
+  SeasonPack,
+  StatiskInnhold,
+} from "@/types/innhold";
+
+// Validated quests per season (validation runs once per pack)
+const QUEST_CACHE = new Map<string, Oppdrag[]>();
 
-import uke1 from "@/data/uke1_oppdrag.json";
-import uke2 from "@/data/uke2_oppdrag.json";
-import uke3 from "@/data/uke3_oppdrag.json";
-import uke4 from "@/data/uke4_oppdrag.json";
-import statiskInnhold from "@/data/statisk_innhold.json";
+// Translated quests per season and locale ("2025:en")
+const LOCALIZED_QUEST_CACHE = new Map<string, Oppdrag[]>();
 
-const week1 = uke1 as Oppdrag[];
-const week2 = uke2 as Oppdrag[];
-const week3 = uke3 as Oppdrag[];
-const week4 = uke4 as Oppdrag[];
+// Quests per season, locale and level ("2025:en:lett") before overrides
+const VARIANT_QUEST_CACHE = new Map<string, Oppdrag[]>();
+
+// Quests with a family's overrides, per override list and variant quests
+const FAMILY_QUEST_CACHE = new WeakMap<
+  OppdragOverstyring[],
+  WeakMap<Oppdrag[], Oppdrag[]>
+>();
 
 /**
- * Merge and validate all weekly quest files
+ * Merge and validate all weekly quest files of a season pack
  * Runs comprehensive build-time validation
  */
-export function mergeAndValidate(): Oppdrag[] {
-  week1.forEach((oppdrag) => validateOppdrag(oppdrag, 1));
-  week2.forEach((oppdrag) => validateOppdrag(oppdrag, 2));
-  week3.forEach((oppdrag) => validateOppdrag(oppdrag, 3));
-  week4.forEach((oppdrag) => validateOppdrag(oppdrag, 4));
+export function mergeAndValidate(
+  pack: SeasonPack = getSeasonPack(),
+): Oppdrag[] {
+  const [week1 = [], week2 = [], week3 = [], week4 = []] = pack.uker;
+  const allOppdrag = pack.uker.flat();
+
+  // The browser bundle of a server-backed build has no answers to validate
+  // (see quest-answers.ts); the same files were validated in full on the server
+  if (!hasQuestAnswers(allOppdrag)) {
+    return allOppdrag.sort((a, b) => a.dag - b.dag);
+  }
 
-  const allOppdrag = [...week1, ...week2, ...week3, ...week4];
+  pack.uker.forEach((week, index) =>
+    week.forEach((oppdrag) => validateOppdrag(oppdrag, index + 1)),
+  );
 
   validateQuestCollection(allOppdrag, {
     week1: week1.length,
@@ -48,18 +84,17 @@ export function mergeAndValidate(): Oppdrag[] {
   });
 
   try {
-    const fileTree = statiskInnhold.filer as FilNode[];
-    const availableFiles = extractFileIds(fileTree);
+    const availableFiles = extractFileIds(pack.statiskInnhold.filer);
 
     validateFileReferences(allOppdrag, availableFiles);
     validateTopicDependencies(allOppdrag);
-    validateEventyrReferences(allOppdrag);
+    validateEventyrReferences(allOppdrag, pack.eventyr.eventyr);
     validateEventyr(allOppdrag);
     validateSymbolReferences(allOppdrag);
   } catch (error) {
     if (error instanceof Error) {
       throw new Error(
-        `Multi-day narrative validation failed: ${error.message}`,
+        `Multi-day narrative validation failed (season ${pack.manifest.id}): ${error.message}`,
       );
     }
     throw error;
@@ -68,12 +103,116 @@ export function mergeAndValidate(): Oppdrag[] {
   return allOppdrag.sort((a, b) => a.dag - b.dag);
 }
 
-const ALL_QUESTS = mergeAndValidate();
+/**
+ * Get all quests for a season (defaults to the active season)
+ */
+export function getAllQuests(seasonId?: string): Oppdrag[] {
+  const id = resolveSeasonId(seasonId ?? getActiveSeasonId());
+
+  let quests = QUEST_CACHE.get(id);
+  if (!quests) {
+    quests = mergeAndValidate(getSeasonPack(id));
+    QUEST_CACHE.set(id, quests);
+  }
+  return quests;
+}
+
+/**
+ * Get all quests with text in the given locale (defaults to the active one)
+ * For display only - game logic works on getAllQuests()
+ */
+export function getLocalizedQuests(
+  seasonId?: string,
+  locale: Locale = getActiveLocale(),
+): Oppdrag[] {
+  const id = resolveSeasonId(seasonId ?? getActiveSeasonId());
+  const cacheKey = `${id}:${locale}`;
+
+  let quests = LOCALIZED_QUEST_CACHE.get(cacheKey);
+  if (!quests) {
+    quests = getAllQuests(id).map((quest) =>
+      localizeOppdrag(quest, locale, id),
+    );
+    LOCALIZED_QUEST_CACHE.set(cacheKey, quests);
+  }
+  return quests;
+}
+
+/**
+ * Get all quests as the family plays them: translated to their locale, with
+ * the variant for their difficulty level and their own overrides on top (all
+ * default to the active ones)
+ *
+ * Codes may differ from getAllQuests() when a variant or override changes the
+ * answer, so the code terminal must take its expected code from here.
+ */
+export function getFamilyQuests(
+  seasonId?: string,
+  locale: Locale = getActiveLocale(),
+  difficulty: OppdragNivå = getActiveDifficulty(),
+  overrides: OppdragOverstyring[] = getActiveQuestOverrides(),
+): Oppdrag[] {
+  const id = resolveSeasonId(seasonId ?? getActiveSeasonId());
+  const cacheKey = `${id}:${locale}:${difficulty}`;
+
+  let quests = VARIANT_QUEST_CACHE.get(cacheKey);
+  if (!quests) {
+    quests = getLocalizedQuests(id, locale).map((quest) =>
+      applyVariant(quest, difficulty),
+    );
+    VARIANT_QUEST_CACHE.set(cacheKey, quests);
+  }
+  if (overrides.length === 0) return quests;
 
-export function getAllQuests(): Oppdrag[] {
-  return ALL_QUESTS;
+  // Same override list = same array, so renders don't see new quests
+  let byQuests = FAMILY_QUEST_CACHE.get(overrides);
+  if (!byQuests) {
+    byQuests = new WeakMap();
+    FAMILY_QUEST_CACHE.set(overrides, byQuests);
+  }
+  let overridden = byQuests.get(quests);
+  if (!overridden) {
+    overridden = applyQuestOverrides(quests, overrides);
+    byQuests.set(quests, overridden);
+  }
+  return overridden;
 }
 
-export function getQuestByDay(day: number): Oppdrag | undefined {
-  return ALL_QUESTS.find((q) => q.dag === day);
+/**
+ * Put a season's answers back into its quests (nissemor-guide, after loading
+ * them from /api/quest/answers). Only needed when the bundle has none.
+ */
+export function setSeasonAnswers(
+  answers: OppdragSvar[],
+  seasonId?: string,
+): void {
+  const id = resolveSeasonId(seasonId ?? getActiveSeasonId());
+  const quests = getAllQuests(id);
+  if (hasQuestAnswers(quests)) return;
+
+  QUEST_CACHE.set(id, withQuestAnswers(quests, answers));
+
+  // Translations and variants were built from the quests without answers
+  [LOCALIZED_QUEST_CACHE, VARIANT_QUEST_CACHE].forEach((cache) =>
+    [...cache.keys()]
+      .filter((key) => key.startsWith(`${id}:`))
+      .forEach((key) => cache.delete(key)),
+  );
 }
+
+export function getQuestByDay(
+  day: number,
+  seasonId?: string,
+): Oppdrag | undefined {
+  return getAllQuests(seasonId).find((q) => q.dag === day);
+}
+
+/**
+ * Get static content (file tree, alerts, metrics) for a season
+ */
+export function getStaticContent(seasonId?: string): StatiskInnhold {
+  return getSeasonPack(seasonId).statiskInnhold;
+}
+
+// Build-time validation of every registered season
+getAvailableSeasons().forEach((season) => getAllQuests(season.id));
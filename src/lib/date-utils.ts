@@ -7,12 +7,17 @@
  * IMPORTANT: Always use these utilities instead of `new Date()` directly
  * to ensure consistent behavior across the application.
  *
+ * Game days come from the family's calendar schedule (see calendar-schedule),
+ * so day N is December N only for families on the default calendar.
+ *
  * Environment Variables:
  * - NEXT_PUBLIC_TEST_MODE: Enable test mode (bypasses date restrictions)
- * - NEXT_PUBLIC_MOCK_DAY: Override current day (1-24 for testing)
+ * - NEXT_PUBLIC_MOCK_DAY: Override current date of month (1-31 for testing)
  * - NEXT_PUBLIC_MOCK_MONTH: Override current month (1-12, defaults to 12)
  */
 
+import { CALENDAR_DAYS, getGameDay, isPausedDate } from "./calendar-schedule";
+
 /**
  * Get the current date/time, respecting mock settings
  * Use this instead of `new Date()` everywhere
@@ -41,23 +46,30 @@ export function getCurrentDate(): Date {
 }
 
 /**
- * Get current calendar day (1-31)
- * Respects NEXT_PUBLIC_MOCK_DAY for testing
+ * Get today's date in Norway (CET/CEST), respecting mock settings
+ * For server code - the server's own time zone may differ from the families'
  */
-export function getCurrentDay(): number {
-  return getCurrentDate().getDate();
+export function getOsloDate(): Date {
+  if (process.env.NEXT_PUBLIC_MOCK_DAY) {
+    return getCurrentDate();
+  }
+
+  return new Date(
+    new Date().toLocaleString("en-US", { timeZone: "Europe/Oslo" }),
+  );
 }
 
 /**
- * Get current month (1-12)
- * Respects NEXT_PUBLIC_MOCK_MONTH for testing
+ * Get current game day per the family's calendar schedule
+ * 0 before the calendar starts, above 24 when it is over
+ * Respects NEXT_PUBLIC_MOCK_DAY for testing (mocks the date, not the day)
  */
-export function getCurrentMonth(): number {
-  return getCurrentDate().getMonth() + 1; // Convert 0-based to 1-based
+export function getCurrentDay(): number {
+  return getGameDay(getCurrentDate());
 }
 
 /**
- * Check if current date is within the calendar period (December 1-24)
+ * Check if the family's calendar is running (game day 1-24)
  * @param testMode - If true, bypass date restrictions for development
  */
 export function isCalendarActive(testMode: boolean = false): boolean {
@@ -65,10 +77,27 @@ export function isCalendarActive(testMode: boolean = false): boolean {
     return true;
   }
 
-  const month = getCurrentMonth();
   const day = getCurrentDay();
 
-  return month === 12 && day >= 1 && day <= 24;
+  return day >= 1 && day <= CALENDAR_DAYS;
+}
+
+/**
+ * Check if the family has paused the calendar today (no new day unlocks)
+ */
+export function isCalendarPaused(): boolean {
+  return isPausedDate(getCurrentDate());
+}
+
+/**
+ * Check if a game day has unlocked (always true in test mode)
+ */
+export function isDayUnlocked(day: number): boolean {
+  if (process.env.NEXT_PUBLIC_TEST_MODE === "true") {
+    return true;
+  }
+
+  return day <= getCurrentDay();
 }
 
 /**
@@ -0,0 +1,193 @@
+/**
+ * Day Rollback - Taking a day back in a stored session (server backends)
+ *
+ * GameEngine.previewDayRollback() works out what a day takes with it from
+ * the freshly loaded game state; POST /api/session/rollback then removes
+ * exactly those items from the session as it is stored now. Whole fields are
+ * never replaced, so progress other devices synced in the meantime stays.
+ * The route writes with the session's revision and reads again on a 409.
+ *
+ * With localStorage there is no other device, and GameEngine.rollbackDay()
+ * removes the items locally.
+ */
+
+import type { SessionData } from "./api-utils";
+import type { DayRollbackPlan } from "./game-engine";
+import {
+  createGameEvent,
+  type GameEvent,
+  type ParentOverrideAction,
+} from "./game-events";
+
+const CRISES = ["antenna", "inventory"] as const;
+
+function isStringList(value: unknown): value is string[] {
+  return (
+    Array.isArray(value) && value.every((item) => typeof item === "string")
+  );
+}
+
+/**
+ * Whether a plan leaves the game state as it is (the day isn't played)
+ */
+export function isDayRollbackEmpty(plan: DayRollbackPlan): boolean {
+  return (
+    plan.code === null &&
+    plan.failedAttempts === 0 &&
+    !plan.bonusOppdrag &&
+    [
+      plan.files,
+      plan.topics,
+      plan.modules,
+      plan.symbols,
+      plan.decryptions,
+      plan.badges,
+      plan.eventyr,
+      plan.crises,
+    ].every((list) => list.length === 0)
+  );
+}
+
+/**
+ * Check a plan sent by the client
+ * @returns The plan, or null when it isn't one
+ */
+export function sanitizeDayRollbackPlan(
+  input: unknown,
+): DayRollbackPlan | null {
+  if (!input || typeof input !== "object") return null;
+  const plan = input as Record<string, unknown>;
+
+  const lists = [
+    plan.files,
+    plan.topics,
+    plan.modules,
+    plan.symbols,
+    plan.decryptions,
+    plan.badges,
+    plan.eventyr,
+    plan.crises,
+  ];
+  if (
+    !Number.isInteger(plan.day) ||
+    (plan.code !== null && typeof plan.code !== "string") ||
+    typeof plan.failedAttempts !== "number" ||
+    typeof plan.bonusOppdrag !== "boolean" ||
+    !lists.every(isStringList)
+  ) {
+    return null;
+  }
+
+  return {
+    ...(plan as unknown as DayRollbackPlan),
+    crises: CRISES.filter((crisis) =>
+      (plan.crises as string[]).includes(crisis),
+    ),
+  };
+}
+
+/**
+ * Session fields after removing a plan's items (Sanity array format)
+ * Only fields the plan touches are returned; the day's parent overrides are
+ * appended to the event log, as GameEngine.rollbackDay() records them.
+ */
+export function getDayRollbackUpdates(
+  session: SessionData,
+  plan: DayRollbackPlan,
+  now = new Date().toISOString(),
+): Record<string, unknown> {
+  const { day } = plan;
+  const stored = session as unknown as Record<string, unknown[] | undefined>;
+  const without = <T>(field: string, drop: (item: T) => boolean) =>
+    ((stored[field] ?? []) as T[]).filter((item) => !drop(item));
+
+  const updates: Record<string, unknown> = {
+    submittedCodes: without<{ kode: string; day?: number }>(
+      "submittedCodes",
+      (entry) =>
+        entry.day === undefined
+          ? entry.kode.toUpperCase() === plan.code?.toUpperCase()
+          : entry.day === day,
+    ),
+    failedAttempts: without<{ day: number }>(
+      "failedAttempts",
+      (entry) => entry.day === day,
+    ),
+    firstFailedAttempts: without<{ day: number }>(
+      "firstFailedAttempts",
+      (entry) => entry.day === day,
+    ),
+  };
+
+  if (plan.files.length > 0) {
+    updates.unlockedFiles = without<string>("unlockedFiles", (fileId) =>
+      plan.files.includes(fileId),
+    );
+  }
+  if (plan.topics.length > 0) {
+    updates.topicUnlocks = without<{ topic: string }>("topicUnlocks", (entry) =>
+      plan.topics.includes(entry.topic),
+    );
+  }
+  if (plan.modules.length > 0) {
+    updates.unlockedModules = without<string>("unlockedModules", (moduleId) =>
+      plan.modules.includes(moduleId),
+    );
+  }
+  if (plan.symbols.length > 0) {
+    updates.collectedSymbols = without<{ symbolId: string }>(
+      "collectedSymbols",
+      (symbol) => plan.symbols.includes(symbol.symbolId),
+    );
+  }
+  if (plan.decryptions.length > 0) {
+    updates.solvedDecryptions = without<string>("solvedDecryptions", (id) =>
+      plan.decryptions.includes(id),
+    );
+    updates.decryptionAttempts = without<{ challengeId: string }>(
+      "decryptionAttempts",
+      (entry) => plan.decryptions.includes(entry.challengeId),
+    );
+  }
+  if (plan.badges.length > 0) {
+    updates.earnedBadges = without<{ badgeId: string }>(
+      "earnedBadges",
+      (badge) => plan.badges.includes(badge.badgeId),
+    );
+  }
+  if (plan.bonusOppdrag) {
+    updates.bonusOppdragBadges = without<{ day: number }>(
+      "bonusOppdragBadges",
+      (badge) => badge.day === day,
+    );
+  }
+  if (plan.eventyr.length > 0) {
+    updates.eventyrBadges = without<{ eventyrId: string }>(
+      "eventyrBadges",
+      (badge) => plan.eventyr.includes(badge.eventyrId),
+    );
+  }
+  if (plan.crises.length > 0) {
+    const status = session.crisisStatus ?? { antenna: false, inventory: false };
+    updates.crisisStatus = {
+      antenna: status.antenna === true && !plan.crises.includes("antenna"),
+      inventory:
+        status.inventory === true && !plan.crises.includes("inventory"),
+    };
+  }
+
+  const override = (action: ParentOverrideAction, target: string) =>
+    createGameEvent({ type: "parent-override", action, target }, now);
+  const events: GameEvent[] = [
+    override("day-rolled-back", String(day)),
+    ...plan.symbols.map((id) => override("symbol-removed", id)),
+    ...plan.decryptions.map((id) => override("decryption-reset", id)),
+    ...plan.badges.map((id) => override("badge-revoked", id)),
+  ];
+  updates.eventLog = [
+    ...(session.eventLog ?? []),
+    ...events.map((event) => ({ _key: `event-${event.id}`, ...event })),
+  ];
+
+  return updates;
+}
@@ -2,12 +2,19 @@
  * Email Service for NisseKomm
  *
  * Sends CRT-themed welcome emails with family access codes via Resend.
- * Used during registration and password recovery.
+ * Used during registration and password recovery, to confirm a new
+ * code after rotation in innstillinger, and for parent guide login links.
  *
  * In test environment (NODE_ENV=test), emails are logged but not sent.
+ *
+ * Local stand-in: with EMAIL_TRANSPORT=console (the default outside
+ * production when RESEND_API_KEY is missing), emails are printed to the
+ * server log in full instead of sent, so login links can be followed
+ * locally.
  */
 
 import { Resend } from "resend";
+import { MAGIC_LINK_TTL_MS } from "./parent-token";
 
 // Lazy-initialize Resend to allow environment variables to be loaded first
 let resendInstance: Resend | null = null;
@@ -32,6 +39,41 @@ const FROM_EMAIL =
   process.env.RESEND_FROM_EMAIL || "Rampenissen <rampenissen@nissekomm.no>";
 const BASE_URL = process.env.NEXT_PUBLIC_URL || "https://nissekomm.no";
 
+interface OutgoingEmail {
+  to: string;
+  subject: string;
+  html: string;
+  text: string;
+}
+
+/**
+ * Whether emails go to the server log instead of Resend
+ */
+function isConsoleTransport(): boolean {
+  const transport = process.env.EMAIL_TRANSPORT;
+  if (transport) return transport === "console";
+  return !process.env.RESEND_API_KEY && process.env.NODE_ENV !== "production";
+}
+
+/**
+ * Send an email with the configured transport
+ * Resolves to Resend's error (null when sent or printed)
+ */
+async function deliverEmail(email: OutgoingEmail): Promise<{ error: unknown }> {
+  if (isConsoleTransport()) {
+    console.log(
+      `[Email Service] LOCAL OUTBOX - Email to ${email.to}\nSubject: ${email.subject}\n${email.text}`,
+    );
+    return { error: null };
+  }
+
+  const { error } = await getResend().emails.send({
+    from: FROM_EMAIL,
+    ...email,
+  });
+  return { error };
+}
+
 interface WelcomeEmailParams {
   to: string;
   familyName?: string;
@@ -53,8 +95,26 @@ interface DailyMissionEmailParams {
   unsubscribeUrl: string;
 }
 
+interface CodeChangeEmailParams {
+  to: string;
+  familyName?: string;
+  role: "kid" | "parent"; // Which code was replaced
+  code: string; // The new code
+}
+
+interface MagicLinkEmailParams {
+  to: string;
+  familyName?: string;
+  token: string; // Magic link token (parent-token.ts)
+}
+
 // Export for testing
-export type { WelcomeEmailParams, DailyMissionEmailParams };
+export type {
+  WelcomeEmailParams,
+  DailyMissionEmailParams,
+  CodeChangeEmailParams,
+  MagicLinkEmailParams,
+};
 
 /**
  * Generate welcome email HTML using reusable template
@@ -363,8 +423,7 @@ export async function sendWelcomeEmail(
       return true;
     }
 
-    const { error } = await getResend().emails.send({
-      from: FROM_EMAIL,
+    const { error } = await deliverEmail({
       to,
       subject: "🎄 Velkommen til NisseKomm - Dine hemmelige koder!",
       html: createWelcomeEmailHtml(contentParams),
@@ -384,6 +443,321 @@ export async function sendWelcomeEmail(
   }
 }
 
+/**
+ * Labels for the code that was replaced
+ */
+function describeChangedCode(role: CodeChangeEmailParams["role"]) {
+  return role === "kid"
+    ? {
+        title: "BARNEKODE",
+        usage: "Barna logger inn med denne koden fra nå av.",
+        effect:
+          "Alle enheter som brukte den gamle barnekoden er logget ut. Fremdriften er tatt vare på.",
+      }
+    : {
+        title: "FORELDREKODE",
+        usage: "Bruk denne koden for Nissemor-guiden fra nå av.",
+        effect:
+          "Alle enheter som var logget inn i Nissemor-guiden er logget ut.",
+      };
+}
+
+/**
+ * Generate code change email HTML (same CRT frame as the welcome email)
+ */
+function createCodeChangeEmailHtml({
+  familyName,
+  role,
+  code,
+}: Omit<CodeChangeEmailParams, "to">): string {
+  const familyGreeting = familyName
+    ? `Familien ${familyName}`
+    : "Kjære familie";
+  const { title, usage, effect } = describeChangedCode(role);
+
+  return `
+<!DOCTYPE html>
+<html lang="no">
+<head>
+  <meta charset="UTF-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+  <title>Ny ${title.toLowerCase()} for NisseKomm</title>
+</head>
+<body style="margin: 0; padding: 0; background-color: #000000; font-family: 'Courier New', Courier, monospace;">
+  <table role="presentation" style="width: 100%; border-collapse: collapse; background-color: #000000;" bgcolor="#000000">
+    <tr>
+      <td align="center" style="padding: 40px 20px;">
+        <table role="presentation" style="max-width: 600px; width: 100%; border-collapse: collapse; background-color: #050a05; border: 4px solid #00ff00;" bgcolor="#050a05">
+          <tr>
+            <td style="padding: 30px;">
+              <h1 style="margin: 0 0 5px 0; color: #00ff00; font-size: 28px; font-weight: normal; letter-spacing: 2px;">
+                ⚡ NISSEKOMM ⚡
+              </h1>
+              <p style="margin: 0 0 20px 0; color: #00aa00; font-size: 14px; border-bottom: 2px solid #00ff00; padding-bottom: 15px;">
+                &gt; SIKKERHETSVARSEL
+              </p>
+              <p style="margin: 0 0 15px 0; color: #00dd00; font-size: 16px;">
+                Hei ${familyGreeting}!
+              </p>
+              <p style="margin: 0 0 20px 0; color: #00dd00; font-size: 16px;">
+                ${title} er byttet i familieinnstillingene. ${usage}
+              </p>
+              <table role="presentation" width="100%" cellpadding="20" cellspacing="0" border="0" bgcolor="#1a3a1a" style="border: 2px solid #00ff00; background-color: #1a3a1a; margin-bottom: 20px;">
+                <tr>
+                  <td>
+                    <p style="margin: 0 0 10px 0; color: #00ff00; font-size: 14px;">
+                      🔐 NY ${title}:
+                    </p>
+                    <p style="margin: 0; color: #ffd700; font-size: 26px; font-weight: bold; letter-spacing: 3px; text-align: center;">
+                      ${code}
+                    </p>
+                  </td>
+                </tr>
+              </table>
+              <p style="margin: 0 0 15px 0; color: #00dd00; font-size: 14px;">
+                ${effect}
+              </p>
+              <p style="margin: 0 0 15px 0; color: #00aa00; font-size: 12px;">
+                Var det ikke dere som byttet koden? Logg inn på <a href="${BASE_URL}/nissemor-guide/innstillinger" style="color: #00ddff;">innstillinger</a> og bytt begge kodene.
+              </p>
+              <p style="margin: 0; color: #00ff00; font-size: 14px;">
+                🎅 Hilsen Rampenissen
+              </p>
+            </td>
+          </tr>
+        </table>
+      </td>
+    </tr>
+  </table>
+</body>
+</html>
+`;
+}
+
+/**
+ * Generate plain text version of code change email
+ */
+function createCodeChangeEmailText({
+  familyName,
+  role,
+  code,
+}: Omit<CodeChangeEmailParams, "to">): string {
+  const familyGreeting = familyName
+    ? `Familien ${familyName}`
+    : "Kjære familie";
+  const { title, usage, effect } = describeChangedCode(role);
+
+  return `
+═══════════════════════════════════════
+⚡ NISSEKOMM - SIKKERHETSVARSEL ⚡
+═══════════════════════════════════════
+
+Hei ${familyGreeting}!
+
+${title} er byttet i familieinnstillingene. ${usage}
+
+───────────────────────────────────────
+🔐 NY ${title}:
+
+    ${code}
+───────────────────────────────────────
+
+${effect}
+
+Var det ikke dere som byttet koden? Logg inn på
+${BASE_URL}/nissemor-guide/innstillinger og bytt begge kodene.
+
+🎅 Hilsen Rampenissen
+═══════════════════════════════════════
+`;
+}
+
+/**
+ * Send the new code after a code rotation
+ *
+ * In test environment, logs the email instead of sending.
+ *
+ * @returns true if email sent successfully (or skipped in test mode), false otherwise
+ */
+export async function sendCodeChangeEmail(
+  params: CodeChangeEmailParams,
+): Promise<boolean> {
+  try {
+    const { to, ...contentParams } = params;
+
+    if (isTestEnvironment()) {
+      console.log(
+        `[Email Service] TEST MODE - Skipping code change email to ${to} (${contentParams.role} code)`,
+      );
+      return true;
+    }
+
+    const { title } = describeChangedCode(contentParams.role);
+    const { error } = await deliverEmail({
+      to,
+      subject: `🔐 NisseKomm - Ny ${title.toLowerCase()}`,
+      html: createCodeChangeEmailHtml(contentParams),
+      text: createCodeChangeEmailText(contentParams),
+    });
+
+    if (error) {
+      console.error("[Email Service] Failed to send code change email:", error);
+      return false;
+    }
+
+    console.log(`[Email Service] Code change email sent to ${to}`);
+    return true;
+  } catch (error) {
+    console.error("[Email Service] Error sending code change email:", error);
+    return false;
+  }
+}
+
+/**
+ * Guide URL that logs in with a magic link token (GuideAuth reads it)
+ */
+function createMagicLinkUrl(token: string): string {
+  return `${BASE_URL}/nissemor-guide?innlogging=${encodeURIComponent(token)}`;
+}
+
+/**
+ * Generate magic link email HTML (same CRT frame as the code change email)
+ */
+function createMagicLinkEmailHtml({
+  familyName,
+  token,
+}: Omit<MagicLinkEmailParams, "to">): string {
+  const familyGreeting = familyName
+    ? `Familien ${familyName}`
+    : "Kjære familie";
+  const url = createMagicLinkUrl(token);
+
+  return `
+<!DOCTYPE html>
+<html lang="no">
+<head>
+  <meta charset="UTF-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+  <title>Logg inn i Nissemor-guiden</title>
+</head>
+<body style="margin: 0; padding: 0; background-color: #000000; font-family: 'Courier New', Courier, monospace;">
+  <table role="presentation" style="width: 100%; border-collapse: collapse; background-color: #000000;" bgcolor="#000000">
+    <tr>
+      <td align="center" style="padding: 40px 20px;">
+        <table role="presentation" style="max-width: 600px; width: 100%; border-collapse: collapse; background-color: #050a05; border: 4px solid #00ff00;" bgcolor="#050a05">
+          <tr>
+            <td style="padding: 30px;">
+              <h1 style="margin: 0 0 5px 0; color: #00ff00; font-size: 28px; font-weight: normal; letter-spacing: 2px;">
+                ⚡ NISSEKOMM ⚡
+              </h1>
+              <p style="margin: 0 0 20px 0; color: #00aa00; font-size: 14px; border-bottom: 2px solid #00ff00; padding-bottom: 15px;">
+                &gt; INNLOGGINGSLENKE
+              </p>
+              <p style="margin: 0 0 15px 0; color: #00dd00; font-size: 16px;">
+                Hei ${familyGreeting}!
+              </p>
+              <p style="margin: 0 0 20px 0; color: #00dd00; font-size: 16px;">
+                Trykk på knappen for å logge inn i Nissemor-guiden uten foreldrekoden.
+              </p>
+              <table role="presentation" width="100%" cellpadding="0" cellspacing="0" border="0" style="margin-bottom: 20px;">
+                <tr>
+                  <td align="center">
+                    <a href="${url}" style="display: inline-block; padding: 15px 30px; background-color: #00ff00; color: #000000; font-size: 18px; font-weight: bold; text-decoration: none; letter-spacing: 2px;">
+                      🔑 LOGG INN
+                    </a>
+                  </td>
+                </tr>
+              </table>
+              <p style="margin: 0 0 15px 0; color: #00dd00; font-size: 14px;">
+                Lenken virker én gang og i ${MAGIC_LINK_TTL_MS / 60000} minutter.
+              </p>
+              <p style="margin: 0 0 15px 0; color: #00aa00; font-size: 12px;">
+                Ba du ikke om å logge inn? Da kan du se bort fra denne e-posten.
+              </p>
+              <p style="margin: 0; color: #00ff00; font-size: 14px;">
+                🎅 Hilsen Rampenissen
+              </p>
+            </td>
+          </tr>
+        </table>
+      </td>
+    </tr>
+  </table>
+</body>
+</html>
+`;
+}
+
+/**
+ * Generate plain text version of magic link email
+ */
+function createMagicLinkEmailText({
+  familyName,
+  token,
+}: Omit<MagicLinkEmailParams, "to">): string {
+  const familyGreeting = familyName
+    ? `Familien ${familyName}`
+    : "Kjære familie";
+
+  return `
+═══════════════════════════════════════
+⚡ NISSEKOMM - INNLOGGINGSLENKE ⚡
+═══════════════════════════════════════
+
+Hei ${familyGreeting}!
+
+Åpne lenken for å logge inn i Nissemor-guiden uten foreldrekoden:
+
+${createMagicLinkUrl(token)}
+
+Lenken virker én gang og i ${MAGIC_LINK_TTL_MS / 60000} minutter.
+
+Ba du ikke om å logge inn? Da kan du se bort fra denne e-posten.
+
+🎅 Hilsen Rampenissen
+═══════════════════════════════════════
+`;
+}
+
+/**
+ * Send a one-time login link for the parent guide
+ *
+ * In test environment, logs the email instead of sending.
+ *
+ * @returns true if email sent successfully (or skipped in test mode), false otherwise
+ */
+export async function sendMagicLinkEmail(
+  params: MagicLinkEmailParams,
+): Promise<boolean> {
+  try {
+    const { to, ...contentParams } = params;
+
+    if (isTestEnvironment()) {
+      // No address in the log: login requests follow the auth audit rule
+      console.log("[Email Service] TEST MODE - Skipping magic link email");
+      return true;
+    }
+
+    const { error } = await deliverEmail({
+      to,
+      subject: "🔑 NisseKomm - Logg inn i Nissemor-guiden",
+      html: createMagicLinkEmailHtml(contentParams),
+      text: createMagicLinkEmailText(contentParams),
+    });
+
+    if (error) {
+      console.error("[Email Service] Failed to send magic link email:", error);
+      return false;
+    }
+
+    console.log("[Email Service] Magic link email sent");
+    return true;
+  } catch (error) {
+    console.error("[Email Service] Error sending magic link email:", error);
+    return false;
+  }
+}
+
 /**
  * Generate CRT-themed HTML email for daily mission reminders
  */
@@ -715,8 +1089,7 @@ export async function sendDailyMissionEmail(
 
     console.log(`[Email Service] Calling Resend API to send email to ${to}...`);
 
-    const { error } = await getResend().emails.send({
-      from: FROM_EMAIL,
+    const { error } = await deliverEmail({
       to,
       subject: `🎄 Dag ${contentParams.day}: ${contentParams.missionTitle} - NisseKomm`,
       html: createDailyMissionEmailHtml(contentParams),
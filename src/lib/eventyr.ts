@@ -1,46 +1,58 @@
 /**
  * Eventy Management System
  *
- * Loads and provides access to story arc metadata from eventyr.json.
+ * Loads and provides access to story arc metadata from the active season's eventyr.json.
  * This separates narrative structure from mission data, making both more manageable.
  *
  * Days are derived from oppdrag files (single source of truth) rather than duplicated.
+ * Names and descriptions are returned in the active locale (see i18n.ts).
  */
 
-import eventyrData from "@/data/eventyr.json";
-import merkerData from "@/data/merker.json";
 import type { EventyrData, Eventyr } from "@/types/innhold";
 import { getAllOppdrag } from "@/lib/oppdrag";
+import {
+  getActiveSeasonId,
+  getAvailableSeasons,
+  getSeasonPack,
+  resolveSeasonId,
+} from "@/lib/season-packs";
+import { localizeEventyr } from "@/lib/i18n";
 
-// Load eventyr data at build time
-const EVENTYR: EventyrData = eventyrData as EventyrData;
+/**
+ * Get eventyr data for the active season pack, translated to the active locale
+ */
+function getEventyrData(): EventyrData {
+  const data = getSeasonPack().eventyr;
+  return { ...data, eventyr: data.eventyr.map((e) => localizeEventyr(e)) };
+}
 
-// Cache for derived eventyr-to-days mapping (computed once at module load)
-const EVENTYR_DAYS_CACHE = new Map<string, number[]>();
+// Cache for derived eventyr-to-days mapping per season (computed once per pack)
+const EVENTYR_DAYS_CACHE = new Map<string, Map<string, number[]>>();
 
 /**
  * Build eventyr-to-days mapping from oppdrag files (single source of truth)
- * This runs once at module initialization and validates første_opplåsingsdag
+ * This runs once per season and validates første_opplåsingsdag
  */
-function buildEventyrDaysMapping(): void {
-  const allOppdrag = getAllOppdrag();
+function buildEventyrDaysMapping(seasonId: string): Map<string, number[]> {
+  const mapping = new Map<string, number[]>();
+  const allOppdrag = getAllOppdrag(seasonId);
 
   allOppdrag.forEach((quest) => {
     if (quest.eventyr) {
       const eventyrId = quest.eventyr.id;
-      if (!EVENTYR_DAYS_CACHE.has(eventyrId)) {
-        EVENTYR_DAYS_CACHE.set(eventyrId, []);
+      if (!mapping.has(eventyrId)) {
+        mapping.set(eventyrId, []);
       }
-      EVENTYR_DAYS_CACHE.get(eventyrId)!.push(quest.dag);
+      mapping.get(eventyrId)!.push(quest.dag);
     }
   });
 
   // Sort days for each eventyr
-  EVENTYR_DAYS_CACHE.forEach((days) => days.sort((a, b) => a - b));
+  mapping.forEach((days) => days.sort((a, b) => a - b));
 
   // Validate første_opplåsingsdag against computed first day
-  EVENTYR.eventyr.forEach((eventyr) => {
-    const days = EVENTYR_DAYS_CACHE.get(eventyr.id);
+  getSeasonPack(seasonId).eventyr.eventyr.forEach((eventyr) => {
+    const days = mapping.get(eventyr.id);
     if (days && days.length > 0) {
       const computedFirstDay = days[0];
       if (eventyr.første_opplåsingsdag !== computedFirstDay) {
@@ -50,16 +62,31 @@ function buildEventyrDaysMapping(): void {
       }
     }
   });
+
+  return mapping;
 }
 
-// Build mapping on module load
-buildEventyrDaysMapping();
+/**
+ * Get eventyr-to-days mapping for the active season (built on first use)
+ */
+function getEventyrDaysMapping(): Map<string, number[]> {
+  const seasonId = resolveSeasonId(getActiveSeasonId());
+
+  let mapping = EVENTYR_DAYS_CACHE.get(seasonId);
+  if (!mapping) {
+    mapping = buildEventyrDaysMapping(seasonId);
+    EVENTYR_DAYS_CACHE.set(seasonId, mapping);
+  }
+  return mapping;
+}
 
 /**
  * Validate eventyr badges against merker.json at build time
  */
-function validateEventyrBadges(): void {
-  EVENTYR.eventyr.forEach((eventyr) => {
+function validateEventyrBadges(seasonId: string): void {
+  const { eventyr: eventyrData, merker: merkerData } = getSeasonPack(seasonId);
+
+  eventyrData.eventyr.forEach((eventyr) => {
     if (eventyr.belønning.type === "badge") {
       const badgeId = eventyr.belønning.badge_id;
 
@@ -98,35 +125,38 @@ function validateEventyrBadges(): void {
   });
 }
 
-// Validate badges on module load
-validateEventyrBadges();
+// Build mapping and validate badges for every season on module load
+getAvailableSeasons().forEach((season) => {
+  EVENTYR_DAYS_CACHE.set(season.id, buildEventyrDaysMapping(season.id));
+  validateEventyrBadges(season.id);
+});
 
 /**
  * Get days assigned to an eventyr (derived from oppdrag files)
  */
 export function getEventyrDays(eventyrId: string): number[] {
-  return EVENTYR_DAYS_CACHE.get(eventyrId) || [];
+  return getEventyrDaysMapping().get(eventyrId) || [];
 }
 
 /**
  * Get all eventyr
  */
 export function getAllEventyr(): Eventyr[] {
-  return EVENTYR.eventyr;
+  return getEventyrData().eventyr;
 }
 
 /**
  * Get a specific eventyr by ID
  */
 export function getEventyr(eventyrId: string): Eventyr | undefined {
-  return EVENTYR.eventyr.find((eventyr) => eventyr.id === eventyrId);
+  return getEventyrData().eventyr.find((eventyr) => eventyr.id === eventyrId);
 }
 
 /**
  * Get eventyr that include a specific day
  */
 export function getEventyrForDay(day: number): Eventyr[] {
-  return EVENTYR.eventyr.filter((eventyr) => {
+  return getEventyrData().eventyr.filter((eventyr) => {
     const days = getEventyrDays(eventyr.id);
     return days.includes(day);
   });
@@ -196,7 +226,7 @@ export function getEventyrProgress(
  * Get major eventyr (5 main narratives)
  */
 export function getMajorEventyr(): Eventyr[] {
-  return EVENTYR.eventyr.filter((eventyr) => {
+  return getEventyrData().eventyr.filter((eventyr) => {
     const days = getEventyrDays(eventyr.id);
     return !eventyr.id.startsWith("countdown") && days.length >= 3;
   });
@@ -206,7 +236,7 @@ export function getMajorEventyr(): Eventyr[] {
  * Get mini eventyr (shorter narratives)
  */
 export function getMiniEventyr(): Eventyr[] {
-  return EVENTYR.eventyr.filter((eventyr) => {
+  return getEventyrData().eventyr.filter((eventyr) => {
     const days = getEventyrDays(eventyr.id);
     return days.length < 3;
   });
@@ -217,7 +247,7 @@ export function getMiniEventyr(): Eventyr[] {
  */
 // eslint-disable-next-line @typescript-eslint/no-unused-vars
 function getEventyrMetadata() {
-  return EVENTYR.metadata;
+  return getEventyrData().metadata;
 }
 
 /**
@@ -24,9 +24,9 @@ import {
 } from "./eventyr";
 import {
   getCurrentDay,
-  getCurrentMonth,
   getISOString,
   getCurrentDate,
+  isDayUnlocked,
 } from "./date-utils";
 import {
   calculateSigmoidValue,
@@ -41,17 +41,70 @@ import {
   sortAlertsByPriority,
 } from "./generators/alert-generator";
 import { getAllSymbols, collectSymbolByCode } from "./systems/symbol-system";
-import { getAllQuests, getQuestByDay } from "./data-loader";
 import {
+  getAllQuests,
+  getFamilyQuests,
+  getQuestByDay,
+  getStaticContent,
+} from "./data-loader";
+import { getActiveSeasonId } from "./season-packs";
+import {
+  createSaveGame,
+  readSaveGame,
+  type SaveGameImportResult,
+} from "./save-game";
+import { getHintLadderStatus, type HintLadderStatus } from "./hint-ladder";
+import { isDayRollbackEmpty } from "./day-rollback";
+import {
+  compareGameState,
+  PARENT_OVERRIDE_NAMES,
+  rebuildGameState,
+  type GameEvent,
+  type GameStateDifference,
+  type GameStateSnapshot,
+  type ParentOverrideAction,
+  type RebuiltGameState,
+} from "./game-events";
+import { matchCode } from "./code-matching";
+import { createCodeValidator, type CodeValidator } from "./code-validator";
+import {
+  checkDecryptionSequence,
+  KID_CODE_PLACEHOLDER,
+  type CodeVerdict,
+  type DecryptionVerdict,
+} from "./quest-answers";
+import {
+  createStorageAdapter,
+  SanityStorageAdapter,
+  type HydrationState,
+  type StorageAdapter,
+} from "./storage-adapter";
+import { SHARED_PROFILE_ID, SHARED_PROFILE_NAME } from "./child-profiles";
+import {
+  Barneprofil,
+  DecryptionChallenge,
   Oppdrag,
   FilNode,
   SystemMetrikk,
   Varsel,
   InnsendelseLog,
 } from "@/types/innhold";
-import statiskInnhold from "@/data/statisk_innhold.json";
 
-const ALL_QUESTS = getAllQuests();
+/**
+ * One profile's progress for the side-by-side parent view
+ * (see GameEngine.loadProfileProgress); hydration "error" means the
+ * numbers are missing, not zero
+ */
+export interface ProfileProgress {
+  profileId: string;
+  navn: string;
+  hydration: HydrationState;
+  completedDays: number[];
+  badges: number;
+  symbols: number;
+  bonusOppdrag: number;
+  failedAttempts: number;
+}
 
 interface GameState {
   completedQuests: Set<number>;
@@ -70,6 +123,36 @@ interface GameState {
   completedEventyr: Set<string>;
 }
 
+/**
+ * What a day rollback removes (see GameEngine.previewDayRollback)
+ * code is null when the day isn't solved; badges are earned badge ids,
+ * bonusOppdrag and eventyr the matching legacy badges
+ */
+export interface DayRollbackPlan {
+  day: number;
+  code: string | null;
+  failedAttempts: number;
+  files: string[];
+  topics: string[];
+  modules: string[];
+  symbols: string[];
+  decryptions: string[];
+  badges: string[];
+  bonusOppdrag: boolean;
+  eventyr: string[];
+  crises: Array<"antenna" | "inventory">;
+}
+
+/**
+ * One profile's part of a day rollback for the whole family
+ * (see GameEngine.previewFamilyDayRollback)
+ */
+export interface ProfileDayRollback {
+  profileId: string;
+  navn: string;
+  plan: DayRollbackPlan;
+}
+
 interface Badge {
   day: number;
   icon: string;
@@ -80,6 +163,7 @@ interface Badge {
 interface QuestResult {
   success: boolean;
   isNewCompletion: boolean;
+  nearMiss?: boolean; // Typo-close answer, not counted as a failed attempt
   earnedBadge?: Badge;
   message: string;
 }
@@ -105,6 +189,13 @@ interface GameEngineDependencies {
    * If not provided, will use default session-based resolver
    */
   kidCodeResolver?: () => Promise<string | null>;
+
+  /**
+   * Checks codes and decryption sequences for submitQuestCode() and
+   * submitDecryptionSequence()
+   * If not provided, will use createCodeValidator() for the storage backend
+   */
+  codeValidator?: CodeValidator;
 }
 
 export class GameEngine {
@@ -137,12 +228,12 @@ export class GameEngine {
    * Load complete game state from storage
    */
   static loadGameState(): GameState {
-    if (typeof window === "undefined") {
+    if (!StorageManager.isStorageAvailable()) {
       return this.getEmptyState();
     }
 
     const submittedCodes = StorageManager.getSubmittedCodes();
-    const allQuests = ALL_QUESTS;
+    const allQuests = getAllQuests();
 
     const completedQuests = new Set<number>();
     submittedCodes.forEach((entry) => {
@@ -150,7 +241,8 @@ export class GameEngine {
       if (entry.day !== undefined) {
         completedQuests.add(entry.day);
       } else {
-        // Fallback to code-based matching for legacy data
+        // Fallback to code-based matching for legacy data (localStorage;
+        // with server answers GET /api/session fills in the day first)
         const quest = allQuests.find(
           (q) => q.kode.toUpperCase() === entry.kode.toUpperCase(),
         );
@@ -243,46 +335,33 @@ export class GameEngine {
    * Submit a code and update game state accordingly
    * Resolves {{KID_CODE}} placeholder if present in expectedCode
    *
+   * Matching is forgiving (see code-matching.ts): case, Æ/Ø/Å, spaces and
+   * punctuation are ignored, and near misses don't count as failed attempts.
+   *
+   * Checks in the browser - for code that has the answer (tests, simulator,
+   * nissemor-guide). KodeTerminal uses submitQuestCode().
+   *
    * @param code - User-submitted code
    * @param expectedCode - Expected code (may contain {{KID_CODE}} placeholder)
    * @param day - Quest day number
    * @param kidCodeOverride - Optional kid code to use instead of fetching from session (for testing)
+   * @param alternativeCodes - Other accepted answers (quest.alternative_koder)
    */
   static async submitCode(
     code: string,
     expectedCode: string,
     day: number,
     kidCodeOverride?: string,
+    alternativeCodes: string[] = [],
   ): Promise<QuestResult> {
     // Resolve placeholder if present
     let resolvedExpectedCode = expectedCode;
-    if (expectedCode === "{{KID_CODE}}") {
+    if (expectedCode === KID_CODE_PLACEHOLDER) {
       console.debug(
         "[GameEngine] Resolving {{KID_CODE}} placeholder for Day",
         day,
       );
-      let kidCode: string | null = null;
-
-      // Use override if provided (testing)
-      if (kidCodeOverride) {
-        kidCode = kidCodeOverride;
-        console.debug("[GameEngine] Using kidCodeOverride:", kidCode);
-      }
-      // Use injected resolver if available
-      else if (this.dependencies.kidCodeResolver) {
-        console.debug("[GameEngine] Using injected kidCodeResolver");
-        kidCode = await this.dependencies.kidCodeResolver();
-      }
-      // Fall back to default session resolver
-      else {
-        console.debug("[GameEngine] Fetching kidCode from session...");
-        const { getKidCodeFromSession } = await import("./session-manager");
-        kidCode = await getKidCodeFromSession();
-        console.debug(
-          "[GameEngine] Got kidCode from session:",
-          kidCode ? "SUCCESS" : "NULL",
-        );
-      }
+      const kidCode = await this.resolveKidCode(kidCodeOverride);
 
       if (!kidCode) {
         console.error(
@@ -298,11 +377,104 @@ export class GameEngine {
       console.debug("[GameEngine] Resolved expected code for Day", day);
     }
 
-    const isCorrect =
-      code.trim().toUpperCase() === resolvedExpectedCode.toUpperCase();
+    const match = matchCode(code, resolvedExpectedCode, alternativeCodes);
+
+    return this.applyCodeVerdict(day, code, {
+      match,
+      kode: resolvedExpectedCode.trim().toUpperCase(),
+    });
+  }
+
+  /**
+   * Submit a code for a day without knowing the answer (KodeTerminal)
+   * The code validator checks it (server or local, see code-validator.ts)
+   */
+  static async submitQuestCode(
+    code: string,
+    day: number,
+  ): Promise<QuestResult> {
+    const verdict = await this.getCodeValidator().checkCode(day, code);
+    return this.applyCodeVerdict(day, code, verdict);
+  }
+
+  /**
+   * Resolve the family's kid code for {{KID_CODE}} quests
+   */
+  private static async resolveKidCode(
+    kidCodeOverride?: string,
+  ): Promise<string | null> {
+    // Use override if provided (testing)
+    if (kidCodeOverride) {
+      console.debug("[GameEngine] Using kidCodeOverride:", kidCodeOverride);
+      return kidCodeOverride;
+    }
+
+    // Use injected resolver if available
+    if (this.dependencies.kidCodeResolver) {
+      console.debug("[GameEngine] Using injected kidCodeResolver");
+      return this.dependencies.kidCodeResolver();
+    }
+
+    // Fall back to default session resolver
+    console.debug("[GameEngine] Fetching kidCode from session...");
+    const { getKidCodeFromSession } = await import("./session-manager");
+    const kidCode = await getKidCodeFromSession();
+    console.debug(
+      "[GameEngine] Got kidCode from session:",
+      kidCode ? "SUCCESS" : "NULL",
+    );
+    return kidCode;
+  }
+
+  private static getCodeValidator(): CodeValidator {
+    return (
+      this.dependencies.codeValidator ??
+      createCodeValidator(() => this.resolveKidCode())
+    );
+  }
+
+  /**
+   * Record the outcome of a code check in storage and the event log
+   * @param input - What the kids typed
+   */
+  private static applyCodeVerdict(
+    day: number,
+    input: string,
+    verdict: CodeVerdict,
+  ): QuestResult {
+    if (verdict.match === null) {
+      return {
+        success: false,
+        isNewCompletion: false,
+        message: verdict.message ?? "KUNNE IKKE SJEKKE KODEN - PRØV IGJEN",
+      };
+    }
+
+    const typed = input.trim().toUpperCase();
+
+    if (verdict.match === "nesten") {
+      StorageManager.appendGameEvent({
+        type: "code-submitted",
+        day,
+        result: "nesten",
+        input: typed,
+      });
+      return {
+        success: false,
+        isNewCompletion: false,
+        nearMiss: true,
+        message: "NESTEN! SJEKK STAVINGEN",
+      };
+    }
 
-    if (!isCorrect) {
+    if (verdict.match === "feil") {
       StorageManager.incrementFailedAttempts(day);
+      StorageManager.appendGameEvent({
+        type: "code-submitted",
+        day,
+        result: "feil",
+        input: typed,
+      });
       return {
         success: false,
         isNewCompletion: false,
@@ -321,14 +493,23 @@ export class GameEngine {
       };
     }
 
+    // Store the quest's own spelling, whatever variant the kids typed
     StorageManager.addSubmittedCode({
-      kode: code.trim().toUpperCase(),
+      kode: verdict.kode ?? "",
       dato: getISOString(),
       day, // Store day for reliable matching
     });
 
     StorageManager.resetFailedAttempts(day);
 
+    StorageManager.appendGameEvent({
+      type: "code-submitted",
+      day,
+      result: "riktig",
+      input: typed,
+      kode: verdict.kode ?? "",
+    });
+
     this.processContentUnlocks(day);
 
     BadgeManager.checkAndAwardAllEligibleBadges();
@@ -374,11 +555,23 @@ export class GameEngine {
     return StorageManager.getFailedAttempts(day);
   }
 
+  /**
+   * Get the hints Rampenissen has sent for a quest so far
+   * (unlocked by failed codes and time since the first failed code)
+   */
+  static getHintLadder(quest: Oppdrag): HintLadderStatus {
+    return getHintLadderStatus(quest, {
+      failedAttempts: StorageManager.getFailedAttempts(quest.dag),
+      firstFailedAt: StorageManager.getFirstFailedAttemptTime(quest.dag),
+      now: getCurrentDate(),
+    });
+  }
+
   /**
    * Get all quest data (delegates to oppdrag loader)
    */
   static getAllQuests(): Oppdrag[] {
-    return ALL_QUESTS;
+    return getAllQuests();
   }
 
   /**
@@ -408,11 +601,7 @@ export class GameEngine {
    * Modules unlock either when quest is completed OR the next day
    */
   private static checkTimedModuleUnlocks(currentDay: number): void {
-    if (getCurrentMonth() !== 12) {
-      return;
-    }
-
-    ALL_QUESTS.forEach((quest) => {
+    getAllQuests().forEach((quest) => {
       if (quest.reveals?.modules && quest.dag < currentDay) {
         quest.reveals.modules.forEach((moduleId) => {
           if (!StorageManager.isModuleUnlocked(moduleId)) {
@@ -449,7 +638,7 @@ export class GameEngine {
    * Get unread email count for current day
    */
   static getUnreadEmailCount(currentDay: number): number {
-    const allQuests = ALL_QUESTS;
+    const allQuests = getAllQuests();
     return StorageManager.getUnreadEmailCount(
       currentDay,
       allQuests.length,
@@ -533,53 +722,119 @@ export class GameEngine {
    *
    * Challenges: "frosne-koder" (Day 12), "stjernetegn" (Day 18), "hjertets-hemmelighet" (Day 23)
    * Validates symbol placement order and unlocks secret files on success
+   *
+   * Checks in the browser - for code that has the answer (tests, simulator).
+   * NisseKrypto uses submitDecryptionSequence().
    */
   static validateDecryptionSequence(
     challengeId: string,
     userSequence: number[],
   ): DecryptionValidationResult {
-    const quest = ALL_QUESTS.find(
-      (q) => q.decryption_challenge?.challengeId === challengeId,
+    const check = this.precheckDecryption(challengeId, userSequence);
+    if ("result" in check) return check.result;
+
+    return this.applyDecryptionVerdict(
+      check.challenge,
+      checkDecryptionSequence(check.challenge, userSequence),
     );
+  }
 
-    if (!quest?.decryption_challenge) {
+  /**
+   * Submit a decryption sequence without knowing the answer (NisseKrypto)
+   * The code validator checks it (server or local, see code-validator.ts)
+   */
+  static async submitDecryptionSequence(
+    challengeId: string,
+    userSequence: number[],
+  ): Promise<DecryptionValidationResult> {
+    const check = this.precheckDecryption(challengeId, userSequence);
+    if ("result" in check) return check.result;
+
+    const verdict = await this.getCodeValidator().checkSequence(
+      challengeId,
+      userSequence,
+    );
+    return this.applyDecryptionVerdict(check.challenge, verdict);
+  }
+
+  /**
+   * Answer what can be answered without the correct sequence
+   * (unknown challenge, already solved, wrong number of symbols)
+   */
+  private static precheckDecryption(
+    challengeId: string,
+    userSequence: number[],
+  ):
+    | { challenge: DecryptionChallenge }
+    | { result: DecryptionValidationResult } {
+    const challenge = getAllQuests().find(
+      (q) => q.decryption_challenge?.challengeId === challengeId,
+    )?.decryption_challenge;
+
+    if (!challenge) {
       return {
-        correct: false,
-        message: "Ukjent dekrypteringsutfordring",
-        correctCount: 0,
+        result: {
+          correct: false,
+          message: "Ukjent dekrypteringsutfordring",
+          correctCount: 0,
+        },
       };
     }
 
-    const challenge = quest.decryption_challenge;
-
     if (StorageManager.isDecryptionSolved(challengeId)) {
       return {
-        correct: true,
-        message: "Allerede løst!",
-        correctCount: challenge.correctSequence.length,
+        result: {
+          correct: true,
+          message: "Allerede løst!",
+          correctCount: challenge.requiredSymbols.length,
+        },
       };
     }
 
-    if (userSequence.length !== challenge.correctSequence.length) {
+    if (userSequence.length !== challenge.requiredSymbols.length) {
       StorageManager.incrementDecryptionAttempts(challengeId);
-      return {
+      StorageManager.appendGameEvent({
+        type: "decryption-attempted",
+        challengeId,
         correct: false,
-        message: "Feil antall symboler",
         correctCount: 0,
+      });
+      return {
+        result: {
+          correct: false,
+          message: "Feil antall symboler",
+          correctCount: 0,
+        },
       };
     }
 
-    let correctCount = 0;
-    for (let i = 0; i < userSequence.length; i++) {
-      if (userSequence[i] === challenge.correctSequence[i]) {
-        correctCount++;
-      }
+    return { challenge };
+  }
+
+  /**
+   * Record the outcome of a decryption check in storage and the event log
+   */
+  private static applyDecryptionVerdict(
+    challenge: DecryptionChallenge,
+    verdict: DecryptionVerdict,
+  ): DecryptionValidationResult {
+    if (verdict.correct === null) {
+      return {
+        correct: false,
+        message: verdict.message ?? "Kunne ikke sjekke symbolene - prøv igjen",
+        correctCount: 0,
+      };
     }
 
-    const isCorrect = correctCount === challenge.correctSequence.length;
+    StorageManager.appendGameEvent({
+      type: "decryption-attempted",
+      challengeId: challenge.challengeId,
+      correct: verdict.correct,
+      correctCount: verdict.correctCount,
+    });
 
-    if (isCorrect) {
-      StorageManager.addSolvedDecryption(challengeId);
+    if (verdict.correct) {
+      StorageManager.addSolvedDecryption(challenge.challengeId);
       if (challenge.unlocksFiles) {
         challenge.unlocksFiles.forEach((fileId) => {
           StorageManager.addUnlockedFile(fileId);
@@ -588,16 +843,16 @@ export class GameEngine {
       return {
         correct: true,
         message: challenge.messageWhenSolved,
-        correctCount,
-      };
-    } else {
-      StorageManager.incrementDecryptionAttempts(challengeId);
-      return {
-        correct: false,
-        message: `${correctCount} av ${challenge.correctSequence.length} symboler korrekt plassert!`,
-        correctCount,
+        correctCount: verdict.correctCount,
       };
     }
+
+    StorageManager.incrementDecryptionAttempts(challenge.challengeId);
+    return {
+      correct: false,
+      message: `${verdict.correctCount} av ${challenge.requiredSymbols.length} symboler korrekt plassert!`,
+      correctCount: verdict.correctCount,
+    };
   }
 
   /**
@@ -610,7 +865,7 @@ export class GameEngine {
 
     // Get all unique eventyr IDs from quests
     const eventyrIds = new Set<string>();
-    ALL_QUESTS.forEach((quest: Oppdrag) => {
+    getAllQuests().forEach((quest: Oppdrag) => {
       if (quest.eventyr) {
         eventyrIds.add(quest.eventyr.id);
       }
@@ -640,7 +895,7 @@ export class GameEngine {
    */
   static getTotalEventyr(): number {
     const eventyrIds = new Set<string>();
-    ALL_QUESTS.forEach((quest: Oppdrag) => {
+    getAllQuests().forEach((quest: Oppdrag) => {
       if (quest.eventyr) {
         eventyrIds.add(quest.eventyr.id);
       }
@@ -696,7 +951,10 @@ export class GameEngine {
     }
 
     // Check file's unlock conditions from static content
-    const fileNode = findFileNode(fileId, statiskInnhold.filer as FilNode[]);
+    const fileNode = findFileNode(
+      fileId,
+      getStaticContent().filer as FilNode[],
+    );
     if (!fileNode || !fileNode.unlockConditions) {
       return true; // No conditions = always accessible
     }
@@ -723,9 +981,12 @@ export class GameEngine {
   }
 
   /**
-   * Check if a mission is accessible (requirements met)
+   * Check if a mission is accessible (day unlocked in the family's calendar
+   * and requirements met)
    */
   static isMissionAccessible(day: number): boolean {
+    if (!isDayUnlocked(day)) return false;
+
     const quest = getQuestByDay(day);
     if (!quest || !quest.requires) return true;
 
@@ -760,7 +1021,7 @@ export class GameEngine {
 
     // Count files unlocked since last visit
     let unreadCount = 0;
-    ALL_QUESTS.forEach((quest) => {
+    getAllQuests().forEach((quest) => {
       if (
         completedQuests.has(quest.dag) &&
         quest.dag > lastVisit &&
@@ -856,7 +1117,7 @@ export class GameEngine {
    */
   static getProgressionSummary() {
     const state = this.loadGameState();
-    const allQuests = ALL_QUESTS;
+    const allQuests = getAllQuests();
 
     const bonusOppdragAvailable = allQuests.filter(
       (q) => q.bonusoppdrag,
@@ -899,17 +1160,40 @@ export class GameEngine {
    */
 
   /**
-   * Export complete game state as JSON
+   * Export complete game state as a save game (JSON, see save-game.ts)
    */
   static exportGameState(): string {
-    return StorageManager.exportData();
+    return JSON.stringify(
+      createSaveGame(StorageManager.getSaveGameState(), getActiveSeasonId()),
+      null,
+      2,
+    );
+  }
+
+  /**
+   * Import a save game, replacing all progress
+   * Older versions are upgraded; the save is checked against the family's
+   * season and quests. Nothing is written when there are errors.
+   */
+  static importSaveGame(jsonData: string): SaveGameImportResult {
+    const result = readSaveGame(
+      jsonData,
+      getActiveSeasonId(),
+      getFamilyQuests(),
+    );
+    if (result.state) {
+      StorageManager.restoreSaveGameState(result.state);
+      this.recordParentOverride("save-imported");
+    }
+    return result;
   }
 
   /**
    * Import game state from JSON
+   * @returns Whether the save was restored (see importSaveGame() for details)
    */
   static async importGameState(jsonData: string): Promise<boolean> {
-    return await StorageManager.importData(jsonData);
+    return this.importSaveGame(jsonData).success;
   }
 
   /**
@@ -919,10 +1203,508 @@ export class GameEngine {
     if (typeof window === "undefined") return;
     if (confirm("Er du sikker på at du vil slette all progresjon?")) {
       StorageManager.clearAll();
+      this.recordParentOverride("game-reset");
       window.location.reload();
     }
   }
 
+  /**
+   * ============================================================
+   * GAME EVENT LOG
+   * ============================================================
+   */
+
+  /**
+   * Everything that changed the game, oldest first (see game-events.ts)
+   */
+  static getGameEventLog(): GameEvent[] {
+    return StorageManager.getGameEventLog();
+  }
+
+  /**
+   * Record a change a parent made by hand in nissemor-guide
+   * Call after the change itself; target is the badge, symbol or challenge
+   */
+  static recordParentOverride(
+    action: ParentOverrideAction,
+    target?: string,
+  ): void {
+    StorageManager.appendGameEvent({ type: "parent-override", action, target });
+  }
+
+  /**
+   * Game state in the shape rebuildGameState() produces
+   */
+  static getGameStateSnapshot(): GameStateSnapshot {
+    const failedAttempts: Record<number, number> = {};
+    const decryptionAttempts: Record<string, number> = {};
+    getAllQuests().forEach((quest) => {
+      const failed = StorageManager.getFailedAttempts(quest.dag);
+      if (failed > 0) failedAttempts[quest.dag] = failed;
+
+      const challengeId = quest.decryption_challenge?.challengeId;
+      if (!challengeId) return;
+      const attempts = StorageManager.getDecryptionAttempts(challengeId);
+      if (attempts > 0) decryptionAttempts[challengeId] = attempts;
+    });
+
+    return {
+      submittedCodes: StorageManager.getSubmittedCodes().flatMap((code) =>
+        code.day === undefined
+          ? []
+          : [{ day: code.day, kode: code.kode, dato: code.dato }],
+      ),
+      failedAttempts,
+      collectedSymbols: StorageManager.getCollectedSymbols().map(
+        (symbol) => symbol.symbolId,
+      ),
+      earnedBadges: StorageManager.getEarnedBadges().map(
+        (badge) => badge.badgeId,
+      ),
+      solvedDecryptions: StorageManager.getSolvedDecryptions(),
+      decryptionAttempts,
+    };
+  }
+
+  /**
+   * Replay the event log and compare with what storage holds
+   * For support: differences show progress that changed without an event
+   * (written before the log existed, or by hand) or events that were lost
+   */
+  static replayGameEventLog(): RebuiltGameState & {
+    differences: GameStateDifference[];
+  } {
+    const rebuilt = rebuildGameState(this.getGameEventLog());
+    return {
+      ...rebuilt,
+      differences: compareGameState(rebuilt.state, this.getGameStateSnapshot()),
+    };
+  }
+
+  /**
+   * Short text for an event in the guide's activity views
+   * day is the quest day the event belongs to, when there is one
+   */
+  static describeGameEvent(event: GameEvent): {
+    icon: string;
+    text: string;
+    day?: number;
+  } {
+    const symbolName = (symbolId?: string) =>
+      getAllSymbols().find((s) => s.symbolId === symbolId)?.description ??
+      symbolId;
+    const symbolDay = (symbolId?: string) =>
+      getAllQuests().find((q) => q.symbol_clue?.symbolId === symbolId)?.dag;
+    const badgeName = (badgeId?: string) =>
+      BadgeManager.getBadge(badgeId ?? "")?.navn ?? badgeId;
+    const challengeDay = (challengeId?: string) =>
+      getAllQuests().find(
+        (q) => q.decryption_challenge?.challengeId === challengeId,
+      )?.dag;
+
+    switch (event.type) {
+      case "code-submitted":
+        if (event.result === "riktig") {
+          return {
+            icon: "✓",
+            text: `Dag ${event.day} løst med ${event.kode || event.input}`,
+            day: event.day,
+          };
+        }
+        return {
+          icon: event.result === "nesten" ? "≈" : "✗",
+          text: `${event.result === "nesten" ? "Nesten riktig" : "Feil kode"} på dag ${event.day}: ${event.input}`,
+          day: event.day,
+        };
+
+      case "symbol-scanned":
+        return {
+          icon: "💎",
+          text: `Symbol skannet: ${symbolName(event.symbolId)}`,
+          day: symbolDay(event.symbolId),
+        };
+
+      case "badge-awarded":
+        return { icon: "🏅", text: `Merke: ${badgeName(event.badgeId)}` };
+
+      case "decryption-attempted": {
+        const day = challengeDay(event.challengeId);
+        return event.correct
+          ? { icon: "🔓", text: "Dekryptering løst!", day }
+          : {
+              icon: "🔐",
+              text: `Dekrypteringsforsøk: ${event.correctCount} riktig plassert`,
+              day,
+            };
+      }
+
+      case "parent-override": {
+        const target = event.action.startsWith("badge")
+          ? badgeName(event.target)
+          : event.action.startsWith("symbol")
+            ? symbolName(event.target)
+            : event.target;
+        return {
+          icon: "👤",
+          text: `${PARENT_OVERRIDE_NAMES[event.action]}${target ? `: ${target}` : ""} (forelder)`,
+          day: event.action.startsWith("symbol")
+            ? symbolDay(event.target)
+            : event.action === "day-rolled-back"
+              ? Number(event.target)
+              : event.action.startsWith("decryption")
+                ? challengeDay(event.target)
+                : undefined,
+        };
+      }
+    }
+  }
+
+  /**
+   * ============================================================
+   * DAY ROLLBACK
+   * ============================================================
+   * Parents can take a single day back (wrong code typed in for the kids,
+   * a day solved ahead of time) without resetting the whole game
+   */
+
+  /**
+   * What rolling back a day would remove
+   * Reveals that another completed day or solved challenge also gives are
+   * kept, and so are modules the calendar unlocks anyway for past days.
+   */
+  static previewDayRollback(day: number): DayRollbackPlan {
+    const quests = getAllQuests();
+    const quest = getQuestByDay(day);
+    const completedDays = this.getCompletedDays();
+    const currentDay = getCurrentDay();
+    const isCompleted = completedDays.has(day);
+
+    const code =
+      StorageManager.getSubmittedCodes().find((entry) =>
+        entry.day === undefined
+          ? entry.kode.toUpperCase() === quest?.kode.toUpperCase()
+          : entry.day === day,
+      )?.kode ?? null;
+
+    const challenge = quest?.decryption_challenge;
+    const decryptions =
+      challenge && StorageManager.isDecryptionSolved(challenge.challengeId)
+        ? [challenge.challengeId]
+        : [];
+
+    const otherDays = quests.filter(
+      (q) => q.dag !== day && completedDays.has(q.dag),
+    );
+    const otherChallenges = quests.flatMap((q) =>
+      q.decryption_challenge &&
+      q.dag !== day &&
+      StorageManager.isDecryptionSolved(q.decryption_challenge.challengeId)
+        ? [q.decryption_challenge]
+        : [],
+    );
+
+    const keptFiles = new Set([
+      ...otherDays.flatMap((q) => q.reveals?.files ?? []),
+      ...otherChallenges.flatMap((c) => c.unlocksFiles ?? []),
+    ]);
+    const keptTopics = new Set(
+      otherDays.flatMap((q) => q.reveals?.topics ?? []),
+    );
+    const keptModules = new Set(
+      quests
+        .filter(
+          (q) =>
+            q.dag < currentDay || (q.dag !== day && completedDays.has(q.dag)),
+        )
+        .flatMap((q) => q.reveals?.modules ?? []),
+    );
+
+    const files = [
+      ...new Set([
+        ...(isCompleted ? (quest?.reveals?.files ?? []) : []),
+        ...(decryptions.length > 0 ? (challenge?.unlocksFiles ?? []) : []),
+      ]),
+    ].filter(
+      (fileId) =>
+        StorageManager.isFileUnlocked(fileId) && !keptFiles.has(fileId),
+    );
+    const topics = (isCompleted ? (quest?.reveals?.topics ?? []) : []).filter(
+      (topic) =>
+        StorageManager.isTopicUnlocked(topic) && !keptTopics.has(topic),
+    );
+    const modules = (isCompleted ? (quest?.reveals?.modules ?? []) : []).filter(
+      (moduleId) =>
+        StorageManager.isModuleUnlocked(moduleId) && !keptModules.has(moduleId),
+    );
+
+    const symbolId = quest?.symbol_clue?.symbolId;
+    const symbols =
+      symbolId && StorageManager.hasSymbol(symbolId) ? [symbolId] : [];
+
+    // Badges that were earned with something this rollback removes
+    const lostEventyr = getAllEventyr()
+      .map((eventyr) => eventyr.id)
+      .filter((id) => isCompleted && getEventyrDays(id).includes(day));
+    const badges = BadgeManager.getAllBadges()
+      .filter((badge) => {
+        const condition = badge.unlockCondition;
+        switch (condition.type) {
+          case "bonusoppdrag":
+            return condition.day === day;
+          case "eventyr":
+            return lostEventyr.includes(condition.eventyrId);
+          case "allDecryptionsSolved":
+            return decryptions.some((id) =>
+              condition.challengeIds.includes(id),
+            );
+          case "allSymbolsCollected":
+            return symbols.length > 0;
+          case "allQuestsCompleted":
+            return isCompleted;
+        }
+      })
+      .map((badge) => badge.id)
+      .filter((badgeId) => StorageManager.hasEarnedBadge(badgeId));
+
+    return {
+      day,
+      code,
+      failedAttempts: StorageManager.getFailedAttempts(day),
+      files,
+      topics,
+      modules,
+      symbols,
+      decryptions,
+      badges,
+      bonusOppdrag: StorageManager.hasBonusOppdragBadge(day),
+      eventyr: lostEventyr.filter((id) => StorageManager.hasEventyrBadge(id)),
+      crises: badges.flatMap((badgeId) => {
+        const crisisType = BadgeManager.getCrisisType(badgeId);
+        return crisisType ? [crisisType] : [];
+      }),
+    };
+  }
+
+  /**
+   * Roll a day back to unsolved, removing what previewDayRollback() lists
+   * Recorded in the event log so a replay ends up in the same state
+   */
+  static rollbackDay(day: number): DayRollbackPlan {
+    const plan = this.previewDayRollback(day);
+
+    StorageManager.removeSubmittedCode(day, getQuestByDay(day)?.kode);
+    StorageManager.resetFailedAttempts(day);
+    this.recordParentOverride("day-rolled-back", String(day));
+
+    plan.files.forEach((fileId) => StorageManager.removeUnlockedFile(fileId));
+    plan.topics.forEach((topic) => StorageManager.lockTopic(topic));
+    plan.modules.forEach((moduleId) => StorageManager.lockModule(moduleId));
+
+    plan.symbols.forEach((symbolId) => {
+      StorageManager.removeCollectedSymbol(symbolId);
+      this.recordParentOverride("symbol-removed", symbolId);
+    });
+    plan.decryptions.forEach((challengeId) => {
+      StorageManager.resetDecryption(challengeId);
+      this.recordParentOverride("decryption-reset", challengeId);
+    });
+    plan.badges.forEach((badgeId) => {
+      StorageManager.removeEarnedBadge(badgeId);
+      this.recordParentOverride("badge-revoked", badgeId);
+    });
+
+    if (plan.bonusOppdrag) StorageManager.removeBonusOppdragBadge(day);
+    plan.eventyr.forEach((id) => StorageManager.removeEventyrBadge(id));
+    plan.crises.forEach((crisisType) =>
+      StorageManager.reopenCrisis(crisisType),
+    );
+
+    return plan;
+  }
+
+  /**
+   * What rolling back a day would remove, for the shared profile and each
+   * child (see child-profiles.ts)
+   * Every profile is read as stored now: queued writes are sent first,
+   * then each profile's state is loaded again.
+   *
+   * @param sessionId - The family's session (none with localStorage when
+   *   not logged in)
+   * @param profiles - The family's child profiles
+   * @throws Error if a profile's state can't be loaded
+   */
+  static async previewFamilyDayRollback(
+    day: number,
+    sessionId: string | undefined,
+    profiles: Barneprofil[],
+  ): Promise<ProfileDayRollback[]> {
+    return this.forEachFreshProfile(
+      sessionId,
+      profiles,
+      (profile, adapter) => ({
+        profileId: profile.id,
+        navn: profile.navn,
+        plan: this.readWithAdapter(adapter, () => this.previewDayRollback(day)),
+      }),
+    );
+  }
+
+  /**
+   * Roll a day back for the shared profile and each child
+   * Each plan is worked out again from the freshly loaded state right
+   * before it is applied. With a server backend the server removes exactly
+   * those items from the session (see day-rollback.ts), so progress other
+   * devices synced meanwhile stays; with localStorage they are removed here.
+   *
+   * @returns What was removed, per profile
+   * @throws Error if a profile's state can't be loaded or the server
+   *   refuses; profiles already rolled back stay rolled back
+   */
+  static async rollbackFamilyDay(
+    day: number,
+    sessionId: string | undefined,
+    profiles: Barneprofil[],
+  ): Promise<ProfileDayRollback[]> {
+    const rolledBack = await this.forEachFreshProfile(
+      sessionId,
+      profiles,
+      async (profile, adapter) => {
+        const plan = this.readWithAdapter(adapter, () =>
+          this.previewDayRollback(day),
+        );
+        if (isDayRollbackEmpty(plan)) {
+          return { profileId: profile.id, navn: profile.navn, plan };
+        }
+
+        if (adapter instanceof SanityStorageAdapter) {
+          await adapter.rollbackDay(plan);
+        } else {
+          this.readWithAdapter(adapter, () => this.rollbackDay(day));
+        }
+        return { profileId: profile.id, navn: profile.navn, plan };
+      },
+    );
+
+    // This device's own copy of the active profile
+    await StorageManager.refreshFromServer();
+    return rolledBack;
+  }
+
+  /**
+   * Run `read` for the shared profile and each child with its state loaded
+   * through a new storage adapter, after this device's queued writes
+   * reached the server
+   */
+  private static async forEachFreshProfile<T>(
+    sessionId: string | undefined,
+    profiles: Barneprofil[],
+    read: (profile: Barneprofil, adapter: StorageAdapter) => T | Promise<T>,
+  ): Promise<T[]> {
+    await StorageManager.waitForPendingSyncs();
+
+    const all = [
+      { id: SHARED_PROFILE_ID, navn: SHARED_PROFILE_NAME },
+      ...profiles,
+    ];
+    const results: T[] = [];
+
+    for (const profile of all) {
+      const adapter = createStorageAdapter(sessionId, profile.id);
+      if ((await adapter.hydrate()) === "error") {
+        throw new Error(`Could not load the game state of ${profile.id}`);
+      }
+      results.push(await read(profile, adapter));
+    }
+
+    return results;
+  }
+
+  /**
+   * Let StorageManager read (and write) through `adapter` while `read` runs
+   * Synchronous only, so nothing else sees the swapped adapter
+   */
+  private static readWithAdapter<T>(adapter: StorageAdapter, read: () => T): T {
+    const previous = StorageManager.setAdapter(adapter);
+    try {
+      return read();
+    } finally {
+      StorageManager.setAdapter(previous);
+    }
+  }
+
+  /**
+   * ============================================================
+   * CHILD PROFILES
+   * ============================================================
+   * Each child can play with their own game state (see child-profiles.ts);
+   * parents compare them side by side
+   */
+
+  /**
+   * Progress of the game state StorageManager currently reads
+   */
+  private static getProfileProgress(
+    profile: Barneprofil,
+    hydration: HydrationState,
+  ): ProfileProgress {
+    const completedDays = [...this.getCompletedDays()].sort((a, b) => a - b);
+
+    return {
+      profileId: profile.id,
+      navn: profile.navn,
+      hydration,
+      completedDays,
+      badges: BadgeManager.getEarnedBadges().length,
+      symbols: this.getCollectedSymbols().length,
+      bonusOppdrag: this.loadGameState().completedBonusOppdrag.size,
+      failedAttempts: Array.from({ length: 24 }, (_, i) =>
+        this.getFailedAttempts(i + 1),
+      ).reduce((sum, count) => sum + count, 0),
+    };
+  }
+
+  /**
+   * Load the shared profile's and each child's progress
+   * Profiles other than the one this device plays are read through their
+   * own storage adapter, swapped in only while reading (reads are
+   * synchronous, so nothing else sees it).
+   *
+   * @param sessionId - The family's session
+   * @param profiles - The family's child profiles
+   * @param activeProfileId - Profile StorageManager has loaded
+   */
+  static async loadProfileProgress(
+    sessionId: string,
+    profiles: Barneprofil[],
+    activeProfileId: string,
+  ): Promise<ProfileProgress[]> {
+    const all = [
+      { id: SHARED_PROFILE_ID, navn: SHARED_PROFILE_NAME },
+      ...profiles,
+    ];
+    const progress: ProfileProgress[] = [];
+
+    for (const profile of all) {
+      if (profile.id === activeProfileId) {
+        progress.push(
+          this.getProfileProgress(profile, StorageManager.getHydrationState()),
+        );
+        continue;
+      }
+
+      const adapter = createStorageAdapter(sessionId, profile.id);
+      const hydration = await adapter.hydrate();
+      const previous = StorageManager.setAdapter(adapter);
+      try {
+        progress.push(this.getProfileProgress(profile, hydration));
+      } finally {
+        StorageManager.setAdapter(previous);
+      }
+    }
+
+    return progress;
+  }
+
   /**
    * ============================================================
    * PROGRESSIVE SYSTEM METRICS
@@ -942,7 +1724,7 @@ export class GameEngine {
    * @returns Array of SystemMetrikk with computed values
    */
   static getProgressiveMetrics(day: number): SystemMetrikk[] {
-    const baseMetrics = statiskInnhold.systemMetrikker as Array<{
+    const baseMetrics = getStaticContent().systemMetrikker as Array<{
       navn: string;
       min: number;
       maks: number;
@@ -951,7 +1733,7 @@ export class GameEngine {
     }>;
 
     const progressionConfig = (
-      statiskInnhold as unknown as {
+      getStaticContent() as unknown as {
         progression_config: {
           sigmoid: { k: number; midpoint: number };
           crisis_events: Array<{
@@ -1142,7 +1924,7 @@ export class GameEngine {
   static getDailyAlerts(day: number, completedDays: Set<number>): Varsel[] {
     const alerts: Varsel[] = [];
     const dailyAlertsData = (
-      statiskInnhold as unknown as {
+      getStaticContent() as unknown as {
         daily_alerts: Array<{
           day: number;
           tekst: string;
@@ -1516,7 +2298,7 @@ export class GameEngine {
     crisisValues?: number[];
   }> {
     const globalMetrics = (
-      statiskInnhold as unknown as {
+      getStaticContent() as unknown as {
         nissestats_global_metrics: Array<{
           navn: string;
           min: number;
@@ -1555,7 +2337,7 @@ export class GameEngine {
     ).nissestats_global_metrics;
 
     const progressionConfig = (
-      statiskInnhold as unknown as {
+      getStaticContent() as unknown as {
         progression_config: {
           sigmoid: { k: number; midpoint: number };
         };
@@ -0,0 +1,284 @@
+/**
+ * Game Events - Append-only log of everything that changed the game
+ *
+ * Game state in storage is a snapshot: which codes are in, which badges
+ * and symbols the kids have. The event log next to it (StorageManager key
+ * `nissekomm-event-log`, `eventLog` on userSession) records how they got
+ * there, one typed event per change:
+ * - code-submitted: a code typed in KodeTerminal (right, wrong or near miss)
+ * - symbol-scanned: a symbol collected with SymbolScanner
+ * - badge-awarded: a badge earned by playing
+ * - decryption-attempted: a sequence tried in NisseKrypto
+ * - parent-override: a change made from nissemor-guide (badges given or
+ *   taken away, symbols added, days rolled back, resets and imports)
+ *
+ * GameEngine, BadgeManager and symbol-system append events as they change
+ * state. The guide shows them in TimelineView and ActivityFeed, and the
+ * utvikling page replays them with rebuildGameState() to compare against
+ * what storage holds - the first step when a family reports lost progress.
+ *
+ * Events are never edited or removed (StorageManager.clearAll() is the one
+ * exception). Devices sharing a session merge their logs by event id (see
+ * session-merge.ts), so read the log through StorageManager, which sorts it.
+ */
+
+import { v4 as uuidv4 } from "uuid";
+import type { CodeMatch } from "./code-matching";
+
+/**
+ * What a parent changed by hand in nissemor-guide
+ */
+export type ParentOverrideAction =
+  | "badge-awarded"
+  | "badge-revoked"
+  | "badges-reset"
+  | "symbol-added"
+  | "symbol-removed"
+  | "symbols-cleared"
+  | "decryption-solved"
+  | "decryption-reset"
+  | "day-rolled-back"
+  | "game-reset"
+  | "save-imported";
+
+/**
+ * Labels for the guide's activity views
+ */
+export const PARENT_OVERRIDE_NAMES: Record<ParentOverrideAction, string> = {
+  "badge-awarded": "Merke tildelt",
+  "badge-revoked": "Merke fjernet",
+  "badges-reset": "Alle merker fjernet",
+  "symbol-added": "Symbol lagt til",
+  "symbol-removed": "Symbol fjernet",
+  "symbols-cleared": "Alle symboler fjernet",
+  "decryption-solved": "Dekryptering markert som løst",
+  "decryption-reset": "Dekryptering tilbakestilt",
+  "day-rolled-back": "Dag tilbakestilt",
+  "game-reset": "Spillet tilbakestilt",
+  "save-imported": "Lagret spill importert",
+};
+
+/**
+ * An event before it is stamped with id and time
+ * `input` is what the kids typed; `kode` the quest's own spelling (riktig)
+ */
+export type GameEventInput =
+  | {
+      type: "code-submitted";
+      day: number;
+      result: CodeMatch;
+      input: string;
+      kode?: string;
+    }
+  | { type: "symbol-scanned"; symbolId: string }
+  | { type: "badge-awarded"; badgeId: string }
+  | {
+      type: "decryption-attempted";
+      challengeId: string;
+      correct: boolean;
+      correctCount: number;
+    }
+  | { type: "parent-override"; action: ParentOverrideAction; target?: string };
+
+export type GameEvent = GameEventInput & { id: string; at: string };
+
+export function createGameEvent(
+  input: GameEventInput,
+  at = new Date().toISOString(),
+): GameEvent {
+  return { ...input, id: uuidv4(), at };
+}
+
+/**
+ * Oldest first; ties (same millisecond) keep a stable order by id
+ */
+export function sortGameEvents(events: GameEvent[]): GameEvent[] {
+  return [...events].sort(
+    (a, b) => a.at.localeCompare(b.at) || a.id.localeCompare(b.id),
+  );
+}
+
+/**
+ * The part of game state the log can account for
+ */
+export interface GameStateSnapshot {
+  submittedCodes: Array<{ day: number; kode: string; dato: string }>;
+  failedAttempts: Record<number, number>;
+  collectedSymbols: string[];
+  earnedBadges: string[];
+  solvedDecryptions: string[];
+  decryptionAttempts: Record<string, number>;
+}
+
+export interface RebuiltGameState {
+  state: GameStateSnapshot;
+  /**
+   * The last reset or import; replay starts there. After an import, the
+   * progress that came from the save file is not in the log.
+   */
+  replayFrom: { action: "game-reset" | "save-imported"; at: string } | null;
+}
+
+function emptySnapshot(): GameStateSnapshot {
+  return {
+    submittedCodes: [],
+    failedAttempts: {},
+    collectedSymbols: [],
+    earnedBadges: [],
+    solvedDecryptions: [],
+    decryptionAttempts: {},
+  };
+}
+
+function addOnce(list: string[], item: string | undefined): void {
+  if (item !== undefined && !list.includes(item)) list.push(item);
+}
+
+function removeItem(list: string[], item: string | undefined): string[] {
+  return list.filter((existing) => existing !== item);
+}
+
+/**
+ * Replay a log into the game state it should have produced
+ * Follows the same rules as GameEngine: a solved day clears its failed
+ * attempts, a day or symbol only counts once.
+ */
+export function rebuildGameState(events: GameEvent[]): RebuiltGameState {
+  let state = emptySnapshot();
+  let replayFrom: RebuiltGameState["replayFrom"] = null;
+
+  sortGameEvents(events).forEach((event) => {
+    switch (event.type) {
+      case "code-submitted":
+        if (event.result === "feil") {
+          state.failedAttempts[event.day] =
+            (state.failedAttempts[event.day] ?? 0) + 1;
+        } else if (
+          event.result === "riktig" &&
+          !state.submittedCodes.some((code) => code.day === event.day)
+        ) {
+          state.submittedCodes.push({
+            day: event.day,
+            kode: event.kode ?? event.input,
+            dato: event.at,
+          });
+          delete state.failedAttempts[event.day];
+        }
+        break;
+
+      case "symbol-scanned":
+        addOnce(state.collectedSymbols, event.symbolId);
+        break;
+
+      case "badge-awarded":
+        addOnce(state.earnedBadges, event.badgeId);
+        break;
+
+      case "decryption-attempted":
+        if (event.correct) {
+          addOnce(state.solvedDecryptions, event.challengeId);
+        } else {
+          state.decryptionAttempts[event.challengeId] =
+            (state.decryptionAttempts[event.challengeId] ?? 0) + 1;
+        }
+        break;
+
+      case "parent-override":
+        switch (event.action) {
+          case "badge-awarded":
+            addOnce(state.earnedBadges, event.target);
+            break;
+          case "badge-revoked":
+            state.earnedBadges = removeItem(state.earnedBadges, event.target);
+            break;
+          case "badges-reset":
+            state.earnedBadges = [];
+            break;
+          case "symbol-added":
+            addOnce(state.collectedSymbols, event.target);
+            break;
+          case "symbol-removed":
+            state.collectedSymbols = removeItem(
+              state.collectedSymbols,
+              event.target,
+            );
+            break;
+          case "symbols-cleared":
+            state.collectedSymbols = [];
+            break;
+          case "decryption-solved":
+            addOnce(state.solvedDecryptions, event.target);
+            break;
+          case "decryption-reset":
+            state.solvedDecryptions = removeItem(
+              state.solvedDecryptions,
+              event.target,
+            );
+            delete state.decryptionAttempts[event.target ?? ""];
+            break;
+          case "day-rolled-back": {
+            const day = Number(event.target);
+            state.submittedCodes = state.submittedCodes.filter(
+              (code) => code.day !== day,
+            );
+            delete state.failedAttempts[day];
+            break;
+          }
+          case "game-reset":
+          case "save-imported":
+            state = emptySnapshot();
+            replayFrom = { action: event.action, at: event.at };
+            break;
+        }
+        break;
+    }
+  });
+
+  return { state, replayFrom };
+}
+
+/**
+ * A field where the replayed log and storage disagree
+ */
+export interface GameStateDifference {
+  field: keyof GameStateSnapshot;
+  onlyInLog: string[];
+  onlyInStorage: string[];
+}
+
+/**
+ * Comparable items of a field ("7" for a solved day, "7:3" for three
+ * failed attempts on day 7)
+ */
+function itemsOf(snapshot: GameStateSnapshot, field: keyof GameStateSnapshot) {
+  const value = snapshot[field];
+  if (field === "submittedCodes") {
+    return snapshot.submittedCodes.map((code) => String(code.day));
+  }
+  if (Array.isArray(value)) return value as string[];
+  return Object.entries(value).map(([key, count]) => `${key}:${count}`);
+}
+
+/**
+ * Differences between a replayed log and the stored state
+ * An empty list means the log explains everything in storage.
+ */
+export function compareGameState(
+  fromLog: GameStateSnapshot,
+  stored: GameStateSnapshot,
+): GameStateDifference[] {
+  return (Object.keys(emptySnapshot()) as (keyof GameStateSnapshot)[])
+    .map((field) => {
+      const logItems = itemsOf(fromLog, field);
+      const storedItems = itemsOf(stored, field);
+      return {
+        field,
+        onlyInLog: logItems.filter((item) => !storedItems.includes(item)),
+        onlyInStorage: storedItems.filter((item) => !logItems.includes(item)),
+      };
+    })
+    .filter(
+      (difference) =>
+        difference.onlyInLog.length > 0 || difference.onlyInStorage.length > 0,
+    );
+}
@@ -0,0 +1,385 @@
+/**
+ * Quest Graph Generator
+ *
+ * Builds the unlock graph of a season from quests and static content,
+ * and exports it as Mermaid or Graphviz DOT.
+ *
+ * NODES:
+ * - dag: Quest day (1-24)
+ * - tema: Topic revealed/required by quests (reveals.topics / requires.topics)
+ * - fil: NisseNet file (statisk_innhold.json file tree)
+ * - symbol: Decryption symbol (symbol_clue / decryptionSymbols)
+ * - eventyr: Story arc (quest.eventyr)
+ *
+ * EDGES (source unlocks or feeds target):
+ * - dag → tema/fil/symbol: Completing the day reveals it
+ * - tema → dag/fil: Day or file requires the topic
+ * - symbol → dag: Decryption challenge requires the symbol
+ * - dag → dag: requires.completedDays / eventyr phase order
+ * - dag → fil: unlockConditions.afterDay
+ * - eventyr → dag: Day is a phase of the story arc
+ *
+ * ANALYSIS:
+ * - Orphaned topics: revealed but never required, or required but never revealed
+ * - Unreachable files: locked by conditions that can never be met and not
+ *   revealed by any quest or decryption challenge
+ *
+ * Pure functions - no storage access. Used by /nissemor-guide/graf.
+ */
+
+import type { Eventyr, FilNode, Oppdrag } from "@/types/innhold";
+
+type GraphNodeType = "dag" | "tema" | "fil" | "symbol" | "eventyr";
+
+type GraphEdgeType =
+  | "reveals"
+  | "requires"
+  | "unlocks"
+  | "after-day"
+  | "completed-day"
+  | "phase";
+
+export interface GraphNode {
+  id: string; // Prefixed id, e.g. "dag:14", "tema:lucia", "fil:logg.txt"
+  type: GraphNodeType;
+  label: string;
+  day?: number; // Only for dag nodes
+  orphaned?: boolean; // Topic never required or never revealed
+  unreachable?: boolean; // File that can never be unlocked
+}
+
+export interface GraphEdge {
+  from: string;
+  to: string;
+  type: GraphEdgeType;
+  label?: string; // e.g. "fase 2"
+}
+
+export interface QuestGraph {
+  nodes: GraphNode[];
+  edges: GraphEdge[];
+  orphanedTopics: string[];
+  unreachableFiles: string[];
+}
+
+/**
+ * Node id for a quest day
+ */
+export function dayNodeId(day: number): string {
+  return `dag:${day}`;
+}
+
+/**
+ * Flatten file tree into file nodes (folders are not part of the graph)
+ */
+function collectFiles(nodes: FilNode[], files: FilNode[] = []): FilNode[] {
+  nodes.forEach((node) => {
+    if (node.type === "fil") {
+      files.push(node);
+    }
+    if (node.barn) {
+      collectFiles(node.barn, files);
+    }
+  });
+  return files;
+}
+
+/**
+ * Build the unlock graph for a season
+ *
+ * @param quests - All quests of the season
+ * @param fileTree - statisk_innhold.json file tree
+ * @param eventyrList - Eventyr definitions (for labels)
+ */
+export function buildQuestGraph(
+  quests: Oppdrag[],
+  fileTree: FilNode[],
+  eventyrList: Eventyr[] = [],
+): QuestGraph {
+  const nodes = new Map<string, GraphNode>();
+  const edges: GraphEdge[] = [];
+
+  const addNode = (node: GraphNode) => {
+    if (!nodes.has(node.id)) {
+      nodes.set(node.id, node);
+    }
+    return node.id;
+  };
+  const topic = (id: string) =>
+    addNode({ id: `tema:${id}`, type: "tema", label: id });
+  const file = (id: string) =>
+    addNode({ id: `fil:${id}`, type: "fil", label: id });
+  const symbol = (id: string) =>
+    addNode({ id: `symbol:${id}`, type: "symbol", label: id });
+  // Days referenced by conditions may be outside the quest list
+  const dayRef = (day: number) =>
+    addNode({ id: dayNodeId(day), type: "dag", label: `Dag ${day}`, day });
+
+  const sortedQuests = [...quests].sort((a, b) => a.dag - b.dag);
+
+  // Day nodes first so they keep their order in exports
+  sortedQuests.forEach((quest) =>
+    addNode({
+      id: dayNodeId(quest.dag),
+      type: "dag",
+      label: `Dag ${quest.dag}: ${quest.tittel}`,
+      day: quest.dag,
+    }),
+  );
+
+  const revealedTopics = new Set<string>();
+  const requiredTopics = new Set<string>();
+  const revealedFiles = new Set<string>();
+
+  sortedQuests.forEach((quest) => {
+    const day = dayNodeId(quest.dag);
+
+    // What completing the day reveals
+    quest.reveals?.topics?.forEach((t) => {
+      revealedTopics.add(t);
+      edges.push({ from: day, to: topic(t), type: "reveals" });
+    });
+    quest.reveals?.files?.forEach((f) => {
+      revealedFiles.add(f);
+      edges.push({ from: day, to: file(f), type: "reveals" });
+    });
+    const awarded = new Set([
+      ...(quest.symbol_clue ? [quest.symbol_clue.symbolId] : []),
+      ...(quest.reveals?.decryptionSymbols ?? []),
+    ]);
+    awarded.forEach((s) =>
+      edges.push({ from: day, to: symbol(s), type: "reveals" }),
+    );
+
+    // What the day requires
+    quest.requires?.topics?.forEach((t) => {
+      requiredTopics.add(t);
+      edges.push({ from: topic(t), to: day, type: "requires" });
+    });
+    quest.requires?.completedDays?.forEach((d) =>
+      edges.push({ from: dayRef(d), to: day, type: "completed-day" }),
+    );
+
+    // Decryption challenge: symbols in, files out
+    if (quest.decryption_challenge) {
+      quest.decryption_challenge.requiredSymbols.forEach((s) =>
+        edges.push({ from: symbol(s), to: day, type: "requires" }),
+      );
+      quest.decryption_challenge.unlocksFiles?.forEach((f) => {
+        revealedFiles.add(f);
+        edges.push({ from: day, to: file(f), type: "unlocks" });
+      });
+    }
+  });
+
+  // Eventyr: arc node → each phase day, plus phase order between days
+  const eventyrNames = new Map(eventyrList.map((e) => [e.id, e.navn]));
+  const phasesByEventyr = new Map<string, Oppdrag[]>();
+  sortedQuests.forEach((quest) => {
+    if (quest.eventyr) {
+      const list = phasesByEventyr.get(quest.eventyr.id) ?? [];
+      list.push(quest);
+      phasesByEventyr.set(quest.eventyr.id, list);
+    }
+  });
+  phasesByEventyr.forEach((phaseQuests, eventyrId) => {
+    const arc = addNode({
+      id: `eventyr:${eventyrId}`,
+      type: "eventyr",
+      label: eventyrNames.get(eventyrId) ?? eventyrId,
+    });
+    const ordered = [...phaseQuests].sort(
+      (a, b) => a.eventyr!.phase - b.eventyr!.phase,
+    );
+    ordered.forEach((quest, i) => {
+      edges.push({
+        from: arc,
+        to: dayNodeId(quest.dag),
+        type: "phase",
+        label: `fase ${quest.eventyr!.phase}`,
+      });
+      if (i > 0) {
+        edges.push({
+          from: dayNodeId(ordered[i - 1].dag),
+          to: dayNodeId(quest.dag),
+          type: "phase",
+        });
+      }
+    });
+  });
+
+  // File unlock conditions
+  const maxDay = sortedQuests.length
+    ? sortedQuests[sortedQuests.length - 1].dag
+    : 0;
+  const unreachableFiles: string[] = [];
+
+  collectFiles(fileTree).forEach((node) => {
+    const conditions = node.unlockConditions;
+    if (!conditions) return; // Always accessible
+
+    const id = file(node.navn);
+    conditions.requiresTopics?.forEach((t) => {
+      requiredTopics.add(t);
+      edges.push({ from: topic(t), to: id, type: "requires" });
+    });
+    if (conditions.afterDay) {
+      edges.push({
+        from: dayRef(conditions.afterDay),
+        to: id,
+        type: "after-day",
+      });
+    }
+
+    const blocked =
+      (conditions.afterDay !== undefined && conditions.afterDay > maxDay) ||
+      (conditions.requiresTopics ?? []).some((t) => !revealedTopics.has(t));
+    if (blocked && !revealedFiles.has(node.navn)) {
+      unreachableFiles.push(node.navn);
+    }
+  });
+
+  // Orphaned topics: dead ends or dangling requirements
+  const orphanedTopics = [...new Set([...revealedTopics, ...requiredTopics])]
+    .filter((t) => !revealedTopics.has(t) || !requiredTopics.has(t))
+    .sort();
+
+  orphanedTopics.forEach((t) => (nodes.get(`tema:${t}`)!.orphaned = true));
+  unreachableFiles.forEach((f) => (nodes.get(`fil:${f}`)!.unreachable = true));
+
+  return {
+    nodes: [...nodes.values()],
+    edges,
+    orphanedTopics,
+    unreachableFiles: unreachableFiles.sort(),
+  };
+}
+
+/**
+ * Get every node a node transitively depends on (not including itself)
+ *
+ * @example
+ * getUpstream(graph, dayNodeId(14)) // topics, symbols, days needed for day 14
+ */
+export function getUpstream(graph: QuestGraph, nodeId: string): Set<string> {
+  const incoming = new Map<string, string[]>();
+  graph.edges.forEach((edge) => {
+    const list = incoming.get(edge.to) ?? [];
+    list.push(edge.from);
+    incoming.set(edge.to, list);
+  });
+
+  const upstream = new Set<string>();
+  const stack = [...(incoming.get(nodeId) ?? [])];
+  while (stack.length > 0) {
+    const current = stack.pop()!;
+    if (current === nodeId || upstream.has(current)) continue;
+    upstream.add(current);
+    stack.push(...(incoming.get(current) ?? []));
+  }
+  return upstream;
+}
+
+/**
+ * Restrict a graph to a set of node ids (edges between kept nodes only)
+ */
+export function filterGraph(graph: QuestGraph, keep: Set<string>): QuestGraph {
+  return {
+    nodes: graph.nodes.filter((n) => keep.has(n.id)),
+    edges: graph.edges.filter((e) => keep.has(e.from) && keep.has(e.to)),
+    orphanedTopics: graph.orphanedTopics.filter((t) => keep.has(`tema:${t}`)),
+    unreachableFiles: graph.unreachableFiles.filter((f) =>
+      keep.has(`fil:${f}`),
+    ),
+  };
+}
+
+// ============================================================================
+// Export formats
+// ============================================================================
+
+/**
+ * Short export ids (n0, n1, …) - node ids contain ":", "." and Norwegian letters
+ */
+function exportIds(graph: QuestGraph): Map<string, string> {
+  return new Map(graph.nodes.map((node, i) => [node.id, `n${i}`]));
+}
+
+const MERMAID_SHAPES: Record<GraphNodeType, [string, string]> = {
+  dag: ["[", "]"],
+  tema: ["([", "])"],
+  fil: ["[/", "/]"],
+  symbol: ["{{", "}}"],
+  eventyr: ["[[", "]]"],
+};
+
+/**
+ * Export graph as a Mermaid flowchart
+ * Orphaned topics and unreachable files get the "problem" class
+ */
+export function toMermaid(graph: QuestGraph): string {
+  const ids = exportIds(graph);
+  const lines = ["flowchart LR"];
+
+  graph.nodes.forEach((node) => {
+    const [open, close] = MERMAID_SHAPES[node.type];
+    const label = node.label.replace(/"/g, "#quot;");
+    lines.push(`  ${ids.get(node.id)}${open}"${label}"${close}`);
+  });
+
+  graph.edges.forEach((edge) => {
+    const arrow = edge.type === "requires" ? "-.->" : "-->";
+    const label = edge.label ? `|${edge.label}|` : "";
+    lines.push(`  ${ids.get(edge.from)} ${arrow}${label} ${ids.get(edge.to)}`);
+  });
+
+  const problems = graph.nodes.filter((n) => n.orphaned || n.unreachable);
+  if (problems.length > 0) {
+    lines.push("  classDef problem fill:#ff4444,stroke:#990000,color:#fff");
+    lines.push(
+      `  class ${problems.map((n) => ids.get(n.id)).join(",")} problem`,
+    );
+  }
+
+  return lines.join("\n") + "\n";
+}
+
+const DOT_SHAPES: Record<GraphNodeType, string> = {
+  dag: "box",
+  tema: "ellipse",
+  fil: "note",
+  symbol: "hexagon",
+  eventyr: "doubleoctagon",
+};
+
+/**
+ * Export graph as Graphviz DOT
+ */
+export function toDot(graph: QuestGraph): string {
+  const quote = (text: string) => `"${text.replace(/"/g, '\\"')}"`;
+  const ids = exportIds(graph);
+  const lines = ["digraph quests {", "  rankdir=LR;"];
+
+  graph.nodes.forEach((node) => {
+    const attrs = [
+      `label=${quote(node.label)}`,
+      `shape=${DOT_SHAPES[node.type]}`,
+    ];
+    if (node.orphaned || node.unreachable) {
+      attrs.push("style=filled", 'fillcolor="#ff4444"');
+    }
+    lines.push(`  ${ids.get(node.id)} [${attrs.join(", ")}];`);
+  });
+
+  graph.edges.forEach((edge) => {
+    const attrs: string[] = [];
+    if (edge.type === "requires") attrs.push("style=dashed");
+    if (edge.label) attrs.push(`label=${quote(edge.label)}`);
+    lines.push(
+      `  ${ids.get(edge.from)} -> ${ids.get(edge.to)}${attrs.length ? ` [${attrs.join(", ")}]` : ""};`,
+    );
+  });
+
+  lines.push("}");
+  return lines.join("\n") + "\n";
+}
@@ -0,0 +1,197 @@
+/**
+ * Hint Ladder - Progressive hints in KodeTerminal
+ *
+ * A quest may define `hint_trapp`: hints that Rampenissen sends when the
+ * kids are stuck. Each step unlocks after a number of failed codes
+ * (`etter_forsok`) or a number of minutes after the first failed code that
+ * day (`etter_minutter`), whichever comes first. Nothing unlocks before the
+ * first wrong code, and the ladder resets when the day is solved.
+ *
+ * Parents pick how hints behave for the family (familyCredentials.hintMode):
+ * - av: no hints at all
+ * - normal: thresholds as written
+ * - rask: thresholds halved (at least one attempt)
+ *
+ * The active mode works like the active difficulty:
+ * - Client: applied by AppContext via setActiveHintMode() after login, and
+ *   remembered in localStorage
+ * - Server: callers pass the mode explicitly
+ */
+
+import type { HintModus, HintTrinn, Oppdrag } from "@/types/innhold";
+
+export const HINT_MODES: HintModus[] = ["av", "normal", "rask"];
+
+export const DEFAULT_HINT_MODE: HintModus = "normal";
+
+/**
+ * Labels for the hint picker in nissemor-guide
+ */
+export const HINT_MODE_NAMES: Record<HintModus, string> = {
+  av: "Av (ingen hint)",
+  normal: "Normal",
+  rask: "Raske hint (halv ventetid)",
+};
+
+const HINT_MODE_STORAGE_KEY = "nissekomm-hint-mode";
+
+// In-memory active mode (client), falls back to localStorage then default
+let activeHintMode: HintModus | null = null;
+
+/**
+ * How far the kids have struggled with a day's code
+ */
+export interface HintProgress {
+  failedAttempts: number;
+  firstFailedAt: string | null; // ISO timestamp of the first wrong code
+  now: Date;
+}
+
+/**
+ * Hints unlocked so far, and what it takes to get the next one
+ */
+export interface HintLadderStatus {
+  unlocked: HintTrinn[];
+  total: number;
+  next?: {
+    attemptsLeft?: number; // Wrong codes until the next hint
+    minutesLeft?: number; // Minutes until the next hint (rounded up)
+  };
+}
+
+/**
+ * Check if a hint mode is supported
+ */
+export function isKnownHintMode(
+  mode: string | null | undefined,
+): mode is HintModus {
+  return !!mode && (HINT_MODES as string[]).includes(mode);
+}
+
+/**
+ * Resolve a possibly missing/unknown mode to a supported one
+ */
+export function resolveHintMode(mode?: string | null): HintModus {
+  return isKnownHintMode(mode) ? mode : DEFAULT_HINT_MODE;
+}
+
+/**
+ * Get the hint mode currently selected for this client
+ */
+export function getActiveHintMode(): HintModus {
+  if (activeHintMode) return activeHintMode;
+
+  try {
+    if (typeof window !== "undefined") {
+      const stored = localStorage.getItem(HINT_MODE_STORAGE_KEY);
+      if (isKnownHintMode(stored)) {
+        activeHintMode = stored;
+        return stored;
+      }
+    }
+  } catch {
+    // localStorage unavailable - use default
+  }
+
+  return DEFAULT_HINT_MODE;
+}
+
+/**
+ * Select the active hint mode (called with the family's mode after login)
+ * Unknown modes fall back to normal
+ *
+ * @returns The mode that was actually activated
+ */
+export function setActiveHintMode(mode: string | null | undefined): HintModus {
+  const resolved = resolveHintMode(mode);
+
+  if (mode && resolved !== mode) {
+    console.warn(`[HintLadder] Unknown hint mode "${mode}", using ${resolved}`);
+  }
+
+  activeHintMode = resolved;
+
+  try {
+    if (typeof window !== "undefined") {
+      localStorage.setItem(HINT_MODE_STORAGE_KEY, resolved);
+    }
+  } catch (e) {
+    if (process.env.NODE_ENV === "development") {
+      console.warn("Failed to write to localStorage:", e);
+    }
+  }
+
+  return resolved;
+}
+
+/**
+ * Thresholds for a step in the given mode
+ */
+function scaleStep(
+  step: HintTrinn,
+  mode: HintModus,
+): Pick<HintTrinn, "etter_forsok" | "etter_minutter"> {
+  if (mode !== "rask") return step;
+
+  return {
+    etter_forsok:
+      step.etter_forsok !== undefined
+        ? Math.max(1, Math.ceil(step.etter_forsok / 2))
+        : undefined,
+    etter_minutter:
+      step.etter_minutter !== undefined ? step.etter_minutter / 2 : undefined,
+  };
+}
+
+/**
+ * Get which hints of a quest's ladder are unlocked
+ *
+ * Steps unlock in order: a step never shows before the one above it.
+ */
+export function getHintLadderStatus(
+  quest: Oppdrag,
+  progress: HintProgress,
+  mode: HintModus = getActiveHintMode(),
+): HintLadderStatus {
+  const steps = quest.hint_trapp ?? [];
+  if (mode === "av" || steps.length === 0) {
+    return { unlocked: [], total: 0 };
+  }
+
+  const minutesSinceFirstFail = progress.firstFailedAt
+    ? (progress.now.getTime() - new Date(progress.firstFailedAt).getTime()) /
+      60000
+    : null;
+
+  const unlocked: HintTrinn[] = [];
+  for (const step of steps) {
+    const { etter_forsok, etter_minutter } = scaleStep(step, mode);
+    const byAttempts =
+      etter_forsok !== undefined && progress.failedAttempts >= etter_forsok;
+    const byTime =
+      etter_minutter !== undefined &&
+      minutesSinceFirstFail !== null &&
+      minutesSinceFirstFail >= etter_minutter;
+
+    if (!byAttempts && !byTime) {
+      return {
+        unlocked,
+        total: steps.length,
+        next: {
+          attemptsLeft:
+            etter_forsok !== undefined
+              ? etter_forsok - progress.failedAttempts
+              : undefined,
+          minutesLeft:
+            etter_minutter !== undefined && minutesSinceFirstFail !== null
+              ? Math.ceil(etter_minutter - minutesSinceFirstFail)
+              : undefined,
+        },
+      };
+    }
+
+    unlocked.push(step);
+  }
+
+  return { unlocked, total: steps.length };
+}
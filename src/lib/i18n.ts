@@ -0,0 +1,237 @@
+/**
+ * Localization - UI strings and quest content in bokmål, nynorsk and English
+ *
+ * Two layers, both falling back to bokmål (the source language):
+ * - UI catalog: src/data/locales/<locale>.json, flat "omrade.nokkel" keys
+ *   read through t(). nb.json defines the set of valid keys.
+ * - Content: each season pack may ship locales/<locale>.json with translated
+ *   quest and eventyr text (see SeasonPack.oversettelser). Only text fields
+ *   are translated - codes, unlocks and requirements always come from the
+ *   bokmål quest files, so answers stay the same in every language.
+ *
+ * The active locale works like the active season:
+ * - Client: the family's `locale` (familyCredentials) is applied by AppContext
+ *   via setActiveLocale() after login, and remembered in localStorage
+ * - Server: callers pass the locale explicitly
+ */
+
+import type {
+  Eventyr,
+  HintTrinn,
+  InnholdOversettelse,
+  Locale,
+  Oppdrag,
+} from "@/types/innhold";
+import { getSeasonPack } from "./season-packs";
+
+import nb from "@/data/locales/nb.json";
+import nn from "@/data/locales/nn.json";
+import en from "@/data/locales/en.json";
+
+export type MessageKey = keyof typeof nb;
+
+type MessageCatalog = Partial<Record<MessageKey, string>>;
+
+const CATALOGS: Record<Locale, MessageCatalog> = { nb, nn, en };
+
+export const SUPPORTED_LOCALES: Locale[] = ["nb", "nn", "en"];
+
+export const DEFAULT_LOCALE: Locale = "nb";
+
+/**
+ * Display names for the language picker (each in its own language)
+ */
+export const LOCALE_NAMES: Record<Locale, string> = {
+  nb: "Norsk bokmål",
+  nn: "Norsk nynorsk",
+  en: "English",
+};
+
+// Intl locale tags for date formatting
+const DATE_LOCALES: Record<Locale, string> = {
+  nb: "nb-NO",
+  nn: "nn-NO",
+  en: "en-GB",
+};
+
+const LOCALE_STORAGE_KEY = "nissekomm-locale";
+
+// In-memory active locale (client), falls back to localStorage then default
+let activeLocale: Locale | null = null;
+
+/**
+ * Check if a locale is supported
+ */
+export function isKnownLocale(
+  locale: string | null | undefined,
+): locale is Locale {
+  return !!locale && (SUPPORTED_LOCALES as string[]).includes(locale);
+}
+
+/**
+ * Resolve a possibly missing/unknown locale to a supported one
+ */
+export function resolveLocale(locale?: string | null): Locale {
+  return isKnownLocale(locale) ? locale : DEFAULT_LOCALE;
+}
+
+/**
+ * Get the locale currently selected for this client
+ */
+export function getActiveLocale(): Locale {
+  if (activeLocale) return activeLocale;
+
+  try {
+    if (typeof window !== "undefined") {
+      const stored = localStorage.getItem(LOCALE_STORAGE_KEY);
+      if (isKnownLocale(stored)) {
+        activeLocale = stored;
+        return stored;
+      }
+    }
+  } catch {
+    // localStorage unavailable - use default
+  }
+
+  return DEFAULT_LOCALE;
+}
+
+/**
+ * Select the active locale (called with the family's locale after login)
+ * Unknown locales fall back to bokmål
+ *
+ * @returns The locale that was actually activated
+ */
+export function setActiveLocale(locale: string | null | undefined): Locale {
+  const resolved = resolveLocale(locale);
+
+  if (locale && resolved !== locale) {
+    console.warn(`[i18n] Unknown locale "${locale}", using ${resolved}`);
+  }
+
+  activeLocale = resolved;
+
+  try {
+    if (typeof window !== "undefined") {
+      localStorage.setItem(LOCALE_STORAGE_KEY, resolved);
+      document.documentElement.lang = resolved;
+    }
+  } catch (e) {
+    if (process.env.NODE_ENV === "development") {
+      console.warn("Failed to write to localStorage:", e);
+    }
+  }
+
+  return resolved;
+}
+
+/**
+ * Intl locale tag for toLocaleDateString() and friends
+ */
+export function getDateLocale(locale: Locale = getActiveLocale()): string {
+  return DATE_LOCALES[locale];
+}
+
+/**
+ * Translate a UI string, replacing {param} placeholders
+ *
+ * @example t("felles.dag", { dag: 5 }) // "DAG 5" / "DAY 5"
+ */
+export function t(
+  key: MessageKey,
+  params: Record<string, string | number> = {},
+  locale: Locale = getActiveLocale(),
+): string {
+  const template = CATALOGS[locale][key] ?? nb[key];
+
+  return template.replace(/\{([^}]+)\}/g, (match, name: string) =>
+    name in params ? String(params[name]) : match,
+  );
+}
+
+/**
+ * Get a season's content translation for a locale (undefined for bokmål)
+ */
+function getContentTranslation(
+  seasonId: string | undefined,
+  locale: Locale,
+): InnholdOversettelse | undefined {
+  if (locale === DEFAULT_LOCALE) return undefined;
+  return getSeasonPack(seasonId).oversettelser[locale];
+}
+
+/**
+ * Replace hint ladder texts by step (thresholds stay as written)
+ */
+function translateHints(
+  steps: HintTrinn[],
+  texts: string[] | undefined,
+): HintTrinn[] {
+  if (!texts) return steps;
+  return steps.map((step, i) =>
+    texts[i] ? { ...step, tekst: texts[i] } : step,
+  );
+}
+
+/**
+ * Apply a season's translation to a quest
+ * Untranslated fields (and everything that isn't text) keep the bokmål value
+ */
+export function localizeOppdrag(
+  quest: Oppdrag,
+  locale: Locale = getActiveLocale(),
+  seasonId?: string,
+): Oppdrag {
+  const translation = getContentTranslation(seasonId, locale)?.oppdrag?.[
+    String(quest.dag)
+  ];
+  if (!translation) return quest;
+
+  const { bonusoppdrag, varianter, hint_trapp, ...text } = translation;
+
+  const localizeVariant = (level: "lett" | "utfordrende") => {
+    const variant = quest.varianter?.[level];
+    if (!variant) return undefined;
+    const { hint_trapp: hints, ...variantText } = varianter?.[level] ?? {};
+    return {
+      ...variant,
+      ...variantText,
+      ...(variant.hint_trapp && {
+        hint_trapp: translateHints(variant.hint_trapp, hints),
+      }),
+    };
+  };
+
+  return {
+    ...quest,
+    ...text,
+    ...(quest.hint_trapp && {
+      hint_trapp: translateHints(quest.hint_trapp, hint_trapp),
+    }),
+    bonusoppdrag:
+      quest.bonusoppdrag && bonusoppdrag
+        ? { ...quest.bonusoppdrag, ...bonusoppdrag }
+        : quest.bonusoppdrag,
+    varianter:
+      quest.varianter && varianter
+        ? {
+            lett: localizeVariant("lett"),
+            utfordrende: localizeVariant("utfordrende"),
+          }
+        : quest.varianter,
+  };
+}
+
+/**
+ * Apply a season's translation to an eventyr (name and description)
+ */
+export function localizeEventyr(
+  eventyr: Eventyr,
+  locale: Locale = getActiveLocale(),
+  seasonId?: string,
+): Eventyr {
+  const translation = getContentTranslation(seasonId, locale)?.eventyr?.[
+    eventyr.id
+  ];
+  return translation ? { ...eventyr, ...translation } : eventyr;
+}
@@ -0,0 +1,84 @@
+/**
+ * Live Progress - Session events in the browser
+ *
+ * Browser side of GET /api/session/events (see session-events.ts). One
+ * EventSource is shared by every subscriber on the page: it opens with the
+ * first subscription and closes with the last. On `session-updated` the
+ * storage adapter reloads the session before listeners hear about it, so
+ * GameEngine reads already show the other device's progress.
+ *
+ * Does nothing with the localStorage backend: progress never leaves the
+ * browser, and the `storage` event already covers other tabs.
+ *
+ * Usage:
+ * ```typescript
+ * useEffect(
+ *   () => subscribeToSessionEvents(() => setRefreshKey((k) => k + 1)),
+ *   [],
+ * );
+ * ```
+ */
+
+import { StorageManager } from "./storage";
+import type { SessionEvent } from "./session-events";
+
+type Listener = (event: SessionEvent) => void;
+
+const EVENT_TYPES: SessionEvent["type"][] = [
+  "day-solved",
+  "badge-earned",
+  "symbol-collected",
+  "decryption-solved",
+  "session-updated",
+];
+
+const listeners = new Set<Listener>();
+let source: EventSource | null = null;
+let delivery: Promise<void> = Promise.resolve(); // Events in arrival order
+
+function handleMessage(message: MessageEvent<string>): void {
+  let event: SessionEvent;
+  try {
+    event = JSON.parse(message.data) as SessionEvent;
+  } catch {
+    return;
+  }
+
+  delivery = delivery.then(async () => {
+    if (event.type === "session-updated") {
+      await StorageManager.refreshFromServer();
+    }
+    listeners.forEach((listener) => listener(event));
+  });
+}
+
+function open(): void {
+  source = new EventSource("/api/session/events", { withCredentials: true });
+  EVENT_TYPES.forEach((type) =>
+    source?.addEventListener(type, handleMessage as EventListener),
+  );
+}
+
+function close(): void {
+  source?.close();
+  source = null;
+}
+
+/**
+ * Listen for game events from the kids' devices
+ * @returns Unsubscribe function
+ */
+export function subscribeToSessionEvents(listener: Listener): () => void {
+  const backend = process.env.NEXT_PUBLIC_STORAGE_BACKEND || "localStorage";
+  if (backend === "localStorage" || typeof EventSource === "undefined") {
+    return () => {};
+  }
+
+  listeners.add(listener);
+  if (!source) open();
+
+  return () => {
+    listeners.delete(listener);
+    if (listeners.size === 0) close();
+  };
+}
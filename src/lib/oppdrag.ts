@@ -1,8 +1,9 @@
 /**
  * Oppdrag Loader - Validates and merges all weekly quest files
  *
- * This module imports all 4 weekly quest files (uke1-4_oppdrag.json),
- * validates the data structure, and exports a single sorted array of all 24 days.
+ * This module reads the 4 weekly quest files (uke1-4_oppdrag.json) of each
+ * season pack, validates the data structure, and exports a single sorted
+ * array of all 24 days per season.
  *
  * Build-time validation ensures:
  * - Exactly 24 days present (1-24)
@@ -11,23 +12,22 @@
  * - No duplicate day numbers
  */
 
-import type { Oppdrag } from "@/types/innhold";
-import uke1 from "@/data/uke1_oppdrag.json";
-import uke2 from "@/data/uke2_oppdrag.json";
-import uke3 from "@/data/uke3_oppdrag.json";
-import uke4 from "@/data/uke4_oppdrag.json";
-import merkerData from "@/data/merker.json";
-
-// Type assertion for imported JSON
-const week1 = uke1 as Oppdrag[];
-const week2 = uke2 as Oppdrag[];
-const week3 = uke3 as Oppdrag[];
-const week4 = uke4 as Oppdrag[];
+import type { Badge, Oppdrag, SeasonPack } from "@/types/innhold";
+import {
+  getActiveSeasonId,
+  getAvailableSeasons,
+  getSeasonPack,
+  resolveSeasonId,
+} from "./season-packs";
 
 /**
  * Validates a single quest (oppdrag) has all required fields
  */
-function validateOppdrag(oppdrag: Oppdrag, weekNumber: number): void {
+function validateOppdrag(
+  oppdrag: Oppdrag,
+  weekNumber: number,
+  merker: Badge[],
+): void {
   const requiredFields: (keyof Oppdrag)[] = [
     "dag",
     "tittel",
@@ -117,7 +117,7 @@ function validateOppdrag(oppdrag: Oppdrag, weekNumber: number): void {
     }
 
     // Validate badge_id exists in merker.json
-    const badge = merkerData.merker.find((m) => m.id === bonusoppdrag.badge_id);
+    const badge = merker.find((m) => m.id === bonusoppdrag.badge_id);
     if (!badge) {
       throw new Error(
         `Validation Error: Week ${weekNumber}, Day ${oppdrag.dag} - bonusoppdrag.badge_id "${bonusoppdrag.badge_id}" not found in merker.json`,
@@ -144,17 +144,20 @@ function validateOppdrag(oppdrag: Oppdrag, weekNumber: number): void {
 }
 
 /**
- * Merges and validates all weekly quest files
+ * Merges and validates all weekly quest files of a season pack
  */
-function mergeAndValidate(): Oppdrag[] {
+function mergeAndValidate(pack: SeasonPack): Oppdrag[] {
+  const [week1 = [], week2 = [], week3 = [], week4 = []] = pack.uker;
+
   // Validate each week's quests
-  week1.forEach((oppdrag) => validateOppdrag(oppdrag, 1));
-  week2.forEach((oppdrag) => validateOppdrag(oppdrag, 2));
-  week3.forEach((oppdrag) => validateOppdrag(oppdrag, 3));
-  week4.forEach((oppdrag) => validateOppdrag(oppdrag, 4));
+  pack.uker.forEach((week, index) =>
+    week.forEach((oppdrag) =>
+      validateOppdrag(oppdrag, index + 1, pack.merker.merker),
+    ),
+  );
 
   // Merge all weeks
-  const allOppdrag = [...week1, ...week2, ...week3, ...week4];
+  const allOppdrag = pack.uker.flat();
 
   // Validate we have exactly 24 days
   if (allOppdrag.length !== 24) {
@@ -203,21 +206,32 @@ function mergeAndValidate(): Oppdrag[] {
   return allOppdrag.sort((a, b) => a.dag - b.dag);
 }
 
-// Build-time validation and export
-const allOppdrag = mergeAndValidate();
+// Validated quests per season
+const OPPDRAG_CACHE = new Map<string, Oppdrag[]>();
 
 /**
  * Get all 24 quests (oppdrag) in day order
+ * @param seasonId - Season pack to read (defaults to the active season)
  */
-export function getAllOppdrag(): Oppdrag[] {
-  return allOppdrag;
+export function getAllOppdrag(seasonId?: string): Oppdrag[] {
+  const id = resolveSeasonId(seasonId ?? getActiveSeasonId());
+
+  let oppdrag = OPPDRAG_CACHE.get(id);
+  if (!oppdrag) {
+    oppdrag = mergeAndValidate(getSeasonPack(id));
+    OPPDRAG_CACHE.set(id, oppdrag);
+  }
+  return oppdrag;
 }
 
+// Build-time validation of every registered season
+getAvailableSeasons().forEach((season) => getAllOppdrag(season.id));
+
 /**
  * Check if a specific day is completed (internal helper)
  */
 function isDayCompleted(day: number, completedCodes: string[]): boolean {
-  const oppdrag = allOppdrag.find((o) => o.dag === day);
+  const oppdrag = getAllOppdrag().find((o) => o.dag === day);
   if (!oppdrag) return false;
   return completedCodes.some(
     (code) => code.toUpperCase() === oppdrag.kode.toUpperCase(),
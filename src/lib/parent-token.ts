@@ -0,0 +1,201 @@
+/**
+ * Parent Tokens - Signed proof of parent access (server only)
+ *
+ * The nissekomm-parent-auth cookie holds a token issued when a parent code
+ * checks out (/api/auth/login, /api/auth/verify, /api/auth/register):
+ *
+ *   base64url(claims) + "." + base64url(HMAC-SHA256(claims, secret))
+ *
+ * Claims name the session, the role ("parent") and when the token was issued
+ * and expires. The cookie is httpOnly, and a token copied from another family
+ * or edited by hand fails the signature or session check.
+ *
+ * Revocation is per family: credentials.parentTokensRevokedAt invalidates
+ * every token issued before it (guide logout, see DELETE /api/auth/verify).
+ *
+ * Magic links (/api/auth/magic-link) carry a token of the same format with
+ * role "magic-link": short-lived, not bound to a browser's session, and
+ * only good for being exchanged once for a parent token.
+ *
+ * Set PARENT_TOKEN_SECRET in production; the fallback is for development.
+ * The fallback is public (it's in this file), so anyone could sign tokens
+ * with it: in production, tokens are neither issued nor accepted without the
+ * secret. getSecret throws a ConfigurationError: routes that issue or require
+ * a token answer a generic 500, and isParentAuthValid() reports no access.
+ */
+
+import crypto from "crypto";
+import { ConfigurationError } from "@/lib/configuration-error";
+
+export const PARENT_TOKEN_TTL_MS = 30 * 24 * 60 * 60 * 1000; // 30 days
+export const MAGIC_LINK_TTL_MS = 15 * 60 * 1000; // 15 minutes
+
+export interface ParentTokenClaims {
+  sid: string; // Session the token was issued for
+  role: "parent";
+  iat: number; // Issued at (ms since epoch)
+  exp: number; // Expires at (ms since epoch)
+}
+
+export interface MagicLinkClaims {
+  sid: string; // Session to log in to
+  role: "magic-link";
+  iat: number;
+  exp: number;
+}
+
+function getSecret(): string {
+  const secret = process.env.PARENT_TOKEN_SECRET;
+  if (secret) return secret;
+
+  if (process.env.NODE_ENV === "production") {
+    throw new ConfigurationError(
+      "PARENT_TOKEN_SECRET must be set in production",
+    );
+  }
+  return "nissekomm-parent-token-secret-development-only";
+}
+
+function sign(payload: string): string {
+  return crypto
+    .createHmac("sha256", getSecret())
+    .update(payload)
+    .digest("base64url");
+}
+
+function encode(claims: ParentTokenClaims | MagicLinkClaims): string {
+  const payload = Buffer.from(JSON.stringify(claims)).toString("base64url");
+  return `${payload}.${sign(payload)}`;
+}
+
+/**
+ * Claims of a token with a valid signature (any role, not checked further)
+ */
+function decode(
+  token: string,
+): Partial<ParentTokenClaims | MagicLinkClaims> | null {
+  const [payload, signature, ...rest] = token.split(".");
+  if (!payload || !signature || rest.length > 0) return null;
+
+  const expected = Buffer.from(sign(payload));
+  const actual = Buffer.from(signature);
+  if (
+    expected.length !== actual.length ||
+    !crypto.timingSafeEqual(expected, actual)
+  ) {
+    return null;
+  }
+
+  try {
+    return JSON.parse(Buffer.from(payload, "base64url").toString("utf8"));
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Issue a token for a session whose parent code was just checked
+ */
+export function createParentToken(sessionId: string, now = Date.now()): string {
+  return encode({
+    sid: sessionId,
+    role: "parent",
+    iat: now,
+    exp: now + PARENT_TOKEN_TTL_MS,
+  });
+}
+
+/**
+ * Claims of a token that is signed, unexpired and issued for the session
+ * Returns null otherwise. Revocation is checked separately
+ * (isParentTokenRevoked), since it needs the family's credentials.
+ */
+export function verifyParentToken(
+  token: string,
+  sessionId: string,
+  now = Date.now(),
+): ParentTokenClaims | null {
+  const claims = decode(token);
+
+  if (
+    !claims ||
+    claims.role !== "parent" ||
+    claims.sid !== sessionId ||
+    typeof claims.iat !== "number" ||
+    typeof claims.exp !== "number" ||
+    claims.exp <= now
+  ) {
+    return null;
+  }
+
+  return claims as ParentTokenClaims;
+}
+
+/**
+ * Whether the family revoked parent tokens after this one was issued
+ * @param revokedAt - credentials.parentTokensRevokedAt (ISO)
+ */
+export function isParentTokenRevoked(
+  claims: ParentTokenClaims,
+  revokedAt: string | undefined,
+): boolean {
+  if (!revokedAt) return false;
+  return claims.iat <= Date.parse(revokedAt);
+}
+
+/**
+ * Issue a magic link token for a family (sent to the parent email)
+ */
+export function createMagicLinkToken(
+  sessionId: string,
+  now = Date.now(),
+): string {
+  return encode({
+    sid: sessionId,
+    role: "magic-link",
+    iat: now,
+    exp: now + MAGIC_LINK_TTL_MS,
+  });
+}
+
+/**
+ * Claims of a magic link token that is signed and unexpired
+ * Returns null otherwise. Whether it was already used is checked
+ * separately (isMagicLinkSpent).
+ */
+export function verifyMagicLinkToken(
+  token: string,
+  now = Date.now(),
+): MagicLinkClaims | null {
+  const claims = decode(token);
+
+  if (
+    !claims ||
+    claims.role !== "magic-link" ||
+    typeof claims.sid !== "string" ||
+    typeof claims.iat !== "number" ||
+    typeof claims.exp !== "number" ||
+    claims.exp <= now
+  ) {
+    return null;
+  }
+
+  return claims as MagicLinkClaims;
+}
+
+/**
+ * Whether a magic link can no longer be used
+ * Using a link spends it and every link requested before it; revoking
+ * parent tokens (guide logout, new parent code) spends them too.
+ * @param usedAt - credentials.magicLinkUsedAt (ISO)
+ * @param revokedAt - credentials.parentTokensRevokedAt (ISO)
+ */
+export function isMagicLinkSpent(
+  claims: MagicLinkClaims,
+  usedAt: string | undefined,
+  revokedAt: string | undefined,
+): boolean {
+  return [usedAt, revokedAt].some(
+    (spentAt) => spentAt !== undefined && claims.iat <= Date.parse(spentAt),
+  );
+}
@@ -0,0 +1,281 @@
+/**
+ * Quest Answers - Keeping codes out of the kids' browser bundle
+ *
+ * With a server backend (NEXT_PUBLIC_STORAGE_BACKEND=sanity) the browser build
+ * gets the quest files without answers: a bundler loader
+ * (loaders/strip-quest-answers.cjs, wired up in next.config.ts) removes the
+ * fields below. Kids submit codes to /api/quest/submit and decryption
+ * sequences to /api/quest/decrypt, which check them against the full files on
+ * the server.
+ *
+ * Answer fields (OppdragSvar):
+ * - kode (left as "") and alternative_koder
+ * - kode and alternative_koder of each difficulty variant
+ * - decryption_challenge.correctSequence (left as [])
+ *
+ * Everything else is quest text and stays. nissemor-guide needs the answers
+ * back; it loads them from /api/quest/answers after the parent logs in.
+ *
+ * Parent overrides with their own code (quest-overrides.ts) are answers too:
+ * /api/family leaves out their kode and alternative_koder unless the request
+ * has parent access (stripQuestOverrideAnswers).
+ *
+ * With localStorage there is no server to ask, so answers stay in the bundle
+ * and LocalCodeValidator (code-validator.ts) checks codes in the browser.
+ *
+ * Saves from before submitted codes had a day are matched to their quest by
+ * code. A stripped bundle can't do that, so GET /api/session gives them
+ * their day from the full quests first (backfillSubmittedCodeDays).
+ *
+ * Symbol IDs are printed on the QR codes and double as identifiers, so they
+ * are not treated as answers.
+ */
+
+import type {
+  DecryptionChallenge,
+  InnsendelseLog,
+  Oppdrag,
+  OppdragOverstyring,
+  OppdragSvar,
+  OppdragVariant,
+} from "@/types/innhold";
+import { matchCode, type CodeMatch } from "./code-matching";
+
+// Expected code for quests answered with the family's own kid code
+export const KID_CODE_PLACEHOLDER = "{{KID_CODE}}";
+
+/**
+ * Result of checking a submitted code
+ * match is null when the code couldn't be checked (message says why)
+ */
+export interface CodeVerdict {
+  match: CodeMatch | null;
+  kode?: string; // The quest's own spelling, only when riktig
+  message?: string;
+}
+
+/**
+ * Result of checking a decryption sequence
+ * correct is null when the sequence couldn't be checked (message says why)
+ */
+export interface DecryptionVerdict {
+  correct: boolean | null;
+  correctCount: number;
+  message?: string;
+}
+
+/**
+ * Check if codes are checked on the server (answers not in the bundle)
+ */
+export function usesServerAnswers(): boolean {
+  return (
+    (process.env.NEXT_PUBLIC_STORAGE_BACKEND || "localStorage") !==
+    "localStorage"
+  );
+}
+
+/**
+ * Check if quests still carry their answers (false in a stripped bundle)
+ */
+export function hasQuestAnswers(quests: Oppdrag[]): boolean {
+  return quests.every((quest) => quest.kode !== "");
+}
+
+/**
+ * Get a quest without its answers - what the browser bundle contains
+ * Must stay in step with loaders/strip-quest-answers.cjs
+ */
+export function stripQuestAnswers(quest: Oppdrag): Oppdrag {
+  const stripped: Oppdrag = { ...quest, kode: "" };
+  delete stripped.alternative_koder;
+
+  if (quest.varianter) {
+    stripped.varianter = Object.fromEntries(
+      Object.entries(quest.varianter).map(([level, variant]) => {
+        const textOnly = { ...variant };
+        delete textOnly.kode;
+        delete textOnly.alternative_koder;
+        return [level, textOnly];
+      }),
+    );
+  }
+
+  if (quest.decryption_challenge) {
+    stripped.decryption_challenge = {
+      ...quest.decryption_challenge,
+      correctSequence: [],
+    };
+  }
+
+  return stripped;
+}
+
+/**
+ * Get a family's overrides without their codes - what the kids' app gets
+ * Overrides with their own code keep egen_kode, so the app still drops the
+ * old answer's hints (applyQuestOverride)
+ */
+export function stripQuestOverrideAnswers(
+  overrides: OppdragOverstyring[],
+): OppdragOverstyring[] {
+  return overrides.flatMap((override) => {
+    const stripped: OppdragOverstyring = { ...override };
+    delete stripped.kode;
+    delete stripped.alternative_koder;
+    if (override.kode) stripped.egen_kode = true;
+
+    return Object.keys(stripped).length > 1 ? [stripped] : [];
+  });
+}
+
+/**
+ * Collect the answers of full quests (for /api/quest/answers)
+ */
+export function extractQuestAnswers(quests: Oppdrag[]): OppdragSvar[] {
+  return quests.map((quest) => {
+    const answer: OppdragSvar = { dag: quest.dag, kode: quest.kode };
+
+    if (quest.alternative_koder) {
+      answer.alternative_koder = quest.alternative_koder;
+    }
+
+    Object.entries(quest.varianter ?? {}).forEach(([level, variant]) => {
+      const variantAnswer: Pick<OppdragVariant, "kode" | "alternative_koder"> =
+        {};
+      if (variant.kode) variantAnswer.kode = variant.kode;
+      if (variant.alternative_koder) {
+        variantAnswer.alternative_koder = variant.alternative_koder;
+      }
+      if (Object.keys(variantAnswer).length > 0) {
+        answer.varianter = { ...answer.varianter, [level]: variantAnswer };
+      }
+    });
+
+    if (quest.decryption_challenge) {
+      answer.correctSequence = quest.decryption_challenge.correctSequence;
+    }
+
+    return answer;
+  });
+}
+
+/**
+ * Put answers back into stripped quests (nissemor-guide)
+ * Quests without an answer are returned as they are
+ */
+export function withQuestAnswers(
+  quests: Oppdrag[],
+  answers: OppdragSvar[],
+): Oppdrag[] {
+  return quests.map((quest) => {
+    const answer = answers.find((a) => a.dag === quest.dag);
+    if (!answer) return quest;
+
+    const restored: Oppdrag = { ...quest, kode: answer.kode };
+    if (answer.alternative_koder) {
+      restored.alternative_koder = answer.alternative_koder;
+    }
+
+    if (quest.varianter && answer.varianter) {
+      const variantAnswers = answer.varianter;
+      restored.varianter = Object.fromEntries(
+        Object.entries(quest.varianter).map(([level, variant]) => [
+          level,
+          {
+            ...variant,
+            ...variantAnswers[level as keyof typeof variantAnswers],
+          },
+        ]),
+      );
+    }
+
+    if (quest.decryption_challenge && answer.correctSequence) {
+      restored.decryption_challenge = {
+        ...quest.decryption_challenge,
+        correctSequence: answer.correctSequence,
+      };
+    }
+
+    return restored;
+  });
+}
+
+/**
+ * Check a submitted code against a quest as the family plays it
+ *
+ * @param kidCode - The family's kid code, for {{KID_CODE}} quests
+ */
+export function checkQuestCode(
+  quest: Oppdrag,
+  code: string,
+  kidCode?: string | null,
+): CodeVerdict {
+  const expectedCode =
+    quest.kode === KID_CODE_PLACEHOLDER ? kidCode : quest.kode;
+
+  if (!expectedCode) {
+    return { match: null, message: "KUNNE IKKE HENTE KODE - PRØV IGJEN" };
+  }
+
+  const match = matchCode(code, expectedCode, quest.alternative_koder ?? []);
+  return match === "riktig"
+    ? { match, kode: expectedCode.trim().toUpperCase() }
+    : { match };
+}
+
+/**
+ * Give legacy submitted codes (saved without a day) the day they solved
+ * Matches against full quests like the old loader did, so the stripped
+ * bundle doesn't need the answers to count those days as completed.
+ *
+ * @param quests - The season's quests with answers
+ * @param kidCode - The family's kid code, for {{KID_CODE}} quests
+ * @returns The entries with days filled in, or null when none was filled
+ */
+export function backfillSubmittedCodeDays<T extends InnsendelseLog>(
+  entries: T[],
+  quests: Oppdrag[],
+  kidCode?: string | null,
+): T[] | null {
+  let filled = false;
+
+  const backfilled = entries.map((entry) => {
+    if (entry.day !== undefined) return entry;
+
+    const quest = quests.find(
+      (q) => checkQuestCode(q, entry.kode, kidCode).match === "riktig",
+    );
+    if (!quest) return entry;
+
+    filled = true;
+    return { ...entry, day: quest.dag };
+  });
+
+  return filled ? backfilled : null;
+}
+
+/**
+ * Check a symbol sequence against a decryption challenge
+ * Callers check the sequence length first (it isn't an answer)
+ */
+export function checkDecryptionSequence(
+  challenge: DecryptionChallenge,
+  sequence: number[],
+): DecryptionVerdict {
+  if (challenge.correctSequence.length === 0) {
+    return {
+      correct: null,
+      correctCount: 0,
+      message: "Kunne ikke sjekke symbolene - prøv igjen",
+    };
+  }
+
+  const correctCount = challenge.correctSequence.filter(
+    (index, position) => sequence[position] === index,
+  ).length;
+
+  return {
+    correct: correctCount === challenge.correctSequence.length,
+    correctCount,
+  };
+}
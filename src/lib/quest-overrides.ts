@@ -0,0 +1,268 @@
+/**
+ * Quest Overrides - Parent-authored changes to single days
+ *
+ * Quests assume a typical home. When a hiding spot in `fysisk_hint` doesn't
+ * exist in the family's flat, or the kids already know the answer, a parent
+ * can replace the hint, code, mission text or the whole day in
+ * nissemor-guide/oppdrag. Only the fields in QUEST_OVERRIDE_FIELDS can change;
+ * unlocks, symbols and the story always stay as written.
+ *
+ * Overrides are applied last, on top of translation and difficulty variant.
+ * An override with its own code drops the quest's alternative codes and hint
+ * ladder, since both belong to the old answer. The kids' app gets overrides
+ * without their codes when answers are checked on the server
+ * (stripQuestOverrideAnswers); egen_kode still marks the day as re-coded.
+ *
+ * The active overrides work like the active difficulty:
+ * - Client: the family's `questOverrides` (familyCredentials) are applied by
+ *   AppContext via setActiveQuestOverrides() after login, and remembered in
+ *   localStorage
+ * - Server: callers pass the overrides explicitly (e.g. daily email cron)
+ */
+
+import type {
+  Oppdrag,
+  OppdragOverstyring,
+  OverstyrbartFelt,
+} from "@/types/innhold";
+import {
+  collectOppdragErrors,
+  collectQuestCollectionErrors,
+} from "./validators/quest-validator";
+
+export const QUEST_OVERRIDE_FIELDS: OverstyrbartFelt[] = [
+  "tittel",
+  "nissemail_tekst",
+  "kode",
+  "alternative_koder",
+  "dagbokinnlegg",
+  "rampenissen_rampestrek",
+  "fysisk_hint",
+  "oppsett_tid",
+  "materialer_nødvendig",
+  "beste_rom",
+  "hint_type",
+];
+
+/**
+ * Labels for the override editor in nissemor-guide
+ */
+export const QUEST_OVERRIDE_FIELD_NAMES: Record<OverstyrbartFelt, string> = {
+  tittel: "Tittel",
+  nissemail_tekst: "Nissemail-tekst",
+  kode: "Kode",
+  alternative_koder: "Alternative koder",
+  dagbokinnlegg: "Julius' dagbok",
+  rampenissen_rampestrek: "Rampestrek",
+  fysisk_hint: "Fysisk hint",
+  oppsett_tid: "Oppsettstid",
+  materialer_nødvendig: "Materialer",
+  beste_rom: "Rom",
+  hint_type: "Hinttype",
+};
+
+// Longest text a parent can put in one field
+export const MAX_OVERRIDE_TEXT_LENGTH = 2000;
+
+const QUEST_OVERRIDES_STORAGE_KEY = "nissekomm-quest-overrides";
+
+// In-memory active overrides (client), falls back to localStorage then none
+let activeQuestOverrides: OppdragOverstyring[] | null = null;
+
+/**
+ * Keep only overridable fields with a value (drops empty text and lists)
+ * Returns null when nothing is left to override
+ */
+export function sanitizeQuestOverride(
+  override: OppdragOverstyring,
+): OppdragOverstyring | null {
+  const sanitized: OppdragOverstyring = { dag: override.dag };
+
+  QUEST_OVERRIDE_FIELDS.forEach((field) => {
+    const value = override[field];
+    if (Array.isArray(value)) {
+      const items = value
+        .filter((item): item is string => typeof item === "string")
+        .map((item) => item.trim())
+        .filter(Boolean);
+      if (items.length > 0) {
+        (sanitized as unknown as Record<string, unknown>)[field] = items;
+      }
+    } else if (typeof value === "string" && value.trim() !== "") {
+      (sanitized as unknown as Record<string, unknown>)[field] = value.trim();
+    }
+  });
+
+  if (override.egen_kode === true) sanitized.egen_kode = true;
+
+  return Object.keys(sanitized).length > 1 ? sanitized : null;
+}
+
+/**
+ * Sanitize a family's override list (drops empty overrides)
+ */
+export function sanitizeQuestOverrides(
+  overrides: OppdragOverstyring[] | null | undefined,
+): OppdragOverstyring[] {
+  if (!Array.isArray(overrides)) return [];
+
+  return overrides
+    .map(sanitizeQuestOverride)
+    .filter((override): override is OppdragOverstyring => override !== null)
+    .sort((a, b) => a.dag - b.dag);
+}
+
+/**
+ * Get the overrides currently active for this client
+ */
+export function getActiveQuestOverrides(): OppdragOverstyring[] {
+  if (activeQuestOverrides) return activeQuestOverrides;
+
+  try {
+    if (typeof window !== "undefined") {
+      const stored = localStorage.getItem(QUEST_OVERRIDES_STORAGE_KEY);
+      if (stored) {
+        activeQuestOverrides = sanitizeQuestOverrides(JSON.parse(stored));
+        return activeQuestOverrides;
+      }
+    }
+  } catch {
+    // localStorage unavailable or corrupt - no overrides
+  }
+
+  activeQuestOverrides = [];
+  return activeQuestOverrides;
+}
+
+/**
+ * Select the active overrides (called with the family's overrides after login)
+ *
+ * @returns The overrides that were actually activated
+ */
+export function setActiveQuestOverrides(
+  overrides: OppdragOverstyring[] | null | undefined,
+): OppdragOverstyring[] {
+  activeQuestOverrides = sanitizeQuestOverrides(overrides);
+
+  try {
+    if (typeof window !== "undefined") {
+      localStorage.setItem(
+        QUEST_OVERRIDES_STORAGE_KEY,
+        JSON.stringify(activeQuestOverrides),
+      );
+    }
+  } catch (e) {
+    if (process.env.NODE_ENV === "development") {
+      console.warn("Failed to write to localStorage:", e);
+    }
+  }
+
+  return activeQuestOverrides;
+}
+
+/**
+ * Find the override for a day, if any
+ */
+export function getQuestOverride(
+  day: number,
+  overrides: OppdragOverstyring[] = getActiveQuestOverrides(),
+): OppdragOverstyring | undefined {
+  return overrides.find((override) => override.dag === day);
+}
+
+/**
+ * Get the quest with the family's override for its day merged on top
+ */
+export function applyQuestOverride(
+  quest: Oppdrag,
+  overrides: OppdragOverstyring[] = getActiveQuestOverrides(),
+): Oppdrag {
+  const override = getQuestOverride(quest.dag, overrides);
+  if (!override) return quest;
+
+  const { egen_kode, ...fields } = override;
+  const merged: Oppdrag = { ...quest, ...fields };
+
+  // A new answer makes the old alternatives and hints wrong
+  if (override.kode || egen_kode) {
+    merged.alternative_koder = override.alternative_koder;
+    delete merged.hint_trapp;
+  }
+
+  return merged;
+}
+
+/**
+ * Merge overrides over a full quest list
+ */
+export function applyQuestOverrides(
+  quests: Oppdrag[],
+  overrides: OppdragOverstyring[] = getActiveQuestOverrides(),
+): Oppdrag[] {
+  if (overrides.length === 0) return quests;
+  return quests.map((quest) => applyQuestOverride(quest, overrides));
+}
+
+/**
+ * Collect everything wrong with a family's overrides
+ *
+ * Each overridden day must pass the same rules as the quest files
+ * (collectOppdragErrors), and codes must stay unique across all 24 days.
+ *
+ * @param quests - The family's quests before overrides (variant applied)
+ */
+export function collectQuestOverrideErrors(
+  overrides: OppdragOverstyring[],
+  quests: Oppdrag[],
+): string[] {
+  const errors: string[] = [];
+  const seenDays = new Set<number>();
+
+  overrides.forEach((override) => {
+    if (!quests.some((quest) => quest.dag === override.dag)) {
+      errors.push(`Override for unknown day ${override.dag}`);
+    } else if (seenDays.has(override.dag)) {
+      errors.push(`Day ${override.dag} has more than one override`);
+    }
+    seenDays.add(override.dag);
+
+    QUEST_OVERRIDE_FIELDS.forEach((field) => {
+      const value = override[field];
+      const texts = Array.isArray(value) ? value : [value];
+      if (
+        texts.some(
+          (text) =>
+            typeof text === "string" && text.length > MAX_OVERRIDE_TEXT_LENGTH,
+        )
+      ) {
+        errors.push(
+          `Day ${override.dag} - ${field} is longer than ${MAX_OVERRIDE_TEXT_LENGTH} characters`,
+        );
+      }
+    });
+  });
+
+  if (errors.length > 0) return errors;
+
+  const merged = applyQuestOverrides(quests, overrides);
+
+  overrides.forEach((override) => {
+    const quest = merged.find((q) => q.dag === override.dag);
+    if (quest) {
+      errors.push(...collectOppdragErrors(quest, Math.ceil(quest.dag / 7)));
+    }
+  });
+
+  const weekSize = (week: number) =>
+    merged.filter((q) => Math.min(4, Math.ceil(q.dag / 7)) === week).length;
+  errors.push(
+    ...collectQuestCollectionErrors(merged, {
+      week1: weekSize(1),
+      week2: weekSize(2),
+      week3: weekSize(3),
+      week4: weekSize(4),
+    }),
+  );
+
+  return errors;
+}
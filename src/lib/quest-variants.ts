@@ -0,0 +1,137 @@
+/**
+ * Quest Variants - Age-tiered difficulty per family
+ *
+ * Quests are written for ~9-12 year olds ("normal"). A quest may add
+ * `varianter.lett` and/or `varianter.utfordrende` with an alternative mission
+ * text, physical hint, setup and even a different code. Fields a variant
+ * leaves out keep the normal value, and quests without a variant for the
+ * family's level are played as written.
+ *
+ * The active level works like the active season and locale:
+ * - Client: the family's `difficulty` (familyCredentials) is applied by
+ *   AppContext via setActiveDifficulty() after login, and remembered in
+ *   localStorage
+ * - Server: callers pass the level explicitly (e.g. daily email cron)
+ */
+
+import type { OppdragNivå, Oppdrag } from "@/types/innhold";
+
+export const DIFFICULTY_LEVELS: OppdragNivå[] = [
+  "lett",
+  "normal",
+  "utfordrende",
+];
+
+export const DEFAULT_DIFFICULTY: OppdragNivå = "normal";
+
+/**
+ * Labels for the difficulty picker in nissemor-guide
+ */
+export const DIFFICULTY_NAMES: Record<OppdragNivå, string> = {
+  lett: "Lett (ca. 6-8 år)",
+  normal: "Normal (ca. 9-12 år)",
+  utfordrende: "Utfordrende (12+ år)",
+};
+
+const DIFFICULTY_STORAGE_KEY = "nissekomm-difficulty";
+
+// In-memory active level (client), falls back to localStorage then default
+let activeDifficulty: OppdragNivå | null = null;
+
+/**
+ * Check if a difficulty level is supported
+ */
+export function isKnownDifficulty(
+  level: string | null | undefined,
+): level is OppdragNivå {
+  return !!level && (DIFFICULTY_LEVELS as string[]).includes(level);
+}
+
+/**
+ * Resolve a possibly missing/unknown level to a supported one
+ */
+export function resolveDifficulty(level?: string | null): OppdragNivå {
+  return isKnownDifficulty(level) ? level : DEFAULT_DIFFICULTY;
+}
+
+/**
+ * Get the difficulty level currently selected for this client
+ */
+export function getActiveDifficulty(): OppdragNivå {
+  if (activeDifficulty) return activeDifficulty;
+
+  try {
+    if (typeof window !== "undefined") {
+      const stored = localStorage.getItem(DIFFICULTY_STORAGE_KEY);
+      if (isKnownDifficulty(stored)) {
+        activeDifficulty = stored;
+        return stored;
+      }
+    }
+  } catch {
+    // localStorage unavailable - use default
+  }
+
+  return DEFAULT_DIFFICULTY;
+}
+
+/**
+ * Select the active difficulty (called with the family's level after login)
+ * Unknown levels fall back to normal
+ *
+ * @returns The level that was actually activated
+ */
+export function setActiveDifficulty(
+  level: string | null | undefined,
+): OppdragNivå {
+  const resolved = resolveDifficulty(level);
+
+  if (level && resolved !== level) {
+    console.warn(
+      `[QuestVariants] Unknown difficulty "${level}", using ${resolved}`,
+    );
+  }
+
+  activeDifficulty = resolved;
+
+  try {
+    if (typeof window !== "undefined") {
+      localStorage.setItem(DIFFICULTY_STORAGE_KEY, resolved);
+    }
+  } catch (e) {
+    if (process.env.NODE_ENV === "development") {
+      console.warn("Failed to write to localStorage:", e);
+    }
+  }
+
+  return resolved;
+}
+
+/**
+ * Check if a quest has an alternative for the given level
+ */
+export function hasVariant(quest: Oppdrag, level: OppdragNivå): boolean {
+  return level !== "normal" && !!quest.varianter?.[level];
+}
+
+/**
+ * Get the quest as played at a difficulty level (defaults to the active one)
+ * A variant with its own code never inherits the quest's alternative codes
+ */
+export function applyVariant(
+  quest: Oppdrag,
+  level: OppdragNivå = getActiveDifficulty(),
+): Oppdrag {
+  if (level === "normal") return quest;
+
+  const variant = quest.varianter?.[level];
+  if (!variant) return quest;
+
+  return {
+    ...quest,
+    ...variant,
+    alternative_koder: variant.kode
+      ? variant.alternative_koder
+      : (variant.alternative_koder ?? quest.alternative_koder),
+  };
+}
@@ -0,0 +1,242 @@
+/**
+ * Rate Limiter - Brute-force protection for the auth endpoints (server only)
+ *
+ * Kid codes come from a small vocabulary (see code-generator.ts), so an
+ * unlimited login endpoint lets anyone enumerate families. Failed attempts
+ * on /api/auth/login and /api/auth/verify, and every request to the email
+ * endpoints (/api/auth/recover, /api/auth/magic-link), are counted per
+ * client IP and across all clients, in fixed windows. Going over the per-IP
+ * limit locks that IP out of the endpoint for a while; the routes answer 429
+ * with Retry-After. Going over the global limit locks nobody out: it only
+ * tightens the per-IP limit until the window ends, so an attack spread over
+ * many IPs slows to a crawl without taking login down for every family.
+ *
+ * Every attempt and lockout is written to the audit log (auditAuthAttempt).
+ *
+ * Counters live in a RateLimitStore. The default keeps them in this server
+ * process; deployments running several instances can swap it with
+ * setRateLimitStore() for one backed by shared storage (Redis, ...).
+ *
+ * Usage:
+ * ```typescript
+ * const status = await checkRateLimit("login", ip);
+ * if (!status.allowed) return rateLimitedResponse(status);
+ * // ... on a wrong code:
+ * await recordFailedAttempt("login", ip);
+ * ```
+ */
+
+export type RateLimitScope = "login" | "verify" | "recover" | "magic-link";
+
+/**
+ * Counter for one key (scope + IP, or scope for the global count)
+ */
+export interface RateLimitEntry {
+  count: number;
+  windowStart: number; // ms since epoch
+  lockedUntil?: number; // ms since epoch
+}
+
+/**
+ * Where counters are kept
+ * Entries can be dropped after ttlMs; reads and writes don't need to be
+ * atomic (a few extra attempts under contention are acceptable).
+ */
+export interface RateLimitStore {
+  get(key: string): Promise<RateLimitEntry | null>;
+  set(key: string, entry: RateLimitEntry, ttlMs: number): Promise<void>;
+}
+
+interface RateLimitRule {
+  limit: number; // Failed attempts allowed per window
+  windowMs: number;
+  lockoutMs: number; // How long going over the limit locks the key
+}
+
+interface GlobalRateLimitRule {
+  limit: number; // Failed attempts across all IPs per window
+  windowMs: number;
+  perIpLimit: number; // Per-IP limit while the global count is over its limit
+}
+
+const MINUTE = 60 * 1000;
+
+/**
+ * Limits per endpoint
+ * Global limits are high: they only kick in for an attack spread over many
+ * IPs, and then each IP gets the small perIpLimit instead of perIp.limit.
+ */
+export const AUTH_RATE_LIMITS: Record<
+  RateLimitScope,
+  { perIp: RateLimitRule; global: GlobalRateLimitRule }
+> = {
+  login: {
+    perIp: { limit: 10, windowMs: 15 * MINUTE, lockoutMs: 15 * MINUTE },
+    global: { limit: 500, windowMs: 15 * MINUTE, perIpLimit: 3 },
+  },
+  verify: {
+    perIp: { limit: 10, windowMs: 15 * MINUTE, lockoutMs: 15 * MINUTE },
+    global: { limit: 500, windowMs: 15 * MINUTE, perIpLimit: 3 },
+  },
+  recover: {
+    perIp: { limit: 5, windowMs: 60 * MINUTE, lockoutMs: 60 * MINUTE },
+    global: { limit: 200, windowMs: 60 * MINUTE, perIpLimit: 2 },
+  },
+  "magic-link": {
+    perIp: { limit: 5, windowMs: 60 * MINUTE, lockoutMs: 60 * MINUTE },
+    global: { limit: 200, windowMs: 60 * MINUTE, perIpLimit: 2 },
+  },
+};
+
+/**
+ * Store for a single server process
+ */
+export class InMemoryRateLimitStore implements RateLimitStore {
+  private entries = new Map<
+    string,
+    { entry: RateLimitEntry; expires: number }
+  >();
+
+  async get(key: string): Promise<RateLimitEntry | null> {
+    const stored = this.entries.get(key);
+    if (!stored) return null;
+    if (stored.expires <= Date.now()) {
+      this.entries.delete(key);
+      return null;
+    }
+    return { ...stored.entry };
+  }
+
+  async set(key: string, entry: RateLimitEntry, ttlMs: number): Promise<void> {
+    this.entries.set(key, { entry: { ...entry }, expires: Date.now() + ttlMs });
+  }
+}
+
+let store: RateLimitStore = new InMemoryRateLimitStore();
+
+export function getRateLimitStore(): RateLimitStore {
+  return store;
+}
+
+/**
+ * Replace the counter store (e.g. with shared storage for several instances)
+ * @returns The previous store
+ */
+export function setRateLimitStore(next: RateLimitStore): RateLimitStore {
+  const previous = store;
+  store = next;
+  return previous;
+}
+
+export interface RateLimitStatus {
+  allowed: boolean;
+  retryAfterMs: number; // 0 when allowed
+  lockedBy?: "ip" | "global"; // global = locked by the tightened limit
+}
+
+function keysFor(scope: RateLimitScope, ip: string) {
+  return { ip: `${scope}:ip:${ip}`, global: `${scope}:global` };
+}
+
+function lockedFor(entry: RateLimitEntry | null, now: number): number {
+  return entry?.lockedUntil && entry.lockedUntil > now
+    ? entry.lockedUntil - now
+    : 0;
+}
+
+/**
+ * Whether a client may try the endpoint now
+ * Only the client's own lockout counts; the global limit never refuses
+ * anyone by itself (see recordFailedAttempt).
+ */
+export async function checkRateLimit(
+  scope: RateLimitScope,
+  ip: string,
+  now = Date.now(),
+): Promise<RateLimitStatus> {
+  const ipLock = lockedFor(await store.get(keysFor(scope, ip).ip), now);
+  if (ipLock > 0) {
+    return { allowed: false, retryAfterMs: ipLock, lockedBy: "ip" };
+  }
+
+  return { allowed: true, retryAfterMs: 0 };
+}
+
+/**
+ * Count one failure against a key, in its current window
+ * Locks the key when a lockout is given and the count goes over limit.
+ */
+async function countFailure(
+  key: string,
+  rule: { limit: number; windowMs: number; lockoutMs?: number },
+  now: number,
+): Promise<RateLimitEntry> {
+  const existing = await store.get(key);
+  const entry: RateLimitEntry =
+    existing && now - existing.windowStart < rule.windowMs
+      ? existing
+      : { count: 0, windowStart: now };
+
+  entry.count++;
+  if (rule.lockoutMs && entry.count > rule.limit) {
+    entry.lockedUntil = now + rule.lockoutMs;
+  }
+
+  await store.set(key, entry, Math.max(rule.windowMs, rule.lockoutMs ?? 0));
+  return entry;
+}
+
+/**
+ * Count a failed attempt (wrong code, or any recovery request)
+ * @returns Status after counting, so the route can answer 429 right away
+ */
+export async function recordFailedAttempt(
+  scope: RateLimitScope,
+  ip: string,
+  now = Date.now(),
+): Promise<RateLimitStatus> {
+  const keys = keysFor(scope, ip);
+  const rules = AUTH_RATE_LIMITS[scope];
+
+  // Over the global limit, every IP gets the tightened limit
+  const global = await countFailure(keys.global, rules.global, now);
+  const tightened = global.count > rules.global.limit;
+  const ipRule = tightened
+    ? {
+        ...rules.perIp,
+        limit: Math.min(rules.perIp.limit, rules.global.perIpLimit),
+      }
+    : rules.perIp;
+
+  const ipEntry = await countFailure(keys.ip, ipRule, now);
+  const ipLock = lockedFor(ipEntry, now);
+  if (ipLock > 0) {
+    const lockedBy =
+      ipEntry.count > rules.perIp.limit ? ("ip" as const) : ("global" as const);
+    auditAuthAttempt({ scope, ip, outcome: "locked", lockedBy });
+    return { allowed: false, retryAfterMs: ipLock, lockedBy };
+  }
+  return { allowed: true, retryAfterMs: 0 };
+}
+
+export interface AuthAuditEntry {
+  scope: RateLimitScope;
+  ip: string;
+  outcome: "success" | "failure" | "blocked" | "locked";
+  role?: "kid" | "parent";
+  lockedBy?: "ip" | "global";
+}
+
+/**
+ * Write an auth attempt to the audit log (one JSON line, server logs)
+ * blocked = refused while locked out; locked = this attempt caused a lockout.
+ * Codes and emails are never logged.
+ */
+export function auditAuthAttempt(entry: AuthAuditEntry): void {
+  const line = JSON.stringify({ at: new Date().toISOString(), ...entry });
+  if (entry.outcome === "success") {
+    console.info("[AuthAudit]", line);
+  } else {
+    console.warn("[AuthAudit]", line);
+  }
+}
@@ -0,0 +1,455 @@
+/**
+ * Save Game - Versioned export/import of a family's game progress
+ *
+ * Lets families back up progress, restore it after clearing the browser, or
+ * move between the localStorage and Sanity backends (nissemor-guide →
+ * innstillinger). The file is JSON:
+ *
+ * ```json
+ * {
+ *   "format": "nissekomm-save",
+ *   "version": 2,
+ *   "exportedAt": "2025-12-05T19:30:00.000Z",
+ *   "season": "2025",
+ *   "state": { "submittedCodes": [...], "unlockedFiles": [...], ... }
+ * }
+ * ```
+ *
+ * `state` holds every game field in StorageManager's in-game format (see
+ * SaveGameState). Login, family settings and friend names are not included;
+ * they belong to the family account, not the save.
+ *
+ * Versions:
+ * - 1: the old StorageManager.exportData() output (no format tag) with
+ *   only codes, viewed emails and sound settings. Upgraded by giving each
+ *   code its quest day and re-deriving the days' unlocks.
+ * - 2: current
+ *
+ * Importing checks the save against the current quest set: a save from
+ * another season is refused, and days, files, topics, modules, symbols and
+ * challenges the quests don't know are dropped with a warning.
+ */
+
+import { matchCode } from "./code-matching";
+import type {
+  DecryptionSymbol,
+  InnsendelseLog,
+  Oppdrag,
+} from "@/types/innhold";
+
+export const SAVE_GAME_FORMAT = "nissekomm-save";
+export const SAVE_GAME_VERSION = 2;
+
+/**
+ * All game progress, in StorageManager's in-game format
+ */
+export interface SaveGameState {
+  submittedCodes: InnsendelseLog[];
+  viewedEmails: number[];
+  viewedBonusOppdragEmails: number[];
+  soundsEnabled: boolean;
+  musicEnabled: boolean;
+  bonusOppdragBadges: Array<{ day: number; icon: string; navn: string }>;
+  eventyrBadges: Array<{ eventyrId: string; icon: string; navn: string }>;
+  earnedBadges: Array<{ badgeId: string; timestamp: number }>;
+  topicUnlocks: Record<string, number>;
+  unlockedFiles: string[];
+  unlockedModules: string[];
+  collectedSymbols: DecryptionSymbol[];
+  solvedDecryptions: string[];
+  decryptionAttempts: Record<string, number>;
+  failedAttempts: Record<number, number>;
+  firstFailedAttempts: Record<number, string>;
+  nissenetLastVisit: number;
+  playerNames: string[];
+  niceListLastViewed: string | null;
+  dagbokLastRead: number;
+  brevfugler: Array<{ dag: number; innhold: string; tidspunkt: string }>;
+  crisisStatus: { antenna: boolean; inventory: boolean };
+  santaLetters: Array<{ day: number; content: string }>;
+}
+
+/**
+ * Save file (current version)
+ */
+export interface SaveGame {
+  format: typeof SAVE_GAME_FORMAT;
+  version: typeof SAVE_GAME_VERSION;
+  exportedAt: string;
+  season: string;
+  state: SaveGameState;
+}
+
+/**
+ * Result of reading a save file
+ * `state` is set only when the save can be restored (no errors)
+ */
+export interface SaveGameImportResult {
+  success: boolean;
+  state?: SaveGameState;
+  errors: string[];
+  warnings: string[];
+  upgradedFrom?: number; // Version of the file when it was older
+}
+
+const EMPTY_STATE: SaveGameState = {
+  submittedCodes: [],
+  viewedEmails: [],
+  viewedBonusOppdragEmails: [],
+  soundsEnabled: true,
+  musicEnabled: false,
+  bonusOppdragBadges: [],
+  eventyrBadges: [],
+  earnedBadges: [],
+  topicUnlocks: {},
+  unlockedFiles: [],
+  unlockedModules: [],
+  collectedSymbols: [],
+  solvedDecryptions: [],
+  decryptionAttempts: {},
+  failedAttempts: {},
+  firstFailedAttempts: {},
+  nissenetLastVisit: 0,
+  playerNames: [],
+  niceListLastViewed: null,
+  dagbokLastRead: 0,
+  brevfugler: [],
+  crisisStatus: { antenna: false, inventory: false },
+  santaLetters: [],
+};
+
+/**
+ * Build a save file
+ */
+export function createSaveGame(state: SaveGameState, season: string): SaveGame {
+  return {
+    format: SAVE_GAME_FORMAT,
+    version: SAVE_GAME_VERSION,
+    exportedAt: new Date().toISOString(),
+    season,
+    state,
+  };
+}
+
+// ============================================================
+// Upgrades
+// ============================================================
+
+/**
+ * Version 1: { authenticated, submittedCodes, viewedEmails, soundsEnabled,
+ * musicEnabled }. Codes had no reliable day, and unlocks weren't saved.
+ */
+function upgradeFromV1(
+  data: Record<string, unknown>,
+  season: string,
+  quests: Oppdrag[],
+): Record<string, unknown> {
+  const codes = Array.isArray(data.submittedCodes) ? data.submittedCodes : [];
+  const submittedCodes = codes.map((entry: Record<string, unknown>) => {
+    if (typeof entry?.day === "number" || typeof entry?.kode !== "string") {
+      return entry;
+    }
+    const quest = quests.find(
+      (q) =>
+        q.kode &&
+        matchCode(entry.kode as string, q.kode, q.alternative_koder) ===
+          "riktig",
+    );
+    return quest ? { ...entry, day: quest.dag } : entry;
+  });
+
+  const completedDays = new Set(
+    submittedCodes
+      .map((entry: Record<string, unknown>) => entry?.day)
+      .filter((day): day is number => typeof day === "number"),
+  );
+  const completedQuests = quests.filter((q) => completedDays.has(q.dag));
+  const topicUnlocks: Record<string, number> = {};
+  completedQuests.forEach((q) =>
+    q.reveals?.topics?.forEach((topic) => {
+      topicUnlocks[topic] = q.dag;
+    }),
+  );
+
+  return {
+    format: SAVE_GAME_FORMAT,
+    version: 2,
+    exportedAt: null,
+    season,
+    state: {
+      submittedCodes,
+      viewedEmails: data.viewedEmails,
+      soundsEnabled: data.soundsEnabled,
+      musicEnabled: data.musicEnabled,
+      unlockedFiles: completedQuests.flatMap((q) => q.reveals?.files ?? []),
+      unlockedModules: completedQuests.flatMap((q) => q.reveals?.modules ?? []),
+      topicUnlocks,
+    },
+  };
+}
+
+// ============================================================
+// Validation
+// ============================================================
+
+/**
+ * What the current quest set knows about
+ */
+function collectKnownIds(quests: Oppdrag[]) {
+  return {
+    days: new Set(quests.map((q) => q.dag)),
+    files: new Set(
+      quests.flatMap((q) => [
+        ...(q.reveals?.files ?? []),
+        ...(q.decryption_challenge?.unlocksFiles ?? []),
+      ]),
+    ),
+    topics: new Set(quests.flatMap((q) => q.reveals?.topics ?? [])),
+    modules: new Set(quests.flatMap((q) => q.reveals?.modules ?? [])),
+    symbols: new Set(
+      quests.flatMap((q) => (q.symbol_clue ? [q.symbol_clue.symbolId] : [])),
+    ),
+    challenges: new Set(
+      quests.flatMap((q) =>
+        q.decryption_challenge ? [q.decryption_challenge.challengeId] : [],
+      ),
+    ),
+  };
+}
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+const isString = (value: unknown): value is string => typeof value === "string";
+
+const isNumber = (value: unknown): value is number =>
+  typeof value === "number" && Number.isFinite(value);
+
+/**
+ * Check a save's state field by field
+ * Missing fields get their empty value; wrong types are errors; entries
+ * the quests don't know are dropped with a warning.
+ */
+function validateState(
+  raw: Record<string, unknown>,
+  quests: Oppdrag[],
+  errors: string[],
+  warnings: string[],
+): SaveGameState {
+  const known = collectKnownIds(quests);
+
+  const field = <T>(
+    name: keyof SaveGameState,
+    check: (value: unknown) => boolean,
+  ): T => {
+    const value = raw[name];
+    if (value === undefined) return EMPTY_STATE[name] as T;
+    if (!check(value)) {
+      errors.push(`state.${name} has the wrong type`);
+      return EMPTY_STATE[name] as T;
+    }
+    return value as T;
+  };
+
+  const list = <T>(
+    name: keyof SaveGameState,
+    isItem: (item: unknown) => item is T,
+    isKnown: (item: T) => boolean = () => true,
+  ): T[] => {
+    const items = field<unknown[]>(name, Array.isArray);
+    const valid = items.filter(isItem);
+    if (valid.length < items.length) {
+      errors.push(`state.${name} has invalid entries`);
+    }
+    const kept = valid.filter(isKnown);
+    if (kept.length < valid.length) {
+      warnings.push(
+        `Dropped ${valid.length - kept.length} unknown entries from ${name}`,
+      );
+    }
+    return kept;
+  };
+
+  const record = <T>(
+    name: keyof SaveGameState,
+    isValue: (value: unknown) => value is T,
+    isKnown: (key: string) => boolean,
+  ): Record<string, T> => {
+    const entries = Object.entries(field<object>(name, isRecord));
+    if (!entries.every(([, value]) => isValue(value))) {
+      errors.push(`state.${name} has invalid entries`);
+    }
+    const kept = entries.filter(([key]) => isKnown(key));
+    if (kept.length < entries.length) {
+      warnings.push(
+        `Dropped ${entries.length - kept.length} unknown entries from ${name}`,
+      );
+    }
+    return Object.fromEntries(kept) as Record<string, T>;
+  };
+
+  const isDay = (day: unknown) => known.days.has(Number(day));
+
+  const submittedCodes = list(
+    "submittedCodes",
+    (item): item is InnsendelseLog =>
+      isRecord(item) &&
+      isString(item.kode) &&
+      isString(item.dato) &&
+      (item.day === undefined || isNumber(item.day)),
+    (entry) => entry.day === undefined || isDay(entry.day),
+  );
+  const withoutDay = submittedCodes.filter((entry) => entry.day === undefined);
+  if (withoutDay.length > 0) {
+    warnings.push(
+      `${withoutDay.length} codes match no quest: ${withoutDay.map((e) => e.kode).join(", ")}`,
+    );
+  }
+
+  return {
+    submittedCodes,
+    viewedEmails: list("viewedEmails", isNumber, isDay),
+    viewedBonusOppdragEmails: list("viewedBonusOppdragEmails", isNumber, isDay),
+    soundsEnabled: field("soundsEnabled", (v) => typeof v === "boolean"),
+    musicEnabled: field("musicEnabled", (v) => typeof v === "boolean"),
+    bonusOppdragBadges: list(
+      "bonusOppdragBadges",
+      (item): item is SaveGameState["bonusOppdragBadges"][number] =>
+        isRecord(item) &&
+        isNumber(item.day) &&
+        isString(item.icon) &&
+        isString(item.navn),
+      (badge) => isDay(badge.day),
+    ),
+    eventyrBadges: list(
+      "eventyrBadges",
+      (item): item is SaveGameState["eventyrBadges"][number] =>
+        isRecord(item) &&
+        isString(item.eventyrId) &&
+        isString(item.icon) &&
+        isString(item.navn),
+    ),
+    earnedBadges: list(
+      "earnedBadges",
+      (item): item is SaveGameState["earnedBadges"][number] =>
+        isRecord(item) && isString(item.badgeId) && isNumber(item.timestamp),
+    ),
+    topicUnlocks: record("topicUnlocks", isNumber, (topic) =>
+      known.topics.has(topic),
+    ),
+    unlockedFiles: list("unlockedFiles", isString, (file) =>
+      known.files.has(file),
+    ),
+    unlockedModules: list("unlockedModules", isString, (module) =>
+      known.modules.has(module),
+    ),
+    collectedSymbols: list(
+      "collectedSymbols",
+      (item): item is DecryptionSymbol =>
+        isRecord(item) && isString(item.symbolId),
+      (symbol) => known.symbols.has(symbol.symbolId),
+    ),
+    solvedDecryptions: list("solvedDecryptions", isString, (id) =>
+      known.challenges.has(id),
+    ),
+    decryptionAttempts: record("decryptionAttempts", isNumber, (id) =>
+      known.challenges.has(id),
+    ),
+    failedAttempts: record("failedAttempts", isNumber, isDay),
+    firstFailedAttempts: record("firstFailedAttempts", isString, isDay),
+    nissenetLastVisit: field("nissenetLastVisit", isNumber),
+    playerNames: list("playerNames", isString),
+    niceListLastViewed: field(
+      "niceListLastViewed",
+      (v) => v === null || isString(v),
+    ),
+    dagbokLastRead: field("dagbokLastRead", isNumber),
+    brevfugler: list(
+      "brevfugler",
+      (item): item is SaveGameState["brevfugler"][number] =>
+        isRecord(item) &&
+        isNumber(item.dag) &&
+        isString(item.innhold) &&
+        isString(item.tidspunkt),
+      (brevfugl) => isDay(brevfugl.dag),
+    ),
+    crisisStatus: field(
+      "crisisStatus",
+      (v) =>
+        isRecord(v) &&
+        typeof v.antenna === "boolean" &&
+        typeof v.inventory === "boolean",
+    ),
+    santaLetters: list(
+      "santaLetters",
+      (item): item is SaveGameState["santaLetters"][number] =>
+        isRecord(item) && isNumber(item.day) && isString(item.content),
+      (letter) => isDay(letter.day),
+    ),
+  };
+}
+
+/**
+ * Read a save file: parse, upgrade old versions, validate
+ *
+ * @param json - File contents
+ * @param season - The family's season; saves from other seasons are refused
+ * @param quests - The family's quests (getFamilyQuests()), to match codes
+ *   and check ids against
+ */
+export function readSaveGame(
+  json: string,
+  season: string,
+  quests: Oppdrag[],
+): SaveGameImportResult {
+  const errors: string[] = [];
+  const warnings: string[] = [];
+
+  let data: unknown;
+  try {
+    data = JSON.parse(json);
+  } catch {
+    return { success: false, errors: ["File is not valid JSON"], warnings };
+  }
+  if (!isRecord(data)) {
+    return { success: false, errors: ["File is not a save game"], warnings };
+  }
+
+  // Version 1 had no format tag
+  let upgradedFrom: number | undefined;
+  if (data.format === undefined && Array.isArray(data.submittedCodes)) {
+    upgradedFrom = 1;
+    data = upgradeFromV1(data, season, quests);
+  }
+  const save = data as Record<string, unknown>;
+
+  if (save.format !== SAVE_GAME_FORMAT) {
+    errors.push("File is not a save game");
+  } else if (!Number.isInteger(save.version)) {
+    errors.push("Save game has no version");
+  } else if ((save.version as number) > SAVE_GAME_VERSION) {
+    errors.push(
+      `Save game version ${save.version} is newer than this app (${SAVE_GAME_VERSION})`,
+    );
+  } else if (save.season !== season) {
+    errors.push(
+      `Save game is for season ${String(save.season)}, the family plays ${season}`,
+    );
+  } else if (!isRecord(save.state)) {
+    errors.push("Save game has no state");
+  }
+  if (errors.length > 0) {
+    return { success: false, errors, warnings, upgradedFrom };
+  }
+
+  const state = validateState(
+    save.state as Record<string, unknown>,
+    quests,
+    errors,
+    warnings,
+  );
+
+  return errors.length > 0
+    ? { success: false, errors, warnings, upgradedFrom }
+    : { success: true, state, errors, warnings, upgradedFrom };
+}
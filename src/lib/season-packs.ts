@@ -0,0 +1,214 @@
+/**
+ * Season Packs - Versioned yearly calendar content
+ *
+ * Each December gets its own pack in src/data/seasons/<id>/:
+ * - manifest.json: id, name, year, format version and file list
+ * - uke1-4_oppdrag.json: Quests (24 days)
+ * - eventyr.json: Story arcs
+ * - merker.json: Badges
+ * - statisk_innhold.json: File tree, alerts, metrics
+ * - locales/<locale>.json: Optional translations (nn, en), see i18n.ts
+ *
+ * Packs are registered below and selected at runtime:
+ * - Client: the family's `season` (familyCredentials) is applied by AppContext
+ *   via setActiveSeason() after login, and remembered in localStorage
+ * - Server: callers pass the season explicitly (e.g. daily email cron)
+ *
+ * Families without a season (registered before packs existed) get
+ * LEGACY_SEASON_ID, so older families keep replaying their own year.
+ * DEFAULT_SEASON_ID is only used at registration: changing it never moves
+ * an existing family to another pack.
+ *
+ * ADDING A NEW SEASON:
+ * 1. Copy src/data/seasons/2025/ to src/data/seasons/<year>/
+ * 2. Update manifest.json (id, navn, år) and rewrite the content
+ * 3. Import the files and add the pack to SEASON_PACKS below
+ * 4. Point NEXT_PUBLIC_DEFAULT_SEASON at it to make it the default for new families
+ */
+
+import type {
+  BadgeData,
+  EventyrData,
+  InnholdOversettelse,
+  Oppdrag,
+  SeasonManifest,
+  SeasonPack,
+  StatiskInnhold,
+} from "@/types/innhold";
+
+import manifest2025 from "@/data/seasons/2025/manifest.json";
+import uke1_2025 from "@/data/seasons/2025/uke1_oppdrag.json";
+import uke2_2025 from "@/data/seasons/2025/uke2_oppdrag.json";
+import uke3_2025 from "@/data/seasons/2025/uke3_oppdrag.json";
+import uke4_2025 from "@/data/seasons/2025/uke4_oppdrag.json";
+import eventyr2025 from "@/data/seasons/2025/eventyr.json";
+import merker2025 from "@/data/seasons/2025/merker.json";
+import statiskInnhold2025 from "@/data/seasons/2025/statisk_innhold.json";
+import nn2025 from "@/data/seasons/2025/locales/nn.json";
+import en2025 from "@/data/seasons/2025/locales/en.json";
+
+/**
+ * Pack format version understood by this build
+ * Packs with a different formatVersjon are rejected at load time
+ */
+const SEASON_FORMAT_VERSION = 1;
+
+const SEASON_STORAGE_KEY = "nissekomm-season";
+
+const SEASON_PACKS: Record<string, SeasonPack> = {
+  "2025": {
+    manifest: manifest2025 as SeasonManifest,
+    uker: [
+      uke1_2025 as Oppdrag[],
+      uke2_2025 as Oppdrag[],
+      uke3_2025 as Oppdrag[],
+      uke4_2025 as Oppdrag[],
+    ],
+    eventyr: eventyr2025 as EventyrData,
+    merker: merker2025 as BadgeData,
+    statiskInnhold: statiskInnhold2025 as StatiskInnhold,
+    oversettelser: {
+      nn: nn2025 as InnholdOversettelse,
+      en: en2025 as InnholdOversettelse,
+    },
+  },
+};
+
+/**
+ * Validate manifest structure for every registered pack
+ * Runs at module load so a broken pack fails the build
+ */
+function validateSeasonManifests(): void {
+  Object.entries(SEASON_PACKS).forEach(([key, pack]) => {
+    const { manifest } = pack;
+
+    if (manifest.id !== key) {
+      throw new Error(
+        `Validation Error: Season pack registered as "${key}" has manifest id "${manifest.id}"`,
+      );
+    }
+
+    if (manifest.formatVersjon !== SEASON_FORMAT_VERSION) {
+      throw new Error(
+        `Validation Error: Season "${key}" uses formatVersjon ${manifest.formatVersjon}, this build supports ${SEASON_FORMAT_VERSION}`,
+      );
+    }
+
+    if (manifest.uker.length !== pack.uker.length) {
+      throw new Error(
+        `Validation Error: Season "${key}" manifest lists ${manifest.uker.length} week files, but ${pack.uker.length} are registered`,
+      );
+    }
+
+    const listed = Object.keys(manifest.oversettelser ?? {}).sort();
+    const registered = Object.keys(pack.oversettelser).sort();
+    if (listed.join(",") !== registered.join(",")) {
+      throw new Error(
+        `Validation Error: Season "${key}" manifest lists translations [${listed.join(", ")}], but [${registered.join(", ")}] are registered`,
+      );
+    }
+  });
+}
+
+validateSeasonManifests();
+
+/**
+ * Season of families registered before packs existed (no season set)
+ * Also used for unknown seasons. Fixed, unlike DEFAULT_SEASON_ID.
+ */
+export const LEGACY_SEASON_ID = "2025";
+
+/**
+ * Season new families get at registration
+ */
+export const DEFAULT_SEASON_ID: string =
+  process.env.NEXT_PUBLIC_DEFAULT_SEASON &&
+  SEASON_PACKS[process.env.NEXT_PUBLIC_DEFAULT_SEASON]
+    ? process.env.NEXT_PUBLIC_DEFAULT_SEASON
+    : "2025";
+
+// In-memory active season (client), falls back to localStorage then default
+let activeSeasonId: string | null = null;
+
+/**
+ * Check if a season pack is registered
+ */
+export function isKnownSeason(seasonId: string | null | undefined): boolean {
+  return !!seasonId && seasonId in SEASON_PACKS;
+}
+
+/**
+ * Resolve a possibly missing/unknown season to a registered one
+ */
+export function resolveSeasonId(seasonId?: string | null): string {
+  return seasonId && isKnownSeason(seasonId) ? seasonId : LEGACY_SEASON_ID;
+}
+
+/**
+ * Get manifests for all registered seasons (newest first)
+ */
+export function getAvailableSeasons(): SeasonManifest[] {
+  return Object.values(SEASON_PACKS)
+    .map((pack) => pack.manifest)
+    .sort((a, b) => b.år - a.år);
+}
+
+/**
+ * Get the season currently selected for this client
+ * Server code should pass an explicit season instead of relying on this
+ */
+export function getActiveSeasonId(): string {
+  if (activeSeasonId) return activeSeasonId;
+
+  try {
+    if (typeof window !== "undefined") {
+      const stored = localStorage.getItem(SEASON_STORAGE_KEY);
+      if (isKnownSeason(stored)) {
+        activeSeasonId = stored;
+        return stored as string;
+      }
+    }
+  } catch {
+    // localStorage unavailable - use the legacy season
+  }
+
+  return LEGACY_SEASON_ID;
+}
+
+/**
+ * Select the active season (called with the family's season after login)
+ * Unknown seasons fall back to the legacy pack
+ *
+ * @returns The season that was actually activated
+ */
+export function setActiveSeason(seasonId: string | null | undefined): string {
+  const resolved = resolveSeasonId(seasonId);
+
+  if (seasonId && resolved !== seasonId) {
+    console.warn(
+      `[SeasonPacks] Unknown season "${seasonId}", using ${resolved}`,
+    );
+  }
+
+  activeSeasonId = resolved;
+
+  try {
+    if (typeof window !== "undefined") {
+      localStorage.setItem(SEASON_STORAGE_KEY, resolved);
+    }
+  } catch (e) {
+    if (process.env.NODE_ENV === "development") {
+      console.warn("Failed to write to localStorage:", e);
+    }
+  }
+
+  return resolved;
+}
+
+/**
+ * Get a season pack (defaults to the active season)
+ */
+export function getSeasonPack(seasonId?: string | null): SeasonPack {
+  const id = seasonId === undefined ? getActiveSeasonId() : seasonId;
+  return SEASON_PACKS[resolveSeasonId(id)];
+}
@@ -0,0 +1,381 @@
+/**
+ * Server Storage - Repositories for sessions and family credentials
+ *
+ * API routes read and write userSession and familyCredentials documents
+ * through these repositories instead of querying Sanity directly, so the
+ * server store can be swapped. Picked by NEXT_PUBLIC_STORAGE_BACKEND:
+ * - sanity: Sanity CMS (hosted)
+ * - file: one JSON file on disk, for self-hosting or running locally without
+ *   Sanity (SERVER_STORE_FILE, default .data/nissekomm-store.json)
+ *
+ * Both store the same document shapes (Sanity array format, see api-utils
+ * SessionData and FamilyCredentials) and give each write a new `_rev`.
+ * Updates with `ifRevision` fail with statusCode 409 when the document
+ * changed in between, which createErrorResponse() turns into a retryable
+ * conflict.
+ *
+ * Usage:
+ * ```typescript
+ * const { sessions } = getServerRepositories();
+ * const session = await sessions.findBySessionId(sessionId);
+ * await sessions.update(session._id, { soundsEnabled: false });
+ * ```
+ */
+
+import { randomUUID } from "crypto";
+import { mkdir, readFile, rename, writeFile } from "fs/promises";
+import path from "path";
+import { sanityServerClient } from "./sanity-client";
+import type { FamilyCredentials, SessionData } from "./api-utils";
+
+/**
+ * Fields of a new document (the store adds _id and _rev)
+ */
+type NewDocument = { sessionId: string } & Record<string, unknown>;
+
+interface UpdateOptions {
+  ifRevision?: string; // Fail with 409 if the document has another revision
+  unset?: string[]; // Fields to remove
+}
+
+export interface SessionRepository {
+  findBySessionId(sessionId: string): Promise<SessionData | null>;
+  create(session: NewDocument): Promise<SessionData>;
+  update(
+    id: string,
+    fields: Record<string, unknown>,
+    options?: UpdateOptions,
+  ): Promise<SessionData>;
+  deleteBySessionId(sessionId: string): Promise<void>;
+}
+
+export interface CredentialsRepository {
+  findBySessionId(sessionId: string): Promise<FamilyCredentials | null>;
+  findByCode(
+    code: string,
+    role: "kid" | "parent",
+  ): Promise<FamilyCredentials | null>;
+  findByEmail(email: string): Promise<FamilyCredentials | null>; // Case-insensitive
+  listCodes(): Promise<Array<{ kidCode: string; parentCode: string }>>;
+  listSubscribed(): Promise<FamilyCredentials[]>; // emailSubscription == true
+  create(credentials: NewDocument): Promise<FamilyCredentials>;
+  update(
+    id: string,
+    fields: Record<string, unknown>,
+    options?: UpdateOptions,
+  ): Promise<FamilyCredentials>;
+  deleteBySessionId(sessionId: string): Promise<void>;
+}
+
+interface ServerRepositories {
+  sessions: SessionRepository;
+  credentials: CredentialsRepository;
+}
+
+// ============================================================================
+// Sanity
+// ============================================================================
+
+// Fresh reads: see documents created moments ago, skip every cache
+const FRESH_FETCH_OPTIONS = {
+  perspective: "raw",
+  useCdn: false,
+  cache: "no-store",
+  next: { revalidate: 0 },
+} as const;
+
+/**
+ * Sanity document operations shared by both document types
+ */
+class SanityDocuments<T extends { _id: string }> {
+  constructor(private type: "userSession" | "familyCredentials") {}
+
+  findOne(filter: string, params: Record<string, string>): Promise<T | null> {
+    return sanityServerClient.fetch<T | null>(
+      `*[_type == "${this.type}" && ${filter}][0]`,
+      params,
+      FRESH_FETCH_OPTIONS,
+    );
+  }
+
+  findAll<R = T>(filter: string, projection = ""): Promise<R[]> {
+    return sanityServerClient.fetch<R[]>(
+      `*[_type == "${this.type}"${filter ? ` && ${filter}` : ""}]${projection}`,
+      {},
+      FRESH_FETCH_OPTIONS,
+    );
+  }
+
+  async create(fields: NewDocument): Promise<T> {
+    return (await sanityServerClient.create({
+      _type: this.type,
+      ...fields,
+    })) as unknown as T;
+  }
+
+  async update(
+    id: string,
+    fields: Record<string, unknown>,
+    { ifRevision, unset = [] }: UpdateOptions = {},
+  ): Promise<T> {
+    let patch = sanityServerClient.patch(id).set(fields);
+    if (unset.length > 0) patch = patch.unset(unset);
+    if (ifRevision) patch = patch.ifRevisionId(ifRevision);
+    return (await patch.commit()) as unknown as T;
+  }
+
+  async deleteBySessionId(sessionId: string): Promise<void> {
+    await sanityServerClient.delete({
+      query: `*[_type == "${this.type}" && sessionId == $sessionId]`,
+      params: { sessionId },
+    });
+  }
+}
+
+function createSanityRepositories(): ServerRepositories {
+  const sessions = new SanityDocuments<SessionData>("userSession");
+  const credentials = new SanityDocuments<FamilyCredentials>(
+    "familyCredentials",
+  );
+
+  return {
+    sessions: {
+      findBySessionId: (sessionId) =>
+        sessions.findOne("sessionId == $sessionId", { sessionId }),
+      create: (session) => sessions.create(session),
+      update: (id, fields, options) => sessions.update(id, fields, options),
+      deleteBySessionId: (sessionId) => sessions.deleteBySessionId(sessionId),
+    },
+    credentials: {
+      findBySessionId: (sessionId) =>
+        credentials.findOne("sessionId == $sessionId", { sessionId }),
+      findByCode: (code, role) =>
+        credentials.findOne(
+          role === "kid" ? "kidCode == $code" : "parentCode == $code",
+          { code },
+        ),
+      findByEmail: (email) =>
+        credentials.findOne("lower(parentEmail) == $email", {
+          email: email.toLowerCase(),
+        }),
+      listCodes: () => credentials.findAll("", "{ kidCode, parentCode }"),
+      listSubscribed: () => credentials.findAll("emailSubscription == true"),
+      create: (fields) => credentials.create(fields),
+      update: (id, fields, options) => credentials.update(id, fields, options),
+      deleteBySessionId: (sessionId) =>
+        credentials.deleteBySessionId(sessionId),
+    },
+  };
+}
+
+// ============================================================================
+// JSON file
+// ============================================================================
+
+interface StoreContents {
+  userSession: SessionData[];
+  familyCredentials: FamilyCredentials[];
+}
+
+type StoredDocument = { _id: string; _rev?: string; sessionId: string };
+
+function conflictError(id: string): Error {
+  return Object.assign(new Error(`Document ${id} was modified`), {
+    statusCode: 409,
+  });
+}
+
+/**
+ * Whole store in one JSON file
+ * Operations run one at a time; every write replaces the file atomically
+ * (write to a temporary file, then rename).
+ */
+class JsonFileStore {
+  private queue: Promise<unknown> = Promise.resolve();
+
+  constructor(private filePath: string) {}
+
+  /**
+   * Run an operation on the store contents
+   * @param write - Save the contents afterwards
+   */
+  run<R>(operation: (contents: StoreContents) => R, write = false): Promise<R> {
+    const result = this.queue.then(async () => {
+      const contents = await this.load();
+      const value = operation(contents);
+      if (write) await this.save(contents);
+      // Callers get copies, never the stored objects
+      return value === undefined ? value : structuredClone(value);
+    });
+    this.queue = result.catch(() => {});
+    return result;
+  }
+
+  private async load(): Promise<StoreContents> {
+    try {
+      const contents = JSON.parse(await readFile(this.filePath, "utf8"));
+      return { userSession: [], familyCredentials: [], ...contents };
+    } catch (error) {
+      if ((error as { code?: string }).code === "ENOENT") {
+        return { userSession: [], familyCredentials: [] };
+      }
+      throw error;
+    }
+  }
+
+  private async save(contents: StoreContents): Promise<void> {
+    await mkdir(path.dirname(this.filePath), { recursive: true });
+    const tempPath = `${this.filePath}.${process.pid}.tmp`;
+    await writeFile(tempPath, JSON.stringify(contents, null, 2));
+    await rename(tempPath, this.filePath);
+  }
+}
+
+/**
+ * File store operations for one document type
+ */
+class FileDocuments<T extends StoredDocument> {
+  constructor(
+    private store: JsonFileStore,
+    private type: keyof StoreContents,
+  ) {}
+
+  private documents(contents: StoreContents): T[] {
+    return contents[this.type] as unknown as T[];
+  }
+
+  findOne(match: (document: T) => boolean): Promise<T | null> {
+    return this.store.run(
+      (contents) => this.documents(contents).find(match) ?? null,
+    );
+  }
+
+  findAll(match: (document: T) => boolean = () => true): Promise<T[]> {
+    return this.store.run((contents) => this.documents(contents).filter(match));
+  }
+
+  create(fields: NewDocument): Promise<T> {
+    return this.store.run((contents) => {
+      const document = {
+        _id: randomUUID(),
+        _type: this.type,
+        ...fields,
+        _rev: randomUUID(),
+      } as unknown as T;
+      this.documents(contents).push(document);
+      return document;
+    }, true);
+  }
+
+  update(
+    id: string,
+    fields: Record<string, unknown>,
+    { ifRevision, unset = [] }: UpdateOptions = {},
+  ): Promise<T> {
+    return this.store.run((contents) => {
+      const document = this.documents(contents).find((d) => d._id === id);
+      if (!document) {
+        throw Object.assign(new Error(`Document ${id} not found`), {
+          statusCode: 404,
+        });
+      }
+      if (ifRevision && document._rev !== ifRevision) {
+        throw conflictError(id);
+      }
+
+      const record = document as unknown as Record<string, unknown>;
+      Object.assign(record, fields, { _rev: randomUUID() });
+      unset.forEach((field) => delete record[field]);
+      return document;
+    }, true);
+  }
+
+  deleteBySessionId(sessionId: string): Promise<void> {
+    return this.store.run((contents) => {
+      const documents = this.documents(contents);
+      for (let i = documents.length - 1; i >= 0; i--) {
+        if (documents[i].sessionId === sessionId) documents.splice(i, 1);
+      }
+    }, true);
+  }
+}
+
+function createFileRepositories(filePath: string): ServerRepositories {
+  const store = new JsonFileStore(filePath);
+  const sessions = new FileDocuments<SessionData>(store, "userSession");
+  const credentials = new FileDocuments<FamilyCredentials>(
+    store,
+    "familyCredentials",
+  );
+
+  return {
+    sessions: {
+      findBySessionId: (sessionId) =>
+        sessions.findOne((s) => s.sessionId === sessionId),
+      create: (session) => sessions.create(session),
+      update: (id, fields, options) => sessions.update(id, fields, options),
+      deleteBySessionId: (sessionId) => sessions.deleteBySessionId(sessionId),
+    },
+    credentials: {
+      findBySessionId: (sessionId) =>
+        credentials.findOne((c) => c.sessionId === sessionId),
+      findByCode: (code, role) =>
+        credentials.findOne((c) =>
+          role === "kid" ? c.kidCode === code : c.parentCode === code,
+        ),
+      findByEmail: (email) =>
+        credentials.findOne(
+          (c) => c.parentEmail?.toLowerCase() === email.toLowerCase(),
+        ),
+      listCodes: async () =>
+        (await credentials.findAll()).map(({ kidCode, parentCode }) => ({
+          kidCode,
+          parentCode,
+        })),
+      listSubscribed: () =>
+        credentials.findAll((c) => c.emailSubscription === true),
+      create: (fields) => credentials.create(fields),
+      update: (id, fields, options) => credentials.update(id, fields, options),
+      deleteBySessionId: (sessionId) =>
+        credentials.deleteBySessionId(sessionId),
+    },
+  };
+}
+
+// ============================================================================
+// Factory
+// ============================================================================
+
+const DEFAULT_STORE_FILE = path.join(
+  process.cwd(),
+  ".data",
+  "nissekomm-store.json",
+);
+
+// One set of repositories per store, so file operations share a queue
+const repositoryCache = new Map<string, ServerRepositories>();
+
+/**
+ * Get the repositories for the configured server store
+ * Based on NEXT_PUBLIC_STORAGE_BACKEND environment variable ("file" uses
+ * SERVER_STORE_FILE); anything else uses Sanity
+ */
+export function getServerRepositories(): ServerRepositories {
+  const backend = process.env.NEXT_PUBLIC_STORAGE_BACKEND || "localStorage";
+  const cacheKey =
+    backend === "file"
+      ? `file:${process.env.SERVER_STORE_FILE || DEFAULT_STORE_FILE}`
+      : "sanity";
+
+  let repositories = repositoryCache.get(cacheKey);
+  if (!repositories) {
+    repositories =
+      backend === "file"
+        ? createFileRepositories(
+            process.env.SERVER_STORE_FILE || DEFAULT_STORE_FILE,
+          )
+        : createSanityRepositories();
+    repositoryCache.set(cacheKey, repositories);
+  }
+  return repositories;
+}
@@ -0,0 +1,172 @@
+/**
+ * Session Events - Live game progress for the parent dashboard
+ *
+ * When a route commits a write to a session (/api/session/sync,
+ * /api/quest/submit, /api/quest/decrypt), commitSessionUpdate() in
+ * api-utils.ts compares the session before and after and publishes what
+ * happened on the session event bus.
+ * GET /api/session/events streams those events to the nissemor-guide as
+ * server-sent events (see live-progress.ts for the browser side), so a
+ * parent on their phone sees the kids solve a code on the laptop.
+ *
+ * The default bus lives in this server process. Deployments running several
+ * instances can swap it with setSessionEventBus() for one backed by a shared
+ * broker (Redis pub/sub, Postgres LISTEN/NOTIFY, ...).
+ *
+ * Usage:
+ * ```typescript
+ * const unsubscribe = getSessionEventBus().subscribe(sessionId, (event) => {
+ *   if (event.type === "day-solved") console.log(`Dag ${event.day} løst!`);
+ * });
+ * ```
+ */
+
+/**
+ * Something the kids did, as seen by the server
+ * `session-updated` comes with every committed write (dashboards refresh on
+ * it); the others only when the write contains that progress.
+ * Progress in a child profile is published on the family's session, with
+ * the profile's id (see child-profiles.ts).
+ */
+export type SessionEvent = (
+  | { type: "day-solved"; day: number; at: string }
+  | { type: "badge-earned"; badgeId: string; at: string }
+  | { type: "symbol-collected"; symbolId: string; at: string }
+  | { type: "decryption-solved"; challengeId: string; at: string }
+  | { type: "session-updated"; fields: string[]; at: string }
+) & { profileId?: string };
+
+export type SessionEventListener = (event: SessionEvent) => void;
+
+/**
+ * Publish/subscribe per session
+ */
+export interface SessionEventBus {
+  publish(sessionId: string, events: SessionEvent[]): void;
+  /** @returns Unsubscribe function */
+  subscribe(sessionId: string, listener: SessionEventListener): () => void;
+}
+
+/**
+ * Bus for a single server process
+ */
+class InProcessSessionEventBus implements SessionEventBus {
+  private listeners = new Map<string, Set<SessionEventListener>>();
+
+  publish(sessionId: string, events: SessionEvent[]): void {
+    const listeners = this.listeners.get(sessionId);
+    if (!listeners) return;
+
+    events.forEach((event) =>
+      listeners.forEach((listener) => {
+        try {
+          listener(event);
+        } catch (error) {
+          console.error("[SessionEvents] Listener failed:", error);
+        }
+      }),
+    );
+  }
+
+  subscribe(sessionId: string, listener: SessionEventListener): () => void {
+    let listeners = this.listeners.get(sessionId);
+    if (!listeners) {
+      listeners = new Set();
+      this.listeners.set(sessionId, listeners);
+    }
+    listeners.add(listener);
+
+    return () => {
+      listeners.delete(listener);
+      if (listeners.size === 0) this.listeners.delete(sessionId);
+    };
+  }
+}
+
+let bus: SessionEventBus = new InProcessSessionEventBus();
+
+export function getSessionEventBus(): SessionEventBus {
+  return bus;
+}
+
+/**
+ * Replace the event bus (e.g. with a shared broker for several instances)
+ * @returns The previous bus
+ */
+export function setSessionEventBus(next: SessionEventBus): SessionEventBus {
+  const previous = bus;
+  bus = next;
+  return previous;
+}
+
+/**
+ * Ids of array items, whether stored as strings or objects
+ */
+function idsOf(value: unknown, idField: string): Set<string | number> {
+  if (!Array.isArray(value)) return new Set();
+
+  return new Set(
+    value
+      .map((item) =>
+        typeof item === "object" && item !== null
+          ? (item as Record<string, unknown>)[idField]
+          : item,
+      )
+      .filter(
+        (id): id is string | number =>
+          typeof id === "string" || typeof id === "number",
+      ),
+  );
+}
+
+/**
+ * Ids in the new value that weren't in the old one
+ */
+function addedIds(
+  before: unknown,
+  after: unknown,
+  idField: string,
+): Array<string | number> {
+  const previous = idsOf(before, idField);
+  return [...idsOf(after, idField)].filter((id) => !previous.has(id));
+}
+
+/**
+ * Events for one committed write
+ * Compares the stored session before and after (Sanity array format, see
+ * api-utils SessionData); a reset that removes progress only gives
+ * `session-updated`.
+ *
+ * @param fields - Fields the write changed
+ */
+export function deriveSessionEvents(
+  before: Record<string, unknown>,
+  after: Record<string, unknown>,
+  fields: string[],
+  at = new Date().toISOString(),
+): SessionEvent[] {
+  const events: SessionEvent[] = [];
+
+  addedIds(before.submittedCodes, after.submittedCodes, "day").forEach((day) =>
+    events.push({ type: "day-solved", day: Number(day), at }),
+  );
+  addedIds(before.earnedBadges, after.earnedBadges, "badgeId").forEach(
+    (badgeId) =>
+      events.push({ type: "badge-earned", badgeId: String(badgeId), at }),
+  );
+  addedIds(before.collectedSymbols, after.collectedSymbols, "symbolId").forEach(
+    (symbolId) =>
+      events.push({ type: "symbol-collected", symbolId: String(symbolId), at }),
+  );
+  addedIds(before.solvedDecryptions, after.solvedDecryptions, "").forEach(
+    (challengeId) =>
+      events.push({
+        type: "decryption-solved",
+        challengeId: String(challengeId),
+        at,
+      }),
+  );
+
+  events.push({ type: "session-updated", fields, at });
+  return events;
+}
@@ -10,15 +10,28 @@
  * - Stored in cookie for persistence across page loads
  * - Cookie: nissekomm-session, 365 days expiry, httpOnly=false (client needs read access)
  * - Fallback to localStorage if cookies disabled
+ *
+ * The child profile playing (see child-profiles.ts) is picked on every
+ * boot and kept in memory only; its game state has its own session ID
+ * (getGameSessionId).
+ *
+ * Parent access is a signed, httpOnly token cookie set by the server (see
+ * parent-token.ts). The parent functions below only keep a hint for the UI
+ * ("this browser logged in to the guide"); the server checks the token.
  */
 
+import { getProfileSessionId, SHARED_PROFILE_ID } from "./child-profiles";
+
 const SESSION_COOKIE_NAME = "nissekomm-session";
 const SESSION_STORAGE_KEY = "nissekomm-session-id";
 const SESSION_EXPIRY_DAYS = 365;
 
-// Parent authentication cookie - stores sessionId when parent is authenticated
-const PARENT_AUTH_COOKIE_NAME = "nissekomm-parent-auth";
-const PARENT_AUTH_STORAGE_KEY = "nissekomm-parent-auth";
+// Parent hint - stores sessionId when the guide was unlocked (grants nothing)
+const PARENT_HINT_COOKIE_NAME = "nissekomm-parent-hint";
+const PARENT_HINT_STORAGE_KEY = "nissekomm-parent-hint";
+
+// Child profile playing on this device (in memory: asked again after boot)
+let activeProfileId: string = SHARED_PROFILE_ID;
 
 /**
  * Set session ID in storage
@@ -26,6 +39,7 @@ const PARENT_AUTH_STORAGE_KEY = "nissekomm-parent-auth";
  */
 export function setSessionId(sessionId: string): void {
   setSessionCookie(sessionId);
+  activeProfileId = SHARED_PROFILE_ID; // A login starts all together
 
   // Also store in localStorage as fallback
   try {
@@ -72,6 +86,8 @@ export function getSessionId(): string | null {
  * Clear session ID (logout)
  */
 export function clearSessionId(): void {
+  activeProfileId = SHARED_PROFILE_ID;
+
   // Clear cookie
   if (typeof document !== "undefined") {
     document.cookie = `${SESSION_COOKIE_NAME}=; max-age=0; path=/`;
@@ -89,6 +105,33 @@ export function clearSessionId(): void {
   }
 }
 
+// ============================================================================
+// Child Profile
+// ============================================================================
+
+/**
+ * Child profile playing on this device (SHARED_PROFILE_ID = all together)
+ */
+export function getActiveProfileId(): string {
+  return activeProfileId;
+}
+
+/**
+ * Set the child profile playing (StorageManager.selectProfile calls this)
+ */
+export function setActiveProfileId(profileId: string): void {
+  activeProfileId = profileId;
+}
+
+/**
+ * Session ID of the game state being played
+ * The active child profile's session, or the family's when all play together
+ */
+export function getGameSessionId(): string | null {
+  const sessionId = getSessionId();
+  return sessionId && getProfileSessionId(sessionId, activeProfileId);
+}
+
 /**
  * Get kid code from session (used for Day 1 code resolution)
  * - localStorage backend: Returns sessionId (which IS the kidCode)
@@ -164,6 +207,30 @@ export async function getKidCodeFromSession(): Promise<string | null> {
   }
 }
 
+/**
+ * Whether the stored session was retired by a new kid code
+ * Rotating the kid code (innstillinger) moves the family to a new session,
+ * so a device still on the old one has to log in again. Unreachable
+ * servers count as not retired (offline play).
+ */
+export async function isSessionRetired(sessionId: string): Promise<boolean> {
+  const backend = process.env.NEXT_PUBLIC_STORAGE_BACKEND || "localStorage";
+  if (backend === "localStorage") return false;
+
+  try {
+    const response = await fetch(
+      `/api/auth/verify?sessionId=${encodeURIComponent(sessionId)}`,
+      { credentials: "include", cache: "no-store" },
+    );
+    if (!response.ok) return false;
+
+    const data = (await response.json()) as { authenticated?: boolean };
+    return data.authenticated === false;
+  } catch {
+    return false;
+  }
+}
+
 /**
  * Set session ID in cookie (internal helper)
  */
@@ -192,8 +259,9 @@ function setSessionCookie(sessionId: string): void {
 // ============================================================================
 
 /**
- * Set parent as authenticated for current session
- * Called after successful parent code validation or registration
+ * Mark the current session as unlocked for the parent guide
+ * Called after successful parent code validation or registration, next to
+ * the token cookie the server set. A hint for the UI only.
  * @param sessionId - The session ID to associate with parent auth (must match current session)
  */
 export function setParentAuthenticated(sessionId: string): void {
@@ -204,7 +272,7 @@ export function setParentAuthenticated(sessionId: string): void {
 
   // Cookie attributes for security
   const cookieString = [
-    `${PARENT_AUTH_COOKIE_NAME}=${sessionId}`,
+    `${PARENT_HINT_COOKIE_NAME}=${sessionId}`,
     `max-age=${maxAge}`,
     `path=/`,
     `samesite=lax`,
@@ -218,7 +286,7 @@ export function setParentAuthenticated(sessionId: string): void {
   // Also store in localStorage as fallback
   try {
     if (typeof window !== "undefined") {
-      localStorage.setItem(PARENT_AUTH_STORAGE_KEY, sessionId);
+      localStorage.setItem(PARENT_HINT_STORAGE_KEY, sessionId);
     }
   } catch (e) {
     if (process.env.NODE_ENV === "development") {
@@ -228,8 +296,10 @@ export function setParentAuthenticated(sessionId: string): void {
 }
 
 /**
- * Check if parent is authenticated for current session
- * Returns true only if parent auth cookie exists AND matches current session
+ * Check if this browser unlocked the parent guide for the current session
+ * Returns true only if the hint exists AND matches current session. Not
+ * proof of access: confirm with POST /api/auth/verify before showing
+ * parent content (GuideAuth does).
  */
 export function isParentAuthenticated(): boolean {
   const currentSessionId = getSessionId();
@@ -240,7 +310,7 @@ export function isParentAuthenticated(): boolean {
     const cookies = document.cookie.split(";");
     for (const cookie of cookies) {
       const [name, value] = cookie.trim().split("=");
-      if (name === PARENT_AUTH_COOKIE_NAME && value === currentSessionId) {
+      if (name === PARENT_HINT_COOKIE_NAME && value === currentSessionId) {
         return true;
       }
     }
@@ -249,7 +319,7 @@ export function isParentAuthenticated(): boolean {
   // Fallback to localStorage
   try {
     if (typeof window !== "undefined") {
-      const storedAuth = localStorage.getItem(PARENT_AUTH_STORAGE_KEY);
+      const storedAuth = localStorage.getItem(PARENT_HINT_STORAGE_KEY);
       return storedAuth === currentSessionId;
     }
   } catch (e) {
@@ -262,19 +332,20 @@ export function isParentAuthenticated(): boolean {
 }
 
 /**
- * Clear parent authentication (logout from parent guide)
- * Does NOT clear kid session - just revokes parent access
+ * Clear the parent hint
+ * Does NOT clear kid session. The token cookie is httpOnly; use
+ * logoutParent() to end parent access on the server too.
  */
 export function clearParentAuth(): void {
   // Clear cookie
   if (typeof document !== "undefined") {
-    document.cookie = `${PARENT_AUTH_COOKIE_NAME}=; max-age=0; path=/`;
+    document.cookie = `${PARENT_HINT_COOKIE_NAME}=; max-age=0; path=/`;
   }
 
   // Clear localStorage
   try {
     if (typeof window !== "undefined") {
-      localStorage.removeItem(PARENT_AUTH_STORAGE_KEY);
+      localStorage.removeItem(PARENT_HINT_STORAGE_KEY);
     }
   } catch (e) {
     if (process.env.NODE_ENV === "development") {
@@ -282,3 +353,22 @@ export function clearParentAuth(): void {
     }
   }
 }
+
+/**
+ * Log out of the parent guide
+ * Revokes the family's parent tokens (DELETE /api/auth/verify) and clears
+ * the hint. The hint is cleared even if the server can't be reached.
+ */
+export async function logoutParent(): Promise<void> {
+  try {
+    await fetch("/api/auth/verify", {
+      method: "DELETE",
+      credentials: "include",
+    });
+  } catch (error) {
+    if (process.env.NODE_ENV === "development") {
+      console.warn("Failed to revoke parent access:", error);
+    }
+  }
+  clearParentAuth();
+}
@@ -0,0 +1,244 @@
+/**
+ * Session Merge - Field-level merge rules for userSession sync
+ *
+ * Two devices can play the same session (the kids' laptop, a parent phone
+ * running bonusoppdrag). Instead of the last write replacing a whole field,
+ * each field merges by a rule that fits how the game uses it:
+ * - union: append-only lists (codes, badges, symbols, files, the game event
+ *   log) keep every item
+ * - max / min: counters and "last seen" values keep the highest (or, for
+ *   "first" values like topic unlock day, the lowest)
+ * - any: flag objects (crisisStatus) stay true once any device set them
+ * - latest: settings (sound, names) - last writer wins by write time,
+ *   tracked per field in `fieldTimestamps`
+ *
+ * Used by /api/session/sync when applying a write, and by
+ * SanityStorageAdapter when laying queued offline writes over the server's
+ * copy. Both work on the Sanity format (arrays with _key).
+ *
+ * Resets are not merged: a null value (StorageManager removing a key) or a
+ * replace write (StorageManager.clearAll()) overwrites the field. Removing a
+ * single item from a merged list therefore only sticks on this device until
+ * the next sync; a day rollback removes its items on the server instead
+ * (see day-rollback.ts).
+ */
+
+/**
+ * How one field merges
+ * `by` names the item property that identifies (union) or ranks (max/min)
+ * items of keyed arrays; items are matched by that, then _key
+ */
+type MergeRule =
+  | { kind: "union"; by?: string }
+  | { kind: "max"; by?: string }
+  | { kind: "min"; by?: string }
+  | { kind: "any" }
+  | { kind: "latest" };
+
+/**
+ * Per-field write time for "latest" fields (Sanity array format)
+ */
+export interface FieldTimestamp {
+  _key: string;
+  field: string;
+  updatedAt: string;
+}
+
+export const SESSION_MERGE_RULES: Record<string, MergeRule> = {
+  // Append-only progress
+  submittedCodes: { kind: "union", by: "day" },
+  viewedEmails: { kind: "union" },
+  viewedBonusOppdragEmails: { kind: "union" },
+  bonusOppdragBadges: { kind: "union" },
+  eventyrBadges: { kind: "union" },
+  earnedBadges: { kind: "union", by: "badgeId" },
+  unlockedFiles: { kind: "union" },
+  unlockedModules: { kind: "union" },
+  collectedSymbols: { kind: "union", by: "symbolId" },
+  solvedDecryptions: { kind: "union" },
+  santaLetters: { kind: "union" },
+  brevfugler: { kind: "union" },
+  eventLog: { kind: "union", by: "id" },
+
+  // Counters and "first"/"last" markers
+  topicUnlocks: { kind: "min", by: "day" },
+  decryptionAttempts: { kind: "max", by: "attemptCount" },
+  failedAttempts: { kind: "max", by: "attemptCount" },
+  firstFailedAttempts: { kind: "min", by: "timestamp" },
+  nissenetLastVisit: { kind: "max" },
+  dagbokLastRead: { kind: "max" },
+  niceListLastViewed: { kind: "max" },
+  schemaVersion: { kind: "max" },
+
+  // Flags
+  crisisStatus: { kind: "any" },
+
+  // Settings
+  authenticated: { kind: "latest" },
+  soundsEnabled: { kind: "latest" },
+  musicEnabled: { kind: "latest" },
+  playerNames: { kind: "latest" },
+  friendNames: { kind: "latest" },
+};
+
+// Fields without a rule behave like settings
+const DEFAULT_RULE: MergeRule = { kind: "latest" };
+
+type Item = Record<string, unknown>;
+
+function itemIdentity(item: unknown, by?: string): string {
+  if (typeof item !== "object" || item === null) {
+    return JSON.stringify(item);
+  }
+  const record = item as Item;
+  if (by && record[by] !== undefined) return `${by}:${String(record[by])}`;
+  if (typeof record._key === "string") return `_key:${record._key}`;
+  return JSON.stringify(record);
+}
+
+function compare(a: unknown, b: unknown): number {
+  if (typeof a === "number" && typeof b === "number") return a - b;
+  return String(a).localeCompare(String(b));
+}
+
+/**
+ * Union of two lists; an item already in `current` is kept as is
+ */
+function mergeUnion(current: unknown[], incoming: unknown[], by?: string) {
+  const seen = new Set(current.map((item) => itemIdentity(item, by)));
+  return [
+    ...current,
+    ...incoming.filter((item) => {
+      const id = itemIdentity(item, by);
+      if (seen.has(id)) return false;
+      seen.add(id);
+      return true;
+    }),
+  ];
+}
+
+/**
+ * Keyed lists matched by _key, keeping the item ranked highest (or lowest)
+ * by `by`; plain values keep the highest (or lowest) value
+ */
+function mergeRanked(
+  current: unknown,
+  incoming: unknown,
+  direction: 1 | -1,
+  by?: string,
+): unknown {
+  if (Array.isArray(current) && Array.isArray(incoming) && by) {
+    const merged = new Map<string, unknown>();
+    [...current, ...incoming].forEach((item) => {
+      const id = itemIdentity(item);
+      const existing = merged.get(id);
+      if (
+        existing === undefined ||
+        compare((item as Item)[by], (existing as Item)[by]) * direction > 0
+      ) {
+        merged.set(id, item);
+      }
+    });
+    return [...merged.values()];
+  }
+
+  return compare(incoming, current) * direction > 0 ? incoming : current;
+}
+
+function mergeAny(current: unknown, incoming: unknown): unknown {
+  if (
+    typeof current !== "object" ||
+    current === null ||
+    typeof incoming !== "object" ||
+    incoming === null
+  ) {
+    return incoming;
+  }
+
+  const merged: Item = { ...(current as Item) };
+  Object.entries(incoming as Item).forEach(([key, value]) => {
+    merged[key] = merged[key] === true || value;
+  });
+  return merged;
+}
+
+/**
+ * Merge one field's incoming value into the current one
+ * "latest" fields are decided by mergeSessionUpdates(), which knows the
+ * write times; here the incoming value wins.
+ */
+export function mergeSessionField(
+  field: string,
+  current: unknown,
+  incoming: unknown,
+): unknown {
+  if (incoming === null || current === undefined || current === null) {
+    return incoming;
+  }
+
+  const rule = SESSION_MERGE_RULES[field] ?? DEFAULT_RULE;
+  switch (rule.kind) {
+    case "union":
+      return Array.isArray(current) && Array.isArray(incoming)
+        ? mergeUnion(current, incoming, rule.by)
+        : incoming;
+    case "max":
+      return mergeRanked(current, incoming, 1, rule.by);
+    case "min":
+      return mergeRanked(current, incoming, -1, rule.by);
+    case "any":
+      return mergeAny(current, incoming);
+    case "latest":
+      return incoming;
+  }
+}
+
+/**
+ * Merge a write into a session
+ *
+ * @param session - Current session document (Sanity format)
+ * @param updates - Fields written by a device (Sanity format)
+ * @param writtenAt - When the device made the write (ISO); decides "latest"
+ *   fields against `session.fieldTimestamps`
+ * @param replace - A reset (StorageManager.clearAll()): every field is
+ *   overwritten
+ * @returns Fields to set on the session, including updated fieldTimestamps.
+ *   "latest" fields older than the stored value are left out.
+ */
+export function mergeSessionUpdates(
+  session: Record<string, unknown>,
+  updates: Record<string, unknown>,
+  writtenAt: string,
+  replace = false,
+): Record<string, unknown> {
+  const timestamps = new Map(
+    ((session.fieldTimestamps as FieldTimestamp[] | undefined) ?? []).map(
+      (entry) => [entry.field, entry],
+    ),
+  );
+  const merged: Record<string, unknown> = {};
+  let timestampsChanged = false;
+
+  Object.entries(updates).forEach(([field, value]) => {
+    const rule = SESSION_MERGE_RULES[field] ?? DEFAULT_RULE;
+
+    const isReset = replace || value === null;
+
+    if (rule.kind === "latest") {
+      const stored = timestamps.get(field)?.updatedAt;
+      if (!isReset && stored && stored > writtenAt) return; // Another device wrote later
+
+      timestamps.set(field, { _key: field, field, updatedAt: writtenAt });
+      timestampsChanged = true;
+    }
+
+    merged[field] = isReset
+      ? value
+      : mergeSessionField(field, session[field], value);
+  });
+
+  if (timestampsChanged) {
+    merged.fieldTimestamps = [...timestamps.values()];
+  }
+  return merged;
+}
@@ -0,0 +1,372 @@
+/**
+ * Playthrough Simulator
+ *
+ * Plays a whole December headlessly: drives GameEngine through days 1-24
+ * with an in-memory storage adapter, doing what a family would do each day:
+ * 1. Scan the day's symbol card (symbol_clue)
+ * 2. Submit the correct code
+ * 3. Solve the day's decryption challenge (NisseKrypto)
+ * 4. Parent-validate the day's bonusoppdrag (nissemor-guide)
+ *
+ * Quests are played at one difficulty level (default normal), so variant
+ * codes get exercised too.
+ *
+ * Afterwards it checks that every badge, every gated file and every module
+ * was actually obtained. Content that is only reachable on paper (wrong
+ * requirements, missing symbols, unknown badge ids) shows up as failures.
+ *
+ * Used by src/lib/__tests__/playthrough-simulator.test.ts and
+ * scripts/simulate-playthrough.ts (per-day unlock timeline).
+ */
+
+import type { FilNode, Oppdrag, OppdragNivå } from "@/types/innhold";
+import { GameEngine } from "../game-engine";
+import { BadgeManager } from "../badge-system";
+import { StorageManager } from "../storage";
+import { InMemoryStorageAdapter } from "../storage-adapter";
+import { getAllQuests, getStaticContent } from "../data-loader";
+import { getActiveSeasonId, setActiveSeason } from "../season-packs";
+import { applyVariant, DEFAULT_DIFFICULTY } from "../quest-variants";
+import { getActiveSchedule, setActiveSchedule } from "../calendar-schedule";
+import { extractFileIds, findFileNode } from "../utils/file-tree-utils";
+
+const FINAL_DAY = 24;
+
+interface SimulationOptions {
+  seasonId?: string; // Defaults to the active season
+  kidCode?: string; // Used for {{KID_CODE}} quests
+  difficulty?: OppdragNivå; // Variant level to play (default normal)
+}
+
+/**
+ * What happened on one simulated day
+ * Unlock lists only contain content that was new that day
+ */
+export interface SimulatedDay {
+  day: number;
+  code: string;
+  accepted: boolean;
+  symbols: string[];
+  decryptions: string[];
+  modules: string[];
+  files: string[];
+  topics: string[];
+  badges: string[];
+}
+
+export interface PlaythroughReport {
+  season: string;
+  difficulty: OppdragNivå;
+  days: SimulatedDay[];
+  failures: string[]; // Content that could not be obtained
+  warnings: string[]; // Actions that failed without blocking any goal
+  totals: {
+    quests: { completed: number; total: number };
+    badges: { earned: number; total: number };
+    modules: { unlocked: number; total: number };
+    files: { unlocked: number; total: number };
+  };
+}
+
+interface UnlockSnapshot {
+  symbols: Set<string>;
+  decryptions: Set<string>;
+  modules: Set<string>;
+  files: Set<string>;
+  topics: Set<string>;
+  badges: Set<string>;
+}
+
+function takeSnapshot(): UnlockSnapshot {
+  return {
+    symbols: new Set(
+      StorageManager.getCollectedSymbols().map((s) => s.symbolId),
+    ),
+    decryptions: new Set(StorageManager.getSolvedDecryptions()),
+    modules: new Set(StorageManager.getUnlockedModules()),
+    files: new Set(StorageManager.getUnlockedFiles()),
+    topics: new Set(StorageManager.getUnlockedTopics().keys()),
+    badges: new Set(BadgeManager.getEarnedBadges().map((b) => b.badgeId)),
+  };
+}
+
+function added(before: Set<string>, after: Set<string>): string[] {
+  return [...after].filter((id) => !before.has(id));
+}
+
+/**
+ * Modules revealed by any quest
+ */
+function collectModuleIds(quests: Oppdrag[]): string[] {
+  return [...new Set(quests.flatMap((q) => q.reveals?.modules ?? []))];
+}
+
+/**
+ * Files that are not freely accessible: gated by unlockConditions in the
+ * file tree, revealed by a quest or unlocked by a decryption challenge
+ */
+function collectGatedFileIds(quests: Oppdrag[], filer: FilNode[]): string[] {
+  const gated = extractFileIds(filer).filter(
+    (id) => findFileNode(id, filer)?.unlockConditions,
+  );
+  const revealed = quests.flatMap((q) => [
+    ...(q.reveals?.files ?? []),
+    ...(q.decryption_challenge?.unlocksFiles ?? []),
+  ]);
+  return [...new Set([...gated, ...revealed])];
+}
+
+/**
+ * Play one day the way a family would
+ */
+async function simulateDay(
+  quest: Oppdrag,
+  kidCode: string,
+  failures: string[],
+  warnings: string[],
+): Promise<SimulatedDay> {
+  const day = quest.dag;
+  const before = takeSnapshot();
+
+  if (!GameEngine.isMissionAccessible(day)) {
+    failures.push(`Day ${day}: mission requirements are not met`);
+  }
+
+  // The symbol card is found before the code is entered
+  if (quest.symbol_clue) {
+    const { symbolId } = quest.symbol_clue;
+    const result = GameEngine.collectSymbolByCode(symbolId);
+    if (!result.success) {
+      warnings.push(
+        `Day ${day}: symbol '${symbolId}' could not be collected (${result.message})`,
+      );
+    }
+  }
+
+  const code = quest.kode === "{{KID_CODE}}" ? kidCode : quest.kode;
+  const result = await GameEngine.submitCode(code, quest.kode, day, kidCode);
+  if (!result.success) {
+    failures.push(
+      `Day ${day}: code '${code}' was rejected (${result.message})`,
+    );
+  }
+
+  if (quest.decryption_challenge) {
+    const { challengeId, requiredSymbols, correctSequence } =
+      quest.decryption_challenge;
+    const missing = requiredSymbols.filter(
+      (id) => !StorageManager.hasSymbol(id),
+    );
+
+    if (missing.length > 0) {
+      failures.push(
+        `Day ${day}: decryption '${challengeId}' needs uncollected symbols ${missing.join(", ")}`,
+      );
+    } else {
+      const decryption = GameEngine.validateDecryptionSequence(
+        challengeId,
+        correctSequence,
+      );
+      if (!decryption.correct) {
+        failures.push(
+          `Day ${day}: decryption '${challengeId}' rejected its correct sequence (${decryption.message})`,
+        );
+      }
+    }
+  }
+
+  // Parent confirms the bonusoppdrag, same as nissemor-guide/bonusoppdrag
+  if (
+    quest.bonusoppdrag?.validering === "forelder" &&
+    quest.bonusoppdrag.badge_id
+  ) {
+    const award = BadgeManager.checkAndAwardBadge(
+      quest.bonusoppdrag.badge_id,
+      true,
+    );
+    if (!award.success) {
+      failures.push(
+        `Day ${day}: bonusoppdrag badge could not be awarded (${award.message})`,
+      );
+    }
+  }
+
+  const after = takeSnapshot();
+
+  return {
+    day,
+    code,
+    accepted: result.success,
+    symbols: added(before.symbols, after.symbols),
+    decryptions: added(before.decryptions, after.decryptions),
+    modules: added(before.modules, after.modules),
+    files: added(before.files, after.files),
+    topics: added(before.topics, after.topics),
+    badges: added(before.badges, after.badges),
+  };
+}
+
+/**
+ * Simulate a complete December for a season
+ *
+ * Storage, the active season and the mocked date are swapped out for the
+ * run and restored afterwards, so this is safe to call from tests.
+ */
+export async function simulatePlaythrough(
+  options: SimulationOptions = {},
+): Promise<PlaythroughReport> {
+  const previousSeason = getActiveSeasonId();
+  const season = setActiveSeason(options.seasonId ?? previousSeason);
+  // Mocked dates are December 1-24, so play on the default calendar
+  const previousSchedule = getActiveSchedule();
+  setActiveSchedule(null);
+  const kidCode = options.kidCode ?? "SIMULERING";
+  const difficulty = options.difficulty ?? DEFAULT_DIFFICULTY;
+
+  const previousAdapter = StorageManager.setAdapter(
+    new InMemoryStorageAdapter(),
+  );
+  const previousMockDay = process.env.NEXT_PUBLIC_MOCK_DAY;
+  const previousMockMonth = process.env.NEXT_PUBLIC_MOCK_MONTH;
+
+  const failures: string[] = [];
+  const warnings: string[] = [];
+  const days: SimulatedDay[] = [];
+
+  try {
+    const quests = getAllQuests(season).map((quest) =>
+      applyVariant(quest, difficulty),
+    );
+    process.env.NEXT_PUBLIC_MOCK_MONTH = "12";
+
+    for (let day = 1; day <= FINAL_DAY; day++) {
+      process.env.NEXT_PUBLIC_MOCK_DAY = String(day);
+
+      const quest = quests.find((q) => q.dag === day);
+      if (!quest) {
+        failures.push(`Day ${day}: no quest in season ${season}`);
+        continue;
+      }
+
+      days.push(await simulateDay(quest, kidCode, failures, warnings));
+    }
+
+    // Goals: everything the season offers must have been obtained
+    const allBadges = BadgeManager.getAllBadges();
+    const missingBadges = allBadges.filter(
+      (badge) => !BadgeManager.isBadgeEarned(badge.id),
+    );
+    missingBadges.forEach((badge) =>
+      failures.push(`Badge '${badge.id}' (${badge.navn}) was never earned`),
+    );
+
+    const moduleIds = collectModuleIds(quests);
+    const missingModules = moduleIds.filter(
+      (id) => !GameEngine.isModuleUnlocked(id),
+    );
+    missingModules.forEach((id) =>
+      failures.push(`Module '${id}' was never unlocked`),
+    );
+
+    const fileIds = collectGatedFileIds(
+      quests,
+      getStaticContent(season).filer as FilNode[],
+    );
+    const missingFiles = fileIds.filter(
+      (id) => !GameEngine.isFileUnlocked(id, FINAL_DAY),
+    );
+    missingFiles.forEach((id) =>
+      failures.push(`File '${id}' was never unlocked`),
+    );
+
+    return {
+      season,
+      difficulty,
+      days,
+      failures,
+      warnings,
+      totals: {
+        quests: {
+          completed: GameEngine.getCompletedQuestCount(),
+          total: quests.length,
+        },
+        badges: {
+          earned: allBadges.length - missingBadges.length,
+          total: allBadges.length,
+        },
+        modules: {
+          unlocked: moduleIds.length - missingModules.length,
+          total: moduleIds.length,
+        },
+        files: {
+          unlocked: fileIds.length - missingFiles.length,
+          total: fileIds.length,
+        },
+      },
+    };
+  } finally {
+    StorageManager.setAdapter(previousAdapter);
+    setActiveSeason(previousSeason);
+    setActiveSchedule(previousSchedule);
+    restoreEnv("NEXT_PUBLIC_MOCK_DAY", previousMockDay);
+    restoreEnv("NEXT_PUBLIC_MOCK_MONTH", previousMockMonth);
+  }
+}
+
+function restoreEnv(key: string, value: string | undefined): void {
+  if (value === undefined) {
+    delete process.env[key];
+  } else {
+    process.env[key] = value;
+  }
+}
+
+/**
+ * Format a playthrough report as a per-day unlock timeline (plain text)
+ */
+export function formatPlaythroughTimeline(report: PlaythroughReport): string {
+  const lines: string[] = [
+    `Playthrough simulation - season ${report.season} (${report.difficulty})`,
+    "",
+  ];
+
+  report.days.forEach((day) => {
+    const status = day.accepted ? "✅" : "❌";
+    lines.push(`Dag ${String(day.day).padStart(2, " ")} ${status} ${day.code}`);
+
+    const unlocks: Array<[string, string[]]> = [
+      ["symbols", day.symbols],
+      ["decryptions", day.decryptions],
+      ["modules", day.modules],
+      ["files", day.files],
+      ["topics", day.topics],
+      ["badges", day.badges],
+    ];
+    unlocks
+      .filter(([, ids]) => ids.length > 0)
+      .forEach(([label, ids]) =>
+        lines.push(`    ${label.padEnd(12)} ${ids.join(", ")}`),
+      );
+  });
+
+  const { totals } = report;
+  lines.push(
+    "",
+    `Quests:  ${totals.quests.completed}/${totals.quests.total}`,
+    `Badges:  ${totals.badges.earned}/${totals.badges.total}`,
+    `Modules: ${totals.modules.unlocked}/${totals.modules.total}`,
+    `Files:   ${totals.files.unlocked}/${totals.files.total}`,
+  );
+
+  if (report.warnings.length > 0) {
+    lines.push("", "Warnings:");
+    report.warnings.forEach((w) => lines.push(`  ⚠️ ${w}`));
+  }
+
+  if (report.failures.length > 0) {
+    lines.push("", "Failures:");
+    report.failures.forEach((f) => lines.push(`  ❌ ${f}`));
+  }
+
+  return lines.join("\n") + "\n";
+}
@@ -2,7 +2,8 @@
  * Storage Adapter Layer
  *
  * Provides pluggable storage backends for StorageManager.
- * Supports both localStorage (default) and Sanity (cross-device persistence).
+ * Supports both localStorage (default) and Sanity (cross-device persistence),
+ * plus an in-memory backend for headless runs (simulator, scripts).
  *
  * Usage in StorageManager:
  * ```typescript
@@ -12,34 +13,83 @@
  * ```
  */
 
+import {
+  getSyncOutbox,
+  resetSyncOutboxes,
+  type OutboxEntry,
+  type SendResult,
+  type SyncOutbox,
+} from "./sync-outbox";
+import { mergeSessionUpdates } from "./session-merge";
+import { getProfileSessionId, SHARED_PROFILE_ID } from "./child-profiles";
+import type { DayRollbackPlan } from "./game-engine";
+
 // Global tracking of all SanityStorageAdapter instances for cross-adapter sync coordination
 const allAdapterInstances = new Set<SanityStorageAdapter>();
 
+// A day rollback racing other devices' writes (409) is sent this many times
+const MAX_ROLLBACK_ATTEMPTS = 3;
+
+/**
+ * Options for StorageAdapter.set()
+ * - replace: overwrite the stored value instead of merging with other
+ *   devices' writes (restoring a save game). Only SanityStorageAdapter merges.
+ */
+export interface SetOptions {
+  replace?: boolean;
+}
+
+/**
+ * Whether an adapter's data can be read yet
+ * - hydrating: still loading; reads return defaults
+ * - ready: reads return the stored data
+ * - error: loading failed; reads show only this device's unsent writes
+ *   until hydrate() succeeds
+ */
+export type HydrationState = "hydrating" | "ready" | "error";
+
 /**
  * Storage Adapter Interface
  * All storage backends must implement these methods
- * Note: Interface is synchronous to maintain compatibility with existing StorageManager API
+ * Note: Reads and writes are synchronous to maintain compatibility with the
+ * existing StorageManager API. Backends that load asynchronously report it
+ * through getHydrationState() and hydrate(); callers wait for "ready" before
+ * trusting reads.
  */
 export interface StorageAdapter {
   get<T>(key: string, defaultValue: T): T;
-  set<T>(key: string, value: T): void;
+  set<T>(key: string, value: T, options?: SetOptions): void;
   remove(key: string): void;
   has(key: string): boolean;
   clear(): void;
+  getHydrationState(): HydrationState;
+  /**
+   * Wait until data is loaded; after an error, loads again
+   * @returns The state once loading has finished
+   */
+  hydrate(): Promise<HydrationState>;
 }
 
 /**
  * LocalStorage Adapter
  * Direct synchronous wrapper around browser localStorage
+ * A namespace (child profile id) keeps a profile's keys apart from the
+ * family's: "nissekomm-codes" is stored as "nissekomm-codes@emma"
  */
 export class LocalStorageAdapter implements StorageAdapter {
+  constructor(private namespace?: string) {}
+
+  private storageKey(key: string): string {
+    return this.namespace ? `${key}@${this.namespace}` : key;
+  }
+
   get<T>(key: string, defaultValue: T): T {
     if (typeof window === "undefined") {
       return defaultValue;
     }
 
     try {
-      const stored = localStorage.getItem(key);
+      const stored = localStorage.getItem(this.storageKey(key));
       if (stored === null) return defaultValue;
       return JSON.parse(stored) as T;
     } catch (error) {
@@ -56,7 +106,7 @@ export class LocalStorageAdapter implements StorageAdapter {
     }
 
     try {
-      localStorage.setItem(key, JSON.stringify(value));
+      localStorage.setItem(this.storageKey(key), JSON.stringify(value));
     } catch (error) {
       if (process.env.NODE_ENV === "development") {
         console.warn(`LocalStorageAdapter: Failed to write ${key}:`, error);
@@ -70,7 +120,7 @@ export class LocalStorageAdapter implements StorageAdapter {
     }
 
     try {
-      localStorage.removeItem(key);
+      localStorage.removeItem(this.storageKey(key));
     } catch (error) {
       if (process.env.NODE_ENV === "development") {
         console.warn(`LocalStorageAdapter: Failed to remove ${key}:`, error);
@@ -84,7 +134,7 @@ export class LocalStorageAdapter implements StorageAdapter {
     }
 
     try {
-      return localStorage.getItem(key) !== null;
+      return localStorage.getItem(this.storageKey(key)) !== null;
     } catch {
       return false;
     }
@@ -96,13 +146,69 @@ export class LocalStorageAdapter implements StorageAdapter {
     }
 
     try {
-      localStorage.clear();
+      if (this.namespace) {
+        // Only this profile's keys
+        const suffix = `@${this.namespace}`;
+        Object.keys(localStorage)
+          .filter((key) => key.endsWith(suffix))
+          .forEach((key) => localStorage.removeItem(key));
+      } else {
+        localStorage.clear();
+      }
     } catch (error) {
       if (process.env.NODE_ENV === "development") {
         console.warn("LocalStorageAdapter: Failed to clear:", error);
       }
     }
   }
+
+  // Synchronous: ready as soon as it exists
+  getHydrationState(): HydrationState {
+    return "ready";
+  }
+
+  async hydrate(): Promise<HydrationState> {
+    return "ready";
+  }
+}
+
+/**
+ * In-Memory Adapter
+ * Process-local storage for headless runs (playthrough simulator, scripts)
+ * Values are JSON round-tripped so they behave like persisted data
+ */
+export class InMemoryStorageAdapter implements StorageAdapter {
+  private store: Map<string, string> = new Map();
+
+  get<T>(key: string, defaultValue: T): T {
+    const stored = this.store.get(key);
+    if (stored === undefined) return defaultValue;
+    return JSON.parse(stored) as T;
+  }
+
+  set<T>(key: string, value: T): void {
+    this.store.set(key, JSON.stringify(value));
+  }
+
+  remove(key: string): void {
+    this.store.delete(key);
+  }
+
+  has(key: string): boolean {
+    return this.store.has(key);
+  }
+
+  clear(): void {
+    this.store.clear();
+  }
+
+  getHydrationState(): HydrationState {
+    return "ready";
+  }
+
+  async hydrate(): Promise<HydrationState> {
+    return "ready";
+  }
 }
 
 /**
@@ -110,18 +216,22 @@ export class LocalStorageAdapter implements StorageAdapter {
  * Stores data in Sanity CMS via API routes for cross-device persistence
  * Uses cache-first synchronous reads with background async sync to maintain
  * compatibility with existing StorageManager API
+ * Writes are queued in a durable outbox (see sync-outbox.ts) until the
+ * server has them
  */
 export class SanityStorageAdapter implements StorageAdapter {
   private cache: Map<string, unknown> = new Map();
-  private initialized = false;
+  private hydrationState: HydrationState = "hydrating";
   private initPromise: Promise<void>;
   private pendingSyncs: Promise<void>[] = []; // Track pending syncs for testing
   private sessionId: string = ""; // Store sessionId for sync requests
+  private outbox: SyncOutbox;
 
   constructor(sessionId: string) {
     // Register this instance globally for cross-adapter sync coordination
     allAdapterInstances.add(this);
     this.sessionId = sessionId;
+    this.outbox = getSyncOutbox(sessionId, (entry) => this.sendEntry(entry));
     console.debug(
       "[SanityAdapter] Creating new adapter for session:",
       sessionId.substring(0, 8) + "...",
@@ -134,9 +244,6 @@ export class SanityStorageAdapter implements StorageAdapter {
    * Initialize session and load all data
    */
   private async initialize(): Promise<void> {
-    if (this.initialized) {
-      return;
-    }
     try {
       // SessionId is already set in constructor
 
@@ -181,50 +288,131 @@ export class SanityStorageAdapter implements StorageAdapter {
         const fieldMap = this.getAllFieldMappings();
         Object.values(fieldMap).forEach((field) => {
           if (sessionData[field] !== undefined) {
-            // Convert Sanity array format to in-game Record format for certain fields
-            let value = sessionData[field];
-
-            // topicUnlocks: [{topic, day}] → {topic: day}
-            if (field === "topicUnlocks" && Array.isArray(value)) {
-              const record: Record<string, number> = {};
-              value.forEach((item: { topic: string; day: number }) => {
-                record[item.topic] = item.day;
-              });
-              value = record;
-            }
-
-            // decryptionAttempts: [{challengeId, attemptCount}] → {challengeId: attemptCount}
-            if (field === "decryptionAttempts" && Array.isArray(value)) {
-              const record: Record<string, number> = {};
-              value.forEach(
-                (item: { challengeId: string; attemptCount: number }) => {
-                  record[item.challengeId] = item.attemptCount;
-                },
-              );
-              value = record;
-            }
-
-            // failedAttempts: [{day, attemptCount}] → {day: attemptCount}
-            if (field === "failedAttempts" && Array.isArray(value)) {
-              const record: Record<number, number> = {};
-              value.forEach((item: { day: number; attemptCount: number }) => {
-                record[item.day] = item.attemptCount;
-              });
-              value = record;
-            }
-
-            this.cache.set(field, value);
+            this.cache.set(
+              field,
+              this.fromSanityValue(field, sessionData[field]),
+            );
           }
         });
       }
 
-      this.initialized = true;
+      // Merge in writes that never reached the server
+      this.applyPendingWrites(sessionData ?? {});
+
+      this.hydrationState = "ready";
     } catch (error) {
       if (process.env.NODE_ENV === "development") {
         console.error("[SanityAdapter] Initialization failed:", error);
       }
-      // Fall back to empty cache
-      this.initialized = true;
+      // Fall back to this device's unsent writes until hydrate() succeeds
+      this.cache.clear();
+      this.applyPendingWrites({});
+      this.hydrationState = "error";
+    }
+
+    // Send writes left over from an earlier visit
+    if (this.outbox.getEntries().length > 0) {
+      this.trackSync(this.outbox.flush());
+    }
+  }
+
+  /**
+   * Convert a Sanity field value to the in-game format
+   */
+  private fromSanityValue(field: string, value: unknown): unknown {
+    // topicUnlocks: [{topic, day}] → {topic: day}
+    if (field === "topicUnlocks" && Array.isArray(value)) {
+      const record: Record<string, number> = {};
+      value.forEach((item: { topic: string; day: number }) => {
+        record[item.topic] = item.day;
+      });
+      value = record;
+    }
+
+    // decryptionAttempts: [{challengeId, attemptCount}] → {challengeId: attemptCount}
+    if (field === "decryptionAttempts" && Array.isArray(value)) {
+      const record: Record<string, number> = {};
+      value.forEach((item: { challengeId: string; attemptCount: number }) => {
+        record[item.challengeId] = item.attemptCount;
+      });
+      value = record;
+    }
+
+    // failedAttempts: [{day, attemptCount}] → {day: attemptCount}
+    if (field === "failedAttempts" && Array.isArray(value)) {
+      const record: Record<number, number> = {};
+      value.forEach((item: { day: number; attemptCount: number }) => {
+        record[item.day] = item.attemptCount;
+      });
+      value = record;
+    }
+
+    // firstFailedAttempts: [{day, timestamp}] → {day: timestamp}
+    if (field === "firstFailedAttempts" && Array.isArray(value)) {
+      const record: Record<number, string> = {};
+      value.forEach((item: { day: number; timestamp: string }) => {
+        record[item.day] = item.timestamp;
+      });
+      value = record;
+    }
+
+    return value;
+  }
+
+  /**
+   * Apply queued outbox writes to the cache
+   * Merged with the server's copy by the same rules the server will use
+   * (see session-merge.ts), so the cache already shows the result
+   */
+  private applyPendingWrites(sessionData: Record<string, unknown>): void {
+    let session = sessionData;
+
+    this.outbox.getEntries().forEach((entry) => {
+      const merged = mergeSessionUpdates(
+        session,
+        this.prepareUpdatesForSanity(entry.updates),
+        entry.writtenAt,
+        entry.replace,
+      );
+      session = { ...session, ...merged };
+
+      Object.keys(entry.updates).forEach((field) => {
+        if (field in merged) this.setCachedField(field, merged[field]);
+      });
+    });
+  }
+
+  /**
+   * Take the server's merged copy of the fields a sent entry wrote
+   * Picks up what other devices added; fields with newer queued writes
+   * are left alone
+   */
+  private applyServerFields(
+    entry: OutboxEntry,
+    session: Record<string, unknown>,
+  ): void {
+    const queuedFields = new Set(
+      this.outbox
+        .getEntries()
+        .filter((queued) => queued.mutationId !== entry.mutationId)
+        .flatMap((queued) => Object.keys(queued.updates)),
+    );
+
+    Object.keys(entry.updates).forEach((field) => {
+      if (!queuedFields.has(field) && session[field] !== undefined) {
+        this.setCachedField(field, session[field]);
+      }
+    });
+  }
+
+  /**
+   * Set a cache field from a Sanity value (null = removed)
+   */
+  private setCachedField(field: string, value: unknown): void {
+    if (value === null) {
+      this.cache.delete(field);
+    } else {
+      this.cache.set(field, this.fromSanityValue(field, value));
     }
   }
 
@@ -257,6 +445,7 @@ export class SanityStorageAdapter implements StorageAdapter {
       "nissekomm-solved-decryptions": "solvedDecryptions",
       "nissekomm-decryption-attempts": "decryptionAttempts",
       "nissekomm-failed-attempts": "failedAttempts",
+      "nissekomm-first-failed-attempts": "firstFailedAttempts",
       "nissekomm-nissenet-last-visit": "nissenetLastVisit",
       "nissekomm-player-names": "playerNames",
       "nissekomm-friend-names": "friendNames",
@@ -266,19 +455,14 @@ export class SanityStorageAdapter implements StorageAdapter {
       "nissekomm-unlocked-modules": "unlockedModules",
       "nissekomm-crisis-completed": "crisisStatus",
       "nissekomm-santa-letters": "santaLetters",
+      "nissekomm-schema-version": "schemaVersion",
+      "nissekomm-event-log": "eventLog",
     };
   }
 
   get<T>(key: string, defaultValue: T): T {
-    // Wait for initialization if not complete (blocks briefly on first access)
-    if (!this.initialized) {
-      // Note: This is a synchronous fallback - in practice, initialization
-      // should complete before first access due to setAuthenticated() being async
-      if (process.env.NODE_ENV === "development") {
-        console.warn(
-          "SanityStorageAdapter: get() called before initialization complete",
-        );
-      }
+    // Nothing loaded yet - callers wait for hydrate() (see app-context.tsx)
+    if (this.hydrationState === "hydrating") {
       return defaultValue;
     }
 
@@ -292,14 +476,14 @@ export class SanityStorageAdapter implements StorageAdapter {
     return defaultValue;
   }
 
-  set<T>(key: string, value: T): void {
+  set<T>(key: string, value: T, options: SetOptions = {}): void {
     const field = this.keyToField(key);
 
     // Update cache immediately (synchronous)
     this.cache.set(field, value);
 
     // Sync to Sanity in background (fire-and-forget)
-    this.syncInBackground({ [field]: value });
+    this.syncInBackground({ [field]: value }, options.replace);
   }
 
   remove(key: string): void {
@@ -338,6 +522,7 @@ export class SanityStorageAdapter implements StorageAdapter {
       solvedDecryptions: [],
       decryptionAttempts: [], // Array format for Sanity
       failedAttempts: [], // Array format for Sanity
+      firstFailedAttempts: [], // Array format for Sanity
       crisisStatus: { antenna: false, inventory: false },
       santaLetters: [],
       brevfugler: [],
@@ -346,9 +531,10 @@ export class SanityStorageAdapter implements StorageAdapter {
       friendNames: [],
       niceListLastViewed: null,
       dagbokLastRead: 0,
+      eventLog: [],
     };
 
-    this.syncInBackground(defaultData);
+    this.syncInBackground(defaultData, true);
   }
 
   /**
@@ -359,6 +545,7 @@ export class SanityStorageAdapter implements StorageAdapter {
       case "topicUnlocks":
       case "decryptionAttempts":
       case "failedAttempts":
+      case "firstFailedAttempts":
         return {};
       default:
         return null;
@@ -444,6 +631,25 @@ export class SanityStorageAdapter implements StorageAdapter {
         );
         prepared[field] = array;
       }
+      // firstFailedAttempts: {day: timestamp} → [{_key, day, timestamp}]
+      else if (
+        field === "firstFailedAttempts" &&
+        typeof value === "object" &&
+        value !== null &&
+        !Array.isArray(value)
+      ) {
+        const array: { _key: string; day: number; timestamp: string }[] = [];
+        Object.entries(value as Record<number, string>).forEach(
+          ([day, timestamp]) => {
+            array.push({
+              _key: this.generateKey("first-failed", day),
+              day: Number(day),
+              timestamp,
+            });
+          },
+        );
+        prepared[field] = array;
+      }
       // Add _key to other array types if they don't have it
       else if (Array.isArray(value)) {
         prepared[field] = this.ensureKeysInArray(field, value);
@@ -510,6 +716,8 @@ export class SanityStorageAdapter implements StorageAdapter {
             "brevfugl",
             `${(item as { dag: number }).dag}-${(item as { tidspunkt: string }).tidspunkt}`,
           );
+        } else if (field === "eventLog" && "id" in item) {
+          key = this.generateKey("event", (item as { id: string }).id);
         } else {
           // Fallback: use field name + index
           key = this.generateKey(field, index);
@@ -523,28 +731,33 @@ export class SanityStorageAdapter implements StorageAdapter {
 
   /**
    * Sync data to Sanity in background (non-blocking)
+   * Queued in the outbox first, so the write survives offline and reloads
+   *
+   * @param replace - Overwrite instead of merging with other devices (clear)
    */
-  private syncInBackground(updates: Record<string, unknown>): void {
-    // Ensure initialization is complete first
-    const syncPromise = this.initPromise?.then(() => {
-      return this.syncWithRetry(updates, 1).catch((error) => {
-        if (process.env.NODE_ENV === "development") {
-          console.error("SanityStorageAdapter: Background sync failed:", error);
-        }
-      });
-    });
+  private syncInBackground(
+    updates: Record<string, unknown>,
+    replace = false,
+  ): void {
+    this.outbox.enqueue(updates, replace);
 
-    if (syncPromise) {
-      this.pendingSyncs.push(syncPromise as Promise<void>);
+    // Ensure initialization is complete first
+    this.trackSync(this.initPromise.then(() => this.outbox.flush()));
+  }
 
-      // Clean up completed syncs
-      syncPromise.finally(() => {
-        const index = this.pendingSyncs.indexOf(syncPromise as Promise<void>);
-        if (index > -1) {
-          this.pendingSyncs.splice(index, 1);
-        }
-      });
-    }
+  /**
+   * Track a sync so waitForPendingSyncs() can wait for it
+   */
+  private trackSync(syncPromise: Promise<void>): void {
+    this.pendingSyncs.push(syncPromise);
+
+    // Clean up completed syncs
+    syncPromise.finally(() => {
+      const index = this.pendingSyncs.indexOf(syncPromise);
+      if (index > -1) {
+        this.pendingSyncs.splice(index, 1);
+      }
+    });
   }
 
   /**
@@ -555,6 +768,108 @@ export class SanityStorageAdapter implements StorageAdapter {
     await this.initPromise;
   }
 
+  /**
+   * "ready" once the cache holds the server's session; storage migrations
+   * and the boot sequence wait for it
+   */
+  getHydrationState(): HydrationState {
+    return this.hydrationState;
+  }
+
+  /**
+   * Wait for the session to load; after a failed load (offline, server
+   * down), fetch it again
+   */
+  hydrate(): Promise<HydrationState> {
+    if (this.hydrationState === "error") {
+      this.hydrationState = "hydrating";
+      this.initPromise = this.initialize();
+    }
+    return this.initPromise.then(() => this.hydrationState);
+  }
+
+  /**
+   * Reload the session from the server
+   * Picks up what other devices wrote (live progress on the parent
+   * dashboard); fields with queued writes keep the local value
+   *
+   * @returns Whether the server's copy was loaded
+   */
+  async refresh(): Promise<boolean> {
+    await this.waitForInitialization();
+    try {
+      const response = await fetch(
+        `/api/session?sessionId=${encodeURIComponent(this.sessionId)}`,
+        { method: "GET", credentials: "include", cache: "no-store" },
+      );
+      if (!response.ok) {
+        throw new Error(`Failed to fetch session: ${response.status}`);
+      }
+      this.applySession((await response.json()) as Record<string, unknown>);
+      return true;
+    } catch (error) {
+      if (process.env.NODE_ENV === "development") {
+        console.error("[SanityAdapter] Refresh failed:", error);
+      }
+      return false;
+    }
+  }
+
+  /**
+   * Take a day back on the server (see day-rollback.ts)
+   * Queued writes are sent first; the server then removes the plan's items
+   * from the session as stored now, and the cache takes the result so later
+   * writes don't bring the items back. A write racing another device's is
+   * tried again.
+   *
+   * @throws Error if the server refuses or can't be reached
+   */
+  async rollbackDay(plan: DayRollbackPlan): Promise<void> {
+    await this.waitForInitialization();
+    await this.waitForPendingSyncs();
+
+    for (let attempt = 1; ; attempt++) {
+      const response = await fetch("/api/session/rollback", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ sessionId: this.sessionId, plan }),
+        credentials: "include",
+        cache: "no-store",
+      });
+
+      if (response.ok) {
+        const { session } = (await response.json()) as {
+          session: Record<string, unknown>;
+        };
+        this.applySession(session);
+        return;
+      }
+
+      const error = (await response.json().catch(() => ({}))) as {
+        error?: string;
+        retryable?: boolean;
+      };
+      if (!error.retryable || attempt >= MAX_ROLLBACK_ATTEMPTS) {
+        throw new Error(error.error || "Failed to roll back day");
+      }
+    }
+  }
+
+  /**
+   * Take every field of a session read from the server
+   * Fields with queued writes keep the local value
+   */
+  private applySession(sessionData: Record<string, unknown>): void {
+    const queuedFields = new Set(
+      this.outbox.getEntries().flatMap((entry) => Object.keys(entry.updates)),
+    );
+    Object.values(this.getAllFieldMappings()).forEach((field) => {
+      if (!queuedFields.has(field) && sessionData[field] !== undefined) {
+        this.setCachedField(field, sessionData[field]);
+      }
+    });
+  }
+
   /**
    * Wait for all pending syncs to complete (useful for testing)
    */
@@ -584,50 +899,61 @@ export class SanityStorageAdapter implements StorageAdapter {
    */
   static clearAllInstances(): void {
     allAdapterInstances.clear();
+    resetSyncOutboxes();
   }
 
   /**
-   * Sync data to Sanity with simple retry logic
+   * Send one outbox entry to Sanity
+   * The mutationId lets the server skip entries it already applied
    */
-  private async syncWithRetry(
-    updates: Record<string, unknown>,
-    retries = 1,
-  ): Promise<void> {
+  private async sendEntry(entry: OutboxEntry): Promise<SendResult> {
     try {
       // Prepare updates (serialize JSON string fields)
-      const preparedUpdates = this.prepareUpdatesForSanity(updates);
+      const preparedUpdates = this.prepareUpdatesForSanity(entry.updates);
 
       const response = await fetch("/api/session/sync", {
         method: "PATCH",
         headers: { "Content-Type": "application/json" },
         body: JSON.stringify({
           updates: preparedUpdates,
+          mutationId: entry.mutationId,
+          writtenAt: entry.writtenAt,
+          replace: entry.replace,
           sessionId: this.sessionId, // Include sessionId for environments without cookie support
         }),
         credentials: "include",
         cache: "no-store",
       });
 
-      if (!response.ok) {
-        const error = (await response.json()) as {
-          error?: string;
-          retryable?: boolean;
+      if (response.ok) {
+        const { session } = (await response.json().catch(() => ({}))) as {
+          session?: Record<string, unknown>;
         };
-
-        // Retry on retryable errors
-        if (error.retryable && retries > 0) {
-          await new Promise((resolve) => setTimeout(resolve, 1000)); // 1s delay
-          return this.syncWithRetry(updates, retries - 1);
+        if (session) {
+          this.applyServerFields(entry, session);
         }
+        return "sent";
+      }
+
+      const error = (await response.json().catch(() => ({}))) as {
+        error?: string;
+        retryable?: boolean;
+      };
 
-        throw new Error(error.error || "Sync failed");
+      // Conflicts, network trouble and server errors may pass; bad requests won't
+      if (error.retryable || response.status >= 500) {
+        return "retry";
       }
+
+      if (process.env.NODE_ENV === "development") {
+        console.error("SanityStorageAdapter: Sync rejected:", error.error);
+      }
+      return "rejected";
     } catch (error) {
-      if (retries > 0) {
-        await new Promise((resolve) => setTimeout(resolve, 1000));
-        return this.syncWithRetry(updates, retries - 1);
+      if (process.env.NODE_ENV === "development") {
+        console.error("SanityStorageAdapter: Background sync failed:", error);
       }
-      throw error;
+      return "retry";
     }
   }
 
@@ -695,25 +1021,36 @@ export class SanityStorageAdapter implements StorageAdapter {
 /**
  * Factory function to create the appropriate storage adapter
  * Based on NEXT_PUBLIC_STORAGE_BACKEND environment variable
+ * The "file" backend stores sessions on the server just like "sanity"
+ * (server-storage.ts), so both use the /api/session adapter.
  *
- * @param sessionId - UUID session identifier (required for Sanity backend)
+ * @param sessionId - UUID session identifier (required for server backends)
+ * @param profileId - Child profile whose game state to use (default: the
+ *   family's shared state, see child-profiles.ts)
  */
-export function createStorageAdapter(sessionId?: string): StorageAdapter {
+export function createStorageAdapter(
+  sessionId?: string,
+  profileId = SHARED_PROFILE_ID,
+): StorageAdapter {
   const backend = process.env.NEXT_PUBLIC_STORAGE_BACKEND || "localStorage";
+  const namespace = profileId === SHARED_PROFILE_ID ? undefined : profileId;
 
   switch (backend) {
     case "sanity":
+    case "file":
       if (!sessionId) {
         if (process.env.NODE_ENV === "development") {
           console.warn(
             "Sanity backend requires sessionId, falling back to localStorage",
           );
         }
-        return new LocalStorageAdapter();
+        return new LocalStorageAdapter(namespace);
       }
-      return new SanityStorageAdapter(sessionId);
+      return new SanityStorageAdapter(
+        getProfileSessionId(sessionId, profileId),
+      );
     case "localStorage":
     default:
-      return new LocalStorageAdapter();
+      return new LocalStorageAdapter(namespace);
   }
 }
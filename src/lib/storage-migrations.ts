@@ -0,0 +1,116 @@
+/**
+ * Storage Migrations - Upgrading stored game state when its layout changes
+ *
+ * Client-side counterpart to the Sanity content migrations in migrations/.
+ * Those change documents on the server once, by hand; these run on every
+ * device when StorageManager loads its adapter (localStorage or the cached
+ * Sanity session), so a field can be renamed or reshaped mid-December without
+ * kids losing progress.
+ *
+ * The store's layout version is kept under `nissekomm-schema-version`
+ * (`schemaVersion` on userSession). On load, each migration newer than that
+ * runs in order, and the version is stored after each one. A store without a
+ * version is at version 0: either fresh, or written before versioning.
+ *
+ * Adding a migration:
+ * 1. Append an entry with the next version number (never reorder or remove)
+ * 2. Read and write through the adapter with storage keys (nissekomm-*);
+ *    SanityStorageAdapter maps them to session fields
+ * 3. Tolerate missing data - migrations also run on fresh stores
+ * 4. Keep the old key in SanityStorageAdapter's field map until every
+ *    family has loaded the new version, so the old value can still be read
+ *
+ * ```typescript
+ * {
+ *   version: 2,
+ *   description: "Rename nissekomm-player-names to nissekomm-kid-names",
+ *   migrate(storage) {
+ *     if (!storage.has("nissekomm-player-names")) return;
+ *     storage.set("nissekomm-kid-names", storage.get("nissekomm-player-names", []));
+ *     storage.remove("nissekomm-player-names");
+ *   },
+ * },
+ * ```
+ */
+
+import type { StorageAdapter } from "./storage-adapter";
+
+export const SCHEMA_VERSION_KEY = "nissekomm-schema-version";
+
+/**
+ * One layout change
+ */
+export interface StorageMigration {
+  version: number; // Layout version after this migration
+  description: string;
+  migrate(storage: StorageAdapter): void;
+}
+
+/**
+ * All migrations, oldest first
+ */
+export const STORAGE_MIGRATIONS: StorageMigration[] = [
+  {
+    version: 1,
+    description:
+      "Baseline: the layout as of December 2025 (nothing to change, only marks the store as versioned)",
+    migrate() {},
+  },
+];
+
+/**
+ * Result of running migrations
+ */
+export interface StorageMigrationResult {
+  from: number;
+  to: number;
+  applied: number[]; // Versions of the migrations that ran
+}
+
+/**
+ * Bring a store up to date
+ *
+ * Stops at the first migration that throws; the store keeps the last
+ * version that completed, so the failed one is tried again on next load.
+ * A store newer than this app (written after a later deploy) is left alone.
+ *
+ * @param migrations - Migration list (defaults to STORAGE_MIGRATIONS)
+ */
+export function runStorageMigrations(
+  storage: StorageAdapter,
+  migrations: StorageMigration[] = STORAGE_MIGRATIONS,
+): StorageMigrationResult {
+  const from = storage.get<number>(SCHEMA_VERSION_KEY, 0);
+  const applied: number[] = [];
+
+  const latest = migrations[migrations.length - 1]?.version ?? 0;
+  if (from > latest) {
+    console.warn(
+      `[StorageMigrations] Stored schema version ${from} is newer than this app (${latest}), skipping migrations`,
+    );
+    return { from, to: from, applied };
+  }
+
+  for (const migration of migrations) {
+    if (migration.version <= from) continue;
+
+    try {
+      migration.migrate(storage);
+    } catch (error) {
+      console.error(
+        `[StorageMigrations] Migration ${migration.version} (${migration.description}) failed:`,
+        error,
+      );
+      break;
+    }
+
+    storage.set(SCHEMA_VERSION_KEY, migration.version);
+    applied.push(migration.version);
+  }
+
+  return {
+    from,
+    to: applied.length > 0 ? applied[applied.length - 1] : from,
+    applied,
+  };
+}
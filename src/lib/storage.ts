@@ -14,9 +14,20 @@
 
 import { InnsendelseLog, DecryptionSymbol } from "@/types/innhold";
 import { getISOString } from "./date-utils";
+import {
+  createGameEvent,
+  sortGameEvents,
+  type GameEvent,
+  type GameEventInput,
+} from "./game-events";
+import type { SaveGameState } from "./save-game";
+import { runStorageMigrations } from "./storage-migrations";
 import {
   createStorageAdapter,
+  type HydrationState,
+  type SetOptions,
   type StorageAdapter,
+  InMemoryStorageAdapter,
   SanityStorageAdapter,
 } from "./storage-adapter";
 
@@ -38,13 +49,42 @@ const KEYS = {
   SOLVED_DECRYPTIONS: "nissekomm-solved-decryptions",
   DECRYPTION_ATTEMPTS: "nissekomm-decryption-attempts",
   FAILED_ATTEMPTS: "nissekomm-failed-attempts",
+  FIRST_FAILED_ATTEMPTS: "nissekomm-first-failed-attempts",
   NISSENET_LAST_VISIT: "nissekomm-nissenet-last-visit",
   PLAYER_NAMES: "nissekomm-player-names",
   NICE_LIST_LAST_VIEWED: "nissekomm-nice-list-viewed",
   DAGBOK_LAST_READ: "nissekomm-dagbok-last-read",
   BREVFUGLER: "nissekomm-brevfugler",
+  EVENT_LOG: "nissekomm-event-log",
 } as const;
 
+// Storage key of each save game field (see save-game.ts)
+const SAVE_GAME_KEYS: Record<keyof SaveGameState, string> = {
+  submittedCodes: KEYS.SUBMITTED_CODES,
+  viewedEmails: KEYS.VIEWED_EMAILS,
+  viewedBonusOppdragEmails: KEYS.VIEWED_BONUSOPPDRAG_EMAILS,
+  soundsEnabled: KEYS.SOUNDS_ENABLED,
+  musicEnabled: KEYS.MUSIC_ENABLED,
+  bonusOppdragBadges: KEYS.BONUSOPPDRAG_BADGES,
+  eventyrBadges: KEYS.EVENTYR_BADGES,
+  earnedBadges: KEYS.EARNED_BADGES,
+  topicUnlocks: KEYS.TOPIC_UNLOCKS,
+  unlockedFiles: KEYS.UNLOCKED_FILES,
+  unlockedModules: "nissekomm-unlocked-modules",
+  collectedSymbols: KEYS.COLLECTED_SYMBOLS,
+  solvedDecryptions: KEYS.SOLVED_DECRYPTIONS,
+  decryptionAttempts: KEYS.DECRYPTION_ATTEMPTS,
+  failedAttempts: KEYS.FAILED_ATTEMPTS,
+  firstFailedAttempts: KEYS.FIRST_FAILED_ATTEMPTS,
+  nissenetLastVisit: KEYS.NISSENET_LAST_VISIT,
+  playerNames: KEYS.PLAYER_NAMES,
+  niceListLastViewed: KEYS.NICE_LIST_LAST_VIEWED,
+  dagbokLastRead: KEYS.DAGBOK_LAST_READ,
+  brevfugler: KEYS.BREVFUGLER,
+  crisisStatus: "nissekomm-crisis-completed",
+  santaLetters: "nissekomm-santa-letters",
+};
+
 // Type-safe storage interface
 interface StorageData {
   authenticated: boolean;
@@ -68,7 +108,9 @@ interface Brevfugl {
  * Handles all persistence operations with type safety
  */
 export class StorageManager {
-  private static adapter: StorageAdapter = createStorageAdapter();
+  private static adapter: StorageAdapter = StorageManager.migrate(
+    createStorageAdapter(),
+  );
 
   // ============================================================
   // Generic Helper Methods (now using adapter)
@@ -77,8 +119,8 @@ export class StorageManager {
   /**
    * Generic set item using storage adapter
    */
-  private static setItem<T>(key: string, value: T): void {
-    this.adapter.set(key, value);
+  private static setItem<T>(key: string, value: T, options?: SetOptions): void {
+    this.adapter.set(key, value, options);
   }
 
   /**
@@ -102,6 +144,46 @@ export class StorageManager {
     return this.adapter.has(key);
   }
 
+  /**
+   * Bring a newly loaded adapter's data up to the current layout
+   * (see storage-migrations.ts). Skipped where nothing is stored (server
+   * render) and for a session that isn't hydrated, so an empty cache is
+   * never marked as migrated.
+   */
+  private static migrate(adapter: StorageAdapter): StorageAdapter {
+    const hasData =
+      adapter.getHydrationState() === "ready" &&
+      (typeof window !== "undefined" ||
+        adapter instanceof InMemoryStorageAdapter);
+
+    if (hasData) {
+      runStorageMigrations(adapter);
+    }
+    return adapter;
+  }
+
+  /**
+   * Check if persistent state can be read/written in this environment
+   * True in the browser, or anywhere once an in-memory adapter is installed
+   */
+  static isStorageAvailable(): boolean {
+    return (
+      typeof window !== "undefined" ||
+      this.adapter instanceof InMemoryStorageAdapter
+    );
+  }
+
+  /**
+   * Replace the active storage adapter (headless simulation)
+   *
+   * @returns The previous adapter, so callers can restore it afterwards
+   */
+  static setAdapter(adapter: StorageAdapter): StorageAdapter {
+    const previous = this.adapter;
+    this.adapter = this.migrate(adapter);
+    return previous;
+  }
+
   // ============================================================
   // Authentication
   // ============================================================
@@ -129,25 +211,21 @@ export class StorageManager {
 
       // CRITICAL: Wait for all pending syncs from ALL previous adapters before switching
       // This ensures multi-tenant data doesn't get lost during adapter switches
-      if (backend === "sanity") {
+      if (backend !== "localStorage") {
         console.debug("[StorageManager] Waiting for pending syncs...");
         await SanityStorageAdapter.waitForAllPendingSyncs();
       }
 
-      // Clear localStorage to ensure clean switch between tenants (Sanity mode only)
-      if (backend === "sanity" && typeof window !== "undefined") {
+      // Clear localStorage to ensure clean switch between tenants (server backends only)
+      if (backend !== "localStorage" && typeof window !== "undefined") {
         localStorage.clear();
       }
 
       console.debug("[StorageManager] Creating new storage adapter...");
       this.adapter = createStorageAdapter(sessionId);
 
-      // Wait for Sanity adapter initialization to complete
-      if (this.adapter instanceof SanityStorageAdapter) {
-        console.debug("[StorageManager] Waiting for adapter initialization...");
-        await this.adapter.waitForInitialization();
-        console.debug("[StorageManager] Adapter initialization complete");
-      }
+      // Wait for the session to load (a failed load is left for the UI to retry)
+      await this.hydrate();
     }
 
     this.setItem(KEYS.AUTHENTICATED, value);
@@ -157,6 +235,70 @@ export class StorageManager {
     this.removeItem(KEYS.AUTHENTICATED);
   }
 
+  // ============================================================
+  // Child Profiles
+  // ============================================================
+
+  /**
+   * Switch to a child profile's game state (see child-profiles.ts)
+   * Called after "HVEM SPILLER?"; SHARED_PROFILE_ID switches back to the
+   * family's shared state. The family session stays logged in.
+   */
+  static async selectProfile(
+    sessionId: string,
+    profileId: string,
+  ): Promise<void> {
+    const backend = process.env.NEXT_PUBLIC_STORAGE_BACKEND || "localStorage";
+
+    // Writes for the previous profile must reach its own session first
+    if (backend !== "localStorage") {
+      await SanityStorageAdapter.waitForAllPendingSyncs();
+    }
+
+    const { setActiveProfileId } = await import("./session-manager");
+    setActiveProfileId(profileId);
+
+    this.adapter = createStorageAdapter(sessionId, profileId);
+    await this.hydrate();
+    this.setItem(KEYS.AUTHENTICATED, true);
+  }
+
+  // ============================================================
+  // Hydration
+  // ============================================================
+
+  /**
+   * Load state of the active adapter (see HydrationState)
+   */
+  static getHydrationState(): HydrationState {
+    return this.adapter.getHydrationState();
+  }
+
+  /**
+   * Wait for the active adapter to load, retrying a failed load
+   * Runs storage migrations once the data is there
+   */
+  static async hydrate(): Promise<HydrationState> {
+    const adapter = this.adapter;
+    const state = await adapter.hydrate();
+    this.migrate(adapter);
+    return state;
+  }
+
+  /**
+   * Reload game state from the server (server backends only)
+   * Used when another device reported progress (see live-progress.ts)
+   *
+   * @returns false if the server couldn't be reached (always true with
+   *   localStorage, which has nothing to reload)
+   */
+  static async refreshFromServer(): Promise<boolean> {
+    if (this.adapter instanceof SanityStorageAdapter) {
+      return this.adapter.refresh();
+    }
+    return true;
+  }
+
   /**
    * Wait for all pending background syncs to complete (for testing)
    * Waits for syncs across ALL adapter instances, not just current one
@@ -172,12 +314,12 @@ export class StorageManager {
   // ============================================================
 
   static getSubmittedCodes(): InnsendelseLog[] {
-    if (typeof window === "undefined") return [];
+    if (!this.isStorageAvailable()) return [];
     return this.getItem<InnsendelseLog[]>(KEYS.SUBMITTED_CODES, []);
   }
 
   static addSubmittedCode(code: InnsendelseLog): void {
-    if (typeof window === "undefined") return;
+    if (!this.isStorageAvailable()) return;
     const codes = this.getSubmittedCodes();
 
     // Avoid duplicates
@@ -191,10 +333,26 @@ export class StorageManager {
     return this.getSubmittedCodes().some((c) => c.kode === kode);
   }
 
+  /**
+   * Remove the code stored for a day (parent rollback)
+   * Legacy entries without a day are matched on the quest's code.
+   * Removals are written as replacements, so the Sanity backend doesn't
+   * merge the item back in from the server's copy (see session-merge.ts)
+   */
+  static removeSubmittedCode(day: number, kode?: string): void {
+    if (!this.isStorageAvailable()) return;
+    const codes = this.getSubmittedCodes().filter((c) =>
+      c.day === undefined
+        ? c.kode.toUpperCase() !== kode?.toUpperCase()
+        : c.day !== day,
+    );
+    this.setItem(KEYS.SUBMITTED_CODES, codes, { replace: true });
+  }
+
   static getCompletedDaysForMissions(
     missions: Array<{ dag: number; kode: string }>,
   ): Set<number> {
-    if (typeof window === "undefined") return new Set();
+    if (!this.isStorageAvailable()) return new Set();
 
     const submittedCodes = this.getSubmittedCodes().map((c) =>
       c.kode.toUpperCase(),
@@ -212,7 +370,7 @@ export class StorageManager {
   }
 
   static clearSubmittedCodes(): void {
-    if (typeof window === "undefined") return;
+    if (!this.isStorageAvailable()) return;
     this.removeItem(KEYS.SUBMITTED_CODES);
   }
 
@@ -221,13 +379,13 @@ export class StorageManager {
   // ============================================================
 
   static getViewedEmails(): Set<number> {
-    if (typeof window === "undefined") return new Set();
+    if (!this.isStorageAvailable()) return new Set();
     const array = this.getItem<number[]>(KEYS.VIEWED_EMAILS, []);
     return new Set(array);
   }
 
   static markEmailAsViewed(day: number): void {
-    if (typeof window === "undefined") return;
+    if (!this.isStorageAvailable()) return;
     const viewed = this.getViewedEmails();
     viewed.add(day);
     this.setItem(KEYS.VIEWED_EMAILS, [...viewed]);
@@ -275,7 +433,7 @@ export class StorageManager {
   }
 
   static clearViewedEmails(): void {
-    if (typeof window === "undefined") return;
+    if (!this.isStorageAvailable()) return;
     this.removeItem(KEYS.VIEWED_EMAILS);
   }
 
@@ -284,20 +442,20 @@ export class StorageManager {
   // ============================================================
 
   static getViewedBonusOppdragEmails(): Set<number> {
-    if (typeof window === "undefined") return new Set();
+    if (!this.isStorageAvailable()) return new Set();
     const arr = this.getItem<number[]>(KEYS.VIEWED_BONUSOPPDRAG_EMAILS, []);
     return new Set(arr);
   }
 
   static markBonusOppdragEmailAsViewed(day: number): void {
-    if (typeof window === "undefined") return;
+    if (!this.isStorageAvailable()) return;
     const viewed = this.getViewedBonusOppdragEmails();
     viewed.add(day);
     this.setItem(KEYS.VIEWED_BONUSOPPDRAG_EMAILS, [...viewed]);
   }
 
   static clearViewedBonusOppdragEmails(): void {
-    if (typeof window === "undefined") return;
+    if (!this.isStorageAvailable()) return;
     this.removeItem(KEYS.VIEWED_BONUSOPPDRAG_EMAILS);
   }
 
@@ -306,22 +464,22 @@ export class StorageManager {
   // ============================================================
 
   static isSoundsEnabled(): boolean {
-    if (typeof window === "undefined") return true;
+    if (!this.isStorageAvailable()) return true;
     return this.getItem<boolean>(KEYS.SOUNDS_ENABLED, true);
   }
 
   static setSoundsEnabled(value: boolean): void {
-    if (typeof window === "undefined") return;
+    if (!this.isStorageAvailable()) return;
     this.setItem(KEYS.SOUNDS_ENABLED, value);
   }
 
   static isMusicEnabled(): boolean {
-    if (typeof window === "undefined") return false;
+    if (!this.isStorageAvailable()) return false;
     return this.getItem<boolean>(KEYS.MUSIC_ENABLED, false);
   }
 
   static setMusicEnabled(value: boolean): void {
-    if (typeof window === "undefined") return;
+    if (!this.isStorageAvailable()) return;
     this.setItem(KEYS.MUSIC_ENABLED, value);
   }
 
@@ -346,7 +504,7 @@ export class StorageManager {
    * Clear all application data
    */
   static clearAll(): void {
-    if (typeof window === "undefined") return;
+    if (!this.isStorageAvailable()) return;
 
     // Clear all data through adapter
     this.adapter.clear();
@@ -357,12 +515,12 @@ export class StorageManager {
   // ============================================================
 
   static getUnlockedModules(): string[] {
-    if (typeof window === "undefined") return [];
+    if (!this.isStorageAvailable()) return [];
     return this.getItem<string[]>("nissekomm-unlocked-modules", []);
   }
 
   static unlockModule(moduleId: string): void {
-    if (typeof window === "undefined") return;
+    if (!this.isStorageAvailable()) return;
     const modules = this.getUnlockedModules();
     if (!modules.includes(moduleId)) {
       modules.push(moduleId);
@@ -374,13 +532,18 @@ export class StorageManager {
     return this.getUnlockedModules().includes(moduleId);
   }
 
+  static lockModule(moduleId: string): void {
+    if (!this.isStorageAvailable()) return;
+    const modules = this.getUnlockedModules().filter((m) => m !== moduleId);
+    this.setItem("nissekomm-unlocked-modules", modules, { replace: true });
+  }
+
   // ============================================================
   // Crisis Management
   // ============================================================
 
   static getCrisisStatus(): { antenna: boolean; inventory: boolean } {
-    if (typeof window === "undefined")
-      return { antenna: false, inventory: false };
+    if (!this.isStorageAvailable()) return { antenna: false, inventory: false };
     const status = this.getItem<{ antenna: boolean; inventory: boolean }>(
       "nissekomm-crisis-completed",
       { antenna: false, inventory: false },
@@ -393,7 +556,7 @@ export class StorageManager {
   }
 
   static resolveCrisis(crisisType: "antenna" | "inventory"): void {
-    if (typeof window === "undefined") return;
+    if (!this.isStorageAvailable()) return;
     const status = this.getCrisisStatus();
     status[crisisType] = true;
     this.setItem("nissekomm-crisis-completed", status);
@@ -403,12 +566,19 @@ export class StorageManager {
     return this.getCrisisStatus()[crisisType];
   }
 
+  static reopenCrisis(crisisType: "antenna" | "inventory"): void {
+    if (!this.isStorageAvailable()) return;
+    const status = this.getCrisisStatus();
+    status[crisisType] = false;
+    this.setItem("nissekomm-crisis-completed", status, { replace: true });
+  }
+
   // ============================================================
   // Santa Letters (BREVFUGLER Module)
   // ============================================================
 
   static getSantaLetters(): Array<{ day: number; content: string }> {
-    if (typeof window === "undefined") return [];
+    if (!this.isStorageAvailable()) return [];
     return this.getItem<Array<{ day: number; content: string }>>(
       "nissekomm-santa-letters",
       [],
@@ -418,12 +588,12 @@ export class StorageManager {
   static saveSantaLetters(
     letters: Array<{ day: number; content: string }>,
   ): void {
-    if (typeof window === "undefined") return;
+    if (!this.isStorageAvailable()) return;
     this.setItem("nissekomm-santa-letters", letters);
   }
 
   static addSantaLetter(day: number, content: string): void {
-    if (typeof window === "undefined") return;
+    if (!this.isStorageAvailable()) return;
 
     // Validate input
     if (day < 1 || day > 24) {
@@ -453,7 +623,7 @@ export class StorageManager {
     icon: string;
     navn: string;
   }> {
-    if (typeof window === "undefined") return [];
+    if (!this.isStorageAvailable()) return [];
     return this.getItem<Array<{ day: number; icon: string; navn: string }>>(
       KEYS.BONUSOPPDRAG_BADGES,
       [],
@@ -461,7 +631,7 @@ export class StorageManager {
   }
 
   static addBonusOppdragBadge(day: number, icon: string, navn: string): void {
-    if (typeof window === "undefined") return;
+    if (!this.isStorageAvailable()) return;
     const badges = this.getBonusOppdragBadges();
 
     // Avoid duplicates
@@ -480,6 +650,12 @@ export class StorageManager {
     return result;
   }
 
+  static removeBonusOppdragBadge(day: number): void {
+    if (!this.isStorageAvailable()) return;
+    const badges = this.getBonusOppdragBadges().filter((b) => b.day !== day);
+    this.setItem(KEYS.BONUSOPPDRAG_BADGES, badges, { replace: true });
+  }
+
   // ============================================================
   // Eventyr Badges (Story Arc Completion)
   // ============================================================
@@ -489,14 +665,14 @@ export class StorageManager {
     icon: string;
     navn: string;
   }> {
-    if (typeof window === "undefined") return [];
+    if (!this.isStorageAvailable()) return [];
     return this.getItem<
       Array<{ eventyrId: string; icon: string; navn: string }>
     >(KEYS.EVENTYR_BADGES, []);
   }
 
   static addEventyrBadge(eventyrId: string, icon: string, navn: string): void {
-    if (typeof window === "undefined") return;
+    if (!this.isStorageAvailable()) return;
     const badges = this.getEventyrBadges();
 
     // Avoid duplicates
@@ -511,12 +687,20 @@ export class StorageManager {
     return badges.some((b) => b.eventyrId === eventyrId);
   }
 
+  static removeEventyrBadge(eventyrId: string): void {
+    if (!this.isStorageAvailable()) return;
+    const badges = this.getEventyrBadges().filter(
+      (b) => b.eventyrId !== eventyrId,
+    );
+    this.setItem(KEYS.EVENTYR_BADGES, badges, { replace: true });
+  }
+
   // ============================================================
   // Unified Badge System (NEW - replaces separate badge storage)
   // ============================================================
 
   static getEarnedBadges(): Array<{ badgeId: string; timestamp: number }> {
-    if (typeof window === "undefined") return [];
+    if (!this.isStorageAvailable()) return [];
     return this.getItem<Array<{ badgeId: string; timestamp: number }>>(
       KEYS.EARNED_BADGES,
       [],
@@ -524,7 +708,7 @@ export class StorageManager {
   }
 
   static addEarnedBadge(badgeId: string): void {
-    if (typeof window === "undefined") return;
+    if (!this.isStorageAvailable()) return;
     const badges = this.getEarnedBadges();
 
     // Avoid duplicates
@@ -539,13 +723,13 @@ export class StorageManager {
   }
 
   static removeEarnedBadge(badgeId: string): void {
-    if (typeof window === "undefined") return;
+    if (!this.isStorageAvailable()) return;
     const badges = this.getEarnedBadges().filter((b) => b.badgeId !== badgeId);
-    this.setItem(KEYS.EARNED_BADGES, badges);
+    this.setItem(KEYS.EARNED_BADGES, badges, { replace: true });
   }
 
   static clearEarnedBadges(): void {
-    if (typeof window === "undefined") return;
+    if (!this.isStorageAvailable()) return;
     this.removeItem(KEYS.EARNED_BADGES);
   }
 
@@ -554,13 +738,13 @@ export class StorageManager {
   // ============================================================
 
   static getUnlockedTopics(): Map<string, number> {
-    if (typeof window === "undefined") return new Map();
+    if (!this.isStorageAvailable()) return new Map();
     const obj = this.getItem<Record<string, number>>(KEYS.TOPIC_UNLOCKS, {});
     return new Map(Object.entries(obj).map(([k, v]) => [k, v as number]));
   }
 
   static unlockTopic(topic: string, day: number): void {
-    if (typeof window === "undefined") return;
+    if (!this.isStorageAvailable()) return;
     const topics = this.getUnlockedTopics();
     topics.set(topic, day);
     const obj = Object.fromEntries(topics);
@@ -575,6 +759,15 @@ export class StorageManager {
     return this.getUnlockedTopics().get(topic) || null;
   }
 
+  static lockTopic(topic: string): void {
+    if (!this.isStorageAvailable()) return;
+    const topics = this.getUnlockedTopics();
+    topics.delete(topic);
+    this.setItem(KEYS.TOPIC_UNLOCKS, Object.fromEntries(topics), {
+      replace: true,
+    });
+  }
+
   // ============================================================
   // NEW: Symbol Collection System
   // ============================================================
@@ -596,6 +789,14 @@ export class StorageManager {
     return this.getCollectedSymbols().some((s) => s.symbolId === symbolId);
   }
 
+  static removeCollectedSymbol(symbolId: string): void {
+    if (!this.isStorageAvailable()) return;
+    const symbols = this.getCollectedSymbols().filter(
+      (s) => s.symbolId !== symbolId,
+    );
+    this.setItem(KEYS.COLLECTED_SYMBOLS, symbols, { replace: true });
+  }
+
   static clearCollectedSymbols(): void {
     this.removeItem(KEYS.COLLECTED_SYMBOLS);
   }
@@ -620,6 +821,24 @@ export class StorageManager {
     return this.getSolvedDecryptions().includes(challengeId);
   }
 
+  /**
+   * Make a challenge unsolved again, with no attempts
+   */
+  static resetDecryption(challengeId: string): void {
+    if (!this.isStorageAvailable()) return;
+    const solved = this.getSolvedDecryptions().filter(
+      (id) => id !== challengeId,
+    );
+    this.setItem(KEYS.SOLVED_DECRYPTIONS, solved, { replace: true });
+
+    const attempts = this.getItem<Record<string, number>>(
+      KEYS.DECRYPTION_ATTEMPTS,
+      {},
+    );
+    delete attempts[challengeId];
+    this.setItem(KEYS.DECRYPTION_ATTEMPTS, attempts, { replace: true });
+  }
+
   static getDecryptionAttempts(challengeId: string): number {
     const attempts = this.getItem<Record<string, number>>(
       KEYS.DECRYPTION_ATTEMPTS,
@@ -662,6 +881,12 @@ export class StorageManager {
     return this.getUnlockedFiles().includes(fileId);
   }
 
+  static removeUnlockedFile(fileId: string): void {
+    if (!this.isStorageAvailable()) return;
+    const files = this.getUnlockedFiles().filter((f) => f !== fileId);
+    this.setItem(KEYS.UNLOCKED_FILES, files, { replace: true });
+  }
+
   static clearUnlockedFiles(): void {
     this.removeItem(KEYS.UNLOCKED_FILES);
   }
@@ -685,6 +910,28 @@ export class StorageManager {
     );
     attempts[day] = (attempts[day] || 0) + 1;
     this.setItem(KEYS.FAILED_ATTEMPTS, attempts);
+
+    // Remember when the struggle started (time-based hints count from here)
+    const firstFailed = this.getItem<Record<number, string>>(
+      KEYS.FIRST_FAILED_ATTEMPTS,
+      {},
+    );
+    if (!firstFailed[day]) {
+      firstFailed[day] = getISOString();
+      this.setItem(KEYS.FIRST_FAILED_ATTEMPTS, firstFailed);
+    }
+  }
+
+  /**
+   * Get when the first failed code for a day was submitted (ISO timestamp)
+   * Null if the day has no failed attempts
+   */
+  static getFirstFailedAttemptTime(day: number): string | null {
+    const firstFailed = this.getItem<Record<number, string>>(
+      KEYS.FIRST_FAILED_ATTEMPTS,
+      {},
+    );
+    return firstFailed[day] || null;
   }
 
   static resetFailedAttempts(day: number): void {
@@ -693,11 +940,22 @@ export class StorageManager {
       {},
     );
     delete attempts[day];
-    this.setItem(KEYS.FAILED_ATTEMPTS, attempts);
+    // Replace, or the server's merge would keep the old count (max)
+    this.setItem(KEYS.FAILED_ATTEMPTS, attempts, { replace: true });
+
+    const firstFailed = this.getItem<Record<number, string>>(
+      KEYS.FIRST_FAILED_ATTEMPTS,
+      {},
+    );
+    if (firstFailed[day]) {
+      delete firstFailed[day];
+      this.setItem(KEYS.FIRST_FAILED_ATTEMPTS, firstFailed, { replace: true });
+    }
   }
 
   static clearAllFailedAttempts(): void {
     this.removeItem(KEYS.FAILED_ATTEMPTS);
+    this.removeItem(KEYS.FIRST_FAILED_ATTEMPTS);
   }
 
   // ============================================================
@@ -772,33 +1030,65 @@ export class StorageManager {
   }
 
   /**
-   * Export data as JSON string (for backup or migration)
+   * Get all game progress (for save game export)
    */
-  static exportData(): string {
-    return JSON.stringify(this.getAllData(), null, 2);
+  static getSaveGameState(): SaveGameState {
+    return {
+      submittedCodes: this.getSubmittedCodes(),
+      viewedEmails: [...this.getViewedEmails()],
+      viewedBonusOppdragEmails: [...this.getViewedBonusOppdragEmails()],
+      soundsEnabled: this.isSoundsEnabled(),
+      musicEnabled: this.isMusicEnabled(),
+      bonusOppdragBadges: this.getBonusOppdragBadges(),
+      eventyrBadges: this.getEventyrBadges(),
+      earnedBadges: this.getEarnedBadges(),
+      topicUnlocks: this.getItem<Record<string, number>>(
+        KEYS.TOPIC_UNLOCKS,
+        {},
+      ),
+      unlockedFiles: this.getUnlockedFiles(),
+      unlockedModules: this.getUnlockedModules(),
+      collectedSymbols: this.getCollectedSymbols(),
+      solvedDecryptions: this.getSolvedDecryptions(),
+      decryptionAttempts: this.getItem<Record<string, number>>(
+        KEYS.DECRYPTION_ATTEMPTS,
+        {},
+      ),
+      failedAttempts: this.getItem<Record<number, number>>(
+        KEYS.FAILED_ATTEMPTS,
+        {},
+      ),
+      firstFailedAttempts: this.getItem<Record<number, string>>(
+        KEYS.FIRST_FAILED_ATTEMPTS,
+        {},
+      ),
+      nissenetLastVisit: this.getNisseNetLastVisit(),
+      playerNames: this.getPlayerNames(),
+      niceListLastViewed: this.getItem<string | null>(
+        KEYS.NICE_LIST_LAST_VIEWED,
+        null,
+      ),
+      dagbokLastRead: this.getDagbokLastRead(),
+      brevfugler: this.hentAlleBrevfugler(),
+      crisisStatus: this.getCrisisStatus(),
+      santaLetters: this.getSantaLetters(),
+    };
   }
 
   /**
-   * Import data from JSON string (for restore or migration)
-   * Note: Does not import authentication state (requires password for multi-tenancy)
+   * Replace all game progress with a validated save game
+   * Fields are written as replacements, so the Sanity backend overwrites
+   * them instead of merging with what the server has.
+   * Note: Does not touch authentication (requires password for multi-tenancy)
    */
-  static async importData(jsonData: string): Promise<boolean> {
-    try {
-      const data: StorageData = JSON.parse(jsonData);
-
-      // Skip authentication import - requires password for session setup
-      // this.setAuthenticated(data.authenticated);
-
-      this.setItem(KEYS.SUBMITTED_CODES, data.submittedCodes);
-      this.setItem(KEYS.VIEWED_EMAILS, data.viewedEmails);
-      this.setSoundsEnabled(data.soundsEnabled);
-      this.setMusicEnabled(data.musicEnabled);
+  static restoreSaveGameState(state: SaveGameState): void {
+    if (!this.isStorageAvailable()) return;
 
-      return true;
-    } catch (e) {
-      console.error("Failed to import data:", e);
-      return false;
-    }
+    (Object.keys(SAVE_GAME_KEYS) as (keyof SaveGameState)[]).forEach(
+      (field) => {
+        this.setItem(SAVE_GAME_KEYS[field], state[field], { replace: true });
+      },
+    );
   }
 
   // ============================================================
@@ -831,7 +1121,7 @@ export class StorageManager {
    * Get completed quest days as a Set
    */
   static getCompletedQuestDays(): Set<number> {
-    if (typeof window === "undefined") return new Set();
+    if (!this.isStorageAvailable()) return new Set();
 
     // Note: This is a simplified version for compatibility
     // In production, prefer using GameEngine.loadGameState().completedQuests
@@ -887,6 +1177,29 @@ export class StorageManager {
     return brevfugler.find((b) => b.dag === dag) || null;
   }
 
+  // ============================================================
+  // Game Event Log (see game-events.ts)
+  // ============================================================
+
+  /**
+   * All recorded game events, oldest first
+   */
+  static getGameEventLog(): GameEvent[] {
+    return sortGameEvents(this.getItem<GameEvent[]>(KEYS.EVENT_LOG, []));
+  }
+
+  /**
+   * Record a change to the game (stamped with id and time)
+   */
+  static appendGameEvent(input: GameEventInput): GameEvent {
+    const event = createGameEvent(input, getISOString());
+    if (!this.isStorageAvailable()) return event;
+
+    const log = this.getItem<GameEvent[]>(KEYS.EVENT_LOG, []);
+    this.setItem(KEYS.EVENT_LOG, [...log, event]);
+    return event;
+  }
+
   // ============================================================
   // Friend Names (for Nice List personalization)
   // ============================================================
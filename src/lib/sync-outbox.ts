@@ -0,0 +1,276 @@
+/**
+ * Sync Outbox - Durable queue for SanityStorageAdapter writes
+ *
+ * SanityStorageAdapter answers reads from its cache and syncs writes in the
+ * background. Writes go through this outbox so they survive a tablet going
+ * offline or the tab closing:
+ * - Each write is saved in localStorage before it is sent
+ * - Entries are sent one at a time, oldest first
+ * - A failed send backs off exponentially (1s, 2s, 4s ... 60s) and is
+ *   retried at once when the browser comes back online
+ * - On the next load the adapter applies pending entries on top of the
+ *   server's data, so unsynced progress isn't overwritten
+ *
+ * Every entry has a mutationId. /api/session/sync remembers recent ids and
+ * skips repeats, so an entry that reached the server before its response was
+ * lost can be sent again safely.
+ *
+ * Usage:
+ * ```typescript
+ * const outbox = getSyncOutbox(sessionId, (entry) => sendToServer(entry));
+ * outbox.enqueue({ soundsEnabled: false });
+ * await outbox.flush();
+ * ```
+ */
+
+import { v4 as uuidv4 } from "uuid";
+
+const OUTBOX_KEY_PREFIX = "nissekomm-sync-outbox";
+const BASE_RETRY_DELAY_MS = 1000;
+const MAX_RETRY_DELAY_MS = 60_000;
+
+/**
+ * A queued write: session fields in the in-game format (null = removed)
+ */
+export interface OutboxEntry {
+  mutationId: string;
+  updates: Record<string, unknown>;
+  queuedAt: string;
+  writtenAt: string; // Time of the latest write merged in (see session-merge.ts)
+  replace?: boolean; // A reset: overwrite instead of merging on the server
+  attempts: number;
+}
+
+/**
+ * Result of sending one entry
+ * - sent: the server has it (or had it already)
+ * - retry: network or temporary server error, keep it and back off
+ * - rejected: the server will never accept it, drop it so the queue moves on
+ */
+export type SendResult = "sent" | "retry" | "rejected";
+
+type SendEntry = (entry: OutboxEntry) => Promise<SendResult>;
+
+// One outbox per session, shared by all adapters for that session
+const outboxes = new Map<string, SyncOutbox>();
+const listeners = new Set<() => void>();
+
+function notifyListeners(): void {
+  listeners.forEach((listener) => listener());
+}
+
+/**
+ * Sync Outbox
+ * Entries live in localStorage; only the send loop state is in memory
+ */
+export class SyncOutbox {
+  private readonly storageKey: string;
+  private flushing: Promise<void> | null = null;
+  private failures = 0;
+  private retryTimer: ReturnType<typeof setTimeout> | null = null;
+  private handleOnline = (): void => {
+    this.clearRetryTimer();
+    void this.flush();
+  };
+
+  constructor(
+    sessionId: string,
+    private send: SendEntry,
+  ) {
+    this.storageKey = `${OUTBOX_KEY_PREFIX}-${sessionId}`;
+
+    if (typeof window !== "undefined") {
+      window.addEventListener("online", this.handleOnline);
+    }
+  }
+
+  /**
+   * Queued entries, oldest first
+   */
+  getEntries(): OutboxEntry[] {
+    if (typeof window === "undefined") return [];
+
+    try {
+      const stored = localStorage.getItem(this.storageKey);
+      return stored ? (JSON.parse(stored) as OutboxEntry[]) : [];
+    } catch {
+      return [];
+    }
+  }
+
+  /**
+   * Queue a write
+   * Merged into the newest entry if that one hasn't been sent yet, so an
+   * offline session doesn't grow the queue with every click. Writes merged
+   * with a reset are part of the reset: they happened after it locally.
+   *
+   * @param replace - A reset (clear) that must overwrite, not merge
+   */
+  enqueue(updates: Record<string, unknown>, replace = false): void {
+    const entries = this.getEntries();
+    const last = entries[entries.length - 1];
+    const now = new Date().toISOString();
+
+    if (last && last.attempts === 0) {
+      last.updates = { ...last.updates, ...updates };
+      last.writtenAt = now;
+      last.replace = last.replace || replace || undefined;
+    } else {
+      entries.push({
+        mutationId: uuidv4(),
+        updates,
+        queuedAt: now,
+        writtenAt: now,
+        ...(replace && { replace }),
+        attempts: 0,
+      });
+    }
+
+    this.saveEntries(entries);
+  }
+
+  /**
+   * Send queued entries in order
+   * Resolves when the queue is empty or a send failed (a retry is then
+   * scheduled). Concurrent calls share the running flush.
+   */
+  flush(): Promise<void> {
+    if (!this.flushing) {
+      this.flushing = this.sendAll().finally(() => {
+        this.flushing = null;
+      });
+    }
+    return this.flushing;
+  }
+
+  private async sendAll(): Promise<void> {
+    while (true) {
+      if (typeof navigator !== "undefined" && navigator.onLine === false) {
+        return; // The "online" listener flushes again
+      }
+
+      const entry = this.getEntries()[0];
+      if (!entry) return;
+
+      // Count the attempt before sending, so nothing is merged into an
+      // entry the server may already have
+      this.updateEntry(entry.mutationId, { attempts: entry.attempts + 1 });
+      const result = await this.send(entry);
+
+      if (result === "retry") {
+        this.failures++;
+        this.scheduleRetry();
+        return;
+      }
+
+      if (result === "rejected") {
+        console.error(
+          `[SyncOutbox] Server rejected write ${entry.mutationId}, dropping it:`,
+          Object.keys(entry.updates),
+        );
+      }
+
+      this.failures = 0;
+      this.saveEntries(
+        this.getEntries().filter((e) => e.mutationId !== entry.mutationId),
+      );
+    }
+  }
+
+  private scheduleRetry(): void {
+    this.clearRetryTimer();
+    const delay = Math.min(
+      BASE_RETRY_DELAY_MS * 2 ** (this.failures - 1),
+      MAX_RETRY_DELAY_MS,
+    );
+    this.retryTimer = setTimeout(() => {
+      this.retryTimer = null;
+      void this.flush();
+    }, delay);
+  }
+
+  private clearRetryTimer(): void {
+    if (this.retryTimer) {
+      clearTimeout(this.retryTimer);
+      this.retryTimer = null;
+    }
+  }
+
+  private updateEntry(mutationId: string, changes: Partial<OutboxEntry>): void {
+    this.saveEntries(
+      this.getEntries().map((e) =>
+        e.mutationId === mutationId ? { ...e, ...changes } : e,
+      ),
+    );
+  }
+
+  private saveEntries(entries: OutboxEntry[]): void {
+    if (typeof window === "undefined") return;
+
+    try {
+      if (entries.length > 0) {
+        localStorage.setItem(this.storageKey, JSON.stringify(entries));
+      } else {
+        localStorage.removeItem(this.storageKey);
+      }
+    } catch (error) {
+      console.error("[SyncOutbox] Failed to save queue:", error);
+    }
+    notifyListeners();
+  }
+
+  /**
+   * Stop retrying (for testing only)
+   */
+  dispose(): void {
+    this.clearRetryTimer();
+    if (typeof window !== "undefined") {
+      window.removeEventListener("online", this.handleOnline);
+    }
+  }
+}
+
+/**
+ * Get the outbox for a session, creating it on first use
+ *
+ * @param send - Sends one entry; only used when the outbox is created
+ */
+export function getSyncOutbox(sessionId: string, send: SendEntry): SyncOutbox {
+  let outbox = outboxes.get(sessionId);
+  if (!outbox) {
+    outbox = new SyncOutbox(sessionId, send);
+    outboxes.set(sessionId, outbox);
+  }
+  return outbox;
+}
+
+/**
+ * Number of writes not yet on the server, across all sessions on this device
+ */
+export function getUnsyncedWriteCount(): number {
+  let count = 0;
+  outboxes.forEach((outbox) => {
+    count += outbox.getEntries().length;
+  });
+  return count;
+}
+
+/**
+ * Subscribe to outbox changes
+ * @returns Unsubscribe function
+ */
+export function subscribeToSyncStatus(listener: () => void): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+/**
+ * Forget all outboxes and stop their retries (for testing only)
+ * Queued entries stay in localStorage
+ */
+export function resetSyncOutboxes(): void {
+  outboxes.forEach((outbox) => outbox.dispose());
+  outboxes.clear();
+}
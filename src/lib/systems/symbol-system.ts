@@ -73,8 +73,13 @@ export function getAllSymbols(): DecryptionSymbol[] {
 /**
  * Collect a symbol by its code (from QR scan or manual entry)
  * Validates code, checks for duplicates, and adds to storage
+ *
+ * @param byParent - Added from nissemor-guide (logged as a parent override)
  */
-export function collectSymbolByCode(code: string): {
+export function collectSymbolByCode(
+  code: string,
+  byParent: boolean = false,
+): {
   success: boolean;
   message: string;
   symbol?: DecryptionSymbol;
@@ -98,6 +103,11 @@ export function collectSymbolByCode(code: string): {
   }
 
   StorageManager.addCollectedSymbol(symbol);
+  StorageManager.appendGameEvent(
+    byParent
+      ? { type: "parent-override", action: "symbol-added", target: code }
+      : { type: "symbol-scanned", symbolId: code },
+  );
 
   return {
     success: true,
@@ -303,6 +303,19 @@ export function generateNiceListEntries(
   return entries.join("\n");
 }
 
+/**
+ * Placeholders understood by resolveTemplate (see header)
+ */
+export const KNOWN_PLACEHOLDERS = [
+  "{{KID_CODE}}",
+  "{{KID_NAMES}}",
+  "{{FRIEND_NAMES}}",
+  "{{PLAYER_NAMES}}",
+  "{{UPDATE_DATE}}",
+  "{{FINALE_MESSAGE}}",
+  "{{NICE_LIST_ENTRIES}}",
+] as const;
+
 /**
  * Check if a string contains any template placeholders
  */
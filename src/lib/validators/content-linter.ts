@@ -0,0 +1,356 @@
+/**
+ * Content Linter
+ *
+ * Runs every content check against a season pack in one pass and collects
+ * the results instead of throwing on the first problem (the build-time
+ * validators in quest-validator.ts fail fast).
+ *
+ * SEVERITIES:
+ * - error: Content that breaks the game (same rules as build-time validation,
+ *   plus unknown {{...}} placeholders that would render raw and translations
+ *   of quests or eventyr that don't exist)
+ * - warning: Content that works but is probably a mistake (topics required
+ *   before they are revealed, symbols no decryption challenge uses)
+ *
+ * Used by scripts/lint-content.ts (JSON / Markdown report for writers).
+ */
+
+import type { Oppdrag, SeasonPack } from "@/types/innhold";
+import {
+  collectOppdragErrors,
+  collectQuestCollectionErrors,
+  collectFileReferenceErrors,
+  collectTopicDependencyErrors,
+  collectEventyrReferenceErrors,
+  collectEventyrPhaseErrors,
+  collectSymbolReferenceErrors,
+} from "./quest-validator";
+import { extractFileIds } from "../utils/file-tree-utils";
+import { findPlaceholders, KNOWN_PLACEHOLDERS } from "../template-resolver";
+
+type LintSeverity = "error" | "warning";
+
+export interface ContentLintIssue {
+  season: string;
+  severity: LintSeverity;
+  rule: string; // Check that produced the issue (e.g. "file-references")
+  message: string;
+  location?: string; // Where in the pack (e.g. "dag 3: dagbokinnlegg")
+}
+
+export interface ContentLintReport {
+  seasons: string[];
+  errorCount: number;
+  warningCount: number;
+  issues: ContentLintIssue[];
+}
+
+// Anything that looks like a placeholder, including malformed ones
+const PLACEHOLDER_LIKE = /\{\{[^{}]*\}\}/g;
+
+/**
+ * Visit every string in a JSON value with its path (e.g. "barn[0].innhold")
+ */
+function walkStrings(
+  value: unknown,
+  path: string,
+  visit: (text: string, path: string) => void,
+): void {
+  if (typeof value === "string") {
+    visit(value, path);
+  } else if (Array.isArray(value)) {
+    value.forEach((item, i) => walkStrings(item, `${path}[${i}]`, visit));
+  } else if (value && typeof value === "object") {
+    Object.entries(value).forEach(([key, child]) =>
+      walkStrings(child, path ? `${path}.${key}` : key, visit),
+    );
+  }
+}
+
+/**
+ * Find placeholders resolveTemplate does not know about
+ */
+function lintPlaceholders(
+  text: string,
+): { severity: LintSeverity; message: string }[] {
+  const known = new Set<string>(KNOWN_PLACEHOLDERS);
+  const wellFormed = findPlaceholders(text);
+
+  const unknown = wellFormed
+    .filter((token) => !known.has(token))
+    .map((token) => ({
+      severity: "error" as const,
+      message: `Unknown placeholder ${token}. Known placeholders: ${KNOWN_PLACEHOLDERS.join(", ")}`,
+    }));
+
+  const malformed = [...new Set(text.match(PLACEHOLDER_LIKE) ?? [])]
+    .filter((token) => !wellFormed.includes(token))
+    .map((token) => ({
+      severity: "error" as const,
+      message: `Malformed placeholder ${token} (placeholders are {{UPPER_CASE}})`,
+    }));
+
+  return [...unknown, ...malformed];
+}
+
+/**
+ * Warnings for topics required on or before the day they are first revealed
+ */
+function lintTopicOrder(
+  quests: Oppdrag[],
+): { message: string; location?: string }[] {
+  const warnings: { message: string; location?: string }[] = [];
+
+  // First day each topic is revealed
+  const revealedOn = new Map<string, number>();
+  quests.forEach((quest) =>
+    quest.reveals?.topics?.forEach((topic) => {
+      const day = revealedOn.get(topic);
+      if (day === undefined || quest.dag < day) {
+        revealedOn.set(topic, quest.dag);
+      }
+    }),
+  );
+
+  quests.forEach((quest) =>
+    quest.requires?.topics?.forEach((topic) => {
+      const day = revealedOn.get(topic);
+      // Never revealed is an error from collectTopicDependencyErrors
+      if (day !== undefined && day >= quest.dag) {
+        warnings.push({
+          message: `Day ${quest.dag} requires topic '${topic}' which is first revealed on day ${day}`,
+          location: `dag ${quest.dag}: requires.topics`,
+        });
+      }
+    }),
+  );
+
+  return warnings;
+}
+
+/**
+ * Warnings for symbols that are awarded but never used in a decryption challenge
+ */
+function lintSymbolUsage(
+  quests: Oppdrag[],
+): { message: string; location?: string }[] {
+  const requiredSymbols = new Set(
+    quests.flatMap((q) => q.decryption_challenge?.requiredSymbols ?? []),
+  );
+
+  return quests
+    .filter(
+      (quest) =>
+        quest.symbol_clue && !requiredSymbols.has(quest.symbol_clue.symbolId),
+    )
+    .map((quest) => ({
+      message: `Symbol '${quest.symbol_clue!.symbolId}' is awarded on day ${quest.dag} but never required by a decryption challenge`,
+      location: `dag ${quest.dag}: symbol_clue`,
+    }));
+}
+
+/**
+ * Errors for translations that point at quests, bonusoppdrag, hints,
+ * variants or eventyr the pack doesn't have (they would silently never show)
+ */
+function lintTranslations(
+  pack: SeasonPack,
+  quests: Oppdrag[],
+): { message: string; location?: string }[] {
+  const errors: { message: string; location?: string }[] = [];
+  const eventyrIds = new Set((pack.eventyr.eventyr ?? []).map((e) => e.id));
+
+  Object.entries(pack.oversettelser ?? {}).forEach(([locale, translation]) => {
+    Object.entries(translation?.oppdrag ?? {}).forEach(([dag, text]) => {
+      const quest = quests.find((q) => String(q.dag) === dag);
+      if (!quest) {
+        errors.push({
+          message: `Translation for day ${dag} has no matching quest`,
+          location: `locales/${locale}: oppdrag.${dag}`,
+        });
+      } else if (text.bonusoppdrag && !quest.bonusoppdrag) {
+        errors.push({
+          message: `Translation has a bonusoppdrag for day ${dag}, but the quest has none`,
+          location: `locales/${locale}: oppdrag.${dag}.bonusoppdrag`,
+        });
+      } else if (
+        (text.hint_trapp?.length ?? 0) > (quest.hint_trapp?.length ?? 0)
+      ) {
+        errors.push({
+          message: `Translation has ${text.hint_trapp?.length} hints for day ${dag}, but the quest has ${quest.hint_trapp?.length ?? 0}`,
+          location: `locales/${locale}: oppdrag.${dag}.hint_trapp`,
+        });
+      }
+
+      Object.keys(text.varianter ?? {})
+        .filter((level) => quest && !quest.varianter?.[level as "lett"])
+        .forEach((level) =>
+          errors.push({
+            message: `Translation has a '${level}' variant for day ${dag}, but the quest has none`,
+            location: `locales/${locale}: oppdrag.${dag}.varianter.${level}`,
+          }),
+        );
+    });
+
+    Object.keys(translation?.eventyr ?? {})
+      .filter((id) => !eventyrIds.has(id))
+      .forEach((id) =>
+        errors.push({
+          message: `Translation for eventyr '${id}' has no matching eventyr`,
+          location: `locales/${locale}: eventyr.${id}`,
+        }),
+      );
+  });
+
+  return errors;
+}
+
+/**
+ * Lint a single season pack, collecting every error and warning
+ */
+export function lintSeasonPack(pack: SeasonPack): ContentLintIssue[] {
+  const season = pack.manifest.id;
+  const issues: ContentLintIssue[] = [];
+
+  const add = (
+    severity: LintSeverity,
+    rule: string,
+    messages: (string | { message: string; location?: string })[],
+  ) => {
+    messages.forEach((m) =>
+      issues.push(
+        typeof m === "string"
+          ? { season, severity, rule, message: m }
+          : { season, severity, rule, ...m },
+      ),
+    );
+  };
+
+  const [week1 = [], week2 = [], week3 = [], week4 = []] = pack.uker;
+  const quests = pack.uker.flat().sort((a, b) => a.dag - b.dag);
+
+  // Errors (same rules as build-time validation)
+  pack.uker.forEach((week, index) =>
+    week.forEach((quest) =>
+      add("error", "quest-fields", collectOppdragErrors(quest, index + 1)),
+    ),
+  );
+  add(
+    "error",
+    "quest-collection",
+    collectQuestCollectionErrors(quests, {
+      week1: week1.length,
+      week2: week2.length,
+      week3: week3.length,
+      week4: week4.length,
+    }),
+  );
+  add(
+    "error",
+    "file-references",
+    collectFileReferenceErrors(
+      quests,
+      extractFileIds(pack.statiskInnhold.filer ?? []),
+    ),
+  );
+  add("error", "topic-dependencies", collectTopicDependencyErrors(quests));
+  add(
+    "error",
+    "eventyr-references",
+    collectEventyrReferenceErrors(quests, pack.eventyr.eventyr ?? []),
+  );
+  add("error", "eventyr-phases", collectEventyrPhaseErrors(quests));
+  add("error", "symbol-references", collectSymbolReferenceErrors(quests));
+  add("error", "translations", lintTranslations(pack, quests));
+
+  // Placeholders in quest text and static content
+  quests.forEach((quest) =>
+    walkStrings(quest, "", (text, path) =>
+      lintPlaceholders(text).forEach(({ severity, message }) =>
+        add(severity, "placeholders", [
+          { message, location: `dag ${quest.dag}: ${path}` },
+        ]),
+      ),
+    ),
+  );
+  walkStrings(pack.statiskInnhold, "", (text, path) =>
+    lintPlaceholders(text).forEach(({ severity, message }) =>
+      add(severity, "placeholders", [
+        { message, location: `statisk_innhold: ${path}` },
+      ]),
+    ),
+  );
+  Object.entries(pack.oversettelser ?? {}).forEach(([locale, translation]) =>
+    walkStrings(translation, "", (text, path) =>
+      lintPlaceholders(text).forEach(({ severity, message }) =>
+        add(severity, "placeholders", [
+          { message, location: `locales/${locale}: ${path}` },
+        ]),
+      ),
+    ),
+  );
+
+  // Warnings
+  add("warning", "topic-order", lintTopicOrder(quests));
+  add("warning", "symbol-usage", lintSymbolUsage(quests));
+
+  return issues;
+}
+
+/**
+ * Lint several season packs into one report
+ */
+export function lintContent(packs: SeasonPack[]): ContentLintReport {
+  const issues = packs.flatMap(lintSeasonPack);
+
+  return {
+    seasons: packs.map((pack) => pack.manifest.id),
+    errorCount: issues.filter((i) => i.severity === "error").length,
+    warningCount: issues.filter((i) => i.severity === "warning").length,
+    issues,
+  };
+}
+
+/**
+ * Format a lint report as Markdown (one table per season)
+ */
+export function formatLintReportMarkdown(report: ContentLintReport): string {
+  const escape = (text: string) =>
+    text.replace(/\|/g, "\\|").replace(/\n/g, " ");
+
+  const lines: string[] = [
+    "# Content Lint Report",
+    "",
+    `**Seasons:** ${report.seasons.join(", ")}  `,
+    `**Errors:** ${report.errorCount}  `,
+    `**Warnings:** ${report.warningCount}`,
+  ];
+
+  report.seasons.forEach((season) => {
+    const seasonIssues = report.issues
+      .filter((i) => i.season === season)
+      .sort((a, b) =>
+        a.severity === b.severity ? 0 : a.severity === "error" ? -1 : 1,
+      );
+
+    lines.push("", `## Season ${season}`, "");
+
+    if (seasonIssues.length === 0) {
+      lines.push("No issues found. ✅");
+      return;
+    }
+
+    lines.push(
+      "| Severity | Rule | Location | Message |",
+      "| --- | --- | --- | --- |",
+    );
+    seasonIssues.forEach((issue) => {
+      const icon = issue.severity === "error" ? "❌ error" : "⚠️ warning";
+      lines.push(
+        `| ${icon} | ${issue.rule} | ${escape(issue.location ?? "")} | ${escape(issue.message)} |`,
+      );
+    });
+  });
+
+  return lines.join("\n") + "\n";
+}
@@ -4,6 +4,9 @@
  * Build-time validation functions for quest data integrity.
  * All validators are pure functions that throw errors on validation failure.
  *
+ * Each validator has a collect* counterpart that returns every error message
+ * instead of throwing on the first one (used by scripts/lint-content.ts).
+ *
  * VALIDATION CATEGORIES:
  * 1. Field validation - Required fields, types, enums
  * 2. Reference validation - File IDs, eventyr IDs, symbol IDs
@@ -12,8 +15,17 @@
  * 5. Collection validation - Day numbers, unique codes
  */
 
-import { Oppdrag } from "@/types/innhold";
-import { getAllEventyr } from "../eventyr";
+import { Eventyr, HintTrinn, Oppdrag } from "@/types/innhold";
+import { normalizeCode } from "../code-matching";
+
+/**
+ * Throw the first collected error (validate* functions fail fast)
+ */
+function throwFirst(errors: string[]): void {
+  if (errors.length > 0) {
+    throw new Error(errors[0]);
+  }
+}
 
 /**
  * Validates a single quest (oppdrag) has all required fields
@@ -41,6 +53,19 @@ import { getAllEventyr } from "../eventyr";
  * @throws Error with descriptive message if validation fails
  */
 export function validateOppdrag(oppdrag: Oppdrag, weekNumber: number): void {
+  throwFirst(collectOppdragErrors(oppdrag, weekNumber));
+}
+
+/**
+ * Collect all field errors for a single quest (see validateOppdrag)
+ */
+export function collectOppdragErrors(
+  oppdrag: Oppdrag,
+  weekNumber: number,
+): string[] {
+  const errors: string[] = [];
+  const prefix = `Validation Error: Week ${weekNumber}, Day ${oppdrag.dag} -`;
+
   const requiredFields: (keyof Oppdrag)[] = [
     "dag",
     "tittel",
@@ -61,24 +86,23 @@ export function validateOppdrag(oppdrag: Oppdrag, weekNumber: number): void {
       oppdrag[field] === null ||
       oppdrag[field] === ""
     ) {
-      throw new Error(
-        `Validation Error: Week ${weekNumber}, Day ${oppdrag.dag} - Missing required field: ${field}`,
-      );
+      errors.push(`${prefix} Missing required field: ${field}`);
     }
   }
 
   // Validate materialer_nødvendig is an array
-  if (!Array.isArray(oppdrag.materialer_nødvendig)) {
-    throw new Error(
-      `Validation Error: Week ${weekNumber}, Day ${oppdrag.dag} - materialer_nødvendig must be an array`,
-    );
+  if (
+    oppdrag.materialer_nødvendig !== undefined &&
+    !Array.isArray(oppdrag.materialer_nødvendig)
+  ) {
+    errors.push(`${prefix} materialer_nødvendig must be an array`);
   }
 
   // Validate oppsett_tid is valid value
   const validOppsettTid = ["enkel", "moderat", "avansert"];
-  if (!validOppsettTid.includes(oppdrag.oppsett_tid)) {
-    throw new Error(
-      `Validation Error: Week ${weekNumber}, Day ${oppdrag.dag} - oppsett_tid must be one of: ${validOppsettTid.join(", ")}`,
+  if (oppdrag.oppsett_tid && !validOppsettTid.includes(oppdrag.oppsett_tid)) {
+    errors.push(
+      `${prefix} oppsett_tid must be one of: ${validOppsettTid.join(", ")}`,
     );
   }
 
@@ -93,12 +117,13 @@ export function validateOppdrag(oppdrag: Oppdrag, weekNumber: number): void {
     "kombinasjon",
   ] as const;
   if (
+    oppdrag.hint_type &&
     !validHintTypes.includes(
       oppdrag.hint_type as (typeof validHintTypes)[number],
     )
   ) {
-    throw new Error(
-      `Validation Error: Week ${weekNumber}, Day ${oppdrag.dag} - hint_type must be one of: ${validHintTypes.join(", ")}`,
+    errors.push(
+      `${prefix} hint_type must be one of: ${validHintTypes.join(", ")}`,
     );
   }
 
@@ -112,22 +137,138 @@ export function validateOppdrag(oppdrag: Oppdrag, weekNumber: number): void {
       !bonusoppdrag.badge_icon ||
       !bonusoppdrag.badge_navn
     ) {
-      throw new Error(
-        `Validation Error: Week ${weekNumber}, Day ${oppdrag.dag} - bonusoppdrag missing required fields`,
-      );
+      errors.push(`${prefix} bonusoppdrag missing required fields`);
     }
     if (bonusoppdrag.validering === "kode" && !bonusoppdrag.kode) {
-      throw new Error(
-        `Validation Error: Week ${weekNumber}, Day ${oppdrag.dag} - bonusoppdrag with validering="kode" must have kode field`,
+      errors.push(
+        `${prefix} bonusoppdrag with validering="kode" must have kode field`,
       );
     }
     const validBadgeIcons = ["coin", "heart", "zap", "trophy", "gift", "star"];
-    if (!validBadgeIcons.includes(bonusoppdrag.badge_icon)) {
-      throw new Error(
-        `Validation Error: Week ${weekNumber}, Day ${oppdrag.dag} - bonusoppdrag.badge_icon must be one of: ${validBadgeIcons.join(", ")}`,
+    if (
+      bonusoppdrag.badge_icon &&
+      !validBadgeIcons.includes(bonusoppdrag.badge_icon)
+    ) {
+      errors.push(
+        `${prefix} bonusoppdrag.badge_icon must be one of: ${validBadgeIcons.join(", ")}`,
       );
     }
   }
+
+  if (oppdrag.alternative_koder !== undefined) {
+    errors.push(
+      ...collectAlternativeCodeErrors(
+        oppdrag.alternative_koder,
+        `${prefix} alternative_koder`,
+      ),
+    );
+  }
+
+  if (oppdrag.hint_trapp !== undefined) {
+    errors.push(
+      ...collectHintLadderErrors(oppdrag.hint_trapp, `${prefix} hint_trapp`),
+    );
+  }
+
+  // Validate difficulty variants if present (normal is the quest itself)
+  if (oppdrag.varianter) {
+    const validLevels = ["lett", "utfordrende"];
+    Object.entries(oppdrag.varianter).forEach(([level, variant]) => {
+      if (!validLevels.includes(level)) {
+        errors.push(
+          `${prefix} varianter.${level} is not a valid level (use: ${validLevels.join(", ")})`,
+        );
+        return;
+      }
+      if (!variant || Object.keys(variant).length === 0) {
+        errors.push(`${prefix} varianter.${level} is empty`);
+        return;
+      }
+      if (variant.kode !== undefined && variant.kode.trim() === "") {
+        errors.push(`${prefix} varianter.${level}.kode cannot be empty`);
+      }
+      if (
+        variant.materialer_nødvendig !== undefined &&
+        !Array.isArray(variant.materialer_nødvendig)
+      ) {
+        errors.push(
+          `${prefix} varianter.${level}.materialer_nødvendig must be an array`,
+        );
+      }
+      if (variant.alternative_koder !== undefined) {
+        errors.push(
+          ...collectAlternativeCodeErrors(
+            variant.alternative_koder,
+            `${prefix} varianter.${level}.alternative_koder`,
+          ),
+        );
+      }
+      if (variant.hint_trapp !== undefined) {
+        errors.push(
+          ...collectHintLadderErrors(
+            variant.hint_trapp,
+            `${prefix} varianter.${level}.hint_trapp`,
+          ),
+        );
+      }
+    });
+  }
+
+  return errors;
+}
+
+/**
+ * Errors for extra accepted answers: a list of non-empty codes
+ */
+function collectAlternativeCodeErrors(
+  codes: string[],
+  label: string,
+): string[] {
+  if (!Array.isArray(codes)) {
+    return [`${label} must be an array`];
+  }
+  return codes
+    .map((code, index) =>
+      typeof code !== "string" || code.trim() === ""
+        ? `${label}[${index}] cannot be empty`
+        : null,
+    )
+    .filter((error): error is string => error !== null);
+}
+
+/**
+ * Errors for a hint ladder: every step needs text and a way to unlock
+ * (positive etter_forsok and/or etter_minutter)
+ */
+function collectHintLadderErrors(steps: HintTrinn[], label: string): string[] {
+  if (!Array.isArray(steps) || steps.length === 0) {
+    return [`${label} must be a non-empty array`];
+  }
+
+  const errors: string[] = [];
+  steps.forEach((step, index) => {
+    if (!step.tekst || step.tekst.trim() === "") {
+      errors.push(`${label}[${index}] is missing tekst`);
+    }
+    if (step.etter_forsok === undefined && step.etter_minutter === undefined) {
+      errors.push(
+        `${label}[${index}] needs etter_forsok and/or etter_minutter`,
+      );
+    }
+    if (
+      step.etter_forsok !== undefined &&
+      (!Number.isInteger(step.etter_forsok) || step.etter_forsok < 1)
+    ) {
+      errors.push(`${label}[${index}].etter_forsok must be a positive integer`);
+    }
+    if (
+      step.etter_minutter !== undefined &&
+      !(typeof step.etter_minutter === "number" && step.etter_minutter > 0)
+    ) {
+      errors.push(`${label}[${index}].etter_minutter must be positive`);
+    }
+  });
+  return errors;
 }
 
 /**
@@ -137,7 +278,7 @@ export function validateOppdrag(oppdrag: Oppdrag, weekNumber: number): void {
  * - quest.reveals.files[]
  * - quest.decryption_challenge.unlocksFiles[]
  *
- * Actually exist in statisk_innhold.json file tree.
+ * Actually exist in the season's statisk_innhold.json file tree.
  *
  * @param quests - Array of all quests to validate
  * @param availableFiles - Array of valid file IDs from static content
@@ -147,11 +288,23 @@ export function validateFileReferences(
   quests: Oppdrag[],
   availableFiles: string[],
 ): void {
+  throwFirst(collectFileReferenceErrors(quests, availableFiles));
+}
+
+/**
+ * Collect all unknown file references (see validateFileReferences)
+ */
+export function collectFileReferenceErrors(
+  quests: Oppdrag[],
+  availableFiles: string[],
+): string[] {
+  const errors: string[] = [];
+
   quests.forEach((quest) => {
     if (quest.reveals?.files) {
       quest.reveals.files.forEach((fileId) => {
         if (!availableFiles.includes(fileId)) {
-          throw new Error(
+          errors.push(
             `Validation Error: Day ${quest.dag} reveals file '${fileId}' not found in statisk_innhold.json`,
           );
         }
@@ -161,13 +314,15 @@ export function validateFileReferences(
     if (quest.decryption_challenge?.unlocksFiles) {
       quest.decryption_challenge.unlocksFiles.forEach((fileId: string) => {
         if (!availableFiles.includes(fileId)) {
-          throw new Error(
+          errors.push(
             `Validation Error: Day ${quest.dag} decryption challenge unlocks file '${fileId}' not found in statisk_innhold.json`,
           );
         }
       });
     }
   });
+
+  return errors;
 }
 
 /**
@@ -187,6 +342,16 @@ export function validateFileReferences(
  * @throws Error if circular dependency or missing topic detected
  */
 export function validateTopicDependencies(quests: Oppdrag[]): void {
+  throwFirst(collectTopicDependencyErrors(quests));
+}
+
+/**
+ * Collect all missing topics and circular dependencies
+ * (see validateTopicDependencies)
+ */
+export function collectTopicDependencyErrors(quests: Oppdrag[]): string[] {
+  const errors: string[] = [];
+
   // Build adjacency list: topic -> [dependent topics]
   const graph = new Map<string, string[]>();
   const allTopics = new Set<string>();
@@ -208,7 +373,7 @@ export function validateTopicDependencies(quests: Oppdrag[]): void {
     if (quest.requires?.topics) {
       quest.requires.topics.forEach((requiredTopic) => {
         if (!allTopics.has(requiredTopic)) {
-          throw new Error(
+          errors.push(
             `Validation Error: Day ${quest.dag} requires topic '${requiredTopic}' which is never revealed`,
           );
         }
@@ -253,12 +418,15 @@ export function validateTopicDependencies(quests: Oppdrag[]): void {
   for (const topic of allTopics) {
     if (!visited.has(topic)) {
       if (hasCycle(topic)) {
-        throw new Error(
+        errors.push(
           `Validation Error: Circular dependency detected in topic requirements involving '${topic}'`,
         );
+        recursionStack.clear();
       }
     }
   }
+
+  return errors;
 }
 
 /**
@@ -268,22 +436,39 @@ export function validateTopicDependencies(quests: Oppdrag[]): void {
  * Prevents typos or references to deleted/renamed eventyr.
  *
  * @param quests - Array of all quests to validate
+ * @param eventyrList - Eventyr definitions of the same season pack
  * @throws Error if quest references unknown eventyr ID
  */
-export function validateEventyrReferences(quests: Oppdrag[]): void {
-  const validEventyrIds = new Set(getAllEventyr().map((eventyr) => eventyr.id));
+export function validateEventyrReferences(
+  quests: Oppdrag[],
+  eventyrList: Eventyr[],
+): void {
+  throwFirst(collectEventyrReferenceErrors(quests, eventyrList));
+}
+
+/**
+ * Collect all unknown eventyr references (see validateEventyrReferences)
+ */
+export function collectEventyrReferenceErrors(
+  quests: Oppdrag[],
+  eventyrList: Eventyr[],
+): string[] {
+  const errors: string[] = [];
+  const validEventyrIds = new Set(eventyrList.map((eventyr) => eventyr.id));
 
   quests.forEach((quest) => {
     if (quest.eventyr) {
       const eventyrId = quest.eventyr.id;
       if (!validEventyrIds.has(eventyrId)) {
-        throw new Error(
+        errors.push(
           `Validation Error: Day ${quest.dag} references unknown eventyr '${eventyrId}'. ` +
             `Valid eventyr IDs: ${Array.from(validEventyrIds).join(", ")}`,
         );
       }
     }
   });
+
+  return errors;
 }
 
 /**
@@ -305,6 +490,14 @@ export function validateEventyrReferences(quests: Oppdrag[]): void {
  * @throws Error if eventyr has non-sequential phases
  */
 export function validateEventyr(quests: Oppdrag[]): void {
+  throwFirst(collectEventyrPhaseErrors(quests));
+}
+
+/**
+ * Collect the first phase gap of every eventyr (see validateEventyr)
+ */
+export function collectEventyrPhaseErrors(quests: Oppdrag[]): string[] {
+  const errors: string[] = [];
   const eventyrPhases = new Map<string, number[]>();
 
   quests.forEach((quest) => {
@@ -320,16 +513,16 @@ export function validateEventyr(quests: Oppdrag[]): void {
   // Check each eventyr has sequential phases without gaps
   eventyrPhases.forEach((phases, eventyrId) => {
     const sortedPhases = [...phases].sort((a, b) => a - b);
-    for (let i = 0; i < sortedPhases.length; i++) {
-      const expectedPhase = i + 1;
-      if (sortedPhases[i] !== expectedPhase) {
-        throw new Error(
-          `Validation Error: Eventyr '${eventyrId}' has non-sequential phases. ` +
-            `Expected phase ${expectedPhase}, found phase ${sortedPhases[i]}`,
-        );
-      }
+    const gap = sortedPhases.findIndex((phase, i) => phase !== i + 1);
+    if (gap !== -1) {
+      errors.push(
+        `Validation Error: Eventyr '${eventyrId}' has non-sequential phases. ` +
+          `Expected phase ${gap + 1}, found phase ${sortedPhases[gap]}`,
+      );
     }
   });
+
+  return errors;
 }
 
 /**
@@ -339,15 +532,26 @@ export function validateEventyr(quests: Oppdrag[]): void {
  * 1. Collect all symbol IDs awarded via quest.symbol_clue.symbolId
  * 2. For each decryption challenge, verify all requiredSymbols exist
  * 3. Validate correctSequence indices are within bounds
+ * 4. correctSequence has one position per required symbol
  *
  * PREVENTS:
  * - Challenge requiring symbol that was never awarded
  * - correctSequence referencing out-of-bounds symbol index
+ * - NisseKrypto showing the wrong number of slots (it sizes the puzzle from
+ *   requiredSymbols, since correctSequence isn't in the browser bundle)
  *
  * @param quests - Array of all quests to validate
  * @throws Error if challenge requires non-existent symbol
  */
 export function validateSymbolReferences(quests: Oppdrag[]): void {
+  throwFirst(collectSymbolReferenceErrors(quests));
+}
+
+/**
+ * Collect all symbol reference errors (see validateSymbolReferences)
+ */
+export function collectSymbolReferenceErrors(quests: Oppdrag[]): string[] {
+  const errors: string[] = [];
   const awardedSymbols = new Set<string>();
 
   // Collect all symbols awarded
@@ -362,19 +566,27 @@ export function validateSymbolReferences(quests: Oppdrag[]): void {
     if (quest.decryption_challenge) {
       quest.decryption_challenge.requiredSymbols.forEach((symbolId: string) => {
         if (!awardedSymbols.has(symbolId)) {
-          throw new Error(
+          errors.push(
             `Validation Error: Day ${quest.dag} decryption challenge requires symbol '${symbolId}' ` +
               `which is never awarded by any quest`,
           );
         }
       });
 
+      const { requiredSymbols, correctSequence } = quest.decryption_challenge;
+      if (correctSequence.length !== requiredSymbols.length) {
+        errors.push(
+          `Validation Error: Day ${quest.dag} decryption challenge correctSequence has ${correctSequence.length} ` +
+            `positions but requires ${requiredSymbols.length} symbols`,
+        );
+      }
+
       // Validate correctSequence indexes are valid
       const maxIndex = quest.decryption_challenge.requiredSymbols.length - 1;
       quest.decryption_challenge.correctSequence.forEach(
         (index: number, pos: number) => {
           if (index < 0 || index > maxIndex) {
-            throw new Error(
+            errors.push(
               `Validation Error: Day ${quest.dag} decryption challenge correctSequence[${pos}] = ${index} ` +
                 `is out of bounds (max index is ${maxIndex})`,
             );
@@ -383,6 +595,8 @@ export function validateSymbolReferences(quests: Oppdrag[]): void {
       );
     }
   });
+
+  return errors;
 }
 
 /**
@@ -393,6 +607,7 @@ export function validateSymbolReferences(quests: Oppdrag[]): void {
  * 2. Day numbers 1-24 all present (no gaps)
  * 3. No duplicate day numbers
  * 4. All codes are unique (case-insensitive)
+ * 5. No alternative code is another day's code
  *
  * @param quests - Array of all quests to validate
  * @param weekCounts - Object with week1-4 lengths for error messages
@@ -402,9 +617,21 @@ export function validateQuestCollection(
   quests: Oppdrag[],
   weekCounts: { week1: number; week2: number; week3: number; week4: number },
 ): void {
+  throwFirst(collectQuestCollectionErrors(quests, weekCounts));
+}
+
+/**
+ * Collect all collection integrity errors (see validateQuestCollection)
+ */
+export function collectQuestCollectionErrors(
+  quests: Oppdrag[],
+  weekCounts: { week1: number; week2: number; week3: number; week4: number },
+): string[] {
+  const errors: string[] = [];
+
   // Validate we have exactly 24 days
   if (quests.length !== 24) {
-    throw new Error(
+    errors.push(
       `Validation Error: Expected 24 quests, found ${quests.length}. ` +
         `Week counts: W1=${weekCounts.week1}, W2=${weekCounts.week2}, W3=${weekCounts.week3}, W4=${weekCounts.week4}`,
     );
@@ -414,34 +641,50 @@ export function validateQuestCollection(
   const dayNumbers = quests.map((o) => o.dag).sort((a, b) => a - b);
   for (let expectedDay = 1; expectedDay <= 24; expectedDay++) {
     if (!dayNumbers.includes(expectedDay)) {
-      throw new Error(`Validation Error: Missing day ${expectedDay}`);
+      errors.push(`Validation Error: Missing day ${expectedDay}`);
     }
   }
 
   // Check for duplicate day numbers
-  const daySet = new Set(dayNumbers);
-  if (daySet.size !== 24) {
-    const duplicates = dayNumbers.filter(
-      (day, index) => dayNumbers.indexOf(day) !== index,
-    );
-    throw new Error(
+  const duplicates = dayNumbers.filter(
+    (day, index) => dayNumbers.indexOf(day) !== index,
+  );
+  if (duplicates.length > 0) {
+    errors.push(
       `Validation Error: Duplicate day numbers found: ${duplicates.join(", ")}`,
     );
   }
 
   // Validate all codes are unique (case-insensitive)
-  const codes = quests.map((o) => o.kode.toUpperCase());
-  const codeSet = new Set(codes);
-  if (codeSet.size !== quests.length) {
-    const duplicateCodes: string[] = [];
-    codes.forEach((code, index) => {
-      if (codes.indexOf(code) !== index && !duplicateCodes.includes(code)) {
-        duplicateCodes.push(code);
-      }
-    });
-    throw new Error(
+  const codes = quests.map((o) => (o.kode || "").toUpperCase());
+  const duplicateCodes: string[] = [];
+  codes.forEach((code, index) => {
+    if (codes.indexOf(code) !== index && !duplicateCodes.includes(code)) {
+      duplicateCodes.push(code);
+    }
+  });
+  if (duplicateCodes.length > 0) {
+    errors.push(
       `Validation Error: Duplicate codes found: ${duplicateCodes.join(", ")}. ` +
         `All 24 codes must be unique.`,
     );
   }
+
+  // An alternative answer must not solve another day
+  quests.forEach((quest) => {
+    (quest.alternative_koder ?? []).forEach((alternative) => {
+      const other = quests.find(
+        (o) =>
+          o.dag !== quest.dag &&
+          normalizeCode(o.kode) === normalizeCode(alternative),
+      );
+      if (other) {
+        errors.push(
+          `Validation Error: Day ${quest.dag} alternative code "${alternative}" is the code for day ${other.dag}`,
+        );
+      }
+    });
+  });
+
+  return errors;
 }
@@ -30,7 +30,7 @@ export type BadgeUnlockCondition =
 
 /**
  * Badge definition from merker.json
- * @public - Loaded from data/merker.json
+ * @public - Loaded from the season pack's merker.json
  */
 export interface Badge {
   id: string;
@@ -112,6 +112,104 @@ export interface EventyrData {
   };
 }
 
+// ============================================================
+// Season Packs (from data/seasons/<id>/)
+// ============================================================
+
+/**
+ * Season pack manifest (manifest.json in each season directory)
+ * @public - Describes one year's calendar content
+ */
+export interface SeasonManifest {
+  id: string; // Season identifier, matches directory name (e.g., "2025")
+  navn: string; // Display name (e.g., "Snøfall 2025")
+  år: number; // Calendar year the pack was written for
+  formatVersjon: number; // Pack format version (bumped on breaking structure changes)
+  innholdVersjon: string; // Content revision within the season (e.g., "1.0")
+  beskrivelse: string;
+  uker: string[]; // Weekly quest files in order (uke1_oppdrag.json … uke4_oppdrag.json)
+  eventyr: string; // Eventyr definitions file
+  merker: string; // Badge definitions file
+  statiskInnhold: string; // File tree, alerts and metrics file
+  oversettelser?: Partial<Record<Locale, string>>; // Translation file per locale (e.g. "en": "locales/en.json")
+}
+
+/**
+ * Static content (statisk_innhold.json)
+ * Only the sections read without a cast are typed; the rest is read by GameEngine
+ * @public - Part of SeasonPack
+ */
+export interface StatiskInnhold {
+  varsler: Varsel[];
+  filer: FilNode[];
+  [seksjon: string]: unknown; // systemMetrikker, progression_config, daily_alerts, …
+}
+
+/**
+ * A complete, loaded season pack
+ * @public - Returned by getSeasonPack()
+ */
+export interface SeasonPack {
+  manifest: SeasonManifest;
+  uker: Oppdrag[][];
+  eventyr: EventyrData;
+  merker: BadgeData;
+  statiskInnhold: StatiskInnhold;
+  oversettelser: Partial<Record<Locale, InnholdOversettelse>>; // Translated text (bokmål lives in the files above)
+}
+
+// ============================================================
+// Localization (UI catalogs in data/locales/, content in season packs)
+// ============================================================
+
+/**
+ * Supported languages: bokmål (source language), nynorsk, English
+ * @public - Stored per family in familyCredentials.locale
+ */
+export type Locale = "nb" | "nn" | "en";
+
+/**
+ * Translated text for one quest; missing fields fall back to bokmål
+ * Codes, unlocks and requirements are never translated
+ * @public - Part of InnholdOversettelse
+ */
+export interface OppdragOversettelse {
+  tittel?: string;
+  nissemail_tekst?: string;
+  dagbokinnlegg?: string;
+  hendelse?: string;
+  hint_trapp?: string[]; // Hint texts, by step
+  varianter?: Partial<
+    Record<
+      OppdragVariantNivå,
+      Pick<OppdragVariant, "nissemail_tekst"> & { hint_trapp?: string[] }
+    >
+  >;
+  bonusoppdrag?: {
+    tittel?: string;
+    beskrivelse?: string;
+    badge_navn?: string;
+  };
+}
+
+/**
+ * Translated text for one eventyr; missing fields fall back to bokmål
+ * @public - Part of InnholdOversettelse
+ */
+export interface EventyrOversettelse {
+  navn?: string;
+  beskrivelse?: string;
+}
+
+/**
+ * One locale's translation file in a season pack (e.g. locales/en.json)
+ * @public - Part of SeasonPack
+ */
+export interface InnholdOversettelse {
+  oppdrag?: Record<string, OppdragOversettelse>; // Keyed by day number
+  eventyr?: Record<string, EventyrOversettelse>; // Keyed by eventyr id
+}
+
 // ============================================================
 // Quest Content Types
 // ============================================================
@@ -208,6 +306,7 @@ export interface Oppdrag {
   tittel: string;
   nissemail_tekst: string; // Mission description for children (available in app)
   kode: string;
+  alternative_koder?: string[]; // Other accepted answers (spellings, names)
   dagbokinnlegg: string; // Santa's diary entry for this day (required)
 
   // Physical setup for parents (required)
@@ -239,8 +338,59 @@ export interface Oppdrag {
   symbol_clue?: DecryptionSymbol; // Symbol clue hidden in the real world
   decryption_challenge?: DecryptionChallenge; // Symbol-based decryption puzzle
   print_materials?: PrintMaterial[]; // Additional print materials for parents
+  hint_trapp?: HintTrinn[]; // Hints from Rampenissen after failed codes
+
+  // Age-tiered alternatives (the quest itself is the "normal" level)
+  varianter?: Partial<Record<OppdragVariantNivå, OppdragVariant>>;
+}
+
+/**
+ * Difficulty level a family plays at (picked in nissemor-guide/innstillinger)
+ * lett: ~6-8 years, normal: ~9-12 years (the base quest), utfordrende: 12+
+ * @public - Stored per family in familyCredentials.difficulty
+ */
+export type OppdragNivå = "lett" | "normal" | "utfordrende";
+
+/**
+ * Levels that can have a variant (normal is the quest itself)
+ */
+export type OppdragVariantNivå = Exclude<OppdragNivå, "normal">;
+
+/**
+ * Alternative quest content for one difficulty level
+ * Fields left out keep the normal quest's value
+ * @public - Part of Oppdrag.varianter
+ */
+export interface OppdragVariant {
+  nissemail_tekst?: string;
+  kode?: string; // Different answer for this level
+  alternative_koder?: string[]; // Replaces the quest's alternatives when kode is set
+  fysisk_hint?: string;
+  rampenissen_rampestrek?: string;
+  materialer_nødvendig?: string[];
+  hint_trapp?: HintTrinn[]; // Replaces the whole ladder (hints follow the code)
 }
 
+/**
+ * One step of a quest's hint ladder, shown in KodeTerminal as a message
+ * from Rampenissen. Unlocks after `etter_forsok` failed codes or
+ * `etter_minutter` minutes after the first failed code that day, whichever
+ * comes first. Steps should get gradually more revealing.
+ * @public - Part of Oppdrag.hint_trapp
+ */
+export interface HintTrinn {
+  tekst: string;
+  etter_forsok?: number;
+  etter_minutter?: number;
+}
+
+/**
+ * How the hint ladder behaves for a family (picked in innstillinger)
+ * av: no hints, normal: as written, rask: thresholds are halved
+ * @public - Stored per family in familyCredentials.hintMode
+ */
+export type HintModus = "av" | "normal" | "rask";
+
 // Alert/warning message
 export interface Varsel {
   id?: string;
@@ -284,3 +434,78 @@ export interface CalendarEvent {
   dag: number; // Day 1-24
   hendelse: string; // Event description
 }
+
+/**
+ * Quest fields a parent can replace for their own family
+ * Unlocks, symbols and the story always stay as written
+ */
+export type OverstyrbartFelt =
+  | "tittel"
+  | "nissemail_tekst"
+  | "kode"
+  | "alternative_koder"
+  | "dagbokinnlegg"
+  | "rampenissen_rampestrek"
+  | "fysisk_hint"
+  | "oppsett_tid"
+  | "materialer_nødvendig"
+  | "beste_rom"
+  | "hint_type";
+
+/**
+ * A parent's replacement for one day (from nissemor-guide/oppdrag)
+ * Fields left out keep the quest as the family would otherwise play it
+ * @public - Stored per family in familyCredentials.questOverrides
+ */
+export interface OppdragOverstyring extends Partial<
+  Pick<Oppdrag, OverstyrbartFelt>
+> {
+  dag: number; // Day 1-24
+  egen_kode?: boolean; // Has its own code, left out for the kids' app (quest-answers.ts)
+}
+
+/**
+ * The answers of one quest, left out of the kids' browser bundle when codes
+ * are checked on the server (see quest-answers.ts)
+ * @public - Returned to nissemor-guide by /api/quest/answers
+ */
+export interface OppdragSvar {
+  dag: number;
+  kode: string;
+  alternative_koder?: string[];
+  varianter?: Partial<
+    Record<
+      OppdragVariantNivå,
+      Pick<OppdragVariant, "kode" | "alternative_koder">
+    >
+  >;
+  correctSequence?: number[]; // Only for days with a decryption challenge
+}
+
+/**
+ * Dates when no new day unlocks (holiday travel etc.), inclusive YYYY-MM-DD
+ */
+export interface KalenderPause {
+  fra: string;
+  til: string;
+}
+
+/**
+ * A family's own calendar (from nissemor-guide/innstillinger)
+ * Day 1 unlocks on `startdato`, then one day per date outside the pauses
+ * @public - Stored per family in familyCredentials.calendarSchedule
+ */
+export interface Kalenderplan {
+  startdato: string; // YYYY-MM-DD
+  pauser: KalenderPause[];
+}
+
+/**
+ * One child's own game state inside a family (see child-profiles.ts)
+ * `id` stays the same when the name is edited in innstillinger
+ * @public - Stored per family in familyCredentials.childProfiles
+ */
+export interface Barneprofil {
+  id: string;
+  navn: string;
+}